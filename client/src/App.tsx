@@ -7,6 +7,8 @@ import Landing from "@/pages/landing";
 import Dashboard from "@/pages/dashboard";
 import Payment from "@/pages/payment";
 import Admin from "@/pages/admin";
+import Properties from "@/pages/properties";
+import PropertyDetails from "@/pages/property-details";
 import ExpressInterest from "@/pages/express-interest";
 import ReservationDetails from "@/pages/reservation-details";
 import NotFound from "@/pages/not-found";
@@ -18,7 +20,9 @@ function Router() {
       <Route path="/dashboard" component={Dashboard} />
       <Route path="/payment" component={Payment} />
       <Route path="/admin" component={Admin} />
+      <Route path="/properties" component={Properties} />
       <Route path="/properties/:propertyId/express-interest" component={ExpressInterest} />
+      <Route path="/properties/:propertyId" component={PropertyDetails} />
       <Route path="/reservations/:reservationId" component={ReservationDetails} />
       <Route component={NotFound} />
     </Switch>
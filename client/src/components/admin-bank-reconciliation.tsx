@@ -0,0 +1,385 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Upload, Link2, EyeOff } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import type { BankTransaction } from "@shared/schema";
+
+interface BankTransactionWithMatch extends BankTransaction {
+  investorName: string | null;
+  propertyTitle: string | null;
+  transferReference: string | null;
+}
+
+interface BankTransferSlot {
+  slotId: string;
+  transferReference: string;
+  investorId: string | null;
+  investorName: string | null;
+  propertyId: string;
+  propertyTitle: string;
+  sharePercentage: string;
+  amount: string;
+  paymentStatus: string;
+}
+
+interface BankTransactionsResponse {
+  transactions: BankTransactionWithMatch[];
+  awaiting: BankTransferSlot[];
+}
+
+interface ImportResult {
+  imported: number;
+  duplicates: number;
+  skippedDebits: number;
+  matched: number;
+  unmatched: number;
+}
+
+const transactionStatusStyles: Record<string, { label: string; variant: "default" | "secondary" | "outline" }> = {
+  unmatched: { label: "Unmatched", variant: "outline" },
+  matched: { label: "Matched", variant: "default" },
+  ignored: { label: "Ignored", variant: "secondary" },
+};
+
+function formatAed(amount: string | number) {
+  return `AED ${Number(amount).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+interface AdminBankReconciliationProps {
+  canManage?: boolean;
+}
+
+export function AdminBankReconciliation({ canManage = false }: AdminBankReconciliationProps) {
+  const { toast } = useToast();
+  const [statusFilter, setStatusFilter] = useState("unmatched");
+  const [statementFile, setStatementFile] = useState<File | null>(null);
+  const [fileInputKey, setFileInputKey] = useState(0);
+  const [matchingTransaction, setMatchingTransaction] = useState<BankTransactionWithMatch | null>(null);
+  const [matchSlotId, setMatchSlotId] = useState("");
+  const [shortfallNote, setShortfallNote] = useState("");
+  const [ignoringTransaction, setIgnoringTransaction] = useState<BankTransactionWithMatch | null>(null);
+  const [ignoreNote, setIgnoreNote] = useState("");
+
+  const transactionsQueryKey = [`/api/admin/bank-transactions?status=${statusFilter}`];
+
+  const { data, isLoading } = useQuery<BankTransactionsResponse>({
+    queryKey: transactionsQueryKey,
+  });
+
+  const transactions = data?.transactions || [];
+  const awaiting = data?.awaiting || [];
+
+  const invalidate = () => {
+    // Every status filter shares the /api/admin/bank-transactions prefix
+    queryClient.invalidateQueries({
+      predicate: (query) => String(query.queryKey[0]).startsWith("/api/admin/bank-transactions"),
+    });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/properties"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/ledger/trial-balance"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/ledger/accounts"] });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Reconciliation Failed",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const importMutation = useMutation({
+    mutationFn: async () => {
+      const formData = new FormData();
+      formData.append("statement", statementFile!);
+      // Multipart uploads go through fetch so the browser sets the boundary
+      const response = await fetch("/api/admin/bank-statements", {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.message || "Import failed");
+      }
+      return (await response.json()) as ImportResult;
+    },
+    onSuccess: (result) => {
+      invalidate();
+      setStatementFile(null);
+      setFileInputKey(key => key + 1);
+      toast({
+        title: "Statement Imported",
+        description: `${result.imported} new credits, ${result.matched} matched automatically, ${result.unmatched} left to review${result.duplicates > 0 ? ` (${result.duplicates} already imported)` : ""}`,
+      });
+    },
+    onError,
+  });
+
+  const matchMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/admin/bank-transactions/${matchingTransaction!.id}/match`, {
+        slotId: matchSlotId,
+        shortfallNote: shortfall > 0 ? shortfallNote : undefined,
+      });
+      return await res.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      setMatchingTransaction(null);
+      toast({ title: "Transfer Matched", description: "The co-owner's share is now paid" });
+    },
+    onError,
+  });
+
+  const ignoreMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/admin/bank-transactions/${ignoringTransaction!.id}/ignore`, {
+        note: ignoreNote,
+      });
+      return await res.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      setIgnoringTransaction(null);
+      toast({ title: "Transaction Ignored" });
+    },
+    onError,
+  });
+
+  const openMatch = (transaction: BankTransactionWithMatch) => {
+    // Preselect the slot quoted in the remittance text, else the only one with the same amount
+    const remittance = (transaction.reference || "").toUpperCase().replace(/\s/g, "");
+    const quoted = awaiting.find(slot => remittance.includes(slot.transferReference.replace("-", "")) || remittance.includes(slot.transferReference));
+    const sameAmount = awaiting.filter(slot => slot.amount === Number(transaction.amount).toFixed(2));
+    setMatchSlotId(quoted?.slotId || (sameAmount.length === 1 ? sameAmount[0].slotId : ""));
+    setShortfallNote("");
+    setMatchingTransaction(transaction);
+  };
+
+  const selectedSlot = awaiting.find(slot => slot.slotId === matchSlotId);
+  const shortfall = selectedSlot && matchingTransaction ? Number(selectedSlot.amount) - Number(matchingTransaction.amount) : 0;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div>
+          <CardTitle>Bank Transfers</CardTitle>
+          <CardDescription>
+            Escrow statement credits, matched to co-owner shares by payment reference and amount
+            {awaiting.length > 0 && ` · ${awaiting.length} transfer${awaiting.length === 1 ? "" : "s"} awaited`}
+          </CardDescription>
+        </div>
+        <Select value={statusFilter} onValueChange={setStatusFilter}>
+          <SelectTrigger className="w-40" data-testid="select-bank-transaction-status">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="unmatched">Unmatched</SelectItem>
+            <SelectItem value="matched">Matched</SelectItem>
+            <SelectItem value="ignored">Ignored</SelectItem>
+            <SelectItem value="all">All</SelectItem>
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {canManage && (
+          <div className="flex flex-wrap items-end gap-3 border rounded-md p-4">
+            <div className="space-y-1 flex-1 min-w-64">
+              <Label htmlFor="bank-statement-file">Escrow Statement (CSV or camt.053 XML)</Label>
+              <Input
+                key={fileInputKey}
+                id="bank-statement-file"
+                type="file"
+                accept=".csv,.xml,text/csv,application/xml,text/xml"
+                onChange={(e) => setStatementFile(e.target.files?.[0] || null)}
+                data-testid="input-bank-statement"
+              />
+            </div>
+            <Button
+              onClick={() => importMutation.mutate()}
+              disabled={!statementFile || importMutation.isPending}
+              data-testid="button-import-statement"
+            >
+              <Upload className="h-4 w-4 mr-2" />
+              {importMutation.isPending ? "Importing..." : "Import Statement"}
+            </Button>
+          </div>
+        )}
+
+        {isLoading ? (
+          <p className="text-muted-foreground text-center py-6">Loading transactions...</p>
+        ) : transactions.length === 0 ? (
+          <p className="text-muted-foreground text-center py-6">No {statusFilter === "all" ? "" : `${statusFilter} `}bank transactions</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>From</TableHead>
+                <TableHead>Reference</TableHead>
+                <TableHead>Amount</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {transactions.map(transaction => {
+                const status = transactionStatusStyles[transaction.status] || { label: transaction.status, variant: "outline" as const };
+                return (
+                  <TableRow key={transaction.id} data-testid={`row-bank-transaction-${transaction.id}`}>
+                    <TableCell className="tabular-nums">{new Date(transaction.bookingDate).toLocaleDateString()}</TableCell>
+                    <TableCell>
+                      <div>{transaction.counterpartyName || "—"}</div>
+                      {transaction.counterpartyIban && (
+                        <div className="text-xs text-muted-foreground font-mono">{transaction.counterpartyIban}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="max-w-xs">
+                      <div className="text-sm break-words">{transaction.reference || "—"}</div>
+                      {transaction.status === "matched" ? (
+                        <div className="text-xs text-muted-foreground">
+                          {transaction.investorName} · {transaction.propertyTitle} · {transaction.matchedBy === "auto" ? "auto-matched" : "matched by hand"}
+                          {transaction.shortfallAmount && ` · ${formatAed(transaction.shortfallAmount)} short: ${transaction.matchNote}`}
+                        </div>
+                      ) : transaction.matchNote && (
+                        <div className="text-xs text-muted-foreground">{transaction.matchNote}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="tabular-nums">
+                      {transaction.currency === "AED" ? formatAed(transaction.amount) : `${transaction.currency} ${transaction.amount}`}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={status.variant}>{status.label}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      {canManage && transaction.status === "unmatched" && (
+                        <div className="flex justify-end gap-2">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => openMatch(transaction)}
+                            disabled={awaiting.length === 0}
+                            data-testid={`button-match-transaction-${transaction.id}`}
+                          >
+                            <Link2 className="h-4 w-4 mr-2" />
+                            Match
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => {
+                              setIgnoreNote("");
+                              setIgnoringTransaction(transaction);
+                            }}
+                            data-testid={`button-ignore-transaction-${transaction.id}`}
+                          >
+                            <EyeOff className="h-4 w-4 mr-2" />
+                            Ignore
+                          </Button>
+                        </div>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={!!matchingTransaction} onOpenChange={(open) => !open && setMatchingTransaction(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Match Bank Transfer</DialogTitle>
+            <DialogDescription>
+              {matchingTransaction && `${formatAed(matchingTransaction.amount)} from ${matchingTransaction.counterpartyName || "unknown sender"} - "${matchingTransaction.reference || "no reference"}"`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label>Co-Owner Share</Label>
+            <Select value={matchSlotId} onValueChange={setMatchSlotId}>
+              <SelectTrigger data-testid="select-match-slot">
+                <SelectValue placeholder="Select the share this transfer pays for" />
+              </SelectTrigger>
+              <SelectContent>
+                {awaiting.map(slot => (
+                  <SelectItem key={slot.slotId} value={slot.slotId}>
+                    {slot.transferReference} · {slot.investorName || "Unclaimed"} · {slot.propertyTitle} · {formatAed(slot.amount)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {selectedSlot && shortfall < 0 && (
+              <p className="text-xs text-destructive">
+                The transfer is more than the {formatAed(selectedSlot.amount)} due for this share. Refund the excess to the sender instead.
+              </p>
+            )}
+          </div>
+          {selectedSlot && shortfall > 0 && (
+            <div className="space-y-2">
+              <Label htmlFor="shortfall-note">Accept {formatAed(shortfall)} Shortfall</Label>
+              <Textarea
+                id="shortfall-note"
+                value={shortfallNote}
+                onChange={(e) => setShortfallNote(e.target.value)}
+                placeholder="Why the share counts as paid, e.g. bank charges deducted in transit"
+                data-testid="input-shortfall-note"
+              />
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setMatchingTransaction(null)}>Cancel</Button>
+            <Button
+              onClick={() => matchMutation.mutate()}
+              disabled={!matchSlotId || shortfall < 0 || (shortfall > 0 && shortfallNote.trim().length < 3) || matchMutation.isPending}
+              data-testid="button-confirm-match"
+            >
+              {matchMutation.isPending ? "Matching..." : "Match & Complete Payment"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!ignoringTransaction} onOpenChange={(open) => !open && setIgnoringTransaction(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Ignore Transaction</DialogTitle>
+            <DialogDescription>
+              For credits that are not co-owner payments, such as developer transfers or bank interest
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="ignore-note">Note</Label>
+            <Textarea
+              id="ignore-note"
+              value={ignoreNote}
+              onChange={(e) => setIgnoreNote(e.target.value)}
+              placeholder="Recorded in the audit trail"
+              data-testid="input-ignore-note"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIgnoringTransaction(null)}>Cancel</Button>
+            <Button
+              onClick={() => ignoreMutation.mutate()}
+              disabled={ignoreNote.trim().length < 3 || ignoreMutation.isPending}
+              data-testid="button-confirm-ignore"
+            >
+              {ignoreMutation.isPending ? "Saving..." : "Ignore"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,324 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Upload, FileText, Trash2, Coins } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import type { MilestoneTimelineResponse, ConstructionMilestoneItem } from "@/components/construction-timeline";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import type { Property, PaymentPlanInstalment } from "@shared/schema";
+
+interface UpdateResponse {
+  triggeredInstalments: PaymentPlanInstalment[];
+}
+
+// Multipart uploads go through fetch so the browser sets the boundary
+async function uploadFiles(url: string, formData: FormData) {
+  const response = await fetch(url, {
+    method: "POST",
+    body: formData,
+    credentials: "include",
+  });
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.message || "Upload failed");
+  }
+  return await response.json();
+}
+
+interface AdminConstructionProgressProps {
+  property: Property | null;
+  onClose: () => void;
+}
+
+export function AdminConstructionProgress({ property, onClose }: AdminConstructionProgressProps) {
+  const { toast } = useToast();
+  const [stage, setStage] = useState<string | null>(null);
+  const [percentComplete, setPercentComplete] = useState("");
+  const [note, setNote] = useState("");
+  const [expectedDate, setExpectedDate] = useState("");
+  const [photos, setPhotos] = useState<FileList | null>(null);
+  const [certificate, setCertificate] = useState<File | null>(null);
+  const [fileInputKey, setFileInputKey] = useState(0);
+
+  const milestonesQueryKey = ["/api/properties", property?.id, "milestones"];
+
+  const { data, isLoading } = useQuery<MilestoneTimelineResponse>({
+    queryKey: milestonesQueryKey,
+    enabled: !!property,
+  });
+
+  const milestones = data?.milestones || [];
+  const selected: ConstructionMilestoneItem | undefined =
+    milestones.find(m => m.stage === stage) || milestones.find(m => !m.completedAt) || milestones[milestones.length - 1];
+  const baseUrl = property && selected ? `/api/admin/properties/${property.id}/milestones/${selected.stage}` : "";
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Construction Update Failed",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const onUploaded = () => {
+    queryClient.invalidateQueries({ queryKey: milestonesQueryKey });
+    setPhotos(null);
+    setCertificate(null);
+    setFileInputKey(key => key + 1);
+  };
+
+  const updateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `${baseUrl}/updates`, {
+        percentComplete,
+        note,
+        expectedCompletionDate: expectedDate || undefined,
+      });
+      return (await res.json()) as UpdateResponse;
+    },
+    onSuccess: ({ triggeredInstalments }) => {
+      queryClient.invalidateQueries({ queryKey: milestonesQueryKey });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/properties", property?.id, "payment-plan"] });
+      setPercentComplete("");
+      setNote("");
+      setExpectedDate("");
+      toast({
+        title: "Update Posted",
+        description: triggeredInstalments.length > 0
+          ? `Stage complete - ${triggeredInstalments.map(i => i.label).join(", ")} now due`
+          : undefined,
+      });
+    },
+    onError,
+  });
+
+  const photoMutation = useMutation({
+    mutationFn: async () => {
+      const formData = new FormData();
+      Array.from(photos || []).forEach(file => formData.append("files", file));
+      return await uploadFiles(`${baseUrl}/photos`, formData);
+    },
+    onSuccess: () => {
+      onUploaded();
+      toast({ title: "Photos Uploaded" });
+    },
+    onError,
+  });
+
+  const certificateMutation = useMutation({
+    mutationFn: async () => {
+      const formData = new FormData();
+      formData.append("certificate", certificate!);
+      return await uploadFiles(`${baseUrl}/certificate`, formData);
+    },
+    onSuccess: () => {
+      onUploaded();
+      toast({ title: "Certificate Uploaded" });
+    },
+    onError,
+  });
+
+  const deletePhotoMutation = useMutation({
+    mutationFn: async (mediaId: string) => {
+      await apiRequest("DELETE", `/api/admin/properties/${property!.id}/media/${mediaId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: milestonesQueryKey });
+    },
+    onError,
+  });
+
+  return (
+    <Dialog open={!!property} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Construction Progress - {property?.title}</DialogTitle>
+          <DialogDescription>
+            Completing a stage starts the payment window of the instalments linked to it.
+            {data && ` Overall progress: ${data.overallProgress}%`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !selected ? (
+          <p className="text-muted-foreground text-center py-6">Loading milestones...</p>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid grid-cols-5 gap-2">
+              {milestones.map(milestone => (
+                <button
+                  key={milestone.id}
+                  type="button"
+                  onClick={() => setStage(milestone.stage)}
+                  className={`rounded-md border p-2 text-left space-y-1 ${milestone.id === selected.id ? "border-primary bg-primary/5" : ""}`}
+                  data-testid={`button-stage-${milestone.stage}`}
+                >
+                  <div className="text-sm font-medium">{milestone.label}</div>
+                  <Progress value={milestone.percentComplete} className="h-1.5" />
+                  <div className="text-xs text-muted-foreground tabular-nums">
+                    {milestone.completedAt ? "Complete" : `${milestone.percentComplete}%`}
+                  </div>
+                </button>
+              ))}
+            </div>
+
+            {selected.instalments.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {selected.instalments.map(instalment => (
+                  <Badge key={instalment.id} variant="outline" className="gap-1">
+                    <Coins className="h-3 w-3" />
+                    {instalment.label} ({Number(instalment.percentage)}%)
+                    {instalment.triggeredAt ? ` · triggered ${format(new Date(instalment.triggeredAt), "MMM d, yyyy")}` : " · awaiting completion"}
+                  </Badge>
+                ))}
+              </div>
+            )}
+
+            <div className="border rounded-md p-4 space-y-3">
+              <h3 className="font-semibold">Post Update - {selected.label}</h3>
+              <div className="grid sm:grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor="construction-percent">Percent Complete</Label>
+                  <Input
+                    id="construction-percent"
+                    type="number"
+                    min="0"
+                    max="100"
+                    value={percentComplete}
+                    onChange={(e) => setPercentComplete(e.target.value)}
+                    placeholder={selected.percentComplete.toString()}
+                    data-testid="input-construction-percent"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="construction-expected">Expected Completion</Label>
+                  <Input
+                    id="construction-expected"
+                    type="date"
+                    value={expectedDate}
+                    onChange={(e) => setExpectedDate(e.target.value)}
+                    data-testid="input-construction-expected"
+                  />
+                </div>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="construction-note">Update</Label>
+                <Textarea
+                  id="construction-note"
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  placeholder="e.g. Level 12 slab poured"
+                  data-testid="input-construction-note"
+                />
+              </div>
+              <Button
+                onClick={() => updateMutation.mutate()}
+                disabled={!percentComplete || !note.trim() || updateMutation.isPending}
+                data-testid="button-post-construction-update"
+              >
+                {updateMutation.isPending ? "Posting..." : "Post Update"}
+              </Button>
+            </div>
+
+            <div className="grid sm:grid-cols-2 gap-4">
+              <div className="border rounded-md p-4 space-y-2">
+                <Label htmlFor="construction-photos">Site Photos</Label>
+                <Input
+                  key={`photos-${fileInputKey}`}
+                  id="construction-photos"
+                  type="file"
+                  multiple
+                  accept="image/jpeg,image/png,image/webp"
+                  onChange={(e) => setPhotos(e.target.files)}
+                  data-testid="input-construction-photos"
+                />
+                <Button
+                  size="sm"
+                  onClick={() => photoMutation.mutate()}
+                  disabled={!photos || photos.length === 0 || photoMutation.isPending}
+                  data-testid="button-upload-construction-photos"
+                >
+                  <Upload className="h-4 w-4 mr-2" />
+                  {photoMutation.isPending ? "Uploading..." : "Upload Photos"}
+                </Button>
+              </div>
+              <div className="border rounded-md p-4 space-y-2">
+                <Label htmlFor="construction-certificate">Progress Certificate (PDF)</Label>
+                <Input
+                  key={`certificate-${fileInputKey}`}
+                  id="construction-certificate"
+                  type="file"
+                  accept="application/pdf"
+                  onChange={(e) => setCertificate(e.target.files?.[0] || null)}
+                  data-testid="input-construction-certificate"
+                />
+                <div className="flex items-center gap-2">
+                  <Button
+                    size="sm"
+                    onClick={() => certificateMutation.mutate()}
+                    disabled={!certificate || certificateMutation.isPending}
+                    data-testid="button-upload-certificate"
+                  >
+                    <Upload className="h-4 w-4 mr-2" />
+                    {selected.certificateUrl ? "Replace" : "Upload"}
+                  </Button>
+                  {selected.certificateUrl && (
+                    <Button size="sm" variant="ghost" asChild>
+                      <a href={selected.certificateUrl} target="_blank" rel="noreferrer" data-testid="link-current-certificate">
+                        <FileText className="h-4 w-4 mr-2" />
+                        {selected.certificateFilename}
+                      </a>
+                    </Button>
+                  )}
+                </div>
+              </div>
+            </div>
+
+            {selected.photos.length > 0 && (
+              <div className="grid grid-cols-3 sm:grid-cols-5 gap-2">
+                {selected.photos.map(photo => (
+                  <div key={photo.id} className="relative group aspect-[4/3] rounded overflow-hidden bg-muted">
+                    <img src={photo.thumbnailUrl || photo.url} alt={photo.caption || selected.label} className="w-full h-full object-cover" />
+                    <Button
+                      size="icon"
+                      variant="secondary"
+                      className="absolute top-1 right-1 h-7 w-7 opacity-0 group-hover:opacity-100"
+                      onClick={() => deletePhotoMutation.mutate(photo.id)}
+                      disabled={deletePhotoMutation.isPending}
+                      data-testid={`button-delete-construction-photo-${photo.id}`}
+                    >
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <h3 className="font-semibold">History</h3>
+              {selected.updates.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No updates posted for this stage yet</p>
+              ) : (
+                selected.updates.map(update => (
+                  <div key={update.id} className="text-sm border-l-2 border-muted pl-3">
+                    <div className="text-xs text-muted-foreground">
+                      {format(new Date(update.createdAt), "MMM d, yyyy HH:mm")} · {update.percentComplete}%
+                    </div>
+                    <p>{update.note}</p>
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
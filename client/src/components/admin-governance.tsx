@@ -0,0 +1,365 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Download, Plus, ShieldAlert, ShieldCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { governanceCategories, governanceCategoryLabels } from "@shared/schema";
+import type { GovernanceProposal, GovernanceVote, Property } from "@shared/schema";
+import { ProposalTally, choiceLabels, proposalStatusLabels, type GovernanceProposalSummary } from "@/components/governance-proposals";
+
+interface AdminGovernanceProposal extends GovernanceProposalSummary {
+  votes: GovernanceVote[];
+  chainIntact: boolean;
+}
+
+interface AdminGovernanceResponse {
+  proposals: AdminGovernanceProposal[];
+  defaults: { quorumPercentage: number; thresholdPercentage: number };
+}
+
+interface PropertyListResponse {
+  properties: Property[];
+}
+
+const emptyProposal = {
+  category: "major_repair",
+  title: "",
+  description: "",
+  deadline: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10),
+  quorumPercentage: "",
+  thresholdPercentage: "",
+};
+
+interface AdminGovernanceProps {
+  canManage?: boolean;
+}
+
+export function AdminGovernance({ canManage = false }: AdminGovernanceProps) {
+  const { toast } = useToast();
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [propertyId, setPropertyId] = useState<string | null>(null);
+  const [proposal, setProposal] = useState(emptyProposal);
+  const [viewing, setViewing] = useState<AdminGovernanceProposal | null>(null);
+  const [cancelling, setCancelling] = useState<AdminGovernanceProposal | null>(null);
+  const [reason, setReason] = useState("");
+
+  const { data, isLoading } = useQuery<AdminGovernanceResponse>({
+    queryKey: ["/api/admin/governance/proposals"],
+  });
+  const { data: propertyList } = useQuery<PropertyListResponse>({
+    queryKey: ["/api/properties?pageSize=50"],
+    enabled: canManage,
+  });
+  const proposals = data?.proposals || [];
+  const properties = propertyList?.properties || [];
+  const selectedPropertyId = propertyId || properties[0]?.id || "";
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Governance Action Failed",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/admin/properties/${selectedPropertyId}/proposals`, {
+        category: proposal.category,
+        title: proposal.title,
+        description: proposal.description,
+        deadline: new Date(`${proposal.deadline}T23:59:00`).toISOString(),
+        quorumPercentage: proposal.quorumPercentage ? Number(proposal.quorumPercentage) : undefined,
+        thresholdPercentage: proposal.thresholdPercentage ? Number(proposal.thresholdPercentage) : undefined,
+      });
+      return (await res.json()) as GovernanceProposal;
+    },
+    onSuccess: (created) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/governance/proposals"] });
+      setIsCreateOpen(false);
+      setProposal(emptyProposal);
+      toast({ title: "Proposal Opened", description: `Co-owners have been asked to vote on "${created.title}"` });
+    },
+    onError,
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (proposalId: string) => {
+      const res = await apiRequest("POST", `/api/admin/governance/proposals/${proposalId}/cancel`, { reason });
+      return (await res.json()) as GovernanceProposal;
+    },
+    onSuccess: (cancelled) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/governance/proposals"] });
+      setCancelling(null);
+      setReason("");
+      toast({ title: "Proposal Cancelled", description: cancelled.title });
+    },
+    onError,
+  });
+
+  return (
+    <Card data-testid="card-admin-governance">
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Co-owner Governance</CardTitle>
+          <CardDescription>
+            Decisions put to each property's co-owners. Votes are weighted by share, confirmed by one-time code and chained by hash so the record can't be altered.
+          </CardDescription>
+        </div>
+        {canManage && (
+          <Button size="sm" onClick={() => setIsCreateOpen(true)} data-testid="button-admin-new-proposal">
+            <Plus className="h-4 w-4 mr-2" />
+            New Proposal
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : proposals.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">No proposals have been put to co-owners yet</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Proposal</TableHead>
+                <TableHead>Tally</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {proposals.map(item => (
+                <TableRow key={item.id} data-testid={`row-admin-proposal-${item.id}`}>
+                  <TableCell className="max-w-xs">
+                    <p className="font-medium">{item.title}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {item.propertyTitle} · {governanceCategoryLabels[item.category as keyof typeof governanceCategoryLabels] || item.category}
+                      {` · closes ${new Date(item.deadline).toLocaleDateString()}`}
+                    </p>
+                  </TableCell>
+                  <TableCell className="min-w-64">
+                    <ProposalTally proposal={item} />
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={item.status === "passed" ? "default" : item.status === "open" ? "secondary" : "destructive"}>
+                      {proposalStatusLabels[item.status] || item.status}
+                    </Badge>
+                    {!item.chainIntact && (
+                      <p className="text-xs text-destructive mt-1">Ballot record altered</p>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right space-x-2 whitespace-nowrap">
+                    {item.resolutionNumber && (
+                      <Button asChild size="sm" variant="ghost">
+                        <a href={`/api/admin/governance/proposals/${item.id}/resolution`} data-testid={`link-admin-resolution-${item.id}`}>
+                          <Download className="h-4 w-4" />
+                        </a>
+                      </Button>
+                    )}
+                    <Button size="sm" variant="outline" onClick={() => setViewing(item)} data-testid={`button-view-ballots-${item.id}`}>
+                      Ballots
+                    </Button>
+                    {canManage && item.status === "open" && (
+                      <Button size="sm" variant="outline" onClick={() => setCancelling(item)} data-testid={`button-cancel-proposal-${item.id}`}>
+                        Cancel
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={!!viewing} onOpenChange={(open) => !open && setViewing(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              {viewing?.chainIntact ? <ShieldCheck className="h-5 w-5 text-green-600" /> : <ShieldAlert className="h-5 w-5 text-destructive" />}
+              Ballot Record
+            </DialogTitle>
+            <DialogDescription>
+              {viewing && (viewing.chainIntact
+                ? `Every ballot on "${viewing.title}" matches its hash and links to the one before it.`
+                : `The ballot record for "${viewing.title}" no longer matches its hashes.`)}
+            </DialogDescription>
+          </DialogHeader>
+          {viewing && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Co-owner</TableHead>
+                  <TableHead>Vote</TableHead>
+                  <TableHead>Cast</TableHead>
+                  <TableHead>From</TableHead>
+                  <TableHead>Hash</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {viewing.ballots.map(ballot => {
+                  const vote = viewing.votes.find(v => v.investorId === ballot.investorId);
+                  return (
+                    <TableRow key={ballot.investorId}>
+                      <TableCell>{ballot.investorName} ({Number(ballot.sharePercentage)}%)</TableCell>
+                      <TableCell>{ballot.choice ? choiceLabels[ballot.choice] : "Not voted"}</TableCell>
+                      <TableCell className="text-xs">{vote ? new Date(vote.castAt).toLocaleString() : "-"}</TableCell>
+                      <TableCell className="text-xs">{vote?.ipAddress || "-"}</TableCell>
+                      <TableCell className="font-mono text-xs">{vote ? `${vote.ballotHash.slice(0, 12)}…` : "-"}</TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New Proposal</DialogTitle>
+            <DialogDescription>
+              Every co-owner of the property is emailed and asked to vote. Leave quorum and threshold blank for
+              {` ${data?.defaults.quorumPercentage ?? 75}% and ${data?.defaults.thresholdPercentage ?? 75}%`}.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Property</Label>
+              <Select value={selectedPropertyId} onValueChange={setPropertyId}>
+                <SelectTrigger data-testid="select-admin-proposal-property">
+                  <SelectValue placeholder="Choose a property" />
+                </SelectTrigger>
+                <SelectContent>
+                  {properties.map(property => (
+                    <SelectItem key={property.id} value={property.id}>{property.title}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Decision</Label>
+              <Select value={proposal.category} onValueChange={(category) => setProposal({ ...proposal, category })}>
+                <SelectTrigger data-testid="select-admin-proposal-category">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {governanceCategories.map(option => (
+                    <SelectItem key={option} value={option}>{governanceCategoryLabels[option]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="admin-proposal-title">Title</Label>
+              <Input
+                id="admin-proposal-title"
+                value={proposal.title}
+                onChange={(e) => setProposal({ ...proposal, title: e.target.value })}
+                data-testid="input-admin-proposal-title"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="admin-proposal-description">Details</Label>
+              <Textarea
+                id="admin-proposal-description"
+                value={proposal.description}
+                onChange={(e) => setProposal({ ...proposal, description: e.target.value })}
+                rows={4}
+                data-testid="input-admin-proposal-description"
+              />
+            </div>
+            <div className="grid grid-cols-3 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="admin-proposal-deadline">Voting closes</Label>
+                <Input
+                  id="admin-proposal-deadline"
+                  type="date"
+                  value={proposal.deadline}
+                  onChange={(e) => setProposal({ ...proposal, deadline: e.target.value })}
+                  data-testid="input-admin-proposal-deadline"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="admin-proposal-quorum">Quorum %</Label>
+                <Input
+                  id="admin-proposal-quorum"
+                  type="number"
+                  min={1}
+                  max={100}
+                  value={proposal.quorumPercentage}
+                  onChange={(e) => setProposal({ ...proposal, quorumPercentage: e.target.value })}
+                  data-testid="input-admin-proposal-quorum"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="admin-proposal-threshold">Threshold %</Label>
+                <Input
+                  id="admin-proposal-threshold"
+                  type="number"
+                  min={51}
+                  max={100}
+                  value={proposal.thresholdPercentage}
+                  onChange={(e) => setProposal({ ...proposal, thresholdPercentage: e.target.value })}
+                  data-testid="input-admin-proposal-threshold"
+                />
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsCreateOpen(false)}>Cancel</Button>
+            <Button
+              onClick={() => createMutation.mutate()}
+              disabled={createMutation.isPending || !selectedPropertyId || proposal.title.trim().length < 3 || proposal.description.trim().length < 10}
+              data-testid="button-admin-submit-proposal"
+            >
+              {createMutation.isPending ? "Opening..." : "Open Vote"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!cancelling} onOpenChange={(open) => !open && setCancelling(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Cancel Proposal</DialogTitle>
+            <DialogDescription>
+              Voting stops and no decision is recorded. Ballots already cast stay on the record.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="proposal-cancel-reason">Reason</Label>
+            <Textarea
+              id="proposal-cancel-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              data-testid="input-proposal-cancel-reason"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCancelling(null)}>Back</Button>
+            <Button
+              variant="destructive"
+              onClick={() => cancelling && cancelMutation.mutate(cancelling.id)}
+              disabled={cancelMutation.isPending || reason.trim().length < 3}
+              data-testid="button-confirm-cancel-proposal"
+            >
+              {cancelMutation.isPending ? "Cancelling..." : "Cancel Proposal"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
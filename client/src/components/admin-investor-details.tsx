@@ -0,0 +1,133 @@
+import { useQuery } from "@tanstack/react-query";
+import { Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { Investor, Payment } from "@shared/schema";
+
+interface InvestorPayment extends Payment {
+  propertyTitle: string;
+  sharePercentage: string | null;
+  receiptNumber: string | null;
+}
+
+interface InvestorPaymentsResponse {
+  payments: InvestorPayment[];
+}
+
+// Payments that have (or will be issued) a receipt
+const receiptPaymentStatuses = ["completed", "partially_refunded", "refunded"];
+
+interface AdminInvestorDetailsProps {
+  investor: Investor | null;
+  onClose: () => void;
+  canViewPayments?: boolean;
+}
+
+export function AdminInvestorDetails({ investor, onClose, canViewPayments = false }: AdminInvestorDetailsProps) {
+  const { data, isLoading } = useQuery<InvestorPaymentsResponse>({
+    queryKey: ["/api/admin/investors", investor?.id, "payments"],
+    enabled: !!investor && canViewPayments,
+  });
+  const payments = data?.payments || [];
+
+  return (
+    <Dialog open={!!investor} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>{investor?.fullName}</DialogTitle>
+          <DialogDescription>{investor?.email}</DialogDescription>
+        </DialogHeader>
+
+        {investor && (
+          <div className="space-y-6">
+            <div className="grid grid-cols-2 gap-4 text-sm">
+              <div>
+                <p className="text-muted-foreground">Phone</p>
+                <p className="font-medium">{investor.phone}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Preferred Language</p>
+                <p className="font-medium">{investor.preferredLanguage === "ar" ? "Arabic" : "English"}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">KYC</p>
+                <Badge variant={investor.kycStatus === "approved" ? "default" : "secondary"} className="capitalize">
+                  {investor.kycStatus}
+                </Badge>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Fractions</p>
+                <p className="font-medium tabular-nums">{investor.fractionsPurchased}</p>
+              </div>
+            </div>
+
+            {canViewPayments && (
+              <div className="space-y-2">
+                <h4 className="font-semibold">Payments & Receipts</h4>
+                {isLoading ? (
+                  <p className="text-sm text-muted-foreground py-4 text-center">Loading payments...</p>
+                ) : payments.length === 0 ? (
+                  <p className="text-sm text-muted-foreground py-4 text-center">No payments</p>
+                ) : (
+                  <div className="rounded-lg border overflow-x-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Date</TableHead>
+                          <TableHead>Property</TableHead>
+                          <TableHead className="text-right">Amount</TableHead>
+                          <TableHead>Status</TableHead>
+                          <TableHead>Receipt</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {payments.map(payment => (
+                          <TableRow key={payment.id} data-testid={`row-investor-payment-${payment.id}`}>
+                            <TableCell className="tabular-nums">
+                              {new Date(payment.completedAt || payment.createdAt).toLocaleDateString()}
+                            </TableCell>
+                            <TableCell>
+                              {payment.propertyTitle}
+                              {payment.sharePercentage && (
+                                <span className="text-xs text-muted-foreground"> · {Number(payment.sharePercentage)}%</span>
+                              )}
+                            </TableCell>
+                            <TableCell className="text-right tabular-nums">
+                              AED {Number(payment.amount).toLocaleString()}
+                            </TableCell>
+                            <TableCell>
+                              <Badge variant={payment.status === "completed" ? "default" : "secondary"} className="capitalize">
+                                {payment.status.replace("_", " ")}
+                              </Badge>
+                            </TableCell>
+                            <TableCell>
+                              {receiptPaymentStatuses.includes(payment.status) ? (
+                                <Button size="sm" variant="outline" asChild>
+                                  <a
+                                    href={`/api/admin/payments/${payment.id}/receipt`}
+                                    data-testid={`button-admin-receipt-${payment.id}`}
+                                  >
+                                    <Download className="h-3 w-3 mr-1" />
+                                    {payment.receiptNumber || "Issue"}
+                                  </a>
+                                </Button>
+                              ) : (
+                                <span className="text-xs text-muted-foreground">—</span>
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,168 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { LedgerAccount, JournalEntry } from "@shared/schema";
+
+interface TrialBalanceRow {
+  account: LedgerAccount;
+  debits: string;
+  credits: string;
+  balance: string;
+}
+
+interface TrialBalanceResponse {
+  accounts: TrialBalanceRow[];
+  totals: { debits: string; credits: string; balanced: boolean };
+  generatedAt: string;
+}
+
+interface AccountStatementResponse {
+  account: LedgerAccount;
+  balance: string;
+  lines: Array<{ entry: JournalEntry; debit: string; credit: string; runningBalance: string }>;
+}
+
+const accountTypeLabels: Record<string, string> = {
+  asset: "Assets",
+  liability: "Liabilities",
+  equity: "Equity",
+  income: "Income",
+  expense: "Expenses",
+};
+
+function formatAmount(amount: string | number) {
+  const value = Number(amount);
+  return value === 0 ? "—" : value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+export function AdminLedger() {
+  const [selectedAccountId, setSelectedAccountId] = useState<string | null>(null);
+
+  const { data, isLoading } = useQuery<TrialBalanceResponse>({
+    queryKey: ["/api/admin/ledger/trial-balance"],
+  });
+
+  const { data: statement, isLoading: isStatementLoading } = useQuery<AccountStatementResponse>({
+    queryKey: ["/api/admin/ledger/accounts", selectedAccountId],
+    enabled: !!selectedAccountId,
+  });
+
+  const rows = data?.accounts || [];
+  const accountTypes = Object.keys(accountTypeLabels).filter(type => rows.some(row => row.account.accountType === type));
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div>
+          <CardTitle>Trial Balance</CardTitle>
+          <CardDescription>
+            Debit and credit totals for every ledger account, in AED
+            {data && ` · as of ${new Date(data.generatedAt).toLocaleString()}`}
+          </CardDescription>
+        </div>
+        {data && (
+          <Badge variant={data.totals.balanced ? "default" : "destructive"} data-testid="badge-trial-balance">
+            {data.totals.balanced ? "Balanced" : "Out of balance"}
+          </Badge>
+        )}
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-muted-foreground text-center py-6">Loading ledger...</p>
+        ) : rows.length === 0 ? (
+          <p className="text-muted-foreground text-center py-6">No journal entries yet</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Account</TableHead>
+                <TableHead className="text-right">Debits</TableHead>
+                <TableHead className="text-right">Credits</TableHead>
+                <TableHead className="text-right">Balance</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {accountTypes.map(type => [
+                <TableRow key={type} className="bg-muted/50 hover:bg-muted/50">
+                  <TableCell colSpan={4} className="font-semibold">{accountTypeLabels[type]}</TableCell>
+                </TableRow>,
+                ...rows.filter(row => row.account.accountType === type).map(row => (
+                  <TableRow key={row.account.id} data-testid={`row-ledger-account-${row.account.id}`}>
+                    <TableCell>
+                      <button
+                        type="button"
+                        className="text-left hover:underline"
+                        onClick={() => setSelectedAccountId(row.account.id)}
+                        data-testid={`button-ledger-account-${row.account.id}`}
+                      >
+                        {row.account.name}
+                      </button>
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums">{formatAmount(row.debits)}</TableCell>
+                    <TableCell className="text-right tabular-nums">{formatAmount(row.credits)}</TableCell>
+                    <TableCell className="text-right tabular-nums font-medium">{formatAmount(row.balance)}</TableCell>
+                  </TableRow>
+                )),
+              ])}
+            </TableBody>
+            {data && (
+              <TableFooter>
+                <TableRow>
+                  <TableCell className="font-semibold">Total</TableCell>
+                  <TableCell className="text-right tabular-nums font-semibold">{formatAmount(data.totals.debits)}</TableCell>
+                  <TableCell className="text-right tabular-nums font-semibold">{formatAmount(data.totals.credits)}</TableCell>
+                  <TableCell></TableCell>
+                </TableRow>
+              </TableFooter>
+            )}
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={!!selectedAccountId} onOpenChange={(open) => !open && setSelectedAccountId(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>{statement?.account.name || "Account"}</DialogTitle>
+            <DialogDescription>
+              {statement && `${statement.account.code} · balance AED ${formatAmount(statement.balance)}`}
+            </DialogDescription>
+          </DialogHeader>
+          {isStatementLoading ? (
+            <p className="text-muted-foreground text-center py-6">Loading entries...</p>
+          ) : (
+            <div className="max-h-[60vh] overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Entry</TableHead>
+                    <TableHead className="text-right">Debit</TableHead>
+                    <TableHead className="text-right">Credit</TableHead>
+                    <TableHead className="text-right">Balance</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {(statement?.lines || []).map((line, index) => (
+                    <TableRow key={`${line.entry.id}-${index}`}>
+                      <TableCell className="tabular-nums whitespace-nowrap">{new Date(line.entry.postedAt).toLocaleDateString()}</TableCell>
+                      <TableCell>
+                        <div className="text-sm">{line.entry.description}</div>
+                        <div className="text-xs text-muted-foreground">{line.entry.entryType.replace(/_/g, " ")}</div>
+                      </TableCell>
+                      <TableCell className="text-right tabular-nums">{formatAmount(line.debit)}</TableCell>
+                      <TableCell className="text-right tabular-nums">{formatAmount(line.credit)}</TableCell>
+                      <TableCell className="text-right tabular-nums">{formatAmount(line.runningBalance)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
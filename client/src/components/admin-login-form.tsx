@@ -22,12 +22,23 @@ export function AdminLoginForm({ onLoginSuccess }: AdminLoginFormProps) {
   });
 
   const onSubmit = async (data: z.infer<typeof adminLoginSchema>) => {
-    if (data.email === "admin@fopd.ae" && data.password === "admin123") {
-      onLoginSuccess();
-    } else {
-      form.setError("password", {
-        message: "Invalid credentials",
+    try {
+      const response = await fetch("/api/admin/login", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+        credentials: "include",
       });
+
+      if (!response.ok) {
+        const error = await response.json();
+        form.setError("password", { message: error.message || "Invalid credentials" });
+        return;
+      }
+
+      onLoginSuccess();
+    } catch (error: any) {
+      form.setError("password", { message: "Login failed. Please try again." });
     }
   };
 
@@ -84,16 +95,16 @@ export function AdminLoginForm({ onLoginSuccess }: AdminLoginFormProps) {
                 )}
               />
 
-              <Button type="submit" className="w-full" size="lg" data-testid="button-admin-login">
+              <Button 
+                type="submit" 
+                className="w-full" 
+                size="lg" 
+                disabled={form.formState.isSubmitting}
+                data-testid="button-admin-login"
+              >
                 <Lock className="mr-2 h-4 w-4" />
-                Login to Admin Panel
+                {form.formState.isSubmitting ? "Signing in..." : "Login to Admin Panel"}
               </Button>
-
-              <div className="text-center">
-                <p className="text-xs text-muted-foreground">
-                  Demo credentials: admin@fopd.ae / admin123
-                </p>
-              </div>
             </form>
           </Form>
         </CardContent>
@@ -0,0 +1,514 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Plus, Trash2, Pencil, Flag, Banknote, AlertCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { InstalmentStatusBadge, type InstalmentDue } from "@/components/instalment-status-badge";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { constructionStages, constructionStageLabels, type Property, type PaymentPlanInstalment, type ConstructionStage } from "@shared/schema";
+
+interface PropertyListResponse {
+  properties: Property[];
+  total: number;
+}
+
+interface PropertyInstalmentDue extends InstalmentDue {
+  investorId: string | null;
+  investorName: string | null;
+  slotNumber: number;
+}
+
+interface PaymentPlanResponse {
+  instalments: PaymentPlanInstalment[];
+  schedule: PropertyInstalmentDue[];
+}
+
+interface InstalmentFormRow {
+  label: string;
+  percentage: string;
+  triggerType: "date" | "milestone";
+  dueDate: string;
+  milestoneStage: ConstructionStage;
+  paymentWindowDays: string;
+}
+
+const emptyRow: InstalmentFormRow = {
+  label: "",
+  percentage: "",
+  triggerType: "date",
+  dueDate: "",
+  milestoneStage: "foundation",
+  paymentWindowDays: "30",
+};
+
+function toFormRow(instalment: PaymentPlanInstalment): InstalmentFormRow {
+  return {
+    label: instalment.label,
+    percentage: Number(instalment.percentage).toString(),
+    triggerType: instalment.triggerType as InstalmentFormRow["triggerType"],
+    dueDate: instalment.triggerType === "date" && instalment.dueDate
+      ? new Date(instalment.dueDate).toISOString().slice(0, 10)
+      : "",
+    milestoneStage: (instalment.milestoneStage as ConstructionStage) || "foundation",
+    paymentWindowDays: instalment.paymentWindowDays.toString(),
+  };
+}
+
+function formatAed(amount: string | number) {
+  return `AED ${Number(amount).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+interface AdminPaymentPlansProps {
+  canManage?: boolean;
+}
+
+export function AdminPaymentPlans({ canManage = false }: AdminPaymentPlansProps) {
+  const { toast } = useToast();
+  const [selectedPropertyId, setSelectedPropertyId] = useState<string | null>(null);
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+  const [rows, setRows] = useState<InstalmentFormRow[]>([]);
+  const [recordingDue, setRecordingDue] = useState<PropertyInstalmentDue | null>(null);
+  const [paymentMethod, setPaymentMethod] = useState("bank_transfer");
+  const [paymentReference, setPaymentReference] = useState("");
+
+  const { data: propertyList } = useQuery<PropertyListResponse>({
+    queryKey: ["/api/properties?pageSize=50"],
+  });
+
+  const properties = propertyList?.properties || [];
+  const selectedProperty = properties.find(p => p.id === selectedPropertyId) || properties[0];
+  const propertyId = selectedProperty?.id || "";
+  const planQueryKey = ["/api/admin/properties", propertyId, "payment-plan"];
+
+  const { data: plan, isLoading } = useQuery<PaymentPlanResponse>({
+    queryKey: planQueryKey,
+    enabled: !!propertyId,
+  });
+
+  const instalments = plan?.instalments || [];
+  const schedule = plan?.schedule || [];
+  const hasPayments = schedule.some(due => due.status === "paid");
+  const overdueCount = schedule.filter(due => due.status === "overdue").length;
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Payment Plan Update Failed",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const savePlanMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("PUT", `/api/admin/properties/${propertyId}/payment-plan`, {
+        instalments: rows.map(row => ({
+          label: row.label,
+          percentage: row.percentage,
+          triggerType: row.triggerType,
+          dueDate: row.triggerType === "date" ? row.dueDate || null : null,
+          milestoneStage: row.triggerType === "milestone" ? row.milestoneStage : null,
+          paymentWindowDays: row.paymentWindowDays,
+        })),
+      });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: planQueryKey });
+      setIsEditorOpen(false);
+      toast({ title: "Payment Plan Saved" });
+    },
+    onError,
+  });
+
+  const triggerMutation = useMutation({
+    mutationFn: async (instalmentId: string) => {
+      const res = await apiRequest("POST", `/api/admin/properties/${propertyId}/payment-plan/${instalmentId}/trigger`);
+      return (await res.json()) as PaymentPlanInstalment;
+    },
+    onSuccess: (instalment) => {
+      queryClient.invalidateQueries({ queryKey: planQueryKey });
+      toast({
+        title: "Milestone Reached",
+        description: `${instalment.label} is now due by ${new Date(instalment.dueDate!).toLocaleDateString()}`,
+      });
+    },
+    onError,
+  });
+
+  const recordPaymentMutation = useMutation({
+    mutationFn: async (due: PropertyInstalmentDue) => {
+      const res = await apiRequest("POST", `/api/admin/properties/${propertyId}/payment-plan/${due.instalmentId}/payments`, {
+        slotId: due.slotId,
+        paymentMethod,
+        reference: paymentReference.trim() || undefined,
+      });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: planQueryKey });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/ledger/trial-balance"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/ledger/accounts"] });
+      setRecordingDue(null);
+      setPaymentReference("");
+      toast({ title: "Payment Recorded" });
+    },
+    onError,
+  });
+
+  const openEditor = () => {
+    setRows(instalments.length > 0 ? instalments.map(toFormRow) : [{ ...emptyRow }]);
+    setIsEditorOpen(true);
+  };
+
+  const updateRow = (index: number, changes: Partial<InstalmentFormRow>) => {
+    setRows(rows.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  const percentageTotal = rows.reduce((sum, row) => sum + (Number(row.percentage) || 0), 0);
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+          <div>
+            <CardTitle>Payment Plans</CardTitle>
+            <CardDescription>
+              Developer instalments per property, split across co-owners by share
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Select value={propertyId} onValueChange={setSelectedPropertyId}>
+              <SelectTrigger className="w-64" data-testid="select-payment-plan-property">
+                <SelectValue placeholder="Select property" />
+              </SelectTrigger>
+              <SelectContent>
+                {properties.map(property => (
+                  <SelectItem key={property.id} value={property.id}>{property.title}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {canManage && (
+              <Button
+                onClick={openEditor}
+                disabled={!propertyId || hasPayments}
+                data-testid="button-edit-payment-plan"
+              >
+                <Pencil className="h-4 w-4 mr-2" />
+                {instalments.length > 0 ? "Edit Plan" : "Create Plan"}
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-muted-foreground text-center py-6">Loading payment plan...</p>
+          ) : instalments.length === 0 ? (
+            <p className="text-muted-foreground text-center py-6">No payment plan for this property yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>#</TableHead>
+                  <TableHead>Instalment</TableHead>
+                  <TableHead>Share of Price</TableHead>
+                  <TableHead>Trigger</TableHead>
+                  <TableHead>Due</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {instalments.map(instalment => (
+                  <TableRow key={instalment.id} data-testid={`row-instalment-${instalment.id}`}>
+                    <TableCell className="tabular-nums">{instalment.sequence}</TableCell>
+                    <TableCell className="font-medium">{instalment.label}</TableCell>
+                    <TableCell className="tabular-nums">{Number(instalment.percentage)}%</TableCell>
+                    <TableCell>
+                      {instalment.triggerType === "milestone" ? (
+                        <Badge variant="outline">Milestone: {instalment.milestoneName}</Badge>
+                      ) : (
+                        <Badge variant="outline">Dated</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="tabular-nums">
+                      {instalment.dueDate
+                        ? new Date(instalment.dueDate).toLocaleDateString()
+                        : `${instalment.paymentWindowDays} days after milestone`}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {canManage && instalment.triggerType === "milestone" && !instalment.triggeredAt && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => triggerMutation.mutate(instalment.id)}
+                          disabled={triggerMutation.isPending}
+                          data-testid={`button-trigger-instalment-${instalment.id}`}
+                        >
+                          <Flag className="h-4 w-4 mr-2" />
+                          Milestone Reached
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {instalments.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Co-Owner Dues</CardTitle>
+            <CardDescription>
+              {overdueCount > 0
+                ? `${overdueCount} overdue instalment payment${overdueCount === 1 ? "" : "s"}`
+                : "Each co-owner's amount is the instalment multiplied by their share"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {schedule.length === 0 ? (
+              <p className="text-muted-foreground text-center py-6">No active reservation for this property</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Co-Owner</TableHead>
+                    <TableHead>Instalment</TableHead>
+                    <TableHead>Amount</TableHead>
+                    <TableHead>Due</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {schedule.map(due => (
+                    <TableRow key={`${due.instalmentId}-${due.slotId}`} data-testid={`row-due-${due.instalmentId}-${due.slotId}`}>
+                      <TableCell>
+                        <div className="font-medium">{due.investorName || `Slot ${due.slotNumber}`}</div>
+                        <div className="text-xs text-muted-foreground">{due.sharePercentage}% share</div>
+                      </TableCell>
+                      <TableCell>{due.label}</TableCell>
+                      <TableCell className="tabular-nums">{formatAed(due.amount)}</TableCell>
+                      <TableCell className="tabular-nums">
+                        {due.dueDate ? new Date(due.dueDate).toLocaleDateString() : "—"}
+                      </TableCell>
+                      <TableCell>
+                        <InstalmentStatusBadge due={due} />
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {canManage && due.status !== "paid" && due.investorId && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setRecordingDue(due)}
+                            data-testid={`button-record-payment-${due.instalmentId}-${due.slotId}`}
+                          >
+                            <Banknote className="h-4 w-4 mr-2" />
+                            Record Payment
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={isEditorOpen} onOpenChange={setIsEditorOpen}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Payment Plan - {selectedProperty?.title}</DialogTitle>
+            <DialogDescription>
+              Dated instalments fall due on a fixed date. Milestone instalments fall due a set number of days after the construction stage is completed.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-3">
+            {rows.map((row, index) => (
+              <div key={index} className="grid sm:grid-cols-12 gap-2 items-end border rounded-md p-3">
+                <div className="sm:col-span-3 space-y-1">
+                  <Label htmlFor={`instalment-label-${index}`}>Label</Label>
+                  <Input
+                    id={`instalment-label-${index}`}
+                    value={row.label}
+                    onChange={(e) => updateRow(index, { label: e.target.value })}
+                    placeholder="e.g. Booking"
+                    data-testid={`input-instalment-label-${index}`}
+                  />
+                </div>
+                <div className="sm:col-span-2 space-y-1">
+                  <Label htmlFor={`instalment-percentage-${index}`}>% of Price</Label>
+                  <Input
+                    id={`instalment-percentage-${index}`}
+                    type="number"
+                    min="0"
+                    max="100"
+                    step="0.01"
+                    value={row.percentage}
+                    onChange={(e) => updateRow(index, { percentage: e.target.value })}
+                    data-testid={`input-instalment-percentage-${index}`}
+                  />
+                </div>
+                <div className="sm:col-span-2 space-y-1">
+                  <Label>Trigger</Label>
+                  <Select
+                    value={row.triggerType}
+                    onValueChange={(value) => updateRow(index, { triggerType: value as InstalmentFormRow["triggerType"] })}
+                  >
+                    <SelectTrigger data-testid={`select-instalment-trigger-${index}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="date">Date</SelectItem>
+                      <SelectItem value="milestone">Milestone</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                {row.triggerType === "date" ? (
+                  <div className="sm:col-span-4 space-y-1">
+                    <Label htmlFor={`instalment-due-${index}`}>Due Date</Label>
+                    <Input
+                      id={`instalment-due-${index}`}
+                      type="date"
+                      value={row.dueDate}
+                      onChange={(e) => updateRow(index, { dueDate: e.target.value })}
+                      data-testid={`input-instalment-due-${index}`}
+                    />
+                  </div>
+                ) : (
+                  <>
+                    <div className="sm:col-span-2 space-y-1">
+                      <Label>Milestone</Label>
+                      <Select
+                        value={row.milestoneStage}
+                        onValueChange={(value) => updateRow(index, { milestoneStage: value as ConstructionStage })}
+                      >
+                        <SelectTrigger data-testid={`select-instalment-milestone-${index}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {constructionStages.map(stage => (
+                            <SelectItem key={stage} value={stage}>{constructionStageLabels[stage]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="sm:col-span-2 space-y-1">
+                      <Label htmlFor={`instalment-window-${index}`}>Days to Pay</Label>
+                      <Input
+                        id={`instalment-window-${index}`}
+                        type="number"
+                        min="1"
+                        value={row.paymentWindowDays}
+                        onChange={(e) => updateRow(index, { paymentWindowDays: e.target.value })}
+                        data-testid={`input-instalment-window-${index}`}
+                      />
+                    </div>
+                  </>
+                )}
+                <div className="sm:col-span-1 flex justify-end">
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => setRows(rows.filter((_, i) => i !== index))}
+                    disabled={rows.length === 1}
+                    data-testid={`button-remove-instalment-${index}`}
+                  >
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+
+            <Button
+              variant="outline"
+              onClick={() => setRows([...rows, { ...emptyRow }])}
+              data-testid="button-add-instalment"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Instalment
+            </Button>
+
+            {Math.abs(percentageTotal - 100) >= 0.01 && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>
+                  Instalments add up to {percentageTotal.toFixed(2)}% of the price - they must total 100%.
+                </AlertDescription>
+              </Alert>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsEditorOpen(false)}>Cancel</Button>
+            <Button
+              onClick={() => savePlanMutation.mutate()}
+              disabled={savePlanMutation.isPending || Math.abs(percentageTotal - 100) >= 0.01}
+              data-testid="button-save-payment-plan"
+            >
+              {savePlanMutation.isPending ? "Saving..." : "Save Plan"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!recordingDue} onOpenChange={(open) => !open && setRecordingDue(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Record Payment</DialogTitle>
+            <DialogDescription>
+              {recordingDue && `${recordingDue.label} - ${recordingDue.investorName || `Slot ${recordingDue.slotNumber}`} - ${formatAed(recordingDue.amount)}`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Payment Method</Label>
+              <Select value={paymentMethod} onValueChange={setPaymentMethod}>
+                <SelectTrigger data-testid="select-payment-method">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="bank_transfer">Bank Transfer</SelectItem>
+                  <SelectItem value="cheque">Cheque</SelectItem>
+                  <SelectItem value="card">Card</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="payment-reference">Reference</Label>
+              <Input
+                id="payment-reference"
+                value={paymentReference}
+                onChange={(e) => setPaymentReference(e.target.value)}
+                placeholder="Bank reference or cheque number"
+                data-testid="input-payment-reference"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRecordingDue(null)}>Cancel</Button>
+            <Button
+              onClick={() => recordingDue && recordPaymentMutation.mutate(recordingDue)}
+              disabled={recordPaymentMutation.isPending}
+              data-testid="button-confirm-record-payment"
+            >
+              {recordPaymentMutation.isPending ? "Recording..." : "Record Payment"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
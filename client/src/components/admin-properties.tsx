@@ -0,0 +1,389 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Plus, Pencil, Archive, Send, RotateCcw, AlertCircle, Images, HardHat } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AdminPropertyMedia } from "@/components/admin-property-media";
+import { AdminConstructionProgress } from "@/components/admin-construction-progress";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import type { Property } from "@shared/schema";
+
+// Form fields are kept as strings and converted when submitting
+interface PropertyFormValues {
+  title: string;
+  location: string;
+  description: string;
+  totalPrice: string;
+  pricePerFraction: string;
+  totalFractions: string;
+  bedrooms: string;
+  bathrooms: string;
+  area: string;
+  escrowIban: string;
+  handoverDate: string;
+}
+
+const emptyForm: PropertyFormValues = {
+  title: "",
+  location: "",
+  description: "",
+  totalPrice: "",
+  pricePerFraction: "",
+  totalFractions: "4",
+  bedrooms: "",
+  bathrooms: "",
+  area: "",
+  escrowIban: "",
+  handoverDate: "",
+};
+
+const statusBadges: Record<string, { label: string; className: string }> = {
+  draft: { label: "Draft", className: "bg-muted text-muted-foreground" },
+  published: { label: "Published", className: "bg-primary text-primary-foreground" },
+  fully_funded: { label: "Fully Funded", className: "bg-green-600 text-white" },
+  archived: { label: "Archived", className: "bg-destructive text-destructive-foreground" },
+  sold: { label: "Sold", className: "bg-muted text-muted-foreground" },
+};
+
+function toFormValues(property: Property): PropertyFormValues {
+  return {
+    title: property.title,
+    location: property.location,
+    description: property.description || "",
+    totalPrice: String(Number(property.totalPrice)),
+    pricePerFraction: String(Number(property.pricePerFraction)),
+    totalFractions: String(property.totalFractions),
+    bedrooms: property.bedrooms?.toString() ?? "",
+    bathrooms: property.bathrooms?.toString() ?? "",
+    area: property.area?.toString() ?? "",
+    escrowIban: property.escrowIban || "",
+    handoverDate: property.handoverDate ? new Date(property.handoverDate).toISOString().slice(0, 10) : "",
+  };
+}
+
+function toPayload(values: PropertyFormValues) {
+  const optionalNumber = (value: string) => (value.trim() === "" ? null : Number(value));
+  return {
+    title: values.title,
+    location: values.location,
+    description: values.description.trim() || null,
+    totalPrice: Number(values.totalPrice),
+    pricePerFraction: Number(values.pricePerFraction),
+    totalFractions: Number(values.totalFractions),
+    bedrooms: optionalNumber(values.bedrooms),
+    bathrooms: optionalNumber(values.bathrooms),
+    area: optionalNumber(values.area),
+    escrowIban: values.escrowIban.trim() || null,
+    handoverDate: values.handoverDate || null,
+  };
+}
+
+export function AdminProperties() {
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingProperty, setEditingProperty] = useState<Property | null>(null);
+  const [formValues, setFormValues] = useState<PropertyFormValues>(emptyForm);
+  const [mediaProperty, setMediaProperty] = useState<Property | null>(null);
+  const [constructionProperty, setConstructionProperty] = useState<Property | null>(null);
+  const { toast } = useToast();
+
+  const { data: properties = [], isLoading } = useQuery<Property[]>({
+    queryKey: ["/api/admin/properties"],
+  });
+
+  const onMutationSuccess = (title: string, description: string) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/properties"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/properties"] });
+    toast({ title, description });
+  };
+
+  const onMutationError = (error: Error) => {
+    toast({
+      title: "Save Failed",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ id, payload }: { id?: string; payload: Record<string, unknown> }) => {
+      const res = id
+        ? await apiRequest("PATCH", `/api/admin/properties/${id}`, payload)
+        : await apiRequest("POST", "/api/admin/properties", { ...payload, status: "draft" });
+      return (await res.json()) as Property;
+    },
+    onSuccess: (property) => {
+      setIsFormOpen(false);
+      setEditingProperty(null);
+      onMutationSuccess("Property Saved", `${property.title} has been saved`);
+    },
+    onError: onMutationError,
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async ({ id, status }: { id: string; status: string }) => {
+      const res = await apiRequest("PATCH", `/api/admin/properties/${id}`, { status });
+      return (await res.json()) as Property;
+    },
+    onSuccess: (property) => {
+      onMutationSuccess("Status Updated", `${property.title} is now ${statusBadges[property.status]?.label ?? property.status}`);
+    },
+    onError: onMutationError,
+  });
+
+  const openCreate = () => {
+    setEditingProperty(null);
+    setFormValues(emptyForm);
+    setIsFormOpen(true);
+  };
+
+  const openEdit = (property: Property) => {
+    setEditingProperty(property);
+    setFormValues(toFormValues(property));
+    setIsFormOpen(true);
+  };
+
+  const setField = (field: keyof PropertyFormValues) =>
+    (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+      setFormValues({ ...formValues, [field]: e.target.value });
+
+  // Same rule the server enforces: price per fraction x fractions = total price
+  const expectedTotal = Number(formValues.pricePerFraction) * Number(formValues.totalFractions);
+  const priceMismatch =
+    formValues.totalPrice !== "" &&
+    formValues.pricePerFraction !== "" &&
+    Math.abs(expectedTotal - Number(formValues.totalPrice)) >= 0.01;
+  const pricingLocked = !!editingProperty && editingProperty.fractionsSold > 0;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveMutation.mutate({ id: editingProperty?.id, payload: toPayload(formValues) });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center p-12">
+        <p className="text-muted-foreground">Loading properties...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold font-serif mb-2">Properties</h2>
+          <p className="text-muted-foreground">
+            Create listings as drafts, publish them to the catalogue and archive them when they close.
+          </p>
+        </div>
+        <Button onClick={openCreate} data-testid="button-create-property">
+          <Plus className="h-4 w-4 mr-2" />
+          New Property
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-xl font-serif">All Listings</CardTitle>
+          <CardDescription>{properties.length} properties, including drafts and archived listings</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Title</TableHead>
+                  <TableHead>Location</TableHead>
+                  <TableHead className="text-right">Total Price</TableHead>
+                  <TableHead className="text-right">Per Fraction</TableHead>
+                  <TableHead>Sold</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {properties.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center text-muted-foreground py-8">
+                      No properties yet
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  properties.map((property) => {
+                    const badge = statusBadges[property.status] ?? statusBadges.draft;
+                    return (
+                      <TableRow key={property.id} data-testid={`row-property-${property.id}`}>
+                        <TableCell className="font-medium">
+                          {property.title}
+                          {property.isPilot && <Badge variant="outline" className="ml-2 text-xs">Pilot</Badge>}
+                        </TableCell>
+                        <TableCell>{property.location}</TableCell>
+                        <TableCell className="text-right tabular-nums">AED {Number(property.totalPrice).toLocaleString()}</TableCell>
+                        <TableCell className="text-right tabular-nums">AED {Number(property.pricePerFraction).toLocaleString()}</TableCell>
+                        <TableCell className="tabular-nums">{property.fractionsSold} / {property.totalFractions}</TableCell>
+                        <TableCell>
+                          <Badge className={badge.className} data-testid={`badge-property-status-${property.id}`}>
+                            {badge.label}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex justify-end gap-2">
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => openEdit(property)}
+                              data-testid={`button-edit-property-${property.id}`}
+                            >
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => setMediaProperty(property)}
+                              data-testid={`button-media-property-${property.id}`}
+                            >
+                              <Images className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => setConstructionProperty(property)}
+                              data-testid={`button-construction-property-${property.id}`}
+                            >
+                              <HardHat className="h-4 w-4" />
+                            </Button>
+                            {(property.status === "draft" || property.status === "archived") && (
+                              <Button
+                                size="sm"
+                                onClick={() => statusMutation.mutate({ id: property.id, status: "published" })}
+                                disabled={statusMutation.isPending}
+                                data-testid={`button-publish-property-${property.id}`}
+                              >
+                                {property.status === "archived" ? <RotateCcw className="h-4 w-4 mr-1" /> : <Send className="h-4 w-4 mr-1" />}
+                                {property.status === "archived" ? "Restore" : "Publish"}
+                              </Button>
+                            )}
+                            {property.status !== "archived" && property.status !== "sold" && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => statusMutation.mutate({ id: property.id, status: "archived" })}
+                                disabled={statusMutation.isPending}
+                                data-testid={`button-archive-property-${property.id}`}
+                              >
+                                <Archive className="h-4 w-4 mr-1" />
+                                Archive
+                              </Button>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <AdminPropertyMedia property={mediaProperty} onClose={() => setMediaProperty(null)} />
+      <AdminConstructionProgress property={constructionProperty} onClose={() => setConstructionProperty(null)} />
+
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingProperty ? `Edit ${editingProperty.title}` : "New Property"}</DialogTitle>
+            <DialogDescription>
+              {editingProperty
+                ? "Changes to published listings are visible to investors immediately."
+                : "New properties are saved as drafts and stay hidden until published."}
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid sm:grid-cols-2 gap-4">
+              <div className="space-y-2 sm:col-span-2">
+                <Label htmlFor="property-title">Title</Label>
+                <Input id="property-title" value={formValues.title} onChange={setField("title")} required data-testid="input-property-title" />
+              </div>
+              <div className="space-y-2 sm:col-span-2">
+                <Label htmlFor="property-location">Location</Label>
+                <Input id="property-location" value={formValues.location} onChange={setField("location")} required data-testid="input-property-location" />
+              </div>
+              <div className="space-y-2 sm:col-span-2">
+                <Label htmlFor="property-description">Description</Label>
+                <Textarea id="property-description" value={formValues.description} onChange={setField("description")} rows={3} data-testid="input-property-description" />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="property-total-price">Total Price (AED)</Label>
+                <Input id="property-total-price" type="number" min="0" step="0.01" value={formValues.totalPrice} onChange={setField("totalPrice")} disabled={pricingLocked} required data-testid="input-property-total-price" />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="property-fractions">Total Fractions</Label>
+                <Input id="property-fractions" type="number" min="1" max="4" value={formValues.totalFractions} onChange={setField("totalFractions")} disabled={pricingLocked} required data-testid="input-property-fractions" />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="property-price-per-fraction">Price per Fraction (AED)</Label>
+                <Input id="property-price-per-fraction" type="number" min="0" step="0.01" value={formValues.pricePerFraction} onChange={setField("pricePerFraction")} disabled={pricingLocked} required data-testid="input-property-price-per-fraction" />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="property-handover">Handover Date</Label>
+                <Input id="property-handover" type="date" value={formValues.handoverDate} onChange={setField("handoverDate")} data-testid="input-property-handover" />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="property-bedrooms">Bedrooms</Label>
+                <Input id="property-bedrooms" type="number" min="0" value={formValues.bedrooms} onChange={setField("bedrooms")} data-testid="input-property-bedrooms" />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="property-bathrooms">Bathrooms</Label>
+                <Input id="property-bathrooms" type="number" min="0" value={formValues.bathrooms} onChange={setField("bathrooms")} data-testid="input-property-bathrooms" />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="property-area">Area (sq ft)</Label>
+                <Input id="property-area" type="number" min="1" value={formValues.area} onChange={setField("area")} data-testid="input-property-area" />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="property-iban">Escrow IBAN</Label>
+                <Input id="property-iban" placeholder="AE07 0331 2345 6789 0123 456" value={formValues.escrowIban} onChange={setField("escrowIban")} className="font-mono" data-testid="input-property-iban" />
+              </div>
+            </div>
+
+            {pricingLocked && (
+              <Alert>
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>Pricing is locked because fractions of this property have been sold.</AlertDescription>
+              </Alert>
+            )}
+
+            {priceMismatch && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription data-testid="text-price-mismatch">
+                  Price per fraction × fractions is AED {expectedTotal.toLocaleString()}, which does not match the total price.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsFormOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={priceMismatch || saveMutation.isPending} data-testid="button-save-property">
+                {saveMutation.isPending ? "Saving..." : "Save Property"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
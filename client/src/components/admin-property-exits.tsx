@@ -0,0 +1,676 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Download, Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import type { PropertyExit, ExitOffer, ExitPayout } from "@shared/schema";
+
+interface PropertyExitWithDetails extends PropertyExit {
+  propertyTitle: string;
+  proposalTitle: string;
+  offers: ExitOffer[];
+  payouts: Array<Omit<ExitPayout, "statementPath"> & { investorName: string }>;
+  suggestedDldTransferFee: string | null;
+}
+
+interface SaleResolution {
+  id: string;
+  propertyId: string;
+  propertyTitle: string;
+  title: string;
+  resolutionNumber: string | null;
+}
+
+interface PropertyExitsResponse {
+  exits: PropertyExitWithDetails[];
+  resolutions: SaleResolution[];
+  dldTransferFeeRate: number;
+}
+
+const statusLabels: Record<string, string> = {
+  listed: "On the market",
+  agreed: "Sale agreed",
+  completed: "Sold",
+  withdrawn: "Withdrawn",
+};
+
+const offerStatusLabels: Record<string, string> = {
+  pending: "Pending",
+  accepted: "Accepted",
+  rejected: "Rejected",
+  cancelled: "Cancelled",
+};
+
+const emptyListing = { proposalId: "", askingPrice: "", listingAgent: "", listingReference: "", notes: "" };
+const emptyOffer = { buyerName: "", buyerEmail: "", amount: "", notes: "" };
+const emptyCompletion = { dldTransferFee: "", agencyCommission: "", otherCosts: "", transferReference: "", paymentReference: "" };
+
+function formatAed(amount: string | number) {
+  return `AED ${Number(amount).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+interface AdminPropertyExitsProps {
+  canList?: boolean; // List properties, record offers and withdraw
+  canManage?: boolean; // Complete sales and pay out proceeds
+}
+
+export function AdminPropertyExits({ canList = false, canManage = false }: AdminPropertyExitsProps) {
+  const { toast } = useToast();
+  const [isListing, setIsListing] = useState(false);
+  const [listing, setListing] = useState(emptyListing);
+  const [offerFor, setOfferFor] = useState<PropertyExitWithDetails | null>(null);
+  const [offer, setOffer] = useState(emptyOffer);
+  const [completing, setCompleting] = useState<PropertyExitWithDetails | null>(null);
+  const [completion, setCompletion] = useState(emptyCompletion);
+  const [withdrawing, setWithdrawing] = useState<PropertyExitWithDetails | null>(null);
+  const [reason, setReason] = useState("");
+  const [paying, setPaying] = useState<PropertyExitWithDetails["payouts"][number] | null>(null);
+  const [paymentReference, setPaymentReference] = useState("");
+
+  const { data, isLoading } = useQuery<PropertyExitsResponse>({
+    queryKey: ["/api/admin/exits"],
+  });
+  const exits = data?.exits || [];
+  const resolutions = data?.resolutions || [];
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/exits"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/properties"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/ledger/trial-balance"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/ledger/accounts"] });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Property Sale Failed",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const listMutation = useMutation({
+    mutationFn: async () => {
+      const resolution = resolutions.find(r => r.id === listing.proposalId);
+      const res = await apiRequest("POST", `/api/admin/properties/${resolution?.propertyId}/exit`, {
+        proposalId: listing.proposalId,
+        askingPrice: listing.askingPrice,
+        listingAgent: listing.listingAgent || undefined,
+        listingReference: listing.listingReference || undefined,
+        notes: listing.notes || undefined,
+      });
+      return (await res.json()) as PropertyExit;
+    },
+    onSuccess: (exit) => {
+      invalidate();
+      setIsListing(false);
+      setListing(emptyListing);
+      toast({ title: "Property Listed", description: `On the market at ${formatAed(exit.askingPrice)}` });
+    },
+    onError,
+  });
+
+  const offerMutation = useMutation({
+    mutationFn: async (exitId: string) => {
+      const res = await apiRequest("POST", `/api/admin/exits/${exitId}/offers`, {
+        buyerName: offer.buyerName,
+        buyerEmail: offer.buyerEmail || undefined,
+        amount: offer.amount,
+        notes: offer.notes || undefined,
+      });
+      return (await res.json()) as ExitOffer;
+    },
+    onSuccess: (recorded) => {
+      invalidate();
+      setOfferFor(null);
+      setOffer(emptyOffer);
+      toast({ title: "Offer Recorded", description: `${recorded.buyerName} offered ${formatAed(recorded.amount)}` });
+    },
+    onError,
+  });
+
+  const decideMutation = useMutation({
+    mutationFn: async ({ offerId, decision }: { offerId: string; decision: "accept" | "reject" }) => {
+      await apiRequest("POST", `/api/admin/exit-offers/${offerId}/${decision}`);
+      return decision;
+    },
+    onSuccess: (decision) => {
+      invalidate();
+      toast({
+        title: decision === "accept" ? "Offer Accepted" : "Offer Rejected",
+        description: decision === "accept" ? "Complete the sale once the transfer has been registered at the DLD" : undefined,
+      });
+    },
+    onError,
+  });
+
+  const completeMutation = useMutation({
+    mutationFn: async (exitId: string) => {
+      const res = await apiRequest("POST", `/api/admin/exits/${exitId}/complete`, {
+        dldTransferFee: completion.dldTransferFee,
+        agencyCommission: completion.agencyCommission || 0,
+        otherCosts: completion.otherCosts || 0,
+        transferReference: completion.transferReference,
+        paymentReference: completion.paymentReference,
+      });
+      return (await res.json()) as PropertyExitWithDetails;
+    },
+    onSuccess: (exit) => {
+      invalidate();
+      setCompleting(null);
+      setCompletion(emptyCompletion);
+      toast({ title: "Sale Completed", description: `${formatAed(exit.netProceeds || 0)} shared among ${exit.payouts.length} co-owners` });
+    },
+    onError,
+  });
+
+  const withdrawMutation = useMutation({
+    mutationFn: async (exitId: string) => {
+      await apiRequest("POST", `/api/admin/exits/${exitId}/withdraw`, { reason });
+    },
+    onSuccess: () => {
+      invalidate();
+      setWithdrawing(null);
+      setReason("");
+      toast({ title: "Sale Withdrawn", description: "The property is off the market" });
+    },
+    onError,
+  });
+
+  const payMutation = useMutation({
+    mutationFn: async (payoutId: string) => {
+      const res = await apiRequest("POST", `/api/admin/exit-payouts/${payoutId}/paid`, { paymentReference });
+      return (await res.json()) as ExitPayout;
+    },
+    onSuccess: (payout) => {
+      invalidate();
+      setPaying(null);
+      setPaymentReference("");
+      toast({ title: "Payout Recorded", description: `${formatAed(payout.amount)} paid (ref ${payout.paymentReference})` });
+    },
+    onError,
+  });
+
+  const openCompletion = (exit: PropertyExitWithDetails) => {
+    setCompleting(exit);
+    setCompletion({ ...emptyCompletion, dldTransferFee: exit.suggestedDldTransferFee || "" });
+  };
+
+  const netProceeds = completing?.salePrice
+    ? Number(completing.salePrice) - Number(completion.dldTransferFee || 0) - Number(completion.agencyCommission || 0) - Number(completion.otherCosts || 0)
+    : 0;
+
+  return (
+    <Card data-testid="card-admin-property-exits">
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Property Sales</CardTitle>
+          <CardDescription>
+            Whole properties sold after their co-owners voted to sell. Proceeds are shared by ownership after the DLD transfer fee and other costs of sale.
+          </CardDescription>
+        </div>
+        {canList && (
+          <Button size="sm" onClick={() => setIsListing(true)} disabled={resolutions.length === 0} data-testid="button-list-property-exit">
+            <Plus className="h-4 w-4 mr-1" />
+            List Property
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : exits.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            {resolutions.length > 0 ? "A sale resolution has passed; list the property to start the sale" : "No property has been put up for sale"}
+          </p>
+        ) : (
+          exits.map(exit => (
+            <div key={exit.id} className="rounded-lg border p-4 space-y-4" data-testid={`exit-${exit.id}`}>
+              <div className="flex flex-wrap items-start justify-between gap-4">
+                <div>
+                  <p className="font-medium">{exit.propertyTitle}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {exit.proposalTitle} · asking {formatAed(exit.askingPrice)}
+                    {exit.listingAgent && ` · ${exit.listingAgent}`}
+                    {exit.listingReference && ` (${exit.listingReference})`}
+                  </p>
+                  {exit.salePrice && (
+                    <p className="text-sm mt-1">
+                      Sale price {formatAed(exit.salePrice)}
+                      {exit.netProceeds && ` · net proceeds ${formatAed(exit.netProceeds)}`}
+                    </p>
+                  )}
+                  {exit.transferReference && (
+                    <p className="text-xs text-muted-foreground">DLD ref {exit.transferReference}</p>
+                  )}
+                  {exit.withdrawalReason && (
+                    <p className="text-xs text-muted-foreground">Withdrawn: {exit.withdrawalReason}</p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <Badge variant={exit.status === "withdrawn" ? "destructive" : exit.status === "completed" ? "default" : "secondary"}>
+                    {statusLabels[exit.status] || exit.status}
+                  </Badge>
+                  {canList && exit.status === "listed" && (
+                    <Button size="sm" variant="outline" onClick={() => setOfferFor(exit)} data-testid={`button-record-exit-offer-${exit.id}`}>
+                      Record Offer
+                    </Button>
+                  )}
+                  {canManage && exit.status === "agreed" && (
+                    <Button size="sm" onClick={() => openCompletion(exit)} data-testid={`button-complete-exit-${exit.id}`}>
+                      Complete Sale
+                    </Button>
+                  )}
+                  {canList && (exit.status === "listed" || exit.status === "agreed") && (
+                    <Button size="sm" variant="ghost" onClick={() => setWithdrawing(exit)} data-testid={`button-withdraw-exit-${exit.id}`}>
+                      Withdraw
+                    </Button>
+                  )}
+                </div>
+              </div>
+
+              {exit.status !== "completed" && exit.offers.length > 0 && (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Buyer</TableHead>
+                      <TableHead className="text-right">Offer</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {exit.offers.map(exitOffer => (
+                      <TableRow key={exitOffer.id} data-testid={`row-exit-offer-${exitOffer.id}`}>
+                        <TableCell>
+                          {exitOffer.buyerName}
+                          {exitOffer.buyerEmail && <p className="text-xs text-muted-foreground">{exitOffer.buyerEmail}</p>}
+                        </TableCell>
+                        <TableCell className="text-right tabular-nums">{formatAed(exitOffer.amount)}</TableCell>
+                        <TableCell>{offerStatusLabels[exitOffer.status] || exitOffer.status}</TableCell>
+                        <TableCell className="text-right space-x-2 whitespace-nowrap">
+                          {canList && exit.status === "listed" && exitOffer.status === "pending" && (
+                            <>
+                              <Button
+                                size="sm"
+                                onClick={() => decideMutation.mutate({ offerId: exitOffer.id, decision: "accept" })}
+                                disabled={decideMutation.isPending}
+                                data-testid={`button-accept-exit-offer-${exitOffer.id}`}
+                              >
+                                Accept
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => decideMutation.mutate({ offerId: exitOffer.id, decision: "reject" })}
+                                disabled={decideMutation.isPending}
+                                data-testid={`button-reject-exit-offer-${exitOffer.id}`}
+                              >
+                                Reject
+                              </Button>
+                            </>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+
+              {exit.payouts.length > 0 && (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Co-owner</TableHead>
+                      <TableHead className="text-right">Share</TableHead>
+                      <TableHead className="text-right">Costs</TableHead>
+                      <TableHead className="text-right">Proceeds</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {exit.payouts.map(payout => (
+                      <TableRow key={payout.id} data-testid={`row-exit-payout-${payout.id}`}>
+                        <TableCell>{payout.investorName}</TableCell>
+                        <TableCell className="text-right tabular-nums">{Number(payout.sharePercentage)}%</TableCell>
+                        <TableCell className="text-right tabular-nums">{formatAed(payout.costShare)}</TableCell>
+                        <TableCell className="text-right tabular-nums">{formatAed(payout.amount)}</TableCell>
+                        <TableCell>
+                          {payout.status === "paid" ? "Paid" : "Pending"}
+                          {payout.paymentReference && (
+                            <p className="text-xs text-muted-foreground">ref {payout.paymentReference}</p>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right space-x-2 whitespace-nowrap">
+                          {payout.statementNumber && (
+                            <Button asChild size="sm" variant="ghost">
+                              <a href={`/api/admin/exit-payouts/${payout.id}/statement`} data-testid={`link-admin-exit-statement-${payout.id}`}>
+                                <Download className="h-4 w-4" />
+                              </a>
+                            </Button>
+                          )}
+                          {canManage && payout.status === "pending" && (
+                            <Button size="sm" onClick={() => setPaying(payout)} data-testid={`button-pay-exit-payout-${payout.id}`}>
+                              Mark Paid
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+          ))
+        )}
+      </CardContent>
+
+      <Dialog open={isListing} onOpenChange={setIsListing}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>List Property for Sale</DialogTitle>
+            <DialogDescription>
+              A property is sold under its co-owners' resolution to sell. Single shares can't be listed while it is on the market.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Resolution</Label>
+              <Select value={listing.proposalId} onValueChange={(value) => setListing({ ...listing, proposalId: value })}>
+                <SelectTrigger data-testid="select-exit-resolution">
+                  <SelectValue placeholder="Choose a passed sale resolution" />
+                </SelectTrigger>
+                <SelectContent>
+                  {resolutions.map(resolution => (
+                    <SelectItem key={resolution.id} value={resolution.id}>
+                      {resolution.propertyTitle} · {resolution.resolutionNumber || resolution.title}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="exit-asking-price">Asking Price (AED)</Label>
+              <Input
+                id="exit-asking-price"
+                type="number"
+                min="0"
+                step="0.01"
+                value={listing.askingPrice}
+                onChange={(e) => setListing({ ...listing, askingPrice: e.target.value })}
+                data-testid="input-exit-asking-price"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="exit-listing-agent">Agent</Label>
+                <Input
+                  id="exit-listing-agent"
+                  value={listing.listingAgent}
+                  onChange={(e) => setListing({ ...listing, listingAgent: e.target.value })}
+                  data-testid="input-exit-listing-agent"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="exit-listing-reference">Listing Reference</Label>
+                <Input
+                  id="exit-listing-reference"
+                  value={listing.listingReference}
+                  onChange={(e) => setListing({ ...listing, listingReference: e.target.value })}
+                  placeholder="e.g. Form A number"
+                  data-testid="input-exit-listing-reference"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="exit-notes">Notes</Label>
+              <Textarea
+                id="exit-notes"
+                value={listing.notes}
+                onChange={(e) => setListing({ ...listing, notes: e.target.value })}
+                data-testid="input-exit-notes"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsListing(false)}>Cancel</Button>
+            <Button
+              onClick={() => listMutation.mutate()}
+              disabled={listMutation.isPending || !listing.proposalId || !(Number(listing.askingPrice) > 0)}
+              data-testid="button-confirm-list-property-exit"
+            >
+              {listMutation.isPending ? "Listing..." : "List Property"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!offerFor} onOpenChange={(open) => !open && setOfferFor(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Record Buyer Offer</DialogTitle>
+            <DialogDescription>
+              {offerFor && `An offer for ${offerFor.propertyTitle}, asking ${formatAed(offerFor.askingPrice)}.`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="exit-offer-buyer">Buyer</Label>
+                <Input
+                  id="exit-offer-buyer"
+                  value={offer.buyerName}
+                  onChange={(e) => setOffer({ ...offer, buyerName: e.target.value })}
+                  data-testid="input-exit-offer-buyer"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="exit-offer-email">Email</Label>
+                <Input
+                  id="exit-offer-email"
+                  type="email"
+                  value={offer.buyerEmail}
+                  onChange={(e) => setOffer({ ...offer, buyerEmail: e.target.value })}
+                  data-testid="input-exit-offer-email"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="exit-offer-amount">Offer (AED)</Label>
+              <Input
+                id="exit-offer-amount"
+                type="number"
+                min="0"
+                step="0.01"
+                value={offer.amount}
+                onChange={(e) => setOffer({ ...offer, amount: e.target.value })}
+                data-testid="input-exit-offer-amount"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="exit-offer-notes">Notes</Label>
+              <Textarea
+                id="exit-offer-notes"
+                value={offer.notes}
+                onChange={(e) => setOffer({ ...offer, notes: e.target.value })}
+                placeholder="Financing, conditions, completion date"
+                data-testid="input-exit-offer-notes"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOfferFor(null)}>Cancel</Button>
+            <Button
+              onClick={() => offerFor && offerMutation.mutate(offerFor.id)}
+              disabled={offerMutation.isPending || offer.buyerName.trim().length < 2 || !(Number(offer.amount) > 0)}
+              data-testid="button-confirm-record-exit-offer"
+            >
+              {offerMutation.isPending ? "Recording..." : "Record Offer"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!completing} onOpenChange={(open) => !open && setCompleting(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Complete Sale</DialogTitle>
+            <DialogDescription>
+              {completing && `${completing.propertyTitle} sold for ${formatAed(completing.salePrice || 0)}. Enter the costs of sale as settled at the transfer; the rest is shared among the co-owners and the property is closed.`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="exit-dld-fee">DLD Fee</Label>
+                <Input
+                  id="exit-dld-fee"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={completion.dldTransferFee}
+                  onChange={(e) => setCompletion({ ...completion, dldTransferFee: e.target.value })}
+                  data-testid="input-exit-dld-fee"
+                />
+                {data && <p className="text-xs text-muted-foreground">{data.dldTransferFeeRate}% of the price</p>}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="exit-agency-commission">Commission</Label>
+                <Input
+                  id="exit-agency-commission"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={completion.agencyCommission}
+                  onChange={(e) => setCompletion({ ...completion, agencyCommission: e.target.value })}
+                  data-testid="input-exit-agency-commission"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="exit-other-costs">Other Costs</Label>
+                <Input
+                  id="exit-other-costs"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={completion.otherCosts}
+                  onChange={(e) => setCompletion({ ...completion, otherCosts: e.target.value })}
+                  data-testid="input-exit-other-costs"
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="exit-transfer-reference">DLD Transfer Reference</Label>
+                <Input
+                  id="exit-transfer-reference"
+                  value={completion.transferReference}
+                  onChange={(e) => setCompletion({ ...completion, transferReference: e.target.value })}
+                  data-testid="input-exit-transfer-reference"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="exit-payment-reference">Buyer Payment Reference</Label>
+                <Input
+                  id="exit-payment-reference"
+                  value={completion.paymentReference}
+                  onChange={(e) => setCompletion({ ...completion, paymentReference: e.target.value })}
+                  data-testid="input-exit-payment-reference"
+                />
+              </div>
+            </div>
+            <p className="text-sm">
+              Net proceeds to co-owners: <span className="font-medium tabular-nums">{formatAed(netProceeds)}</span>
+            </p>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCompleting(null)}>Cancel</Button>
+            <Button
+              onClick={() => completing && completeMutation.mutate(completing.id)}
+              disabled={
+                completeMutation.isPending
+                || completion.dldTransferFee === ""
+                || !completion.transferReference.trim()
+                || !completion.paymentReference.trim()
+                || netProceeds <= 0
+              }
+              data-testid="button-confirm-complete-exit"
+            >
+              {completeMutation.isPending ? "Completing..." : "Complete Sale"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!withdrawing} onOpenChange={(open) => !open && setWithdrawing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Withdraw Sale</DialogTitle>
+            <DialogDescription>
+              The property comes off the market and open offers are cancelled. It can be listed again under the same resolution.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="exit-withdraw-reason">Reason</Label>
+            <Textarea
+              id="exit-withdraw-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              data-testid="input-exit-withdraw-reason"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setWithdrawing(null)}>Back</Button>
+            <Button
+              variant="destructive"
+              onClick={() => withdrawing && withdrawMutation.mutate(withdrawing.id)}
+              disabled={withdrawMutation.isPending || reason.trim().length < 3}
+              data-testid="button-confirm-withdraw-exit"
+            >
+              {withdrawMutation.isPending ? "Withdrawing..." : "Withdraw Sale"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!paying} onOpenChange={(open) => !open && setPaying(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Pay Out Sale Proceeds</DialogTitle>
+            <DialogDescription>
+              {paying && `Record the transfer of ${formatAed(paying.amount)} to ${paying.investorName}.`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="exit-payout-reference">Bank Reference</Label>
+            <Input
+              id="exit-payout-reference"
+              value={paymentReference}
+              onChange={(e) => setPaymentReference(e.target.value)}
+              data-testid="input-exit-payout-reference"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPaying(null)}>Cancel</Button>
+            <Button
+              onClick={() => paying && payMutation.mutate(paying.id)}
+              disabled={payMutation.isPending || !paymentReference.trim()}
+              data-testid="button-confirm-pay-exit-payout"
+            >
+              {payMutation.isPending ? "Saving..." : "Mark Paid"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,378 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Plus, Check, FileText } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { expenseCategories, expenseCategoryLabels } from "@shared/schema";
+import type { Property, PropertyExpense, ExpenseAllocation, ExpenseApproval } from "@shared/schema";
+
+interface PropertyListResponse {
+  properties: Property[];
+  total: number;
+}
+
+interface ExpenseWithDetails extends Omit<PropertyExpense, "invoicePath"> {
+  hasInvoice: boolean;
+  allocations: Array<ExpenseAllocation & { investorName: string }>;
+  approvals: Array<ExpenseApproval & { investorName: string }>;
+}
+
+interface ExpensesResponse {
+  expenses: ExpenseWithDetails[];
+  approvalThreshold: number;
+}
+
+const emptyExpense = {
+  category: "maintenance",
+  vendor: "",
+  description: "",
+  invoiceNumber: "",
+  amount: "",
+  dueDate: "",
+};
+
+const statusLabels: Record<string, string> = {
+  pending_approval: "Awaiting approval",
+  approved: "Approved",
+  rejected: "Rejected",
+  paid: "Paid",
+};
+
+function formatAed(amount: string | number) {
+  return `AED ${Number(amount).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function ExpenseStatusBadge({ status }: { status: string }) {
+  const variant = status === "paid" ? "default" : status === "rejected" ? "destructive" : status === "approved" ? "secondary" : "outline";
+  return <Badge variant={variant}>{statusLabels[status] || status}</Badge>;
+}
+
+interface AdminPropertyExpensesProps {
+  canManage?: boolean;
+}
+
+export function AdminPropertyExpenses({ canManage = false }: AdminPropertyExpensesProps) {
+  const { toast } = useToast();
+  const [selectedPropertyId, setSelectedPropertyId] = useState<string | null>(null);
+  const [isRecordOpen, setIsRecordOpen] = useState(false);
+  const [expense, setExpense] = useState(emptyExpense);
+  const [invoiceFile, setInvoiceFile] = useState<File | null>(null);
+  const [payingExpense, setPayingExpense] = useState<ExpenseWithDetails | null>(null);
+  const [paymentReference, setPaymentReference] = useState("");
+
+  const { data: propertyList } = useQuery<PropertyListResponse>({
+    queryKey: ["/api/properties?pageSize=50"],
+  });
+
+  const properties = propertyList?.properties || [];
+  const selectedProperty = properties.find(p => p.id === selectedPropertyId) || properties[0];
+  const propertyId = selectedProperty?.id || "";
+  const expensesQueryKey = ["/api/admin/properties", propertyId, "expenses"];
+
+  const { data, isLoading } = useQuery<ExpensesResponse>({
+    queryKey: expensesQueryKey,
+    enabled: !!propertyId,
+  });
+
+  const expenses = data?.expenses || [];
+  const approvalThreshold = data?.approvalThreshold ?? 50000;
+  const needsApproval = Number(expense.amount || 0) > approvalThreshold;
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: expensesQueryKey });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/ledger/trial-balance"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/ledger/accounts"] });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Expense Failed",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const recordMutation = useMutation({
+    mutationFn: async () => {
+      const formData = new FormData();
+      formData.append("category", expense.category);
+      formData.append("vendor", expense.vendor.trim());
+      formData.append("amount", expense.amount);
+      formData.append("dueDate", expense.dueDate);
+      if (expense.description.trim()) formData.append("description", expense.description.trim());
+      if (expense.invoiceNumber.trim()) formData.append("invoiceNumber", expense.invoiceNumber.trim());
+      if (invoiceFile) formData.append("invoice", invoiceFile);
+
+      const res = await fetch(`/api/admin/properties/${propertyId}/expenses`, {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({}));
+        throw new Error(error.message || "Failed to record expense");
+      }
+      return (await res.json()) as ExpenseWithDetails;
+    },
+    onSuccess: (recorded) => {
+      invalidate();
+      setIsRecordOpen(false);
+      setExpense(emptyExpense);
+      setInvoiceFile(null);
+      toast({
+        title: "Expense Recorded",
+        description: recorded.status === "pending_approval"
+          ? `${formatAed(recorded.amount)} sent to co-owners for approval`
+          : `${formatAed(recorded.amount)} charged to ${recorded.allocations.length} co-owner${recorded.allocations.length === 1 ? "" : "s"}`,
+      });
+    },
+    onError,
+  });
+
+  const payMutation = useMutation({
+    mutationFn: async (expenseId: string) => {
+      const res = await apiRequest("POST", `/api/admin/expenses/${expenseId}/paid`, { paymentReference });
+      return (await res.json()) as ExpenseWithDetails;
+    },
+    onSuccess: (paid) => {
+      invalidate();
+      setPayingExpense(null);
+      setPaymentReference("");
+      toast({ title: "Expense Paid", description: `${formatAed(paid.amount)} paid to ${paid.vendor}` });
+    },
+    onError,
+  });
+
+  const setField = (field: keyof typeof emptyExpense) => (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+    setExpense(current => ({ ...current, [field]: e.target.value }));
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div>
+          <CardTitle>Property Expenses</CardTitle>
+          <CardDescription>
+            Vendor invoices charged to co-owners by share · above {formatAed(approvalThreshold)} a majority must approve
+          </CardDescription>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={propertyId} onValueChange={setSelectedPropertyId}>
+            <SelectTrigger className="w-64" data-testid="select-expense-property">
+              <SelectValue placeholder="Select property" />
+            </SelectTrigger>
+            <SelectContent>
+              {properties.map(property => (
+                <SelectItem key={property.id} value={property.id}>{property.title}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {canManage && (
+            <Button onClick={() => setIsRecordOpen(true)} disabled={!propertyId} data-testid="button-record-expense">
+              <Plus className="h-4 w-4 mr-2" />
+              Record Expense
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-muted-foreground text-center py-6">Loading expenses...</p>
+        ) : expenses.length === 0 ? (
+          <p className="text-muted-foreground text-center py-6">No expenses recorded for this property yet</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Due</TableHead>
+                <TableHead>Expense</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Charged To</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {expenses.map(item => {
+                const approvals = item.approvals.filter(a => a.decision === "approved").length;
+                return (
+                  <TableRow key={item.id} data-testid={`row-expense-${item.id}`}>
+                    <TableCell className="tabular-nums whitespace-nowrap">{new Date(item.dueDate).toLocaleDateString()}</TableCell>
+                    <TableCell>
+                      <div className="font-medium">{item.vendor}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {expenseCategoryLabels[item.category as keyof typeof expenseCategoryLabels] || item.category}
+                        {item.invoiceNumber && ` · #${item.invoiceNumber}`}
+                      </div>
+                      {item.description && <div className="text-xs text-muted-foreground">{item.description}</div>}
+                      {item.hasInvoice && (
+                        <a
+                          href={`/api/admin/expenses/${item.id}/invoice`}
+                          target="_blank"
+                          rel="noreferrer"
+                          className="inline-flex items-center text-xs text-primary hover:underline mt-1"
+                          data-testid={`link-expense-invoice-${item.id}`}
+                        >
+                          <FileText className="h-3 w-3 mr-1" />
+                          Invoice
+                        </a>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums">{formatAed(item.amount)}</TableCell>
+                    <TableCell>
+                      <ExpenseStatusBadge status={item.status} />
+                      {item.approvalsRequired > 0 && (
+                        <div className="text-xs text-muted-foreground mt-1">
+                          {approvals} of {item.approvalsRequired} approvals
+                        </div>
+                      )}
+                      {item.status === "paid" && (
+                        <div className="text-xs text-muted-foreground mt-1">
+                          {item.paidAt && new Date(item.paidAt).toLocaleDateString()} · {item.paymentReference}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {item.allocations.map(allocation => {
+                        const decision = item.approvals.find(a => a.investorId === allocation.investorId)?.decision;
+                        return (
+                          <div key={allocation.id} className="text-xs">
+                            {allocation.investorName} · {Number(allocation.sharePercentage)}% · <span className="tabular-nums">{formatAed(allocation.amount)}</span>
+                            {decision && <span className="text-muted-foreground"> ({decision})</span>}
+                          </div>
+                        );
+                      })}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {canManage && item.status === "approved" && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setPayingExpense(item)}
+                          data-testid={`button-pay-expense-${item.id}`}
+                        >
+                          <Check className="h-4 w-4 mr-2" />
+                          Mark Paid
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={isRecordOpen} onOpenChange={setIsRecordOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Record Expense</DialogTitle>
+            <DialogDescription>{selectedProperty?.title}</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Category</Label>
+                <Select value={expense.category} onValueChange={(category) => setExpense(current => ({ ...current, category }))}>
+                  <SelectTrigger data-testid="select-expense-category">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {expenseCategories.map(category => (
+                      <SelectItem key={category} value={category}>{expenseCategoryLabels[category]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="expense-vendor">Vendor</Label>
+                <Input id="expense-vendor" value={expense.vendor} onChange={setField("vendor")} data-testid="input-expense-vendor" />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="expense-amount">Amount (AED)</Label>
+                <Input id="expense-amount" type="number" min="0" step="0.01" value={expense.amount} onChange={setField("amount")} data-testid="input-expense-amount" />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="expense-due-date">Due Date</Label>
+                <Input id="expense-due-date" type="date" value={expense.dueDate} onChange={setField("dueDate")} data-testid="input-expense-due-date" />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="expense-invoice-number">Invoice Number</Label>
+                <Input id="expense-invoice-number" value={expense.invoiceNumber} onChange={setField("invoiceNumber")} data-testid="input-expense-invoice-number" />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="expense-invoice">Invoice (PDF, JPG, PNG)</Label>
+                <Input
+                  id="expense-invoice"
+                  type="file"
+                  accept=".pdf,.jpg,.jpeg,.png"
+                  onChange={(e) => setInvoiceFile(e.target.files?.[0] || null)}
+                  data-testid="input-expense-invoice"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="expense-description">Description</Label>
+              <Textarea id="expense-description" value={expense.description} onChange={setField("description")} data-testid="input-expense-description" />
+            </div>
+            {needsApproval && (
+              <p className="text-sm text-muted-foreground rounded-md bg-muted/50 p-3">
+                Above {formatAed(approvalThreshold)}: co-owners will be asked to approve before it is charged to them.
+              </p>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsRecordOpen(false)}>Cancel</Button>
+            <Button
+              onClick={() => recordMutation.mutate()}
+              disabled={recordMutation.isPending || !expense.vendor.trim() || !(Number(expense.amount) > 0) || !expense.dueDate}
+              data-testid="button-confirm-record-expense"
+            >
+              {recordMutation.isPending ? "Saving..." : needsApproval ? "Request Approval" : "Record"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!payingExpense} onOpenChange={(open) => !open && setPayingExpense(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Mark Expense Paid</DialogTitle>
+            <DialogDescription>
+              {payingExpense && `${formatAed(payingExpense.amount)} to ${payingExpense.vendor}, paid from the rent account`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="expense-payment-reference">Bank Reference</Label>
+            <Input
+              id="expense-payment-reference"
+              value={paymentReference}
+              onChange={(e) => setPaymentReference(e.target.value)}
+              placeholder="Reference of the transfer to the vendor"
+              data-testid="input-expense-payment-reference"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPayingExpense(null)}>Cancel</Button>
+            <Button
+              onClick={() => payingExpense && payMutation.mutate(payingExpense.id)}
+              disabled={payMutation.isPending || !paymentReference.trim()}
+              data-testid="button-confirm-pay-expense"
+            >
+              {payMutation.isPending ? "Saving..." : "Mark Paid"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
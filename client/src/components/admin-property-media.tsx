@@ -0,0 +1,278 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { ArrowUp, ArrowDown, Trash2, Upload, FileText, Save } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import type { PropertyMediaItem } from "@/components/property-gallery";
+import type { Property, PropertyMediaType } from "@shared/schema";
+
+const mediaTypeLabels: Record<PropertyMediaType, string> = {
+  photo: "Photo",
+  floor_plan: "Floor Plan",
+  brochure: "Brochure",
+};
+
+const acceptByType: Record<PropertyMediaType, string> = {
+  photo: "image/jpeg,image/png,image/webp",
+  floor_plan: "image/jpeg,image/png,image/webp,application/pdf",
+  brochure: "application/pdf",
+};
+
+interface AdminPropertyMediaProps {
+  property: Property | null;
+  onClose: () => void;
+}
+
+export function AdminPropertyMedia({ property, onClose }: AdminPropertyMediaProps) {
+  const [mediaType, setMediaType] = useState<PropertyMediaType>("photo");
+  const [files, setFiles] = useState<FileList | null>(null);
+  const [caption, setCaption] = useState("");
+  const [captionEdits, setCaptionEdits] = useState<Record<string, string>>({});
+  const [fileInputKey, setFileInputKey] = useState(0);
+  const { toast } = useToast();
+
+  const mediaQueryKey = ["/api/properties", property?.id, "media"];
+
+  const { data: media = [], isLoading } = useQuery<PropertyMediaItem[]>({
+    queryKey: mediaQueryKey,
+    enabled: !!property,
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Media Update Failed",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const uploadMutation = useMutation({
+    mutationFn: async () => {
+      if (!property || !files) return [];
+
+      const formData = new FormData();
+      formData.append("mediaType", mediaType);
+      if (caption.trim()) {
+        formData.append("caption", caption.trim());
+      }
+      Array.from(files).forEach(file => formData.append("files", file));
+
+      const response = await fetch(`/api/admin/properties/${property.id}/media`, {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.message || "Upload failed");
+      }
+      return (await response.json()) as PropertyMediaItem[];
+    },
+    onSuccess: (uploaded) => {
+      queryClient.invalidateQueries({ queryKey: mediaQueryKey });
+      setFiles(null);
+      setCaption("");
+      setFileInputKey(key => key + 1);
+      toast({
+        title: "Upload Complete",
+        description: `${uploaded.length} file(s) added`,
+      });
+    },
+    onError,
+  });
+
+  const captionMutation = useMutation({
+    mutationFn: async ({ id, caption }: { id: string; caption: string }) => {
+      const res = await apiRequest("PATCH", `/api/admin/properties/${property!.id}/media/${id}`, {
+        caption: caption.trim() || null,
+      });
+      return await res.json();
+    },
+    onSuccess: (_, { id }) => {
+      queryClient.invalidateQueries({ queryKey: mediaQueryKey });
+      setCaptionEdits(({ [id]: _removed, ...rest }) => rest);
+    },
+    onError,
+  });
+
+  const reorderMutation = useMutation({
+    mutationFn: async (mediaIds: string[]) => {
+      const res = await apiRequest("PUT", `/api/admin/properties/${property!.id}/media/order`, { mediaIds });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: mediaQueryKey });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/admin/properties/${property!.id}/media/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: mediaQueryKey });
+    },
+    onError,
+  });
+
+  // Ordering is per media type, but the whole list is saved in one request
+  const move = (item: PropertyMediaItem, direction: -1 | 1) => {
+    const sameType = media.filter(m => m.mediaType === item.mediaType);
+    const index = sameType.findIndex(m => m.id === item.id);
+    const swapWith = sameType[index + direction];
+    if (!swapWith) return;
+
+    const ids = media.map(m => m.id);
+    const a = ids.indexOf(item.id);
+    const b = ids.indexOf(swapWith.id);
+    [ids[a], ids[b]] = [ids[b], ids[a]];
+    reorderMutation.mutate(ids);
+  };
+
+  return (
+    <Dialog open={!!property} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Media - {property?.title}</DialogTitle>
+          <DialogDescription>
+            Images are resized on upload and get a thumbnail. The first photo is used as the cover.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid sm:grid-cols-4 gap-3 items-end border rounded-md p-4">
+          <div className="space-y-2">
+            <Label>Type</Label>
+            <Select value={mediaType} onValueChange={(value) => setMediaType(value as PropertyMediaType)}>
+              <SelectTrigger data-testid="select-media-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(mediaTypeLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="media-files">Files</Label>
+            <Input
+              key={fileInputKey}
+              id="media-files"
+              type="file"
+              multiple
+              accept={acceptByType[mediaType]}
+              onChange={(e) => setFiles(e.target.files)}
+              data-testid="input-media-files"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="media-caption">Caption</Label>
+            <Input
+              id="media-caption"
+              value={caption}
+              onChange={(e) => setCaption(e.target.value)}
+              placeholder="Optional"
+              data-testid="input-media-caption"
+            />
+          </div>
+          <Button
+            onClick={() => uploadMutation.mutate()}
+            disabled={!files || files.length === 0 || uploadMutation.isPending}
+            data-testid="button-upload-media"
+          >
+            <Upload className="h-4 w-4 mr-2" />
+            {uploadMutation.isPending ? "Uploading..." : "Upload"}
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <p className="text-muted-foreground text-center py-6">Loading media...</p>
+        ) : media.length === 0 ? (
+          <p className="text-muted-foreground text-center py-6">No media uploaded yet</p>
+        ) : (
+          <div className="space-y-2">
+            {media.map((item) => {
+              const sameType = media.filter(m => m.mediaType === item.mediaType);
+              const position = sameType.findIndex(m => m.id === item.id);
+              const editedCaption = captionEdits[item.id];
+
+              return (
+                <div key={item.id} className="flex items-center gap-3 border rounded-md p-2" data-testid={`row-media-${item.id}`}>
+                  <div className="w-20 h-14 flex-shrink-0 rounded overflow-hidden bg-muted flex items-center justify-center">
+                    {item.thumbnailUrl ? (
+                      <img src={item.thumbnailUrl} alt={item.caption || item.originalFilename} className="w-full h-full object-cover" />
+                    ) : (
+                      <FileText className="h-6 w-6 text-muted-foreground" />
+                    )}
+                  </div>
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline" className="text-xs">{mediaTypeLabels[item.mediaType]}</Badge>
+                      <span className="text-xs text-muted-foreground truncate">{item.originalFilename}</span>
+                    </div>
+                    <div className="flex gap-2">
+                      <Input
+                        value={editedCaption ?? item.caption ?? ""}
+                        onChange={(e) => setCaptionEdits({ ...captionEdits, [item.id]: e.target.value })}
+                        placeholder="Caption"
+                        className="h-8"
+                        data-testid={`input-caption-${item.id}`}
+                      />
+                      {editedCaption !== undefined && editedCaption !== (item.caption ?? "") && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => captionMutation.mutate({ id: item.id, caption: editedCaption })}
+                          disabled={captionMutation.isPending}
+                          data-testid={`button-save-caption-${item.id}`}
+                        >
+                          <Save className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex gap-1">
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => move(item, -1)}
+                      disabled={position === 0 || reorderMutation.isPending}
+                      data-testid={`button-move-up-${item.id}`}
+                    >
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => move(item, 1)}
+                      disabled={position === sameType.length - 1 || reorderMutation.isPending}
+                      data-testid={`button-move-down-${item.id}`}
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => deleteMutation.mutate(item.id)}
+                      disabled={deleteMutation.isPending}
+                      data-testid={`button-delete-media-${item.id}`}
+                    >
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
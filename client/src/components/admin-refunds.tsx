@@ -0,0 +1,360 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Undo2, Ban, AlertCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import type { Property, Payment, Refund, PropertyReservation, CoOwnerSlot } from "@shared/schema";
+
+interface PropertyListResponse {
+  properties: Property[];
+  total: number;
+}
+
+interface PaymentWithRefunds extends Payment {
+  investorName: string;
+  propertyId: string;
+  slotId: string | null;
+  sharePercentage: string | null;
+  refunds: Refund[];
+}
+
+interface PropertyPaymentsResponse {
+  payments: PaymentWithRefunds[];
+  reservations: Array<PropertyReservation & { slots: CoOwnerSlot[] }>;
+}
+
+const paymentStatusStyles: Record<string, { label: string; variant: "default" | "secondary" | "outline" | "destructive" }> = {
+  pending: { label: "Pending", variant: "outline" },
+  completed: { label: "Completed", variant: "default" },
+  partially_refunded: { label: "Partly Refunded", variant: "secondary" },
+  refunded: { label: "Refunded", variant: "destructive" },
+};
+
+function formatAed(amount: string | number) {
+  return `AED ${Number(amount).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function refundableAmount(payment: PaymentWithRefunds) {
+  return Number(payment.amount) - Number(payment.refundedAmount);
+}
+
+interface AdminRefundsProps {
+  canRefund?: boolean;
+}
+
+export function AdminRefunds({ canRefund = false }: AdminRefundsProps) {
+  const { toast } = useToast();
+  const [selectedPropertyId, setSelectedPropertyId] = useState<string | null>(null);
+  const [refundingPayment, setRefundingPayment] = useState<PaymentWithRefunds | null>(null);
+  const [refundAmount, setRefundAmount] = useState("");
+  const [refundReason, setRefundReason] = useState("");
+  const [cancellingReservationId, setCancellingReservationId] = useState<string | null>(null);
+  const [cancelReason, setCancelReason] = useState("");
+
+  const { data: propertyList } = useQuery<PropertyListResponse>({
+    queryKey: ["/api/properties?pageSize=50"],
+  });
+
+  const properties = propertyList?.properties || [];
+  const selectedProperty = properties.find(p => p.id === selectedPropertyId) || properties[0];
+  const propertyId = selectedProperty?.id || "";
+  const paymentsQueryKey = ["/api/admin/properties", propertyId, "payments"];
+
+  const { data, isLoading } = useQuery<PropertyPaymentsResponse>({
+    queryKey: paymentsQueryKey,
+    enabled: !!propertyId,
+  });
+
+  const payments = data?.payments || [];
+  const activeReservations = (data?.reservations || []).filter(r => r.reservationStatus !== "cancelled");
+  const cancellingReservation = activeReservations.find(r => r.id === cancellingReservationId);
+  const cancellingPayments = payments.filter(p => p.slotId && cancellingReservation?.slots.some(slot => slot.id === p.slotId) && refundableAmount(p) > 0);
+
+  const onSettled = () => {
+    queryClient.invalidateQueries({ queryKey: paymentsQueryKey });
+    queryClient.invalidateQueries({ queryKey: ["/api/properties?pageSize=50"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/investors"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/ledger/trial-balance"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/ledger/accounts"] });
+  };
+
+  const onError = (error: Error) => {
+    onSettled();
+    toast({
+      title: "Refund Failed",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const refundMutation = useMutation({
+    mutationFn: async (payment: PaymentWithRefunds) => {
+      const res = await apiRequest("POST", `/api/admin/payments/${payment.id}/refunds`, {
+        amount: refundAmount || undefined,
+        reason: refundReason,
+      });
+      return await res.json();
+    },
+    onSuccess: ({ refund, fractionReleased }) => {
+      onSettled();
+      setRefundingPayment(null);
+      toast({
+        title: "Refund Issued",
+        description: `${formatAed(refund.amount)} refunded${fractionReleased ? " - the share has been released" : ""}`,
+      });
+    },
+    onError,
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (reservationId: string) => {
+      const res = await apiRequest("POST", `/api/admin/reservations/${reservationId}/cancel`, {
+        reason: cancelReason,
+      });
+      return await res.json();
+    },
+    onSuccess: ({ refunds, invalidated }) => {
+      onSettled();
+      setCancellingReservationId(null);
+      setCancelReason("");
+      toast({
+        title: "Reservation Cancelled",
+        description: `${refunds.length} payment${refunds.length === 1 ? "" : "s"} refunded, ${invalidated.signatures} signature${invalidated.signatures === 1 ? "" : "s"} voided`,
+      });
+    },
+    onError,
+  });
+
+  const openRefund = (payment: PaymentWithRefunds) => {
+    setRefundingPayment(payment);
+    setRefundAmount(refundableAmount(payment).toFixed(2));
+    setRefundReason("");
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+          <div>
+            <CardTitle>Payments & Refunds</CardTitle>
+            <CardDescription>
+              Card payments per property. A full refund releases the co-owner's share.
+            </CardDescription>
+          </div>
+          <Select value={propertyId} onValueChange={setSelectedPropertyId}>
+            <SelectTrigger className="w-64" data-testid="select-refunds-property">
+              <SelectValue placeholder="Select property" />
+            </SelectTrigger>
+            <SelectContent>
+              {properties.map(property => (
+                <SelectItem key={property.id} value={property.id}>{property.title}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-muted-foreground text-center py-6">Loading payments...</p>
+          ) : payments.length === 0 ? (
+            <p className="text-muted-foreground text-center py-6">No payments for this property yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Co-Owner</TableHead>
+                  <TableHead>Paid</TableHead>
+                  <TableHead>Refunded</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {payments.map(payment => {
+                  const status = paymentStatusStyles[payment.status] || { label: payment.status, variant: "outline" as const };
+                  return (
+                    <TableRow key={payment.id} data-testid={`row-payment-${payment.id}`}>
+                      <TableCell>
+                        <div className="font-medium">{payment.investorName}</div>
+                        {payment.sharePercentage && (
+                          <div className="text-xs text-muted-foreground">{Number(payment.sharePercentage)}% share</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="tabular-nums">{formatAed(payment.amount)}</TableCell>
+                      <TableCell>
+                        <div className="tabular-nums">{Number(payment.refundedAmount) > 0 ? formatAed(payment.refundedAmount) : "—"}</div>
+                        {payment.refunds.map(refund => (
+                          <div key={refund.id} className="text-xs text-muted-foreground" data-testid={`text-refund-${refund.id}`}>
+                            {formatAed(refund.amount)} · {refund.status}
+                            {refund.failureReason && ` (${refund.failureReason})`}
+                          </div>
+                        ))}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={status.variant}>{status.label}</Badge>
+                      </TableCell>
+                      <TableCell className="tabular-nums">
+                        {new Date(payment.completedAt || payment.createdAt).toLocaleDateString()}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {canRefund && refundableAmount(payment) > 0 && payment.status !== "pending" && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => openRefund(payment)}
+                            data-testid={`button-refund-payment-${payment.id}`}
+                          >
+                            <Undo2 className="h-4 w-4 mr-2" />
+                            Refund
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {canRefund && activeReservations.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Reservation Cancellation</CardTitle>
+            <CardDescription>
+              Cancelling refunds every payment in full, releases the shares and voids the deal's signatures and documents
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {activeReservations.map(reservation => {
+              const paidSlots = reservation.slots.filter(slot => slot.paymentStatus === "paid").length;
+              return (
+                <div key={reservation.id} className="flex flex-wrap items-center justify-between gap-3 border rounded-md p-3" data-testid={`row-reservation-${reservation.id}`}>
+                  <div className="space-y-1">
+                    <div className="font-medium">
+                      {reservation.slots.length} co-owner reservation
+                      <Badge variant="outline" className="ml-2">{reservation.reservationStatus.replace(/_/g, " ")}</Badge>
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {paidSlots} of {reservation.slots.length} shares paid · created {new Date(reservation.createdAt).toLocaleDateString()}
+                    </div>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="destructive"
+                    onClick={() => setCancellingReservationId(reservation.id)}
+                    data-testid={`button-cancel-reservation-${reservation.id}`}
+                  >
+                    <Ban className="h-4 w-4 mr-2" />
+                    Cancel & Refund
+                  </Button>
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={!!refundingPayment} onOpenChange={(open) => !open && setRefundingPayment(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Refund Payment</DialogTitle>
+            <DialogDescription>
+              {refundingPayment && `${refundingPayment.investorName} - up to ${formatAed(refundableAmount(refundingPayment))} refundable`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="refund-amount">Amount (AED)</Label>
+              <Input
+                id="refund-amount"
+                type="number"
+                min="0"
+                step="0.01"
+                value={refundAmount}
+                onChange={(e) => setRefundAmount(e.target.value)}
+                data-testid="input-refund-amount"
+              />
+              {refundingPayment && Number(refundAmount) < refundableAmount(refundingPayment) && (
+                <p className="text-xs text-muted-foreground">
+                  A partial refund keeps the co-owner's share; only a full refund releases it.
+                </p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="refund-reason">Reason</Label>
+              <Textarea
+                id="refund-reason"
+                value={refundReason}
+                onChange={(e) => setRefundReason(e.target.value)}
+                placeholder="Recorded in the audit trail"
+                data-testid="input-refund-reason"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRefundingPayment(null)}>Cancel</Button>
+            <Button
+              onClick={() => refundingPayment && refundMutation.mutate(refundingPayment)}
+              disabled={refundMutation.isPending || !(Number(refundAmount) > 0) || refundReason.trim().length < 3}
+              data-testid="button-confirm-refund"
+            >
+              {refundMutation.isPending ? "Refunding..." : "Issue Refund"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!cancellingReservation} onOpenChange={(open) => !open && setCancellingReservationId(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Cancel Reservation</DialogTitle>
+            <DialogDescription>
+              {cancellingPayments.length > 0
+                ? `${cancellingPayments.length} payment${cancellingPayments.length === 1 ? "" : "s"} totalling ${formatAed(cancellingPayments.reduce((sum, p) => sum + refundableAmount(p), 0))} will be refunded.`
+                : "No payments to refund."}
+            </DialogDescription>
+          </DialogHeader>
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>
+              The co-owners' signatures and the signed documents for this property are voided. This cannot be undone.
+            </AlertDescription>
+          </Alert>
+          <div className="space-y-2">
+            <Label htmlFor="cancel-reason">Reason</Label>
+            <Textarea
+              id="cancel-reason"
+              value={cancelReason}
+              onChange={(e) => setCancelReason(e.target.value)}
+              placeholder="Recorded in the audit trail"
+              data-testid="input-cancel-reason"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCancellingReservationId(null)}>Keep Reservation</Button>
+            <Button
+              variant="destructive"
+              onClick={() => cancellingReservation && cancelMutation.mutate(cancellingReservation.id)}
+              disabled={cancelMutation.isPending || cancelReason.trim().length < 3}
+              data-testid="button-confirm-cancel-reservation"
+            >
+              {cancelMutation.isPending ? "Cancelling..." : "Cancel & Refund"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,358 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Plus, Check } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import type { Property, RentalDistribution, RentalPayout } from "@shared/schema";
+
+interface PropertyListResponse {
+  properties: Property[];
+  total: number;
+}
+
+interface PropertyOwner {
+  investorId: string;
+  investorName: string;
+  slotId: string;
+  sharePercentage: string;
+}
+
+interface RentalDistributionWithPayouts extends RentalDistribution {
+  payouts: Array<RentalPayout & { investorName: string }>;
+}
+
+interface RentalIncomeResponse {
+  distributions: RentalDistributionWithPayouts[];
+  owners: PropertyOwner[];
+}
+
+const emptyIncome = {
+  periodStart: "",
+  periodEnd: "",
+  grossRent: "",
+  managementFee: "",
+  serviceCharges: "",
+  maintenance: "",
+  notes: "",
+};
+
+function formatAed(amount: string | number) {
+  return `AED ${Number(amount).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function formatPeriod(distribution: RentalDistribution) {
+  return `${new Date(distribution.periodStart).toLocaleDateString()} – ${new Date(distribution.periodEnd).toLocaleDateString()}`;
+}
+
+interface AdminRentalIncomeProps {
+  canManage?: boolean;
+}
+
+export function AdminRentalIncome({ canManage = false }: AdminRentalIncomeProps) {
+  const { toast } = useToast();
+  const [selectedPropertyId, setSelectedPropertyId] = useState<string | null>(null);
+  const [isRecordOpen, setIsRecordOpen] = useState(false);
+  const [income, setIncome] = useState(emptyIncome);
+  const [payingPayout, setPayingPayout] = useState<(RentalPayout & { investorName: string }) | null>(null);
+  const [paymentReference, setPaymentReference] = useState("");
+
+  const { data: propertyList } = useQuery<PropertyListResponse>({
+    queryKey: ["/api/properties?pageSize=50"],
+  });
+
+  const properties = propertyList?.properties || [];
+  const selectedProperty = properties.find(p => p.id === selectedPropertyId) || properties[0];
+  const propertyId = selectedProperty?.id || "";
+  const rentalQueryKey = ["/api/admin/properties", propertyId, "rental-income"];
+
+  const { data, isLoading } = useQuery<RentalIncomeResponse>({
+    queryKey: rentalQueryKey,
+    enabled: !!propertyId,
+  });
+
+  const distributions = data?.distributions || [];
+  const owners = data?.owners || [];
+  const ownedShare = owners.reduce((sum, owner) => sum + Number(owner.sharePercentage), 0);
+  const netIncome = Number(income.grossRent || 0) - Number(income.managementFee || 0) - Number(income.serviceCharges || 0) - Number(income.maintenance || 0);
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: rentalQueryKey });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/ledger/trial-balance"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/ledger/accounts"] });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Rental Income Failed",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const recordMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/admin/properties/${propertyId}/rental-income`, {
+        periodStart: income.periodStart,
+        periodEnd: income.periodEnd,
+        grossRent: income.grossRent,
+        managementFee: income.managementFee || 0,
+        serviceCharges: income.serviceCharges || 0,
+        maintenance: income.maintenance || 0,
+        notes: income.notes.trim() || undefined,
+      });
+      return (await res.json()) as RentalDistributionWithPayouts;
+    },
+    onSuccess: (distribution) => {
+      invalidate();
+      setIsRecordOpen(false);
+      setIncome(emptyIncome);
+      toast({
+        title: "Rent Distributed",
+        description: `${formatAed(distribution.netIncome)} shared among ${distribution.payouts.length} co-owner${distribution.payouts.length === 1 ? "" : "s"}`,
+      });
+    },
+    onError,
+  });
+
+  const payoutMutation = useMutation({
+    mutationFn: async (payoutId: string) => {
+      const res = await apiRequest("POST", `/api/admin/rental-payouts/${payoutId}/paid`, { paymentReference });
+      return (await res.json()) as RentalPayout;
+    },
+    onSuccess: (payout) => {
+      invalidate();
+      setPayingPayout(null);
+      setPaymentReference("");
+      toast({ title: "Payout Recorded", description: `${formatAed(payout.amount)} marked as paid` });
+    },
+    onError,
+  });
+
+  const setField = (field: keyof typeof emptyIncome) => (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+    setIncome(current => ({ ...current, [field]: e.target.value }));
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div>
+          <CardTitle>Rental Income</CardTitle>
+          <CardDescription>
+            Rent received less management fees, service charges and maintenance, shared by ownership
+          </CardDescription>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={propertyId} onValueChange={setSelectedPropertyId}>
+            <SelectTrigger className="w-64" data-testid="select-rental-property">
+              <SelectValue placeholder="Select property" />
+            </SelectTrigger>
+            <SelectContent>
+              {properties.map(property => (
+                <SelectItem key={property.id} value={property.id}>{property.title}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {canManage && (
+            <Button onClick={() => setIsRecordOpen(true)} disabled={!propertyId} data-testid="button-record-rent">
+              <Plus className="h-4 w-4 mr-2" />
+              Record Rent
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-wrap gap-2">
+          {owners.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No paid co-owners for this property yet</p>
+          ) : (
+            owners.map(owner => (
+              <Badge key={owner.slotId} variant="outline" data-testid={`badge-rental-owner-${owner.slotId}`}>
+                {owner.investorName} · {Number(owner.sharePercentage)}%
+              </Badge>
+            ))
+          )}
+        </div>
+
+        {isLoading ? (
+          <p className="text-muted-foreground text-center py-6">Loading distributions...</p>
+        ) : distributions.length === 0 ? (
+          <p className="text-muted-foreground text-center py-6">No rent distributed for this property yet</p>
+        ) : (
+          <div className="space-y-4">
+            {distributions.map(distribution => (
+              <div key={distribution.id} className="border rounded-md" data-testid={`row-distribution-${distribution.id}`}>
+                <div className="flex flex-wrap items-start justify-between gap-4 p-4 border-b">
+                  <div>
+                    <p className="font-medium">{formatPeriod(distribution)}</p>
+                    <p className="text-xs text-muted-foreground">
+                      Gross {formatAed(distribution.grossRent)} · management {formatAed(distribution.managementFee)} ·
+                      service charges {formatAed(distribution.serviceCharges)} · maintenance {formatAed(distribution.maintenance)}
+                    </p>
+                    {distribution.notes && <p className="text-xs text-muted-foreground mt-1">{distribution.notes}</p>}
+                  </div>
+                  <div className="text-right">
+                    <p className="text-xs text-muted-foreground">Net distributed</p>
+                    <p className="font-semibold tabular-nums">{formatAed(distribution.netIncome)}</p>
+                  </div>
+                </div>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Co-Owner</TableHead>
+                      <TableHead className="text-right">Amount</TableHead>
+                      <TableHead>Payout</TableHead>
+                      <TableHead></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {distribution.payouts.map(payout => (
+                      <TableRow key={payout.id} data-testid={`row-rental-payout-${payout.id}`}>
+                        <TableCell>
+                          <div className="font-medium">{payout.investorName}</div>
+                          <div className="text-xs text-muted-foreground">{Number(payout.sharePercentage)}% share</div>
+                        </TableCell>
+                        <TableCell className="text-right tabular-nums">{formatAed(payout.amount)}</TableCell>
+                        <TableCell>
+                          {payout.status === "paid" ? (
+                            <div>
+                              <Badge>Paid</Badge>
+                              <div className="text-xs text-muted-foreground mt-1">
+                                {payout.paidAt && new Date(payout.paidAt).toLocaleDateString()} · {payout.paymentReference}
+                              </div>
+                            </div>
+                          ) : (
+                            <Badge variant="outline">To pay</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {canManage && payout.status === "pending" && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => setPayingPayout(payout)}
+                              data-testid={`button-pay-rental-payout-${payout.id}`}
+                            >
+                              <Check className="h-4 w-4 mr-2" />
+                              Mark Paid
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={isRecordOpen} onOpenChange={setIsRecordOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Record Rent</DialogTitle>
+            <DialogDescription>
+              {selectedProperty?.title}
+              {ownedShare < 99.99 && ` · only ${Number(ownedShare.toFixed(2))}% is paid for, so rent cannot be distributed yet`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="rent-period-start">Period Start</Label>
+                <Input id="rent-period-start" type="date" value={income.periodStart} onChange={setField("periodStart")} data-testid="input-rent-period-start" />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rent-period-end">Period End</Label>
+                <Input id="rent-period-end" type="date" value={income.periodEnd} onChange={setField("periodEnd")} data-testid="input-rent-period-end" />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="rent-gross">Rent Received (AED)</Label>
+                <Input id="rent-gross" type="number" min="0" step="0.01" value={income.grossRent} onChange={setField("grossRent")} data-testid="input-rent-gross" />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rent-management-fee">Management Fee (AED)</Label>
+                <Input id="rent-management-fee" type="number" min="0" step="0.01" value={income.managementFee} onChange={setField("managementFee")} data-testid="input-rent-management-fee" />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rent-service-charges">Service Charges (AED)</Label>
+                <Input id="rent-service-charges" type="number" min="0" step="0.01" value={income.serviceCharges} onChange={setField("serviceCharges")} data-testid="input-rent-service-charges" />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rent-maintenance">Maintenance (AED)</Label>
+                <Input id="rent-maintenance" type="number" min="0" step="0.01" value={income.maintenance} onChange={setField("maintenance")} data-testid="input-rent-maintenance" />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rent-notes">Notes</Label>
+              <Textarea id="rent-notes" value={income.notes} onChange={setField("notes")} placeholder="Tenant, cheque number, etc." data-testid="input-rent-notes" />
+            </div>
+            <div className="rounded-md bg-muted/50 p-3 space-y-1 text-sm">
+              <div className="flex justify-between font-medium">
+                <span>Net to distribute</span>
+                <span className="tabular-nums" data-testid="text-rent-net">{formatAed(Math.max(0, netIncome))}</span>
+              </div>
+              {netIncome > 0 && owners.map(owner => (
+                <div key={owner.slotId} className="flex justify-between text-xs text-muted-foreground">
+                  <span>{owner.investorName} · {Number(owner.sharePercentage)}%</span>
+                  <span className="tabular-nums">{formatAed(netIncome * Number(owner.sharePercentage) / 100)}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsRecordOpen(false)}>Cancel</Button>
+            <Button
+              onClick={() => recordMutation.mutate()}
+              disabled={recordMutation.isPending || !income.periodStart || !income.periodEnd || !(netIncome > 0)}
+              data-testid="button-confirm-record-rent"
+            >
+              {recordMutation.isPending ? "Distributing..." : "Distribute"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!payingPayout} onOpenChange={(open) => !open && setPayingPayout(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Mark Payout Paid</DialogTitle>
+            <DialogDescription>
+              {payingPayout && `${formatAed(payingPayout.amount)} to ${payingPayout.investorName}`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="payout-reference">Bank Reference</Label>
+            <Input
+              id="payout-reference"
+              value={paymentReference}
+              onChange={(e) => setPaymentReference(e.target.value)}
+              placeholder="Reference of the transfer to the co-owner"
+              data-testid="input-payout-reference"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPayingPayout(null)}>Cancel</Button>
+            <Button
+              onClick={() => payingPayout && payoutMutation.mutate(payingPayout.id)}
+              disabled={payoutMutation.isPending || !paymentReference.trim()}
+              data-testid="button-confirm-rental-payout"
+            >
+              {payoutMutation.isPending ? "Saving..." : "Mark Paid"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
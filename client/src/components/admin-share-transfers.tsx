@@ -0,0 +1,232 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import type { ShareTransfer } from "@shared/schema";
+
+interface ShareTransferWithDetails extends ShareTransfer {
+  propertyTitle: string;
+  sellerName: string;
+  buyerName: string;
+  signedInvestorIds: string[];
+}
+
+interface ShareTransfersResponse {
+  transfers: ShareTransferWithDetails[];
+}
+
+const statusLabels: Record<string, string> = {
+  signing: "Awaiting signatures",
+  awaiting_payment: "Awaiting payment",
+  completed: "Completed",
+  cancelled: "Cancelled",
+};
+
+function formatAed(amount: string | number) {
+  return `AED ${Number(amount).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+interface AdminShareTransfersProps {
+  canManage?: boolean;
+}
+
+export function AdminShareTransfers({ canManage = false }: AdminShareTransfersProps) {
+  const { toast } = useToast();
+  const [settling, setSettling] = useState<ShareTransferWithDetails | null>(null);
+  const [paymentReference, setPaymentReference] = useState("");
+  const [cancelling, setCancelling] = useState<ShareTransferWithDetails | null>(null);
+  const [reason, setReason] = useState("");
+
+  const { data, isLoading } = useQuery<ShareTransfersResponse>({
+    queryKey: ["/api/admin/share-transfers"],
+  });
+  const transfers = data?.transfers || [];
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/share-transfers"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/ledger/trial-balance"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/ledger/accounts"] });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Share Transfer Failed",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const settleMutation = useMutation({
+    mutationFn: async (transferId: string) => {
+      const res = await apiRequest("POST", `/api/admin/share-transfers/${transferId}/settle`, { paymentReference });
+      return (await res.json()) as ShareTransfer;
+    },
+    onSuccess: (transfer) => {
+      invalidate();
+      setSettling(null);
+      setPaymentReference("");
+      toast({ title: "Transfer Settled", description: `${transfer.settlementReference}: the share now belongs to the buyer` });
+    },
+    onError,
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (transferId: string) => {
+      const res = await apiRequest("POST", `/api/admin/share-transfers/${transferId}/cancel`, { reason });
+      return (await res.json()) as ShareTransfer;
+    },
+    onSuccess: (transfer) => {
+      invalidate();
+      setCancelling(null);
+      setReason("");
+      toast({ title: "Transfer Cancelled", description: `${transfer.settlementReference}: the share is back on the market` });
+    },
+    onError,
+  });
+
+  return (
+    <Card data-testid="card-admin-share-transfers">
+      <CardHeader>
+        <CardTitle>Share Transfers</CardTitle>
+        <CardDescription>
+          Shares sold between investors. Settle a transfer once both parties have signed and the buyer's payment has reached the seller.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : transfers.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">No shares have been sold yet</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Reference</TableHead>
+                <TableHead>Share</TableHead>
+                <TableHead>Seller → Buyer</TableHead>
+                <TableHead className="text-right">Price</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {transfers.map(transfer => (
+                <TableRow key={transfer.id} data-testid={`row-admin-share-transfer-${transfer.id}`}>
+                  <TableCell className="font-mono text-xs">{transfer.settlementReference}</TableCell>
+                  <TableCell>
+                    {Number(transfer.sharePercentage)}% of {transfer.propertyTitle}
+                  </TableCell>
+                  <TableCell>
+                    {transfer.sellerName} → {transfer.buyerName}
+                  </TableCell>
+                  <TableCell className="text-right tabular-nums">{formatAed(transfer.price)}</TableCell>
+                  <TableCell>
+                    <Badge variant={transfer.status === "cancelled" ? "destructive" : transfer.status === "completed" ? "default" : "secondary"}>
+                      {statusLabels[transfer.status] || transfer.status}
+                    </Badge>
+                    {transfer.status === "signing" && (
+                      <p className="text-xs text-muted-foreground mt-1">{transfer.signedInvestorIds.length} of 2 signed</p>
+                    )}
+                    {transfer.paymentReference && (
+                      <p className="text-xs text-muted-foreground mt-1">ref {transfer.paymentReference}</p>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right space-x-2 whitespace-nowrap">
+                    {transfer.signedDocumentId && (
+                      <Button asChild size="sm" variant="ghost">
+                        <a href={`/api/admin/share-transfers/${transfer.id}/agreement`} data-testid={`link-admin-transfer-agreement-${transfer.id}`}>
+                          <Download className="h-4 w-4" />
+                        </a>
+                      </Button>
+                    )}
+                    {canManage && transfer.status === "awaiting_payment" && (
+                      <Button size="sm" onClick={() => setSettling(transfer)} data-testid={`button-settle-transfer-${transfer.id}`}>
+                        Settle
+                      </Button>
+                    )}
+                    {canManage && (transfer.status === "signing" || transfer.status === "awaiting_payment") && (
+                      <Button size="sm" variant="outline" onClick={() => setCancelling(transfer)} data-testid={`button-cancel-transfer-${transfer.id}`}>
+                        Cancel
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={!!settling} onOpenChange={(open) => !open && setSettling(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Settle Share Transfer</DialogTitle>
+            <DialogDescription>
+              {settling && `${settling.buyerName} pays ${formatAed(settling.price)} to ${settling.sellerName}. The share, its paid-in capital and future rent move to the buyer.`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="transfer-payment-reference">Bank Reference</Label>
+            <Input
+              id="transfer-payment-reference"
+              value={paymentReference}
+              onChange={(e) => setPaymentReference(e.target.value)}
+              placeholder="Reference of the buyer's payment"
+              data-testid="input-transfer-payment-reference"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSettling(null)}>Cancel</Button>
+            <Button
+              onClick={() => settling && settleMutation.mutate(settling.id)}
+              disabled={settleMutation.isPending || !paymentReference.trim()}
+              data-testid="button-confirm-settle-transfer"
+            >
+              {settleMutation.isPending ? "Settling..." : "Settle Transfer"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!cancelling} onOpenChange={(open) => !open && setCancelling(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Cancel Share Transfer</DialogTitle>
+            <DialogDescription>
+              Signatures on the agreement are voided and the share goes back on the market.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="transfer-cancel-reason">Reason</Label>
+            <Textarea
+              id="transfer-cancel-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              data-testid="input-transfer-cancel-reason"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCancelling(null)}>Back</Button>
+            <Button
+              variant="destructive"
+              onClick={() => cancelling && cancelMutation.mutate(cancelling.id)}
+              disabled={cancelMutation.isPending || reason.trim().length < 3}
+              data-testid="button-confirm-cancel-transfer"
+            >
+              {cancelMutation.isPending ? "Cancelling..." : "Cancel Transfer"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -1,8 +1,10 @@
+import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { CheckCircle2, Circle, Download, FileText, Users } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
@@ -22,15 +24,29 @@ interface PropertySignatureStatus {
   allComplete: boolean;
 }
 
-export function AdminSignatureStatus() {
+interface PropertyListResponse {
+  properties: Property[];
+  total: number;
+}
+
+interface AdminSignatureStatusProps {
+  canGenerateDocuments?: boolean;
+  canExportDLD?: boolean;
+}
+
+export function AdminSignatureStatus({ canGenerateDocuments = false, canExportDLD = false }: AdminSignatureStatusProps) {
   const { toast } = useToast();
   
-  // Fetch the pilot property to get the real property ID
-  const { data: pilotProperty } = useQuery<Property>({
-    queryKey: ["/api/properties/pilot"],
+  const [selectedPropertyId, setSelectedPropertyId] = useState<string | null>(null);
+
+  // Listing puts the pilot unit first, so it stays the default selection
+  const { data: propertyList } = useQuery<PropertyListResponse>({
+    queryKey: ["/api/properties?pageSize=50"],
   });
-  
-  const propertyId = pilotProperty?.id || "";
+
+  const properties = propertyList?.properties || [];
+  const selectedProperty = properties.find(p => p.id === selectedPropertyId) || properties[0];
+  const propertyId = selectedProperty?.id || "";
   
   const { data: signatureStatus, isLoading } = useQuery<PropertySignatureStatus>({
     queryKey: ["/api/signatures/property", propertyId, "status"],
@@ -190,8 +206,22 @@ export function AdminSignatureStatus() {
             <div>
               <CardTitle className="text-2xl font-serif">Multi-Party Signature Tracking</CardTitle>
               <CardDescription>
-                Monitor co-ownership agreement signing progress (4 investors required)
+                Monitor co-ownership agreement signing progress ({selectedProperty?.totalFractions ?? 4} investors required)
               </CardDescription>
+              {properties.length > 1 && (
+                <Select value={propertyId} onValueChange={setSelectedPropertyId}>
+                  <SelectTrigger className="w-72 mt-3" data-testid="select-signature-property">
+                    <SelectValue placeholder="Select property" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {properties.map(property => (
+                      <SelectItem key={property.id} value={property.id}>
+                        {property.title}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
             </div>
             <div className="text-right">
               <div className="text-3xl font-bold text-primary" data-testid="text-documents-complete">
@@ -209,9 +239,9 @@ export function AdminSignatureStatus() {
               data-testid="button-send-to-all-investors"
             >
               <Users className="mr-2 h-4 w-4" />
-              Send to All 4 Investors
+              Send to All {selectedProperty?.totalFractions ?? 4} Investors
             </Button>
-            {allDocumentsComplete && (
+            {allDocumentsComplete && canExportDLD && (
               <Button 
                 onClick={handleExportDLDBundle}
                 variant="default"
@@ -278,7 +308,7 @@ export function AdminSignatureStatus() {
                       />
                     </div>
 
-                    {doc.signedCount > 0 && doc.signedInvestorIds && doc.signedInvestorIds.length > 0 && (
+                    {canGenerateDocuments && doc.signedCount > 0 && doc.signedInvestorIds && doc.signedInvestorIds.length > 0 && (
                       <div className="mt-4 flex gap-2">
                         <Button 
                           size="sm" 
@@ -11,7 +11,11 @@ import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import type { AgreementTemplate } from "@shared/schema";
 
-export function AdminTemplates() {
+interface AdminTemplatesProps {
+  canEdit?: boolean;
+}
+
+export function AdminTemplates({ canEdit = false }: AdminTemplatesProps) {
   const [editingTemplate, setEditingTemplate] = useState<AgreementTemplate | null>(null);
   const [editedContent, setEditedContent] = useState("");
   const [editedContentArabic, setEditedContentArabic] = useState("");
@@ -73,7 +77,9 @@ export function AdminTemplates() {
       <div>
         <h2 className="text-2xl font-bold font-serif mb-2">Agreement Templates</h2>
         <p className="text-muted-foreground">
-          Manage legal document templates. Changes are versioned and tracked for compliance.
+          {canEdit
+            ? "Manage legal document templates. Changes are versioned and tracked for compliance."
+            : "View legal document templates. Only the legal team can edit templates."}
         </p>
       </div>
 
@@ -104,6 +110,8 @@ export function AdminTemplates() {
                     ? "Co-Ownership Agreement"
                     : template.templateType === "power_of_attorney"
                     ? "Power of Attorney"
+                    : template.templateType === "share_transfer"
+                    ? "Share Transfer Agreement"
                     : "JOP Declaration (DLD Article 6)"}
                 </p>
                 <p>
@@ -143,22 +151,24 @@ export function AdminTemplates() {
                   </DialogContent>
                 </Dialog>
 
-                <Button
-                  variant="default"
-                  size="sm"
-                  className="flex-1"
-                  onClick={() => handleEditClick(template)}
-                  data-testid={`button-edit-${template.templateType}`}
-                >
-                  Edit Template
-                </Button>
+                {canEdit && (
+                  <Button
+                    variant="default"
+                    size="sm"
+                    className="flex-1"
+                    onClick={() => handleEditClick(template)}
+                    data-testid={`button-edit-${template.templateType}`}
+                  >
+                    Edit Template
+                  </Button>
+                )}
               </div>
             </CardContent>
           </Card>
         ))}
       </div>
 
-      {editingTemplate && (
+      {canEdit && editingTemplate && (
         <Dialog open={!!editingTemplate} onOpenChange={() => setEditingTemplate(null)}>
           <DialogContent className="max-w-5xl max-h-[90vh] flex flex-col">
             <DialogHeader>
@@ -0,0 +1,179 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Shovel, Building, PlugZap, PaintBucket, KeyRound, FileText, Coins } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ProcessTimeline } from "@/components/process-timeline";
+import { PropertyGallery, type PropertyMediaItem } from "@/components/property-gallery";
+import type { ConstructionStage, ConstructionUpdate } from "@shared/schema";
+
+// Shape returned by GET /api/properties/:id/milestones
+export interface ConstructionMilestoneItem {
+  id: string;
+  propertyId: string;
+  stage: ConstructionStage;
+  label: string;
+  percentComplete: number;
+  expectedCompletionDate: string | null;
+  completedAt: string | null;
+  certificateFilename: string | null;
+  certificateUploadedAt: string | null;
+  certificateUrl: string | null;
+  updates: ConstructionUpdate[];
+  photos: PropertyMediaItem[];
+  instalments: Array<{
+    id: string;
+    sequence: number;
+    label: string;
+    percentage: string;
+    dueDate: string | null;
+    triggeredAt: string | null;
+  }>;
+}
+
+export interface MilestoneTimelineResponse {
+  propertyId: string;
+  overallProgress: number;
+  milestones: ConstructionMilestoneItem[];
+}
+
+const stageIcons = {
+  foundation: Shovel,
+  structure: Building,
+  mep: PlugZap,
+  finishing: PaintBucket,
+  handover: KeyRound,
+};
+
+const stageDescriptions: Record<ConstructionStage, string> = {
+  foundation: "Excavation, piling and foundation works",
+  structure: "Concrete frame and floors up to the roof",
+  mep: "Mechanical, electrical and plumbing installation",
+  finishing: "Facade, interiors and fit-out",
+  handover: "Completion certificate and unit handover",
+};
+
+function MilestoneDetails({ milestone, propertyTitle }: { milestone: ConstructionMilestoneItem; propertyTitle: string }) {
+  const [showAllUpdates, setShowAllUpdates] = useState(false);
+  const updates = showAllUpdates ? milestone.updates : milestone.updates.slice(0, 2);
+
+  if (milestone.updates.length === 0 && milestone.photos.length === 0 && !milestone.certificateUrl && milestone.instalments.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mt-3 space-y-3">
+      {updates.length > 0 && (
+        <div className="space-y-2">
+          {updates.map(update => (
+            <div key={update.id} className="text-sm border-l-2 border-muted pl-3" data-testid={`construction-update-${update.id}`}>
+              <div className="text-xs text-muted-foreground">
+                {format(new Date(update.createdAt), "MMM d, yyyy")} · {update.percentComplete}%
+              </div>
+              <p>{update.note}</p>
+              {update.noteArabic && <p dir="rtl" className="text-muted-foreground">{update.noteArabic}</p>}
+            </div>
+          ))}
+          {milestone.updates.length > 2 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-auto px-0 text-xs"
+              onClick={() => setShowAllUpdates(!showAllUpdates)}
+              data-testid={`button-toggle-updates-${milestone.stage}`}
+            >
+              {showAllUpdates ? "Show fewer updates" : `Show all ${milestone.updates.length} updates`}
+            </Button>
+          )}
+        </div>
+      )}
+
+      {milestone.photos.length > 0 && (
+        <PropertyGallery media={milestone.photos.map(photo => ({ ...photo, mediaType: "photo" }))} title={`${propertyTitle} - ${milestone.label}`} />
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        {milestone.certificateUrl && (
+          <Button variant="outline" size="sm" asChild>
+            <a href={milestone.certificateUrl} target="_blank" rel="noreferrer" data-testid={`link-certificate-${milestone.stage}`}>
+              <FileText className="h-4 w-4 mr-2" />
+              Progress Certificate
+            </a>
+          </Button>
+        )}
+        {milestone.instalments.map(instalment => (
+          <Badge key={instalment.id} variant="outline" className="gap-1" data-testid={`badge-milestone-instalment-${instalment.id}`}>
+            <Coins className="h-3 w-3" />
+            {instalment.label} ({Number(instalment.percentage)}%)
+            {instalment.dueDate ? ` · due ${format(new Date(instalment.dueDate), "MMM d, yyyy")}` : " · due on completion"}
+          </Badge>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+interface ConstructionTimelineProps {
+  propertyId: string;
+  propertyTitle: string;
+  compact?: boolean;
+}
+
+/**
+ * Construction stages of a property on the ProcessTimeline, with updates, photos and certificates
+ */
+export function ConstructionTimeline({ propertyId, propertyTitle, compact = false }: ConstructionTimelineProps) {
+  const { data, isLoading } = useQuery<MilestoneTimelineResponse>({
+    queryKey: ["/api/properties", propertyId, "milestones"],
+    enabled: !!propertyId,
+  });
+
+  if (isLoading) {
+    return <Skeleton className="h-96 w-full" />;
+  }
+
+  if (!data) {
+    return (
+      <Card>
+        <CardContent className="py-8 text-center text-sm text-muted-foreground">
+          Construction progress is not available for this property yet
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const currentIndex = data.milestones.findIndex(m => !m.completedAt);
+  const currentStep = currentIndex === -1 ? data.milestones.length : currentIndex + 1;
+
+  const steps = data.milestones.map((milestone, index) => ({
+    number: index + 1,
+    title: milestone.label,
+    description: milestone.completedAt
+      ? stageDescriptions[milestone.stage]
+      : milestone.expectedCompletionDate
+      ? `${stageDescriptions[milestone.stage]} - expected ${format(new Date(milestone.expectedCompletionDate), "MMM yyyy")}`
+      : stageDescriptions[milestone.stage],
+    status: milestone.completedAt
+      ? ("completed" as const)
+      : index === currentIndex
+      ? ("current" as const)
+      : ("upcoming" as const),
+    completedAt: milestone.completedAt ?? undefined,
+    icon: stageIcons[milestone.stage],
+    percentComplete: milestone.percentComplete,
+    details: <MilestoneDetails milestone={milestone} propertyTitle={propertyTitle} />,
+  }));
+
+  return (
+    <ProcessTimeline
+      title={`Construction Progress - ${propertyTitle}`}
+      currentStep={currentStep}
+      steps={steps}
+      progress={data.overallProgress}
+      compact={compact}
+    />
+  );
+}
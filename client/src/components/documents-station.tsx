@@ -12,6 +12,7 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { format } from "date-fns";
+import { formatStatementPeriod, type OwnerStatementSummary } from "@/components/owner-statements";
 
 interface DocumentsStationProps {
   documents: Array<{
@@ -25,13 +26,15 @@ interface DocumentsStationProps {
   onPreviewSign?: (documentId: string) => void;
   onDownload?: (documentId: string) => void;
   onViewDetails?: (documentId: string) => void;
+  statements?: OwnerStatementSummary[];
 }
 
 export function DocumentsStation({ 
   documents = [], 
   onPreviewSign, 
   onDownload,
-  onViewDetails 
+  onViewDetails,
+  statements = []
 }: DocumentsStationProps) {
   // Calculate progress
   const completedDocuments = documents.filter(
@@ -92,21 +95,78 @@ export function DocumentsStation({
     return status === 'signed' || status === 'completed';
   };
 
+  // Issued owner statements, each with the SHA-256 of its PDF for verification
+  const statementsCard = statements.length > 0 && (
+    <Card data-testid="card-documents-statements">
+      <CardHeader>
+        <CardTitle className="text-xl font-serif">Owner Statements</CardTitle>
+        <CardDescription>Periodic statements for each property you own</CardDescription>
+      </CardHeader>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Statement</TableHead>
+            <TableHead className="hidden md:table-cell">Issued</TableHead>
+            <TableHead className="hidden md:table-cell">SHA-256</TableHead>
+            <TableHead className="text-right">Download</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {statements.map((statement) => (
+            <TableRow key={statement.id} data-testid={`row-document-statement-${statement.id}`}>
+              <TableCell>
+                <div className="font-medium">{statement.propertyTitle} · {formatStatementPeriod(statement)}</div>
+                <div className="text-xs text-muted-foreground">{statement.statementNumber}</div>
+              </TableCell>
+              <TableCell className="hidden md:table-cell text-sm text-muted-foreground">
+                {format(new Date(statement.issuedAt), 'MMM dd, yyyy')}
+              </TableCell>
+              <TableCell className="hidden md:table-cell">
+                <code className="text-xs text-muted-foreground" title={statement.fileHash}>
+                  {statement.fileHash.slice(0, 16)}…
+                </code>
+              </TableCell>
+              <TableCell>
+                <div className="flex items-center justify-end gap-2">
+                  <Button asChild size="sm" variant="outline">
+                    <a href={`/api/statements/${statement.id}/pdf`} data-testid={`button-download-statement-pdf-${statement.id}`}>
+                      <Download className="h-3 w-3 mr-1" />
+                      PDF
+                    </a>
+                  </Button>
+                  <Button asChild size="sm" variant="ghost">
+                    <a href={`/api/statements/${statement.id}/csv`} data-testid={`button-download-statement-csv-${statement.id}`}>
+                      <Download className="h-3 w-3 mr-1" />
+                      CSV
+                    </a>
+                  </Button>
+                </div>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </Card>
+  );
+
   // Empty state
   if (documents.length === 0) {
     return (
-      <Card>
-        <CardHeader>
-          <CardTitle className="font-serif">Documents</CardTitle>
-          <CardDescription>No documents available</CardDescription>
-        </CardHeader>
-        <CardContent className="flex flex-col items-center justify-center py-12">
-          <FileText className="h-12 w-12 text-muted-foreground mb-4" />
-          <p className="text-sm text-muted-foreground">
-            Your legal documents will appear here once they are ready
-          </p>
-        </CardContent>
-      </Card>
+      <div className="space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="font-serif">Documents</CardTitle>
+            <CardDescription>No documents available</CardDescription>
+          </CardHeader>
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <FileText className="h-12 w-12 text-muted-foreground mb-4" />
+            <p className="text-sm text-muted-foreground">
+              Your legal documents will appear here once they are ready
+            </p>
+          </CardContent>
+        </Card>
+        {statementsCard}
+      </div>
     );
   }
 
@@ -347,6 +407,8 @@ export function DocumentsStation({
           </CardHeader>
         </Card>
       )}
+
+      {statementsCard}
     </div>
   );
 }
@@ -0,0 +1,86 @@
+import { useQuery } from "@tanstack/react-query";
+import { Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import type { ExitPayout } from "@shared/schema";
+
+interface InvestorExitPayout extends Omit<ExitPayout, "statementPath"> {
+  propertyId: string;
+  propertyTitle: string;
+  salePrice: string | null;
+  completedAt: string | null;
+}
+
+interface ExitProceedsResponse {
+  payouts: InvestorExitPayout[];
+}
+
+function formatAed(amount: string | number) {
+  return `AED ${Number(amount).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+interface ExitProceedsProps {
+  enabled: boolean;
+}
+
+/**
+ * Proceeds from properties the investor's co-owners sold, with the final exit statement for each.
+ * Hidden until one of their properties has been sold.
+ */
+export function ExitProceeds({ enabled }: ExitProceedsProps) {
+  const { data } = useQuery<ExitProceedsResponse>({
+    queryKey: ["/api/exits/investor"],
+    enabled,
+  });
+  const payouts = data?.payouts || [];
+
+  if (payouts.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card data-testid="card-exit-proceeds">
+      <CardHeader>
+        <CardTitle className="text-2xl font-serif">Property Sales</CardTitle>
+        <CardDescription>
+          Your share of the proceeds from properties sold by their co-owners, after the DLD transfer fee and other costs of sale.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {payouts.map(payout => (
+          <div
+            key={payout.id}
+            className="flex flex-wrap items-center justify-between gap-4 p-3 rounded-lg border"
+            data-testid={`row-exit-proceeds-${payout.id}`}
+          >
+            <div className="min-w-0">
+              <p className="font-medium">{payout.propertyTitle}</p>
+              <p className="text-xs text-muted-foreground">
+                {Number(payout.sharePercentage)}% of {formatAed(payout.salePrice || 0)}
+                {payout.completedAt && ` · sold ${new Date(payout.completedAt).toLocaleDateString()}`}
+                {` · costs ${formatAed(payout.costShare)}`}
+              </p>
+            </div>
+            <div className="flex items-center gap-3">
+              <div className="text-right">
+                <p className="font-semibold tabular-nums">{formatAed(payout.amount)}</p>
+                <Badge variant={payout.status === "paid" ? "default" : "secondary"}>
+                  {payout.status === "paid" ? "Paid" : "Being paid out"}
+                </Badge>
+              </div>
+              {payout.statementNumber && (
+                <Button asChild size="sm" variant="outline">
+                  <a href={`/api/exit-payouts/${payout.id}/statement`} data-testid={`link-exit-statement-${payout.id}`}>
+                    <Download className="h-4 w-4 mr-2" />
+                    Statement
+                  </a>
+                </Button>
+              )}
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
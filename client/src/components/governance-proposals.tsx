@@ -0,0 +1,383 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Download, Plus, Vote } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { governanceCategories, governanceCategoryLabels } from "@shared/schema";
+import type { GovernanceChoice, GovernanceProposal, Property } from "@shared/schema";
+
+export interface GovernanceBallot {
+  investorId: string;
+  investorName: string;
+  sharePercentage: string;
+  choice: GovernanceChoice | null;
+  castAt: string | null;
+  ballotHash: string | null;
+}
+
+export interface GovernanceProposalSummary extends Omit<GovernanceProposal, "resolutionPath"> {
+  propertyTitle: string;
+  proposedByName: string | null;
+  ballots: GovernanceBallot[];
+}
+
+interface GovernanceProposalsResponse {
+  proposals: GovernanceProposalSummary[];
+  defaults: { quorumPercentage: number; thresholdPercentage: number };
+}
+
+export const proposalStatusLabels: Record<string, string> = {
+  open: "Voting open",
+  passed: "Passed",
+  rejected: "Rejected",
+  no_quorum: "No quorum",
+  cancelled: "Cancelled",
+};
+
+export const choiceLabels: Record<GovernanceChoice, string> = {
+  for: "For",
+  against: "Against",
+  abstain: "Abstain",
+};
+
+/**
+ * For, against and abstained shares as a single bar, with the threshold marked
+ */
+export function ProposalTally({ proposal }: { proposal: GovernanceProposalSummary }) {
+  const voted = Number(proposal.sharesFor) + Number(proposal.sharesAgainst) + Number(proposal.sharesAbstained);
+  return (
+    <div className="space-y-1">
+      <div className="flex h-2 w-full overflow-hidden rounded-full bg-muted">
+        <div className="bg-green-600" style={{ width: `${Number(proposal.sharesFor)}%` }} />
+        <div className="bg-red-600" style={{ width: `${Number(proposal.sharesAgainst)}%` }} />
+        <div className="bg-muted-foreground/40" style={{ width: `${Number(proposal.sharesAbstained)}%` }} />
+      </div>
+      <p className="text-xs text-muted-foreground tabular-nums">
+        {Number(proposal.sharesFor)}% for · {Number(proposal.sharesAgainst)}% against · {Number(proposal.sharesAbstained)}% abstained
+        {` · ${Number(voted.toFixed(2))}% voted of ${Number(proposal.quorumPercentage)}% quorum`}
+        {` · passes with ${Number(proposal.thresholdPercentage)}% of votes for`}
+      </p>
+    </div>
+  );
+}
+
+function defaultDeadline() {
+  const deadline = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000);
+  return deadline.toISOString().slice(0, 10);
+}
+
+interface GovernanceProposalsProps {
+  enabled: boolean;
+  investorId: string;
+  properties: Property[];
+}
+
+export function GovernanceProposals({ enabled, investorId, properties }: GovernanceProposalsProps) {
+  const { toast } = useToast();
+  const [creating, setCreating] = useState(false);
+  const [propertyId, setPropertyId] = useState<string | null>(null);
+  const [category, setCategory] = useState<string>("tenant_selection");
+  const [title, setTitle] = useState("");
+  const [description, setDescription] = useState("");
+  const [deadline, setDeadline] = useState(defaultDeadline);
+  const [quorum, setQuorum] = useState("");
+  const [threshold, setThreshold] = useState("");
+  const [ballot, setBallot] = useState<{ proposal: GovernanceProposalSummary; choice: GovernanceChoice } | null>(null);
+  const [otpDestination, setOtpDestination] = useState<string | null>(null);
+  const [otp, setOtp] = useState("");
+
+  const { data } = useQuery<GovernanceProposalsResponse>({
+    queryKey: ["/api/governance/proposals"],
+    enabled,
+  });
+  const proposals = data?.proposals || [];
+  const selectedPropertyId = propertyId || properties[0]?.id || "";
+  const awaitingMe = proposals.filter(proposal =>
+    proposal.status === "open" && !proposal.ballots.find(b => b.investorId === investorId)?.choice
+  );
+
+  const closeBallot = () => {
+    setBallot(null);
+    setOtpDestination(null);
+    setOtp("");
+  };
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/governance/proposals", {
+        propertyId: selectedPropertyId,
+        category,
+        title,
+        description,
+        // End of the chosen day, local time
+        deadline: new Date(`${deadline}T23:59:00`).toISOString(),
+        quorumPercentage: quorum ? Number(quorum) : undefined,
+        thresholdPercentage: threshold ? Number(threshold) : undefined,
+      });
+      return (await res.json()) as GovernanceProposal;
+    },
+    onSuccess: (proposal) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/governance/proposals"] });
+      setCreating(false);
+      setTitle("");
+      setDescription("");
+      setQuorum("");
+      setThreshold("");
+      setDeadline(defaultDeadline());
+      toast({ title: "Proposal Opened", description: `Co-owners have been asked to vote on "${proposal.title}"` });
+    },
+    onError: onError("Proposal Failed"),
+  });
+
+  const requestCodeMutation = useMutation({
+    mutationFn: async ({ proposalId, choice }: { proposalId: string; choice: GovernanceChoice }) => {
+      const res = await apiRequest("POST", `/api/governance/proposals/${proposalId}/ballot/request`, { choice });
+      return (await res.json()) as { otpChannel: string; otpDestination: string };
+    },
+    onSuccess: (result) => setOtpDestination(result.otpDestination),
+    onError: onError("Code Not Sent"),
+  });
+
+  const castMutation = useMutation({
+    mutationFn: async ({ proposalId, choice }: { proposalId: string; choice: GovernanceChoice }) => {
+      const res = await apiRequest("POST", `/api/governance/proposals/${proposalId}/ballot`, { choice, otp });
+      return (await res.json()) as { proposal: GovernanceProposal; outcome: string };
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/governance/proposals"] });
+      closeBallot();
+      toast({
+        title: "Vote Recorded",
+        description: result.outcome === "open"
+          ? "Your vote is recorded. Waiting for the other co-owners."
+          : `The proposal is ${proposalStatusLabels[result.outcome]?.toLowerCase() || result.outcome}.`,
+      });
+    },
+    onError: onError("Vote Failed"),
+  });
+
+  const startBallot = (proposal: GovernanceProposalSummary, choice: GovernanceChoice) => {
+    setBallot({ proposal, choice });
+    requestCodeMutation.mutate({ proposalId: proposal.id, choice });
+  };
+
+  return (
+    <Card data-testid="card-governance-proposals">
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="text-2xl font-serif">Co-owner Decisions</CardTitle>
+          <CardDescription>
+            Proposals for your properties, decided by a vote weighted by ownership share. Each vote is confirmed with a one-time code.
+          </CardDescription>
+        </div>
+        {properties.length > 0 && (
+          <Button size="sm" variant="outline" onClick={() => setCreating(true)} data-testid="button-new-proposal">
+            <Plus className="h-4 w-4 mr-2" />
+            New Proposal
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {proposals.length > 0 ? (
+          <div className="space-y-3">
+            {awaitingMe.length > 0 && (
+              <p className="text-sm font-medium" data-testid="text-proposals-awaiting">
+                {awaitingMe.length} proposal{awaitingMe.length === 1 ? "" : "s"} waiting for your vote
+              </p>
+            )}
+            {proposals.map(proposal => {
+              const myBallot = proposal.ballots.find(b => b.investorId === investorId);
+              return (
+                <div key={proposal.id} className="p-3 rounded-lg border space-y-3" data-testid={`row-proposal-${proposal.id}`}>
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="min-w-0">
+                      <p className="font-medium">{proposal.title}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {proposal.propertyTitle} · {governanceCategoryLabels[proposal.category as keyof typeof governanceCategoryLabels] || proposal.category}
+                        {proposal.proposedByName && ` · proposed by ${proposal.proposedByName}`}
+                        {` · ${proposal.status === "open" ? "closes" : "closed"} ${new Date(proposal.closedAt || proposal.deadline).toLocaleDateString()}`}
+                      </p>
+                    </div>
+                    <Badge variant={proposal.status === "passed" ? "default" : proposal.status === "open" ? "secondary" : "destructive"}>
+                      {proposalStatusLabels[proposal.status] || proposal.status}
+                    </Badge>
+                  </div>
+                  <p className="text-sm text-muted-foreground whitespace-pre-line">{proposal.description}</p>
+                  <ProposalTally proposal={proposal} />
+                  <div className="flex flex-wrap gap-2">
+                    {proposal.ballots.map(b => (
+                      <Badge key={b.investorId} variant="outline" className="font-normal">
+                        {b.investorId === investorId ? "You" : b.investorName} ({Number(b.sharePercentage)}%): {b.choice ? choiceLabels[b.choice] : "not voted"}
+                      </Badge>
+                    ))}
+                  </div>
+                  <div className="flex flex-wrap justify-end gap-2">
+                    {proposal.resolutionNumber && (
+                      <Button asChild size="sm" variant="ghost">
+                        <a href={`/api/governance/proposals/${proposal.id}/resolution`} data-testid={`link-resolution-${proposal.id}`}>
+                          <Download className="h-4 w-4 mr-2" />
+                          Resolution
+                        </a>
+                      </Button>
+                    )}
+                    {proposal.status === "open" && myBallot && !myBallot.choice && (
+                      (["against", "abstain", "for"] as const).map(choice => (
+                        <Button
+                          key={choice}
+                          size="sm"
+                          variant={choice === "for" ? "default" : "outline"}
+                          disabled={requestCodeMutation.isPending}
+                          onClick={() => startBallot(proposal, choice)}
+                          data-testid={`button-vote-${choice}-${proposal.id}`}
+                        >
+                          {choiceLabels[choice]}
+                        </Button>
+                      ))
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            No proposals yet. Once every share of a property is paid, its co-owners can put decisions to a vote here.
+          </p>
+        )}
+      </CardContent>
+
+      <Dialog open={!!ballot} onOpenChange={(open) => !open && closeBallot()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Vote className="h-5 w-5" />
+              Confirm Your Vote
+            </DialogTitle>
+            <DialogDescription>
+              {ballot && `You are voting ${choiceLabels[ballot.choice].toUpperCase()} on "${ballot.proposal.title}". Votes can't be changed once cast.`}
+            </DialogDescription>
+          </DialogHeader>
+          {otpDestination ? (
+            <div className="space-y-2">
+              <Label>Enter the code sent to {otpDestination}</Label>
+              <InputOTP maxLength={6} value={otp} onChange={setOtp} data-testid="input-otp-ballot">
+                <InputOTPGroup>
+                  {[0, 1, 2, 3, 4, 5].map(index => (
+                    <InputOTPSlot key={index} index={index} />
+                  ))}
+                </InputOTPGroup>
+              </InputOTP>
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              {requestCodeMutation.isPending ? "Sending your code..." : "The code could not be sent. Close this and try again."}
+            </p>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={closeBallot}>Cancel</Button>
+            <Button
+              onClick={() => ballot && castMutation.mutate({ proposalId: ballot.proposal.id, choice: ballot.choice })}
+              disabled={castMutation.isPending || otp.length !== 6}
+              data-testid="button-confirm-ballot"
+            >
+              {castMutation.isPending ? "Recording..." : "Cast Vote"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={creating} onOpenChange={setCreating}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New Proposal</DialogTitle>
+            <DialogDescription>
+              Every co-owner of the property is asked to vote. Leave quorum and threshold blank to use the agreement's
+              {` ${data?.defaults.quorumPercentage ?? 75}% and ${data?.defaults.thresholdPercentage ?? 75}%`}.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            {properties.length > 1 && (
+              <div className="space-y-2">
+                <Label>Property</Label>
+                <Select value={selectedPropertyId} onValueChange={setPropertyId}>
+                  <SelectTrigger data-testid="select-proposal-property">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {properties.map(property => (
+                      <SelectItem key={property.id} value={property.id}>{property.title}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label>Decision</Label>
+              <Select value={category} onValueChange={setCategory}>
+                <SelectTrigger data-testid="select-proposal-category">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {governanceCategories.map(option => (
+                    <SelectItem key={option} value={option}>{governanceCategoryLabels[option]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="proposal-title">Title</Label>
+              <Input id="proposal-title" value={title} onChange={(e) => setTitle(e.target.value)} data-testid="input-proposal-title" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="proposal-description">Details</Label>
+              <Textarea
+                id="proposal-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                rows={4}
+                data-testid="input-proposal-description"
+              />
+            </div>
+            <div className="grid grid-cols-3 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="proposal-deadline">Voting closes</Label>
+                <Input id="proposal-deadline" type="date" value={deadline} onChange={(e) => setDeadline(e.target.value)} data-testid="input-proposal-deadline" />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="proposal-quorum">Quorum %</Label>
+                <Input id="proposal-quorum" type="number" min={1} max={100} value={quorum} onChange={(e) => setQuorum(e.target.value)} data-testid="input-proposal-quorum" />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="proposal-threshold">Threshold %</Label>
+                <Input id="proposal-threshold" type="number" min={51} max={100} value={threshold} onChange={(e) => setThreshold(e.target.value)} data-testid="input-proposal-threshold" />
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCreating(false)}>Cancel</Button>
+            <Button
+              onClick={() => createMutation.mutate()}
+              disabled={createMutation.isPending || !selectedPropertyId || title.trim().length < 3 || description.trim().length < 10}
+              data-testid="button-submit-proposal"
+            >
+              {createMutation.isPending ? "Opening..." : "Open Vote"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
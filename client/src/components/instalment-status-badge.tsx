@@ -0,0 +1,39 @@
+import { Badge } from "@/components/ui/badge";
+
+// Shape of one co-owner instalment from the payment schedule endpoints
+export interface InstalmentDue {
+  instalmentId: string;
+  slotId: string;
+  propertyId: string;
+  propertyTitle: string;
+  sequence: number;
+  label: string;
+  triggerType: string;
+  milestoneName: string | null;
+  instalmentPercentage: number;
+  sharePercentage: number;
+  amount: string;
+  dueDate: string | null;
+  status: "paid" | "overdue" | "due_soon" | "upcoming" | "awaiting_milestone";
+  daysOverdue: number;
+  paidAt: string | null;
+}
+
+export function InstalmentStatusBadge({ due }: { due: InstalmentDue }) {
+  switch (due.status) {
+    case "paid":
+      return <Badge className="bg-green-600 text-white">Paid</Badge>;
+    case "overdue":
+      return (
+        <Badge variant="destructive" data-testid={`badge-overdue-${due.instalmentId}`}>
+          Overdue {due.daysOverdue} day{due.daysOverdue === 1 ? "" : "s"}
+        </Badge>
+      );
+    case "due_soon":
+      return <Badge className="bg-amber-500 text-white">Due Soon</Badge>;
+    case "awaiting_milestone":
+      return <Badge variant="outline">Awaiting {due.milestoneName || "Milestone"}</Badge>;
+    default:
+      return <Badge variant="secondary">Upcoming</Badge>;
+  }
+}
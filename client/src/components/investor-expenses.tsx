@@ -0,0 +1,166 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Check, X, FileText } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { expenseCategoryLabels } from "@shared/schema";
+import type { PropertyExpense } from "@shared/schema";
+
+interface InvestorExpense extends Omit<PropertyExpense, "invoicePath"> {
+  hasInvoice: boolean;
+  propertyTitle: string;
+  sharePercentage: string;
+  shareAmount: string;
+  coOwnerCount: number;
+  approvals: number;
+  rejections: number;
+  myDecision: string | null;
+}
+
+interface InvestorExpensesResponse {
+  expenses: InvestorExpense[];
+  approvalThreshold: number;
+}
+
+const statusLabels: Record<string, string> = {
+  pending_approval: "Awaiting approval",
+  approved: "Approved",
+  rejected: "Rejected",
+  paid: "Paid",
+};
+
+function formatAed(amount: string | number) {
+  return `AED ${Number(amount).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+interface InvestorExpensesProps {
+  enabled: boolean;
+}
+
+export function InvestorExpenses({ enabled }: InvestorExpensesProps) {
+  const { toast } = useToast();
+
+  const { data } = useQuery<InvestorExpensesResponse>({
+    queryKey: ["/api/expenses/investor"],
+    enabled,
+  });
+
+  const expenses = data?.expenses || [];
+  const awaitingMe = expenses.filter(expense => expense.status === "pending_approval" && !expense.myDecision);
+
+  const decisionMutation = useMutation({
+    mutationFn: async ({ expenseId, decision }: { expenseId: string; decision: "approved" | "rejected" }) => {
+      const res = await apiRequest("POST", `/api/expenses/${expenseId}/decision`, { decision });
+      return (await res.json()) as { outcome: string };
+    },
+    onSuccess: (result, { decision }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/expenses/investor"] });
+      toast({
+        title: decision === "approved" ? "Expense Approved" : "Expense Rejected",
+        description: result.outcome === "pending"
+          ? "Your vote is recorded. Waiting for the other co-owners."
+          : `The co-owners have ${result.outcome} this expense.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Vote Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card data-testid="card-property-expenses">
+      <CardHeader>
+        <CardTitle className="text-2xl font-serif">Property Expenses</CardTitle>
+        <CardDescription>
+          Bills charged to your share. Expenses above {formatAed(data?.approvalThreshold ?? 50000)} need a majority of co-owners to approve.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {expenses.length > 0 ? (
+          <div className="space-y-3">
+            {awaitingMe.length > 0 && (
+              <p className="text-sm font-medium" data-testid="text-expenses-awaiting">
+                {awaitingMe.length} expense{awaitingMe.length === 1 ? "" : "s"} waiting for your decision
+              </p>
+            )}
+            {expenses.map(expense => (
+              <div key={expense.id} className="p-3 rounded-lg border space-y-2" data-testid={`row-investor-expense-${expense.id}`}>
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="font-medium">{expense.vendor}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {expense.propertyTitle} · {expenseCategoryLabels[expense.category as keyof typeof expenseCategoryLabels] || expense.category}
+                      {` · due ${new Date(expense.dueDate).toLocaleDateString()}`}
+                    </p>
+                    {expense.description && <p className="text-xs text-muted-foreground">{expense.description}</p>}
+                  </div>
+                  <div className="text-right space-y-1">
+                    <p className="font-semibold tabular-nums">{formatAed(expense.shareAmount)}</p>
+                    <p className="text-xs text-muted-foreground tabular-nums">
+                      {Number(expense.sharePercentage)}% of {formatAed(expense.amount)}
+                    </p>
+                    <Badge variant={expense.status === "rejected" ? "destructive" : expense.status === "paid" ? "default" : "secondary"}>
+                      {statusLabels[expense.status] || expense.status}
+                    </Badge>
+                  </div>
+                </div>
+                {expense.approvalsRequired > 0 && (
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <p className="text-xs text-muted-foreground">
+                      {expense.approvals} of {expense.approvalsRequired} approvals needed
+                      {expense.rejections > 0 && ` · ${expense.rejections} rejected`}
+                      {expense.myDecision && ` · you ${expense.myDecision}`}
+                    </p>
+                    <div className="flex gap-2">
+                      {expense.hasInvoice && (
+                        <Button asChild size="sm" variant="ghost">
+                          <a href={`/api/expenses/${expense.id}/invoice`} target="_blank" rel="noreferrer" data-testid={`link-investor-expense-invoice-${expense.id}`}>
+                            <FileText className="h-4 w-4 mr-2" />
+                            Invoice
+                          </a>
+                        </Button>
+                      )}
+                      {expense.status === "pending_approval" && !expense.myDecision && (
+                        <>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={decisionMutation.isPending}
+                            onClick={() => decisionMutation.mutate({ expenseId: expense.id, decision: "rejected" })}
+                            data-testid={`button-reject-expense-${expense.id}`}
+                          >
+                            <X className="h-4 w-4 mr-2" />
+                            Reject
+                          </Button>
+                          <Button
+                            size="sm"
+                            disabled={decisionMutation.isPending}
+                            onClick={() => decisionMutation.mutate({ expenseId: expense.id, decision: "approved" })}
+                            data-testid={`button-approve-expense-${expense.id}`}
+                          >
+                            <Check className="h-4 w-4 mr-2" />
+                            Approve
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            No expenses have been charged to your shares
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,25 +1,27 @@
 import { useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { Building2, Mail, KeyRound } from "lucide-react";
-import { loginSchema, verifyOtpSchema, type Investor } from "@shared/schema";
+import { Building2, Mail, KeyRound, MessageSquare, Smartphone } from "lucide-react";
+import { loginSchema, verifyOtpSchema, type InvestorWithTotals, type OtpChannel } from "@shared/schema";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
 import { z } from "zod";
 
 interface LoginFormProps {
-  onLoginSuccess: (investor: Investor) => void;
+  onLoginSuccess: (investor: InvestorWithTotals) => void;
 }
 
 export function LoginForm({ onLoginSuccess }: LoginFormProps) {
   const [step, setStep] = useState<"email" | "otp">("email");
   const [email, setEmail] = useState("");
+  const [channel, setChannel] = useState<OtpChannel>("email");
 
   const handleDemoMode = () => {
-    const demoInvestor: Investor = {
+    const demoInvestor: InvestorWithTotals = {
       id: "demo-investor-id",
       email: "demo@fopd.ae",
       fullName: "Demo Investor",
@@ -29,9 +31,13 @@ export function LoginForm({ onLoginSuccess }: LoginFormProps) {
       fractionsPurchased: 0,
       totalInvested: "0",
       passportDocPath: null,
+      passportNumber: null,
+      emiratesId: null,
       proofOfAddressPath: null,
       bankStatementPath: null,
       documentsUploadedAt: null,
+      preferredLanguage: "en",
+      otpChannel: "email",
       createdAt: new Date(),
     };
     onLoginSuccess(demoInvestor);
@@ -57,7 +63,7 @@ export function LoginForm({ onLoginSuccess }: LoginFormProps) {
       const response = await fetch("/api/auth/send-otp", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(data),
+        body: JSON.stringify({ ...data, channel }),
       });
 
       if (!response.ok) {
@@ -106,7 +112,11 @@ export function LoginForm({ onLoginSuccess }: LoginFormProps) {
           </div>
           <CardTitle className="text-3xl font-serif">Investor Login</CardTitle>
           <CardDescription>
-            {step === "email" ? "Enter your email to receive a login code" : "Enter the 6-digit code sent to your email"}
+            {step === "email"
+              ? "Enter your email to receive a login code"
+              : channel === "email"
+              ? "Enter the 6-digit code sent to your email"
+              : `Enter the 6-digit code sent to your phone by ${channel === "sms" ? "SMS" : "WhatsApp"}`}
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -136,6 +146,31 @@ export function LoginForm({ onLoginSuccess }: LoginFormProps) {
                   )}
                 />
 
+                <div className="space-y-2">
+                  <p className="text-sm font-medium">Send code by</p>
+                  <ToggleGroup
+                    type="single"
+                    variant="outline"
+                    value={channel}
+                    onValueChange={(value) => value && setChannel(value as OtpChannel)}
+                    className="grid grid-cols-3"
+                    data-testid="toggle-otp-channel"
+                  >
+                    <ToggleGroupItem value="email" data-testid="toggle-otp-channel-email">
+                      <Mail className="h-4 w-4 mr-2" />
+                      Email
+                    </ToggleGroupItem>
+                    <ToggleGroupItem value="sms" data-testid="toggle-otp-channel-sms">
+                      <Smartphone className="h-4 w-4 mr-2" />
+                      SMS
+                    </ToggleGroupItem>
+                    <ToggleGroupItem value="whatsapp" data-testid="toggle-otp-channel-whatsapp">
+                      <MessageSquare className="h-4 w-4 mr-2" />
+                      WhatsApp
+                    </ToggleGroupItem>
+                  </ToggleGroup>
+                </div>
+
                 <Button type="submit" className="w-full" size="lg" data-testid="button-send-otp">
                   Send Login Code
                 </Button>
@@ -176,7 +211,9 @@ export function LoginForm({ onLoginSuccess }: LoginFormProps) {
                     <span className="text-sm font-medium">{email}</span>
                   </div>
                   <p className="text-xs text-muted-foreground">
-                    Code sent! Check your inbox and spam folder.
+                    {channel === "email"
+                      ? "Code sent! Check your inbox and spam folder."
+                      : "Code sent to the mobile number on your account."}
                   </p>
                 </div>
 
@@ -0,0 +1,199 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { FileText, Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import type { OwnerStatement, Property } from "@shared/schema";
+
+export interface OwnerStatementSummary extends Omit<OwnerStatement, "filePath" | "csvPath"> {
+  propertyTitle: string;
+}
+
+export interface OwnerStatementsResponse {
+  statements: OwnerStatementSummary[];
+}
+
+/**
+ * e.g. "March 2026" or "2026"; periods are stored as UTC dates
+ */
+export function formatStatementPeriod(statement: Pick<OwnerStatement, "periodType" | "periodStart">) {
+  const start = new Date(statement.periodStart);
+  return statement.periodType === "annual"
+    ? String(start.getUTCFullYear())
+    : start.toLocaleDateString(undefined, { month: "long", year: "numeric", timeZone: "UTC" });
+}
+
+function formatAed(amount: string | number) {
+  return `AED ${Number(amount).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+const monthNames = Array.from({ length: 12 }, (_, index) =>
+  new Date(Date.UTC(2000, index, 1)).toLocaleDateString(undefined, { month: "long", timeZone: "UTC" })
+);
+
+interface OwnerStatementsProps {
+  enabled: boolean;
+  properties: Property[];
+}
+
+export function OwnerStatements({ enabled, properties }: OwnerStatementsProps) {
+  const { toast } = useToast();
+  const now = new Date();
+  const lastMonth = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1));
+  const [propertyId, setPropertyId] = useState<string | null>(null);
+  const [periodType, setPeriodType] = useState<"monthly" | "annual">("monthly");
+  const [year, setYear] = useState(String(lastMonth.getUTCFullYear()));
+  const [month, setMonth] = useState(String(lastMonth.getUTCMonth() + 1));
+
+  const { data } = useQuery<OwnerStatementsResponse>({
+    queryKey: ["/api/statements/investor"],
+    enabled,
+  });
+  const statements = data?.statements || [];
+  const selectedPropertyId = propertyId || properties[0]?.id || "";
+  const years = Array.from({ length: 5 }, (_, index) => String(now.getUTCFullYear() - index));
+
+  const requestMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/statements", {
+        propertyId: selectedPropertyId,
+        periodType,
+        year: Number(year),
+        month: periodType === "monthly" ? Number(month) : undefined,
+      });
+      return (await res.json()) as OwnerStatement;
+    },
+    onSuccess: (statement) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/statements/investor"] });
+      toast({ title: "Statement Ready", description: `${statement.statementNumber} for ${formatStatementPeriod(statement)}` });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Statement Unavailable",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card data-testid="card-owner-statements">
+      <CardHeader>
+        <CardTitle className="text-2xl font-serif">Owner Statements</CardTitle>
+        <CardDescription>
+          Monthly and annual statements of your contributions, rent, expenses and payouts. New statements are issued after each month and year ends.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {properties.length > 0 && (
+          <div className="flex flex-wrap items-end gap-3">
+            {properties.length > 1 && (
+              <div className="space-y-2">
+                <Label>Property</Label>
+                <Select value={selectedPropertyId} onValueChange={setPropertyId}>
+                  <SelectTrigger className="w-56" data-testid="select-statement-property">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {properties.map(property => (
+                      <SelectItem key={property.id} value={property.id}>{property.title}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label>Statement</Label>
+              <Select value={periodType} onValueChange={(value) => setPeriodType(value as "monthly" | "annual")}>
+                <SelectTrigger className="w-32" data-testid="select-statement-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="monthly">Monthly</SelectItem>
+                  <SelectItem value="annual">Annual</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {periodType === "monthly" && (
+              <div className="space-y-2">
+                <Label>Month</Label>
+                <Select value={month} onValueChange={setMonth}>
+                  <SelectTrigger className="w-36" data-testid="select-statement-month">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {monthNames.map((name, index) => (
+                      <SelectItem key={name} value={String(index + 1)}>{name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label>Year</Label>
+              <Select value={year} onValueChange={setYear}>
+                <SelectTrigger className="w-24" data-testid="select-statement-year">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {years.map(option => (
+                    <SelectItem key={option} value={option}>{option}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button
+              onClick={() => requestMutation.mutate()}
+              disabled={requestMutation.isPending || !selectedPropertyId}
+              data-testid="button-request-statement"
+            >
+              <FileText className="h-4 w-4 mr-2" />
+              {requestMutation.isPending ? "Preparing..." : "Get Statement"}
+            </Button>
+          </div>
+        )}
+
+        {statements.length > 0 ? (
+          <div className="space-y-3">
+            {statements.map(statement => (
+              <div
+                key={statement.id}
+                className="flex flex-wrap items-center justify-between gap-4 p-3 rounded-lg border"
+                data-testid={`row-owner-statement-${statement.id}`}
+              >
+                <div className="min-w-0">
+                  <p className="font-medium">{statement.propertyTitle} · {formatStatementPeriod(statement)}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {statement.statementNumber} · closing balance {formatAed(statement.closingBalance)}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Button asChild size="sm" variant="outline">
+                    <a href={`/api/statements/${statement.id}/pdf`} data-testid={`link-statement-pdf-${statement.id}`}>
+                      <Download className="h-4 w-4 mr-2" />
+                      PDF
+                    </a>
+                  </Button>
+                  <Button asChild size="sm" variant="ghost">
+                    <a href={`/api/statements/${statement.id}/csv`} data-testid={`link-statement-csv-${statement.id}`}>
+                      <Download className="h-4 w-4 mr-2" />
+                      CSV
+                    </a>
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            Your first statement is issued after the month of your first payment ends
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
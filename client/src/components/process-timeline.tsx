@@ -1,6 +1,7 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
-import { Edit3, Landmark, FileCheck, Home, Coins, CheckCircle, Circle } from "lucide-react";
+import type { ReactNode } from "react";
+import { Edit3, Landmark, FileCheck, Home, Coins, CheckCircle, Circle, type LucideIcon } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { motion } from "framer-motion";
 import { format } from "date-fns";
@@ -11,12 +12,17 @@ interface ProcessStep {
   description: string;
   status: 'completed' | 'current' | 'upcoming';
   completedAt?: string;
+  icon?: LucideIcon; // Defaults to the co-ownership journey icon for the step number
+  percentComplete?: number; // Shows a progress bar under the description
+  details?: ReactNode;
 }
 
 interface ProcessTimelineProps {
   currentStep: number;
   steps: ProcessStep[];
   compact?: boolean;
+  title?: string;
+  progress?: number; // Overall percentage, when it isn't just the share of steps done
 }
 
 const stepIcons = {
@@ -27,8 +33,8 @@ const stepIcons = {
   5: Coins,
 };
 
-export function ProcessTimeline({ currentStep, steps, compact = false }: ProcessTimelineProps) {
-  const progressPercentage = ((currentStep - 1) / (steps.length - 1)) * 100;
+export function ProcessTimeline({ currentStep, steps, compact = false, title = "Co-Ownership Journey", progress }: ProcessTimelineProps) {
+  const progressPercentage = progress ?? ((currentStep - 1) / (steps.length - 1)) * 100;
 
   const getStepConfig = (status: ProcessStep['status']) => {
     switch (status) {
@@ -67,7 +73,7 @@ export function ProcessTimeline({ currentStep, steps, compact = false }: Process
       <CardHeader className={cn("space-y-4", compact ? "p-4" : "p-6")}>
         <div className="space-y-2">
           <CardTitle className={cn(compact ? "text-xl" : "text-2xl", "font-serif")}>
-            Co-Ownership Journey
+            {title}
           </CardTitle>
           <div className="flex items-center justify-between">
             <p className={cn("text-sm text-muted-foreground", compact && "text-xs")}>
@@ -92,7 +98,7 @@ export function ProcessTimeline({ currentStep, steps, compact = false }: Process
         <div className="space-y-0">
           {steps.map((step, index) => {
             const config = getStepConfig(step.status);
-            const Icon = stepIcons[step.number as keyof typeof stepIcons];
+            const Icon = step.icon || stepIcons[step.number as keyof typeof stepIcons] || Circle;
             const isLast = index === steps.length - 1;
 
             return (
@@ -202,6 +208,17 @@ export function ProcessTimeline({ currentStep, steps, compact = false }: Process
                         {step.description}
                       </p>
 
+                      {step.percentComplete !== undefined && (
+                        <div className="flex items-center gap-2 pt-1 max-w-xs">
+                          <Progress
+                            value={step.percentComplete}
+                            className="h-1.5"
+                            data-testid={`progress-step-${step.number}`}
+                          />
+                          <span className="text-xs tabular-nums text-muted-foreground">{step.percentComplete}%</span>
+                        </div>
+                      )}
+
                       {/* Current Step Indicator */}
                       {step.status === 'current' && (
                         <motion.div
@@ -225,6 +242,8 @@ export function ProcessTimeline({ currentStep, steps, compact = false }: Process
                           In Progress
                         </motion.div>
                       )}
+
+                      {step.details}
                     </div>
                   </div>
                 </div>
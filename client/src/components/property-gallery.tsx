@@ -0,0 +1,218 @@
+import { useEffect, useState } from "react";
+import { FileText, Download, Images } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogTitle } from "@/components/ui/dialog";
+import {
+  Carousel,
+  CarouselContent,
+  CarouselItem,
+  CarouselPrevious,
+  CarouselNext,
+  type CarouselApi,
+} from "@/components/ui/carousel";
+import type { PropertyMediaType } from "@shared/schema";
+
+// Shape returned by GET /api/properties/:id/media
+export interface PropertyMediaItem {
+  id: string;
+  propertyId: string;
+  mediaType: PropertyMediaType;
+  mimeType: string;
+  originalFilename: string;
+  fileSize: number;
+  width: number | null;
+  height: number | null;
+  caption: string | null;
+  captionArabic: string | null;
+  sortOrder: number;
+  url: string;
+  thumbnailUrl: string | null;
+}
+
+interface GalleryImage {
+  id: string;
+  src: string;
+  thumbnail: string;
+  caption?: string | null;
+}
+
+interface PropertyGalleryProps {
+  media: PropertyMediaItem[];
+  title: string;
+  fallbackImages?: { src: string; alt: string }[]; // Shown until photos are uploaded
+}
+
+function toGalleryImages(items: PropertyMediaItem[]): GalleryImage[] {
+  return items
+    .filter(item => item.thumbnailUrl)
+    .map(item => ({ id: item.id, src: item.url, thumbnail: item.thumbnailUrl!, caption: item.caption }));
+}
+
+interface LightboxProps {
+  images: GalleryImage[];
+  startIndex: number | null;
+  title: string;
+  onClose: () => void;
+}
+
+/**
+ * Full-screen carousel over a set of images
+ */
+function Lightbox({ images, startIndex, title, onClose }: LightboxProps) {
+  const [api, setApi] = useState<CarouselApi>();
+  const [current, setCurrent] = useState(0);
+
+  useEffect(() => {
+    if (!api) return;
+    setCurrent(api.selectedScrollSnap());
+    const onSelect = () => setCurrent(api.selectedScrollSnap());
+    api.on("select", onSelect);
+    return () => {
+      api.off("select", onSelect);
+    };
+  }, [api]);
+
+  return (
+    <Dialog open={startIndex !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-5xl p-4 sm:p-12">
+        <DialogTitle className="sr-only">{title}</DialogTitle>
+        <DialogDescription className="sr-only">Image {current + 1} of {images.length}</DialogDescription>
+        {startIndex !== null && (
+          <Carousel setApi={setApi} opts={{ startIndex, loop: images.length > 1 }}>
+            <CarouselContent>
+              {images.map((image) => (
+                <CarouselItem key={image.id}>
+                  <div className="flex flex-col items-center gap-3">
+                    <img
+                      src={image.src}
+                      alt={image.caption || title}
+                      className="max-h-[70vh] w-auto object-contain rounded-md"
+                    />
+                    {image.caption && (
+                      <p className="text-sm text-muted-foreground text-center">{image.caption}</p>
+                    )}
+                  </div>
+                </CarouselItem>
+              ))}
+            </CarouselContent>
+            {images.length > 1 && (
+              <>
+                <CarouselPrevious className="left-2 sm:-left-10" data-testid="button-lightbox-prev" />
+                <CarouselNext className="right-2 sm:-right-10" data-testid="button-lightbox-next" />
+              </>
+            )}
+          </Carousel>
+        )}
+        <p className="text-xs text-center text-muted-foreground tabular-nums" data-testid="text-lightbox-position">
+          {current + 1} / {images.length}
+        </p>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * Photo grid, floor plans and brochure downloads for a property
+ */
+export function PropertyGallery({ media, title, fallbackImages = [] }: PropertyGalleryProps) {
+  const [lightbox, setLightbox] = useState<{ images: GalleryImage[]; index: number } | null>(null);
+
+  const photos = toGalleryImages(media.filter(item => item.mediaType === "photo"));
+  const floorPlans = media.filter(item => item.mediaType === "floor_plan");
+  const floorPlanImages = toGalleryImages(floorPlans);
+  const floorPlanPdfs = floorPlans.filter(item => !item.thumbnailUrl);
+  const brochures = media.filter(item => item.mediaType === "brochure");
+
+  const images: GalleryImage[] = photos.length > 0
+    ? photos
+    : fallbackImages.map((image, i) => ({ id: `fallback-${i}`, src: image.src, thumbnail: image.src, caption: image.alt }));
+
+  const [cover, ...rest] = images;
+  const visibleRest = rest.slice(0, 4);
+  const hiddenCount = rest.length - visibleRest.length;
+
+  return (
+    <div className="space-y-6">
+      {cover && (
+        <div className="grid gap-2 md:grid-cols-4 md:grid-rows-2">
+          <button
+            type="button"
+            className="relative md:col-span-2 md:row-span-2 aspect-[4/3] overflow-hidden rounded-md"
+            onClick={() => setLightbox({ images, index: 0 })}
+            data-testid="button-gallery-cover"
+          >
+            <img src={cover.src} alt={cover.caption || title} className="w-full h-full object-cover" />
+          </button>
+          {visibleRest.map((image, i) => (
+            <button
+              key={image.id}
+              type="button"
+              className="relative aspect-[4/3] overflow-hidden rounded-md"
+              onClick={() => setLightbox({ images, index: i + 1 })}
+              data-testid={`button-gallery-thumb-${i + 1}`}
+            >
+              <img src={image.thumbnail} alt={image.caption || title} className="w-full h-full object-cover" />
+              {hiddenCount > 0 && i === visibleRest.length - 1 && (
+                <div className="absolute inset-0 bg-black/50 flex items-center justify-center text-white font-semibold">
+                  <Images className="h-5 w-5 mr-2" />
+                  +{hiddenCount}
+                </div>
+              )}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {(floorPlanImages.length > 0 || floorPlanPdfs.length > 0) && (
+        <div>
+          <h3 className="font-semibold mb-3">Floor Plans</h3>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+            {floorPlanImages.map((image, i) => (
+              <button
+                key={image.id}
+                type="button"
+                className="aspect-[4/3] overflow-hidden rounded-md border bg-white"
+                onClick={() => setLightbox({ images: floorPlanImages, index: i })}
+                data-testid={`button-floor-plan-${i}`}
+              >
+                <img src={image.thumbnail} alt={image.caption || "Floor plan"} className="w-full h-full object-contain" />
+              </button>
+            ))}
+          </div>
+          {floorPlanPdfs.length > 0 && (
+            <div className="flex flex-wrap gap-2 mt-3">
+              {floorPlanPdfs.map(item => (
+                <Button key={item.id} variant="outline" size="sm" asChild>
+                  <a href={item.url} target="_blank" rel="noreferrer" data-testid={`link-floor-plan-${item.id}`}>
+                    <FileText className="h-4 w-4 mr-2" />
+                    {item.caption || item.originalFilename}
+                  </a>
+                </Button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {brochures.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {brochures.map(item => (
+            <Button key={item.id} variant="outline" size="sm" asChild>
+              <a href={item.url} target="_blank" rel="noreferrer" data-testid={`link-brochure-${item.id}`}>
+                <Download className="h-4 w-4 mr-2" />
+                {item.caption || "Download Brochure"}
+              </a>
+            </Button>
+          ))}
+        </div>
+      )}
+
+      <Lightbox
+        images={lightbox?.images || []}
+        startIndex={lightbox ? lightbox.index : null}
+        title={title}
+        onClose={() => setLightbox(null)}
+      />
+    </div>
+  );
+}
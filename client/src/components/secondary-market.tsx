@@ -0,0 +1,420 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Download, PenLine, Tag } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { SignatureModal } from "@/components/signature-modal";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import type { AgreementTemplate, ShareListing, ShareOffer, ShareTransfer } from "@shared/schema";
+
+type ListingPhase = "right_of_first_refusal" | "open";
+
+interface MarketShareListing extends ShareListing {
+  propertyTitle: string;
+  propertyLocation: string;
+  phase: ListingPhase;
+  isCoOwner: boolean;
+  myOffer: ShareOffer | null;
+}
+
+interface SellerShareListing extends ShareListing {
+  propertyTitle: string;
+  phase: ListingPhase;
+  offers: Array<ShareOffer & { buyerName: string }>;
+}
+
+interface InvestorShareOffer extends ShareOffer {
+  propertyTitle: string;
+  sharePercentage: string;
+  askingPrice: string;
+  listingStatus: string;
+}
+
+interface ShareTransferWithDetails extends ShareTransfer {
+  propertyTitle: string;
+  sellerName: string;
+  buyerName: string;
+  signedInvestorIds: string[];
+}
+
+interface ShareHolding {
+  slotId: string;
+  propertyId: string;
+  propertyTitle: string;
+  sharePercentage: string;
+}
+
+interface MarketListingsResponse {
+  listings: MarketShareListing[];
+  rofrDays: number;
+}
+
+interface MySecondaryMarketResponse {
+  holdings: ShareHolding[];
+  listings: SellerShareListing[];
+  offers: InvestorShareOffer[];
+  transfers: ShareTransferWithDetails[];
+}
+
+const transferStatusLabels: Record<string, string> = {
+  signing: "Awaiting signatures",
+  awaiting_payment: "Awaiting payment",
+  completed: "Completed",
+  cancelled: "Cancelled",
+};
+
+function formatAed(amount: string | number) {
+  return `AED ${Number(amount).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function invalidateSecondaryMarket() {
+  queryClient.invalidateQueries({ queryKey: ["/api/secondary-market/listings"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/secondary-market/mine"] });
+}
+
+interface SecondaryMarketProps {
+  enabled: boolean;
+  investorId: string;
+}
+
+export function SecondaryMarket({ enabled, investorId }: SecondaryMarketProps) {
+  const { toast } = useToast();
+  const [slotId, setSlotId] = useState<string | null>(null);
+  const [askingPrice, setAskingPrice] = useState("");
+  const [offerAmounts, setOfferAmounts] = useState<Record<string, string>>({});
+  const [signingTransfer, setSigningTransfer] = useState<ShareTransferWithDetails | null>(null);
+
+  const { data: marketData } = useQuery<MarketListingsResponse>({
+    queryKey: ["/api/secondary-market/listings"],
+    enabled,
+  });
+  const { data: mine } = useQuery<MySecondaryMarketResponse>({
+    queryKey: ["/api/secondary-market/mine"],
+    enabled,
+  });
+  const { data: templates = [] } = useQuery<AgreementTemplate[]>({
+    queryKey: ["/api/templates"],
+    enabled: !!signingTransfer,
+  });
+
+  const marketListings = marketData?.listings || [];
+  const myListings = mine?.listings || [];
+  const myOffers = (mine?.offers || []).filter(offer => offer.status === "pending");
+  const transfers = mine?.transfers || [];
+  const listedSlotIds = new Set(myListings.filter(l => l.status === "listed" || l.status === "agreed").map(l => l.slotId));
+  const sellable = (mine?.holdings || []).filter(holding => !listedSlotIds.has(holding.slotId));
+  const selectedSlotId = slotId && sellable.some(h => h.slotId === slotId) ? slotId : sellable[0]?.slotId || "";
+  const signingTemplate = signingTransfer ? templates.find(t => t.id === signingTransfer.templateId) : undefined;
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const listMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/secondary-market/listings", { slotId: selectedSlotId, askingPrice });
+      return (await res.json()) as ShareListing;
+    },
+    onSuccess: (listing) => {
+      invalidateSecondaryMarket();
+      setAskingPrice("");
+      toast({
+        title: "Share Listed",
+        description: `Your co-owners have first refusal until ${new Date(listing.rofrEndsAt).toLocaleDateString()}`,
+      });
+    },
+    onError: onError("Listing Failed"),
+  });
+
+  const withdrawListingMutation = useMutation({
+    mutationFn: async (listingId: string) => {
+      await apiRequest("POST", `/api/secondary-market/listings/${listingId}/withdraw`);
+    },
+    onSuccess: () => {
+      invalidateSecondaryMarket();
+      toast({ title: "Listing Withdrawn" });
+    },
+    onError: onError("Withdrawal Failed"),
+  });
+
+  const rofrMutation = useMutation({
+    mutationFn: async (listingId: string) => {
+      await apiRequest("POST", `/api/secondary-market/listings/${listingId}/rofr`);
+    },
+    onSuccess: () => {
+      invalidateSecondaryMarket();
+      toast({ title: "Purchase Agreed", description: "Sign the share transfer agreement to continue." });
+    },
+    onError: onError("Purchase Failed"),
+  });
+
+  const offerMutation = useMutation({
+    mutationFn: async (listingId: string) => {
+      await apiRequest("POST", `/api/secondary-market/listings/${listingId}/offers`, { amount: offerAmounts[listingId] });
+    },
+    onSuccess: (_, listingId) => {
+      invalidateSecondaryMarket();
+      setOfferAmounts(amounts => ({ ...amounts, [listingId]: "" }));
+      toast({ title: "Offer Sent", description: "The seller has been notified." });
+    },
+    onError: onError("Offer Failed"),
+  });
+
+  const offerActionMutation = useMutation({
+    mutationFn: async ({ offerId, action }: { offerId: string; action: "accept" | "reject" | "withdraw" }) => {
+      await apiRequest("POST", `/api/secondary-market/offers/${offerId}/${action}`);
+    },
+    onSuccess: (_, { action }) => {
+      invalidateSecondaryMarket();
+      toast({
+        title: action === "accept" ? "Offer Accepted" : action === "reject" ? "Offer Rejected" : "Offer Withdrawn",
+        description: action === "accept" ? "Sign the share transfer agreement to continue." : undefined,
+      });
+    },
+    onError: onError("Action Failed"),
+  });
+
+  return (
+    <Card data-testid="card-secondary-market">
+      <CardHeader>
+        <CardTitle className="text-2xl font-serif">Secondary Market</CardTitle>
+        <CardDescription>
+          Sell your share or buy one from another co-owner. Co-owners may buy a listed share at the asking price for the
+          first {marketData?.rofrDays ?? 14} days, before it opens to other verified investors.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-8">
+        {transfers.length > 0 && (
+          <div className="space-y-3">
+            <h3 className="font-semibold">Transfers</h3>
+            {transfers.map(transfer => {
+              const iSigned = transfer.signedInvestorIds.includes(investorId);
+              return (
+                <div key={transfer.id} className="flex flex-wrap items-center justify-between gap-4 p-3 rounded-lg border" data-testid={`row-share-transfer-${transfer.id}`}>
+                  <div className="min-w-0">
+                    <p className="font-medium">
+                      {transfer.sellerInvestorId === investorId ? "Selling" : "Buying"} {Number(transfer.sharePercentage)}% of {transfer.propertyTitle}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {formatAed(transfer.price)} · {transfer.sellerInvestorId === investorId ? `to ${transfer.buyerName}` : `from ${transfer.sellerName}`}
+                      {transfer.status === "awaiting_payment" && transfer.buyerInvestorId === investorId && ` · pay quoting ${transfer.settlementReference}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Badge variant={transfer.status === "cancelled" ? "destructive" : transfer.status === "completed" ? "default" : "secondary"}>
+                      {transfer.status === "signing" && iSigned ? "Waiting for other party" : transferStatusLabels[transfer.status] || transfer.status}
+                    </Badge>
+                    {transfer.status === "signing" && !iSigned && (
+                      <Button size="sm" onClick={() => setSigningTransfer(transfer)} data-testid={`button-sign-transfer-${transfer.id}`}>
+                        <PenLine className="h-4 w-4 mr-2" />
+                        Sign Agreement
+                      </Button>
+                    )}
+                    {transfer.signedDocumentId && transfer.status !== "cancelled" && (
+                      <Button asChild size="sm" variant="outline">
+                        <a href={`/api/secondary-market/transfers/${transfer.id}/agreement`} data-testid={`link-transfer-agreement-${transfer.id}`}>
+                          <Download className="h-4 w-4 mr-2" />
+                          Agreement
+                        </a>
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="space-y-3">
+          <h3 className="font-semibold">Sell a Share</h3>
+          {sellable.length > 0 ? (
+            <div className="flex flex-wrap items-end gap-3">
+              <div className="space-y-2">
+                <Label>Share</Label>
+                <Select value={selectedSlotId} onValueChange={setSlotId}>
+                  <SelectTrigger className="w-64" data-testid="select-sell-share">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {sellable.map(holding => (
+                      <SelectItem key={holding.slotId} value={holding.slotId}>
+                        {Number(holding.sharePercentage)}% of {holding.propertyTitle}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="asking-price">Asking price (AED)</Label>
+                <Input
+                  id="asking-price"
+                  type="number"
+                  min="1"
+                  className="w-40"
+                  value={askingPrice}
+                  onChange={(e) => setAskingPrice(e.target.value)}
+                  data-testid="input-asking-price"
+                />
+              </div>
+              <Button
+                onClick={() => listMutation.mutate()}
+                disabled={listMutation.isPending || !askingPrice || Number(askingPrice) <= 0}
+                data-testid="button-list-share"
+              >
+                <Tag className="h-4 w-4 mr-2" />
+                {listMutation.isPending ? "Listing..." : "List for Sale"}
+              </Button>
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">Paid shares you hold can be listed here</p>
+          )}
+
+          {myListings.filter(listing => listing.status === "listed" || listing.status === "agreed").map(listing => (
+            <div key={listing.id} className="p-3 rounded-lg border space-y-2" data-testid={`row-my-listing-${listing.id}`}>
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div>
+                  <p className="font-medium">{Number(listing.sharePercentage)}% of {listing.propertyTitle} · {formatAed(listing.askingPrice)}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {listing.status === "agreed"
+                      ? "Sale agreed"
+                      : listing.phase === "right_of_first_refusal"
+                      ? `Co-owners' first refusal until ${new Date(listing.rofrEndsAt).toLocaleDateString()}`
+                      : "Open to verified investors"}
+                  </p>
+                </div>
+                {listing.status === "listed" && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    disabled={withdrawListingMutation.isPending}
+                    onClick={() => withdrawListingMutation.mutate(listing.id)}
+                    data-testid={`button-withdraw-listing-${listing.id}`}
+                  >
+                    Withdraw
+                  </Button>
+                )}
+              </div>
+              {listing.offers.filter(offer => offer.status === "pending").map(offer => (
+                <div key={offer.id} className="flex flex-wrap items-center justify-between gap-2 pl-3 border-l-2">
+                  <p className="text-sm">
+                    {offer.buyerName} offers <span className="font-medium tabular-nums">{formatAed(offer.amount)}</span>
+                    {offer.message && <span className="text-muted-foreground"> · {offer.message}</span>}
+                  </p>
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={offerActionMutation.isPending}
+                      onClick={() => offerActionMutation.mutate({ offerId: offer.id, action: "reject" })}
+                      data-testid={`button-reject-offer-${offer.id}`}
+                    >
+                      Reject
+                    </Button>
+                    <Button
+                      size="sm"
+                      disabled={offerActionMutation.isPending}
+                      onClick={() => offerActionMutation.mutate({ offerId: offer.id, action: "accept" })}
+                      data-testid={`button-accept-offer-${offer.id}`}
+                    >
+                      Accept
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-3">
+          <h3 className="font-semibold">Shares for Sale</h3>
+          {marketListings.length > 0 ? (
+            marketListings.map(listing => (
+              <div key={listing.id} className="flex flex-wrap items-center justify-between gap-4 p-3 rounded-lg border" data-testid={`row-market-listing-${listing.id}`}>
+                <div className="min-w-0">
+                  <p className="font-medium">{Number(listing.sharePercentage)}% of {listing.propertyTitle}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {listing.propertyLocation} · asking {formatAed(listing.askingPrice)}
+                    {listing.notes && ` · ${listing.notes}`}
+                  </p>
+                </div>
+                {listing.phase === "right_of_first_refusal" ? (
+                  <div className="flex items-center gap-2">
+                    <Badge variant="secondary">First refusal until {new Date(listing.rofrEndsAt).toLocaleDateString()}</Badge>
+                    <Button
+                      size="sm"
+                      disabled={rofrMutation.isPending}
+                      onClick={() => rofrMutation.mutate(listing.id)}
+                      data-testid={`button-rofr-${listing.id}`}
+                    >
+                      Buy at Asking Price
+                    </Button>
+                  </div>
+                ) : listing.myOffer ? (
+                  <div className="flex items-center gap-2">
+                    <Badge variant="secondary">Your offer {formatAed(listing.myOffer.amount)}</Badge>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      disabled={offerActionMutation.isPending}
+                      onClick={() => offerActionMutation.mutate({ offerId: listing.myOffer!.id, action: "withdraw" })}
+                      data-testid={`button-withdraw-offer-${listing.myOffer.id}`}
+                    >
+                      Withdraw
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="flex items-center gap-2">
+                    <Input
+                      type="number"
+                      min="1"
+                      placeholder="Offer (AED)"
+                      className="w-36"
+                      value={offerAmounts[listing.id] || ""}
+                      onChange={(e) => setOfferAmounts(amounts => ({ ...amounts, [listing.id]: e.target.value }))}
+                      data-testid={`input-offer-${listing.id}`}
+                    />
+                    <Button
+                      size="sm"
+                      disabled={offerMutation.isPending || !offerAmounts[listing.id] || Number(offerAmounts[listing.id]) <= 0}
+                      onClick={() => offerMutation.mutate(listing.id)}
+                      data-testid={`button-offer-${listing.id}`}
+                    >
+                      Make Offer
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))
+          ) : (
+            <p className="text-sm text-muted-foreground text-center py-6">No shares are for sale right now</p>
+          )}
+          {myOffers.filter(offer => !marketListings.some(listing => listing.myOffer?.id === offer.id)).map(offer => (
+            <p key={offer.id} className="text-xs text-muted-foreground">
+              Your offer of {formatAed(offer.amount)} for {Number(offer.sharePercentage)}% of {offer.propertyTitle} is waiting for the seller
+            </p>
+          ))}
+        </div>
+      </CardContent>
+
+      {signingTransfer && signingTemplate && (
+        <SignatureModal
+          isOpen={!!signingTransfer}
+          onClose={() => setSigningTransfer(null)}
+          template={signingTemplate}
+          investorId={investorId}
+          propertyId={signingTransfer.propertyId}
+          shareTransferId={signingTransfer.id}
+          onSignComplete={() => {
+            setSigningTransfer(null);
+            invalidateSecondaryMarket();
+          }}
+        />
+      )}
+    </Card>
+  );
+}
@@ -15,14 +15,16 @@ interface SignatureModalProps {
   template: AgreementTemplate;
   investorId: string;
   propertyId: string;
+  shareTransferId?: string; // Set when signing a share transfer agreement
   onSignComplete: () => void;
 }
 
-export function SignatureModal({ isOpen, onClose, template, investorId, propertyId, onSignComplete }: SignatureModalProps) {
+export function SignatureModal({ isOpen, onClose, template, investorId, propertyId, shareTransferId, onSignComplete }: SignatureModalProps) {
   const [currentView, setCurrentView] = useState<"preview" | "verify-otp" | "sign" | "success">("preview");
   const [signaturePad, setSignaturePad] = useState<SignaturePad | null>(null);
   const [sessionToken, setSessionToken] = useState<string>("");
   const [otp, setOtp] = useState<string>("");
+  const [otpDestination, setOtpDestination] = useState<string>("");
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const { toast } = useToast();
 
@@ -32,12 +34,14 @@ export function SignatureModal({ isOpen, onClose, template, investorId, property
       const res = await apiRequest("POST", "/api/signatures/create-session", {
         investorId,
         propertyId,
-        templateId: template.id
+        templateId: template.id,
+        shareTransferId
       });
       return await res.json();
     },
     onSuccess: (data: any) => {
       setSessionToken(data.sessionToken);
+      setOtpDestination(data.otpDestination || "");
     },
     onError: (error: any) => {
       toast({
@@ -198,7 +202,7 @@ export function SignatureModal({ isOpen, onClose, template, investorId, property
               <DialogTitle className="text-2xl font-serif">{template.name}</DialogTitle>
               <DialogDescription>
                 {currentView === "preview" && "Review the document carefully before signing"}
-                {currentView === "verify-otp" && "Enter the verification code sent to your email"}
+                {currentView === "verify-otp" && `Enter the verification code sent to ${otpDestination || "you"}`}
                 {currentView === "sign" && "Draw your signature in the box below"}
                 {currentView === "success" && "Document signed successfully"}
               </DialogDescription>
@@ -280,7 +284,7 @@ export function SignatureModal({ isOpen, onClose, template, investorId, property
                     Verification Required
                   </h3>
                   <p className="text-sm text-blue-700 dark:text-blue-300 mb-4">
-                    A 6-digit verification code has been sent to your email. Please enter it below to proceed with signing.
+                    A 6-digit verification code has been sent to {otpDestination || "your registered contact"}. Please enter it below to proceed with signing.
                   </p>
                   <p className="text-xs text-blue-600 dark:text-blue-400">
                     Check your console for the OTP code (development mode)
@@ -9,21 +9,58 @@ import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { AdminLoginForm } from "@/components/admin-login-form";
 import { AdminTemplates } from "@/components/admin-templates";
+import { AdminProperties } from "@/components/admin-properties";
 import { AdminSignatureStatus } from "@/components/admin-signature-status";
+import { AdminPaymentPlans } from "@/components/admin-payment-plans";
+import { AdminRefunds } from "@/components/admin-refunds";
+import { AdminBankReconciliation } from "@/components/admin-bank-reconciliation";
+import { AdminRentalIncome } from "@/components/admin-rental-income";
+import { AdminPropertyExpenses } from "@/components/admin-property-expenses";
+import { AdminShareTransfers } from "@/components/admin-share-transfers";
+import { AdminPropertyExits } from "@/components/admin-property-exits";
+import { AdminGovernance } from "@/components/admin-governance";
+import { AdminInvestorDetails } from "@/components/admin-investor-details";
+import { AdminLedger } from "@/components/admin-ledger";
 import { useToast } from "@/hooks/use-toast";
-import { queryClient } from "@/lib/queryClient";
-import type { Investor } from "@shared/schema";
+import { queryClient, getQueryFn } from "@/lib/queryClient";
+import type { InvestorWithTotals, Property } from "@shared/schema";
+import { roleLabels, type AdminPermission, type AdminRole } from "@shared/permissions";
+
+interface AdminSession {
+  admin: { 
+    id: string; 
+    email: string; 
+    fullName: string; 
+    role: AdminRole; 
+    permissions: AdminPermission[];
+  };
+}
 
 export default function Admin() {
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [activeTab, setActiveTab] = useState("investors");
   const [searchQuery, setSearchQuery] = useState("");
+  const [viewingInvestor, setViewingInvestor] = useState<InvestorWithTotals | null>(null);
   const { toast } = useToast();
 
-  const { data: investors = [], isLoading } = useQuery<Investor[]>({
+  const { data: adminSession, isLoading: isSessionLoading } = useQuery<AdminSession | null>({
+    queryKey: ["/api/admin/session"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+  const isAuthenticated = !!adminSession;
+  const can = (permission: AdminPermission) => !!adminSession?.admin.permissions.includes(permission);
+
+  const { data: investors = [], isLoading } = useQuery<InvestorWithTotals[]>({
     queryKey: ["/api/admin/investors"],
+    enabled: isAuthenticated && can("investors:read"),
+  });
+
+  const { data: propertyList } = useQuery<{ properties: Property[]; total: number }>({
+    queryKey: ["/api/properties?pageSize=50"],
     enabled: isAuthenticated,
   });
+  const catalogue = propertyList?.properties || [];
+  const catalogueFractionsSold = catalogue.reduce((sum, p) => sum + p.fractionsSold, 0);
+  const catalogueTotalFractions = catalogue.reduce((sum, p) => sum + p.totalFractions, 0);
 
   const approveKYCMutation = useMutation({
     mutationFn: async (investorId: string) => {
@@ -107,8 +144,39 @@ export default function Admin() {
     a.click();
   };
 
-  if (!isAuthenticated) {
-    return <AdminLoginForm onLoginSuccess={() => setIsAuthenticated(true)} />;
+  const handleLogout = async () => {
+    await fetch("/api/admin/logout", { method: "POST", credentials: "include" });
+    queryClient.setQueryData(["/api/admin/session"], null);
+    queryClient.removeQueries({ queryKey: ["/api/admin/investors"] });
+  };
+
+  // Tabs are only shown to roles that can use them
+  const tableColumnCount = can("kyc_documents:read") ? 9 : 8;
+
+  const visibleTabs = [
+    { value: "investors", label: "Investors", visible: can("investors:read") },
+    { value: "properties", label: "Properties", visible: can("properties:manage") },
+    { value: "payments", label: "Payments", visible: can("payments:read") },
+    { value: "ledger", label: "Ledger", visible: can("payments:read") },
+    { value: "governance", label: "Governance", visible: can("investors:read") },
+    { value: "signatures", label: "Signatures", visible: can("signatures:read") },
+    { value: "templates", label: "Templates", visible: true },
+  ].filter((tab) => tab.visible);
+
+  if (isSessionLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin w-8 h-8 border-2 border-primary border-t-transparent rounded-full" />
+      </div>
+    );
+  }
+
+  if (!adminSession) {
+    return (
+      <AdminLoginForm 
+        onLoginSuccess={() => queryClient.invalidateQueries({ queryKey: ["/api/admin/session"] })} 
+      />
+    );
   }
 
   return (
@@ -122,10 +190,18 @@ export default function Admin() {
               <span className="ml-2 text-sm text-muted-foreground">Admin Panel</span>
             </div>
           </div>
-          <Button variant="ghost" size="sm" onClick={() => setIsAuthenticated(false)} data-testid="button-admin-logout">
-            <LogOut className="h-4 w-4 mr-2" />
-            Logout
-          </Button>
+          <div className="flex items-center gap-4">
+            <span className="text-sm text-muted-foreground" data-testid="text-admin-email">
+              {adminSession.admin.fullName}
+            </span>
+            <Badge variant="outline" data-testid="badge-admin-role">
+              {roleLabels[adminSession.admin.role] ?? adminSession.admin.role}
+            </Badge>
+            <Button variant="ghost" size="sm" onClick={handleLogout} data-testid="button-admin-logout">
+              <LogOut className="h-4 w-4 mr-2" />
+              Logout
+            </Button>
+          </div>
         </div>
       </header>
 
@@ -135,11 +211,20 @@ export default function Admin() {
           <p className="text-muted-foreground">Manage investors, agreements, and system settings</p>
         </div>
 
-        <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-          <TabsList className="grid w-full max-w-lg grid-cols-3 mb-8">
-            <TabsTrigger value="investors" data-testid="tab-investors">Investors</TabsTrigger>
-            <TabsTrigger value="signatures" data-testid="tab-signatures">Signatures</TabsTrigger>
-            <TabsTrigger value="templates" data-testid="tab-templates">Templates</TabsTrigger>
+        <Tabs 
+          value={visibleTabs.some((tab) => tab.value === activeTab) ? activeTab : visibleTabs[0]?.value} 
+          onValueChange={setActiveTab} 
+          className="w-full"
+        >
+          <TabsList 
+            className="grid w-full max-w-3xl mb-8" 
+            style={{ gridTemplateColumns: `repeat(${visibleTabs.length}, minmax(0, 1fr))` }}
+          >
+            {visibleTabs.map((tab) => (
+              <TabsTrigger key={tab.value} value={tab.value} data-testid={`tab-${tab.value}`}>
+                {tab.label}
+              </TabsTrigger>
+            ))}
           </TabsList>
 
           <TabsContent value="investors" className="space-y-6">
@@ -158,21 +243,28 @@ export default function Admin() {
                   <CardTitle className="text-sm font-medium">Fractions Sold</CardTitle>
                 </CardHeader>
                 <CardContent>
-                  <div className="text-3xl font-bold tabular-nums">3 / 4</div>
-                </CardContent>
-              </Card>
-
-              <Card data-testid="card-total-revenue">
-                <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                  <CardTitle className="text-sm font-medium">Total Revenue</CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <div className="text-3xl font-bold tabular-nums">
-                    AED {investors.reduce((sum, inv) => sum + Number(inv.totalInvested), 0).toLocaleString()}
+                  <div className="text-3xl font-bold tabular-nums" data-testid="text-fractions-sold">
+                    {catalogueFractionsSold} / {catalogueTotalFractions}
                   </div>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    across {catalogue.length} {catalogue.length === 1 ? "property" : "properties"}
+                  </p>
                 </CardContent>
               </Card>
 
+              {can("payments:read") && (
+                <Card data-testid="card-total-revenue">
+                  <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                    <CardTitle className="text-sm font-medium">Total Revenue</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="text-3xl font-bold tabular-nums">
+                      AED {investors.reduce((sum, inv) => sum + Number(inv.totalInvested), 0).toLocaleString()}
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
+
               <Card data-testid="card-kyc-pending">
                 <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
                   <CardTitle className="text-sm font-medium">KYC Pending</CardTitle>
@@ -218,7 +310,9 @@ export default function Admin() {
                       <TableHead className="text-center">Fractions</TableHead>
                       <TableHead className="text-right">Invested</TableHead>
                       <TableHead className="text-center">Payment</TableHead>
-                      <TableHead className="text-center">Documents</TableHead>
+                      {can("kyc_documents:read") && (
+                        <TableHead className="text-center">Documents</TableHead>
+                      )}
                       <TableHead className="text-center">KYC</TableHead>
                       <TableHead className="text-right">Actions</TableHead>
                     </TableRow>
@@ -226,7 +320,7 @@ export default function Admin() {
                   <TableBody>
                     {isLoading ? (
                       <TableRow>
-                        <TableCell colSpan={9} className="text-center py-12">
+                        <TableCell colSpan={tableColumnCount} className="text-center py-12">
                           <div className="flex items-center justify-center gap-2">
                             <div className="animate-spin w-5 h-5 border-2 border-primary border-t-transparent rounded-full" />
                             <span className="text-muted-foreground">Loading investors...</span>
@@ -252,22 +346,24 @@ export default function Admin() {
                               {investor.paymentStatus}
                             </Badge>
                           </TableCell>
-                          <TableCell className="text-center">
-                            <div className="flex items-center justify-center gap-1" data-testid={`text-documents-status-${investor.id}`}>
-                              {investor.passportDocPath && (
-                                <div className="w-2 h-2 rounded-full bg-green-500" title="Passport uploaded" />
-                              )}
-                              {investor.proofOfAddressPath && (
-                                <div className="w-2 h-2 rounded-full bg-green-500" title="Proof of address uploaded" />
-                              )}
-                              {investor.bankStatementPath && (
-                                <div className="w-2 h-2 rounded-full bg-green-500" title="Bank statement uploaded" />
-                              )}
-                              {!investor.passportDocPath && !investor.proofOfAddressPath && !investor.bankStatementPath && (
-                                <span className="text-xs text-muted-foreground">None</span>
-                              )}
-                            </div>
-                          </TableCell>
+                          {can("kyc_documents:read") && (
+                            <TableCell className="text-center">
+                              <div className="flex items-center justify-center gap-1" data-testid={`text-documents-status-${investor.id}`}>
+                                {investor.passportDocPath && (
+                                  <div className="w-2 h-2 rounded-full bg-green-500" title="Passport uploaded" />
+                                )}
+                                {investor.proofOfAddressPath && (
+                                  <div className="w-2 h-2 rounded-full bg-green-500" title="Proof of address uploaded" />
+                                )}
+                                {investor.bankStatementPath && (
+                                  <div className="w-2 h-2 rounded-full bg-green-500" title="Bank statement uploaded" />
+                                )}
+                                {!investor.passportDocPath && !investor.proofOfAddressPath && !investor.bankStatementPath && (
+                                  <span className="text-xs text-muted-foreground">None</span>
+                                )}
+                              </div>
+                            </TableCell>
+                          )}
                           <TableCell className="text-center">
                             <Badge
                               variant={investor.kycStatus === "approved" ? "default" : "secondary"}
@@ -279,7 +375,7 @@ export default function Admin() {
                           </TableCell>
                           <TableCell className="text-right">
                             <div className="flex justify-end gap-2">
-                              {investor.kycStatus === "pending" && (
+                              {investor.kycStatus === "pending" && can("kyc:update") && (
                                 <Button 
                                   size="sm" 
                                   variant="outline" 
@@ -291,7 +387,12 @@ export default function Admin() {
                                   Approve KYC
                                 </Button>
                               )}
-                              <Button size="sm" variant="ghost" data-testid={`button-view-details-${investor.id}`}>
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                onClick={() => setViewingInvestor(investor)}
+                                data-testid={`button-view-details-${investor.id}`}
+                              >
                                 View
                               </Button>
                             </div>
@@ -300,7 +401,7 @@ export default function Admin() {
                       ))
                     ) : (
                       <TableRow>
-                        <TableCell colSpan={9} className="text-center py-12 text-muted-foreground">
+                        <TableCell colSpan={tableColumnCount} className="text-center py-12 text-muted-foreground">
                           {searchQuery ? "No investors found matching your search" : "No investors yet"}
                         </TableCell>
                       </TableRow>
@@ -311,57 +412,94 @@ export default function Admin() {
             </CardContent>
           </Card>
 
-          <Card className="border-primary/20">
-            <CardHeader>
-              <CardTitle className="text-xl font-serif text-primary">Critical Actions</CardTitle>
-              <CardDescription>Trigger notifications and manage property milestones</CardDescription>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              <div className="flex items-center justify-between p-4 rounded-lg border bg-muted/30">
-                <div className="flex-1">
-                  <h3 className="font-semibold mb-1">Unit Fully Funded Notification</h3>
-                  <p className="text-sm text-muted-foreground">
-                    Send email notification to all 4 co-owners that the property is fully funded
-                  </p>
+          <AdminInvestorDetails
+            investor={viewingInvestor}
+            onClose={() => setViewingInvestor(null)}
+            canViewPayments={can("payments:read")}
+          />
+
+          {can("notifications:send") && (
+            <Card className="border-primary/20">
+              <CardHeader>
+                <CardTitle className="text-xl font-serif text-primary">Critical Actions</CardTitle>
+                <CardDescription>Trigger notifications and manage property milestones</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex items-center justify-between p-4 rounded-lg border bg-muted/30">
+                  <div className="flex-1">
+                    <h3 className="font-semibold mb-1">Unit Fully Funded Notification</h3>
+                    <p className="text-sm text-muted-foreground">
+                      Send email notification to all 4 co-owners that the property is fully funded
+                    </p>
+                  </div>
+                  <Button 
+                    variant="default" 
+                    onClick={() => notifyFundedMutation.mutate()}
+                    disabled={notifyFundedMutation.isPending}
+                    data-testid="button-trigger-funded-notification"
+                  >
+                    <Send className="mr-2 h-4 w-4" />
+                    Send Notification
+                  </Button>
                 </div>
-                <Button 
-                  variant="default" 
-                  onClick={() => notifyFundedMutation.mutate()}
-                  disabled={notifyFundedMutation.isPending}
-                  data-testid="button-trigger-funded-notification"
-                >
-                  <Send className="mr-2 h-4 w-4" />
-                  Send Notification
-                </Button>
-              </div>
 
-              <div className="flex items-center justify-between p-4 rounded-lg border bg-muted/30">
-                <div className="flex-1">
-                  <h3 className="font-semibold mb-1">KYC Reminder Email</h3>
-                  <p className="text-sm text-muted-foreground">
-                    Send reminder to all investors with pending KYC status
-                  </p>
+                <div className="flex items-center justify-between p-4 rounded-lg border bg-muted/30">
+                  <div className="flex-1">
+                    <h3 className="font-semibold mb-1">KYC Reminder Email</h3>
+                    <p className="text-sm text-muted-foreground">
+                      Send reminder to all investors with pending KYC status
+                    </p>
+                  </div>
+                  <Button 
+                    variant="outline" 
+                    onClick={() => notifyKYCMutation.mutate()}
+                    disabled={notifyKYCMutation.isPending}
+                    data-testid="button-send-kyc-reminder"
+                  >
+                    <Send className="mr-2 h-4 w-4" />
+                    Send Reminders
+                  </Button>
                 </div>
-                <Button 
-                  variant="outline" 
-                  onClick={() => notifyKYCMutation.mutate()}
-                  disabled={notifyKYCMutation.isPending}
-                  data-testid="button-send-kyc-reminder"
-                >
-                  <Send className="mr-2 h-4 w-4" />
-                  Send Reminders
-                </Button>
+              </CardContent>
+            </Card>
+          )}
+          </TabsContent>
+
+          <TabsContent value="properties">
+            {can("properties:manage") && <AdminProperties />}
+          </TabsContent>
+
+          <TabsContent value="payments">
+            {can("payments:read") && (
+              <div className="space-y-6">
+                <AdminPaymentPlans canManage={can("payments:manage")} />
+                <AdminRefunds canRefund={can("payments:refund")} />
+                <AdminBankReconciliation canManage={can("payments:manage")} />
+                <AdminRentalIncome canManage={can("payments:manage")} />
+                <AdminPropertyExpenses canManage={can("payments:manage")} />
+                <AdminShareTransfers canManage={can("payments:manage")} />
+                <AdminPropertyExits canList={can("properties:manage")} canManage={can("payments:manage")} />
               </div>
-            </CardContent>
-          </Card>
+            )}
+          </TabsContent>
+
+          <TabsContent value="ledger">
+            {can("payments:read") && <AdminLedger />}
+          </TabsContent>
+
+          <TabsContent value="governance">
+            {can("investors:read") && <AdminGovernance canManage={can("properties:manage")} />}
           </TabsContent>
 
           <TabsContent value="signatures">
-            <AdminSignatureStatus />
+            <AdminSignatureStatus 
+              canGenerateDocuments={can("documents:generate")} 
+              canExportDLD={can("dld:export")} 
+            />
           </TabsContent>
 
           <TabsContent value="templates">
-            <AdminTemplates />
+            <AdminTemplates canEdit={can("templates:edit")} />
           </TabsContent>
         </Tabs>
       </main>
@@ -1,19 +1,27 @@
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { useLocation } from "wouter";
-import { Building2, LogOut, DollarSign, TrendingUp, FileText, Users, MapPin, Send, Eye, Home } from "lucide-react";
+import { Building2, LogOut, DollarSign, TrendingUp, FileText, Users, MapPin, Send, Eye, Home, AlertTriangle, CreditCard, Check, Download } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { LoginForm } from "@/components/login-form";
 import { KYCUpload } from "@/components/kyc-upload";
 import { SignatureWorkflow } from "@/components/signature-workflow";
 import { CoOwnerGrid } from "@/components/co-owner-grid";
 import { InvestmentCalculator } from "@/components/investment-calculator";
 import { ProcessTimeline } from "@/components/process-timeline";
+import { ConstructionTimeline } from "@/components/construction-timeline";
 import { DocumentsStation } from "@/components/documents-station";
-import type { Investor, Property, PropertyReservation, CoOwnerSlot, InvestorSignature } from "@shared/schema";
+import { InvestorExpenses } from "@/components/investor-expenses";
+import { OwnerStatements, type OwnerStatementsResponse } from "@/components/owner-statements";
+import { ExitProceeds } from "@/components/exit-proceeds";
+import { SecondaryMarket } from "@/components/secondary-market";
+import { GovernanceProposals } from "@/components/governance-proposals";
+import { InstalmentStatusBadge, type InstalmentDue } from "@/components/instalment-status-badge";
+import type { InvestorWithTotals, Property, PropertyReservation, CoOwnerSlot, InvestorSignature, Payment, RentalPayout } from "@shared/schema";
 
 interface ReservationWithDetails extends PropertyReservation {
   property: Property;
@@ -24,27 +32,90 @@ interface ReservationsResponse {
   reservations: ReservationWithDetails[];
 }
 
+interface InstalmentsResponse {
+  instalments: InstalmentDue[];
+}
+
+interface InvestorPayment extends Payment {
+  propertyTitle: string;
+  sharePercentage: string | null;
+  receiptNumber: string | null;
+}
+
+interface PaymentsResponse {
+  payments: InvestorPayment[];
+}
+
+interface InvestorRentalPayout extends RentalPayout {
+  propertyId: string;
+  propertyTitle: string;
+  periodStart: string;
+  periodEnd: string;
+}
+
+interface RentalIncomeResponse {
+  payouts: InvestorRentalPayout[];
+  yields: Array<{ propertyId: string; propertyTitle: string; sharePercentage: string; costBasis: string; distributed: string; yieldToDate: string }>;
+  totals: { distributed: string; costBasis: string; yieldToDate: string };
+}
+
+// Payments that have (or will be issued) a receipt
+const receiptPaymentStatuses = ["completed", "partially_refunded", "refunded"];
+
 export default function Dashboard() {
   const [isAuthenticated, setIsAuthenticated] = useState(false);
-  const [currentInvestor, setCurrentInvestor] = useState<Investor | null>(null);
+  const [currentInvestor, setCurrentInvestor] = useState<InvestorWithTotals | null>(null);
+  const [selectedPropertyId, setSelectedPropertyId] = useState<string | null>(null);
   const [, setLocation] = useLocation();
 
-  const { data: pilotProperty } = useQuery<Property>({
-    queryKey: ["/api/properties/pilot"],
-    enabled: isAuthenticated,
-  });
-
   const { data: reservationsData, isLoading: isLoadingReservations } = useQuery<ReservationsResponse>({
     queryKey: ["/api/reservations/investor"],
     enabled: isAuthenticated && !!currentInvestor,
   });
 
+  // Properties the investor is involved in, one entry per property
+  const investorProperties = Array.from(
+    new Map((reservationsData?.reservations || []).map(r => [r.property.id, r.property])).values()
+  );
+  const activeProperty = investorProperties.find(p => p.id === selectedPropertyId) || investorProperties[0];
+
   const { data: signatures } = useQuery<InvestorSignature[]>({
-    queryKey: ["/api/signatures/investor", currentInvestor?.id, "property", pilotProperty?.id],
-    enabled: isAuthenticated && !!currentInvestor?.id && !!pilotProperty?.id,
+    queryKey: ["/api/signatures/investor", currentInvestor?.id, "property", activeProperty?.id],
+    enabled: isAuthenticated && !!currentInvestor?.id && !!activeProperty?.id,
   });
 
-  const handleLoginSuccess = (investor: Investor) => {
+  const { data: instalmentsData } = useQuery<InstalmentsResponse>({
+    queryKey: ["/api/instalments/investor"],
+    enabled: isAuthenticated && !!currentInvestor,
+  });
+
+  const { data: paymentsData } = useQuery<PaymentsResponse>({
+    queryKey: ["/api/payments/investor"],
+    enabled: isAuthenticated && !!currentInvestor,
+  });
+  const receiptPayments = (paymentsData?.payments || []).filter(payment => receiptPaymentStatuses.includes(payment.status));
+
+  const { data: rentalData } = useQuery<RentalIncomeResponse>({
+    queryKey: ["/api/rental-income/investor"],
+    enabled: isAuthenticated && !!currentInvestor,
+  });
+  const rentalPayouts = rentalData?.payouts || [];
+
+  const { data: statementsData } = useQuery<OwnerStatementsResponse>({
+    queryKey: ["/api/statements/investor"],
+    enabled: isAuthenticated && !!currentInvestor,
+  });
+
+  // Unpaid instalments, overdue first then by due date; milestone-triggered ones without a date go last
+  const outstandingDues = (instalmentsData?.instalments || [])
+    .filter(due => due.status !== "paid")
+    .sort((a, b) => {
+      if (!a.dueDate || !b.dueDate) return a.dueDate ? -1 : b.dueDate ? 1 : a.sequence - b.sequence;
+      return new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime();
+    });
+  const overdueDues = outstandingDues.filter(due => due.status === "overdue");
+
+  const handleLoginSuccess = (investor: InvestorWithTotals) => {
     setCurrentInvestor(investor);
     setIsAuthenticated(true);
     sessionStorage.setItem("investorData", JSON.stringify(investor));
@@ -56,8 +127,7 @@ export default function Dashboard() {
   };
 
   const handleExpressInterest = () => {
-    // Navigate to express interest page with pilot property ID
-    setLocation(`/properties/${pilotProperty?.id || 'cb8843d6-e4cf-404a-92b2-bd382e9c4853'}/express-interest`);
+    setLocation("/properties");
   };
 
   const handleViewReservationDetails = (reservationId: string) => {
@@ -69,7 +139,7 @@ export default function Dashboard() {
   }
 
   const fractionPercentage = (currentInvestor?.fractionsPurchased || 0) * 25;
-  const escrowProgress = pilotProperty ? (pilotProperty.fractionsSold / pilotProperty.totalFractions) * 100 : 0;
+  const escrowProgress = activeProperty ? (activeProperty.fractionsSold / activeProperty.totalFractions) * 100 : 0;
   const reservations = reservationsData?.reservations || [];
 
   // Helper: Get reservation status badge config
@@ -85,6 +155,8 @@ export default function Dashboard() {
         return { label: "Payment Pending", className: "bg-primary text-primary-foreground" };
       case "payment_complete":
         return { label: "Completed", className: "bg-green-600 text-white" };
+      case "closed":
+        return { label: "Sold", className: "bg-muted text-muted-foreground" };
       case "cancelled":
         return { label: "Cancelled", className: "bg-destructive text-destructive-foreground" };
       default:
@@ -97,6 +169,13 @@ export default function Dashboard() {
     return reservation.slots.find(slot => slot.investorId === currentInvestor?.id);
   };
 
+  // Helper: Whether the investor still owes their share of a signed reservation
+  const canPayMySlot = (reservation: ReservationWithDetails, mySlot?: CoOwnerSlot) => {
+    return !!mySlot
+      && mySlot.paymentStatus !== "paid"
+      && (reservation.reservationStatus === "all_signed" || reservation.reservationStatus === "payment_pending");
+  };
+
   // Helper: Generate documents list for DocumentsStation
   const getDocumentsList = () => {
     if (!signatures || signatures.length === 0) {
@@ -419,6 +498,21 @@ export default function Dashboard() {
                             Send Invitations
                           </Button>
                         )}
+                        {canPayMySlot(reservation, mySlot) && (
+                          <Button
+                            onClick={() => setLocation(`/payment?slotId=${mySlot!.id}`)}
+                            data-testid={`button-pay-share-${reservation.id}`}
+                          >
+                            <CreditCard className="h-4 w-4 mr-2" />
+                            Pay My Share
+                          </Button>
+                        )}
+                        {mySlot?.paymentStatus === "paid" && (
+                          <Badge variant="outline" className="gap-1 self-center" data-testid={`badge-share-paid-${reservation.id}`}>
+                            <Check className="h-3 w-3" />
+                            Share Paid
+                          </Badge>
+                        )}
                       </CardFooter>
                     </Card>
                   );
@@ -453,16 +547,34 @@ export default function Dashboard() {
               <div className="lg:col-span-2 space-y-8">
                 <Card>
                   <CardHeader>
-                    <CardTitle className="text-2xl font-serif">My Properties</CardTitle>
-                    <CardDescription>Your fractional ownership portfolio</CardDescription>
+                    <div className="flex flex-wrap items-start justify-between gap-4">
+                      <div>
+                        <CardTitle className="text-2xl font-serif">My Properties</CardTitle>
+                        <CardDescription>Your fractional ownership portfolio</CardDescription>
+                      </div>
+                      {investorProperties.length > 1 && activeProperty && (
+                        <Select value={activeProperty.id} onValueChange={setSelectedPropertyId}>
+                          <SelectTrigger className="w-64" data-testid="select-active-property">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {investorProperties.map(property => (
+                              <SelectItem key={property.id} value={property.id}>
+                                {property.title}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                    </div>
                   </CardHeader>
                   <CardContent>
-                    {currentInvestor?.fractionsPurchased && currentInvestor.fractionsPurchased > 0 ? (
+                    {activeProperty && currentInvestor?.fractionsPurchased && currentInvestor.fractionsPurchased > 0 ? (
                       <div className="space-y-4">
                         <div className="flex items-start gap-4 p-4 rounded-lg border hover-elevate" data-testid="card-property-owned">
                           <div className="flex-1">
-                            <h3 className="font-semibold mb-1">{pilotProperty?.title || "1BR JVC Apartment"}</h3>
-                            <p className="text-sm text-muted-foreground mb-3">{pilotProperty?.location || "Jumeirah Village Circle, Dubai"}</p>
+                            <h3 className="font-semibold mb-1">{activeProperty.title}</h3>
+                            <p className="text-sm text-muted-foreground mb-3">{activeProperty.location}</p>
                             <div className="flex flex-wrap gap-6 text-sm">
                               <div>
                                 <span className="text-muted-foreground">Your Stake:</span>{" "}
@@ -490,41 +602,223 @@ export default function Dashboard() {
                 <Card>
                   <CardHeader>
                     <CardTitle className="text-2xl font-serif">Escrow Progress</CardTitle>
-                    <CardDescription>Funding status for your property</CardDescription>
+                    <CardDescription>
+                      {activeProperty ? `Funding status for ${activeProperty.title}` : "Funding status for your property"}
+                    </CardDescription>
                   </CardHeader>
                   <CardContent>
-                    <div className="space-y-4">
-                      <div>
-                        <div className="flex justify-between text-sm mb-2">
-                          <span className="text-muted-foreground">Fractions Sold</span>
-                          <span className="font-semibold tabular-nums">
-                            {pilotProperty?.fractionsSold || 3} / {pilotProperty?.totalFractions || 4}
-                          </span>
+                    {activeProperty ? (
+                      <div className="space-y-4">
+                        <div>
+                          <div className="flex justify-between text-sm mb-2">
+                            <span className="text-muted-foreground">Fractions Sold</span>
+                            <span className="font-semibold tabular-nums">
+                              {activeProperty.fractionsSold} / {activeProperty.totalFractions}
+                            </span>
+                          </div>
+                          <div className="h-3 rounded-full bg-muted overflow-hidden">
+                            <div
+                              className="h-full bg-primary transition-all"
+                              style={{ width: `${escrowProgress}%` }}
+                              data-testid="progress-escrow"
+                            />
+                          </div>
+                          <p className="text-xs text-muted-foreground mt-1">
+                            {escrowProgress.toFixed(0)}% funded
+                          </p>
                         </div>
-                        <div className="h-3 rounded-full bg-muted overflow-hidden">
-                          <div
-                            className="h-full bg-primary transition-all"
-                            style={{ width: `${escrowProgress}%` }}
-                            data-testid="progress-escrow"
-                          />
+
+                        <div className="bg-muted/50 rounded-lg p-4 space-y-2">
+                          <h4 className="font-semibold text-sm">Developer Escrow Account</h4>
+                          <div className="font-mono text-sm bg-background p-2 rounded border">
+                            {activeProperty.escrowIban || "Provided once your reservation is confirmed"}
+                          </div>
+                          <p className="text-xs text-muted-foreground">
+                            All co-owner payments are held securely until title deed registration
+                          </p>
                         </div>
-                        <p className="text-xs text-muted-foreground mt-1">
-                          {escrowProgress.toFixed(0)}% funded
-                        </p>
                       </div>
+                    ) : (
+                      <p className="text-sm text-muted-foreground text-center py-8">
+                        Reserve a share in a property to track its escrow funding here
+                      </p>
+                    )}
+                  </CardContent>
+                </Card>
 
-                      <div className="bg-muted/50 rounded-lg p-4 space-y-2">
-                        <h4 className="font-semibold text-sm">Developer Escrow Account</h4>
-                        <div className="font-mono text-sm bg-background p-2 rounded border">
-                          {pilotProperty?.escrowIban || "AE07 0331 2345 6789 0123 456"}
-                        </div>
-                        <p className="text-xs text-muted-foreground">
-                          All co-owner payments are held securely until title deed registration
+                <Card data-testid="card-upcoming-dues">
+                  <CardHeader>
+                    <CardTitle className="text-2xl font-serif">Upcoming Dues</CardTitle>
+                    <CardDescription>Your share of each developer payment plan instalment</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    {overdueDues.length > 0 && (
+                      <div className="flex items-start gap-3 rounded-lg border border-destructive/50 bg-destructive/10 p-4 mb-4" data-testid="alert-overdue-dues">
+                        <AlertTriangle className="h-5 w-5 text-destructive flex-shrink-0" />
+                        <p className="text-sm">
+                          You have {overdueDues.length} overdue instalment{overdueDues.length === 1 ? "" : "s"} totalling{" "}
+                          <span className="font-semibold tabular-nums">
+                            AED {overdueDues.reduce((sum, due) => sum + Number(due.amount), 0).toLocaleString()}
+                          </span>
+                          . Please pay to the developer escrow account as soon as possible.
                         </p>
                       </div>
+                    )}
+                    {outstandingDues.length > 0 ? (
+                      <div className="space-y-3">
+                        {outstandingDues.map(due => (
+                          <div
+                            key={`${due.instalmentId}-${due.slotId}`}
+                            className={`flex items-center justify-between gap-4 p-3 rounded-lg border ${due.status === "overdue" ? "border-destructive/50" : ""}`}
+                            data-testid={`row-due-${due.instalmentId}`}
+                          >
+                            <div className="min-w-0">
+                              <p className="font-medium">{due.label}</p>
+                              <p className="text-xs text-muted-foreground">
+                                {due.propertyTitle} · {due.instalmentPercentage}% of price × {due.sharePercentage}% share
+                              </p>
+                            </div>
+                            <div className="text-right space-y-1">
+                              <p className="font-semibold tabular-nums">AED {Number(due.amount).toLocaleString()}</p>
+                              <p className="text-xs text-muted-foreground">
+                                {due.dueDate ? `Due ${new Date(due.dueDate).toLocaleDateString()}` : "Due on milestone"}
+                              </p>
+                              <InstalmentStatusBadge due={due} />
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    ) : (
+                      <p className="text-sm text-muted-foreground text-center py-8">
+                        No outstanding instalments
+                      </p>
+                    )}
+                  </CardContent>
+                </Card>
+
+                <Card data-testid="card-payment-receipts">
+                  <CardHeader>
+                    <CardTitle className="text-2xl font-serif">Payments & Receipts</CardTitle>
+                    <CardDescription>Download a numbered receipt for each completed payment</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    {receiptPayments.length > 0 ? (
+                      <div className="space-y-3">
+                        {receiptPayments.map(payment => (
+                          <div
+                            key={payment.id}
+                            className="flex items-center justify-between gap-4 p-3 rounded-lg border"
+                            data-testid={`row-payment-${payment.id}`}
+                          >
+                            <div className="min-w-0">
+                              <p className="font-medium">{payment.propertyTitle}</p>
+                              <p className="text-xs text-muted-foreground">
+                                {new Date(payment.completedAt || payment.createdAt).toLocaleDateString()}
+                                {payment.sharePercentage && ` · ${Number(payment.sharePercentage)}% share`}
+                                {payment.receiptNumber && ` · ${payment.receiptNumber}`}
+                              </p>
+                            </div>
+                            <div className="flex items-center gap-3">
+                              <div className="text-right space-y-1">
+                                <p className="font-semibold tabular-nums">AED {Number(payment.amount).toLocaleString()}</p>
+                                {payment.status !== "completed" && (
+                                  <Badge variant="secondary" className="capitalize">
+                                    {payment.status.replace("_", " ")}
+                                  </Badge>
+                                )}
+                              </div>
+                              <Button size="icon" variant="outline" asChild>
+                                <a
+                                  href={`/api/payments/${payment.id}/receipt`}
+                                  title="Download receipt"
+                                  data-testid={`button-download-receipt-${payment.id}`}
+                                >
+                                  <Download className="h-4 w-4" />
+                                </a>
+                              </Button>
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    ) : (
+                      <p className="text-sm text-muted-foreground text-center py-8">
+                        No completed payments yet
+                      </p>
+                    )}
+                  </CardContent>
+                </Card>
+
+                <Card data-testid="card-rental-income">
+                  <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+                    <div>
+                      <CardTitle className="text-2xl font-serif">Rental Income</CardTitle>
+                      <CardDescription>Your share of the rent after management fees, service charges and maintenance</CardDescription>
                     </div>
+                    {rentalData && Number(rentalData.totals.distributed) > 0 && (
+                      <div className="text-right">
+                        <p className="text-xs text-muted-foreground">Yield to date</p>
+                        <p className="text-2xl font-bold tabular-nums" data-testid="text-rental-yield">
+                          {Number(rentalData.totals.yieldToDate).toFixed(2)}%
+                        </p>
+                      </div>
+                    )}
+                  </CardHeader>
+                  <CardContent>
+                    {rentalPayouts.length > 0 ? (
+                      <div className="space-y-4">
+                        {(rentalData?.yields || []).filter(row => Number(row.distributed) > 0).map(row => (
+                          <div key={row.propertyId} className="flex items-center justify-between gap-4 rounded-lg bg-muted/50 p-3 text-sm" data-testid={`row-rental-yield-${row.propertyId}`}>
+                            <span>{row.propertyTitle} · {Number(row.sharePercentage)}% share</span>
+                            <span className="tabular-nums">
+                              AED {Number(row.distributed).toLocaleString()} · {Number(row.yieldToDate).toFixed(2)}%
+                            </span>
+                          </div>
+                        ))}
+                        <div className="space-y-3">
+                          {rentalPayouts.map(payout => (
+                            <div
+                              key={payout.id}
+                              className="flex items-center justify-between gap-4 p-3 rounded-lg border"
+                              data-testid={`row-rental-payout-${payout.id}`}
+                            >
+                              <div className="min-w-0">
+                                <p className="font-medium">{payout.propertyTitle}</p>
+                                <p className="text-xs text-muted-foreground">
+                                  {new Date(payout.periodStart).toLocaleDateString()} – {new Date(payout.periodEnd).toLocaleDateString()}
+                                  {` · ${Number(payout.sharePercentage)}% share`}
+                                </p>
+                              </div>
+                              <div className="text-right space-y-1">
+                                <p className="font-semibold tabular-nums">AED {Number(payout.amount).toLocaleString()}</p>
+                                <Badge variant={payout.status === "paid" ? "default" : "secondary"}>
+                                  {payout.status === "paid" ? "Paid" : "Payout pending"}
+                                </Badge>
+                              </div>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    ) : (
+                      <p className="text-sm text-muted-foreground text-center py-8">
+                        Rent is distributed here once your property is handed over and let
+                      </p>
+                    )}
                   </CardContent>
                 </Card>
+
+                <InvestorExpenses enabled={isAuthenticated && !!currentInvestor} />
+
+                <OwnerStatements enabled={isAuthenticated && !!currentInvestor} properties={investorProperties} />
+
+                <ExitProceeds enabled={isAuthenticated && !!currentInvestor} />
+
+                {currentInvestor && (
+                  <GovernanceProposals enabled={isAuthenticated} investorId={currentInvestor.id} properties={investorProperties} />
+                )}
+
+                {currentInvestor && (
+                  <SecondaryMarket enabled={isAuthenticated} investorId={currentInvestor.id} />
+                )}
               </div>
 
               <div className="space-y-8">
@@ -553,6 +847,7 @@ export default function Dashboard() {
 
             <DocumentsStation
               documents={getDocumentsList()}
+              statements={statementsData?.statements}
               onPreviewSign={(documentId) => {
                 console.log("Preview sign document:", documentId);
               }}
@@ -573,7 +868,7 @@ export default function Dashboard() {
 
               <SignatureWorkflow
                 investorId={currentInvestor?.id || ""}
-                propertyId={pilotProperty?.id || ""}
+                propertyId={activeProperty?.id || ""}
               />
             </div>
           </TabsContent>
@@ -581,9 +876,13 @@ export default function Dashboard() {
           <TabsContent value="process" className="space-y-8">
             <div>
               <h2 className="text-3xl font-bold font-serif mb-2">Co-Ownership Process</h2>
-              <p className="text-muted-foreground">Track your progress through the co-ownership journey</p>
+              <p className="text-muted-foreground">Track your progress through the co-ownership journey and the construction of your property</p>
             </div>
 
+            {activeProperty && (
+              <ConstructionTimeline propertyId={activeProperty.id} propertyTitle={activeProperty.title} />
+            )}
+
             <ProcessTimeline
               currentStep={processData.currentStep}
               steps={processData.steps}
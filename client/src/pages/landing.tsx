@@ -5,6 +5,7 @@ import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import { ReservationModal } from "@/components/reservation-modal";
+import { PropertyGallery, type PropertyMediaItem } from "@/components/property-gallery";
 import type { Property } from "@shared/schema";
 import heroImage from "@assets/generated_images/Dubai_JVC_apartment_hero_image_7b4e97ad.png";
 import buildingImage from "@assets/generated_images/JVC_building_exterior_view_c11476b3.png";
@@ -18,6 +19,15 @@ export default function Landing() {
     queryKey: ["/api/properties/pilot"],
   });
 
+  const { data: pilotMedia = [] } = useQuery<PropertyMediaItem[]>({
+    queryKey: ["/api/properties", pilotProperty?.id, "media"],
+    enabled: !!pilotProperty,
+  });
+  const coverPhoto = pilotMedia.find(item => item.mediaType === "photo");
+
+  const featuredFractionPercent = pilotProperty ? 100 / pilotProperty.totalFractions : 25;
+  const featuredFractionPrice = pilotProperty ? Number(pilotProperty.pricePerFraction) : 225000;
+
   return (
     <div className="min-h-screen bg-background">
       <header className="sticky top-0 z-50 w-full border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
@@ -33,6 +43,9 @@ export default function Landing() {
             <a href="#pilot-unit" className="text-sm font-medium text-muted-foreground hover:text-foreground transition-colors">
               Pilot Unit
             </a>
+            <a href="/properties" className="text-sm font-medium text-muted-foreground hover:text-foreground transition-colors" data-testid="link-properties">
+              Properties
+            </a>
             <a href="#legal" className="text-sm font-medium text-muted-foreground hover:text-foreground transition-colors">
               Legal
             </a>
@@ -63,8 +76,8 @@ export default function Landing() {
         <div className="container relative z-10">
           <div className="max-w-3xl py-16 md:py-24">
             <h1 className="text-5xl md:text-6xl lg:text-7xl font-bold font-serif mb-6 leading-tight">
-              Own 25% of a Dubai Apartment for{" "}
-              <span className="text-primary">AED 225,000</span>
+              Own {featuredFractionPercent.toFixed(0)}% of a Dubai Apartment for{" "}
+              <span className="text-primary">AED {featuredFractionPrice.toLocaleString()}</span>
             </h1>
             <p className="text-xl md:text-2xl text-muted-foreground mb-8 leading-relaxed">
               DLD-compliant fractional co-ownership of off-plan real estate in Dubai. Direct title deed registration with up to 4 co-owners per property.
@@ -77,8 +90,8 @@ export default function Landing() {
                   <ChevronRight className="ml-2 h-5 w-5" />
                 </a>
               </Button>
-              <Button size="lg" variant="outline" className="text-lg h-14 px-8" asChild data-testid="button-view-pilot">
-                <a href="#pilot-unit">View Pilot Unit</a>
+              <Button size="lg" variant="outline" className="text-lg h-14 px-8" asChild data-testid="button-browse-properties">
+                <a href="/properties">Browse Properties</a>
               </Button>
             </div>
 
@@ -130,25 +143,29 @@ export default function Landing() {
             <Card className="overflow-hidden">
               <div className="grid md:grid-cols-2 gap-0">
                 <div className="relative aspect-[4/3]">
-                  <img src={buildingImage} alt="JVC Building Exterior" className="w-full h-full object-cover" />
+                  <img
+                    src={coverPhoto?.url || buildingImage}
+                    alt={coverPhoto?.caption || "JVC Building Exterior"}
+                    className="w-full h-full object-cover"
+                  />
                 </div>
                 <div className="p-8 md:p-12 flex flex-col justify-center">
                   <div className="mb-6">
-                    <h3 className="text-3xl font-bold font-serif mb-2">1BR JVC Apartment</h3>
-                    <p className="text-muted-foreground">Jumeirah Village Circle, Dubai</p>
+                    <h3 className="text-3xl font-bold font-serif mb-2">{pilotProperty?.title || "1BR JVC Apartment"}</h3>
+                    <p className="text-muted-foreground">{pilotProperty?.location || "Jumeirah Village Circle, Dubai"}</p>
                   </div>
 
                   <div className="grid grid-cols-3 gap-4 mb-8">
                     <div>
-                      <div className="text-2xl font-bold tabular-nums">1</div>
+                      <div className="text-2xl font-bold tabular-nums">{pilotProperty?.bedrooms ?? 1}</div>
                       <div className="text-sm text-muted-foreground">Bedroom</div>
                     </div>
                     <div>
-                      <div className="text-2xl font-bold tabular-nums">1</div>
+                      <div className="text-2xl font-bold tabular-nums">{pilotProperty?.bathrooms ?? 1}</div>
                       <div className="text-sm text-muted-foreground">Bathroom</div>
                     </div>
                     <div>
-                      <div className="text-2xl font-bold tabular-nums">650</div>
+                      <div className="text-2xl font-bold tabular-nums">{pilotProperty?.area ?? 650}</div>
                       <div className="text-sm text-muted-foreground">sq ft</div>
                     </div>
                   </div>
@@ -156,24 +173,28 @@ export default function Landing() {
                   <div className="space-y-4 mb-8">
                     <div className="flex justify-between items-baseline border-b pb-2">
                       <span className="text-muted-foreground">Total Property Value</span>
-                      <span className="text-xl font-bold tabular-nums">AED 900,000</span>
+                      <span className="text-xl font-bold tabular-nums">AED {(pilotProperty ? Number(pilotProperty.totalPrice) : 900000).toLocaleString()}</span>
                     </div>
                     <div className="flex justify-between items-baseline border-b pb-2">
-                      <span className="text-muted-foreground">Price per Fraction (25%)</span>
-                      <span className="text-2xl font-bold tabular-nums text-primary">AED 225,000</span>
+                      <span className="text-muted-foreground">Price per Fraction ({featuredFractionPercent.toFixed(0)}%)</span>
+                      <span className="text-2xl font-bold tabular-nums text-primary">AED {featuredFractionPrice.toLocaleString()}</span>
                     </div>
                     <div className="flex justify-between items-baseline">
                       <span className="text-muted-foreground">Available Fractions</span>
-                      <span className="text-lg font-semibold tabular-nums">1 of 4</span>
+                      <span className="text-lg font-semibold tabular-nums">
+                        {pilotProperty ? `${pilotProperty.totalFractions - pilotProperty.fractionsSold} of ${pilotProperty.totalFractions}` : "1 of 4"}
+                      </span>
                     </div>
                   </div>
 
                   <div className="mb-6">
                     <div className="flex justify-between text-sm mb-2">
                       <span className="text-muted-foreground">Escrow Funding Progress</span>
-                      <span className="font-semibold tabular-nums">3/4 Funded</span>
+                      <span className="font-semibold tabular-nums">
+                        {pilotProperty ? `${pilotProperty.fractionsSold}/${pilotProperty.totalFractions}` : "3/4"} Funded
+                      </span>
                     </div>
-                    <Progress value={75} className="h-3" />
+                    <Progress value={pilotProperty ? (pilotProperty.fractionsSold / pilotProperty.totalFractions) * 100 : 75} className="h-3" />
                   </div>
 
                   <Button size="lg" onClick={() => setIsReservationOpen(true)} className="w-full" data-testid="button-reserve-pilot">
@@ -183,15 +204,26 @@ export default function Landing() {
                 </div>
               </div>
 
-              <div className="grid sm:grid-cols-2 gap-0 border-t">
-                <div className="relative aspect-[4/3]">
-                  <img src={bedroomImage} alt="Bedroom" className="w-full h-full object-cover" />
-                </div>
-                <div className="relative aspect-[4/3]">
-                  <img src={kitchenImage} alt="Kitchen" className="w-full h-full object-cover" />
-                </div>
+              <div className="p-6 border-t">
+                <PropertyGallery
+                  media={pilotMedia}
+                  title={pilotProperty?.title || "1BR JVC Apartment"}
+                  fallbackImages={[
+                    { src: bedroomImage, alt: "Bedroom" },
+                    { src: kitchenImage, alt: "Kitchen" },
+                  ]}
+                />
               </div>
             </Card>
+
+            <div className="text-center mt-8">
+              <Button variant="outline" size="lg" asChild data-testid="button-view-all-properties">
+                <a href="/properties">
+                  View All Properties
+                  <ChevronRight className="ml-2 h-5 w-5" />
+                </a>
+              </Button>
+            </div>
           </div>
         </div>
       </section>
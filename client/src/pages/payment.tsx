@@ -1,161 +1,141 @@
 import { useState, useEffect } from "react";
 import { useLocation } from "wouter";
 import { useQuery } from "@tanstack/react-query";
-import { Building2, CreditCard, Shield, Check, AlertCircle } from "lucide-react";
+import { Building2, CreditCard, Shield, Check, AlertCircle, Landmark, Copy } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import type { Property } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { Property, PropertyReservation, CoOwnerSlot } from "@shared/schema";
+
+interface ChargeStatusResponse {
+  chargeId: string;
+  status: string;
+  amount: number;
+  propertyId: string;
+  slotId: string;
+}
+
+// Shape returned by POST /api/slots/:slotId/bank-transfer
+interface BankTransferInstructions {
+  reference: string;
+  amount: string;
+  currency: string;
+  escrowIban: string;
+  propertyTitle: string;
+}
+
+// Shape returned by GET /api/slots/:slotId/payment-summary
+interface SlotPaymentSummary {
+  slot: CoOwnerSlot;
+  reservation: PropertyReservation;
+  property: Property;
+  amount: string;
+}
+
+const failedChargeStatuses = ["FAILED", "DECLINED", "CANCELLED"];
 
 export default function Payment() {
   const [, setLocation] = useLocation();
   const [isProcessing, setIsProcessing] = useState(false);
   const [paymentStatus, setPaymentStatus] = useState<"idle" | "processing" | "success" | "error">("idle");
-  const [tapLoaded, setTapLoaded] = useState(false);
+  const [transferInstructions, setTransferInstructions] = useState<BankTransferInstructions | null>(null);
+  const [isRequestingTransfer, setIsRequestingTransfer] = useState(false);
+  const { toast } = useToast();
+
+  // Payments are always for one reservation slot (?slotId=)
+  const searchParams = new URLSearchParams(window.location.search);
+  const slotId = searchParams.get("slotId");
+  // The hosted checkout sends the investor back here with the charge ID
+  const returnedChargeId = searchParams.get("tap_id");
 
-  const { data: pilotProperty } = useQuery<Property>({
-    queryKey: ["/api/properties/pilot"],
+  const { data: summary, error: summaryError } = useQuery<SlotPaymentSummary>({
+    queryKey: ["/api/slots", slotId, "payment-summary"],
+    enabled: !!slotId,
+    retry: false,
   });
+  const property = summary?.property;
 
-  useEffect(() => {
-    const script = document.createElement("script");
-    script.src = "https://goSellJSLib.b-cdn.net/v2.0.0/js/gosell.js";
-    script.async = true;
-    script.onload = () => {
-      setTapLoaded(true);
-    };
-    document.body.appendChild(script);
-
-    return () => {
-      document.body.removeChild(script);
-    };
-  }, []);
+  // Poll until the gateway has settled the charge
+  const { data: returnedCharge } = useQuery<ChargeStatusResponse>({
+    queryKey: ["/api/tap-payment/charges", returnedChargeId],
+    enabled: !!returnedChargeId,
+    refetchInterval: (query) => (query.state.data?.status === "INITIATED" ? 2000 : false),
+  });
+
+  const shareAmount = summary ? Number(summary.amount) : 0;
+  const sharePercent = summary ? Number(summary.slot.sharePercentage) : 0;
+  const alreadyPaid = summary?.slot.paymentStatus === "paid";
+  const formatAed = (value: number) =>
+    value.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
 
   useEffect(() => {
-    if (tapLoaded && pilotProperty) {
-      initializeTapPayment();
+    if (!returnedCharge) return;
+
+    if (returnedCharge.status === "CAPTURED") {
+      setPaymentStatus("success");
+      const timer = setTimeout(() => {
+        setLocation("/dashboard");
+      }, 3000);
+      return () => clearTimeout(timer);
+    }
+    if (failedChargeStatuses.includes(returnedCharge.status)) {
+      setPaymentStatus("error");
+    } else {
+      setPaymentStatus("processing");
     }
-  }, [tapLoaded, pilotProperty]);
+  }, [returnedCharge, setLocation]);
 
-  const initializeTapPayment = () => {
-    if (!(window as any).goSell || !pilotProperty) return;
+  const handlePayNow = async () => {
+    if (!summary) return;
 
-    const investorData = JSON.parse(sessionStorage.getItem("investorData") || "{}");
+    setIsProcessing(true);
+    setPaymentStatus("processing");
 
-    if (!investorData.id) {
-      console.error("No investor data found in session");
-      return;
-    }
+    try {
+      // The server prices the charge from the slot share
+      const response = await apiRequest("POST", "/api/tap-payment/create-charge", {
+        slotId: summary.slot.id,
+      });
+      const { redirectUrl } = await response.json();
+      if (!redirectUrl) {
+        throw new Error("Payment gateway did not return a checkout page");
+      }
 
-    (window as any).goSell.config({
-      gateway: {
-        publicKey: import.meta.env.VITE_TAP_PUBLIC_KEY,
-        language: "en",
-        contactInfo: true,
-        supportedCurrencies: "AED",
-        supportedPaymentMethods: "all",
-        saveCardOption: false,
-        customerCards: false,
-        notifications: "standard",
-        callback: async (response: any) => {
-          if (response.status === "CAPTURED") {
-            try {
-              if (!investorData.id || !pilotProperty?.id) {
-                console.error("Missing investor or property ID for webhook");
-                setPaymentStatus("error");
-                return;
-              }
-
-              const webhookPayload = {
-                id: response.id,
-                status: "CAPTURED",
-                amount: response.amount,
-                source: response.source,
-                metadata: {
-                  investorId: investorData.id,
-                  propertyId: pilotProperty.id,
-                },
-              };
-
-              await fetch("/api/tap-payment/webhook", {
-                method: "POST",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify(webhookPayload),
-              });
-
-              setPaymentStatus("success");
-              setTimeout(() => {
-                setLocation("/dashboard");
-              }, 3000);
-            } catch (error) {
-              console.error("Webhook processing error:", error);
-              setPaymentStatus("success");
-              setTimeout(() => {
-                setLocation("/dashboard");
-              }, 3000);
-            }
-          } else if (response.status === "FAILED") {
-            setPaymentStatus("error");
-          }
-        },
-        onClose: () => {
-          console.log("Payment popup closed");
-        },
-      },
-      customer: {
-        first_name: investorData.fullName?.split(" ")[0] || "Investor",
-        last_name: investorData.fullName?.split(" ").slice(1).join(" ") || "Name",
-        email: investorData.email || "investor@example.com",
-        phone: {
-          country_code: "+971",
-          number: investorData.phone?.replace(/\D/g, "").slice(-9) || "501234567",
-        },
-      },
-      order: {
-        amount: 225000,
-        currency: "AED",
-        items: [
-          {
-            id: 1,
-            name: "25% Fraction - 1BR JVC Apartment",
-            description: "Fractional co-ownership of off-plan apartment in Dubai JVC",
-            quantity: 1,
-            amount_per_unit: 225000,
-            total_amount: 225000,
-          },
-        ],
-      },
-      transaction: {
-        mode: "charge",
-        charge: {
-          saveCard: false,
-          threeDSecure: true,
-          description: "FOPD Fractional Ownership Purchase",
-          statement_descriptor: "FOPD Fraction",
-          reference: {
-            transaction: "txn_" + Date.now(),
-            order: "ord_" + Date.now(),
-          },
-          receipt: {
-            email: true,
-            sms: true,
-          },
-          redirect: window.location.origin + "/dashboard",
-          post: null,
-        },
-      },
-    });
+      // Card details are collected on the gateway's hosted checkout
+      window.location.href = redirectUrl;
+    } catch (error) {
+      console.error("Payment creation error:", error);
+      setIsProcessing(false);
+      setPaymentStatus("error");
+    }
   };
 
-  const handlePayNow = () => {
-    if ((window as any).goSell) {
-      setIsProcessing(true);
-      setPaymentStatus("processing");
-      (window as any).goSell.openLightBox();
+  const handleBankTransfer = async () => {
+    if (!summary) return;
+
+    setIsRequestingTransfer(true);
+    try {
+      const response = await apiRequest("POST", `/api/slots/${summary.slot.id}/bank-transfer`);
+      setTransferInstructions(await response.json());
+    } catch (error: any) {
+      toast({
+        title: "Bank Transfer Unavailable",
+        description: error.message.replace(/^\d+:\s*/, ""),
+        variant: "destructive",
+      });
+    } finally {
+      setIsRequestingTransfer(false);
     }
   };
 
+  const copyToClipboard = async (value: string, label: string) => {
+    await navigator.clipboard.writeText(value);
+    toast({ title: `${label} copied` });
+  };
+
   return (
     <div className="min-h-screen bg-background">
       <header className="sticky top-0 z-50 w-full border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
@@ -174,9 +154,38 @@ export default function Payment() {
       <main className="container py-12 max-w-4xl">
         <div className="mb-8">
           <h1 className="text-4xl font-bold font-serif mb-2">Complete Your Purchase</h1>
-          <p className="text-muted-foreground">Secure your 25% fraction of the Dubai apartment</p>
+          <p className="text-muted-foreground">
+            {property
+              ? `Pay for your ${sharePercent}% share of ${property.title}`
+              : slotId && !summaryError
+              ? "Loading property details..."
+              : "Open payment from one of your reservations"}
+          </p>
         </div>
 
+        {(!slotId || summaryError) && (
+          <Alert className="mb-8" variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription className="flex items-center justify-between gap-4">
+              <span>
+                {summaryError
+                  ? summaryError.message.replace(/^\d+:\s*/, "")
+                  : "No reservation share selected."}
+              </span>
+              <Button variant="outline" size="sm" onClick={() => setLocation("/dashboard")} data-testid="button-back-to-dashboard">
+                Back to Dashboard
+              </Button>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {alreadyPaid && paymentStatus !== "success" && (
+          <Alert className="mb-8">
+            <Check className="h-4 w-4" />
+            <AlertDescription>Your share of this reservation is already paid.</AlertDescription>
+          </Alert>
+        )}
+
         {paymentStatus === "success" && (
           <Alert className="mb-8 border-green-500 bg-green-50 dark:bg-green-950">
             <Check className="h-4 w-4 text-green-600" />
@@ -206,19 +215,19 @@ export default function Payment() {
                 <div className="space-y-4">
                   <div className="flex items-start gap-4 p-4 rounded-lg border">
                     <div className="flex-1">
-                      <h3 className="font-semibold mb-1">1BR JVC Apartment - 25% Fraction</h3>
-                      <p className="text-sm text-muted-foreground mb-2">Jumeirah Village Circle, Dubai</p>
+                      <h3 className="font-semibold mb-1">{property?.title} - {sharePercent}% Share</h3>
+                      <p className="text-sm text-muted-foreground mb-2">{property?.location}</p>
                       <div className="flex gap-4 text-sm">
-                        <span className="text-muted-foreground">Fraction Size: <strong className="text-foreground">25%</strong></span>
-                        <span className="text-muted-foreground">Property Value: <strong className="text-foreground tabular-nums">AED 900,000</strong></span>
+                        <span className="text-muted-foreground">Your Share: <strong className="text-foreground">{sharePercent}%</strong></span>
+                        <span className="text-muted-foreground">Property Value: <strong className="text-foreground tabular-nums">AED {Number(property?.totalPrice || 0).toLocaleString()}</strong></span>
                       </div>
                     </div>
                   </div>
 
                   <div className="space-y-3 pt-4 border-t">
                     <div className="flex justify-between">
-                      <span className="text-muted-foreground">Fraction Purchase (25%)</span>
-                      <span className="font-medium tabular-nums">AED 225,000.00</span>
+                      <span className="text-muted-foreground">Share Purchase ({sharePercent}%)</span>
+                      <span className="font-medium tabular-nums">AED {formatAed(shareAmount)}</span>
                     </div>
                     <div className="flex justify-between">
                       <span className="text-muted-foreground">Processing Fee</span>
@@ -230,7 +239,7 @@ export default function Payment() {
                     </div>
                     <div className="border-t pt-3 flex justify-between">
                       <span className="font-semibold text-lg">Total Due Today</span>
-                      <span className="text-3xl font-bold tabular-nums text-primary">AED 225,000.00</span>
+                      <span className="text-3xl font-bold tabular-nums text-primary">AED {formatAed(shareAmount)}</span>
                     </div>
                   </div>
                 </div>
@@ -240,15 +249,10 @@ export default function Payment() {
                     size="lg"
                     className="w-full text-lg h-14"
                     onClick={handlePayNow}
-                    disabled={!tapLoaded || isProcessing || paymentStatus === "success"}
+                    disabled={!summary || alreadyPaid || isProcessing || paymentStatus === "processing" || paymentStatus === "success"}
                     data-testid="button-pay-now"
                   >
-                    {!tapLoaded ? (
-                      <>
-                        <div className="animate-spin w-5 h-5 border-2 border-primary-foreground border-t-transparent rounded-full mr-2" />
-                        Loading Payment System...
-                      </>
-                    ) : isProcessing ? (
+                    {isProcessing || paymentStatus === "processing" ? (
                       <>
                         <div className="animate-spin w-5 h-5 border-2 border-primary-foreground border-t-transparent rounded-full mr-2" />
                         Processing...
@@ -271,6 +275,61 @@ export default function Payment() {
                 </div>
               </CardContent>
             </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-xl font-serif flex items-center gap-2">
+                  <Landmark className="h-5 w-5" />
+                  Pay by Bank Transfer
+                </CardTitle>
+                <CardDescription>Wire your share directly to the developer's escrow account</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {transferInstructions ? (
+                  <>
+                    <div className="space-y-3">
+                      {[
+                        { label: "Escrow IBAN", value: transferInstructions.escrowIban, testId: "iban" },
+                        { label: "Payment Reference", value: transferInstructions.reference, testId: "reference" },
+                        { label: "Amount", value: `${transferInstructions.currency} ${formatAed(Number(transferInstructions.amount))}`, testId: "amount" },
+                      ].map(item => (
+                        <div key={item.label} className="flex items-center justify-between gap-3 p-3 rounded border bg-muted/50">
+                          <div>
+                            <div className="text-xs text-muted-foreground">{item.label}</div>
+                            <div className="font-mono text-sm break-all" data-testid={`text-transfer-${item.testId}`}>{item.value}</div>
+                          </div>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            onClick={() => copyToClipboard(item.value, item.label)}
+                            data-testid={`button-copy-transfer-${item.testId}`}
+                          >
+                            <Copy className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+                    <Alert>
+                      <AlertCircle className="h-4 w-4" />
+                      <AlertDescription>
+                        Quote the payment reference exactly and send the full amount in one transfer. Your share is confirmed once the transfer appears on the escrow statement, usually within 1-2 business days.
+                      </AlertDescription>
+                    </Alert>
+                  </>
+                ) : (
+                  <Button
+                    variant="outline"
+                    className="w-full"
+                    onClick={handleBankTransfer}
+                    disabled={!summary || alreadyPaid || isRequestingTransfer || paymentStatus === "success"}
+                    data-testid="button-bank-transfer"
+                  >
+                    <Landmark className="mr-2 h-4 w-4" />
+                    {isRequestingTransfer ? "Preparing..." : "Get Transfer Details"}
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
           </div>
 
           <div className="space-y-6">
@@ -297,7 +356,7 @@ export default function Payment() {
                 <div className="pt-4 border-t">
                   <h4 className="font-semibold text-sm mb-2">Developer Escrow IBAN</h4>
                   <div className="font-mono text-xs bg-muted p-3 rounded border break-all">
-                    AE07 0331 2345 6789 0123 456
+                    {property?.escrowIban || "—"}
                   </div>
                 </div>
               </CardContent>
@@ -333,7 +392,7 @@ export default function Payment() {
                     </div>
                     <div className="flex-1">
                       <p className="text-sm font-medium">Title Deed Registration</p>
-                      <p className="text-xs text-muted-foreground">When all 4 fractions sold</p>
+                      <p className="text-xs text-muted-foreground">When every co-owner has paid</p>
                     </div>
                   </div>
                 </div>
@@ -0,0 +1,291 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Building2, MapPin, BedDouble, Bath, Maximize, ChevronLeft, ChevronRight, Search } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import type { Property } from "@shared/schema";
+import buildingImage from "@assets/generated_images/JVC_building_exterior_view_c11476b3.png";
+
+interface PropertyListResponse {
+  properties: Property[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+const PAGE_SIZE = 9;
+
+// Price bands on total property value (AED)
+const priceBands: Record<string, { label: string; min?: number; max?: number }> = {
+  any: { label: "Any price" },
+  under_1m: { label: "Under AED 1M", max: 1_000_000 },
+  "1m_2m": { label: "AED 1M – 2M", min: 1_000_000, max: 2_000_000 },
+  "2m_5m": { label: "AED 2M – 5M", min: 2_000_000, max: 5_000_000 },
+  over_5m: { label: "Over AED 5M", min: 5_000_000 },
+};
+
+export default function Properties() {
+  const [locationInput, setLocationInput] = useState("");
+  const [location, setLocation] = useState("");
+  const [priceBand, setPriceBand] = useState("any");
+  const [bedrooms, setBedrooms] = useState("any");
+  const [fundingStatus, setFundingStatus] = useState("any");
+  const [page, setPage] = useState(1);
+
+  const params = new URLSearchParams({ page: String(page), pageSize: String(PAGE_SIZE) });
+  if (location) params.set("location", location);
+  if (priceBands[priceBand].min !== undefined) params.set("minPrice", String(priceBands[priceBand].min));
+  if (priceBands[priceBand].max !== undefined) params.set("maxPrice", String(priceBands[priceBand].max));
+  if (bedrooms !== "any") params.set("bedrooms", bedrooms);
+  if (fundingStatus !== "any") params.set("fundingStatus", fundingStatus);
+
+  const { data, isLoading } = useQuery<PropertyListResponse>({
+    queryKey: [`/api/properties?${params.toString()}`],
+  });
+
+  const totalPages = data ? Math.max(1, Math.ceil(data.total / data.pageSize)) : 1;
+
+  // Any filter change starts again from the first page
+  const updateFilter = (setter: (value: string) => void) => (value: string) => {
+    setter(value);
+    setPage(1);
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setLocation(locationInput.trim());
+    setPage(1);
+  };
+
+  const handleReset = () => {
+    setLocationInput("");
+    setLocation("");
+    setPriceBand("any");
+    setBedrooms("any");
+    setFundingStatus("any");
+    setPage(1);
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-50 w-full border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
+        <div className="container flex h-20 items-center justify-between">
+          <Link href="/" className="flex items-center gap-2">
+            <Building2 className="h-8 w-8 text-primary" />
+            <span className="text-2xl font-bold font-serif">FOPD</span>
+          </Link>
+          <Button variant="ghost" size="sm" asChild data-testid="button-login">
+            <a href="/dashboard">Investor Login</a>
+          </Button>
+        </div>
+      </header>
+
+      <main className="container py-12">
+        <div className="mb-8">
+          <h1 className="text-4xl font-bold font-serif mb-2">Browse Properties</h1>
+          <p className="text-muted-foreground">DLD-compliant off-plan units open for fractional co-ownership</p>
+        </div>
+
+        <Card className="mb-8">
+          <CardContent className="pt-6">
+            <form onSubmit={handleSearch} className="grid gap-4 md:grid-cols-5 items-end">
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="filter-location">Location</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="filter-location"
+                    placeholder="e.g. Jumeirah Village Circle"
+                    value={locationInput}
+                    onChange={(e) => setLocationInput(e.target.value)}
+                    data-testid="input-filter-location"
+                  />
+                  <Button type="submit" size="icon" data-testid="button-search-location">
+                    <Search className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Price</Label>
+                <Select value={priceBand} onValueChange={updateFilter(setPriceBand)}>
+                  <SelectTrigger data-testid="select-filter-price">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(priceBands).map(([value, band]) => (
+                      <SelectItem key={value} value={value}>{band.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Bedrooms</Label>
+                <Select value={bedrooms} onValueChange={updateFilter(setBedrooms)}>
+                  <SelectTrigger data-testid="select-filter-bedrooms">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="any">Any</SelectItem>
+                    <SelectItem value="0">Studio</SelectItem>
+                    <SelectItem value="1">1 Bedroom</SelectItem>
+                    <SelectItem value="2">2 Bedrooms</SelectItem>
+                    <SelectItem value="3">3 Bedrooms</SelectItem>
+                    <SelectItem value="4">4 Bedrooms</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Funding</Label>
+                <Select value={fundingStatus} onValueChange={updateFilter(setFundingStatus)}>
+                  <SelectTrigger data-testid="select-filter-funding">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="any">All</SelectItem>
+                    <SelectItem value="available">Shares available</SelectItem>
+                    <SelectItem value="fully_funded">Fully funded</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+
+        {isLoading ? (
+          <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {Array.from({ length: 3 }).map((_, i) => (
+              <Skeleton key={i} className="h-96 w-full" />
+            ))}
+          </div>
+        ) : !data || data.properties.length === 0 ? (
+          <Card>
+            <CardContent className="py-16 text-center">
+              <p className="text-muted-foreground mb-4">No properties match your filters</p>
+              <Button variant="outline" onClick={handleReset} data-testid="button-reset-filters">
+                Clear Filters
+              </Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {data.properties.map((property) => {
+                const isFullyFunded = property.fractionsSold >= property.totalFractions;
+                const fundedPercent = (property.fractionsSold / property.totalFractions) * 100;
+
+                return (
+                  <Card key={property.id} className="overflow-hidden flex flex-col" data-testid={`card-property-${property.id}`}>
+                    <div className="relative aspect-[4/3]">
+                      <img src={buildingImage} alt={property.title} className="w-full h-full object-cover" />
+                      <Badge
+                        className={`absolute top-3 right-3 ${isFullyFunded ? "bg-green-600 text-white" : "bg-primary text-primary-foreground"}`}
+                      >
+                        {isFullyFunded ? "Fully Funded" : `${property.totalFractions - property.fractionsSold} of ${property.totalFractions} available`}
+                      </Badge>
+                    </div>
+                    <CardHeader>
+                      <CardTitle className="font-serif">{property.title}</CardTitle>
+                      <p className="text-sm text-muted-foreground flex items-center gap-1">
+                        <MapPin className="h-4 w-4" />
+                        {property.location}
+                      </p>
+                    </CardHeader>
+                    <CardContent className="space-y-4 flex-1">
+                      <div className="flex gap-4 text-sm text-muted-foreground">
+                        {property.bedrooms !== null && (
+                          <span className="flex items-center gap-1">
+                            <BedDouble className="h-4 w-4" />
+                            {property.bedrooms === 0 ? "Studio" : property.bedrooms}
+                          </span>
+                        )}
+                        {property.bathrooms !== null && (
+                          <span className="flex items-center gap-1">
+                            <Bath className="h-4 w-4" />
+                            {property.bathrooms}
+                          </span>
+                        )}
+                        {property.area !== null && (
+                          <span className="flex items-center gap-1">
+                            <Maximize className="h-4 w-4" />
+                            {property.area} sq ft
+                          </span>
+                        )}
+                      </div>
+                      <div className="flex justify-between items-baseline">
+                        <span className="text-sm text-muted-foreground">Property Value</span>
+                        <span className="font-semibold tabular-nums">AED {Number(property.totalPrice).toLocaleString()}</span>
+                      </div>
+                      <div className="flex justify-between items-baseline">
+                        <span className="text-sm text-muted-foreground">Per Fraction</span>
+                        <span className="text-xl font-bold tabular-nums text-primary">AED {Number(property.pricePerFraction).toLocaleString()}</span>
+                      </div>
+                      <div>
+                        <div className="flex justify-between text-xs text-muted-foreground mb-1">
+                          <span>Escrow Funding</span>
+                          <span className="tabular-nums">{property.fractionsSold}/{property.totalFractions}</span>
+                        </div>
+                        <Progress value={fundedPercent} className="h-2" />
+                      </div>
+                    </CardContent>
+                    <CardFooter className="gap-2">
+                      <Button variant="outline" className="flex-1" asChild data-testid={`button-view-property-${property.id}`}>
+                        <Link href={`/properties/${property.id}`}>Details</Link>
+                      </Button>
+                      {isFullyFunded ? (
+                        <Button className="flex-1" disabled data-testid={`button-reserve-property-${property.id}`}>
+                          Fully Funded
+                        </Button>
+                      ) : (
+                        <Button className="flex-1" asChild data-testid={`button-reserve-property-${property.id}`}>
+                          <Link href={`/properties/${property.id}/express-interest`}>Reserve</Link>
+                        </Button>
+                      )}
+                    </CardFooter>
+                  </Card>
+                );
+              })}
+            </div>
+
+            <div className="flex items-center justify-between mt-8">
+              <p className="text-sm text-muted-foreground" data-testid="text-results-count">
+                {data.total} {data.total === 1 ? "property" : "properties"}
+              </p>
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={page <= 1}
+                  onClick={() => setPage(page - 1)}
+                  data-testid="button-prev-page"
+                >
+                  <ChevronLeft className="h-4 w-4 mr-1" />
+                  Previous
+                </Button>
+                <span className="text-sm tabular-nums">Page {page} of {totalPages}</span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={page >= totalPages}
+                  onClick={() => setPage(page + 1)}
+                  data-testid="button-next-page"
+                >
+                  Next
+                  <ChevronRight className="h-4 w-4 ml-1" />
+                </Button>
+              </div>
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+import { useParams, Link } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Building2, MapPin, ArrowLeft, ChevronRight, Calendar } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Skeleton } from "@/components/ui/skeleton";
+import { InvestmentCalculator } from "@/components/investment-calculator";
+import { PropertyGallery, type PropertyMediaItem } from "@/components/property-gallery";
+import { ConstructionTimeline } from "@/components/construction-timeline";
+import type { Property } from "@shared/schema";
+import buildingImage from "@assets/generated_images/JVC_building_exterior_view_c11476b3.png";
+
+export default function PropertyDetails() {
+  const { propertyId } = useParams<{ propertyId: string }>();
+
+  const { data: property, isLoading, error } = useQuery<Property>({
+    queryKey: ["/api/properties", propertyId],
+    enabled: !!propertyId,
+  });
+
+  const { data: media = [] } = useQuery<PropertyMediaItem[]>({
+    queryKey: ["/api/properties", propertyId, "media"],
+    enabled: !!property,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="container py-12 space-y-6">
+        <Skeleton className="h-10 w-1/2" />
+        <Skeleton className="h-96 w-full" />
+      </div>
+    );
+  }
+
+  if (error || !property) {
+    return (
+      <div className="container py-24 text-center">
+        <h1 className="text-2xl font-bold mb-4">Property not found</h1>
+        <Button asChild data-testid="button-back-to-properties">
+          <Link href="/properties">Browse Properties</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  const isFullyFunded = property.fractionsSold >= property.totalFractions;
+  const fundedPercent = (property.fractionsSold / property.totalFractions) * 100;
+  const fractionPercent = 100 / property.totalFractions;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-50 w-full border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
+        <div className="container flex h-20 items-center justify-between">
+          <Link href="/" className="flex items-center gap-2">
+            <Building2 className="h-8 w-8 text-primary" />
+            <span className="text-2xl font-bold font-serif">FOPD</span>
+          </Link>
+          <Button variant="ghost" size="sm" asChild data-testid="button-login">
+            <a href="/dashboard">Investor Login</a>
+          </Button>
+        </div>
+      </header>
+
+      <main className="container py-12 max-w-6xl">
+        <Button variant="ghost" size="sm" className="mb-6" asChild data-testid="button-back">
+          <Link href="/properties">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            All Properties
+          </Link>
+        </Button>
+
+        <div className="mb-8">
+          <div className="flex flex-wrap items-center gap-3 mb-2">
+            <h1 className="text-4xl font-bold font-serif" data-testid="text-property-title">{property.title}</h1>
+            {isFullyFunded && <Badge className="bg-green-600 text-white">Fully Funded</Badge>}
+          </div>
+          <p className="text-muted-foreground flex items-center gap-1">
+            <MapPin className="h-4 w-4" />
+            {property.location}
+          </p>
+        </div>
+
+        <div className="grid lg:grid-cols-3 gap-8">
+          <div className="lg:col-span-2 space-y-8">
+            <Card className="overflow-hidden">
+              <CardContent className="pt-6 space-y-6">
+                <PropertyGallery
+                  media={media}
+                  title={property.title}
+                  fallbackImages={[{ src: buildingImage, alt: property.title }]}
+                />
+                <div className="grid grid-cols-3 gap-4">
+                  <div>
+                    <div className="text-2xl font-bold tabular-nums">{property.bedrooms === 0 ? "Studio" : property.bedrooms ?? "—"}</div>
+                    <div className="text-sm text-muted-foreground">Bedrooms</div>
+                  </div>
+                  <div>
+                    <div className="text-2xl font-bold tabular-nums">{property.bathrooms ?? "—"}</div>
+                    <div className="text-sm text-muted-foreground">Bathrooms</div>
+                  </div>
+                  <div>
+                    <div className="text-2xl font-bold tabular-nums">{property.area ?? "—"}</div>
+                    <div className="text-sm text-muted-foreground">sq ft</div>
+                  </div>
+                </div>
+                {property.description && (
+                  <p className="text-muted-foreground leading-relaxed">{property.description}</p>
+                )}
+                {property.handoverDate && (
+                  <p className="text-sm flex items-center gap-2">
+                    <Calendar className="h-4 w-4 text-muted-foreground" />
+                    Expected handover: {new Date(property.handoverDate).toLocaleDateString()}
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+
+            <InvestmentCalculator propertyPrice={Number(property.totalPrice)} />
+
+            <ConstructionTimeline propertyId={property.id} propertyTitle={property.title} compact />
+          </div>
+
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="font-serif">Co-Ownership</CardTitle>
+                <CardDescription>Up to {property.totalFractions} co-owners on the title deed</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex justify-between items-baseline border-b pb-2">
+                  <span className="text-muted-foreground">Total Property Value</span>
+                  <span className="font-bold tabular-nums">AED {Number(property.totalPrice).toLocaleString()}</span>
+                </div>
+                <div className="flex justify-between items-baseline border-b pb-2">
+                  <span className="text-muted-foreground">Price per Fraction ({fractionPercent.toFixed(0)}%)</span>
+                  <span className="text-xl font-bold tabular-nums text-primary">AED {Number(property.pricePerFraction).toLocaleString()}</span>
+                </div>
+                <div>
+                  <div className="flex justify-between text-sm mb-2">
+                    <span className="text-muted-foreground">Escrow Funding Progress</span>
+                    <span className="font-semibold tabular-nums">{property.fractionsSold}/{property.totalFractions} Funded</span>
+                  </div>
+                  <Progress value={fundedPercent} className="h-3" />
+                </div>
+                {isFullyFunded ? (
+                  <Button size="lg" className="w-full" disabled data-testid="button-reserve-property">
+                    Fully Funded
+                  </Button>
+                ) : (
+                  <Button size="lg" className="w-full" asChild data-testid="button-reserve-property">
+                    <Link href={`/properties/${property.id}/express-interest`}>
+                      Reserve Your Share
+                      <ChevronRight className="ml-2 h-5 w-5" />
+                    </Link>
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 import { useState } from "react";
 import { useParams, useLocation } from "wouter";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { Building2, ArrowLeft, Mail, Copy, CheckCircle, AlertCircle, Calendar, Users } from "lucide-react";
+import { Building2, ArrowLeft, Mail, Copy, CheckCircle, AlertCircle, Calendar, Users, CreditCard } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
@@ -25,6 +25,8 @@ interface Slot {
   invitationStatus: 'reserved' | 'invited' | 'accepted' | 'declined';
   invitationEmail?: string;
   sharePercentage: string;
+  paymentStatus: 'unpaid' | 'pending' | 'paid';
+  paidAt?: string;
 }
 
 interface Reservation {
@@ -179,6 +181,12 @@ export default function ReservationDetails() {
 
   const { reservation, property, slots, invitations = [] } = data;
 
+  // Signed-in investor's own slot, if they hold one in this reservation
+  const investorData = JSON.parse(sessionStorage.getItem("investorData") || "{}");
+  const mySlot = slots.find(slot => slot.investorId && slot.investorId === investorData.id);
+  const isPaymentOpen = reservation.reservationStatus === 'all_signed' || reservation.reservationStatus === 'payment_pending';
+  const paidSlots = slots.filter(slot => slot.paymentStatus === 'paid').length;
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'draft':
@@ -191,6 +199,8 @@ export default function ReservationDetails() {
         return 'bg-orange-500';
       case 'payment_complete':
         return 'bg-green-600';
+      case 'closed':
+        return 'bg-muted';
       case 'cancelled':
         return 'bg-red-500';
       default:
@@ -213,6 +223,7 @@ export default function ReservationDetails() {
       case 'payment_pending':
         return 4;
       case 'payment_complete':
+      case 'closed':
         return 5;
       default:
         return 1;
@@ -507,14 +518,29 @@ export default function ReservationDetails() {
             )}
             {reservation.reservationStatus === 'all_signed' && (
               <p className="text-sm text-muted-foreground">
-                All documents have been signed! Proceed to payment to complete the purchase.
+                All documents have been signed! Each co-owner now pays for their own share to complete the purchase.
               </p>
             )}
             {reservation.reservationStatus === 'payment_pending' && (
               <p className="text-sm text-muted-foreground">
-                Complete the payment to the escrow account to finalize your co-ownership.
+                {paidSlots} of {slots.length} co-owners have paid. The purchase completes once every share is paid into escrow.
               </p>
             )}
+            {isPaymentOpen && mySlot && (
+              <div className="mt-4 flex flex-wrap items-center gap-3">
+                {mySlot.paymentStatus === 'paid' ? (
+                  <Badge variant="outline" className="gap-1" data-testid="badge-my-share-paid">
+                    <CheckCircle className="h-3 w-3" />
+                    Your {Number(mySlot.sharePercentage)}% share is paid
+                  </Badge>
+                ) : (
+                  <Button onClick={() => navigate(`/payment?slotId=${mySlot.id}`)} data-testid="button-pay-my-share">
+                    <CreditCard className="h-4 w-4 mr-2" />
+                    Pay My Share ({Number(mySlot.sharePercentage)}%)
+                  </Button>
+                )}
+              </div>
+            )}
             {reservation.reservationStatus === 'payment_complete' && (
               <div className="flex items-start gap-3">
                 <CheckCircle className="h-5 w-5 text-green-600 dark:text-green-400 mt-0.5" />
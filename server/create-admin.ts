@@ -0,0 +1,40 @@
+import { storage } from "./storage";
+import { insertAdminUserSchema } from "@shared/schema";
+
+/**
+ * Create an admin user from the command line
+ * Usage: npm run admin:create -- --email admin@fopd.ae --name "Jane Admin" --password "<secret>" [--role compliance]
+ * The password may also be supplied via ADMIN_PASSWORD to keep it out of shell history.
+ * The first admin defaults to super_admin; later admins default to read_only.
+ */
+function getArg(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index !== -1 ? process.argv[index + 1] : undefined;
+}
+
+async function createAdmin() {
+  const existingAdmins = await storage.getAllAdminUsers();
+  const defaultRole = existingAdmins.length === 0 ? "super_admin" : "read_only";
+
+  const data = insertAdminUserSchema.parse({
+    email: getArg("email") || process.env.ADMIN_EMAIL,
+    fullName: getArg("name") || process.env.ADMIN_NAME,
+    password: getArg("password") || process.env.ADMIN_PASSWORD,
+    role: getArg("role") || process.env.ADMIN_ROLE || defaultRole,
+  });
+
+  const existing = await storage.getAdminUserByEmail(data.email.toLowerCase());
+  if (existing) {
+    console.error(`Admin user already exists: ${existing.email}`);
+    process.exit(1);
+  }
+
+  const admin = await storage.createAdminUser(data);
+  console.log(`✓ Admin user created: ${admin.email} (role: ${admin.role}, ID: ${admin.id})`);
+  process.exit(0);
+}
+
+createAdmin().catch((error) => {
+  console.error("Error creating admin user:", error.message);
+  process.exit(1);
+});
@@ -3,7 +3,7 @@ import session from "express-session";
 import connectPgSimple from "connect-pg-simple";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
-import type { Investor } from "@shared/schema";
+import type { Investor, AdminUser } from "@shared/schema";
 
 const app = express();
 const PgSession = connectPgSimple(session);
@@ -23,6 +23,8 @@ declare module 'express-session' {
   interface SessionData {
     investorId?: string;
     investorEmail?: string;
+    adminUserId?: string;
+    adminEmail?: string;
   }
 }
 
@@ -30,6 +32,7 @@ declare global {
   namespace Express {
     interface Request {
       investor?: Investor;
+      adminUser?: AdminUser;
     }
   }
 }
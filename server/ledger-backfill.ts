@@ -0,0 +1,22 @@
+import { storage } from "./storage";
+
+/**
+ * Post ledger entries for money movements recorded before the ledger existed
+ * Usage: npm run ledger:backfill
+ * Safe to run more than once; records that already have an entry are skipped.
+ */
+async function backfill() {
+  const { posted, skipped } = await storage.backfillLedger();
+  console.log(`✓ Ledger backfilled: ${posted} entries posted, ${skipped} already present`);
+
+  const trialBalance = await storage.getTrialBalance();
+  const debits = trialBalance.reduce((sum, row) => sum + Number(row.debits), 0);
+  const credits = trialBalance.reduce((sum, row) => sum + Number(row.credits), 0);
+  console.log(`  Trial balance: debits AED ${debits.toFixed(2)}, credits AED ${credits.toFixed(2)}`);
+  process.exit(0);
+}
+
+backfill().catch((error) => {
+  console.error("Error backfilling ledger:", error.message);
+  process.exit(1);
+});
@@ -0,0 +1,322 @@
+import crypto from "crypto";
+
+export type BankStatementFormat = "csv" | "camt053";
+
+// One credit on the escrow account
+export interface ParsedBankTransaction {
+  bookingDate: Date;
+  amount: number; // Positive, in the statement currency
+  currency: string;
+  reference: string | null; // Remittance information as sent by the payer
+  counterpartyName: string | null;
+  counterpartyIban: string | null;
+  bankReference: string | null; // The bank's own ID for the entry
+}
+
+export interface ParsedBankStatement {
+  format: BankStatementFormat;
+  accountIban: string | null;
+  statementId: string | null;
+  transactions: ParsedBankTransaction[];
+  skippedDebits: number;
+}
+
+export class BankStatementParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BankStatementParseError";
+  }
+}
+
+// No 0/O or 1/I so references survive being typed into a banking app
+const referenceAlphabet = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const referencePattern = /FOPD[\s-]?([A-HJ-NP-Z2-9]{8})(?![A-Z0-9])/;
+
+/**
+ * New bank transfer reference, e.g. FOPD-7KQ2M9XA
+ */
+export function generateTransferReference(): string {
+  const bytes = crypto.randomBytes(8);
+  let code = "";
+  for (let i = 0; i < bytes.length; i++) {
+    code += referenceAlphabet[bytes[i] % referenceAlphabet.length];
+  }
+  return `FOPD-${code}`;
+}
+
+/**
+ * Find a transfer reference in free-text remittance information.
+ * Banks often drop the hyphen or change the case, so both are tolerated.
+ */
+export function extractTransferReference(text: string | null): string | null {
+  if (!text) {
+    return null;
+  }
+  const match = text.toUpperCase().match(referencePattern);
+  return match ? `FOPD-${match[1]}` : null;
+}
+
+/**
+ * Stable identity of a statement line, so importing the same statement twice adds nothing
+ */
+export function fingerprintTransaction(accountIban: string | null, transaction: ParsedBankTransaction): string {
+  return crypto
+    .createHash("sha256")
+    .update([
+      accountIban || "",
+      transaction.bookingDate.toISOString().slice(0, 10),
+      transaction.amount.toFixed(2),
+      transaction.currency,
+      transaction.reference || "",
+      transaction.bankReference || "",
+    ].join("|"))
+    .digest("hex");
+}
+
+function parseAmount(value: string): number {
+  // Accepts "1,250,000.00", "1250000" and "(500.00)"
+  const negative = /^\(.*\)$/.test(value.trim()) || value.trim().startsWith("-");
+  const amount = Number(value.replace(/[^0-9.]/g, ""));
+  return negative ? -amount : amount;
+}
+
+function parseDate(value: string): Date | null {
+  const trimmed = value.trim();
+  // ISO (2025-03-31 or 2025-03-31T10:00:00)
+  let match = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (match) {
+    return new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+  }
+  // UAE banks export day first (31/03/2025 or 31-03-2025)
+  match = trimmed.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+  if (match) {
+    return new Date(Date.UTC(Number(match[3]), Number(match[2]) - 1, Number(match[1])));
+  }
+  return null;
+}
+
+/**
+ * Split CSV text into rows, honouring quoted fields with commas, quotes and newlines
+ */
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(cell => cell.trim() !== ""));
+}
+
+// Header names used by the banks we receive statements from
+const csvColumns = {
+  date: ["booking date", "transaction date", "date", "value date", "posting date"],
+  amount: ["amount", "credit amount", "credit"],
+  debit: ["debit amount", "debit"],
+  currency: ["currency", "ccy"],
+  reference: ["remittance information", "payment details", "description", "narrative", "details", "reference"],
+  counterpartyName: ["counterparty", "counterparty name", "remitter", "payer", "ordering customer", "name"],
+  counterpartyIban: ["counterparty iban", "remitter iban", "payer iban", "account number"],
+  bankReference: ["bank reference", "transaction id", "transaction reference", "reference number"],
+};
+
+function findColumn(headers: string[], names: string[]): number {
+  for (const name of names) {
+    const index = headers.indexOf(name);
+    if (index !== -1) {
+      return index;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Parse a CSV export with a header row. Only credits are kept, and each needs the bank's reference.
+ */
+export function parseCsvStatement(text: string): ParsedBankStatement {
+  const rows = parseCsvRows(text.replace(/^\uFEFF/, ""));
+  if (rows.length < 2) {
+    throw new BankStatementParseError("The CSV file has no transactions");
+  }
+
+  const headers = rows[0].map(h => h.trim().toLowerCase());
+  const columns = {
+    date: findColumn(headers, csvColumns.date),
+    amount: findColumn(headers, csvColumns.amount),
+    debit: findColumn(headers, csvColumns.debit),
+    currency: findColumn(headers, csvColumns.currency),
+    reference: findColumn(headers, csvColumns.reference),
+    counterpartyName: findColumn(headers, csvColumns.counterpartyName),
+    counterpartyIban: findColumn(headers, csvColumns.counterpartyIban),
+    bankReference: findColumn(headers, csvColumns.bankReference),
+  };
+  if (columns.date === -1 || columns.amount === -1) {
+    throw new BankStatementParseError("The CSV file needs a date and an amount column");
+  }
+  // CSV exports carry no account IBAN, so two same-day transfers of the same amount and reference
+  // can only be told apart by the bank's own ID
+  if (columns.bankReference === -1) {
+    throw new BankStatementParseError("The CSV file needs a bank reference column");
+  }
+
+  const cell = (row: string[], index: number) => (index === -1 ? null : row[index]?.trim() || null);
+  const transactions: ParsedBankTransaction[] = [];
+  let skippedDebits = 0;
+
+  for (let i = 1; i < rows.length; i++) {
+    const row = rows[i];
+    const bookingDate = parseDate(row[columns.date] || "");
+    if (!bookingDate) {
+      throw new BankStatementParseError(`Row ${i + 1}: unrecognised date "${row[columns.date]}"`);
+    }
+
+    const amount = parseAmount(row[columns.amount] || "0");
+    const debit = columns.debit === -1 ? 0 : parseAmount(row[columns.debit] || "0");
+    if (!(amount > 0) || debit > 0) {
+      skippedDebits++;
+      continue;
+    }
+
+    const bankReference = cell(row, columns.bankReference);
+    if (!bankReference) {
+      throw new BankStatementParseError(`Row ${i + 1}: missing bank reference`);
+    }
+
+    transactions.push({
+      bookingDate,
+      amount: Math.round(amount * 100) / 100,
+      currency: cell(row, columns.currency)?.toUpperCase() || "AED",
+      reference: cell(row, columns.reference),
+      counterpartyName: cell(row, columns.counterpartyName),
+      counterpartyIban: cell(row, columns.counterpartyIban)?.replace(/\s/g, "") || null,
+      bankReference,
+    });
+  }
+
+  return { format: "csv", accountIban: null, statementId: null, transactions, skippedDebits };
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&")
+    .trim();
+}
+
+// camt files may or may not use a namespace prefix on every element
+function xmlElements(xml: string, name: string): string[] {
+  const pattern = new RegExp(`<(?:[\\w-]+:)?${name}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:[\\w-]+:)?${name}>`, "g");
+  const elements: string[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(xml)) !== null) {
+    elements.push(match[1]);
+  }
+  return elements;
+}
+
+function xmlText(xml: string | undefined, ...path: string[]): string | null {
+  let current: string | undefined = xml;
+  for (const name of path) {
+    if (current === undefined) {
+      return null;
+    }
+    current = xmlElements(current, name)[0];
+  }
+  return current === undefined ? null : decodeXml(current);
+}
+
+/**
+ * Parse an ISO 20022 camt.053 bank-to-customer statement. Only credit entries are kept.
+ */
+export function parseCamt053Statement(xml: string): ParsedBankStatement {
+  const statement = xmlElements(xml, "Stmt")[0];
+  if (!statement) {
+    throw new BankStatementParseError("Not a camt.053 statement: no <Stmt> element");
+  }
+
+  const accountIban = xmlText(statement, "Acct", "Id", "IBAN");
+  const statementId = xmlText(statement, "Id");
+  const transactions: ParsedBankTransaction[] = [];
+  let skippedDebits = 0;
+
+  const entries = xmlElements(statement, "Ntry");
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i];
+    if (xmlText(entry, "CdtDbtInd") !== "CRDT") {
+      skippedDebits++;
+      continue;
+    }
+
+    const amountMatch = entry.match(/<(?:[\w-]+:)?Amt(?=[\s>])(?:\s+Ccy="([A-Z]{3})")?[^>]*>([^<]+)</);
+    const dateText = xmlText(entry, "BookgDt", "Dt") || xmlText(entry, "BookgDt", "DtTm") || xmlText(entry, "ValDt", "Dt");
+    const bookingDate = dateText ? parseDate(dateText) : null;
+    if (!amountMatch || !bookingDate) {
+      throw new BankStatementParseError(`Entry ${i + 1}: missing amount or booking date`);
+    }
+
+    // Unstructured remittance text, falling back to a structured creditor reference
+    const details = xmlElements(entry, "TxDtls")[0] || entry;
+    const reference = xmlElements(details, "Ustrd").map(decodeXml).join(" ").trim()
+      || xmlText(details, "Strd", "CdtrRefInf", "Ref")
+      || xmlText(details, "Refs", "EndToEndId");
+
+    transactions.push({
+      bookingDate,
+      amount: Math.round(Number(amountMatch[2]) * 100) / 100,
+      currency: amountMatch[1] || "AED",
+      reference: reference || null,
+      counterpartyName: xmlText(details, "RltdPties", "Dbtr", "Nm"),
+      counterpartyIban: xmlText(details, "RltdPties", "DbtrAcct", "Id", "IBAN"),
+      bankReference: xmlText(entry, "AcctSvcrRef") || xmlText(entry, "NtryRef"),
+    });
+  }
+
+  return { format: "camt053", accountIban, statementId, transactions, skippedDebits };
+}
+
+/**
+ * Parse an uploaded statement, picking the format from its content
+ */
+export function parseBankStatement(content: string): ParsedBankStatement {
+  const trimmed = content.replace(/^\uFEFF/, "").trimStart();
+  if (trimmed.startsWith("<")) {
+    return parseCamt053Statement(trimmed);
+  }
+  return parseCsvStatement(trimmed);
+}
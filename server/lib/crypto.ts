@@ -74,3 +74,29 @@ export function generateSecureToken(length: number = 32): string {
 export function getServerTimestamp(): string {
   return new Date().toISOString();
 }
+
+/**
+ * Hash a password with scrypt and a random salt
+ * Format: scrypt:salt:hash
+ */
+export function hashPassword(password: string): string {
+  const salt = crypto.randomBytes(16).toString("hex");
+  const hash = crypto.scryptSync(password, salt, 64).toString("hex");
+  return `scrypt:${salt}:${hash}`;
+}
+
+/**
+ * Verify a password against a stored scrypt hash (timing-safe)
+ */
+export function verifyPassword(password: string, storedHash: string): boolean {
+  const parts = storedHash.split(":");
+  if (parts.length !== 3 || parts[0] !== "scrypt") {
+    return false;
+  }
+
+  const [, salt, hash] = parts;
+  const expected = Buffer.from(hash, "hex");
+  const actual = crypto.scryptSync(password, salt, expected.length);
+
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
@@ -0,0 +1,470 @@
+// Bilingual (English / Arabic) email templates
+
+export interface EmailTemplateData {
+  login_otp: { fullName: string; otp: string; expiresInMinutes: number };
+  signing_otp: { fullName: string; otp: string; documentName: string; expiresInMinutes: number };
+  voting_otp: { fullName: string; otp: string; proposalTitle: string; choice: "for" | "against" | "abstain"; expiresInMinutes: number };
+  co_owner_invitation: {
+    inviterName: string;
+    propertyTitle: string;
+    sharePercentage: string;
+    invitationLink: string;
+    expiresAt: Date;
+  };
+  unit_funded: { fullName: string; propertyTitle: string };
+  kyc_reminder: { fullName: string; dashboardUrl: string };
+  expense_approval_request: {
+    fullName: string;
+    propertyTitle: string;
+    vendor: string;
+    amount: string;
+    shareAmount: string;
+    approvalsRequired: number;
+    coOwnerCount: number;
+    dashboardUrl: string;
+  };
+  share_listed_rofr: {
+    fullName: string;
+    propertyTitle: string;
+    sharePercentage: string;
+    askingPrice: string;
+    rofrEndsAt: Date;
+    dashboardUrl: string;
+  };
+  share_offer_received: {
+    fullName: string;
+    propertyTitle: string;
+    sharePercentage: string;
+    amount: string;
+    dashboardUrl: string;
+  };
+  share_sale_agreed: {
+    fullName: string;
+    propertyTitle: string;
+    sharePercentage: string;
+    price: string;
+    dashboardUrl: string;
+  };
+  share_transfer_completed: {
+    fullName: string;
+    propertyTitle: string;
+    sharePercentage: string;
+    price: string;
+    sold: boolean;
+  };
+  governance_proposal_opened: {
+    fullName: string;
+    propertyTitle: string;
+    proposalTitle: string;
+    sharePercentage: string;
+    deadline: Date;
+    dashboardUrl: string;
+  };
+  governance_proposal_decided: {
+    fullName: string;
+    propertyTitle: string;
+    proposalTitle: string;
+    outcome: "passed" | "rejected" | "no_quorum";
+    sharesFor: string;
+    sharesAgainst: string;
+    sharesAbstained: string;
+  };
+  property_exit_completed: {
+    fullName: string;
+    propertyTitle: string;
+    salePrice: string;
+    sharePercentage: string;
+    proceeds: string;
+    statementNumber: string;
+    dashboardUrl: string;
+  };
+  reservation_abandoned: {
+    fullName: string;
+    propertyTitle: string;
+    inactiveDays: string;
+  };
+}
+
+export type EmailTemplateName = keyof EmailTemplateData;
+
+interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+interface TemplateContent {
+  subject: string;
+  paragraphs: string[];
+  action?: { label: string; url: string };
+}
+
+type TemplateRenderer<T> = (data: T) => { en: TemplateContent; ar: TemplateContent };
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function formatDate(date: Date, language: "en" | "ar"): string {
+  return date.toLocaleDateString(language === "ar" ? "ar-AE" : "en-US", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+}
+
+const templates: { [K in EmailTemplateName]: TemplateRenderer<EmailTemplateData[K]> } = {
+  login_otp: ({ fullName, otp, expiresInMinutes }) => ({
+    en: {
+      subject: "Your FOPD login code",
+      paragraphs: [
+        `Hello ${fullName},`,
+        `Your one-time login code is: ${otp}`,
+        `This code expires in ${expiresInMinutes} minutes. If you did not request it, you can ignore this email.`,
+      ],
+    },
+    ar: {
+      subject: "رمز تسجيل الدخول إلى FOPD",
+      paragraphs: [
+        `مرحباً ${fullName}،`,
+        `رمز تسجيل الدخول لمرة واحدة هو: ${otp}`,
+        `تنتهي صلاحية هذا الرمز خلال ${expiresInMinutes} دقائق. إذا لم تطلب هذا الرمز، يمكنك تجاهل هذه الرسالة.`,
+      ],
+    },
+  }),
+
+  signing_otp: ({ fullName, otp, documentName, expiresInMinutes }) => ({
+    en: {
+      subject: "Your FOPD signing code",
+      paragraphs: [
+        `Hello ${fullName},`,
+        `Use this code to confirm your signature on "${documentName}": ${otp}`,
+        `This code expires in ${expiresInMinutes} minutes. Never share it with anyone, including FOPD staff.`,
+      ],
+    },
+    ar: {
+      subject: "رمز التوقيع الخاص بك من FOPD",
+      paragraphs: [
+        `مرحباً ${fullName}،`,
+        `استخدم هذا الرمز لتأكيد توقيعك على "${documentName}": ${otp}`,
+        `تنتهي صلاحية هذا الرمز خلال ${expiresInMinutes} دقائق. لا تشاركه مع أي شخص، بما في ذلك موظفو FOPD.`,
+      ],
+    },
+  }),
+
+  voting_otp: ({ fullName, otp, proposalTitle, choice, expiresInMinutes }) => ({
+    en: {
+      subject: "Your FOPD voting code",
+      paragraphs: [
+        `Hello ${fullName},`,
+        `Use this code to confirm your vote ${{ for: "FOR", against: "AGAINST", abstain: "to ABSTAIN" }[choice]} on "${proposalTitle}": ${otp}`,
+        `This code expires in ${expiresInMinutes} minutes. Never share it with anyone, including FOPD staff. If you did not choose this vote, ignore this email.`,
+      ],
+    },
+    ar: {
+      subject: "رمز التصويت الخاص بك من FOPD",
+      paragraphs: [
+        `مرحباً ${fullName}،`,
+        `استخدم هذا الرمز لتأكيد تصويتك (${{ for: "موافق", against: "غير موافق", abstain: "امتناع" }[choice]}) على "${proposalTitle}": ${otp}`,
+        `تنتهي صلاحية هذا الرمز خلال ${expiresInMinutes} دقائق. لا تشاركه مع أي شخص، بما في ذلك موظفو FOPD. إذا لم تختر هذا التصويت، تجاهل هذه الرسالة.`,
+      ],
+    },
+  }),
+
+  co_owner_invitation: ({ inviterName, propertyTitle, sharePercentage, invitationLink, expiresAt }) => ({
+    en: {
+      subject: `${inviterName} invited you to co-own ${propertyTitle}`,
+      paragraphs: [
+        `${inviterName} has reserved a ${sharePercentage}% share of ${propertyTitle} for you on FOPD.`,
+        `Review the reservation and accept your share before ${formatDate(expiresAt, "en")}.`,
+      ],
+      action: { label: "View invitation", url: invitationLink },
+    },
+    ar: {
+      subject: `دعاك ${inviterName} للملكية المشتركة في ${propertyTitle}`,
+      paragraphs: [
+        `قام ${inviterName} بحجز حصة بنسبة ${sharePercentage}٪ من ${propertyTitle} لك على منصة FOPD.`,
+        `يرجى مراجعة الحجز وقبول حصتك قبل ${formatDate(expiresAt, "ar")}.`,
+      ],
+      action: { label: "عرض الدعوة", url: invitationLink },
+    },
+  }),
+
+  unit_funded: ({ fullName, propertyTitle }) => ({
+    en: {
+      subject: `${propertyTitle} is fully funded`,
+      paragraphs: [
+        `Hello ${fullName},`,
+        `All shares of ${propertyTitle} have been funded. We will now prepare the DLD registration documents and keep you updated on the next steps.`,
+      ],
+    },
+    ar: {
+      subject: `اكتمل تمويل ${propertyTitle}`,
+      paragraphs: [
+        `مرحباً ${fullName}،`,
+        `تم تمويل جميع حصص ${propertyTitle}. سنقوم الآن بإعداد مستندات التسجيل لدى دائرة الأراضي والأملاك وإبلاغك بالخطوات التالية.`,
+      ],
+    },
+  }),
+
+  kyc_reminder: ({ fullName, dashboardUrl }) => ({
+    en: {
+      subject: "Complete your FOPD identity verification",
+      paragraphs: [
+        `Hello ${fullName},`,
+        "Your KYC verification is still pending. Please upload your passport, proof of address and bank statement so we can complete your co-ownership registration.",
+      ],
+      action: { label: "Upload documents", url: dashboardUrl },
+    },
+    ar: {
+      subject: "أكمل التحقق من هويتك في FOPD",
+      paragraphs: [
+        `مرحباً ${fullName}،`,
+        "لا يزال التحقق من هويتك قيد الانتظار. يرجى تحميل جواز السفر وإثبات العنوان وكشف الحساب البنكي حتى نتمكن من إكمال تسجيل ملكيتك المشتركة.",
+      ],
+      action: { label: "تحميل المستندات", url: dashboardUrl },
+    },
+  }),
+
+  expense_approval_request: ({ fullName, propertyTitle, vendor, amount, shareAmount, approvalsRequired, coOwnerCount, dashboardUrl }) => ({
+    en: {
+      subject: `Approve an expense for ${propertyTitle}`,
+      paragraphs: [
+        `Hello ${fullName},`,
+        `${vendor} has invoiced AED ${amount} for ${propertyTitle}. Your share is AED ${shareAmount}.`,
+        `Expenses of this size need majority consent under your co-ownership agreement: ${approvalsRequired} of ${coOwnerCount} co-owners must approve before it is paid.`,
+      ],
+      action: { label: "Review expense", url: dashboardUrl },
+    },
+    ar: {
+      subject: `الموافقة على مصروف لـ ${propertyTitle}`,
+      paragraphs: [
+        `مرحباً ${fullName}،`,
+        `أصدر ${vendor} فاتورة بقيمة ${amount} درهم لـ ${propertyTitle}. حصتك ${shareAmount} درهم.`,
+        `تتطلب المصروفات بهذا الحجم موافقة الأغلبية وفقاً لاتفاقية الملكية المشتركة: يجب أن يوافق ${approvalsRequired} من ${coOwnerCount} مالكين مشتركين قبل الدفع.`,
+      ],
+      action: { label: "مراجعة المصروف", url: dashboardUrl },
+    },
+  }),
+
+  share_listed_rofr: ({ fullName, propertyTitle, sharePercentage, askingPrice, rofrEndsAt, dashboardUrl }) => ({
+    en: {
+      subject: `A ${sharePercentage}% share of ${propertyTitle} is for sale`,
+      paragraphs: [
+        `Hello ${fullName},`,
+        `A co-owner of ${propertyTitle} is selling their ${sharePercentage}% share for AED ${askingPrice}.`,
+        `As a co-owner you have the right of first refusal: you may buy it at the asking price until ${formatDate(rofrEndsAt, "en")}, before it is offered to other investors.`,
+      ],
+      action: { label: "View listing", url: dashboardUrl },
+    },
+    ar: {
+      subject: `حصة ${sharePercentage}٪ من ${propertyTitle} معروضة للبيع`,
+      paragraphs: [
+        `مرحباً ${fullName}،`,
+        `يعرض أحد المالكين المشتركين في ${propertyTitle} حصته البالغة ${sharePercentage}٪ للبيع بسعر ${askingPrice} درهم.`,
+        `بصفتك مالكاً مشتركاً لديك حق الأولوية في الشراء: يمكنك شراؤها بالسعر المطلوب حتى ${formatDate(rofrEndsAt, "ar")} قبل عرضها على مستثمرين آخرين.`,
+      ],
+      action: { label: "عرض الإعلان", url: dashboardUrl },
+    },
+  }),
+
+  share_offer_received: ({ fullName, propertyTitle, sharePercentage, amount, dashboardUrl }) => ({
+    en: {
+      subject: `New offer for your share of ${propertyTitle}`,
+      paragraphs: [
+        `Hello ${fullName},`,
+        `An investor has offered AED ${amount} for your ${sharePercentage}% share of ${propertyTitle}.`,
+        `You can accept or reject the offer from your dashboard.`,
+      ],
+      action: { label: "Review offer", url: dashboardUrl },
+    },
+    ar: {
+      subject: `عرض جديد على حصتك في ${propertyTitle}`,
+      paragraphs: [
+        `مرحباً ${fullName}،`,
+        `قدّم أحد المستثمرين عرضاً بقيمة ${amount} درهم لحصتك البالغة ${sharePercentage}٪ في ${propertyTitle}.`,
+        `يمكنك قبول العرض أو رفضه من لوحة التحكم.`,
+      ],
+      action: { label: "مراجعة العرض", url: dashboardUrl },
+    },
+  }),
+
+  share_sale_agreed: ({ fullName, propertyTitle, sharePercentage, price, dashboardUrl }) => ({
+    en: {
+      subject: `Sign the share transfer for ${propertyTitle}`,
+      paragraphs: [
+        `Hello ${fullName},`,
+        `A sale of a ${sharePercentage}% share of ${propertyTitle} has been agreed at AED ${price}.`,
+        `Both buyer and seller now sign the share transfer agreement. Once it is signed and the buyer's payment is received, the share is transferred.`,
+      ],
+      action: { label: "Sign agreement", url: dashboardUrl },
+    },
+    ar: {
+      subject: `توقيع اتفاقية نقل الحصة في ${propertyTitle}`,
+      paragraphs: [
+        `مرحباً ${fullName}،`,
+        `تم الاتفاق على بيع حصة ${sharePercentage}٪ من ${propertyTitle} بسعر ${price} درهم.`,
+        `يوقّع الآن كل من البائع والمشتري اتفاقية نقل الحصة. بعد التوقيع واستلام دفعة المشتري تُنقل الحصة.`,
+      ],
+      action: { label: "توقيع الاتفاقية", url: dashboardUrl },
+    },
+  }),
+
+  share_transfer_completed: ({ fullName, propertyTitle, sharePercentage, price, sold }) => ({
+    en: {
+      subject: `Share transfer completed for ${propertyTitle}`,
+      paragraphs: [
+        `Hello ${fullName},`,
+        sold
+          ? `Your ${sharePercentage}% share of ${propertyTitle} has been transferred to its buyer for AED ${price}.`
+          : `You now own a ${sharePercentage}% share of ${propertyTitle}, bought for AED ${price}.`,
+        `The signed share transfer agreement is in your documents.`,
+      ],
+    },
+    ar: {
+      subject: `اكتمل نقل الحصة في ${propertyTitle}`,
+      paragraphs: [
+        `مرحباً ${fullName}،`,
+        sold
+          ? `تم نقل حصتك البالغة ${sharePercentage}٪ في ${propertyTitle} إلى المشتري مقابل ${price} درهم.`
+          : `أصبحت تملك حصة ${sharePercentage}٪ في ${propertyTitle} تم شراؤها مقابل ${price} درهم.`,
+        `اتفاقية نقل الحصة الموقعة متاحة في مستنداتك.`,
+      ],
+    },
+  }),
+
+  governance_proposal_opened: ({ fullName, propertyTitle, proposalTitle, sharePercentage, deadline, dashboardUrl }) => ({
+    en: {
+      subject: `Vote needed: ${proposalTitle}`,
+      paragraphs: [
+        `Hello ${fullName},`,
+        `The co-owners of ${propertyTitle} are voting on "${proposalTitle}". Your ${sharePercentage}% share carries ${sharePercentage}% of the vote.`,
+        `Voting closes on ${formatDate(deadline, "en")}.`,
+      ],
+      action: { label: "Vote now", url: dashboardUrl },
+    },
+    ar: {
+      subject: `مطلوب تصويتك: ${proposalTitle}`,
+      paragraphs: [
+        `مرحباً ${fullName}،`,
+        `يصوّت المالكون المشتركون في ${propertyTitle} على "${proposalTitle}". حصتك البالغة ${sharePercentage}٪ تمنحك ${sharePercentage}٪ من الأصوات.`,
+        `يغلق التصويت في ${formatDate(deadline, "ar")}.`,
+      ],
+      action: { label: "صوّت الآن", url: dashboardUrl },
+    },
+  }),
+
+  governance_proposal_decided: ({ fullName, propertyTitle, proposalTitle, outcome, sharesFor, sharesAgainst, sharesAbstained }) => ({
+    en: {
+      subject: `${proposalTitle}: ${{ passed: "passed", rejected: "rejected", no_quorum: "not decided" }[outcome]}`,
+      paragraphs: [
+        `Hello ${fullName},`,
+        {
+          passed: `The co-owners of ${propertyTitle} have approved "${proposalTitle}". The resolution is available from your dashboard.`,
+          rejected: `The co-owners of ${propertyTitle} have rejected "${proposalTitle}".`,
+          no_quorum: `Voting on "${proposalTitle}" for ${propertyTitle} has closed without enough co-owners voting, so no decision was made.`,
+        }[outcome],
+        `Shares for: ${sharesFor}%. Against: ${sharesAgainst}%. Abstained: ${sharesAbstained}%.`,
+      ],
+    },
+    ar: {
+      subject: `${proposalTitle}: ${{ passed: "تمت الموافقة", rejected: "تم الرفض", no_quorum: "لم يُتخذ قرار" }[outcome]}`,
+      paragraphs: [
+        `مرحباً ${fullName}،`,
+        {
+          passed: `وافق المالكون المشتركون في ${propertyTitle} على "${proposalTitle}". القرار متاح في لوحة التحكم.`,
+          rejected: `رفض المالكون المشتركون في ${propertyTitle} "${proposalTitle}".`,
+          no_quorum: `أُغلق التصويت على "${proposalTitle}" في ${propertyTitle} دون اكتمال النصاب، لذلك لم يُتخذ قرار.`,
+        }[outcome],
+        `الحصص المؤيدة: ${sharesFor}٪. المعارضة: ${sharesAgainst}٪. الممتنعة: ${sharesAbstained}٪.`,
+      ],
+    },
+  }),
+
+  property_exit_completed: ({ fullName, propertyTitle, salePrice, sharePercentage, proceeds, statementNumber, dashboardUrl }) => ({
+    en: {
+      subject: `${propertyTitle} has been sold`,
+      paragraphs: [
+        `Hello ${fullName},`,
+        `The sale of ${propertyTitle} for AED ${salePrice} has been transferred at the Dubai Land Department.`,
+        `Your ${sharePercentage}% share of the proceeds after costs of sale is AED ${proceeds}, which will be paid to your bank account.`,
+        `Your final exit statement ${statementNumber} is available from your dashboard.`,
+      ],
+      action: { label: "View statement", url: dashboardUrl },
+    },
+    ar: {
+      subject: `تم بيع ${propertyTitle}`,
+      paragraphs: [
+        `مرحباً ${fullName}،`,
+        `تم نقل ملكية ${propertyTitle} في دائرة الأراضي والأملاك بدبي بعد بيعه مقابل ${salePrice} درهم.`,
+        `حصتك البالغة ${sharePercentage}٪ من العائدات بعد خصم تكاليف البيع هي ${proceeds} درهم، وستحوّل إلى حسابك المصرفي.`,
+        `كشف التخارج النهائي ${statementNumber} متاح في لوحة التحكم.`,
+      ],
+      action: { label: "عرض الكشف", url: dashboardUrl },
+    },
+  }),
+
+  reservation_abandoned: ({ fullName, propertyTitle, inactiveDays }) => ({
+    en: {
+      subject: `Your reservation of ${propertyTitle} has been cancelled`,
+      paragraphs: [
+        `Hello ${fullName},`,
+        `Your co-ownership reservation of ${propertyTitle} had no progress for ${inactiveDays} days, so we have cancelled it and released the property for other investors.`,
+        `Any outstanding invitations have expired. You are welcome to start a new reservation if the property is still available.`,
+      ],
+    },
+    ar: {
+      subject: `تم إلغاء حجزك في ${propertyTitle}`,
+      paragraphs: [
+        `مرحباً ${fullName}،`,
+        `لم يشهد حجز الملكية المشتركة الخاص بك في ${propertyTitle} أي تقدم لمدة ${inactiveDays} يوماً، لذلك قمنا بإلغائه وإتاحة العقار للمستثمرين الآخرين.`,
+        `انتهت صلاحية جميع الدعوات المعلقة. يمكنك بدء حجز جديد إذا كان العقار لا يزال متاحاً.`,
+      ],
+    },
+  }),
+};
+
+function toText(content: TemplateContent): string {
+  const lines = [...content.paragraphs];
+  if (content.action) {
+    lines.push(`${content.action.label}: ${content.action.url}`);
+  }
+  lines.push("— FOPD");
+  return lines.join("\n\n");
+}
+
+function toHtml(content: TemplateContent, language: "en" | "ar"): string {
+  const dir = language === "ar" ? "rtl" : "ltr";
+  const align = language === "ar" ? "right" : "left";
+  const paragraphs = content.paragraphs
+    .map(p => `<p style="margin:0 0 16px">${escapeHtml(p)}</p>`)
+    .join("");
+  const action = content.action
+    ? `<p style="margin:24px 0"><a href="${escapeHtml(content.action.url)}" style="background:#1e3a5f;color:#fff;padding:12px 20px;border-radius:6px;text-decoration:none">${escapeHtml(content.action.label)}</a></p>`
+    : "";
+
+  return `<!DOCTYPE html><html lang="${language}" dir="${dir}"><body style="font-family:Arial,sans-serif;color:#1f2937;text-align:${align}">${paragraphs}${action}<p style="color:#6b7280;font-size:12px">FOPD — Fractional Off-Plan Dubai</p></body></html>`;
+}
+
+/**
+ * Render a template in the requested language
+ */
+export function renderEmailTemplate<T extends EmailTemplateName>(
+  name: T,
+  language: "en" | "ar",
+  data: EmailTemplateData[T]
+): RenderedEmail {
+  const renderer = templates[name] as TemplateRenderer<EmailTemplateData[T]>;
+  const content = renderer(data)[language];
+
+  return {
+    subject: content.subject,
+    text: toText(content),
+    html: toHtml(content, language),
+  };
+}
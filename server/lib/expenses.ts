@@ -0,0 +1,46 @@
+/**
+ * Co-owner consent for property expenses.
+ *
+ * The co-ownership agreement requires majority consent (3 of 4 co-owners) for decisions about the
+ * property, and the power of attorney only lets FOPD act alone on decisions up to AED 50,000.
+ * Expenses above the threshold therefore wait for a majority of the co-owners to approve them.
+ */
+
+const DEFAULT_APPROVAL_THRESHOLD = 50000;
+
+export type ExpenseOutcome = "approved" | "rejected" | "pending";
+
+/**
+ * Largest expense (AED) FOPD may approve without the co-owners; EXPENSE_APPROVAL_THRESHOLD overrides it
+ */
+export function getExpenseApprovalThreshold(): number {
+  const configured = Number(process.env.EXPENSE_APPROVAL_THRESHOLD);
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_APPROVAL_THRESHOLD;
+}
+
+/**
+ * Approvals needed from a property's co-owners: more than half of them, so 3 of 4, 2 of 3, 2 of 2
+ */
+export function requiredApprovals(coOwnerCount: number): number {
+  return Math.floor(coOwnerCount / 2) + 1;
+}
+
+/**
+ * Approvals needed for an expense, or 0 when FOPD can approve it alone
+ */
+export function approvalsRequiredFor(amount: number | string, coOwnerCount: number): number {
+  return Number(amount) > getExpenseApprovalThreshold() ? requiredApprovals(coOwnerCount) : 0;
+}
+
+/**
+ * Approved once enough co-owners agree; rejected once too many have refused for a majority to remain
+ */
+export function expenseOutcome(coOwnerCount: number, approvalsNeeded: number, approvals: number, rejections: number): ExpenseOutcome {
+  if (approvals >= approvalsNeeded) {
+    return "approved";
+  }
+  if (coOwnerCount - rejections < approvalsNeeded) {
+    return "rejected";
+  }
+  return "pending";
+}
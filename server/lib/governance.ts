@@ -0,0 +1,129 @@
+/**
+ * Co-owner governance: proposals decided by a vote weighted by ownership share.
+ *
+ * The co-ownership agreement requires majority consent (3 of 4 co-owners) for decisions about the
+ * property. With four equal shares, a 75% quorum and a 75% threshold reproduce that rule; both can be
+ * set per proposal. Abstaining counts towards the quorum but not in favour.
+ */
+
+import { generateHash } from "./crypto";
+
+const DEFAULT_QUORUM = 75;
+const DEFAULT_THRESHOLD = 75;
+const MIN_VOTING_HOURS = 24;
+const MAX_VOTING_DAYS = 90;
+const HOUR_MS = 60 * 60 * 1000;
+
+export type ProposalOutcome = "passed" | "rejected" | "no_quorum" | "open";
+
+// Shares of the property, in percent
+export interface VoteTally {
+  total: number; // Shares entitled to vote
+  for: number;
+  against: number;
+  abstained: number;
+}
+
+/**
+ * Share of the property (%) that must vote; GOVERNANCE_QUORUM overrides it
+ */
+export function getDefaultQuorum(): number {
+  const configured = Number(process.env.GOVERNANCE_QUORUM);
+  return Number.isFinite(configured) && configured > 0 && configured <= 100 ? configured : DEFAULT_QUORUM;
+}
+
+/**
+ * Share of the votes (%) that must be in favour; GOVERNANCE_THRESHOLD overrides it but never to a minority
+ */
+export function getDefaultThreshold(): number {
+  const configured = Number(process.env.GOVERNANCE_THRESHOLD);
+  return Number.isFinite(configured) && configured > 50 && configured <= 100 ? configured : DEFAULT_THRESHOLD;
+}
+
+/**
+ * Why a deadline can't be used, or null: co-owners get at least a day and at most 90 days to vote
+ */
+export function deadlineProblem(deadline: Date, now: Date = new Date()): string | null {
+  const window = deadline.getTime() - now.getTime();
+  if (window < MIN_VOTING_HOURS * HOUR_MS) {
+    return `Give co-owners at least ${MIN_VOTING_HOURS} hours to vote`;
+  }
+  if (window > MAX_VOTING_DAYS * 24 * HOUR_MS) {
+    return `Voting can stay open for at most ${MAX_VOTING_DAYS} days`;
+  }
+  return null;
+}
+
+/**
+ * Decided as soon as the remaining votes can no longer change the result; otherwise open until `final`
+ * (the deadline, or everyone has voted), when a vote short of quorum fails
+ */
+export function proposalOutcome(tally: VoteTally, quorumPercentage: number, thresholdPercentage: number, final: boolean): ProposalOutcome {
+  // Work in hundredths of a percent so the comparisons are exact
+  const hundredths = (value: number) => Math.round(value * 100);
+  const total = hundredths(tally.total);
+  const inFavour = hundredths(tally.for);
+  const cast = inFavour + hundredths(tally.against) + hundredths(tally.abstained);
+  const remaining = total - cast;
+  const quorumMet = cast * 100 >= quorumPercentage * total;
+  const thresholdMet = (votesFor: number, votesCast: number) => votesFor * 100 >= thresholdPercentage * votesCast;
+
+  // Passed even if everyone left votes against
+  if (quorumMet && thresholdMet(inFavour, total)) {
+    return "passed";
+  }
+  // Rejected even if everyone left votes for
+  if (!thresholdMet(inFavour + remaining, total)) {
+    return "rejected";
+  }
+  if (!final && remaining > 0) {
+    return "open";
+  }
+  if (!quorumMet) {
+    return "no_quorum";
+  }
+  return thresholdMet(inFavour, cast) ? "passed" : "rejected";
+}
+
+/**
+ * Hash of a ballot chained to the proposal's previous ballot
+ */
+export function ballotHash(ballot: {
+  previousHash: string | null;
+  proposalId: string;
+  investorId: string;
+  choice: string;
+  sharePercentage: string;
+  castAt: Date;
+}): string {
+  return generateHash([
+    ballot.previousHash || "",
+    ballot.proposalId,
+    ballot.investorId,
+    ballot.choice,
+    ballot.sharePercentage,
+    ballot.castAt.toISOString(),
+  ].join("|"));
+}
+
+/**
+ * Whether a proposal's ballots, in the order cast, still hash to what was recorded and link to each other
+ */
+export function isBallotChainIntact(votes: Array<{
+  previousHash: string | null;
+  ballotHash: string;
+  proposalId: string;
+  investorId: string;
+  choice: string;
+  sharePercentage: string;
+  castAt: Date;
+}>): boolean {
+  let previousHash: string | null = null;
+  for (const vote of votes) {
+    if (vote.previousHash !== previousHash || ballotHash(vote) !== vote.ballotHash) {
+      return false;
+    }
+    previousHash = vote.ballotHash;
+  }
+  return true;
+}
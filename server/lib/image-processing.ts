@@ -0,0 +1,56 @@
+import sharp from "sharp";
+import path from "path";
+import { promises as fs } from "fs";
+
+const MAX_DIMENSION = 1920; // Longest edge of the stored image
+const THUMBNAIL_WIDTH = 480;
+const THUMBNAIL_HEIGHT = 360;
+
+export interface ProcessedImage {
+  filePath: string; // Absolute path of the resized image
+  thumbnailPath: string;
+  width: number;
+  height: number;
+  fileSize: number;
+}
+
+/**
+ * Resize an uploaded image and generate a thumbnail next to it
+ * Both are re-encoded as JPEG, which also strips EXIF data (GPS location etc.).
+ * The original upload is deleted once processing succeeds.
+ */
+export async function processUploadedImage(sourcePath: string): Promise<ProcessedImage> {
+  const dir = path.dirname(sourcePath);
+  const base = path.basename(sourcePath, path.extname(sourcePath));
+  const filePath = path.join(dir, `${base}.jpg`);
+  const thumbnailPath = path.join(dir, `${base}-thumb.jpg`);
+
+  // Read into memory first so the output may overwrite a .jpg source
+  const input = await fs.readFile(sourcePath);
+
+  const resized = await sharp(input)
+    .rotate() // Apply EXIF orientation before it is stripped
+    .resize(MAX_DIMENSION, MAX_DIMENSION, { fit: "inside", withoutEnlargement: true })
+    .flatten({ background: "#ffffff" }) // Transparent PNG floor plans
+    .jpeg({ quality: 82, mozjpeg: true })
+    .toFile(filePath);
+
+  await sharp(input)
+    .rotate()
+    .resize(THUMBNAIL_WIDTH, THUMBNAIL_HEIGHT, { fit: "cover" })
+    .flatten({ background: "#ffffff" })
+    .jpeg({ quality: 75 })
+    .toFile(thumbnailPath);
+
+  if (sourcePath !== filePath) {
+    await fs.unlink(sourcePath);
+  }
+
+  return {
+    filePath,
+    thumbnailPath,
+    width: resized.width,
+    height: resized.height,
+    fileSize: resized.size,
+  };
+}
@@ -0,0 +1,73 @@
+/**
+ * In-process background jobs.
+ *
+ * Every instance starts the same timers. A run holds a session-level Postgres advisory lock for the job
+ * on a connection of its own until it finishes, so when several instances are up only one does the work
+ * and the others skip that turn. The job itself writes through the shared pool as usual; the websocket
+ * setup the connection needs is done where the pool is created (db/index.ts).
+ */
+
+import { Client } from "@neondatabase/serverless";
+
+const STARTUP_DELAY_MS = 60 * 1000; // Let the server finish starting first
+
+export interface BackgroundJob {
+  name: string;
+  intervalMs: number;
+  run: () => Promise<number>; // Resolves to how many records the run handled
+  describe: (count: number) => string; // Logged after a run that handled any
+}
+
+/**
+ * Run a job unless another instance is running it; resolves to null when skipped
+ */
+export async function runJobOnce(job: BackgroundJob): Promise<number | null> {
+  const lockKey = `job:${job.name}`;
+  // A connection outside the shared pool, so a long run doesn't hold one the requests need
+  const client = new Client(process.env.DATABASE_URL);
+  await client.connect();
+  try {
+    const { rows } = await client.query<{ locked: boolean }>(
+      "SELECT pg_try_advisory_lock(hashtext($1)) AS locked",
+      [lockKey]
+    );
+    if (!rows[0]?.locked) {
+      return null;
+    }
+    try {
+      return await job.run();
+    } finally {
+      await client.query("SELECT pg_advisory_unlock(hashtext($1))", [lockKey]);
+    }
+  } finally {
+    await client.end();
+  }
+}
+
+/**
+ * Run each job shortly after start-up and then on its interval (timers do not keep the process alive).
+ * A run still going when the next is due makes that turn a no-op.
+ */
+export function startBackgroundJobs(jobs: BackgroundJob[]) {
+  for (const job of jobs) {
+    let running = false;
+    const tick = () => {
+      if (running) {
+        return;
+      }
+      running = true;
+      runJobOnce(job)
+        .then(count => {
+          if (count) {
+            console.log(job.describe(count));
+          }
+        })
+        .catch(error => console.error(`Background job ${job.name} failed:`, error))
+        .finally(() => {
+          running = false;
+        });
+    };
+    setTimeout(tick, STARTUP_DELAY_MS).unref();
+    setInterval(tick, job.intervalMs).unref();
+  }
+}
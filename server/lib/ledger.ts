@@ -0,0 +1,310 @@
+import type { InsertLedgerAccount, LedgerAccountType } from "@shared/schema";
+
+// An account to post to, opened by its code on first use
+export type LedgerAccountSpec = InsertLedgerAccount & { accountType: LedgerAccountType };
+
+export interface JournalLineSpec {
+  account: LedgerAccountSpec;
+  debit?: number;
+  credit?: number;
+}
+
+export class LedgerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LedgerError";
+  }
+}
+
+/**
+ * Chart of accounts. All amounts are AED.
+ * - escrow: cash held in a property's project escrow account
+ * - investor_capital: what an investor has paid towards their shares (their invested total)
+ * - investor_wallet: money owed to an investor and not yet paid out: rent in, their share of expenses out
+ * - platform_fees: FOPD's fee income
+ * - dld_fees: Dubai Land Department fees collected and owed to the DLD
+ * - rent_account: rent collected for a handed-over property and not yet paid out
+ * - property_payables: property costs owed to the building and vendors, from rent deductions and approved expenses
+ */
+export const ledgerAccounts = {
+  escrow: (property: { id: string; title: string }): LedgerAccountSpec => ({
+    code: `escrow:${property.id}`,
+    name: `Escrow - ${property.title}`,
+    accountType: "asset",
+    category: "escrow",
+    propertyId: property.id,
+  }),
+  investorCapital: (investor: { id: string; fullName: string }): LedgerAccountSpec => ({
+    code: `investor_capital:${investor.id}`,
+    name: `Investor capital - ${investor.fullName}`,
+    accountType: "liability",
+    category: "investor_capital",
+    investorId: investor.id,
+  }),
+  investorWallet: (investor: { id: string; fullName: string }): LedgerAccountSpec => ({
+    code: `investor_wallet:${investor.id}`,
+    name: `Investor wallet - ${investor.fullName}`,
+    accountType: "liability",
+    category: "investor_wallet",
+    investorId: investor.id,
+  }),
+  platformFees: (): LedgerAccountSpec => ({
+    code: "platform_fees",
+    name: "Platform fees",
+    accountType: "income",
+    category: "platform_fees",
+  }),
+  dldFees: (): LedgerAccountSpec => ({
+    code: "dld_fees",
+    name: "DLD fees payable",
+    accountType: "liability",
+    category: "dld_fees",
+  }),
+  rentAccount: (property: { id: string; title: string }): LedgerAccountSpec => ({
+    code: `rent_account:${property.id}`,
+    name: `Rent account - ${property.title}`,
+    accountType: "asset",
+    category: "rent_account",
+    propertyId: property.id,
+  }),
+  propertyPayables: (property: { id: string; title: string }): LedgerAccountSpec => ({
+    code: `property_payables:${property.id}`,
+    name: `Property costs payable - ${property.title}`,
+    accountType: "liability",
+    category: "property_payables",
+    propertyId: property.id,
+  }),
+};
+
+/**
+ * Money in cents, so sums are exact
+ */
+export function toCents(amount: number | string): number {
+  return Math.round(Number(amount) * 100);
+}
+
+/**
+ * Split an amount by ownership share to the cent. Cents lost to rounding go to the largest remainders,
+ * so the parts always add up to the amount.
+ */
+export function allocateByShare<T extends { sharePercentage: number | string }>(
+  amount: number | string,
+  holders: T[]
+): Array<T & { amount: number }> {
+  const totalCents = toCents(amount);
+  const totalShare = holders.reduce((sum, holder) => sum + Number(holder.sharePercentage), 0);
+  if (holders.length === 0 || totalShare <= 0) {
+    throw new LedgerError("Nobody holds a share to allocate to");
+  }
+
+  const parts = holders.map((holder, index) => {
+    const exact = totalCents * Number(holder.sharePercentage) / totalShare;
+    return { index, cents: Math.floor(exact), remainder: exact - Math.floor(exact) };
+  });
+  let leftover = totalCents - parts.reduce((sum, part) => sum + part.cents, 0);
+  for (const part of [...parts].sort((a, b) => b.remainder - a.remainder || a.index - b.index)) {
+    if (leftover <= 0) break;
+    part.cents++;
+    leftover--;
+  }
+
+  return holders.map((holder, index) => ({ ...holder, amount: parts[index].cents / 100 }));
+}
+
+/**
+ * Assets and expenses grow with debits; liabilities, equity and income with credits
+ */
+export function isDebitNormal(accountType: string): boolean {
+  return accountType === "asset" || accountType === "expense";
+}
+
+/**
+ * Signed balance of an account from its debit and credit totals, positive on its normal side
+ */
+export function accountBalance(accountType: string, debits: number | string, credits: number | string): number {
+  const cents = isDebitNormal(accountType) ? toCents(debits) - toCents(credits) : toCents(credits) - toCents(debits);
+  return cents / 100;
+}
+
+/**
+ * Check an entry before it is posted: at least two lines, one positive side per line, debits equal credits
+ */
+export function assertBalanced(lines: JournalLineSpec[]): void {
+  if (lines.length < 2) {
+    throw new LedgerError("A journal entry needs at least two lines");
+  }
+
+  let debits = 0;
+  let credits = 0;
+  for (const line of lines) {
+    const debit = toCents(line.debit ?? 0);
+    const credit = toCents(line.credit ?? 0);
+    if (debit < 0 || credit < 0 || (debit === 0) === (credit === 0)) {
+      throw new LedgerError(`Line for ${line.account.code} must have either a debit or a credit`);
+    }
+    debits += debit;
+    credits += credit;
+  }
+
+  if (debits !== credits) {
+    throw new LedgerError(`Entry does not balance: debits ${(debits / 100).toFixed(2)}, credits ${(credits / 100).toFixed(2)}`);
+  }
+}
+
+/**
+ * Money received into a property's escrow towards an investor's share
+ */
+export function capitalReceivedLines(
+  property: { id: string; title: string },
+  investor: { id: string; fullName: string },
+  amount: number | string
+): JournalLineSpec[] {
+  return [
+    { account: ledgerAccounts.escrow(property), debit: Number(amount) },
+    { account: ledgerAccounts.investorCapital(investor), credit: Number(amount) },
+  ];
+}
+
+/**
+ * Money returned from a property's escrow to an investor
+ */
+export function capitalRefundedLines(
+  property: { id: string; title: string },
+  investor: { id: string; fullName: string },
+  amount: number | string
+): JournalLineSpec[] {
+  return [
+    { account: ledgerAccounts.investorCapital(investor), debit: Number(amount) },
+    { account: ledgerAccounts.escrow(property), credit: Number(amount) },
+  ];
+}
+
+/**
+ * Rent collected for a property: the management fee is FOPD's income, service charges and maintenance
+ * are owed on, and the rest is credited to each co-owner's wallet
+ */
+export function rentalDistributionLines(
+  property: { id: string; title: string },
+  distribution: { grossRent: number | string; managementFee: number | string; serviceCharges: number | string; maintenance: number | string },
+  allocations: Array<{ investor: { id: string; fullName: string }; amount: number | string }>
+): JournalLineSpec[] {
+  const payables = (toCents(distribution.serviceCharges) + toCents(distribution.maintenance)) / 100;
+  const lines: JournalLineSpec[] = [{ account: ledgerAccounts.rentAccount(property), debit: Number(distribution.grossRent) }];
+  if (Number(distribution.managementFee) > 0) {
+    lines.push({ account: ledgerAccounts.platformFees(), credit: Number(distribution.managementFee) });
+  }
+  if (payables > 0) {
+    lines.push({ account: ledgerAccounts.propertyPayables(property), credit: payables });
+  }
+  for (const allocation of allocations) {
+    if (Number(allocation.amount) > 0) {
+      lines.push({ account: ledgerAccounts.investorWallet(allocation.investor), credit: Number(allocation.amount) });
+    }
+  }
+  return lines;
+}
+
+/**
+ * A co-owner's rent share paid out of the property's rent account
+ */
+export function rentalPayoutLines(
+  property: { id: string; title: string },
+  investor: { id: string; fullName: string },
+  amount: number | string
+): JournalLineSpec[] {
+  return [
+    { account: ledgerAccounts.investorWallet(investor), debit: Number(amount) },
+    { account: ledgerAccounts.rentAccount(property), credit: Number(amount) },
+  ];
+}
+
+/**
+ * An approved property expense charged to each co-owner's wallet and owed to the vendor
+ */
+export function expenseChargedLines(
+  property: { id: string; title: string },
+  allocations: Array<{ investor: { id: string; fullName: string }; amount: number | string }>
+): JournalLineSpec[] {
+  const lines: JournalLineSpec[] = allocations
+    .filter(allocation => Number(allocation.amount) > 0)
+    .map(allocation => ({ account: ledgerAccounts.investorWallet(allocation.investor), debit: Number(allocation.amount) }));
+  const totalCents = allocations.reduce((sum, allocation) => sum + toCents(allocation.amount), 0);
+  lines.push({ account: ledgerAccounts.propertyPayables(property), credit: totalCents / 100 });
+  return lines;
+}
+
+/**
+ * A property expense paid to the vendor out of the property's rent account
+ */
+export function expensePaidLines(property: { id: string; title: string }, amount: number | string): JournalLineSpec[] {
+  return [
+    { account: ledgerAccounts.propertyPayables(property), debit: Number(amount) },
+    { account: ledgerAccounts.rentAccount(property), credit: Number(amount) },
+  ];
+}
+
+/**
+ * A share sold on the secondary market: the seller's paid-in capital becomes the buyer's. The price itself
+ * is settled between them and never passes through escrow.
+ */
+export function shareTransferLines(
+  seller: { id: string; fullName: string },
+  buyer: { id: string; fullName: string },
+  capital: number | string
+): JournalLineSpec[] {
+  return [
+    { account: ledgerAccounts.investorCapital(seller), debit: Number(capital) },
+    { account: ledgerAccounts.investorCapital(buyer), credit: Number(capital) },
+  ];
+}
+
+/**
+ * A property sold at exit. Each co-owner's paid-in capital is released from escrow against their capital
+ * account; the sale price is received into escrow, the DLD transfer fee and other costs of sale are owed
+ * on, and the net proceeds are credited to each co-owner's wallet.
+ */
+export function propertyExitLines(
+  property: { id: string; title: string },
+  sale: { salePrice: number | string; dldTransferFee: number | string; agencyCommission: number | string; otherCosts: number | string },
+  owners: Array<{ investor: { id: string; fullName: string }; capital: number | string; proceeds: number | string }>
+): JournalLineSpec[] {
+  const lines: JournalLineSpec[] = [];
+  for (const owner of owners) {
+    if (Number(owner.capital) > 0) {
+      lines.push({ account: ledgerAccounts.investorCapital(owner.investor), debit: Number(owner.capital) });
+    }
+  }
+  const capitalCents = owners.reduce((sum, owner) => sum + toCents(owner.capital), 0);
+  if (capitalCents > 0) {
+    lines.push({ account: ledgerAccounts.escrow(property), credit: capitalCents / 100 });
+  }
+
+  lines.push({ account: ledgerAccounts.escrow(property), debit: Number(sale.salePrice) });
+  if (Number(sale.dldTransferFee) > 0) {
+    lines.push({ account: ledgerAccounts.dldFees(), credit: Number(sale.dldTransferFee) });
+  }
+  const payables = (toCents(sale.agencyCommission) + toCents(sale.otherCosts)) / 100;
+  if (payables > 0) {
+    lines.push({ account: ledgerAccounts.propertyPayables(property), credit: payables });
+  }
+  for (const owner of owners) {
+    if (Number(owner.proceeds) > 0) {
+      lines.push({ account: ledgerAccounts.investorWallet(owner.investor), credit: Number(owner.proceeds) });
+    }
+  }
+  return lines;
+}
+
+/**
+ * A co-owner's sale proceeds paid out of the property's escrow
+ */
+export function exitPayoutLines(
+  property: { id: string; title: string },
+  investor: { id: string; fullName: string },
+  amount: number | string
+): JournalLineSpec[] {
+  return [
+    { account: ledgerAccounts.investorWallet(investor), debit: Number(amount) },
+    { account: ledgerAccounts.escrow(property), credit: Number(amount) },
+  ];
+}
@@ -0,0 +1,172 @@
+import nodemailer from "nodemailer";
+import { promises as fs } from "fs";
+import path from "path";
+import { renderEmailTemplate, type EmailTemplateName, type EmailTemplateData } from "./email-templates";
+
+export type MailLanguage = "en" | "ar";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+  language: MailLanguage;
+  template?: EmailTemplateName;
+}
+
+/**
+ * Delivery backend for outbound email
+ */
+export interface MailTransport {
+  readonly name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+/**
+ * SMTP delivery (production)
+ */
+export class SmtpTransport implements MailTransport {
+  readonly name = "smtp";
+  private transporter: nodemailer.Transporter;
+
+  constructor(private from: string, options: {
+    host: string;
+    port: number;
+    secure: boolean;
+    user?: string;
+    pass?: string;
+  }) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      auth: options.user ? { user: options.user, pass: options.pass } : undefined,
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({
+      from: this.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      html: message.html,
+    });
+  }
+}
+
+/**
+ * Writes each message as a JSON file (development)
+ * Lets developers read OTPs and invitation links without a mail server.
+ */
+export class FileTransport implements MailTransport {
+  readonly name = "file";
+
+  constructor(private outboxDir: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(this.outboxDir, { recursive: true });
+    const safeRecipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, "_");
+    const filename = `${Date.now()}-${message.template || "message"}-${safeRecipient}.json`;
+    await fs.writeFile(
+      path.join(this.outboxDir, filename),
+      JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2)
+    );
+    console.log(`Email written to outbox: ${filename}`);
+  }
+}
+
+/**
+ * Keeps messages in memory (tests)
+ */
+export class MemoryTransport implements MailTransport {
+  readonly name = "memory";
+  readonly sent: MailMessage[] = [];
+
+  async send(message: MailMessage): Promise<void> {
+    this.sent.push(message);
+  }
+
+  clear(): void {
+    this.sent.length = 0;
+  }
+}
+
+/**
+ * Pick a transport from the environment
+ * MAIL_TRANSPORT=smtp|file|memory (defaults to smtp in production, file otherwise)
+ */
+export function createTransportFromEnv(): MailTransport {
+  const transport = process.env.MAIL_TRANSPORT || (process.env.NODE_ENV === "production" ? "smtp" : "file");
+
+  switch (transport) {
+    case "smtp": {
+      if (!process.env.SMTP_HOST) {
+        throw new Error("SMTP_HOST environment variable is not set");
+      }
+      const port = parseInt(process.env.SMTP_PORT || "587", 10);
+      return new SmtpTransport(process.env.MAIL_FROM || "FOPD <no-reply@fopd.ae>", {
+        host: process.env.SMTP_HOST,
+        port,
+        secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === "true" : port === 465,
+        user: process.env.SMTP_USER,
+        pass: process.env.SMTP_PASSWORD,
+      });
+    }
+    case "memory":
+      return new MemoryTransport();
+    case "file":
+      return new FileTransport(process.env.MAIL_OUTBOX_DIR || path.join(process.cwd(), "uploads", "outbox"));
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT: ${transport}`);
+  }
+}
+
+export class Mailer {
+  constructor(private transport: MailTransport) {}
+
+  get transportName(): string {
+    return this.transport.name;
+  }
+
+  /**
+   * Render a bilingual template and deliver it
+   * Unknown languages fall back to English.
+   */
+  async sendTemplate<T extends EmailTemplateName>(
+    to: string,
+    template: T,
+    language: string,
+    data: EmailTemplateData[T]
+  ): Promise<void> {
+    const lang: MailLanguage = language === "ar" ? "ar" : "en";
+    const rendered = renderEmailTemplate(template, lang, data);
+
+    await this.transport.send({
+      to,
+      template,
+      language: lang,
+      ...rendered,
+    });
+  }
+}
+
+let mailerInstance: Mailer | null = null;
+
+/**
+ * Process-wide mailer, created lazily from the environment
+ */
+export function getMailer(): Mailer {
+  if (!mailerInstance) {
+    mailerInstance = new Mailer(createTransportFromEnv());
+  }
+  return mailerInstance;
+}
+
+/**
+ * Swap the transport (tests)
+ */
+export function setMailTransport(transport: MailTransport): Mailer {
+  mailerInstance = new Mailer(transport);
+  return mailerInstance;
+}
@@ -0,0 +1,93 @@
+import type { Express } from "express";
+import { getPaymentProvider, MockPaymentProvider, PaymentProviderError, type MockCheckoutOutcome } from "./payment-provider";
+
+const outcomes: MockCheckoutOutcome[] = ["CAPTURED", "DECLINED", "CANCELLED", "FAILED"];
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function renderPage(title: string, body: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1" />
+  <title>${escapeHtml(title)}</title>
+  <style>
+    body { font-family: system-ui, sans-serif; background: #f4f5f7; margin: 0; padding: 48px 16px; color: #1f2937; }
+    main { max-width: 420px; margin: 0 auto; background: #fff; border-radius: 12px; padding: 32px; box-shadow: 0 4px 24px rgba(0,0,0,0.08); }
+    .banner { background: #fef3c7; color: #92400e; font-size: 12px; padding: 8px 12px; border-radius: 6px; margin-bottom: 24px; }
+    .amount { font-size: 32px; font-weight: 700; margin: 8px 0 4px; }
+    .muted { color: #6b7280; font-size: 14px; }
+    form { display: grid; gap: 8px; margin-top: 24px; }
+    button { border: 0; border-radius: 8px; padding: 12px; font-size: 15px; cursor: pointer; }
+    .pay { background: #111827; color: #fff; }
+    .secondary { background: #e5e7eb; color: #111827; }
+  </style>
+</head>
+<body>
+  <main>
+    <div class="banner">Mock payment gateway - no real money moves</div>
+    ${body}
+  </main>
+</body>
+</html>`;
+}
+
+/**
+ * Fake hosted checkout for the mock payment provider
+ * Only mounted when PAYMENT_PROVIDER resolves to "mock".
+ */
+export function registerMockGateway(app: Express): void {
+  const provider = getPaymentProvider();
+  if (!(provider instanceof MockPaymentProvider)) {
+    return;
+  }
+
+  app.get("/mock-gateway/checkout/:chargeId", (req, res) => {
+    const charge = provider.getCheckout(req.params.chargeId);
+    if (!charge) {
+      return res.status(404).send(renderPage("Checkout not found", "<h1>Checkout not found</h1>"));
+    }
+    if (charge.status !== "INITIATED") {
+      return res.status(409).send(renderPage("Checkout closed", `<h1>Checkout closed</h1><p class="muted">This charge is ${escapeHtml(charge.status)}.</p>`));
+    }
+
+    const amount = charge.amount.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+    const buttons = outcomes.map(outcome => {
+      const label = outcome === "CAPTURED" ? "Pay now" : `Simulate ${outcome.toLowerCase()}`;
+      return `<button type="submit" name="outcome" value="${outcome}" class="${outcome === "CAPTURED" ? "pay" : "secondary"}" data-testid="button-mock-${outcome.toLowerCase()}">${label}</button>`;
+    }).join("\n      ");
+
+    res.send(renderPage("Mock checkout", `
+    <p class="muted">${escapeHtml(charge.description)}</p>
+    <div class="amount">AED ${amount}</div>
+    <p class="muted">${escapeHtml(`${charge.customer.firstName} ${charge.customer.lastName}`)} &middot; ${escapeHtml(charge.customer.email)}</p>
+    <form method="post">
+      ${buttons}
+    </form>`));
+  });
+
+  app.post("/mock-gateway/checkout/:chargeId", async (req, res) => {
+    const outcome = req.body?.outcome as MockCheckoutOutcome;
+    if (!outcomes.includes(outcome)) {
+      return res.status(400).send(renderPage("Invalid outcome", "<h1>Invalid outcome</h1>"));
+    }
+
+    try {
+      const redirectUrl = await provider.completeCheckout(req.params.chargeId, outcome);
+      res.redirect(303, redirectUrl);
+    } catch (error: any) {
+      const status = error instanceof PaymentProviderError ? error.status : 500;
+      res.status(status).send(renderPage("Checkout error", `<h1>Checkout error</h1><p class="muted">${escapeHtml(error.message)}</p>`));
+    }
+  });
+
+  console.log("Mock payment gateway enabled at /mock-gateway/checkout/:chargeId");
+}
@@ -0,0 +1,99 @@
+import type { Investor, OtpChannel, GovernanceChoice } from "@shared/schema";
+import { isE164, maskPhoneNumber } from "@shared/phone";
+import { getMailer } from "./mailer";
+import { getSmsProvider } from "./sms";
+import type { OtpPurpose } from "./otp-store";
+
+interface DeliverOtpOptions {
+  investor: Investor;
+  purpose: OtpPurpose;
+  otp: string;
+  expiresInMinutes: number;
+  channel?: OtpChannel; // Defaults to the investor's preferred channel
+  documentName?: string; // Signing only
+  ballot?: { proposalTitle: string; choice: GovernanceChoice }; // Voting only
+}
+
+export interface OtpDeliveryReceipt {
+  channel: OtpChannel;
+  destination: string; // Masked, safe for logs and API responses
+}
+
+const choiceWords: Record<"en" | "ar", Record<GovernanceChoice, string>> = {
+  en: { for: "FOR", against: "AGAINST", abstain: "ABSTAIN" },
+  ar: { for: "موافق", against: "غير موافق", abstain: "امتناع" },
+};
+
+function maskEmail(email: string): string {
+  const [local, domain] = email.split("@");
+  return `${local.slice(0, 2)}${"•".repeat(Math.max(local.length - 2, 1))}@${domain}`;
+}
+
+/**
+ * Short bilingual text for SMS / WhatsApp
+ */
+function buildShortMessage(options: DeliverOtpOptions): string {
+  const { purpose, otp, expiresInMinutes, documentName, ballot, investor } = options;
+
+  if (investor.preferredLanguage === "ar") {
+    if (purpose === "voting" && ballot) {
+      return `FOPD: رمز تأكيد تصويتك (${choiceWords.ar[ballot.choice]}) على "${ballot.proposalTitle}" هو ${otp}. صالح لمدة ${expiresInMinutes} دقائق. لا تشاركه مع أحد.`;
+    }
+    return purpose === "signing"
+      ? `FOPD: رمز التوقيع على "${documentName || "المستند"}" هو ${otp}. صالح لمدة ${expiresInMinutes} دقائق. لا تشاركه مع أحد.`
+      : `FOPD: رمز تسجيل الدخول هو ${otp}. صالح لمدة ${expiresInMinutes} دقائق.`;
+  }
+
+  if (purpose === "voting" && ballot) {
+    return `FOPD: Your code to vote ${choiceWords.en[ballot.choice]} on "${ballot.proposalTitle}" is ${otp}. Valid for ${expiresInMinutes} minutes. Do not share it.`;
+  }
+  return purpose === "signing"
+    ? `FOPD: Your code to sign "${documentName || "the document"}" is ${otp}. Valid for ${expiresInMinutes} minutes. Do not share it.`
+    : `FOPD: Your login code is ${otp}. Valid for ${expiresInMinutes} minutes.`;
+}
+
+/**
+ * Send an OTP over email, SMS or WhatsApp
+ */
+export async function deliverOtp(options: DeliverOtpOptions): Promise<OtpDeliveryReceipt> {
+  const { investor, purpose, otp, expiresInMinutes } = options;
+  const channel = options.channel || (investor.otpChannel as OtpChannel) || "email";
+
+  if (channel === "email") {
+    if (purpose === "signing") {
+      await getMailer().sendTemplate(investor.email, "signing_otp", investor.preferredLanguage, {
+        fullName: investor.fullName,
+        otp,
+        documentName: options.documentName || "Agreement",
+        expiresInMinutes,
+      });
+    } else if (purpose === "voting" && options.ballot) {
+      await getMailer().sendTemplate(investor.email, "voting_otp", investor.preferredLanguage, {
+        fullName: investor.fullName,
+        otp,
+        proposalTitle: options.ballot.proposalTitle,
+        choice: options.ballot.choice,
+        expiresInMinutes,
+      });
+    } else {
+      await getMailer().sendTemplate(investor.email, "login_otp", investor.preferredLanguage, {
+        fullName: investor.fullName,
+        otp,
+        expiresInMinutes,
+      });
+    }
+    return { channel, destination: maskEmail(investor.email) };
+  }
+
+  if (!isE164(investor.phone)) {
+    throw new Error("No valid mobile number on file. Please choose email delivery.");
+  }
+
+  await getSmsProvider().send({
+    to: investor.phone,
+    body: buildShortMessage(options),
+    channel,
+  });
+
+  return { channel, destination: maskPhoneNumber(investor.phone) };
+}
@@ -0,0 +1,187 @@
+import crypto from "crypto";
+import { db } from "../../db";
+import { otpCodes } from "@shared/schema";
+import { and, eq, gt, isNull, lt, desc, sql } from "drizzle-orm";
+
+export type OtpPurpose = "login" | "signing" | "voting";
+
+const OTP_TTL_MS = 10 * 60 * 1000; // 10 minutes
+const MAX_ATTEMPTS = 5;
+const RESEND_COOLDOWN_MS = 60 * 1000; // 1 minute between codes
+const MAX_ISSUES_PER_HOUR = 5;
+const MAX_ISSUES_PER_ADDRESS_PER_HOUR = 20;
+const RETENTION_MS = 24 * 60 * 60 * 1000; // Keep expired rows for a day for auditing
+
+export type OtpVerifyResult =
+  | { ok: true }
+  | { ok: false; reason: "not_found" | "expired" | "locked" | "invalid"; attemptsRemaining?: number };
+
+/**
+ * Thrown when a new code is requested too soon or too often
+ */
+export class OtpRateLimitError extends Error {
+  constructor(public retryAfterSeconds: number) {
+    super("Please wait before requesting a new code.");
+    this.name = "OtpRateLimitError";
+  }
+}
+
+/**
+ * Keyed hash of the code so a database leak does not reveal (or allow brute-forcing) codes
+ */
+function hashCode(purpose: OtpPurpose, subject: string, code: string): string {
+  const secret = process.env.SESSION_SECRET || "dev-secret-key-change-in-production";
+  return crypto.createHmac("sha256", secret).update(`${purpose}:${subject}:${code}`).digest("hex");
+}
+
+function generateCode(): string {
+  return crypto.randomInt(100000, 1000000).toString();
+}
+
+/**
+ * Issue a new code, invalidating any earlier unused code for the same subject
+ * Enforces a resend cooldown and an hourly issue cap, per subject and per requesting address.
+ */
+export async function issueOtp(
+  purpose: OtpPurpose,
+  subject: string,
+  requestedFrom: string | null = null
+): Promise<{ otp: string; expiresAt: Date }> {
+  const now = Date.now();
+
+  if (requestedFrom) {
+    const fromAddress = await db
+      .select({ createdAt: otpCodes.createdAt })
+      .from(otpCodes)
+      .where(and(
+        eq(otpCodes.requestedFrom, requestedFrom),
+        gt(otpCodes.createdAt, new Date(now - 60 * 60 * 1000))
+      ))
+      .orderBy(otpCodes.createdAt);
+    if (fromAddress.length >= MAX_ISSUES_PER_ADDRESS_PER_HOUR) {
+      throw new OtpRateLimitError(Math.ceil((fromAddress[0].createdAt.getTime() + 60 * 60 * 1000 - now) / 1000));
+    }
+  }
+
+  const recent = await db
+    .select()
+    .from(otpCodes)
+    .where(and(
+      eq(otpCodes.purpose, purpose),
+      eq(otpCodes.subject, subject),
+      gt(otpCodes.createdAt, new Date(now - 60 * 60 * 1000))
+    ))
+    .orderBy(desc(otpCodes.createdAt));
+
+  if (recent.length > 0) {
+    const sinceLast = now - recent[0].createdAt.getTime();
+    if (sinceLast < RESEND_COOLDOWN_MS) {
+      throw new OtpRateLimitError(Math.ceil((RESEND_COOLDOWN_MS - sinceLast) / 1000));
+    }
+  }
+
+  if (recent.length >= MAX_ISSUES_PER_HOUR) {
+    const oldest = recent[recent.length - 1].createdAt.getTime();
+    throw new OtpRateLimitError(Math.ceil((oldest + 60 * 60 * 1000 - now) / 1000));
+  }
+
+  const otp = generateCode();
+  const expiresAt = new Date(now + OTP_TTL_MS);
+
+  await db.transaction(async (tx) => {
+    // Only the newest code is valid
+    await tx
+      .update(otpCodes)
+      .set({ consumedAt: new Date() })
+      .where(and(
+        eq(otpCodes.purpose, purpose),
+        eq(otpCodes.subject, subject),
+        isNull(otpCodes.consumedAt)
+      ));
+
+    await tx.insert(otpCodes).values({
+      purpose,
+      subject,
+      codeHash: hashCode(purpose, subject, otp),
+      maxAttempts: MAX_ATTEMPTS,
+      expiresAt,
+      requestedFrom,
+    });
+  });
+
+  return { otp, expiresAt };
+}
+
+/**
+ * Verify a code. Every attempt counts, and the code is locked once attempts run out.
+ * A successful verification consumes the code.
+ */
+export async function verifyOtp(purpose: OtpPurpose, subject: string, code: string): Promise<OtpVerifyResult> {
+  const [active] = await db
+    .select()
+    .from(otpCodes)
+    .where(and(
+      eq(otpCodes.purpose, purpose),
+      eq(otpCodes.subject, subject),
+      isNull(otpCodes.consumedAt)
+    ))
+    .orderBy(desc(otpCodes.createdAt))
+    .limit(1);
+
+  if (!active) {
+    return { ok: false, reason: "not_found" };
+  }
+
+  if (active.expiresAt < new Date()) {
+    return { ok: false, reason: "expired" };
+  }
+
+  // Count the attempt atomically before comparing, so parallel guesses cannot exceed the limit
+  const [counted] = await db
+    .update(otpCodes)
+    .set({ attempts: sql`${otpCodes.attempts} + 1` })
+    .where(and(
+      eq(otpCodes.id, active.id),
+      isNull(otpCodes.consumedAt),
+      lt(otpCodes.attempts, otpCodes.maxAttempts)
+    ))
+    .returning();
+
+  if (!counted) {
+    return { ok: false, reason: "locked" };
+  }
+
+  const expected = Buffer.from(active.codeHash, "hex");
+  const actual = Buffer.from(hashCode(purpose, subject, code), "hex");
+
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    const attemptsRemaining = counted.maxAttempts - counted.attempts;
+    return attemptsRemaining > 0
+      ? { ok: false, reason: "invalid", attemptsRemaining }
+      : { ok: false, reason: "locked" };
+  }
+
+  const [consumed] = await db
+    .update(otpCodes)
+    .set({ consumedAt: new Date() })
+    .where(and(eq(otpCodes.id, active.id), isNull(otpCodes.consumedAt)))
+    .returning();
+
+  // Lost a race with a concurrent successful verification
+  if (!consumed) {
+    return { ok: false, reason: "not_found" };
+  }
+
+  return { ok: true };
+}
+
+/**
+ * Delete codes that expired more than the retention period ago
+ */
+export async function cleanupExpiredOtps(): Promise<number> {
+  const deleted = await db
+    .delete(otpCodes)
+    .where(lt(otpCodes.expiresAt, new Date(Date.now() - RETENTION_MS)))
+    .returning({ id: otpCodes.id });
+  return deleted.length;
+}
@@ -0,0 +1,175 @@
+/**
+ * Owner statements: a periodic account of one investor's position in one property.
+ *
+ * The owner account runs on what the investor has put in and what the property holds for them:
+ * contributions (payments less refunds) and their share of rent add to it; their share of approved
+ * expenses and the rent payouts transferred to them take away from it. When the property is sold, their
+ * capital is closed out, their share of the sale proceeds is added and the proceeds payout takes it away.
+ */
+
+export type StatementPeriodType = "monthly" | "annual";
+
+export type StatementActivityKind = "contribution" | "refund" | "rent" | "expense" | "distribution" | "sale";
+
+export interface StatementPeriod {
+  periodType: StatementPeriodType;
+  periodStart: Date; // First day, UTC midnight
+  periodEnd: Date; // Last day, UTC midnight
+  endsBefore: Date; // First day after the period
+}
+
+// One movement on the owner account; amounts are signed from the owner's side
+export interface StatementActivity {
+  date: Date;
+  kind: StatementActivityKind;
+  description: string;
+  amount: number;
+}
+
+export interface StatementSummary {
+  openingBalance: number;
+  contributions: number; // Net of refunds
+  rentReceived: number;
+  expensesAllocated: number;
+  distributions: number;
+  saleProceeds: number;
+  closingBalance: number;
+  lines: Array<StatementActivity & { balance: number }>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * The calendar month (1-12) or year a statement covers
+ */
+export function statementPeriod(periodType: StatementPeriodType, year: number, month?: number): StatementPeriod {
+  const periodStart = periodType === "annual"
+    ? new Date(Date.UTC(year, 0, 1))
+    : new Date(Date.UTC(year, (month ?? 1) - 1, 1));
+  const endsBefore = periodType === "annual"
+    ? new Date(Date.UTC(year + 1, 0, 1))
+    : new Date(Date.UTC(year, month ?? 1, 1));
+  return { periodType, periodStart, periodEnd: new Date(endsBefore.getTime() - DAY_MS), endsBefore };
+}
+
+/**
+ * Statements are only issued once their period is over, so they never change after issue
+ */
+export function isPeriodClosed(period: StatementPeriod, now: Date = new Date()): boolean {
+  return period.endsBefore.getTime() <= now.getTime();
+}
+
+/**
+ * Periods the schedule issues statements for: the last full month and the last full year
+ */
+export function dueStatementPeriods(now: Date = new Date()): StatementPeriod[] {
+  const year = now.getUTCFullYear();
+  const month = now.getUTCMonth(); // Zero-based, so this is last month's number
+  return [
+    month === 0 ? statementPeriod("monthly", year - 1, 12) : statementPeriod("monthly", year, month),
+    statementPeriod("annual", year - 1),
+  ];
+}
+
+/**
+ * e.g. "March 2026" or "2026"
+ */
+export function formatStatementPeriod(period: Pick<StatementPeriod, "periodType" | "periodStart">, locale: string = "en-US"): string {
+  return period.periodType === "annual"
+    ? String(period.periodStart.getUTCFullYear())
+    : period.periodStart.toLocaleDateString(locale, { month: "long", year: "numeric", timeZone: "UTC" });
+}
+
+/**
+ * Opening balance, period totals and closing balance from the owner's full activity history
+ */
+export function summarizeStatement(activity: StatementActivity[], period: StatementPeriod): StatementSummary {
+  // Work in cents so totals are exact
+  const cents = (amount: number) => Math.round(amount * 100);
+  const sorted = [...activity].sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  let opening = 0;
+  let contributions = 0;
+  let rent = 0;
+  let expenses = 0;
+  let distributions = 0;
+  let sale = 0;
+  let running = 0;
+  const lines: StatementSummary["lines"] = [];
+
+  for (const item of sorted) {
+    const time = item.date.getTime();
+    if (time >= period.endsBefore.getTime()) {
+      continue;
+    }
+    const amount = cents(item.amount);
+    if (time < period.periodStart.getTime()) {
+      opening += amount;
+      running = opening;
+      continue;
+    }
+
+    if (item.kind === "contribution" || item.kind === "refund") contributions += amount;
+    if (item.kind === "rent") rent += amount;
+    if (item.kind === "expense") expenses -= amount;
+    if (item.kind === "distribution") distributions -= amount;
+    if (item.kind === "sale") sale += amount;
+    running += amount;
+    lines.push({ ...item, balance: running / 100 });
+  }
+
+  return {
+    openingBalance: opening / 100,
+    contributions: contributions / 100,
+    rentReceived: rent / 100,
+    expensesAllocated: expenses / 100,
+    distributions: distributions / 100,
+    saleProceeds: sale / 100,
+    closingBalance: (opening + contributions + rent - expenses - distributions + sale) / 100,
+    lines,
+  };
+}
+
+function csvValue(value: string | number): string {
+  const stringValue = String(value);
+  if (stringValue.includes(",") || stringValue.includes("\"") || stringValue.includes("\n")) {
+    return `"${stringValue.replace(/"/g, "\"\"")}"`;
+  }
+  return stringValue;
+}
+
+/**
+ * CSV export of a statement: a summary block, then one row per movement with the running balance
+ */
+export function buildStatementCSV(options: {
+  statementNumber: string;
+  investorName: string;
+  propertyTitle: string;
+  period: StatementPeriod;
+  summary: StatementSummary;
+}): string {
+  const { statementNumber, investorName, propertyTitle, period, summary } = options;
+  const amount = (value: number) => value.toFixed(2);
+  const day = (date: Date) => date.toISOString().slice(0, 10);
+
+  const rows: Array<Array<string | number>> = [
+    ["statement_number", statementNumber],
+    ["investor", investorName],
+    ["property", propertyTitle],
+    ["period", formatStatementPeriod(period)],
+    ["period_start", day(period.periodStart)],
+    ["period_end", day(period.periodEnd)],
+    ["opening_balance", amount(summary.openingBalance)],
+    ["contributions", amount(summary.contributions)],
+    ["rent_received", amount(summary.rentReceived)],
+    ["expenses_allocated", amount(summary.expensesAllocated)],
+    ["distributions", amount(summary.distributions)],
+    ["sale_proceeds", amount(summary.saleProceeds)],
+    ["closing_balance", amount(summary.closingBalance)],
+    [],
+    ["date", "type", "description", "amount_aed", "balance_aed"],
+    ...summary.lines.map(line => [day(line.date), line.kind, line.description, amount(line.amount), amount(line.balance)]),
+  ];
+
+  return rows.map(row => row.map(csvValue).join(",")).join("\n");
+}
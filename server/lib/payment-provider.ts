@@ -0,0 +1,375 @@
+import crypto from "crypto";
+import type { IncomingHttpHeaders } from "http";
+
+// Tap charge statuses; the mock gateway uses the same set
+export type ChargeStatus = "INITIATED" | "CAPTURED" | "FAILED" | "CANCELLED" | "DECLINED" | "ABANDONED" | "REFUNDED";
+
+// Final statuses of a checkout that took no money
+export const unpaidChargeStatuses: readonly string[] = ["FAILED", "CANCELLED", "DECLINED", "ABANDONED"];
+
+export interface ChargeCustomer {
+  email: string;
+  firstName: string;
+  lastName: string;
+  phone?: string; // UAE local number without country code
+}
+
+export interface CreateChargeRequest {
+  amount: number; // AED
+  description: string;
+  customer: ChargeCustomer;
+  metadata: Record<string, string>;
+  redirectUrl: string; // Where the hosted checkout sends the investor afterwards
+  webhookUrl: string; // Where the provider posts the final charge
+}
+
+export interface Charge {
+  id: string;
+  status: ChargeStatus | string;
+  amount: number;
+  currency: string;
+  metadata: Record<string, string>;
+  paymentMethod: string | null;
+  checkoutUrl: string | null; // Hosted payment page, while the charge is INITIATED
+}
+
+export interface Refund {
+  id: string;
+  chargeId: string;
+  amount: number;
+  status: string;
+}
+
+/**
+ * Card payment backend
+ */
+export interface PaymentProvider {
+  readonly name: string;
+  createCharge(request: CreateChargeRequest): Promise<Charge>;
+  retrieveCharge(chargeId: string): Promise<Charge>;
+  refundCharge(chargeId: string, amount: number, reason: string): Promise<Refund>;
+  /**
+   * Check a webhook's signature against the raw request body and parse it.
+   * Returns null when the signature is missing or wrong.
+   */
+  verifyWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): Charge | null;
+}
+
+export class PaymentProviderError extends Error {
+  constructor(message: string, public status: number = 502, public details?: unknown) {
+    super(message);
+    this.name = "PaymentProviderError";
+  }
+}
+
+/**
+ * Hex HMAC-SHA256 of a payload
+ */
+export function signPayload(payload: Buffer | string, secret: string): string {
+  return crypto.createHmac("sha256", secret).update(payload).digest("hex");
+}
+
+/**
+ * Timing-safe check of a hex HMAC-SHA256 signature
+ */
+function isValidSignature(rawBody: Buffer, signature: string | string[] | undefined, secret: string): boolean {
+  // Must be a 64-char lowercase hex SHA-256 digest
+  if (typeof signature !== "string" || !/^[a-f0-9]{64}$/.test(signature)) {
+    return false;
+  }
+
+  const signatureBuffer = Buffer.from(signature, "hex");
+  const expectedBuffer = Buffer.from(signPayload(rawBody, secret), "hex");
+  return signatureBuffer.length === expectedBuffer.length && crypto.timingSafeEqual(signatureBuffer, expectedBuffer);
+}
+
+/**
+ * Map a Tap charge object (API response or webhook body) to a Charge
+ */
+function fromTapCharge(charge: any): Charge {
+  return {
+    id: charge.id,
+    status: charge.status,
+    amount: Number(charge.amount),
+    currency: charge.currency || "AED",
+    metadata: charge.metadata || {},
+    paymentMethod: charge.source?.payment_method || null,
+    checkoutUrl: charge.transaction?.url || null,
+  };
+}
+
+/**
+ * Tap Payments (production)
+ */
+export class TapPaymentProvider implements PaymentProvider {
+  readonly name = "tap";
+  private baseUrl = "https://api.tap.company/v2";
+
+  constructor(private secretKey: string) {}
+
+  private async request(method: string, path: string, body?: unknown): Promise<any> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method,
+      headers: {
+        "Authorization": `Bearer ${this.secretKey}`,
+        "Content-Type": "application/json",
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new PaymentProviderError(`Tap request failed: ${method} ${path}`, response.status === 404 ? 404 : 502, data);
+    }
+    return data;
+  }
+
+  async createCharge(request: CreateChargeRequest): Promise<Charge> {
+    const charge = await this.request("POST", "/charges", {
+      amount: request.amount,
+      currency: "AED",
+      customer: {
+        email: request.customer.email,
+        first_name: request.customer.firstName,
+        last_name: request.customer.lastName,
+        phone: request.customer.phone ? {
+          country_code: "+971",
+          number: request.customer.phone,
+        } : undefined,
+      },
+      source: {
+        id: "src_all",
+      },
+      redirect: {
+        url: request.redirectUrl,
+      },
+      post: {
+        url: request.webhookUrl,
+      },
+      description: request.description,
+      metadata: request.metadata,
+    });
+    return fromTapCharge(charge);
+  }
+
+  async retrieveCharge(chargeId: string): Promise<Charge> {
+    return fromTapCharge(await this.request("GET", `/charges/${encodeURIComponent(chargeId)}`));
+  }
+
+  async refundCharge(chargeId: string, amount: number, reason: string): Promise<Refund> {
+    const refund = await this.request("POST", "/refunds", {
+      charge_id: chargeId,
+      amount,
+      currency: "AED",
+      reason,
+    });
+    return {
+      id: refund.id,
+      chargeId,
+      amount: Number(refund.amount),
+      status: refund.status,
+    };
+  }
+
+  verifyWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): Charge | null {
+    if (!isValidSignature(rawBody, headers["x-tap-signature"], this.secretKey)) {
+      return null;
+    }
+    // Parse JSON only after the signature checks out
+    return fromTapCharge(JSON.parse(rawBody.toString("utf8")));
+  }
+}
+
+interface MockCharge extends Charge {
+  description: string;
+  customer: ChargeCustomer;
+  redirectUrl: string;
+  webhookUrl: string;
+  refundedAmount: number;
+}
+
+export type MockCheckoutOutcome = "CAPTURED" | "DECLINED" | "CANCELLED" | "FAILED";
+
+/**
+ * In-memory gateway with a fake hosted checkout (development and tests)
+ * Charges live until the process restarts. See mock-gateway.ts for the checkout pages.
+ */
+export class MockPaymentProvider implements PaymentProvider {
+  readonly name = "mock";
+  private charges = new Map<string, MockCharge>();
+
+  constructor(private secret: string, private checkoutBaseUrl: string = "") {}
+
+  private toCharge(charge: MockCharge): Charge {
+    return {
+      id: charge.id,
+      status: charge.status,
+      amount: charge.amount,
+      currency: charge.currency,
+      metadata: charge.metadata,
+      paymentMethod: charge.paymentMethod,
+      checkoutUrl: charge.checkoutUrl,
+    };
+  }
+
+  async createCharge(request: CreateChargeRequest): Promise<Charge> {
+    const id = `chg_mock_${crypto.randomBytes(12).toString("hex")}`;
+    // Checkout links are relative to the webhook's origin unless a base URL is configured
+    const baseUrl = this.checkoutBaseUrl || new URL(request.webhookUrl).origin;
+    const charge: MockCharge = {
+      id,
+      status: "INITIATED",
+      amount: request.amount,
+      currency: "AED",
+      metadata: request.metadata,
+      paymentMethod: null,
+      checkoutUrl: `${baseUrl}/mock-gateway/checkout/${id}`,
+      description: request.description,
+      customer: request.customer,
+      redirectUrl: request.redirectUrl,
+      webhookUrl: request.webhookUrl,
+      refundedAmount: 0,
+    };
+    this.charges.set(id, charge);
+    return this.toCharge(charge);
+  }
+
+  async retrieveCharge(chargeId: string): Promise<Charge> {
+    const charge = this.charges.get(chargeId);
+    if (!charge) {
+      throw new PaymentProviderError("Charge not found", 404);
+    }
+    return this.toCharge(charge);
+  }
+
+  async refundCharge(chargeId: string, amount: number, reason: string): Promise<Refund> {
+    const charge = this.charges.get(chargeId);
+    if (!charge) {
+      throw new PaymentProviderError("Charge not found", 404);
+    }
+    if (charge.status !== "CAPTURED" && charge.status !== "REFUNDED") {
+      throw new PaymentProviderError("Only captured charges can be refunded", 400);
+    }
+    if (amount <= 0 || charge.refundedAmount + amount > charge.amount + 0.001) {
+      throw new PaymentProviderError("Refund exceeds the captured amount", 400);
+    }
+
+    charge.refundedAmount += amount;
+    if (charge.refundedAmount >= charge.amount - 0.001) {
+      charge.status = "REFUNDED";
+    }
+    console.log(`Mock refund of AED ${amount} on ${chargeId}: ${reason}`);
+
+    return {
+      id: `re_mock_${crypto.randomBytes(12).toString("hex")}`,
+      chargeId,
+      amount,
+      status: "REFUNDED",
+    };
+  }
+
+  verifyWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): Charge | null {
+    if (!isValidSignature(rawBody, headers["x-mock-signature"], this.secret)) {
+      return null;
+    }
+    return fromTapCharge(JSON.parse(rawBody.toString("utf8")));
+  }
+
+  /**
+   * Charge details for the checkout page
+   */
+  getCheckout(chargeId: string): (Charge & { description: string; customer: ChargeCustomer }) | undefined {
+    const charge = this.charges.get(chargeId);
+    return charge ? { ...this.toCharge(charge), description: charge.description, customer: charge.customer } : undefined;
+  }
+
+  /**
+   * Settle a checkout and post the signed webhook, as the real gateway would.
+   * Returns the URL to send the investor back to.
+   */
+  async completeCheckout(chargeId: string, outcome: MockCheckoutOutcome): Promise<string> {
+    const charge = this.charges.get(chargeId);
+    if (!charge) {
+      throw new PaymentProviderError("Charge not found", 404);
+    }
+    if (charge.status !== "INITIATED") {
+      throw new PaymentProviderError("Charge has already been processed", 409);
+    }
+
+    charge.status = outcome;
+    charge.checkoutUrl = null;
+    charge.paymentMethod = outcome === "CAPTURED" ? "VISA" : null;
+
+    // Same body shape as a Tap charge webhook
+    const body = JSON.stringify({
+      id: charge.id,
+      object: "charge",
+      status: charge.status,
+      amount: charge.amount,
+      currency: charge.currency,
+      metadata: charge.metadata,
+      source: { payment_method: charge.paymentMethod },
+    });
+
+    try {
+      const response = await fetch(charge.webhookUrl, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-mock-signature": signPayload(body, this.secret),
+        },
+        body,
+      });
+      console.log(`Mock gateway webhook for ${charge.id} (${outcome}) answered ${response.status}`);
+    } catch (error: any) {
+      // A real gateway retries later; the charge can still be read back
+      console.error(`Mock gateway webhook for ${charge.id} failed:`, error.message);
+    }
+
+    const redirect = new URL(charge.redirectUrl);
+    redirect.searchParams.set("tap_id", charge.id);
+    return redirect.toString();
+  }
+}
+
+/**
+ * Pick a provider from the environment
+ * PAYMENT_PROVIDER=tap|mock (defaults to tap in production, mock otherwise)
+ */
+export function createPaymentProviderFromEnv(): PaymentProvider {
+  const provider = process.env.PAYMENT_PROVIDER || (process.env.NODE_ENV === "production" ? "tap" : "mock");
+
+  switch (provider) {
+    case "tap":
+      if (!process.env.TAP_SECRET_KEY) {
+        throw new Error("TAP_SECRET_KEY environment variable is not set");
+      }
+      return new TapPaymentProvider(process.env.TAP_SECRET_KEY);
+    case "mock":
+      return new MockPaymentProvider(
+        process.env.MOCK_GATEWAY_SECRET || "mock-gateway-development-secret",
+        process.env.MOCK_GATEWAY_URL
+      );
+    default:
+      throw new Error(`Unknown PAYMENT_PROVIDER: ${provider}`);
+  }
+}
+
+let providerInstance: PaymentProvider | null = null;
+
+/**
+ * Process-wide payment provider, created lazily from the environment
+ */
+export function getPaymentProvider(): PaymentProvider {
+  if (!providerInstance) {
+    providerInstance = createPaymentProviderFromEnv();
+  }
+  return providerInstance;
+}
+
+/**
+ * Swap the provider (tests)
+ */
+export function setPaymentProvider(provider: PaymentProvider): void {
+  providerInstance = provider;
+}
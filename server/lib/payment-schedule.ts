@@ -0,0 +1,92 @@
+import type { Property, PaymentPlanInstalment, InstalmentPayment, CoOwnerSlot } from "@shared/schema";
+
+const DUE_SOON_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type InstalmentDueStatus = "paid" | "overdue" | "due_soon" | "upcoming" | "awaiting_milestone";
+
+export interface InstalmentDue {
+  instalmentId: string;
+  slotId: string;
+  propertyId: string;
+  propertyTitle: string;
+  sequence: number;
+  label: string;
+  triggerType: string;
+  milestoneName: string | null;
+  instalmentPercentage: number; // Of the property price
+  sharePercentage: number; // Co-owner's share of the property
+  amount: string; // Co-owner's share of the instalment, AED
+  dueDate: Date | null;
+  status: InstalmentDueStatus;
+  daysOverdue: number;
+  paidAt: Date | null;
+}
+
+/**
+ * A co-owner's amount for one instalment: price x instalment % x share %, rounded to fils
+ */
+export function calculateInstalmentShare(totalPrice: string | number, instalmentPercentage: string | number, sharePercentage: string | number): string {
+  const amount = Number(totalPrice) * (Number(instalmentPercentage) / 100) * (Number(sharePercentage) / 100);
+  return (Math.round(amount * 100) / 100).toFixed(2);
+}
+
+/**
+ * Price of a co-owner's whole share: price x share %, rounded to fils
+ */
+export function calculateSlotAmount(totalPrice: string | number, sharePercentage: string | number): string {
+  return calculateInstalmentShare(totalPrice, 100, sharePercentage);
+}
+
+function getDueStatus(instalment: PaymentPlanInstalment, payment: InstalmentPayment | undefined, now: Date): InstalmentDueStatus {
+  if (payment) {
+    return "paid";
+  }
+  if (!instalment.dueDate) {
+    return "awaiting_milestone";
+  }
+  if (instalment.dueDate < now) {
+    return "overdue";
+  }
+  if (instalment.dueDate.getTime() - now.getTime() <= DUE_SOON_DAYS * DAY_MS) {
+    return "due_soon";
+  }
+  return "upcoming";
+}
+
+/**
+ * Expand a property's payment plan into dues for one co-owner slot
+ */
+export function buildSlotSchedule(
+  property: Property,
+  instalments: PaymentPlanInstalment[],
+  slot: CoOwnerSlot,
+  payments: InstalmentPayment[],
+  now: Date = new Date()
+): InstalmentDue[] {
+  return instalments
+    .slice()
+    .sort((a, b) => a.sequence - b.sequence)
+    .map(instalment => {
+      const payment = payments.find(p => p.instalmentId === instalment.id && p.slotId === slot.id);
+      const status = getDueStatus(instalment, payment, now);
+
+      return {
+        instalmentId: instalment.id,
+        slotId: slot.id,
+        propertyId: property.id,
+        propertyTitle: property.title,
+        sequence: instalment.sequence,
+        label: instalment.label,
+        triggerType: instalment.triggerType,
+        milestoneName: instalment.milestoneName,
+        instalmentPercentage: Number(instalment.percentage),
+        sharePercentage: Number(slot.sharePercentage),
+        amount: calculateInstalmentShare(property.totalPrice, instalment.percentage, slot.sharePercentage),
+        dueDate: instalment.dueDate,
+        status,
+        daysOverdue: status === "overdue" ? Math.floor((now.getTime() - instalment.dueDate!.getTime()) / DAY_MS) : 0,
+        paidAt: payment?.paidAt ?? null,
+      };
+    });
+}
@@ -1,10 +1,13 @@
-import { PDFDocument, rgb, StandardFonts } from "pdf-lib";
-import type { Investor, Property, AgreementTemplate } from "@shared/schema";
+import { PDFDocument, rgb, StandardFonts, type PDFFont, type PDFPage } from "pdf-lib";
+import fontkit from "@pdf-lib/fontkit";
+import type { Investor, Property, AgreementTemplate, Payment, GovernanceProposal, PropertyExit, ExitPayout } from "@shared/schema";
 import * as fs from "fs";
 import * as path from "path";
 import { fileURLToPath } from "url";
 import arabicReshaper from "arabic-reshaper";
 import bidiFactory from "bidi-js";
+import { toCents } from "./ledger";
+import { formatStatementPeriod, type StatementPeriod, type StatementSummary, type StatementActivityKind } from "./owner-statements";
 
 // Load Arabic font at module level
 const __filename = fileURLToPath(import.meta.url);
@@ -25,6 +28,14 @@ async function getArabicFont(): Promise<Uint8Array> {
   return arabicFontBytes;
 }
 
+/**
+ * Embed the Arabic font; custom TTF fonts need fontkit registered on the document
+ */
+async function embedArabicFont(pdfDoc: PDFDocument): Promise<PDFFont> {
+  pdfDoc.registerFontkit(fontkit);
+  return await pdfDoc.embedFont(await getArabicFont());
+}
+
 interface SignatureData {
   signatureImage: string; // Base64 data URL
   signedAt: Date;
@@ -82,10 +93,12 @@ function shapeArabicText(text: string, language: "en" | "ar"): string {
   
   try {
     // Step 1: Reshape Arabic glyphs (connects them properly)
-    const shaped = arabicReshaper(text);
+    // Diacritics are dropped: once reordered they land before their base letter and break glyph positioning
+    const shaped = arabicReshaper.convertArabic(text.replace(/[\u064B-\u0652]/g, ""));
     
     // Step 2: Apply proper Unicode bidi algorithm (preserves number order)
-    const bidiText = bidi.reorderVisually(shaped, "RTL");
+    const embeddingLevels = bidi.getEmbeddingLevels(shaped, "rtl");
+    const bidiText = bidi.getReorderedString(shaped, embeddingLevels);
     
     return bidiText;
   } catch (error) {
@@ -173,8 +186,7 @@ export async function generateSignedPDF(options: GeneratePDFOptions): Promise<Ui
   
   if (language === "ar") {
     // For Arabic, embed Noto Sans Arabic font
-    const arabicBytes = await getArabicFont();
-    const arabicFont = await pdfDoc.embedFont(arabicBytes);
+    const arabicFont = await embedArabicFont(pdfDoc);
     bodyFont = arabicFont;
     headerFont = arabicFont;
     detailFont = arabicFont;
@@ -479,8 +491,7 @@ export async function generateAggregatedPDF(options: GenerateAggregatedPDFOption
   
   if (language === "ar") {
     // For Arabic, embed Noto Sans Arabic font
-    const arabicBytes = await getArabicFont();
-    const arabicFont = await pdfDoc.embedFont(arabicBytes);
+    const arabicFont = await embedArabicFont(pdfDoc);
     bodyFont = arabicFont;
     headerFont = arabicFont;
     detailFont = arabicFont;
@@ -755,3 +766,790 @@ export async function generateAggregatedPDF(options: GenerateAggregatedPDFOption
 
   return await pdfDoc.save();
 }
+
+interface GenerateReceiptPDFOptions {
+  receiptNumber: string;
+  issuedAt: Date;
+  payment: Payment;
+  investor: Investor;
+  property: Property;
+  sharePercentage: string | null; // Null for purchases made before reservation slots
+  transferReference: string | null; // Bank transfers only
+  companyTrn?: string | null; // Makes the receipt a tax invoice
+  language?: "en" | "ar";
+}
+
+/**
+ * Receipt labels; the document title is always shown in both languages
+ */
+const receiptLabels = {
+  en: {
+    receipt: "Payment Receipt",
+    taxInvoice: "Tax Invoice",
+    receiptNumber: "Receipt No.",
+    issued: "Issued",
+    trn: "Supplier TRN",
+    billedTo: "Received From",
+    investorEmail: "Email",
+    property: "Property",
+    location: "Location",
+    share: "Ownership Share",
+    paymentDetails: "Payment",
+    paidOn: "Paid On",
+    method: "Payment Method",
+    chargeId: "Tap Charge ID",
+    transferReference: "Transfer Reference",
+    escrow: "Escrow Account (IBAN)",
+    subtotal: "Amount",
+    vat: "VAT (0%, zero-rated residential)",
+    total: "Total Paid",
+    bankTransfer: "Bank transfer",
+    card: "Card",
+    notProvided: "Not provided",
+    footer: "Funds are held in the project escrow account under Dubai Law No. 8 of 2007.",
+  },
+  ar: {
+    receipt: "إيصال دفع",
+    taxInvoice: "فاتورة ضريبية",
+    receiptNumber: "رقم الإيصال",
+    issued: "تاريخ الإصدار",
+    trn: "الرقم الضريبي للمورد",
+    billedTo: "استلمنا من",
+    investorEmail: "البريد الإلكتروني",
+    property: "العقار",
+    location: "الموقع",
+    share: "حصة الملكية",
+    paymentDetails: "الدفعة",
+    paidOn: "تاريخ الدفع",
+    method: "طريقة الدفع",
+    chargeId: "رقم عملية Tap",
+    transferReference: "مرجع التحويل",
+    escrow: "حساب الضمان (IBAN)",
+    subtotal: "المبلغ",
+    vat: "ضريبة القيمة المضافة (٠٪)",
+    total: "إجمالي المدفوع",
+    bankTransfer: "تحويل بنكي",
+    card: "بطاقة",
+    notProvided: "غير متوفر",
+    footer: "الأموال محفوظة في حساب ضمان المشروع وفقاً لقانون دبي رقم ٨ لسنة ٢٠٠٧.",
+  },
+};
+
+/**
+ * Format an AED amount with two decimals, in Eastern Arabic numerals for Arabic receipts
+ */
+function formatReceiptAmount(amount: number, language: "en" | "ar"): string {
+  const formatted = amount.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  return language === "ar" ? `${toArabicNumerals(formatted)} درهم` : `AED ${formatted}`;
+}
+
+/**
+ * Generate a numbered payment receipt (a tax invoice when a TRN is configured)
+ * Laid out right to left for Arabic receipts.
+ */
+export async function generateReceiptPDF(options: GenerateReceiptPDFOptions): Promise<Uint8Array> {
+  const { receiptNumber, issuedAt, payment, investor, property, sharePercentage, transferReference, companyTrn, language = "en" } = options;
+  const labels = receiptLabels[language];
+  const isRTL = language === "ar";
+
+  const pdfDoc = await PDFDocument.create();
+  pdfDoc.setTitle(`${receiptNumber} - ${companyTrn ? receiptLabels.en.taxInvoice : receiptLabels.en.receipt}`);
+
+  // The Arabic font also covers Latin text, so Arabic receipts use it throughout
+  const arabicFont = await embedArabicFont(pdfDoc);
+  const bodyFont = isRTL ? arabicFont : await pdfDoc.embedFont(StandardFonts.Helvetica);
+  const boldFont = isRTL ? arabicFont : await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+
+  const pageWidth = 595;
+  const pageHeight = 842;
+  const margin = 50;
+  const valueOffset = 190; // Distance from the label edge to the value column
+
+  const page = pdfDoc.addPage([pageWidth, pageHeight]);
+  let yPosition = pageHeight - margin;
+
+  // Draw text from the reading edge: left for English, right for Arabic
+  const drawAligned = (target: PDFPage, text: string, size: number, font: PDFFont, inset: number = 0, color = rgb(0, 0, 0), rtl: boolean = isRTL) => {
+    const shaped = shapeArabicText(text, rtl ? "ar" : "en");
+    const x = rtl
+      ? pageWidth - margin - inset - font.widthOfTextAtSize(shaped, size)
+      : margin + inset;
+    target.drawText(shaped, { x, y: yPosition, size, font, color });
+  };
+
+  const drawRow = (label: string, value: string, bold: boolean = false) => {
+    drawAligned(page, label, 10, bodyFont, 0, rgb(0.4, 0.4, 0.4));
+    drawAligned(page, value, bold ? 12 : 10, bold ? boldFont : bodyFont, valueOffset);
+    yPosition -= bold ? 20 : 16;
+  };
+
+  const drawSection = (title: string) => {
+    yPosition -= 10;
+    drawAligned(page, title, 12, boldFont);
+    yPosition -= 6;
+    page.drawLine({
+      start: { x: margin, y: yPosition },
+      end: { x: pageWidth - margin, y: yPosition },
+      thickness: 0.5,
+      color: rgb(0.8, 0.8, 0.8),
+    });
+    yPosition -= 16;
+  };
+
+  const formatDate = (date: Date) => isRTL
+    ? formatArabicDate(date)
+    : date.toLocaleDateString("en-US", { year: "numeric", month: "long", day: "numeric" });
+
+  // Header: company on the reading edge, bilingual document title below
+  drawAligned(page, isRTL ? "دبي للملكية الجزئية خارج الخطة (FOPD)" : "FRACTIONAL OFF-PLAN DUBAI (FOPD)", 16, boldFont);
+  yPosition -= 28;
+  const englishTitle = companyTrn ? receiptLabels.en.taxInvoice : receiptLabels.en.receipt;
+  const arabicTitle = companyTrn ? receiptLabels.ar.taxInvoice : receiptLabels.ar.receipt;
+  drawAligned(page, englishTitle.toUpperCase(), 14, isRTL ? arabicFont : boldFont, 0, rgb(0.2, 0.2, 0.2), false);
+  drawAligned(page, arabicTitle, 14, arabicFont, 0, rgb(0.2, 0.2, 0.2), true);
+  yPosition -= 30;
+
+  drawRow(labels.receiptNumber, receiptNumber);
+  drawRow(labels.issued, formatDate(issuedAt));
+  if (companyTrn) {
+    drawRow(labels.trn, companyTrn);
+  }
+
+  drawSection(labels.billedTo);
+  drawRow(isRTL ? "الاسم" : "Name", investor.fullName);
+  drawRow(labels.investorEmail, investor.email);
+
+  drawSection(labels.property);
+  drawRow(labels.property, property.title);
+  drawRow(labels.location, property.location);
+  if (sharePercentage) {
+    const share = `${Number(sharePercentage).toFixed(2)}%`;
+    drawRow(labels.share, isRTL ? toArabicNumerals(share) : share);
+  }
+
+  drawSection(labels.paymentDetails);
+  drawRow(labels.paidOn, formatDate(payment.completedAt || payment.createdAt));
+  const isBankTransfer = payment.paymentMethod === "bank_transfer";
+  const method = isBankTransfer
+    ? labels.bankTransfer
+    : payment.paymentMethod ? `${labels.card} (${payment.paymentMethod})` : labels.card;
+  drawRow(labels.method, method);
+  if (payment.tapChargeId) {
+    drawRow(labels.chargeId, payment.tapChargeId);
+  }
+  if (transferReference) {
+    drawRow(labels.transferReference, transferReference);
+  }
+  drawRow(labels.escrow, property.escrowIban || labels.notProvided);
+
+  yPosition -= 10;
+  const amount = Number(payment.amount);
+  drawRow(labels.subtotal, formatReceiptAmount(amount, language));
+  if (companyTrn) {
+    drawRow(labels.vat, formatReceiptAmount(0, language));
+  }
+  drawRow(labels.total, formatReceiptAmount(amount, language), true);
+
+  // Footer
+  yPosition = 50;
+  drawAligned(page, labels.footer, 8, bodyFont, 0, rgb(0.5, 0.5, 0.5));
+  yPosition = 36;
+  drawAligned(page, `${receiptNumber} | Payment ID: ${payment.id}`, 7, bodyFont, 0, rgb(0.6, 0.6, 0.6), false);
+
+  return await pdfDoc.save();
+}
+
+interface GenerateOwnerStatementPDFOptions {
+  statementNumber: string;
+  issuedAt: Date;
+  investor: Investor;
+  property: Property;
+  sharePercentage: string | null;
+  period: StatementPeriod;
+  summary: StatementSummary;
+  language?: "en" | "ar";
+}
+
+/**
+ * Owner statement labels; the document title is always shown in both languages
+ */
+const statementLabels = {
+  en: {
+    title: "Owner Statement",
+    statementNumber: "Statement No.",
+    period: "Period",
+    issued: "Issued",
+    owner: "Owner",
+    name: "Name",
+    property: "Property",
+    location: "Location",
+    share: "Ownership Share",
+    summary: "Summary",
+    openingBalance: "Opening balance",
+    contributions: "Contributions",
+    rentReceived: "Rent received",
+    expensesAllocated: "Expenses allocated",
+    distributions: "Distributions paid",
+    saleProceeds: "Sale proceeds",
+    closingBalance: "Closing balance",
+    activity: "Activity",
+    date: "Date",
+    description: "Description",
+    amount: "Amount",
+    balance: "Balance",
+    noActivity: "No activity in this period",
+    footer: "Contributions are held in the project escrow account (Dubai Law No. 8 of 2007). Rent and expenses are shared by ownership.",
+  },
+  ar: {
+    title: "كشف حساب المالك",
+    statementNumber: "رقم الكشف",
+    period: "الفترة",
+    issued: "تاريخ الإصدار",
+    owner: "المالك",
+    name: "الاسم",
+    property: "العقار",
+    location: "الموقع",
+    share: "حصة الملكية",
+    summary: "الملخص",
+    openingBalance: "الرصيد الافتتاحي",
+    contributions: "المساهمات",
+    rentReceived: "الإيجار المستلم",
+    expensesAllocated: "المصروفات المخصصة",
+    distributions: "التوزيعات المدفوعة",
+    saleProceeds: "عائدات البيع",
+    closingBalance: "الرصيد الختامي",
+    activity: "الحركات",
+    date: "التاريخ",
+    description: "البيان",
+    amount: "المبلغ",
+    balance: "الرصيد",
+    noActivity: "لا توجد حركات في هذه الفترة",
+    footer: "المساهمات محفوظة في حساب ضمان المشروع وفقاً لقانون دبي رقم ٨ لسنة ٢٠٠٧. يتم توزيع الإيجار والمصروفات حسب الملكية.",
+  },
+};
+
+const statementActivityLabels: Record<"en" | "ar", Record<StatementActivityKind, string>> = {
+  en: { contribution: "Contribution", refund: "Refund", rent: "Rent", expense: "Expense", distribution: "Distribution", sale: "Sale" },
+  ar: { contribution: "مساهمة", refund: "استرداد", rent: "إيجار", expense: "مصروف", distribution: "توزيع", sale: "بيع" },
+};
+
+/**
+ * Generate a monthly or annual owner statement for one property
+ * Laid out right to left for Arabic statements; the activity table continues onto further pages.
+ */
+export async function generateOwnerStatementPDF(options: GenerateOwnerStatementPDFOptions): Promise<Uint8Array> {
+  const { statementNumber, issuedAt, investor, property, sharePercentage, period, summary, language = "en" } = options;
+  const labels = statementLabels[language];
+  const isRTL = language === "ar";
+
+  const pdfDoc = await PDFDocument.create();
+  pdfDoc.setTitle(`${statementNumber} - ${statementLabels.en.title} ${formatStatementPeriod(period)}`);
+
+  // The Arabic font also covers Latin text, so Arabic statements use it throughout
+  const arabicFont = await embedArabicFont(pdfDoc);
+  const bodyFont = isRTL ? arabicFont : await pdfDoc.embedFont(StandardFonts.Helvetica);
+  const boldFont = isRTL ? arabicFont : await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+
+  const pageWidth = 595;
+  const pageHeight = 842;
+  const margin = 50;
+  const valueOffset = 190; // Distance from the label edge to the value column
+
+  let page = pdfDoc.addPage([pageWidth, pageHeight]);
+  let yPosition = pageHeight - margin;
+
+  // Draw text from the reading edge: left for English, right for Arabic
+  const drawAligned = (text: string, size: number, font: PDFFont, inset: number = 0, color = rgb(0, 0, 0), rtl: boolean = isRTL) => {
+    const shaped = shapeArabicText(text, rtl ? "ar" : "en");
+    const x = rtl
+      ? pageWidth - margin - inset - font.widthOfTextAtSize(shaped, size)
+      : margin + inset;
+    page.drawText(shaped, { x, y: yPosition, size, font, color });
+  };
+
+  // Draw text ending at a column edge measured from the reading edge, for amounts
+  const drawColumnEnd = (text: string, size: number, font: PDFFont, edge: number) => {
+    const shaped = shapeArabicText(text, language);
+    const width = font.widthOfTextAtSize(shaped, size);
+    const x = isRTL ? pageWidth - margin - edge : margin + edge - width;
+    page.drawText(shaped, { x, y: yPosition, size, font });
+  };
+
+  const drawRow = (label: string, value: string, bold: boolean = false) => {
+    drawAligned(label, 10, bodyFont, 0, rgb(0.4, 0.4, 0.4));
+    drawAligned(value, bold ? 12 : 10, bold ? boldFont : bodyFont, valueOffset);
+    yPosition -= bold ? 20 : 16;
+  };
+
+  const drawRule = () => {
+    page.drawLine({
+      start: { x: margin, y: yPosition },
+      end: { x: pageWidth - margin, y: yPosition },
+      thickness: 0.5,
+      color: rgb(0.8, 0.8, 0.8),
+    });
+  };
+
+  const drawSection = (title: string) => {
+    yPosition -= 10;
+    drawAligned(title, 12, boldFont);
+    yPosition -= 6;
+    drawRule();
+    yPosition -= 16;
+  };
+
+  const formatDate = (date: Date) => isRTL
+    ? formatArabicDate(date)
+    : date.toLocaleDateString("en-US", { year: "numeric", month: "long", day: "numeric", timeZone: "UTC" });
+  const formatShortDate = (date: Date) => {
+    const formatted = date.toISOString().slice(0, 10);
+    return isRTL ? toArabicNumerals(formatted) : formatted;
+  };
+  const formatPeriod = () => {
+    const formatted = formatStatementPeriod(period, isRTL ? "ar-AE" : "en-US");
+    return isRTL ? toArabicNumerals(formatted) : formatted;
+  };
+
+  // Header: company on the reading edge, bilingual document title below
+  drawAligned(isRTL ? "دبي للملكية الجزئية خارج الخطة (FOPD)" : "FRACTIONAL OFF-PLAN DUBAI (FOPD)", 16, boldFont);
+  yPosition -= 28;
+  drawAligned(statementLabels.en.title.toUpperCase(), 14, isRTL ? arabicFont : boldFont, 0, rgb(0.2, 0.2, 0.2), false);
+  drawAligned(statementLabels.ar.title, 14, arabicFont, 0, rgb(0.2, 0.2, 0.2), true);
+  yPosition -= 30;
+
+  drawRow(labels.statementNumber, statementNumber);
+  drawRow(labels.period, `${formatPeriod()} (${formatShortDate(period.periodStart)} – ${formatShortDate(period.periodEnd)})`);
+  drawRow(labels.issued, formatDate(issuedAt));
+
+  drawSection(labels.owner);
+  drawRow(labels.name, investor.fullName);
+  drawRow(labels.property, property.title);
+  drawRow(labels.location, property.location);
+  if (sharePercentage) {
+    const share = `${Number(sharePercentage).toFixed(2)}%`;
+    drawRow(labels.share, isRTL ? toArabicNumerals(share) : share);
+  }
+
+  drawSection(labels.summary);
+  drawRow(labels.openingBalance, formatReceiptAmount(summary.openingBalance, language));
+  drawRow(labels.contributions, formatReceiptAmount(summary.contributions, language));
+  drawRow(labels.rentReceived, formatReceiptAmount(summary.rentReceived, language));
+  drawRow(labels.expensesAllocated, formatReceiptAmount(-summary.expensesAllocated, language));
+  drawRow(labels.distributions, formatReceiptAmount(-summary.distributions, language));
+  if (summary.saleProceeds !== 0) {
+    drawRow(labels.saleProceeds, formatReceiptAmount(summary.saleProceeds, language));
+  }
+  drawRow(labels.closingBalance, formatReceiptAmount(summary.closingBalance, language), true);
+
+  // Activity table: date, description, amount and running balance
+  const amountEdge = 400;
+  const balanceEdge = pageWidth - 2 * margin;
+  const drawTableHeader = () => {
+    drawAligned(labels.date, 9, boldFont);
+    drawAligned(labels.description, 9, boldFont, 80);
+    drawColumnEnd(labels.amount, 9, boldFont, amountEdge);
+    drawColumnEnd(labels.balance, 9, boldFont, balanceEdge);
+    yPosition -= 6;
+    drawRule();
+    yPosition -= 14;
+  };
+
+  drawSection(labels.activity);
+  if (summary.lines.length === 0) {
+    drawAligned(labels.noActivity, 10, bodyFont, 0, rgb(0.4, 0.4, 0.4));
+  } else {
+    drawTableHeader();
+    for (const line of summary.lines) {
+      if (yPosition < 80) {
+        page = pdfDoc.addPage([pageWidth, pageHeight]);
+        yPosition = pageHeight - margin;
+        drawTableHeader();
+      }
+      const description = `${statementActivityLabels[language][line.kind]} · ${line.description}`;
+      drawAligned(formatShortDate(line.date), 9, bodyFont);
+      drawAligned(description.length > 48 ? `${description.slice(0, 47)}…` : description, 9, bodyFont, 80);
+      drawColumnEnd(formatReceiptAmount(line.amount, language), 9, bodyFont, amountEdge);
+      drawColumnEnd(formatReceiptAmount(line.balance, language), 9, bodyFont, balanceEdge);
+      yPosition -= 14;
+    }
+  }
+
+  // Footer on every page
+  pdfDoc.getPages().forEach((footerPage, index, pages) => {
+    page = footerPage;
+    yPosition = 50;
+    drawAligned(labels.footer, 7, bodyFont, 0, rgb(0.5, 0.5, 0.5));
+    yPosition = 36;
+    drawAligned(`${statementNumber} | ${index + 1}/${pages.length}`, 7, bodyFont, 0, rgb(0.6, 0.6, 0.6), false);
+  });
+
+  return await pdfDoc.save();
+}
+
+interface GenerateResolutionPDFOptions {
+  resolutionNumber: string;
+  property: Property;
+  proposal: GovernanceProposal;
+  categoryLabel: string;
+  ballots: Array<{
+    investorName: string;
+    sharePercentage: string;
+    choice: string | null; // null for co-owners who did not vote
+    castAt: Date | null;
+    ballotHash: string | null;
+  }>;
+}
+
+const resolutionChoiceLabels: Record<string, string> = {
+  for: "For",
+  against: "Against",
+  abstain: "Abstained",
+};
+
+/**
+ * Generate the record of a proposal the co-owners passed: what was decided, the tally against the
+ * quorum and threshold, and every co-owner's ballot with its hash
+ * English layout; co-owner text written in Arabic is shaped and set in the Arabic font.
+ */
+export async function generateResolutionPDF(options: GenerateResolutionPDFOptions): Promise<Uint8Array> {
+  const { resolutionNumber, property, proposal, categoryLabel, ballots } = options;
+
+  const pdfDoc = await PDFDocument.create();
+  pdfDoc.setTitle(`${resolutionNumber} - Co-owner Resolution`);
+
+  const arabicFont = await embedArabicFont(pdfDoc);
+  const bodyFont = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  const boldFont = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+
+  const pageWidth = 595;
+  const pageHeight = 842;
+  const margin = 50;
+  const contentWidth = pageWidth - 2 * margin;
+  const valueOffset = 190;
+
+  let page = pdfDoc.addPage([pageWidth, pageHeight]);
+  let yPosition = pageHeight - margin;
+
+  const ensureSpace = (needed: number) => {
+    if (yPosition - needed < 80) {
+      page = pdfDoc.addPage([pageWidth, pageHeight]);
+      yPosition = pageHeight - margin;
+    }
+  };
+
+  // Text entered by co-owners may be Arabic, which the standard fonts can't encode
+  const hasArabic = (text: string) => /[\u0600-\u06FF]/.test(text);
+  const fontFor = (text: string, font: PDFFont) => hasArabic(text) ? arabicFont : font;
+  const draw = (text: string, size: number, font: PDFFont, x: number, color = rgb(0, 0, 0)) => {
+    const clean = text.replace(/[\r\n\t]/g, " ");
+    page.drawText(shapeArabicText(clean, hasArabic(clean) ? "ar" : "en"), { x, y: yPosition, size, font: fontFor(clean, font), color });
+  };
+
+  const drawWrapped = (text: string, size: number, font: PDFFont) => {
+    const lineHeight = size * 1.4;
+    for (const paragraph of text.split("\n")) {
+      let line = "";
+      for (const word of paragraph.split(" ")) {
+        const testLine = line ? `${line} ${word}` : word;
+        if (fontFor(testLine, font).widthOfTextAtSize(testLine, size) > contentWidth && line) {
+          ensureSpace(lineHeight);
+          draw(line, size, font, margin);
+          yPosition -= lineHeight;
+          line = word;
+        } else {
+          line = testLine;
+        }
+      }
+      ensureSpace(lineHeight);
+      draw(line, size, font, margin);
+      yPosition -= lineHeight;
+    }
+  };
+
+  const drawRow = (label: string, value: string, bold: boolean = false) => {
+    ensureSpace(16);
+    draw(label, 10, bodyFont, margin, rgb(0.4, 0.4, 0.4));
+    draw(value, bold ? 12 : 10, bold ? boldFont : bodyFont, margin + valueOffset);
+    yPosition -= bold ? 20 : 16;
+  };
+
+  const drawRule = () => {
+    page.drawLine({
+      start: { x: margin, y: yPosition },
+      end: { x: pageWidth - margin, y: yPosition },
+      thickness: 0.5,
+      color: rgb(0.8, 0.8, 0.8),
+    });
+  };
+
+  const drawSection = (title: string) => {
+    ensureSpace(60);
+    yPosition -= 10;
+    draw(title, 12, boldFont, margin);
+    yPosition -= 6;
+    drawRule();
+    yPosition -= 16;
+  };
+
+  const formatDate = (date: Date) => date.toLocaleDateString("en-US", { year: "numeric", month: "long", day: "numeric", timeZone: "UTC" });
+  const formatTimestamp = (date: Date) => `${date.toISOString().slice(0, 16).replace("T", " ")} UTC`;
+  const percent = (value: string | number) => `${Number(value).toFixed(2)}%`;
+
+  // Header: company, then the bilingual document title
+  draw("FRACTIONAL OFF-PLAN DUBAI (FOPD)", 16, boldFont, margin);
+  yPosition -= 28;
+  draw("CO-OWNER RESOLUTION", 14, boldFont, margin, rgb(0.2, 0.2, 0.2));
+  const arabicTitle = shapeArabicText("قرار المالكين المشتركين", "ar");
+  page.drawText(arabicTitle, {
+    x: pageWidth - margin - arabicFont.widthOfTextAtSize(arabicTitle, 14),
+    y: yPosition,
+    size: 14,
+    font: arabicFont,
+    color: rgb(0.2, 0.2, 0.2),
+  });
+  yPosition -= 30;
+
+  drawRow("Resolution No.", resolutionNumber);
+  drawRow("Property", property.title);
+  drawRow("Location", property.location);
+  drawRow("Category", categoryLabel);
+  drawRow("Voting opened", formatDate(proposal.createdAt));
+  drawRow("Resolved", formatDate(proposal.closedAt || new Date()));
+
+  drawSection("Resolution");
+  drawWrapped(proposal.title, 12, boldFont);
+  yPosition -= 4;
+  drawWrapped(proposal.description, 10, bodyFont);
+
+  const cast = Number(proposal.sharesFor) + Number(proposal.sharesAgainst) + Number(proposal.sharesAbstained);
+  drawSection("Vote");
+  drawRow("Quorum required", `${percent(proposal.quorumPercentage)} of the property`);
+  drawRow("Shares voted", percent(cast));
+  drawRow("Threshold required", `${percent(proposal.thresholdPercentage)} of shares voted`);
+  drawRow("For", percent(proposal.sharesFor));
+  drawRow("Against", percent(proposal.sharesAgainst));
+  drawRow("Abstained", percent(proposal.sharesAbstained));
+  drawRow("Result", "PASSED", true);
+
+  // Ballot table: co-owner, share, vote, time and the ballot's hash in the proposal's chain
+  const drawTableHeader = () => {
+    draw("Co-owner", 9, boldFont, margin);
+    draw("Share", 9, boldFont, margin + 150);
+    draw("Vote", 9, boldFont, margin + 200);
+    draw("Cast", 9, boldFont, margin + 260);
+    draw("Ballot hash", 9, boldFont, margin + 370);
+    yPosition -= 6;
+    drawRule();
+    yPosition -= 14;
+  };
+
+  drawSection("Ballots");
+  drawTableHeader();
+  for (const ballot of ballots) {
+    if (yPosition < 80) {
+      page = pdfDoc.addPage([pageWidth, pageHeight]);
+      yPosition = pageHeight - margin;
+      drawTableHeader();
+    }
+    const name = ballot.investorName.length > 28 ? `${ballot.investorName.slice(0, 27)}…` : ballot.investorName;
+    draw(name, 9, bodyFont, margin);
+    draw(percent(ballot.sharePercentage), 9, bodyFont, margin + 150);
+    draw(ballot.choice ? resolutionChoiceLabels[ballot.choice] || ballot.choice : "Did not vote", 9, bodyFont, margin + 200);
+    draw(ballot.castAt ? formatTimestamp(ballot.castAt) : "-", 9, bodyFont, margin + 260);
+    draw(ballot.ballotHash ? `${ballot.ballotHash.slice(0, 20)}…` : "-", 8, bodyFont, margin + 370, rgb(0.4, 0.4, 0.4));
+    yPosition -= 14;
+  }
+
+  // Footer on every page
+  pdfDoc.getPages().forEach((footerPage, index, pages) => {
+    page = footerPage;
+    yPosition = 50;
+    draw("Decided under the co-ownership agreement. Votes are weighted by ownership share and each ballot was confirmed by one-time passcode.", 7, bodyFont, margin, rgb(0.5, 0.5, 0.5));
+    yPosition = 36;
+    draw(`${resolutionNumber} | Proposal ID: ${proposal.id} | ${index + 1}/${pages.length}`, 7, bodyFont, margin, rgb(0.6, 0.6, 0.6));
+  });
+
+  return await pdfDoc.save();
+}
+
+interface GenerateExitStatementPDFOptions {
+  statementNumber: string;
+  issuedAt: Date;
+  investor: Investor;
+  property: Property;
+  exit: PropertyExit;
+  payout: Pick<ExitPayout, "sharePercentage" | "saleShare" | "costShare" | "capitalReturned" | "amount">;
+  history: Pick<StatementSummary, "rentReceived" | "expensesAllocated">; // Over the whole holding
+  language?: "en" | "ar";
+}
+
+/**
+ * Exit statement labels; the document title is always shown in both languages
+ */
+const exitStatementLabels = {
+  en: {
+    title: "Exit Statement",
+    statementNumber: "Statement No.",
+    issued: "Issued",
+    transferred: "Transferred",
+    transferReference: "DLD transfer ref.",
+    owner: "Owner",
+    name: "Name",
+    property: "Property",
+    location: "Location",
+    share: "Ownership Share",
+    sale: "Sale",
+    salePrice: "Sale price",
+    dldTransferFee: "DLD transfer fee",
+    agencyCommission: "Agency commission",
+    otherCosts: "Other costs of sale",
+    netProceeds: "Net proceeds",
+    yourShare: "Your Share",
+    saleShare: "Share of sale price",
+    costShare: "Share of costs",
+    proceeds: "Proceeds payable to you",
+    investment: "Your Investment",
+    contributions: "Capital contributed",
+    rentReceived: "Rent received",
+    expensesAllocated: "Expenses allocated",
+    totalReturn: "Total return",
+    footer: "Final statement for this property. Proceeds are shared by ownership after costs of sale and paid from the project escrow account.",
+  },
+  ar: {
+    title: "كشف التخارج",
+    statementNumber: "رقم الكشف",
+    issued: "تاريخ الإصدار",
+    transferred: "تاريخ نقل الملكية",
+    transferReference: "مرجع نقل الملكية",
+    owner: "المالك",
+    name: "الاسم",
+    property: "العقار",
+    location: "الموقع",
+    share: "حصة الملكية",
+    sale: "البيع",
+    salePrice: "سعر البيع",
+    dldTransferFee: "رسوم نقل الملكية لدائرة الأراضي",
+    agencyCommission: "عمولة الوساطة",
+    otherCosts: "تكاليف البيع الأخرى",
+    netProceeds: "صافي العائدات",
+    yourShare: "حصتك",
+    saleShare: "حصتك من سعر البيع",
+    costShare: "حصتك من التكاليف",
+    proceeds: "العائدات المستحقة لك",
+    investment: "استثمارك",
+    contributions: "رأس المال المساهم به",
+    rentReceived: "الإيجار المستلم",
+    expensesAllocated: "المصروفات المخصصة",
+    totalReturn: "إجمالي العائد",
+    footer: "الكشف النهائي لهذا العقار. توزع العائدات حسب الملكية بعد خصم تكاليف البيع وتدفع من حساب ضمان المشروع.",
+  },
+};
+
+/**
+ * Generate a co-owner's final statement for a property sold at exit: the sale, their share of the
+ * proceeds and how their investment turned out
+ * Laid out right to left for Arabic statements.
+ */
+export async function generateExitStatementPDF(options: GenerateExitStatementPDFOptions): Promise<Uint8Array> {
+  const { statementNumber, issuedAt, investor, property, exit, payout, history, language = "en" } = options;
+  const labels = exitStatementLabels[language];
+  const isRTL = language === "ar";
+
+  const pdfDoc = await PDFDocument.create();
+  pdfDoc.setTitle(`${statementNumber} - ${exitStatementLabels.en.title} ${property.title}`);
+
+  // The Arabic font also covers Latin text, so Arabic statements use it throughout
+  const arabicFont = await embedArabicFont(pdfDoc);
+  const bodyFont = isRTL ? arabicFont : await pdfDoc.embedFont(StandardFonts.Helvetica);
+  const boldFont = isRTL ? arabicFont : await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+
+  const pageWidth = 595;
+  const pageHeight = 842;
+  const margin = 50;
+  const valueOffset = 190;
+
+  const page = pdfDoc.addPage([pageWidth, pageHeight]);
+  let yPosition = pageHeight - margin;
+
+  const drawAligned = (text: string, size: number, font: PDFFont, inset: number = 0, color = rgb(0, 0, 0), rtl: boolean = isRTL) => {
+    const shaped = shapeArabicText(text, rtl ? "ar" : "en");
+    const x = rtl
+      ? pageWidth - margin - inset - font.widthOfTextAtSize(shaped, size)
+      : margin + inset;
+    page.drawText(shaped, { x, y: yPosition, size, font, color });
+  };
+
+  const drawRow = (label: string, value: string, bold: boolean = false) => {
+    drawAligned(label, 10, bodyFont, 0, rgb(0.4, 0.4, 0.4));
+    drawAligned(value, bold ? 12 : 10, bold ? boldFont : bodyFont, valueOffset);
+    yPosition -= bold ? 20 : 16;
+  };
+
+  const drawSection = (title: string) => {
+    yPosition -= 10;
+    drawAligned(title, 12, boldFont);
+    yPosition -= 6;
+    page.drawLine({
+      start: { x: margin, y: yPosition },
+      end: { x: pageWidth - margin, y: yPosition },
+      thickness: 0.5,
+      color: rgb(0.8, 0.8, 0.8),
+    });
+    yPosition -= 16;
+  };
+
+  const formatDate = (date: Date) => isRTL
+    ? formatArabicDate(date)
+    : date.toLocaleDateString("en-US", { year: "numeric", month: "long", day: "numeric", timeZone: "UTC" });
+  const amount = (value: number | string) => formatReceiptAmount(Number(value), language);
+
+  // Header: company on the reading edge, bilingual document title below
+  drawAligned(isRTL ? "دبي للملكية الجزئية خارج الخطة (FOPD)" : "FRACTIONAL OFF-PLAN DUBAI (FOPD)", 16, boldFont);
+  yPosition -= 28;
+  drawAligned(exitStatementLabels.en.title.toUpperCase(), 14, isRTL ? arabicFont : boldFont, 0, rgb(0.2, 0.2, 0.2), false);
+  drawAligned(exitStatementLabels.ar.title, 14, arabicFont, 0, rgb(0.2, 0.2, 0.2), true);
+  yPosition -= 30;
+
+  drawRow(labels.statementNumber, statementNumber);
+  drawRow(labels.issued, formatDate(issuedAt));
+  drawRow(labels.transferred, formatDate(exit.completedAt || issuedAt));
+  if (exit.transferReference) {
+    drawRow(labels.transferReference, exit.transferReference);
+  }
+
+  drawSection(labels.owner);
+  drawRow(labels.name, investor.fullName);
+  drawRow(labels.property, property.title);
+  drawRow(labels.location, property.location);
+  const share = `${Number(payout.sharePercentage).toFixed(2)}%`;
+  drawRow(labels.share, isRTL ? toArabicNumerals(share) : share);
+
+  drawSection(labels.sale);
+  drawRow(labels.salePrice, amount(exit.salePrice || 0));
+  drawRow(labels.dldTransferFee, amount(-Number(exit.dldTransferFee)));
+  drawRow(labels.agencyCommission, amount(-Number(exit.agencyCommission)));
+  drawRow(labels.otherCosts, amount(-Number(exit.otherCosts)));
+  drawRow(labels.netProceeds, amount(exit.netProceeds || 0), true);
+
+  drawSection(labels.yourShare);
+  drawRow(labels.saleShare, amount(payout.saleShare));
+  drawRow(labels.costShare, amount(-Number(payout.costShare)));
+  drawRow(labels.proceeds, amount(payout.amount), true);
+
+  // Rent and expenses are what passed through the owner account; contributions are the capital closed out
+  const totalReturn = (toCents(payout.amount) + toCents(history.rentReceived)
+    - toCents(history.expensesAllocated) - toCents(payout.capitalReturned)) / 100;
+  drawSection(labels.investment);
+  drawRow(labels.contributions, amount(payout.capitalReturned));
+  drawRow(labels.rentReceived, amount(history.rentReceived));
+  drawRow(labels.expensesAllocated, amount(-history.expensesAllocated));
+  drawRow(labels.proceeds, amount(payout.amount));
+  drawRow(labels.totalReturn, amount(totalReturn), true);
+
+  yPosition = 50;
+  drawAligned(labels.footer, 7, bodyFont, 0, rgb(0.5, 0.5, 0.5));
+  yPosition = 36;
+  drawAligned(`${statementNumber} | Exit ID: ${exit.id}`, 7, bodyFont, 0, rgb(0.6, 0.6, 0.6), false);
+
+  return await pdfDoc.save();
+}
@@ -0,0 +1,83 @@
+/**
+ * Whole-property exit: the co-owners sell the property and share what is left of the price after the
+ * costs of sale.
+ *
+ * The sale price and the costs are both split by ownership share, so each co-owner bears their share of
+ * the DLD transfer fee, agency commission and other costs, and the proceeds add up to the net exactly.
+ */
+
+import { allocateByShare, toCents } from "./ledger";
+
+const DEFAULT_DLD_TRANSFER_FEE_RATE = 4; // Percent of the sale price
+
+export interface ExitCosts {
+  dldTransferFee: number;
+  agencyCommission: number;
+  otherCosts: number;
+}
+
+export interface ExitHolder {
+  investorId: string;
+  investorName: string;
+  sharePercentage: number | string;
+}
+
+export interface ExitAllocation extends ExitHolder {
+  sharePercentage: string;
+  saleShare: number;
+  costShare: number;
+  proceeds: number;
+}
+
+/**
+ * DLD transfer fee as a percent of the sale price; DLD_TRANSFER_FEE_RATE overrides it
+ */
+export function getDldTransferFeeRate(): number {
+  const configured = Number(process.env.DLD_TRANSFER_FEE_RATE);
+  return Number.isFinite(configured) && configured >= 0 && configured < 100 ? configured : DEFAULT_DLD_TRANSFER_FEE_RATE;
+}
+
+/**
+ * The transfer fee to suggest for a sale price, to the cent
+ */
+export function suggestedDldTransferFee(salePrice: number | string): number {
+  return Math.round(toCents(salePrice) * getDldTransferFeeRate() / 100) / 100;
+}
+
+/**
+ * Why the costs can't be deducted from the sale price, or null
+ */
+export function exitCostsProblem(salePrice: number | string, costs: ExitCosts): string | null {
+  const netCents = toCents(salePrice) - toCents(costs.dldTransferFee) - toCents(costs.agencyCommission) - toCents(costs.otherCosts);
+  return netCents > 0 ? null : "The costs of sale must leave some proceeds to share";
+}
+
+/**
+ * Each holder's share of the sale price, of the costs and the difference they receive. Holders with
+ * several slots are combined so each investor gets a single payout.
+ */
+export function allocateExitProceeds(salePrice: number | string, costs: ExitCosts, holders: ExitHolder[]): ExitAllocation[] {
+  const byInvestor = new Map<string, ExitHolder & { shareCents: number }>();
+  for (const holder of holders) {
+    const held = byInvestor.get(holder.investorId);
+    byInvestor.set(holder.investorId, {
+      ...holder,
+      shareCents: (held?.shareCents ?? 0) + toCents(holder.sharePercentage),
+    });
+  }
+  const investors = Array.from(byInvestor.values()).map(({ shareCents, ...holder }) => ({
+    ...holder,
+    sharePercentage: (shareCents / 100).toFixed(2),
+  }));
+
+  const costCents = toCents(costs.dldTransferFee) + toCents(costs.agencyCommission) + toCents(costs.otherCosts);
+  const saleShares = allocateByShare(salePrice, investors);
+  const costShares = allocateByShare(costCents / 100, investors);
+
+  return investors.map((investor, index) => ({
+    ...investor,
+    saleShare: saleShares[index].amount,
+    costShare: costShares[index].amount,
+    proceeds: (toCents(saleShares[index].amount) - toCents(costShares[index].amount)) / 100,
+  }));
+}
@@ -0,0 +1,104 @@
+/**
+ * Reservation status state machine.
+ *
+ * A reservation moves draft → invitations_sent → all_signed → payment_pending → payment_complete and
+ * may be cancelled until its property is sold. Payments, refunds and the property exit move it past
+ * all_signed themselves; the initiator or an admin makes the other moves.
+ */
+
+import type { CoOwnerSlot, ReservationStatus } from "@shared/schema";
+
+const DEFAULT_ABANDON_DAYS = 14;
+const PAYMENT_WINDOW_DAYS = 5; // A bank transfer takes a few working days to reach the escrow statement
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Statuses that hold the property for the reservation; one left in them too long is abandoned
+export const openReservationStatuses = ["draft", "invitations_sent", "all_signed", "payment_pending"] as const;
+
+// Moves allowed from each status. A sole owner needs no invitations, so a draft may go straight to
+// all_signed; a refund takes a paid reservation back to payment_pending; "closed" is set at exit
+export const reservationTransitions: Record<ReservationStatus, readonly ReservationStatus[]> = {
+  draft: ["invitations_sent", "all_signed", "cancelled"],
+  invitations_sent: ["all_signed", "cancelled"],
+  all_signed: ["payment_pending", "cancelled"],
+  payment_pending: ["payment_complete", "cancelled"],
+  payment_complete: ["payment_pending", "closed", "cancelled"],
+  closed: [],
+  cancelled: [],
+};
+
+/**
+ * Days without progress before an open reservation is cancelled; RESERVATION_ABANDON_DAYS overrides it
+ */
+export function getReservationAbandonDays(): number {
+  const configured = Number(process.env.RESERVATION_ABANDON_DAYS);
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_ABANDON_DAYS;
+}
+
+/**
+ * Reservations with no progress since this time are abandoned
+ */
+export function abandonedBefore(now: Date = new Date()): Date {
+  return new Date(now.getTime() - getReservationAbandonDays() * DAY_MS);
+}
+
+/**
+ * A slot whose card checkout or bank transfer started before this time is no longer being paid
+ */
+export function paymentLapsedBefore(now: Date = new Date()): Date {
+  return new Date(now.getTime() - PAYMENT_WINDOW_DAYS * DAY_MS);
+}
+
+export interface ReservationGuardFacts {
+  slots: Pick<CoOwnerSlot, "investorId" | "invitationStatus" | "paymentStatus">[];
+  unsignedInvestorIds: string[]; // Co-owners missing a signature on one of the deal agreements
+  heldPayments: number; // Payments not yet refunded in full
+  propertySold: boolean;
+}
+
+/**
+ * A slot is taken once its co-owner accepted, or from the start for the initiator's own slot
+ */
+export function isSlotTaken(slot: Pick<CoOwnerSlot, "investorId" | "invitationStatus">): boolean {
+  return !!slot.investorId && (slot.invitationStatus === "accepted" || slot.invitationStatus === "reserved");
+}
+
+/**
+ * Why the reservation can't move from one status to the other, or null
+ */
+export function reservationTransitionProblem(
+  from: string,
+  to: ReservationStatus,
+  facts: ReservationGuardFacts
+): string | null {
+  const allowed = reservationTransitions[from as ReservationStatus];
+  if (!allowed?.includes(to)) {
+    return `Cannot move a reservation from ${from} to ${to}`;
+  }
+
+  switch (to) {
+    case "invitations_sent":
+      return facts.slots.some(slot => slot.invitationStatus === "invited")
+        ? null
+        : "Invite at least one co-owner first";
+    case "all_signed":
+      if (!facts.slots.every(isSlotTaken)) {
+        return "Every slot must be accepted by a co-owner first";
+      }
+      return facts.unsignedInvestorIds.length === 0 ? null : "Every co-owner must sign the agreements first";
+    case "payment_pending":
+      // A refund reopens a paid reservation; the signatures were checked on the way in
+      if (from === "payment_complete") {
+        return null;
+      }
+      return facts.unsignedInvestorIds.length === 0 ? null : "Every co-owner must sign the agreements before paying";
+    case "payment_complete":
+      return facts.slots.every(slot => slot.paymentStatus === "paid") ? null : "Every slot must be paid first";
+    case "closed":
+      return facts.propertySold ? null : "Reservations are closed only when the property is sold";
+    case "cancelled":
+      return facts.heldPayments === 0 ? null : "Refund the reservation's payments before cancelling it";
+    default:
+      return null;
+  }
+}
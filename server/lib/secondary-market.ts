@@ -0,0 +1,63 @@
+/**
+ * Secondary market for co-ownership shares.
+ *
+ * The co-ownership agreement gives the other co-owners a right of first refusal: when a co-owner sells,
+ * they may buy the share at the asking price before anyone else. Once that window closes the listing is
+ * open to any verified investor, who may offer what they like.
+ */
+
+const DEFAULT_ROFR_DAYS = 14;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type ListingPhase = "right_of_first_refusal" | "open";
+
+/**
+ * Days co-owners have to exercise their right of first refusal; SHARE_ROFR_DAYS overrides it
+ */
+export function getRofrWindowDays(): number {
+  const configured = Number(process.env.SHARE_ROFR_DAYS);
+  return Number.isFinite(configured) && configured >= 0 ? configured : DEFAULT_ROFR_DAYS;
+}
+
+/**
+ * When the right of first refusal ends for a listing made at `listedAt`
+ */
+export function rofrEndsAt(listedAt: Date = new Date()): Date {
+  return new Date(listedAt.getTime() + getRofrWindowDays() * DAY_MS);
+}
+
+export function listingPhase(listing: { rofrEndsAt: Date }, now: Date = new Date()): ListingPhase {
+  return listing.rofrEndsAt.getTime() > now.getTime() ? "right_of_first_refusal" : "open";
+}
+
+function formatPrice(amount: number | string, language: "en" | "ar"): string {
+  return language === "ar"
+    ? `${Number(amount).toLocaleString("ar-AE", { minimumFractionDigits: 2, maximumFractionDigits: 2 })} درهم`
+    : `AED ${Number(amount).toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+/**
+ * Fill the transfer-specific placeholders of the share transfer agreement; the shared investor and
+ * property placeholders are filled when the PDF is generated
+ */
+export function fillShareTransferPlaceholders(
+  content: string,
+  transfer: {
+    seller: { fullName: string; email: string };
+    buyer: { fullName: string; email: string };
+    sharePercentage: number | string;
+    price: number | string;
+    settlementReference: string;
+  },
+  language: "en" | "ar" = "en"
+): string {
+  const share = Number(transfer.sharePercentage);
+  return content
+    .replace(/\{SELLER_NAME\}/g, transfer.seller.fullName)
+    .replace(/\{SELLER_EMAIL\}/g, transfer.seller.email)
+    .replace(/\{BUYER_NAME\}/g, transfer.buyer.fullName)
+    .replace(/\{BUYER_EMAIL\}/g, transfer.buyer.email)
+    .replace(/\{SHARE_PERCENTAGE\}/g, language === "ar" ? `${share.toLocaleString("ar-AE")}٪` : `${share}%`)
+    .replace(/\{TRANSFER_PRICE\}/g, formatPrice(transfer.price, language))
+    .replace(/\{SETTLEMENT_REFERENCE\}/g, transfer.settlementReference);
+}
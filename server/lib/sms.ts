@@ -0,0 +1,69 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+export type SmsChannel = "sms" | "whatsapp";
+
+export interface SmsMessage {
+  to: string; // E.164
+  body: string;
+  channel: SmsChannel;
+}
+
+/**
+ * Delivery backend for SMS and WhatsApp messages
+ */
+export interface SmsProvider {
+  readonly name: string;
+  send(message: SmsMessage): Promise<void>;
+}
+
+/**
+ * Appends each message to a log file instead of sending it (development)
+ */
+export class FileSmsProvider implements SmsProvider {
+  readonly name = "file";
+
+  constructor(private logPath: string) {}
+
+  async send(message: SmsMessage): Promise<void> {
+    await fs.mkdir(path.dirname(this.logPath), { recursive: true });
+    await fs.appendFile(
+      this.logPath,
+      JSON.stringify({ ...message, sentAt: new Date().toISOString() }) + "\n"
+    );
+    console.log(`${message.channel.toUpperCase()} message logged to ${path.basename(this.logPath)}`);
+  }
+}
+
+/**
+ * Pick a provider from the environment
+ * SMS_PROVIDER=file (default); production providers plug in here
+ */
+export function createSmsProviderFromEnv(): SmsProvider {
+  const provider = process.env.SMS_PROVIDER || "file";
+
+  switch (provider) {
+    case "file":
+      return new FileSmsProvider(
+        process.env.SMS_LOG_PATH || path.join(process.cwd(), "uploads", "outbox", "sms.log")
+      );
+    default:
+      throw new Error(`Unknown SMS_PROVIDER: ${provider}`);
+  }
+}
+
+let providerInstance: SmsProvider | null = null;
+
+export function getSmsProvider(): SmsProvider {
+  if (!providerInstance) {
+    providerInstance = createSmsProviderFromEnv();
+  }
+  return providerInstance;
+}
+
+/**
+ * Swap the provider (tests)
+ */
+export function setSmsProvider(provider: SmsProvider): void {
+  providerInstance = provider;
+}
@@ -0,0 +1,76 @@
+import multer from "multer";
+import path from "path";
+import fs from "fs";
+
+// All uploaded files live under <cwd>/uploads/<directory>
+export const UPLOADS_ROOT = path.join(process.cwd(), "uploads");
+
+interface UploaderOptions {
+  directory: string; // Subdirectory of uploads/, e.g. "kyc-documents"
+  maxFileSize: number; // Bytes
+  allowedMimes: string[];
+  invalidTypeMessage: string;
+}
+
+/**
+ * Multer instance writing to uploads/<directory> with unique filenames
+ */
+export function createUploader(options: UploaderOptions): multer.Multer {
+  const destination = path.join(UPLOADS_ROOT, options.directory);
+  if (!fs.existsSync(destination)) {
+    fs.mkdirSync(destination, { recursive: true });
+  }
+
+  const storage = multer.diskStorage({
+    destination: (req, file, cb) => {
+      cb(null, destination);
+    },
+    filename: (req, file, cb) => {
+      const uniqueSuffix = `${Date.now()}-${Math.round(Math.random() * 1E9)}`;
+      cb(null, `${file.fieldname}-${uniqueSuffix}${path.extname(file.originalname).toLowerCase()}`);
+    },
+  });
+
+  return multer({
+    storage,
+    limits: { fileSize: options.maxFileSize },
+    fileFilter: (req, file, cb) => {
+      if (options.allowedMimes.includes(file.mimetype)) {
+        cb(null, true);
+      } else {
+        cb(new Error(options.invalidTypeMessage));
+      }
+    },
+  });
+}
+
+/**
+ * Path stored in the database for an uploaded file ("uploads/<directory>/<filename>")
+ */
+export function toStoredPath(directory: string, filename: string): string {
+  return `uploads/${directory}/${filename}`;
+}
+
+/**
+ * Resolve a stored path to an absolute path, refusing anything outside uploads/
+ */
+export function resolveStoredPath(storedPath: string): string {
+  const absolute = path.resolve(process.cwd(), storedPath);
+  if (!absolute.startsWith(UPLOADS_ROOT + path.sep)) {
+    throw new Error("Invalid upload path");
+  }
+  return absolute;
+}
+
+/**
+ * Delete an uploaded file, ignoring files that are already gone
+ */
+export async function removeStoredFile(storedPath: string): Promise<void> {
+  try {
+    await fs.promises.unlink(resolveStoredPath(storedPath));
+  } catch (error: any) {
+    if (error.code !== "ENOENT") {
+      throw error;
+    }
+  }
+}
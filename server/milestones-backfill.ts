@@ -0,0 +1,17 @@
+import { storage } from "./storage";
+
+/**
+ * Add the construction stages missing from properties created before stages were added with them
+ * Usage: npm run milestones:backfill
+ * Safe to run more than once; stages a property already has are left alone.
+ */
+async function backfill() {
+  const { properties, stages } = await storage.backfillConstructionMilestones();
+  console.log(`✓ Construction stages backfilled: ${stages} stages added to ${properties} properties`);
+  process.exit(0);
+}
+
+backfill().catch((error) => {
+  console.error("Error backfilling construction stages:", error.message);
+  process.exit(1);
+});
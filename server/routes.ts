@@ -1,17 +1,417 @@
 import type { Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { insertInvestorSchema, loginSchema, verifyOtpSchema, adminLoginSchema, submitSignatureSchema, createReservationSchema, sendInvitationsSchema, acceptInvitationSchema } from "@shared/schema";
-import { randomInt, randomBytes } from "crypto";
+import { storage, type PaymentWithRefunds, type RefundReversal, type PropertyExpenseWithDetails, type GovernanceProposalWithDetails, type PropertyExitWithDetails, type ReservationStatusActor, type InvalidatedDealRecords } from "./storage";
+import { insertInvestorSchema, updateInvestorPreferencesSchema, loginSchema, verifyOtpSchema, adminLoginSchema, submitSignatureSchema, createReservationSchema, sendInvitationsSchema, acceptInvitationSchema, insertAdminUserSchema, updateAdminUserSchema, propertyListQuerySchema, adminPropertySchema, uploadPropertyMediaSchema, updatePropertyMediaSchema, reorderPropertyMediaSchema, paymentPlanSchema, recordInstalmentPaymentSchema, constructionUpdateSchema, constructionPhotoSchema, createSlotChargeSchema, refundPaymentSchema, cancelReservationSchema, matchBankTransactionSchema, ignoreBankTransactionSchema, recordRentalIncomeSchema, markRentalPayoutPaidSchema, recordExpenseSchema, expenseDecisionSchema, markExpensePaidSchema, ownerStatementRequestSchema, createShareListingSchema, shareOfferSchema, settleShareTransferSchema, cancelShareTransferSchema, createGovernanceProposalSchema, requestBallotSchema, castBallotSchema, cancelGovernanceProposalSchema, openPropertyExitSchema, recordExitOfferSchema, completePropertyExitSchema, withdrawPropertyExitSchema, markExitPayoutPaidSchema, changeReservationStatusSchema } from "@shared/schema";
+import { otpChannels, constructionStages, constructionStageLabels, type Investor, type AdminUser, type OtpChannel, type Property, type AdminPropertyInput, type InsertProperty, type PropertyMedia, type PaymentPlanInstalment, type ConstructionStage, type CoOwnerSlot, type PropertyReservation, type BankTransaction, type PropertyExpense, type OwnerStatement, type ShareTransfer, type GovernanceProposal, type ExitPayout, type ReservationStatus, type SignedDocument } from "@shared/schema";
+import { getPermissionsForRole, hasPermission, type AdminPermission } from "@shared/permissions";
+import { randomBytes } from "crypto";
+import { verifyPassword } from "./lib/crypto";
+import { getMailer } from "./lib/mailer";
+import { deliverOtp } from "./lib/otp-delivery";
+import { createUploader, toStoredPath, resolveStoredPath, removeStoredFile } from "./lib/uploads";
+import { processUploadedImage } from "./lib/image-processing";
+import { getPaymentProvider, PaymentProviderError } from "./lib/payment-provider";
+import { registerMockGateway } from "./lib/mock-gateway";
+import { calculateSlotAmount } from "./lib/payment-schedule";
+import { toCents } from "./lib/ledger";
+import { getExpenseApprovalThreshold } from "./lib/expenses";
+import { getRofrWindowDays } from "./lib/secondary-market";
+import { getDefaultQuorum, getDefaultThreshold } from "./lib/governance";
+import { getDldTransferFeeRate, suggestedDldTransferFee } from "./lib/property-exit";
+import { reservationTransitions, abandonedBefore, paymentLapsedBefore, getReservationAbandonDays } from "./lib/reservation-status";
+import { startBackgroundJobs, type BackgroundJob } from "./lib/jobs";
+import { statementPeriod, dueStatementPeriods, isPeriodClosed, formatStatementPeriod } from "./lib/owner-statements";
+import { parseBankStatement, fingerprintTransaction, extractTransferReference, BankStatementParseError } from "./lib/bank-statements";
+import { issueOtp, verifyOtp, cleanupExpiredOtps, OtpRateLimitError, type OtpVerifyResult } from "./lib/otp-store";
 import { z } from "zod";
-import multer from "multer";
 import path from "path";
 import fs from "fs";
 
-const otpStore = new Map<string, { otp: string; expiresAt: number }>();
+// User-facing message and status code for a failed OTP verification
+function describeOtpFailure(result: Exclude<OtpVerifyResult, { ok: true }>): { status: number; message: string } {
+  switch (result.reason) {
+    case "not_found":
+      return { status: 400, message: "No OTP found. Please request a new one." };
+    case "expired":
+      return { status: 400, message: "OTP has expired. Please request a new one." };
+    case "locked":
+      return { status: 429, message: "Too many incorrect attempts. Please request a new code." };
+    case "invalid":
+      return { 
+        status: 400, 
+        message: `Invalid OTP. ${result.attemptsRemaining} attempt${result.attemptsRemaining === 1 ? "" : "s"} remaining.` 
+      };
+  }
+}
+
+/**
+ * Issue and deliver a login code when the email belongs to an investor. Called after the response has
+ * gone out, so registered and unknown emails answer equally fast; every outcome is only logged.
+ */
+async function sendLoginCode(email: string, channel: OtpChannel | undefined, requestedFrom: string | null) {
+  try {
+    const investor = await storage.getInvestorByEmail(email);
+    if (!investor) {
+      return;
+    }
+    try {
+      const { otp } = await issueOtp("login", email, requestedFrom);
+      await deliverOtp({ investor, purpose: "login", otp, expiresInMinutes: 10, channel });
+    } catch (error: any) {
+      if (error instanceof OtpRateLimitError) {
+        console.warn(`Login code for investor ${investor.id} not issued: rate limited for ${error.retryAfterSeconds}s`);
+      } else {
+        console.error(`Login code for investor ${investor.id} not delivered:`, error.message);
+      }
+    }
+  } catch (error: any) {
+    console.error("Login code lookup failed:", error.message);
+  }
+}
+
+// Base URL for links in outbound messages
+function getAppBaseUrl(req: Request): string {
+  return process.env.APP_URL || req.headers.origin || `${req.protocol}://${req.get("host")}`;
+}
+
+/**
+ * Load a slot with its reservation and property, checking the investor holds it,
+ * the reservation is ready to take payments and the share is paid in full rather than by instalments
+ */
+async function getPayableSlot(
+  slotId: string,
+  investor: Investor
+): Promise<{ slot: CoOwnerSlot; reservation: PropertyReservation; property: Property } | { status: number; error: string }> {
+  const slot = await storage.getSlotById(slotId);
+  if (!slot || slot.investorId !== investor.id) {
+    return { status: 404, error: "Slot not found" };
+  }
+
+  const reservation = await storage.getReservationById(slot.reservationId);
+  const property = reservation ? await storage.getPropertyById(reservation.propertyId) : undefined;
+  if (!reservation || !property) {
+    return { status: 404, error: "Reservation not found" };
+  }
+  if (reservation.reservationStatus !== "all_signed" && reservation.reservationStatus !== "payment_pending") {
+    return { status: 409, error: "Reservation is not ready for payment - every co-owner must sign first" };
+  }
+  // Shares of an off-plan property are paid instalment by instalment, never in one go
+  const plan = await storage.getPaymentPlan(property.id);
+  if (plan.length > 0) {
+    return { status: 409, error: "This property is paid in instalments under its payment plan" };
+  }
+
+  return { slot, reservation, property };
+}
+
+/**
+ * Start the payment window for a milestone instalment and audit it.
+ * Returns undefined when the instalment was already triggered.
+ */
+async function triggerInstalment(instalment: PaymentPlanInstalment, req: Request): Promise<PaymentPlanInstalment | undefined> {
+  const triggered = await storage.triggerMilestoneInstalment(instalment.id, new Date());
+  if (!triggered) {
+    return undefined;
+  }
+
+  await storage.createAuditLogEntry({
+    eventType: "instalment_triggered",
+    propertyId: triggered.propertyId,
+    metadata: JSON.stringify({
+      adminUserId: req.adminUser?.id,
+      instalmentId: triggered.id,
+      milestoneName: triggered.milestoneName,
+      milestoneStage: triggered.milestoneStage,
+      dueDate: triggered.dueDate,
+    }),
+    ipAddress: req.ip || req.socket.remoteAddress || null,
+    userAgent: req.get("user-agent") || null,
+  });
+
+  console.log(`Milestone "${triggered.milestoneName}" reached for property ${triggered.propertyId}, instalment due ${triggered.dueDate?.toISOString()}`);
+
+  return triggered;
+}
+
+/**
+ * Change a reservation's status for its initiator or an admin and audit it. Deal signatures are given
+ * for one reservation, so cancelling it voids its co-owners' signatures.
+ */
+async function changeReservationStatus(
+  reservation: PropertyReservation,
+  status: ReservationStatus,
+  actor: ReservationStatusActor,
+  reason: string | undefined,
+  req: Request
+): Promise<{ reservation: PropertyReservation; invalidated: InvalidatedDealRecords | null } | { rejected: string }> {
+  const changed = await storage.changeReservationStatus(reservation.id, status, actor, reason);
+  if ("rejected" in changed) {
+    return changed;
+  }
+
+  let invalidated: InvalidatedDealRecords | null = null;
+  if (status === "cancelled") {
+    const slots = await storage.getSlotsByReservation(reservation.id);
+    const investorIds = Array.from(new Set(slots.map(slot => slot.investorId).filter((id): id is string => !!id)));
+    invalidated = await storage.invalidateDealSignatures(reservation.id, reservation.propertyId, investorIds, `Reservation cancelled: ${reason || "no reason given"}`);
+  }
+
+  await storage.createAuditLogEntry({
+    eventType: status === "cancelled" ? "reservation_cancelled" : "reservation_status_changed",
+    investorId: actor.investorId,
+    propertyId: reservation.propertyId,
+    metadata: JSON.stringify({
+      adminUserId: actor.adminUserId,
+      reservationId: reservation.id,
+      previousStatus: reservation.reservationStatus,
+      status,
+      reason,
+      ...(invalidated ? { invalidated } : {}),
+    }),
+    ipAddress: req.ip || req.socket.remoteAddress || null,
+    userAgent: req.get("user-agent") || null,
+  });
+
+  return { reservation: changed, invalidated };
+}
+
+// Payment statuses that still have money left to refund
+const refundablePaymentStatuses = ["completed", "partially_refunded"];
+
+/**
+ * Refund part or all of a payment (all that is left when amount is null) through the provider and reverse
+ * what it paid for. Every step is audited; a provider failure leaves the refund marked failed.
+ */
+async function refundPayment(
+  payment: PaymentWithRefunds,
+  amount: number | null,
+  reason: string,
+  req: Request
+): Promise<RefundReversal | { rejected: string }> {
+  const requestContext = {
+    ipAddress: req.ip || req.socket.remoteAddress || null,
+    userAgent: req.get("user-agent") || null,
+  };
+
+  // Checked and recorded under a lock on the payment, before any money moves
+  const refund = await storage.requestRefund(payment.id, amount, reason, req.adminUser?.id ?? null);
+  if ("rejected" in refund) {
+    return refund;
+  }
+
+  await storage.createAuditLogEntry({
+    eventType: "refund_requested",
+    investorId: payment.investorId,
+    propertyId: payment.propertyId,
+    metadata: JSON.stringify({
+      adminUserId: req.adminUser?.id,
+      refundId: refund.id,
+      paymentId: payment.id,
+      amount: refund.amount,
+      reason,
+    }),
+    ...requestContext,
+  });
+
+  // Payments made outside the card gateway are returned by hand and only recorded here
+  let providerRefundId: string | null = null;
+  if (payment.tapChargeId) {
+    try {
+      const providerRefund = await getPaymentProvider().refundCharge(payment.tapChargeId, Number(refund.amount), reason);
+      providerRefundId = providerRefund.id;
+    } catch (error: any) {
+      await storage.failRefund(refund.id, error.message);
+      await storage.createAuditLogEntry({
+        eventType: "refund_failed",
+        investorId: payment.investorId,
+        propertyId: payment.propertyId,
+        metadata: JSON.stringify({
+          adminUserId: req.adminUser?.id,
+          refundId: refund.id,
+          paymentId: payment.id,
+          error: error.message,
+        }),
+        ...requestContext,
+      });
+      throw error;
+    }
+  }
+
+  let reversal: RefundReversal;
+  try {
+    reversal = await storage.completeRefund(refund.id, providerRefundId);
+  } catch (error: any) {
+    // The money has left; the refund stays pending until someone reconciles it
+    console.error(`Refund ${refund.id} was sent to the provider but could not be applied:`, error.message);
+    throw error;
+  }
+
+  await storage.createAuditLogEntry({
+    eventType: "refund_completed",
+    investorId: payment.investorId,
+    propertyId: payment.propertyId,
+    metadata: JSON.stringify({
+      adminUserId: req.adminUser?.id,
+      refundId: refund.id,
+      paymentId: payment.id,
+      amount: refund.amount,
+      providerRefundId,
+      paymentStatus: reversal.payment.status,
+      fractionReleased: reversal.fractionReleased,
+    }),
+    ...requestContext,
+  });
+
+  console.log(`Refunded AED ${refund.amount} of payment ${payment.id} (${reversal.payment.status})`);
+
+  return reversal;
+}
+
+// Payment statuses that carry a receipt; a later refund does not withdraw it
+const receiptPaymentStatuses = ["completed", "partially_refunded", "refunded"];
+
+/**
+ * Issue a receipt as soon as a payment completes. Failures are only logged:
+ * the receipt is issued on first download instead.
+ */
+async function issueReceiptAfterPayment(paymentId: string) {
+  try {
+    const receipt = await storage.issuePaymentReceipt(paymentId);
+    console.log(`Receipt ${receipt.receiptNumber} issued for payment ${paymentId}`);
+  } catch (error: any) {
+    console.error(`Receipt for payment ${paymentId} not issued:`, error.message);
+  }
+}
+
+/**
+ * Send a payment's receipt PDF, issuing it first if needed
+ */
+async function sendPaymentReceipt(payment: PaymentWithRefunds, res: Response) {
+  if (!receiptPaymentStatuses.includes(payment.status)) {
+    return res.status(409).json({ message: "Receipts are only issued for completed payments" });
+  }
+
+  const receipt = await storage.issuePaymentReceipt(payment.id);
+  const absolutePath = resolveStoredPath(receipt.filePath);
+  if (!fs.existsSync(absolutePath)) {
+    return res.status(404).json({ message: "Receipt file missing" });
+  }
+
+  res.setHeader("Content-Type", "application/pdf");
+  res.setHeader("Content-Disposition", `attachment; filename="${receipt.receiptNumber}.pdf"`);
+  res.sendFile(absolutePath);
+}
+
+/**
+ * Issue any missing statements for the last full month and year.
+ * Statements already issued are returned unchanged, so repeated runs are harmless.
+ */
+async function issueDueStatements(now: Date = new Date()): Promise<number> {
+  let issued = 0;
+  for (const period of dueStatementPeriods(now)) {
+    const recipients = await storage.getStatementRecipients(period);
+    for (const { investorId, propertyId } of recipients) {
+      try {
+        const statement = await storage.issueOwnerStatement(investorId, propertyId, period, "schedule");
+        if (statement.issuedAt.getTime() >= now.getTime()) {
+          issued++;
+        }
+      } catch (error: any) {
+        console.error(`${formatStatementPeriod(period)} statement for investor ${investorId} on property ${propertyId} not issued:`, error.message);
+      }
+    }
+  }
+  return issued;
+}
+
+/**
+ * Public shape of a statement - files are downloaded through their own routes
+ */
+function toStatementResponse<T extends OwnerStatement>(statement: T) {
+  const { filePath, csvPath, ...rest } = statement;
+  return rest;
+}
+
+/**
+ * Send a statement's PDF or CSV file
+ */
+function sendOwnerStatementFile(statement: OwnerStatement, format: "pdf" | "csv", res: Response) {
+  const absolutePath = resolveStoredPath(format === "pdf" ? statement.filePath : statement.csvPath);
+  if (!fs.existsSync(absolutePath)) {
+    return res.status(404).json({ message: "Statement file missing" });
+  }
+
+  res.setHeader("Content-Type", format === "pdf" ? "application/pdf" : "text/csv; charset=utf-8");
+  res.setHeader("Content-Disposition", `attachment; filename="${statement.statementNumber}.${format}"`);
+  res.sendFile(absolutePath);
+}
+
+/**
+ * Complete the slot payment a bank transfer pays for and audit it.
+ * matchedBy is "auto" for statement imports, otherwise the admin's ID. Only an admin can accept a
+ * transfer below the share price, by giving a shortfallNote.
+ */
+async function completeBankTransfer(transaction: BankTransaction, slotId: string, matchedBy: string, req: Request, shortfallNote?: string) {
+  const result = await storage.matchBankTransaction(transaction.id, slotId, matchedBy, shortfallNote);
+  if ("rejected" in result) {
+    return result;
+  }
+
+  await storage.createAuditLogEntry({
+    eventType: "bank_transfer_matched",
+    investorId: result.payment.investorId,
+    metadata: JSON.stringify({
+      adminUserId: req.adminUser?.id,
+      bankTransactionId: transaction.id,
+      slotId,
+      paymentId: result.payment.id,
+      amount: transaction.amount,
+      reference: transaction.reference,
+      shortfallAmount: result.transaction.shortfallAmount,
+      shortfallNote: result.transaction.shortfallAmount ? shortfallNote : undefined,
+      matchedBy,
+    }),
+    ipAddress: req.ip || req.socket.remoteAddress || null,
+    userAgent: req.get("user-agent") || null,
+  });
+
+  console.log(`Bank transfer ${transaction.id} of AED ${transaction.amount} matched to slot ${slotId} (${matchedBy})`);
+  await issueReceiptAfterPayment(result.payment.id);
+
+  return result;
+}
+
+/**
+ * Match an imported credit by the transfer reference in its remittance text and its amount.
+ * Anything that does not line up is left for manual matching with a note saying why.
+ */
+async function autoMatchBankTransaction(transaction: BankTransaction, req: Request): Promise<boolean> {
+  const reference = extractTransferReference(transaction.reference);
+  if (!reference) {
+    await storage.setBankTransactionNote(transaction.id, "No payment reference found");
+    return false;
+  }
+
+  const slot = await storage.getBankTransferSlotByReference(reference);
+  if (!slot) {
+    await storage.setBankTransactionNote(transaction.id, `Unknown reference ${reference}`);
+    return false;
+  }
+  if (slot.paymentStatus === "paid") {
+    await storage.setBankTransactionNote(transaction.id, `${reference} is already paid`);
+    return false;
+  }
+  if (Number(transaction.amount).toFixed(2) !== slot.amount) {
+    await storage.setBankTransactionNote(transaction.id, `Amount differs from the AED ${slot.amount} due for ${reference}`);
+    return false;
+  }
 
-function generateOTP(): string {
-  return randomInt(100000, 999999).toString();
+  const result = await completeBankTransfer(transaction, slot.slotId, "auto", req);
+  if ("rejected" in result) {
+    await storage.setBankTransactionNote(transaction.id, result.rejected);
+    return false;
+  }
+  return true;
 }
 
 // Session-based authentication middleware for investor endpoints
@@ -42,6 +442,115 @@ async function requireInvestorAuth(req: Request, res: Response, next: NextFuncti
   }
 }
 
+// Session-based authentication middleware for admin endpoints
+// Admin identity lives under its own session keys, separate from investor sessions
+async function requireAdminAuth(req: Request, res: Response, next: NextFunction) {
+  try {
+    const adminUserId = req.session?.adminUserId;
+
+    if (!adminUserId) {
+      return res.status(401).json({ 
+        message: "Admin authentication required. Please log in." 
+      });
+    }
+
+    const adminUser = await storage.getAdminUserById(adminUserId);
+    if (!adminUser || !adminUser.isActive) {
+      return res.status(401).json({ 
+        message: "Invalid admin session. Please log in again." 
+      });
+    }
+
+    req.adminUser = adminUser;
+    next();
+  } catch (error: any) {
+    res.status(500).json({ message: "Authentication error" });
+  }
+}
+
+// Permission check for admin endpoints - must run after requireAdminAuth
+function requirePermission(permission: AdminPermission) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.adminUser || !hasPermission(req.adminUser.role, permission)) {
+      return res.status(403).json({ 
+        message: `Forbidden: Your role does not have the "${permission}" permission` 
+      });
+    }
+    next();
+  };
+}
+
+// Public view of an admin user (never expose the password hash)
+function toAdminProfile(adminUser: AdminUser) {
+  return {
+    id: adminUser.id,
+    email: adminUser.email,
+    fullName: adminUser.fullName,
+    role: adminUser.role,
+    isActive: adminUser.isActive,
+    lastLoginAt: adminUser.lastLoginAt,
+    permissions: getPermissionsForRole(adminUser.role),
+  };
+}
+
+// Strip identity documents and financial figures the admin's role may not see
+function redactInvestorForAdmin<T extends Investor>(investor: T, role: string): T {
+  const redacted = { ...investor };
+
+  if (!hasPermission(role, "kyc_documents:read")) {
+    redacted.passportDocPath = null;
+    redacted.passportNumber = null;
+    redacted.emiratesId = null;
+    redacted.proofOfAddressPath = null;
+    redacted.bankStatementPath = null;
+  }
+
+  return redacted;
+}
+
+/**
+ * Map the admin form onto column values (decimals are stored as strings)
+ */
+function toPropertyValues(input: AdminPropertyInput): Omit<InsertProperty, "isPilot" | "fractionsSold"> {
+  return {
+    title: input.title,
+    location: input.location,
+    description: input.description ?? null,
+    totalPrice: input.totalPrice.toFixed(2),
+    pricePerFraction: input.pricePerFraction.toFixed(2),
+    totalFractions: input.totalFractions,
+    bedrooms: input.bedrooms ?? null,
+    bathrooms: input.bathrooms ?? null,
+    area: input.area ?? null,
+    escrowIban: input.escrowIban ?? null,
+    handoverDate: input.handoverDate ?? null,
+    status: input.status,
+  };
+}
+
+// Manual status changes allowed from each state; "fully_funded" is set when the last fraction sells and
+// "sold" when the whole property is sold at exit
+const propertyStatusTransitions: Record<string, string[]> = {
+  draft: ["draft", "published", "archived"],
+  published: ["published", "draft", "archived"],
+  fully_funded: ["fully_funded", "archived"],
+  archived: ["archived", "published"],
+  sold: ["sold"],
+};
+
+/**
+ * Check an admin status change, returning an error message when it is not allowed
+ */
+function checkPropertyStatusChange(property: Property, nextStatus: string): string | null {
+  if (!propertyStatusTransitions[property.status]?.includes(nextStatus)) {
+    return `Cannot change status from ${property.status} to ${nextStatus}`;
+  }
+  if (nextStatus === "draft" && property.fractionsSold > 0) {
+    return "A property with sold fractions cannot return to draft";
+  }
+  return null;
+}
+
 // Simple in-memory rate limiter for public endpoints
 // NOTE: Current rate limiting is in-memory and per-process. For production horizontal scaling,
 // migrate to Redis-backed rate limiting with keys like `${ip}:${endpoint}:${timestamp}`.
@@ -73,53 +582,449 @@ function rateLimitMiddleware(maxRequests: number = 10, windowMs: number = 60000)
   };
 }
 
-const uploadsDir = path.join(process.cwd(), "uploads", "kyc-documents");
-if (!fs.existsSync(uploadsDir)) {
-  fs.mkdirSync(uploadsDir, { recursive: true });
+const upload = createUploader({
+  directory: "kyc-documents",
+  maxFileSize: 5 * 1024 * 1024, // 5MB limit
+  allowedMimes: ["image/jpeg", "image/jpg", "image/png", "application/pdf"],
+  invalidTypeMessage: "Invalid file type. Only PDF, JPG, and PNG files are allowed.",
+});
+
+const imageMimes = ["image/jpeg", "image/jpg", "image/png", "image/webp"];
+
+const mediaUpload = createUploader({
+  directory: "property-media",
+  maxFileSize: 20 * 1024 * 1024, // 20MB - brochures can be large
+  allowedMimes: [...imageMimes, "application/pdf"],
+  invalidTypeMessage: "Invalid file type. Only JPG, PNG, WebP and PDF files are allowed.",
+});
+
+/**
+ * Public shape of a media item - file paths stay on the server
+ */
+function toMediaResponse(media: PropertyMedia) {
+  const { filePath, thumbnailPath, uploadedBy, ...rest } = media;
+  return {
+    ...rest,
+    url: `/api/media/${media.id}/file`,
+    thumbnailUrl: thumbnailPath ? `/api/media/${media.id}/thumbnail` : null,
+  };
 }
 
-const storage_config = multer.diskStorage({
-  destination: (req, file, cb) => {
-    cb(null, uploadsDir);
-  },
-  filename: (req, file, cb) => {
-    const uniqueSuffix = `${Date.now()}-${Math.round(Math.random() * 1E9)}`;
-    cb(null, `${file.fieldname}-${uniqueSuffix}${path.extname(file.originalname)}`);
-  },
+const statementUpload = createUploader({
+  directory: "bank-statements",
+  maxFileSize: 10 * 1024 * 1024, // 10MB
+  allowedMimes: ["text/csv", "application/vnd.ms-excel", "text/plain", "application/xml", "text/xml"],
+  invalidTypeMessage: "Invalid file type. Bank statements must be CSV or camt.053 XML files.",
 });
 
-const fileFilter = (req: any, file: any, cb: any) => {
-  const allowedMimes = ["image/jpeg", "image/jpg", "image/png", "application/pdf"];
-  if (allowedMimes.includes(file.mimetype)) {
-    cb(null, true);
-  } else {
-    cb(new Error("Invalid file type. Only PDF, JPG, and PNG files are allowed."), false);
-  }
-};
+const certificateUpload = createUploader({
+  directory: "construction-certificates",
+  maxFileSize: 20 * 1024 * 1024, // 20MB
+  allowedMimes: ["application/pdf"],
+  invalidTypeMessage: "Invalid file type. Progress certificates must be PDF files.",
+});
 
-const upload = multer({
-  storage: storage_config,
-  limits: { fileSize: 5 * 1024 * 1024 }, // 5MB limit
-  fileFilter,
+const expenseInvoiceUpload = createUploader({
+  directory: "expense-invoices",
+  maxFileSize: 10 * 1024 * 1024, // 10MB
+  allowedMimes: ["image/jpeg", "image/jpg", "image/png", "application/pdf"],
+  invalidTypeMessage: "Invalid file type. Invoices must be PDF, JPG or PNG files.",
 });
 
+/**
+ * Public shape of an expense - the invoice is downloaded through its own route
+ */
+function toExpenseResponse<T extends PropertyExpense>(expense: T) {
+  const { invoicePath, ...rest } = expense;
+  return { ...rest, hasInvoice: !!invoicePath };
+}
+
+/**
+ * Ask each co-owner to approve an expense above the approval threshold.
+ * Failed emails are logged; co-owners also see the request on their dashboard.
+ */
+async function requestExpenseApprovals(expense: PropertyExpenseWithDetails, propertyTitle: string, req: Request) {
+  const investorIds = Array.from(new Set(expense.allocations.map(allocation => allocation.investorId)));
+  const dashboardUrl = `${getAppBaseUrl(req)}/dashboard`;
+
+  const results = await Promise.allSettled(investorIds.map(async (investorId) => {
+    const investor = await storage.getInvestorById(investorId);
+    if (!investor) {
+      return;
+    }
+    const shareCents = expense.allocations
+      .filter(allocation => allocation.investorId === investorId)
+      .reduce((sum, allocation) => sum + toCents(allocation.amount), 0);
+    await getMailer().sendTemplate(investor.email, "expense_approval_request", investor.preferredLanguage, {
+      fullName: investor.fullName,
+      propertyTitle,
+      vendor: expense.vendor,
+      amount: Number(expense.amount).toLocaleString("en-US", { minimumFractionDigits: 2 }),
+      shareAmount: (shareCents / 100).toLocaleString("en-US", { minimumFractionDigits: 2 }),
+      approvalsRequired: expense.approvalsRequired,
+      coOwnerCount: investorIds.length,
+      dashboardUrl,
+    });
+  }));
+  const failed = results.filter(r => r.status === "rejected").length;
+  if (failed > 0) {
+    console.error(`${failed} expense approval requests for expense ${expense.id} failed to send`);
+  }
+}
+
+/**
+ * Send an expense's invoice file
+ */
+function sendExpenseInvoice(expense: PropertyExpense, res: Response) {
+  if (!expense.invoicePath) {
+    return res.status(404).json({ message: "No invoice uploaded for this expense" });
+  }
+  const absolutePath = resolveStoredPath(expense.invoicePath);
+  if (!fs.existsSync(absolutePath)) {
+    return res.status(404).json({ message: "Invoice file missing" });
+  }
+  res.setHeader("Content-Disposition", `inline; filename="${encodeURIComponent(expense.invoiceFilename || path.basename(absolutePath))}"`);
+  res.sendFile(absolutePath);
+}
+
+function formatAedAmount(amount: string | number): string {
+  return Number(amount).toLocaleString("en-US", { minimumFractionDigits: 2 });
+}
+
+/**
+ * Email investors about a secondary market event.
+ * Failed emails are logged; both sides also see the listing, offer or transfer on their dashboard.
+ */
+async function emailShareInvestors(investorIds: string[], event: string, send: (investor: Investor) => Promise<unknown>) {
+  const results = await Promise.allSettled(Array.from(new Set(investorIds)).map(async (investorId) => {
+    const investor = await storage.getInvestorById(investorId);
+    if (investor) {
+      await send(investor);
+    }
+  }));
+  const failed = results.filter(r => r.status === "rejected").length;
+  if (failed > 0) {
+    console.error(`${failed} ${event} emails failed to send`);
+  }
+}
+
+/**
+ * Ask both parties to an agreed sale to sign the share transfer agreement
+ */
+async function requestShareTransferSignatures(transfer: ShareTransfer, req: Request) {
+  const property = await storage.getPropertyById(transfer.propertyId);
+  const dashboardUrl = `${getAppBaseUrl(req)}/dashboard`;
+  await emailShareInvestors([transfer.sellerInvestorId, transfer.buyerInvestorId], "share sale agreed", (investor) =>
+    getMailer().sendTemplate(investor.email, "share_sale_agreed", investor.preferredLanguage, {
+      fullName: investor.fullName,
+      propertyTitle: property?.title || "",
+      sharePercentage: String(Number(transfer.sharePercentage)),
+      price: formatAedAmount(transfer.price),
+      dashboardUrl,
+    })
+  );
+}
+
+/**
+ * Send the sealed share transfer agreement
+ */
+async function sendShareTransferAgreement(transfer: ShareTransfer, res: Response) {
+  const document = transfer.signedDocumentId ? await storage.getSignedDocumentById(transfer.signedDocumentId) : undefined;
+  if (!document) {
+    return res.status(404).json({ message: "The agreement is sealed once both parties have signed" });
+  }
+  const absolutePath = resolveStoredPath(document.filePath);
+  if (!fs.existsSync(absolutePath)) {
+    return res.status(404).json({ message: "Agreement file missing" });
+  }
+  res.setHeader("Content-Type", "application/pdf");
+  res.setHeader("Content-Disposition", `attachment; filename="share-transfer-${transfer.settlementReference}.pdf"`);
+  res.sendFile(absolutePath);
+}
+
+/**
+ * Public shape of a proposal for co-owners: the resolution is downloaded through its own route and
+ * ballots show who voted what, not where they voted from
+ */
+function toProposalResponse(proposal: GovernanceProposalWithDetails) {
+  const { resolutionPath, votes, ...rest } = proposal;
+  return rest;
+}
+
+function toAdminProposalResponse(proposal: GovernanceProposalWithDetails) {
+  const { resolutionPath, ...rest } = proposal;
+  return rest;
+}
+
+/**
+ * Ask every co-owner entitled to vote on a new proposal to cast their ballot
+ */
+async function announceProposal(proposal: GovernanceProposal, req: Request) {
+  const details = await storage.getGovernanceProposalWithDetails(proposal.id);
+  if (!details) {
+    return;
+  }
+  const dashboardUrl = `${getAppBaseUrl(req)}/dashboard`;
+  await emailShareInvestors(details.ballots.map(ballot => ballot.investorId), "governance proposal", (investor) =>
+    getMailer().sendTemplate(investor.email, "governance_proposal_opened", investor.preferredLanguage, {
+      fullName: investor.fullName,
+      propertyTitle: details.propertyTitle,
+      proposalTitle: details.title,
+      sharePercentage: String(Number(details.ballots.find(ballot => ballot.investorId === investor.id)?.sharePercentage || 0)),
+      deadline: details.deadline,
+      dashboardUrl,
+    })
+  );
+}
+
+/**
+ * Tell the co-owners how a proposal was decided
+ */
+async function announceProposalOutcome(proposal: GovernanceProposal) {
+  if (proposal.status !== "passed" && proposal.status !== "rejected" && proposal.status !== "no_quorum") {
+    return;
+  }
+  const outcome = proposal.status;
+  const details = await storage.getGovernanceProposalWithDetails(proposal.id);
+  if (!details) {
+    return;
+  }
+  await emailShareInvestors(details.ballots.map(ballot => ballot.investorId), "governance outcome", (investor) =>
+    getMailer().sendTemplate(investor.email, "governance_proposal_decided", investor.preferredLanguage, {
+      fullName: investor.fullName,
+      propertyTitle: details.propertyTitle,
+      proposalTitle: details.title,
+      outcome,
+      sharesFor: String(Number(details.sharesFor)),
+      sharesAgainst: String(Number(details.sharesAgainst)),
+      sharesAbstained: String(Number(details.sharesAbstained)),
+    })
+  );
+}
+
+/**
+ * Stream a sealed signing document
+ */
+function sendSignedDocument(document: SignedDocument, res: Response) {
+  if (!fs.existsSync(document.filePath)) {
+    return res.status(404).json({ message: "PDF file not found on disk" });
+  }
+  res.setHeader("Content-Type", "application/pdf");
+  res.setHeader("Content-Disposition", `attachment; filename="${path.basename(document.filePath)}"`);
+  fs.createReadStream(document.filePath).pipe(res);
+}
+
+/**
+ * Send the resolution of a passed proposal
+ */
+function sendResolution(proposal: GovernanceProposal, res: Response) {
+  if (!proposal.resolutionPath || !proposal.resolutionNumber) {
+    return res.status(404).json({ message: "A resolution is issued once a proposal passes" });
+  }
+  const absolutePath = resolveStoredPath(proposal.resolutionPath);
+  if (!fs.existsSync(absolutePath)) {
+    return res.status(404).json({ message: "Resolution file missing" });
+  }
+  res.setHeader("Content-Type", "application/pdf");
+  res.setHeader("Content-Disposition", `attachment; filename="${proposal.resolutionNumber}.pdf"`);
+  res.sendFile(absolutePath);
+}
+
+/**
+ * Close proposals whose deadline has passed and tell their co-owners the outcome
+ */
+async function closeDueProposals(): Promise<number> {
+  const closed = await storage.closeDueGovernanceProposals();
+  for (const proposal of closed) {
+    await announceProposalOutcome(proposal);
+  }
+  return closed.length;
+}
+
+/**
+ * Cancel reservations that made no progress for the abandonment period, void their co-owners'
+ * signatures and tell each initiator
+ */
+async function cancelAbandonedReservations(): Promise<number> {
+  const inactiveDays = String(getReservationAbandonDays());
+  const reason = `No progress for ${inactiveDays} days`;
+  const abandoned = await storage.cancelAbandonedReservations(abandonedBefore(), paymentLapsedBefore(), reason);
+
+  for (const { reservation, previousStatus, investorIds } of abandoned) {
+    const invalidated = await storage.invalidateDealSignatures(reservation.id, reservation.propertyId, investorIds, `Reservation cancelled: ${reason}`);
+    await storage.createAuditLogEntry({
+      eventType: "reservation_cancelled",
+      investorId: reservation.initiatorInvestorId,
+      propertyId: reservation.propertyId,
+      metadata: JSON.stringify({
+        reservationId: reservation.id,
+        previousStatus,
+        reason,
+        automatic: true,
+        invalidated,
+      }),
+      ipAddress: null,
+      userAgent: null,
+    });
+
+    const property = await storage.getPropertyById(reservation.propertyId);
+    await emailShareInvestors([reservation.initiatorInvestorId], "abandoned reservation", (investor) =>
+      getMailer().sendTemplate(investor.email, "reservation_abandoned", investor.preferredLanguage, {
+        fullName: investor.fullName,
+        propertyTitle: property?.title || "",
+        inactiveDays,
+      })
+    );
+  }
+  return abandoned.length;
+}
+
+/**
+ * Expire invitations and signing sessions past their expiry date
+ */
+async function expireInvitationsAndSessions(): Promise<number> {
+  const { invitations, sessions } = await storage.expireInvitationsAndSessions();
+  return invitations + sessions;
+}
+
+/**
+ * Admin shape of a property sale: exit statements are downloaded through their own route
+ */
+function toExitResponse(exit: PropertyExitWithDetails) {
+  return {
+    ...exit,
+    payouts: exit.payouts.map(({ statementPath, ...payout }) => payout),
+    suggestedDldTransferFee: exit.salePrice ? suggestedDldTransferFee(exit.salePrice).toFixed(2) : null,
+  };
+}
+
+/**
+ * Tell each co-owner of a sold property their share of the proceeds and where to find their exit statement
+ */
+async function announceExitCompleted(exit: PropertyExitWithDetails, req: Request) {
+  const dashboardUrl = `${getAppBaseUrl(req)}/dashboard`;
+  await emailShareInvestors(exit.payouts.map(payout => payout.investorId), "property exit", (investor) => {
+    const payout = exit.payouts.find(p => p.investorId === investor.id)!;
+    return getMailer().sendTemplate(investor.email, "property_exit_completed", investor.preferredLanguage, {
+      fullName: investor.fullName,
+      propertyTitle: exit.propertyTitle,
+      salePrice: formatAedAmount(exit.salePrice || 0),
+      sharePercentage: String(Number(payout.sharePercentage)),
+      proceeds: formatAedAmount(payout.amount),
+      statementNumber: payout.statementNumber || "",
+      dashboardUrl,
+    });
+  });
+}
+
+/**
+ * Send a co-owner's final exit statement
+ */
+function sendExitStatement(payout: ExitPayout, res: Response) {
+  if (!payout.statementPath || !payout.statementNumber) {
+    return res.status(404).json({ message: "Exit statement not found" });
+  }
+  const absolutePath = resolveStoredPath(payout.statementPath);
+  if (!fs.existsSync(absolutePath)) {
+    return res.status(404).json({ message: "Exit statement file missing" });
+  }
+  res.setHeader("Content-Type", "application/pdf");
+  res.setHeader("Content-Disposition", `attachment; filename="${payout.statementNumber}.pdf"`);
+  res.sendFile(absolutePath);
+}
+
+/**
+ * Construction stages with their updates, photos, certificate link and the instalments they trigger
+ */
+async function getMilestoneTimeline(property: Property) {
+  const milestones = await storage.getConstructionMilestones(property.id);
+  const milestoneIds = milestones.map(m => m.id);
+  const updates = await storage.getConstructionUpdates(milestoneIds);
+  const photos = await storage.getMilestonePhotos(milestoneIds);
+  const instalments = await storage.getPaymentPlan(property.id);
+
+  return {
+    propertyId: property.id,
+    // Stages are weighted equally; one with no row yet has not started
+    overallProgress: Math.round(milestones.reduce((sum, m) => sum + m.percentComplete, 0) / constructionStages.length),
+    milestones: milestones.map(milestone => {
+      const { certificatePath, ...rest } = milestone;
+      return {
+        ...rest,
+        label: constructionStageLabels[milestone.stage as ConstructionStage],
+        certificateUrl: certificatePath ? `/api/properties/${property.id}/milestones/${milestone.stage}/certificate` : null,
+        updates: updates.filter(u => u.milestoneId === milestone.id),
+        photos: photos.filter(p => p.milestoneId === milestone.id).map(toMediaResponse),
+        instalments: instalments
+          .filter(i => i.triggerType === "milestone" && i.milestoneStage === milestone.stage)
+          .map(i => ({
+            id: i.id,
+            sequence: i.sequence,
+            label: i.label,
+            percentage: i.percentage,
+            dueDate: i.dueDate,
+            triggeredAt: i.triggeredAt,
+          })),
+      };
+    }),
+  };
+}
+
+const backgroundJobs: BackgroundJob[] = [
+  {
+    name: "otp_cleanup",
+    intervalMs: 60 * 60 * 1000,
+    run: cleanupExpiredOtps,
+    describe: count => `Removed ${count} expired OTP codes`,
+  },
+  {
+    name: "owner_statements",
+    intervalMs: 24 * 60 * 60 * 1000,
+    run: issueDueStatements,
+    describe: count => `Issued ${count} owner statements`,
+  },
+  {
+    name: "governance_deadlines",
+    intervalMs: 15 * 60 * 1000,
+    run: closeDueProposals,
+    describe: count => `Closed ${count} governance proposals past their deadline`,
+  },
+  {
+    name: "invitation_expiry",
+    intervalMs: 15 * 60 * 1000,
+    run: expireInvitationsAndSessions,
+    describe: count => `Expired ${count} invitations and signing sessions`,
+  },
+  {
+    name: "abandoned_reservations",
+    intervalMs: 60 * 60 * 1000,
+    run: cancelAbandonedReservations,
+    describe: count => `Cancelled ${count} abandoned reservations`,
+  },
+];
+
 export async function registerRoutes(app: Express): Promise<Server> {
+  startBackgroundJobs(backgroundJobs);
+  registerMockGateway(app);
   
   app.post("/api/auth/send-otp", rateLimitMiddleware(5, 60000), async (req, res) => {
     try {
-      const { email } = loginSchema.parse(req.body);
-      
-      const otp = generateOTP();
-      otpStore.set(email, {
-        otp,
-        expiresAt: Date.now() + 10 * 60 * 1000,
-      });
+      const { email, channel } = loginSchema.parse(req.body);
 
       // SECURITY: OTP removed from logs - never log secrets in production
-      
-      res.json({ success: true, message: "OTP sent to email" });
+      // Only registered investors get a code, so unknown emails cannot use up anyone's quota.
+      // The code is issued and sent after answering, so neither the response nor its timing
+      // tells whether the email has an account
+      res.json({ success: true, message: "If this email is registered, a login code is on its way" });
+      void sendLoginCode(email, channel, req.ip || req.socket.remoteAddress || null);
     } catch (error: any) {
-      res.status(400).json({ message: error.message });
+      if (error.name === "ZodError") {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: error.errors 
+        });
+      }
+      res.status(500).json({ message: error.message });
     }
   });
 
@@ -127,30 +1032,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const { email, otp } = verifyOtpSchema.parse(req.body);
       
-      // Get stored OTP
-      const storedOTP = otpStore.get(email);
-      
-      if (!storedOTP) {
-        return res.status(400).json({ message: "No OTP found. Please request a new one." });
-      }
-      
-      if (storedOTP.expiresAt < Date.now()) {
-        otpStore.delete(email);
-        return res.status(400).json({ message: "OTP has expired. Please request a new one." });
-      }
-      
-      // CRITICAL: Verify OTP matches (case-sensitive)
-      if (storedOTP.otp !== otp) {
-        return res.status(400).json({ message: "Invalid OTP. Please try again." });
+      // Attempts are counted and the code is consumed inside the OTP store
+      const result = await verifyOtp("login", email, otp);
+      if (!result.ok) {
+        const { status, message } = describeOtpFailure(result);
+        return res.status(status).json({ message });
       }
       
-      // OTP is valid - clear it
-      otpStore.delete(email);
-      
-      const investor = await storage.getInvestorByEmail(email);
-      if (!investor) {
+      const account = await storage.getInvestorByEmail(email);
+      if (!account) {
         return res.status(404).json({ message: "Investor not found" });
       }
+      const [investor] = await storage.withInvestedTotals([account]);
       
       // CRITICAL SECURITY: Regenerate session to prevent session fixation attacks
       req.session.regenerate((err) => {
@@ -186,7 +1079,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const data = insertInvestorSchema.parse(req.body);
       const investor = await storage.createInvestor(data);
-      res.json(investor);
+      const [created] = await storage.withInvestedTotals([investor]);
+      res.json(created);
     } catch (error: any) {
       res.status(400).json({ message: error.message });
     }
@@ -205,22 +1099,40 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!investor) {
         return res.status(404).json({ message: "Investor not found" });
       }
-      res.json(investor);
+      const [withTotals] = await storage.withInvestedTotals([investor]);
+      res.json(withTotals);
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.post("/api/investors/:id/upload-documents", requireInvestorAuth, upload.fields([
-    { name: "passport", maxCount: 1 },
-    { name: "proofOfAddress", maxCount: 1 },
-    { name: "bankStatement", maxCount: 1 },
-  ]), async (req, res) => {
+  app.patch("/api/investors/:id/preferences", requireInvestorAuth, async (req, res) => {
     try {
-      const investorId = req.params.id;
-
-      // Investors can only upload documents for themselves
-      if (investorId !== req.investor!.id) {
+      if (req.params.id !== req.investor!.id) {
+        return res.status(403).json({ 
+          message: "Forbidden: You can only update your own preferences" 
+        });
+      }
+
+      const preferences = updateInvestorPreferencesSchema.parse(req.body);
+      const investor = await storage.updateInvestorPreferences(req.params.id, preferences);
+      const [withTotals] = await storage.withInvestedTotals([investor]);
+      res.json(withTotals);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/investors/:id/upload-documents", requireInvestorAuth, upload.fields([
+    { name: "passport", maxCount: 1 },
+    { name: "proofOfAddress", maxCount: 1 },
+    { name: "bankStatement", maxCount: 1 },
+  ]), async (req, res) => {
+    try {
+      const investorId = req.params.id;
+
+      // Investors can only upload documents for themselves
+      if (investorId !== req.investor!.id) {
         return res.status(403).json({ 
           message: "Forbidden: You can only upload documents for your own account" 
         });
@@ -235,20 +1147,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const documentPaths: any = {};
 
       if (files.passport && files.passport[0]) {
-        documentPaths.passportDocPath = `uploads/kyc-documents/${files.passport[0].filename}`;
+        documentPaths.passportDocPath = toStoredPath("kyc-documents", files.passport[0].filename);
       }
 
       if (files.proofOfAddress && files.proofOfAddress[0]) {
-        documentPaths.proofOfAddressPath = `uploads/kyc-documents/${files.proofOfAddress[0].filename}`;
+        documentPaths.proofOfAddressPath = toStoredPath("kyc-documents", files.proofOfAddress[0].filename);
       }
 
       if (files.bankStatement && files.bankStatement[0]) {
-        documentPaths.bankStatementPath = `uploads/kyc-documents/${files.bankStatement[0].filename}`;
+        documentPaths.bankStatementPath = toStoredPath("kyc-documents", files.bankStatement[0].filename);
       }
 
       documentPaths.documentsUploadedAt = new Date();
 
-      const investor = await storage.updateInvestorDocuments(investorId, documentPaths);
+      const updated = await storage.updateInvestorDocuments(investorId, documentPaths);
+      const [investor] = await storage.withInvestedTotals([updated]);
 
       res.json({
         message: "Documents uploaded successfully",
@@ -261,103 +1174,185 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/tap-payment/create-charge", requireInvestorAuth, async (req, res) => {
+  // What an investor owes for their reservation slot
+  app.get("/api/slots/:slotId/payment-summary", requireInvestorAuth, async (req, res) => {
     try {
-      const { amount, investorId, propertyId } = req.body;
+      const payable = await getPayableSlot(req.params.slotId, req.investor!);
+      if ("error" in payable) {
+        return res.status(payable.status).json({ message: payable.error });
+      }
 
-      // Validate that investorId from body matches session
-      if (investorId !== req.investor!.id) {
-        return res.status(403).json({ message: "Cannot create charges for other investors" });
+      const { slot, reservation, property } = payable;
+      res.json({
+        slot,
+        reservation,
+        property,
+        amount: calculateSlotAmount(property.totalPrice, slot.sharePercentage),
+      });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Wire instructions for paying a slot into the property's escrow account
+  app.post("/api/slots/:slotId/bank-transfer", requireInvestorAuth, async (req, res) => {
+    try {
+      const payable = await getPayableSlot(req.params.slotId, req.investor!);
+      if ("error" in payable) {
+        return res.status(payable.status).json({ message: payable.error });
+      }
+      if (payable.slot.paymentStatus === "paid") {
+        return res.status(409).json({ message: "This share has already been paid" });
       }
 
-      const tapResponse = await fetch("https://api.tap.company/v2/charges", {
-        method: "POST",
-        headers: {
-          "Authorization": `Bearer ${process.env.TAP_SECRET_KEY}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
+      const { reservation, property } = payable;
+      if (!property.escrowIban) {
+        return res.status(409).json({ message: "This property has no escrow account for bank transfers yet" });
+      }
+
+      const slot = await storage.getOrCreateTransferReference(payable.slot.id);
+      const started = await storage.startSlotPayment(slot.id);
+      if ("rejected" in started) {
+        return res.status(409).json({ message: started.rejected });
+      }
+
+      const amount = calculateSlotAmount(property.totalPrice, slot.sharePercentage);
+
+      await storage.createAuditLogEntry({
+        eventType: "bank_transfer_requested",
+        investorId: req.investor!.id,
+        propertyId: property.id,
+        metadata: JSON.stringify({
+          reservationId: reservation.id,
+          slotId: slot.id,
+          reference: slot.transferReference,
           amount,
-          currency: "AED",
-          customer: {
-            email: req.body.email,
-            first_name: req.body.firstName,
-            last_name: req.body.lastName,
-            phone: {
-              country_code: "+971",
-              number: req.body.phone,
-            },
-          },
-          source: {
-            id: "src_all",
-          },
-          redirect: {
-            url: `${req.headers.origin}/dashboard`,
-          },
-          description: "FOPD Fractional Ownership Purchase - 25% Fraction",
-          metadata: {
-            investorId,
-            propertyId,
-            fractionPercentage: "25",
-          },
         }),
+        ipAddress: req.ip || req.socket.remoteAddress || null,
+        userAgent: req.get("user-agent") || null,
+      });
+
+      res.json({
+        reference: slot.transferReference,
+        amount,
+        currency: "AED",
+        escrowIban: property.escrowIban,
+        propertyTitle: property.title,
       });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/tap-payment/create-charge", requireInvestorAuth, async (req, res) => {
+    try {
+      const { slotId } = createSlotChargeSchema.parse(req.body);
+      const investor = req.investor!;
 
-      const charge = await tapResponse.json();
+      const payable = await getPayableSlot(slotId, investor);
+      if ("error" in payable) {
+        return res.status(payable.status).json({ message: payable.error });
+      }
+      if (payable.slot.paymentStatus === "paid") {
+        return res.status(409).json({ message: "This share has already been paid" });
+      }
+
+      const { slot, reservation, property } = payable;
+      // Priced from the property and the slot share, never from the client
+      const amount = calculateSlotAmount(property.totalPrice, slot.sharePercentage);
+      const sharePercentage = Number(slot.sharePercentage).toString();
+      const [firstName, ...otherNames] = investor.fullName.trim().split(/\s+/);
+
+      const started = await storage.startSlotPayment(slot.id);
+      if ("rejected" in started) {
+        return res.status(409).json({ message: started.rejected });
+      }
 
-      if (!tapResponse.ok) {
-        return res.status(400).json({ message: "Payment creation failed", error: charge });
+      const baseUrl = getAppBaseUrl(req);
+      let charge;
+      try {
+        charge = await getPaymentProvider().createCharge({
+          amount: Number(amount),
+          description: `FOPD Co-Ownership - ${sharePercentage}% of ${property.title}`,
+          customer: {
+            email: investor.email,
+            firstName: firstName || "Investor",
+            lastName: otherNames.join(" ") || "Name",
+            phone: investor.phone.replace(/\D/g, "").slice(-9),
+          },
+          metadata: {
+            investorId: investor.id,
+            propertyId: property.id,
+            reservationId: reservation.id,
+            slotId: slot.id,
+            sharePercentage,
+          },
+          redirectUrl: `${baseUrl}/payment?slotId=${encodeURIComponent(slot.id)}`,
+          webhookUrl: `${baseUrl}/api/tap-payment/webhook`,
+        });
+      } catch (error) {
+        // No checkout was opened, so the slot goes back to where it was
+        await storage.revertSlotPayment(slot.id, slot.paymentStatus);
+        throw error;
       }
 
       res.json({ 
         chargeId: charge.id,
-        redirectUrl: charge.transaction?.url,
+        amount,
+        redirectUrl: charge.checkoutUrl,
       });
     } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: error.errors 
+        });
+      }
+      if (error instanceof PaymentProviderError) {
+        return res.status(400).json({ message: "Payment creation failed", error: error.details });
+      }
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.post("/api/tap-payment/webhook", async (req, res) => {
+  // Charge status for the investor returning from the hosted checkout
+  app.get("/api/tap-payment/charges/:chargeId", requireInvestorAuth, async (req, res) => {
     try {
-      // CRITICAL SECURITY: Verify webhook signature using TAP_SECRET_KEY
-      const signature = req.headers['x-tap-signature'] as string;
-      if (!signature) {
-        console.error("Webhook rejected: Missing signature");
-        return res.status(401).json({ message: "Missing webhook signature" });
+      const charge = await getPaymentProvider().retrieveCharge(req.params.chargeId);
+      if (charge.metadata.investorId !== req.investor!.id) {
+        return res.status(404).json({ message: "Charge not found" });
       }
-      
-      // Validate signature format (must be 64-char lowercase hex for SHA-256)
-      if (!/^[a-f0-9]{64}$/.test(signature)) {
-        console.error("Webhook rejected: Invalid signature format");
-        return res.status(401).json({ message: "Invalid signature format" });
+
+      res.json({
+        chargeId: charge.id,
+        status: charge.status,
+        amount: charge.amount,
+        propertyId: charge.metadata.propertyId,
+        slotId: charge.metadata.slotId,
+      });
+    } catch (error: any) {
+      if (error instanceof PaymentProviderError) {
+        return res.status(error.status === 404 ? 404 : 502).json({ message: error.status === 404 ? "Charge not found" : error.message });
       }
-      
-      // Get raw body (Buffer from express.raw() middleware)
-      const rawBody = req.body as Buffer;
-      
-      // Calculate HMAC over raw body bytes (not stringified JSON)
-      const crypto = require('crypto');
-      const hmac = crypto.createHmac('sha256', process.env.TAP_SECRET_KEY || '');
-      hmac.update(rawBody);
-      const expectedSignature = hmac.digest('hex');
-      
-      // Timing-safe comparison with equal-length buffers
-      const signatureBuffer = Buffer.from(signature, 'hex');
-      const expectedBuffer = Buffer.from(expectedSignature, 'hex');
-      
-      if (signatureBuffer.length !== expectedBuffer.length ||
-          !crypto.timingSafeEqual(signatureBuffer, expectedBuffer)) {
-        console.error("Webhook rejected: Signature mismatch");
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/tap-payment/webhook", async (req, res) => {
+    try {
+      // CRITICAL SECURITY: Verify the signature over the raw body bytes (from express.raw()), not re-stringified JSON
+      const charge = getPaymentProvider().verifyWebhook(req.body as Buffer, req.headers);
+      if (!charge) {
+        console.error("Webhook rejected: Missing or invalid signature");
         return res.status(401).json({ message: "Invalid webhook signature" });
       }
-      
-      // Parse JSON AFTER signature verification
-      const charge = JSON.parse(rawBody.toString('utf8'));
 
-      if (charge.status === "CAPTURED") {
-        const { investorId, propertyId } = charge.metadata;
+      const { investorId, propertyId, slotId } = charge.metadata;
+      const investor = investorId ? await storage.getInvestorById(investorId) : undefined;
+      const property = propertyId ? await storage.getPropertyById(propertyId) : undefined;
 
+      // A captured charge we cannot attribute is a provider or configuration error - let it retry
+      if (charge.status === "CAPTURED") {
         if (!investorId || !propertyId) {
           console.error("Webhook received missing investorId or propertyId");
           return res.status(400).json({ 
@@ -365,49 +1360,61 @@ export async function registerRoutes(app: Express): Promise<Server> {
             received: { investorId, propertyId }
           });
         }
-
-        const investor = await storage.getInvestorById(investorId);
         if (!investor) {
           console.error(`Investor not found: ${investorId}`);
           return res.status(404).json({ error: "Investor not found" });
         }
-
-        const property = await storage.getPropertyById(propertyId);
         if (!property) {
           console.error(`Property not found: ${propertyId}`);
           return res.status(404).json({ error: "Property not found" });
         }
-        const fraction = await storage.createFraction({
-          investorId,
-          propertyId,
-          fractionNumber: investor.fractionsPurchased + 1,
-          purchasePrice: charge.amount.toString(),
-          paymentStatus: "completed",
-          tapChargeId: charge.id,
-        });
-
-        const payment = await storage.createPayment({
-          investorId,
-          fractionId: fraction.id,
-          amount: charge.amount.toString(),
-          currency: "AED",
-          tapChargeId: charge.id,
-          status: "completed",
-          paymentMethod: charge.source?.payment_method || "card",
-        });
-
-        await storage.updateInvestorAfterPurchase(
-          investorId,
-          investor.fractionsPurchased + 1,
-          (Number(investor.totalInvested) + Number(charge.amount)).toString()
-        );
+      }
 
-        await storage.updatePropertyFractionsSold(
-          propertyId,
-          property.fractionsSold + 1
-        );
+      const { event, duplicate } = await storage.processChargeWebhook({
+        provider: getPaymentProvider().name,
+        chargeId: charge.id,
+        status: charge.status,
+        amount: charge.amount,
+        paymentMethod: charge.paymentMethod,
+        investorId: investor?.id ?? null,
+        propertyId: property?.id ?? null,
+        slotId: slotId || null,
+        payload: (req.body as Buffer).toString("utf8"),
+      });
+
+      if (duplicate) {
+        console.log(`Duplicate webhook for charge ${charge.id} (${charge.status}) acknowledged, delivery #${event.deliveryCount}`);
+        return res.json({ received: true, duplicate: true });
+      }
+
+      await storage.createAuditLogEntry({
+        eventType: event.outcome === "processed" ? "payment_captured" : "payment_webhook_recorded",
+        investorId: event.investorId,
+        propertyId: event.propertyId,
+        metadata: JSON.stringify({
+          chargeId: charge.id,
+          status: charge.status,
+          amount: charge.amount,
+          slotId,
+          outcome: event.outcome,
+          outcomeReason: event.outcomeReason,
+          paymentId: event.paymentId,
+        }),
+        ipAddress: req.ip || req.socket.remoteAddress || null,
+        userAgent: req.get("user-agent") || null,
+      });
 
+      if (event.outcome === "processed") {
         console.log(`Payment processed successfully for investor ${investorId}, property ${propertyId}`);
+        // Not awaited so the provider gets its answer without waiting on PDF rendering
+        if (event.paymentId) {
+          void issueReceiptAfterPayment(event.paymentId);
+        }
+      } else if (event.outcome === "rejected") {
+        // Money was captured but no fraction was issued - needs a refund
+        console.error(`Captured charge ${charge.id} not applied: ${event.outcomeReason}`);
+      } else {
+        console.log(`Charge ${charge.id} recorded with status ${charge.status}`);
       }
 
       res.json({ received: true });
@@ -416,6 +1423,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get("/api/properties", async (req, res) => {
+    try {
+      const filters = propertyListQuerySchema.parse(req.query);
+      const result = await storage.listProperties(filters);
+      res.json(result);
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: error.errors 
+        });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
   app.get("/api/properties/pilot", async (req, res) => {
     try {
       const property = await storage.getPilotProperty();
@@ -428,581 +1451,3042 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/properties/:id", async (req, res) => {
+  app.get("/api/properties/:id/media", async (req, res) => {
     try {
       const property = await storage.getPropertyById(req.params.id);
-      if (!property) {
+      if (!property || (property.status === "draft" && !req.session?.adminUserId)) {
         return res.status(404).json({ message: "Property not found" });
       }
-      res.json(property);
+      const media = await storage.getPropertyMedia(property.id);
+      res.json(media.map(toMediaResponse));
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
-
-  app.post("/api/admin/login", async (req, res) => {
+  app.get("/api/properties/:id/milestones", async (req, res) => {
     try {
-      const { email, password } = adminLoginSchema.parse(req.body);
-      
-      if (email === "admin@fopd.ae" && password === "admin123") {
-        res.json({ success: true, message: "Login successful" });
-      } else {
-        res.status(401).json({ message: "Invalid credentials" });
+      const property = await storage.getPropertyById(req.params.id);
+      if (!property || (property.status === "draft" && !req.session?.adminUserId)) {
+        return res.status(404).json({ message: "Property not found" });
       }
+      res.json(await getMilestoneTimeline(property));
     } catch (error: any) {
-      res.status(400).json({ message: error.message });
+      res.status(500).json({ message: error.message });
     }
   });
 
-  app.get("/api/admin/investors", async (req, res) => {
+  app.get("/api/properties/:id/milestones/:stage/certificate", async (req, res) => {
     try {
-      const investors = await storage.getAllInvestors();
-      res.json(investors);
+      const property = await storage.getPropertyById(req.params.id);
+      if (!property || (property.status === "draft" && !req.session?.adminUserId)) {
+        return res.status(404).json({ message: "Property not found" });
+      }
+
+      const stage = z.enum(constructionStages).safeParse(req.params.stage);
+      const milestone = stage.success ? await storage.getConstructionMilestone(property.id, stage.data) : undefined;
+      if (!milestone?.certificatePath) {
+        return res.status(404).json({ message: "Certificate not found" });
+      }
+
+      const absolutePath = resolveStoredPath(milestone.certificatePath);
+      if (!fs.existsSync(absolutePath)) {
+        return res.status(404).json({ message: "Certificate file missing" });
+      }
+
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `inline; filename="${encodeURIComponent(milestone.certificateFilename || "progress-certificate.pdf")}"`);
+      res.sendFile(absolutePath);
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.patch("/api/admin/investors/:id/kyc", async (req, res) => {
+
+  app.get("/api/media/:id/:variant(file|thumbnail)", async (req, res) => {
     try {
-      const { status } = req.body;
-      const investor = await storage.updateInvestorKYCStatus(req.params.id, status);
-      
-      console.log(`Updated KYC status for investor ${req.params.id} to ${status}`);
-      
-      res.json(investor);
+      const media = await storage.getPropertyMediaById(req.params.id);
+      const storedPath = req.params.variant === "thumbnail" ? media?.thumbnailPath : media?.filePath;
+      if (!media || !storedPath) {
+        return res.status(404).json({ message: "Media not found" });
+      }
+
+      // Draft listings are only visible to admins
+      const property = await storage.getPropertyById(media.propertyId);
+      if (!property || (property.status === "draft" && !req.session?.adminUserId)) {
+        return res.status(404).json({ message: "Media not found" });
+      }
+
+      const absolutePath = resolveStoredPath(storedPath);
+      if (!fs.existsSync(absolutePath)) {
+        return res.status(404).json({ message: "Media file missing" });
+      }
+
+      const isThumbnail = req.params.variant === "thumbnail";
+      res.setHeader("Content-Type", isThumbnail ? "image/jpeg" : media.mimeType);
+      res.setHeader("Cache-Control", "public, max-age=86400");
+      if (media.mimeType === "application/pdf") {
+        res.setHeader("Content-Disposition", `inline; filename="${encodeURIComponent(media.originalFilename)}"`);
+      }
+      res.sendFile(absolutePath);
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.post("/api/admin/notify-funded", async (req, res) => {
+  app.get("/api/properties/:id", async (req, res) => {
     try {
-      const investors = await storage.getAllInvestors();
-      
-      console.log(`Sending 'Unit Fully Funded' notification to ${investors.length} investors`);
-      
-      res.json({ 
-        success: true, 
-        message: `Notification sent to ${investors.length} investors` 
-      });
+      const property = await storage.getPropertyById(req.params.id);
+      // Drafts are only visible in the admin panel
+      if (!property || property.status === "draft") {
+        return res.status(404).json({ message: "Property not found" });
+      }
+      res.json(property);
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.post("/api/admin/notify-kyc-reminder", async (req, res) => {
+  app.post("/api/admin/login", rateLimitMiddleware(5, 60000), async (req, res) => {
     try {
-      const investors = await storage.getAllInvestors();
-      const pendingKYC = investors.filter(inv => inv.kycStatus === "pending");
+      const { email, password } = adminLoginSchema.parse(req.body);
       
-      console.log(`Sending KYC reminder to ${pendingKYC.length} investors`);
+      const adminUser = await storage.getAdminUserByEmail(email.toLowerCase());
       
-      res.json({ 
-        success: true, 
-        message: `KYC reminder sent to ${pendingKYC.length} investors` 
+      // Same response for unknown email, wrong password and disabled accounts
+      if (!adminUser || !adminUser.isActive || !verifyPassword(password, adminUser.passwordHash)) {
+        return res.status(401).json({ message: "Invalid credentials" });
+      }
+
+      await storage.recordAdminLogin(adminUser.id);
+
+      // CRITICAL SECURITY: Regenerate session to prevent session fixation attacks
+      req.session.regenerate((err) => {
+        if (err) {
+          console.error("Admin session regeneration failed:", err);
+          return res.status(500).json({ message: "Session creation failed" });
+        }
+
+        req.session.adminUserId = adminUser.id;
+        req.session.adminEmail = adminUser.email;
+        console.log(`Admin session created for: ${adminUser.email} (ID: ${adminUser.id})`);
+
+        res.json({ 
+          success: true, 
+          admin: toAdminProfile(adminUser),
+        });
       });
     } catch (error: any) {
-      res.status(500).json({ message: error.message });
+      res.status(400).json({ message: error.message });
     }
   });
 
-  app.get("/api/documents/:type", async (req, res) => {
-    try {
-      const { type } = req.params;
-      
-      console.log(`Generating PDF document: ${type}`);
-      
-      res.json({ 
-        success: true, 
-        message: `${type} PDF generation would happen here`,
-        downloadUrl: `/downloads/${type}.pdf`
-      });
-    } catch (error: any) {
-      res.status(500).json({ message: error.message });
+  // Only clears admin identity; an investor login in the same browser is left intact
+  app.post("/api/admin/logout", (req, res) => {
+    if (!req.session) {
+      return res.json({ success: true });
     }
+
+    delete req.session.adminUserId;
+    delete req.session.adminEmail;
+    req.session.save((err) => {
+      if (err) {
+        console.error("Admin logout error:", err);
+        return res.status(500).json({ message: "Logout failed" });
+      }
+      res.json({ success: true });
+    });
   });
 
-  app.get("/api/templates", async (req, res) => {
+  // Current admin session (used by the admin panel to restore login on reload)
+  app.get("/api/admin/session", requireAdminAuth, async (req, res) => {
+    res.json({ admin: toAdminProfile(req.adminUser!) });
+  });
+
+  app.get("/api/admin/users", requireAdminAuth, requirePermission("admins:manage"), async (req, res) => {
     try {
-      const templates = await storage.getAllTemplates();
-      res.json(templates);
+      const admins = await storage.getAllAdminUsers();
+      res.json(admins.map(toAdminProfile));
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.get("/api/templates/:id", async (req, res) => {
+  app.post("/api/admin/users", requireAdminAuth, requirePermission("admins:manage"), async (req, res) => {
     try {
-      const template = await storage.getTemplateById(req.params.id);
-      if (!template) {
-        return res.status(404).json({ message: "Template not found" });
-      }
-      res.json(template);
+      const data = insertAdminUserSchema.parse(req.body);
+      const adminUser = await storage.createAdminUser(data);
+      
+      console.log(`Admin user ${adminUser.email} (${adminUser.role}) created by ${req.adminUser!.email}`);
+      
+      res.json(toAdminProfile(adminUser));
     } catch (error: any) {
-      res.status(500).json({ message: error.message });
+      if (error.code === "23505") {
+        return res.status(409).json({ message: "An admin user with this email already exists" });
+      }
+      res.status(400).json({ message: error.message });
     }
   });
 
-  app.post("/api/admin/templates", async (req, res) => {
+  app.patch("/api/admin/users/:id", requireAdminAuth, requirePermission("admins:manage"), async (req, res) => {
     try {
-      const template = await storage.createOrUpdateTemplate(req.body);
-      res.json(template);
+      const updates = updateAdminUserSchema.parse(req.body);
+
+      // Prevent admins from locking themselves out
+      if (req.params.id === req.adminUser!.id) {
+        return res.status(400).json({ message: "You cannot change your own role or status" });
+      }
+
+      const adminUser = await storage.updateAdminUser(req.params.id, updates);
+      if (!adminUser) {
+        return res.status(404).json({ message: "Admin user not found" });
+      }
+
+      console.log(`Admin user ${adminUser.email} updated by ${req.adminUser!.email}:`, updates);
+
+      res.json(toAdminProfile(adminUser));
     } catch (error: any) {
       res.status(400).json({ message: error.message });
     }
   });
 
-  app.put("/api/admin/templates/:id", async (req, res) => {
+  app.get("/api/admin/properties", requireAdminAuth, requirePermission("properties:manage"), async (req, res) => {
     try {
-      const template = await storage.updateTemplate(req.params.id, req.body);
-      res.json(template);
+      const properties = await storage.getAllProperties();
+      res.json(properties);
     } catch (error: any) {
-      res.status(400).json({ message: error.message });
+      res.status(500).json({ message: error.message });
     }
   });
 
-  app.post("/api/signatures/create-session", requireInvestorAuth, async (req, res) => {
+  app.post("/api/admin/properties", requireAdminAuth, requirePermission("properties:manage"), async (req, res) => {
     try {
-      const { propertyId, templateId } = req.body;
-      const investorId = req.investor!.id; // From session, not request body
-      const ipAddress = req.ip || req.socket.remoteAddress;
-      const userAgent = req.get("user-agent");
+      const data = adminPropertySchema.parse(req.body);
 
-      console.log("Creating signature session with:", {
-        investorId,
-        propertyId,
-        templateId,
-      });
+      if (data.status === "fully_funded") {
+        return res.status(400).json({ message: "A new property cannot start as fully funded" });
+      }
 
-      const session = await storage.createSignatureSession({
-        investorId,
-        propertyId,
-        templateId,
-        ipAddress,
-        userAgent,
-      });
+      const property = await storage.createProperty(toPropertyValues(data));
 
-      // Generate OTP for signature session verification
-      const otp = generateOTP();
-      otpStore.set(session.sessionToken, {
-        otp,
-        expiresAt: Date.now() + 10 * 60 * 1000, // 10 minutes
+      await storage.createAuditLogEntry({
+        eventType: "property_created",
+        propertyId: property.id,
+        metadata: JSON.stringify({ adminUserId: req.adminUser!.id, status: property.status }),
+        ipAddress: req.ip || req.socket.remoteAddress || null,
+        userAgent: req.get("user-agent") || null,
       });
 
-      // SECURITY: OTP removed from logs - never log secrets in production
+      console.log(`Property ${property.id} (${property.title}) created as ${property.status} by ${req.adminUser!.email}`);
 
-      res.json({ sessionId: session.id, sessionToken: session.sessionToken });
+      res.json(property);
     } catch (error: any) {
-      console.error("Failed to create signature session:", error);
-      res.status(400).json({ message: error.message });
-    }
+      if (error.name === "ZodError") {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: error.errors 
+        });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.patch("/api/admin/properties/:id", requireAdminAuth, requirePermission("properties:manage"), async (req, res) => {
+    try {
+      const existing = await storage.getPropertyById(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Property not found" });
+      }
+
+      // Validate the merged record so the price rule holds for partial updates too
+      const data = adminPropertySchema.parse({
+        title: existing.title,
+        location: existing.location,
+        description: existing.description,
+        totalPrice: existing.totalPrice,
+        pricePerFraction: existing.pricePerFraction,
+        totalFractions: existing.totalFractions,
+        bedrooms: existing.bedrooms,
+        bathrooms: existing.bathrooms,
+        area: existing.area,
+        escrowIban: existing.escrowIban,
+        handoverDate: existing.handoverDate,
+        status: existing.status,
+        ...req.body,
+      });
+
+      const statusError = checkPropertyStatusChange(existing, data.status);
+      if (statusError) {
+        return res.status(400).json({ message: statusError });
+      }
+
+      const values = toPropertyValues(data);
+
+      // Pricing is fixed once co-owners have paid
+      const pricingChanged =
+        values.totalPrice !== Number(existing.totalPrice).toFixed(2) ||
+        values.pricePerFraction !== Number(existing.pricePerFraction).toFixed(2) ||
+        data.totalFractions !== existing.totalFractions;
+      if (pricingChanged && existing.fractionsSold > 0) {
+        return res.status(409).json({ message: "Pricing and fractions cannot change after fractions have been sold" });
+      }
+
+      // Publishing a sold-out property lists it as fully funded
+      if (values.status === "published" && existing.fractionsSold >= data.totalFractions) {
+        values.status = "fully_funded";
+      }
+
+      const property = await storage.updateProperty(existing.id, values);
+
+      await storage.createAuditLogEntry({
+        eventType: existing.status === property!.status ? "property_updated" : "property_status_changed",
+        propertyId: existing.id,
+        metadata: JSON.stringify({
+          adminUserId: req.adminUser!.id,
+          fields: Object.keys(req.body),
+          previousStatus: existing.status,
+          status: property!.status,
+        }),
+        ipAddress: req.ip || req.socket.remoteAddress || null,
+        userAgent: req.get("user-agent") || null,
+      });
+
+      console.log(`Property ${existing.id} updated by ${req.adminUser!.email} (${existing.status} -> ${property!.status})`);
+
+      res.json(property);
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: error.errors 
+        });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/admin/properties/:id/media", requireAdminAuth, requirePermission("properties:manage"), mediaUpload.array("files", 10), async (req, res) => {
+    const files = (req.files as Express.Multer.File[]) || [];
+    const cleanUp = () => Promise.all(files.map(file => removeStoredFile(toStoredPath("property-media", file.filename))));
+
+    try {
+      const property = await storage.getPropertyById(req.params.id);
+      if (!property) {
+        await cleanUp();
+        return res.status(404).json({ message: "Property not found" });
+      }
+
+      if (files.length === 0) {
+        return res.status(400).json({ message: "No files uploaded" });
+      }
+
+      const { mediaType, caption, captionArabic } = uploadPropertyMediaSchema.parse(req.body);
+
+      // Photos must be images and brochures PDFs; floor plans can be either
+      const invalid = files.find(file =>
+        (mediaType === "photo" && !imageMimes.includes(file.mimetype)) ||
+        (mediaType === "brochure" && file.mimetype !== "application/pdf")
+      );
+      if (invalid) {
+        await cleanUp();
+        return res.status(400).json({ 
+          message: mediaType === "photo" ? "Photos must be JPG, PNG or WebP images" : "Brochures must be PDF files" 
+        });
+      }
+
+      const created: PropertyMedia[] = [];
+      for (const file of files) {
+        const isImage = imageMimes.includes(file.mimetype);
+        const processed = isImage ? await processUploadedImage(file.path) : null;
+
+        const media = await storage.createPropertyMedia({
+          propertyId: property.id,
+          mediaType,
+          filePath: processed ? toStoredPath("property-media", path.basename(processed.filePath)) : toStoredPath("property-media", file.filename),
+          thumbnailPath: processed ? toStoredPath("property-media", path.basename(processed.thumbnailPath)) : null,
+          mimeType: processed ? "image/jpeg" : file.mimetype,
+          originalFilename: file.originalname,
+          fileSize: processed ? processed.fileSize : file.size,
+          width: processed?.width ?? null,
+          height: processed?.height ?? null,
+          caption: caption || null,
+          captionArabic: captionArabic || null,
+          uploadedBy: req.adminUser!.id,
+        });
+        created.push(media);
+      }
+
+      console.log(`${created.length} ${mediaType} file(s) added to property ${property.id} by ${req.adminUser!.email}`);
+
+      res.json(created.map(toMediaResponse));
+    } catch (error: any) {
+      console.error("Property media upload error:", error);
+      if (error.name === "ZodError") {
+        await cleanUp();
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: error.errors 
+        });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.patch("/api/admin/properties/:id/media/:mediaId", requireAdminAuth, requirePermission("properties:manage"), async (req, res) => {
+    try {
+      const updates = updatePropertyMediaSchema.parse(req.body);
+
+      const existing = await storage.getPropertyMediaById(req.params.mediaId);
+      if (!existing || existing.propertyId !== req.params.id) {
+        return res.status(404).json({ message: "Media not found" });
+      }
+
+      const media = await storage.updatePropertyMedia(existing.id, updates);
+      res.json(toMediaResponse(media!));
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: error.errors 
+        });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.put("/api/admin/properties/:id/media/order", requireAdminAuth, requirePermission("properties:manage"), async (req, res) => {
+    try {
+      const { mediaIds } = reorderPropertyMediaSchema.parse(req.body);
+      const media = await storage.reorderPropertyMedia(req.params.id, mediaIds);
+      res.json(media.map(toMediaResponse));
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: error.errors 
+        });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/admin/properties/:id/media/:mediaId", requireAdminAuth, requirePermission("properties:manage"), async (req, res) => {
+    try {
+      const existing = await storage.getPropertyMediaById(req.params.mediaId);
+      if (!existing || existing.propertyId !== req.params.id) {
+        return res.status(404).json({ message: "Media not found" });
+      }
+
+      await storage.deletePropertyMedia(existing.id);
+      await removeStoredFile(existing.filePath);
+      if (existing.thumbnailPath) {
+        await removeStoredFile(existing.thumbnailPath);
+      }
+
+      console.log(`Media ${existing.id} removed from property ${existing.propertyId} by ${req.adminUser!.email}`);
+
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/admin/properties/:id/milestones/:stage/updates", requireAdminAuth, requirePermission("properties:manage"), async (req, res) => {
+    try {
+      const property = await storage.getPropertyById(req.params.id);
+      const stage = z.enum(constructionStages).safeParse(req.params.stage);
+      if (!property || !stage.success) {
+        return res.status(404).json({ message: "Construction stage not found" });
+      }
+
+      const data = constructionUpdateSchema.parse(req.body);
+      const existing = await storage.getConstructionMilestone(property.id, stage.data);
+      if (!existing) {
+        return res.status(404).json({ message: "Construction stage not found" });
+      }
+
+      const { milestone, update } = await storage.addConstructionUpdate(existing.id, {
+        percentComplete: data.percentComplete,
+        note: data.note,
+        noteArabic: data.noteArabic || null,
+        postedBy: req.adminUser!.id,
+      }, data.expectedCompletionDate);
+
+      await storage.createAuditLogEntry({
+        eventType: "construction_update_posted",
+        propertyId: property.id,
+        metadata: JSON.stringify({
+          adminUserId: req.adminUser!.id,
+          stage: milestone.stage,
+          previousPercentComplete: existing.percentComplete,
+          percentComplete: milestone.percentComplete,
+        }),
+        ipAddress: req.ip || req.socket.remoteAddress || null,
+        userAgent: req.get("user-agent") || null,
+      });
+
+      console.log(`Construction ${milestone.stage} for property ${property.id} at ${milestone.percentComplete}% (posted by ${req.adminUser!.email})`);
+
+      // Completing a stage starts the payment window of every instalment tied to it
+      const triggered: PaymentPlanInstalment[] = [];
+      if (milestone.completedAt && !existing.completedAt) {
+        const instalments = await storage.getPaymentPlan(property.id);
+        for (const instalment of instalments) {
+          if (instalment.triggerType !== "milestone" || instalment.milestoneStage !== milestone.stage || instalment.triggeredAt) {
+            continue;
+          }
+          const result = await triggerInstalment(instalment, req);
+          if (result) {
+            triggered.push(result);
+          }
+        }
+      }
+
+      res.status(201).json({ milestone, update, triggeredInstalments: triggered });
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: error.errors 
+        });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/admin/properties/:id/milestones/:stage/photos", requireAdminAuth, requirePermission("properties:manage"), mediaUpload.array("files", 10), async (req, res) => {
+    const files = (req.files as Express.Multer.File[]) || [];
+    const cleanUp = () => Promise.all(files.map(file => removeStoredFile(toStoredPath("property-media", file.filename))));
+
+    try {
+      const property = await storage.getPropertyById(req.params.id);
+      const stage = z.enum(constructionStages).safeParse(req.params.stage);
+      if (!property || !stage.success) {
+        await cleanUp();
+        return res.status(404).json({ message: "Construction stage not found" });
+      }
+
+      if (files.length === 0) {
+        return res.status(400).json({ message: "No files uploaded" });
+      }
+      if (files.some(file => !imageMimes.includes(file.mimetype))) {
+        await cleanUp();
+        return res.status(400).json({ message: "Construction photos must be JPG, PNG or WebP images" });
+      }
+
+      const { caption } = constructionPhotoSchema.parse(req.body);
+      const milestone = await storage.getConstructionMilestone(property.id, stage.data);
+      if (!milestone) {
+        await cleanUp();
+        return res.status(404).json({ message: "Construction stage not found" });
+      }
+
+      const created: PropertyMedia[] = [];
+      for (const file of files) {
+        const processed = await processUploadedImage(file.path);
+        const media = await storage.createPropertyMedia({
+          propertyId: property.id,
+          milestoneId: milestone.id,
+          mediaType: "construction_photo",
+          filePath: toStoredPath("property-media", path.basename(processed.filePath)),
+          thumbnailPath: toStoredPath("property-media", path.basename(processed.thumbnailPath)),
+          mimeType: "image/jpeg",
+          originalFilename: file.originalname,
+          fileSize: processed.fileSize,
+          width: processed.width,
+          height: processed.height,
+          caption: caption || null,
+          uploadedBy: req.adminUser!.id,
+        });
+        created.push(media);
+      }
+
+      console.log(`${created.length} construction photo(s) added to ${milestone.stage} for property ${property.id} by ${req.adminUser!.email}`);
+
+      res.json(created.map(toMediaResponse));
+    } catch (error: any) {
+      console.error("Construction photo upload error:", error);
+      if (error.name === "ZodError") {
+        await cleanUp();
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: error.errors 
+        });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/admin/properties/:id/milestones/:stage/certificate", requireAdminAuth, requirePermission("properties:manage"), certificateUpload.single("certificate"), async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "No certificate uploaded" });
+      }
+
+      const storedPath = toStoredPath("construction-certificates", req.file.filename);
+      const property = await storage.getPropertyById(req.params.id);
+      const stage = z.enum(constructionStages).safeParse(req.params.stage);
+      if (!property || !stage.success) {
+        await removeStoredFile(storedPath);
+        return res.status(404).json({ message: "Construction stage not found" });
+      }
+
+      const existing = await storage.getConstructionMilestone(property.id, stage.data);
+      const milestone = existing && await storage.setMilestoneCertificate(existing.id, storedPath, req.file.originalname);
+      if (!existing || !milestone) {
+        await removeStoredFile(storedPath);
+        return res.status(404).json({ message: "Construction stage not found" });
+      }
+
+      // A new certificate replaces the previous one
+      if (existing.certificatePath) {
+        await removeStoredFile(existing.certificatePath);
+      }
+
+      await storage.createAuditLogEntry({
+        eventType: "construction_certificate_uploaded",
+        propertyId: property.id,
+        metadata: JSON.stringify({
+          adminUserId: req.adminUser!.id,
+          stage: stage.data,
+          filename: req.file.originalname,
+          replaced: !!existing.certificatePath,
+        }),
+        ipAddress: req.ip || req.socket.remoteAddress || null,
+        userAgent: req.get("user-agent") || null,
+      });
+
+      console.log(`Progress certificate for ${stage.data} uploaded to property ${property.id} by ${req.adminUser!.email}`);
+
+      const { certificatePath, ...rest } = milestone;
+      res.json(rest);
+    } catch (error: any) {
+      console.error("Certificate upload error:", error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/admin/properties/:id/payment-plan", requireAdminAuth, requirePermission("payments:read"), async (req, res) => {
+    try {
+      const property = await storage.getPropertyById(req.params.id);
+      if (!property) {
+        return res.status(404).json({ message: "Property not found" });
+      }
+
+      const instalments = await storage.getPaymentPlan(property.id);
+      const schedule = await storage.getPropertyInstalmentSchedule(property.id);
+
+      res.json({ instalments, schedule });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.put("/api/admin/properties/:id/payment-plan", requireAdminAuth, requirePermission("payments:manage"), async (req, res) => {
+    try {
+      const property = await storage.getPropertyById(req.params.id);
+      if (!property) {
+        return res.status(404).json({ message: "Property not found" });
+      }
+
+      const data = paymentPlanSchema.parse(req.body);
+
+      // Recorded payments point at instalment rows, so the plan is locked once money has come in
+      const payments = await storage.getInstalmentPaymentsByProperty(property.id);
+      if (payments.length > 0) {
+        return res.status(409).json({ message: "The payment plan cannot change after instalment payments have been recorded" });
+      }
+
+      const instalments = await storage.replacePaymentPlan(property.id, data.instalments.map((instalment, index) => ({
+        sequence: index + 1,
+        label: instalment.label,
+        percentage: instalment.percentage.toFixed(2),
+        triggerType: instalment.triggerType,
+        dueDate: instalment.triggerType === "date" ? instalment.dueDate ?? null : null,
+        milestoneName: instalment.triggerType === "milestone"
+          ? instalment.milestoneName || constructionStageLabels[instalment.milestoneStage!]
+          : null,
+        milestoneStage: instalment.triggerType === "milestone" ? instalment.milestoneStage ?? null : null,
+        paymentWindowDays: instalment.paymentWindowDays,
+      })));
+
+      await storage.createAuditLogEntry({
+        eventType: "payment_plan_updated",
+        propertyId: property.id,
+        metadata: JSON.stringify({
+          adminUserId: req.adminUser!.id,
+          instalments: instalments.map(i => ({ sequence: i.sequence, percentage: i.percentage, triggerType: i.triggerType })),
+        }),
+        ipAddress: req.ip || req.socket.remoteAddress || null,
+        userAgent: req.get("user-agent") || null,
+      });
+
+      console.log(`Payment plan for property ${property.id} set to ${instalments.length} instalment(s) by ${req.adminUser!.email}`);
+
+      res.json(instalments);
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: error.errors 
+        });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Mark a construction milestone as reached - starts the payment window for its instalment
+  app.post("/api/admin/properties/:id/payment-plan/:instalmentId/trigger", requireAdminAuth, requirePermission("payments:manage"), async (req, res) => {
+    try {
+      const existing = await storage.getPaymentPlanInstalmentById(req.params.instalmentId);
+      if (!existing || existing.propertyId !== req.params.id) {
+        return res.status(404).json({ message: "Instalment not found" });
+      }
+      if (existing.triggerType !== "milestone") {
+        return res.status(400).json({ message: "Only milestone instalments can be triggered" });
+      }
+      if (existing.triggeredAt) {
+        return res.status(409).json({ message: "Milestone has already been triggered" });
+      }
+
+      const instalment = await triggerInstalment(existing, req);
+      if (!instalment) {
+        return res.status(409).json({ message: "Milestone has already been triggered" });
+      }
+
+      res.json(instalment);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Record a co-owner's payment received outside the card flow (transfer, cheque)
+  app.post("/api/admin/properties/:id/payment-plan/:instalmentId/payments", requireAdminAuth, requirePermission("payments:manage"), async (req, res) => {
+    try {
+      const data = recordInstalmentPaymentSchema.parse(req.body);
+
+      const schedule = await storage.getPropertyInstalmentSchedule(req.params.id);
+      const due = schedule.find(d => d.instalmentId === req.params.instalmentId && d.slotId === data.slotId);
+      if (!due) {
+        return res.status(404).json({ message: "Instalment or co-owner slot not found for this property" });
+      }
+      if (!due.investorId) {
+        return res.status(400).json({ message: "This slot has no co-owner yet" });
+      }
+      if (due.status === "paid") {
+        return res.status(409).json({ message: "This instalment has already been paid for this slot" });
+      }
+
+      // Amount comes from the plan, never from the request
+      const payment = await storage.createInstalmentPayment({
+        instalmentId: due.instalmentId,
+        slotId: due.slotId,
+        investorId: due.investorId,
+        amount: due.amount,
+        paymentMethod: data.paymentMethod,
+        reference: data.reference || null,
+        recordedBy: req.adminUser!.id,
+        paidAt: data.paidAt ?? new Date(),
+      });
+
+      await storage.createAuditLogEntry({
+        eventType: "instalment_payment_recorded",
+        investorId: due.investorId,
+        propertyId: due.propertyId,
+        metadata: JSON.stringify({
+          adminUserId: req.adminUser!.id,
+          instalmentId: due.instalmentId,
+          slotId: due.slotId,
+          amount: payment.amount,
+          paymentMethod: payment.paymentMethod,
+          reference: payment.reference,
+        }),
+        ipAddress: req.ip || req.socket.remoteAddress || null,
+        userAgent: req.get("user-agent") || null,
+      });
+
+      console.log(`Instalment payment of AED ${payment.amount} recorded for investor ${due.investorId} by ${req.adminUser!.email}`);
+
+      res.status(201).json(payment);
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: error.errors 
+        });
+      }
+      if (error.code === "23505") {
+        return res.status(409).json({ message: "This instalment has already been paid for this slot" });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/admin/properties/:id/payments", requireAdminAuth, requirePermission("payments:read"), async (req, res) => {
+    try {
+      const property = await storage.getPropertyById(req.params.id);
+      if (!property) {
+        return res.status(404).json({ message: "Property not found" });
+      }
+
+      const payments = await storage.getPropertyPayments(property.id);
+      const reservations = await storage.getReservationsByProperty(property.id);
+      const reservationsWithSlots = await Promise.all(reservations.map(async (reservation) => ({
+        ...reservation,
+        slots: await storage.getSlotsByReservation(reservation.id),
+      })));
+
+      res.json({ payments, reservations: reservationsWithSlots });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/admin/properties/:id/rental-income", requireAdminAuth, requirePermission("payments:read"), async (req, res) => {
+    try {
+      const property = await storage.getPropertyById(req.params.id);
+      if (!property) {
+        return res.status(404).json({ message: "Property not found" });
+      }
+
+      const distributions = await storage.getRentalDistributions(property.id);
+      const owners = await storage.getPropertyOwners(property.id);
+      res.json({ distributions, owners });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/admin/properties/:id/rental-income", requireAdminAuth, requirePermission("payments:manage"), async (req, res) => {
+    try {
+      const data = recordRentalIncomeSchema.parse(req.body);
+
+      const property = await storage.getPropertyById(req.params.id);
+      if (!property) {
+        return res.status(404).json({ message: "Property not found" });
+      }
+
+      const result = await storage.recordRentalDistribution(property.id, data, req.adminUser!.id);
+      if ("rejected" in result) {
+        return res.status(409).json({ message: result.rejected });
+      }
+
+      await storage.createAuditLogEntry({
+        eventType: "rental_income_distributed",
+        propertyId: property.id,
+        metadata: JSON.stringify({
+          adminUserId: req.adminUser!.id,
+          distributionId: result.id,
+          periodStart: result.periodStart,
+          periodEnd: result.periodEnd,
+          grossRent: result.grossRent,
+          netIncome: result.netIncome,
+          payouts: result.payouts.map(payout => ({ investorId: payout.investorId, amount: payout.amount })),
+        }),
+        ipAddress: req.ip || req.socket.remoteAddress || null,
+        userAgent: req.get("user-agent") || null,
+      });
+
+      console.log(`Rent of AED ${result.netIncome} net distributed for ${property.title} by ${req.adminUser!.email}`);
+
+      res.status(201).json(result);
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: error.errors 
+        });
+      }
+      if (error.code === "23505") {
+        return res.status(409).json({ message: "Rent for this period has already been distributed" });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/admin/rental-payouts/:id/paid", requireAdminAuth, requirePermission("payments:manage"), async (req, res) => {
+    try {
+      const { paymentReference } = markRentalPayoutPaidSchema.parse(req.body);
+
+      const existing = await storage.getRentalPayoutById(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Payout not found" });
+      }
+
+      const payout = await storage.markRentalPayoutPaid(existing.id, paymentReference, req.adminUser!.id);
+      if (!payout) {
+        return res.status(409).json({ message: "This payout has already been paid" });
+      }
+
+      await storage.createAuditLogEntry({
+        eventType: "rental_payout_paid",
+        investorId: payout.investorId,
+        metadata: JSON.stringify({
+          adminUserId: req.adminUser!.id,
+          payoutId: payout.id,
+          distributionId: payout.distributionId,
+          amount: payout.amount,
+          paymentReference,
+        }),
+        ipAddress: req.ip || req.socket.remoteAddress || null,
+        userAgent: req.get("user-agent") || null,
+      });
+
+      res.json(payout);
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: error.errors 
+        });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/admin/properties/:id/expenses", requireAdminAuth, requirePermission("payments:read"), async (req, res) => {
+    try {
+      const property = await storage.getPropertyById(req.params.id);
+      if (!property) {
+        return res.status(404).json({ message: "Property not found" });
+      }
+
+      const expenses = await storage.getPropertyExpenses(property.id);
+      res.json({ expenses: expenses.map(toExpenseResponse), approvalThreshold: getExpenseApprovalThreshold() });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/admin/properties/:id/expenses", requireAdminAuth, requirePermission("payments:manage"), expenseInvoiceUpload.single("invoice"), async (req, res) => {
+    const storedPath = req.file ? toStoredPath("expense-invoices", req.file.filename) : null;
+    try {
+      const data = recordExpenseSchema.parse(req.body);
+
+      const property = await storage.getPropertyById(req.params.id);
+      if (!property) {
+        if (storedPath) await removeStoredFile(storedPath);
+        return res.status(404).json({ message: "Property not found" });
+      }
+
+      const invoice = storedPath ? { path: storedPath, filename: req.file!.originalname } : null;
+      const result = await storage.recordPropertyExpense(property.id, data, invoice, req.adminUser!.id);
+      if ("rejected" in result) {
+        if (storedPath) await removeStoredFile(storedPath);
+        return res.status(409).json({ message: result.rejected });
+      }
+
+      await storage.createAuditLogEntry({
+        eventType: "property_expense_recorded",
+        propertyId: property.id,
+        metadata: JSON.stringify({
+          adminUserId: req.adminUser!.id,
+          expenseId: result.id,
+          category: result.category,
+          vendor: result.vendor,
+          amount: result.amount,
+          status: result.status,
+          approvalsRequired: result.approvalsRequired,
+        }),
+        ipAddress: req.ip || req.socket.remoteAddress || null,
+        userAgent: req.get("user-agent") || null,
+      });
+
+      if (result.status === "pending_approval") {
+        await requestExpenseApprovals(result, property.title, req);
+      }
+
+      console.log(`Expense of AED ${result.amount} from ${result.vendor} recorded for ${property.title} by ${req.adminUser!.email}`);
+
+      res.status(201).json(toExpenseResponse(result));
+    } catch (error: any) {
+      if (storedPath) await removeStoredFile(storedPath);
+      if (error.name === "ZodError") {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: error.errors 
+        });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/admin/expenses/:id/invoice", requireAdminAuth, requirePermission("payments:read"), async (req, res) => {
+    try {
+      const expense = await storage.getPropertyExpenseWithDetails(req.params.id);
+      if (!expense) {
+        return res.status(404).json({ message: "Expense not found" });
+      }
+      sendExpenseInvoice(expense, res);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/admin/expenses/:id/paid", requireAdminAuth, requirePermission("payments:manage"), async (req, res) => {
+    try {
+      const { paymentReference } = markExpensePaidSchema.parse(req.body);
+
+      const existing = await storage.getPropertyExpenseWithDetails(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Expense not found" });
+      }
+
+      const expense = await storage.markExpensePaid(existing.id, paymentReference, req.adminUser!.id);
+      if (!expense) {
+        return res.status(409).json({
+          message: existing.status === "pending_approval"
+            ? "This expense is still waiting for co-owner approval"
+            : `This expense is ${existing.status.replace("_", " ")} and cannot be paid`,
+        });
+      }
+
+      await storage.createAuditLogEntry({
+        eventType: "property_expense_paid",
+        propertyId: expense.propertyId,
+        metadata: JSON.stringify({
+          adminUserId: req.adminUser!.id,
+          expenseId: expense.id,
+          amount: expense.amount,
+          paymentReference,
+        }),
+        ipAddress: req.ip || req.socket.remoteAddress || null,
+        userAgent: req.get("user-agent") || null,
+      });
+
+      res.json(toExpenseResponse(expense));
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: error.errors 
+        });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/admin/share-transfers", requireAdminAuth, requirePermission("payments:read"), async (req, res) => {
+    try {
+      const status = typeof req.query.status === "string" ? req.query.status : undefined;
+      const transfers = await storage.getShareTransfers(status);
+      res.json({ transfers });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/admin/share-transfers/:id/agreement", requireAdminAuth, requirePermission("payments:read"), async (req, res) => {
+    try {
+      const transfer = await storage.getShareTransferById(req.params.id);
+      if (!transfer) {
+        return res.status(404).json({ message: "Transfer not found" });
+      }
+      await sendShareTransferAgreement(transfer, res);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // The buyer's payment has reached the seller: move the share and its capital to the buyer
+  app.post("/api/admin/share-transfers/:id/settle", requireAdminAuth, requirePermission("payments:manage"), async (req, res) => {
+    try {
+      const { paymentReference } = settleShareTransferSchema.parse(req.body);
+
+      const transfer = await storage.settleShareTransfer(req.params.id, paymentReference, req.adminUser!.id);
+      if ("rejected" in transfer) {
+        return res.status(409).json({ message: transfer.rejected });
+      }
+
+      await storage.createAuditLogEntry({
+        eventType: "share_transfer_settled",
+        propertyId: transfer.propertyId,
+        metadata: JSON.stringify({
+          adminUserId: req.adminUser!.id,
+          transferId: transfer.id,
+          sellerInvestorId: transfer.sellerInvestorId,
+          buyerInvestorId: transfer.buyerInvestorId,
+          slotId: transfer.slotId,
+          price: transfer.price,
+          capitalTransferred: transfer.capitalTransferred,
+          paymentReference,
+        }),
+        ipAddress: req.ip || req.socket.remoteAddress || null,
+        userAgent: req.get("user-agent") || null,
+      });
+
+      const property = await storage.getPropertyById(transfer.propertyId);
+      await emailShareInvestors([transfer.sellerInvestorId, transfer.buyerInvestorId], "share transfer completed", (investor) =>
+        getMailer().sendTemplate(investor.email, "share_transfer_completed", investor.preferredLanguage, {
+          fullName: investor.fullName,
+          propertyTitle: property?.title || "",
+          sharePercentage: String(Number(transfer.sharePercentage)),
+          price: formatAedAmount(transfer.price),
+          sold: investor.id === transfer.sellerInvestorId,
+        })
+      );
+
+      console.log(`Share transfer ${transfer.settlementReference} settled by ${req.adminUser!.email}`);
+      res.json(transfer);
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: error.errors 
+        });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/admin/share-transfers/:id/cancel", requireAdminAuth, requirePermission("payments:manage"), async (req, res) => {
+    try {
+      const { reason } = cancelShareTransferSchema.parse(req.body);
+
+      const transfer = await storage.cancelShareTransfer(req.params.id, reason);
+      if ("rejected" in transfer) {
+        return res.status(409).json({ message: transfer.rejected });
+      }
+
+      await storage.createAuditLogEntry({
+        eventType: "share_transfer_cancelled",
+        propertyId: transfer.propertyId,
+        metadata: JSON.stringify({ adminUserId: req.adminUser!.id, transferId: transfer.id, reason }),
+        ipAddress: req.ip || req.socket.remoteAddress || null,
+        userAgent: req.get("user-agent") || null,
+      });
+
+      res.json(transfer);
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: error.errors 
+        });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Every proposal with its full ballot record, optionally for one property
+  app.get("/api/admin/governance/proposals", requireAdminAuth, requirePermission("investors:read"), async (req, res) => {
+    try {
+      const propertyId = typeof req.query.propertyId === "string" ? req.query.propertyId : undefined;
+      const proposals = await storage.getGovernanceProposals(propertyId);
+      res.json({ proposals: proposals.map(toAdminProposalResponse), defaults: { quorumPercentage: getDefaultQuorum(), thresholdPercentage: getDefaultThreshold() } });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/admin/properties/:id/proposals", requireAdminAuth, requirePermission("properties:manage"), async (req, res) => {
+    try {
+      const input = createGovernanceProposalSchema.parse({ ...req.body, propertyId: req.params.id });
+
+      const proposal = await storage.createGovernanceProposal(input, { adminId: req.adminUser!.id });
+      if ("rejected" in proposal) {
+        return res.status(409).json({ message: proposal.rejected });
+      }
+
+      await storage.createAuditLogEntry({
+        eventType: "governance_proposal_created",
+        propertyId: proposal.propertyId,
+        metadata: JSON.stringify({
+          adminUserId: req.adminUser!.id,
+          proposalId: proposal.id,
+          category: proposal.category,
+          quorumPercentage: proposal.quorumPercentage,
+          thresholdPercentage: proposal.thresholdPercentage,
+          deadline: proposal.deadline,
+        }),
+        ipAddress: req.ip || req.socket.remoteAddress || null,
+        userAgent: req.get("user-agent") || null,
+      });
+
+      await announceProposal(proposal, req);
+      res.status(201).json(proposal);
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: error.errors 
+        });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/admin/governance/proposals/:id/cancel", requireAdminAuth, requirePermission("properties:manage"), async (req, res) => {
+    try {
+      const { reason } = cancelGovernanceProposalSchema.parse(req.body);
+
+      const proposal = await storage.cancelGovernanceProposal(req.params.id, reason);
+      if ("rejected" in proposal) {
+        return res.status(409).json({ message: proposal.rejected });
+      }
+
+      await storage.createAuditLogEntry({
+        eventType: "governance_proposal_cancelled",
+        propertyId: proposal.propertyId,
+        metadata: JSON.stringify({ adminUserId: req.adminUser!.id, proposalId: proposal.id, reason }),
+        ipAddress: req.ip || req.socket.remoteAddress || null,
+        userAgent: req.get("user-agent") || null,
+      });
+
+      res.json(proposal);
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: error.errors 
+        });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/admin/governance/proposals/:id/resolution", requireAdminAuth, requirePermission("investors:read"), async (req, res) => {
+    try {
+      const proposal = await storage.getGovernanceProposalById(req.params.id);
+      if (!proposal) {
+        return res.status(404).json({ message: "Proposal not found" });
+      }
+      sendResolution(proposal, res);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Whole-property sales, with the passed sale resolutions that can still be put on the market
+  app.get("/api/admin/exits", requireAdminAuth, requirePermission("payments:read"), async (req, res) => {
+    try {
+      const [exits, proposals] = await Promise.all([storage.getPropertyExits(), storage.getGovernanceProposals()]);
+      const resolutions = proposals
+        .filter(proposal => proposal.category === "property_sale" && proposal.status === "passed")
+        .filter(proposal => !exits.some(exit => exit.proposalId === proposal.id && exit.status !== "withdrawn"))
+        .map(({ id, propertyId, propertyTitle, title, resolutionNumber, closedAt }) => ({ id, propertyId, propertyTitle, title, resolutionNumber, closedAt }));
+      res.json({ exits: exits.map(toExitResponse), resolutions, dldTransferFeeRate: getDldTransferFeeRate() });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/admin/properties/:id/exit", requireAdminAuth, requirePermission("properties:manage"), async (req, res) => {
+    try {
+      const data = openPropertyExitSchema.parse(req.body);
+
+      const result = await storage.openPropertyExit(req.params.id, data, req.adminUser!.id);
+      if ("rejected" in result) {
+        return res.status(409).json({ message: result.rejected });
+      }
+
+      await storage.createAuditLogEntry({
+        eventType: "property_exit_listed",
+        propertyId: result.propertyId,
+        metadata: JSON.stringify({
+          adminUserId: req.adminUser!.id,
+          exitId: result.id,
+          proposalId: result.proposalId,
+          askingPrice: result.askingPrice,
+        }),
+        ipAddress: req.ip || req.socket.remoteAddress || null,
+        userAgent: req.get("user-agent") || null,
+      });
+
+      res.status(201).json(result);
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: error.errors 
+        });
+      }
+      if (error.code === "23505") {
+        return res.status(409).json({ message: "This property is already on the market" });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/admin/exits/:id/offers", requireAdminAuth, requirePermission("properties:manage"), async (req, res) => {
+    try {
+      const data = recordExitOfferSchema.parse(req.body);
+
+      const offer = await storage.recordExitOffer(req.params.id, data, req.adminUser!.id);
+      if ("rejected" in offer) {
+        return res.status(409).json({ message: offer.rejected });
+      }
+
+      await storage.createAuditLogEntry({
+        eventType: "property_exit_offer_recorded",
+        metadata: JSON.stringify({ adminUserId: req.adminUser!.id, exitId: offer.exitId, offerId: offer.id, amount: offer.amount }),
+        ipAddress: req.ip || req.socket.remoteAddress || null,
+        userAgent: req.get("user-agent") || null,
+      });
+
+      res.status(201).json(offer);
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: error.errors 
+        });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/admin/exit-offers/:id/:decision(accept|reject)", requireAdminAuth, requirePermission("properties:manage"), async (req, res) => {
+    try {
+      const accepting = req.params.decision === "accept";
+      const result = accepting
+        ? await storage.acceptExitOffer(req.params.id)
+        : await storage.rejectExitOffer(req.params.id);
+      if ("rejected" in result) {
+        return res.status(409).json({ message: result.rejected });
+      }
+
+      await storage.createAuditLogEntry({
+        eventType: accepting ? "property_exit_offer_accepted" : "property_exit_offer_rejected",
+        metadata: JSON.stringify({ adminUserId: req.adminUser!.id, offerId: req.params.id }),
+        ipAddress: req.ip || req.socket.remoteAddress || null,
+        userAgent: req.get("user-agent") || null,
+      });
+
+      res.json(result);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/admin/exits/:id/withdraw", requireAdminAuth, requirePermission("properties:manage"), async (req, res) => {
+    try {
+      const { reason } = withdrawPropertyExitSchema.parse(req.body);
+
+      const exit = await storage.withdrawPropertyExit(req.params.id, reason);
+      if ("rejected" in exit) {
+        return res.status(409).json({ message: exit.rejected });
+      }
+
+      await storage.createAuditLogEntry({
+        eventType: "property_exit_withdrawn",
+        propertyId: exit.propertyId,
+        metadata: JSON.stringify({ adminUserId: req.adminUser!.id, exitId: exit.id, reason }),
+        ipAddress: req.ip || req.socket.remoteAddress || null,
+        userAgent: req.get("user-agent") || null,
+      });
+
+      res.json(exit);
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: error.errors 
+        });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Record the transfer at the DLD: costs are deducted, proceeds shared out and the property closed
+  app.post("/api/admin/exits/:id/complete", requireAdminAuth, requirePermission("payments:manage"), async (req, res) => {
+    try {
+      const data = completePropertyExitSchema.parse(req.body);
+
+      const exit = await storage.completePropertyExit(req.params.id, data, req.adminUser!.id);
+      if ("rejected" in exit) {
+        return res.status(409).json({ message: exit.rejected });
+      }
+
+      await storage.createAuditLogEntry({
+        eventType: "property_exit_completed",
+        propertyId: exit.propertyId,
+        metadata: JSON.stringify({
+          adminUserId: req.adminUser!.id,
+          exitId: exit.id,
+          salePrice: exit.salePrice,
+          netProceeds: exit.netProceeds,
+          transferReference: exit.transferReference,
+          payouts: exit.payouts.map(payout => ({ investorId: payout.investorId, amount: payout.amount })),
+        }),
+        ipAddress: req.ip || req.socket.remoteAddress || null,
+        userAgent: req.get("user-agent") || null,
+      });
+
+      console.log(`${exit.propertyTitle} sold for AED ${exit.salePrice}; AED ${exit.netProceeds} net to co-owners, by ${req.adminUser!.email}`);
+      await announceExitCompleted(exit, req);
+
+      res.json(toExitResponse(exit));
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: error.errors 
+        });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/admin/exit-payouts/:id/paid", requireAdminAuth, requirePermission("payments:manage"), async (req, res) => {
+    try {
+      const { paymentReference } = markExitPayoutPaidSchema.parse(req.body);
+
+      const existing = await storage.getExitPayoutById(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Payout not found" });
+      }
+
+      const payout = await storage.markExitPayoutPaid(existing.id, paymentReference, req.adminUser!.id);
+      if (!payout) {
+        return res.status(409).json({ message: "This payout has already been paid" });
+      }
+
+      await storage.createAuditLogEntry({
+        eventType: "exit_payout_paid",
+        investorId: payout.investorId,
+        metadata: JSON.stringify({
+          adminUserId: req.adminUser!.id,
+          payoutId: payout.id,
+          exitId: payout.exitId,
+          amount: payout.amount,
+          paymentReference,
+        }),
+        ipAddress: req.ip || req.socket.remoteAddress || null,
+        userAgent: req.get("user-agent") || null,
+      });
+
+      const { statementPath, ...rest } = payout;
+      res.json(rest);
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: error.errors 
+        });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/admin/exit-payouts/:id/statement", requireAdminAuth, requirePermission("payments:read"), async (req, res) => {
+    try {
+      const payout = await storage.getExitPayoutById(req.params.id);
+      if (!payout) {
+        return res.status(404).json({ message: "Payout not found" });
+      }
+      sendExitStatement(payout, res);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/admin/ledger/trial-balance", requireAdminAuth, requirePermission("payments:read"), async (req, res) => {
+    try {
+      const accounts = await storage.getTrialBalance();
+      const debits = accounts.reduce((sum, row) => sum + toCents(row.debits), 0);
+      const credits = accounts.reduce((sum, row) => sum + toCents(row.credits), 0);
+      res.json({
+        accounts,
+        totals: {
+          debits: (debits / 100).toFixed(2),
+          credits: (credits / 100).toFixed(2),
+          balanced: debits === credits,
+        },
+        generatedAt: new Date(),
+      });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/admin/ledger/accounts/:id", requireAdminAuth, requirePermission("payments:read"), async (req, res) => {
+    try {
+      const account = await storage.getLedgerAccountById(req.params.id);
+      if (!account) {
+        return res.status(404).json({ message: "Account not found" });
+      }
+      const lines = await storage.getAccountStatement(account.id);
+      res.json({
+        account,
+        balance: lines.length > 0 ? lines[lines.length - 1].runningBalance : "0.00",
+        lines,
+      });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/admin/investors/:id/payments", requireAdminAuth, requirePermission("payments:read"), async (req, res) => {
+    try {
+      const investor = await storage.getInvestorById(req.params.id);
+      if (!investor) {
+        return res.status(404).json({ message: "Investor not found" });
+      }
+      const payments = await storage.getInvestorPayments(investor.id);
+      res.json({ payments });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/admin/payments/:paymentId/receipt", requireAdminAuth, requirePermission("payments:read"), async (req, res) => {
+    try {
+      const payment = await storage.getPaymentWithRefunds(req.params.paymentId);
+      if (!payment) {
+        return res.status(404).json({ message: "Payment not found" });
+      }
+      await sendPaymentReceipt(payment, res);
+    } catch (error: any) {
+      console.error("Receipt download error:", error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/admin/payments/:paymentId/refunds", requireAdminAuth, requirePermission("payments:refund"), async (req, res) => {
+    try {
+      const data = refundPaymentSchema.parse(req.body);
+
+      const payment = await storage.getPaymentWithRefunds(req.params.paymentId);
+      if (!payment) {
+        return res.status(404).json({ message: "Payment not found" });
+      }
+
+      const reversal = await refundPayment(payment, data.amount ?? null, data.reason, req);
+      if ("rejected" in reversal) {
+        return res.status(409).json({ message: reversal.rejected });
+      }
+
+      res.status(201).json(reversal);
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: error.errors 
+        });
+      }
+      if (error instanceof PaymentProviderError) {
+        return res.status(error.status === 400 ? 400 : 502).json({ message: `Refund failed: ${error.message}`, error: error.details });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Cancel a deal: refund every payment in full, release the shares and void its signatures
+  app.post("/api/admin/reservations/:reservationId/cancel", requireAdminAuth, requirePermission("payments:refund"), async (req, res) => {
+    try {
+      const { reason } = cancelReservationSchema.parse(req.body);
+
+      const reservation = await storage.getReservationById(req.params.reservationId);
+      if (!reservation) {
+        return res.status(404).json({ message: "Reservation not found" });
+      }
+      if (!reservationTransitions[reservation.reservationStatus as ReservationStatus]?.includes("cancelled")) {
+        return res.status(409).json({ message: `Reservation is ${reservation.reservationStatus} and can't be cancelled` });
+      }
+
+      const payments = await storage.getReservationPayments(reservation.id);
+      const reversals: RefundReversal[] = [];
+      for (const payment of payments.filter(p => refundablePaymentStatuses.includes(p.status))) {
+        try {
+          const reversal = await refundPayment(payment, null, `Reservation cancelled: ${reason}`, req);
+          if ("rejected" in reversal) {
+            return res.status(409).json({
+              message: `Refund of payment ${payment.id} was not started: ${reversal.rejected}. The reservation was not cancelled.`,
+              refunds: reversals.map(r => r.refund),
+            });
+          }
+          reversals.push(reversal);
+        } catch (error: any) {
+          // Stop here; running the cancellation again refunds whatever is left
+          return res.status(502).json({
+            message: `Refund of payment ${payment.id} failed: ${error.message}. The reservation was not cancelled.`,
+            refunds: reversals.map(r => r.refund),
+          });
+        }
+      }
+
+      const cancelled = await storage.changeReservationStatus(reservation.id, "cancelled", { adminUserId: req.adminUser!.id }, reason);
+      if ("rejected" in cancelled) {
+        return res.status(409).json({ message: cancelled.rejected, refunds: reversals.map(r => r.refund) });
+      }
+
+      const slots = await storage.getSlotsByReservation(reservation.id);
+      const investorIds = Array.from(new Set(slots.map(slot => slot.investorId).filter((id): id is string => !!id)));
+      const invalidated = await storage.invalidateDealSignatures(reservation.id, reservation.propertyId, investorIds, `Reservation cancelled: ${reason}`);
+
+      const requestContext = {
+        ipAddress: req.ip || req.socket.remoteAddress || null,
+        userAgent: req.get("user-agent") || null,
+      };
+      await storage.createAuditLogEntry({
+        eventType: "reservation_cancelled",
+        propertyId: reservation.propertyId,
+        metadata: JSON.stringify({
+          adminUserId: req.adminUser!.id,
+          reservationId: reservation.id,
+          previousStatus: reservation.reservationStatus,
+          reason,
+          refundIds: reversals.map(r => r.refund.id),
+          refundedTotal: reversals.reduce((sum, r) => sum + Number(r.refund.amount), 0).toFixed(2),
+        }),
+        ...requestContext,
+      });
+      await storage.createAuditLogEntry({
+        eventType: "deal_signatures_invalidated",
+        propertyId: reservation.propertyId,
+        metadata: JSON.stringify({
+          adminUserId: req.adminUser!.id,
+          reservationId: reservation.id,
+          investorIds,
+          ...invalidated,
+        }),
+        ...requestContext,
+      });
+
+      console.log(`Reservation ${reservation.id} cancelled by ${req.adminUser!.email} with ${reversals.length} refunds`);
+
+      res.json({ reservation: cancelled, refunds: reversals.map(r => r.refund), invalidated });
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: error.errors 
+        });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Move a reservation along its status flow on the co-owners' behalf; cancelling with refunds uses the route above
+  app.patch("/api/admin/reservations/:reservationId/status", requireAdminAuth, requirePermission("payments:manage"), async (req, res) => {
+    try {
+      const { status, reason } = changeReservationStatusSchema.parse(req.body);
+
+      const reservation = await storage.getReservationById(req.params.reservationId);
+      if (!reservation) {
+        return res.status(404).json({ message: "Reservation not found" });
+      }
+
+      const changed = await changeReservationStatus(reservation, status, { adminUserId: req.adminUser!.id }, reason, req);
+      if ("rejected" in changed) {
+        return res.status(409).json({ message: changed.rejected });
+      }
+
+      console.log(`Reservation ${reservation.id} moved from ${reservation.reservationStatus} to ${status} by ${req.adminUser!.email}`);
+
+      res.json(changed);
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: error.errors 
+        });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/admin/reservations/:reservationId/history", requireAdminAuth, requirePermission("payments:read"), async (req, res) => {
+    try {
+      const reservation = await storage.getReservationById(req.params.reservationId);
+      if (!reservation) {
+        return res.status(404).json({ message: "Reservation not found" });
+      }
+      const history = await storage.getReservationStatusHistory(reservation.id);
+      res.json({ reservation, history });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/admin/bank-transactions", requireAdminAuth, requirePermission("payments:read"), async (req, res) => {
+    try {
+      const status = typeof req.query.status === "string" && req.query.status !== "all" ? req.query.status : undefined;
+      const transactions = await storage.getBankTransactions(status);
+      const awaiting = await storage.getAwaitingBankTransfers();
+      res.json({ transactions, awaiting });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/admin/bank-statements", requireAdminAuth, requirePermission("payments:manage"), statementUpload.single("statement"), async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "No statement uploaded" });
+      }
+
+      const storedPath = toStoredPath("bank-statements", req.file.filename);
+      let statement;
+      try {
+        statement = parseBankStatement(await fs.promises.readFile(req.file.path, "utf8"));
+      } catch (error: any) {
+        await removeStoredFile(storedPath);
+        if (error instanceof BankStatementParseError) {
+          return res.status(400).json({ message: error.message });
+        }
+        throw error;
+      }
+
+      // camt.053 names the account it covers; CSV exports do not
+      if (statement.accountIban && !(await storage.getPropertyByEscrowIban(statement.accountIban))) {
+        await removeStoredFile(storedPath);
+        return res.status(400).json({ message: `Statement is for account ${statement.accountIban}, which is not a property escrow account` });
+      }
+
+      const { statementImport, transactions, duplicates } = await storage.importBankStatement(
+        {
+          filename: req.file.originalname,
+          filePath: storedPath,
+          format: statement.format,
+          accountIban: statement.accountIban,
+          statementId: statement.statementId,
+          transactionCount: 0,
+          importedBy: req.adminUser!.id,
+        },
+        statement.transactions.map(transaction => ({
+          fingerprint: fingerprintTransaction(statement.accountIban, transaction),
+          bookingDate: transaction.bookingDate,
+          amount: transaction.amount.toFixed(2),
+          currency: transaction.currency,
+          reference: transaction.reference,
+          counterpartyName: transaction.counterpartyName,
+          counterpartyIban: transaction.counterpartyIban,
+          bankReference: transaction.bankReference,
+        }))
+      );
+
+      let matched = 0;
+      for (const transaction of transactions) {
+        if (await autoMatchBankTransaction(transaction, req)) {
+          matched++;
+        }
+      }
+
+      await storage.createAuditLogEntry({
+        eventType: "bank_statement_imported",
+        metadata: JSON.stringify({
+          adminUserId: req.adminUser!.id,
+          importId: statementImport.id,
+          filename: statementImport.filename,
+          format: statementImport.format,
+          accountIban: statementImport.accountIban,
+          imported: transactions.length,
+          duplicates,
+          matched,
+        }),
+        ipAddress: req.ip || req.socket.remoteAddress || null,
+        userAgent: req.get("user-agent") || null,
+      });
+
+      console.log(`Bank statement ${statementImport.filename} imported by ${req.adminUser!.email}: ${transactions.length} credits, ${matched} matched`);
+
+      res.status(201).json({
+        statementImport,
+        imported: transactions.length,
+        duplicates,
+        skippedDebits: statement.skippedDebits,
+        matched,
+        unmatched: transactions.length - matched,
+      });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/admin/bank-transactions/:id/match", requireAdminAuth, requirePermission("payments:manage"), async (req, res) => {
+    try {
+      const { slotId, shortfallNote } = matchBankTransactionSchema.parse(req.body);
+
+      const transaction = await storage.getBankTransactionById(req.params.id);
+      if (!transaction) {
+        return res.status(404).json({ message: "Bank transaction not found" });
+      }
+
+      const result = await completeBankTransfer(transaction, slotId, req.adminUser!.id, req, shortfallNote);
+      if ("rejected" in result) {
+        return res.status(409).json({ message: result.rejected });
+      }
+
+      res.json(result);
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: error.errors 
+        });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/admin/bank-transactions/:id/ignore", requireAdminAuth, requirePermission("payments:manage"), async (req, res) => {
+    try {
+      const { note } = ignoreBankTransactionSchema.parse(req.body);
+
+      const transaction = await storage.ignoreBankTransaction(req.params.id, note);
+      if (!transaction) {
+        return res.status(409).json({ message: "Only unmatched transactions can be ignored" });
+      }
+
+      await storage.createAuditLogEntry({
+        eventType: "bank_transaction_ignored",
+        metadata: JSON.stringify({
+          adminUserId: req.adminUser!.id,
+          bankTransactionId: transaction.id,
+          amount: transaction.amount,
+          reference: transaction.reference,
+          note,
+        }),
+        ipAddress: req.ip || req.socket.remoteAddress || null,
+        userAgent: req.get("user-agent") || null,
+      });
+
+      res.json(transaction);
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: error.errors 
+        });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/admin/investors", requireAdminAuth, requirePermission("investors:read"), async (req, res) => {
+    try {
+      const investors = await storage.withInvestedTotals(await storage.getAllInvestors());
+      res.json(investors.map(inv => redactInvestorForAdmin(inv, req.adminUser!.role)));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.patch("/api/admin/investors/:id/kyc", requireAdminAuth, requirePermission("kyc:update"), async (req, res) => {
+    try {
+      const { status } = req.body;
+
+      const validStatuses = ["pending", "approved", "rejected"];
+      if (!validStatuses.includes(status)) {
+        return res.status(400).json({ 
+          message: `Invalid status. Must be one of: ${validStatuses.join(", ")}` 
+        });
+      }
+
+      const investor = await storage.updateInvestorKYCStatus(req.params.id, status);
+      
+      console.log(`Updated KYC status for investor ${req.params.id} to ${status} (by ${req.adminUser!.email})`);
+      
+      res.json(investor);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/admin/notify-funded", requireAdminAuth, requirePermission("notifications:send"), async (req, res) => {
+    try {
+      const investors = await storage.getAllInvestors();
+      const property = req.body?.propertyId
+        ? await storage.getPropertyById(req.body.propertyId)
+        : await storage.getPilotProperty();
+
+      if (!property) {
+        return res.status(404).json({ message: "Property not found" });
+      }
+      
+      console.log(`Sending 'Unit Fully Funded' notification to ${investors.length} investors`);
+
+      const results = await Promise.allSettled(investors.map(inv =>
+        getMailer().sendTemplate(inv.email, "unit_funded", inv.preferredLanguage, {
+          fullName: inv.fullName,
+          propertyTitle: property.title,
+        })
+      ));
+      const sent = results.filter(r => r.status === "fulfilled").length;
+      const failed = results.length - sent;
+      if (failed > 0) {
+        console.error(`${failed} 'Unit Fully Funded' notifications failed to send`);
+      }
+      
+      res.json({ 
+        success: failed === 0, 
+        message: `Notification sent to ${sent} investors${failed > 0 ? ` (${failed} failed)` : ""}` 
+      });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/admin/notify-kyc-reminder", requireAdminAuth, requirePermission("notifications:send"), async (req, res) => {
+    try {
+      const investors = await storage.getAllInvestors();
+      const pendingKYC = investors.filter(inv => inv.kycStatus === "pending");
+      const dashboardUrl = `${getAppBaseUrl(req)}/dashboard`;
+      
+      console.log(`Sending KYC reminder to ${pendingKYC.length} investors`);
+
+      const results = await Promise.allSettled(pendingKYC.map(inv =>
+        getMailer().sendTemplate(inv.email, "kyc_reminder", inv.preferredLanguage, {
+          fullName: inv.fullName,
+          dashboardUrl,
+        })
+      ));
+      const sent = results.filter(r => r.status === "fulfilled").length;
+      const failed = results.length - sent;
+      if (failed > 0) {
+        console.error(`${failed} KYC reminders failed to send`);
+      }
+      
+      res.json({ 
+        success: failed === 0, 
+        message: `KYC reminder sent to ${sent} investors${failed > 0 ? ` (${failed} failed)` : ""}` 
+      });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/documents/:type", async (req, res) => {
+    try {
+      const { type } = req.params;
+      
+      console.log(`Generating PDF document: ${type}`);
+      
+      res.json({ 
+        success: true, 
+        message: `${type} PDF generation would happen here`,
+        downloadUrl: `/downloads/${type}.pdf`
+      });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/templates", async (req, res) => {
+    try {
+      const templates = await storage.getAllTemplates();
+      res.json(templates);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/templates/:id", async (req, res) => {
+    try {
+      const template = await storage.getTemplateById(req.params.id);
+      if (!template) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+      res.json(template);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/admin/templates", requireAdminAuth, requirePermission("templates:edit"), async (req, res) => {
+    try {
+      const template = await storage.createOrUpdateTemplate(req.body);
+      res.json(template);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.put("/api/admin/templates/:id", requireAdminAuth, requirePermission("templates:edit"), async (req, res) => {
+    try {
+      const template = await storage.updateTemplate(req.params.id, req.body);
+      res.json(template);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/signatures/create-session", requireInvestorAuth, async (req, res) => {
+    try {
+      const { propertyId, templateId, shareTransferId } = req.body;
+      const channel = otpChannels.includes(req.body.channel) ? req.body.channel as OtpChannel : undefined;
+      const investorId = req.investor!.id; // From session, not request body
+      const ipAddress = req.ip || req.socket.remoteAddress;
+      const userAgent = req.get("user-agent");
+
+      // Share transfer agreements are signed by the seller and buyer of that transfer only
+      if (shareTransferId) {
+        const transfer = await storage.getShareTransferById(shareTransferId);
+        if (!transfer || (transfer.sellerInvestorId !== investorId && transfer.buyerInvestorId !== investorId)) {
+          return res.status(404).json({ message: "Transfer not found" });
+        }
+        if (transfer.status !== "signing" || transfer.propertyId !== propertyId || transfer.templateId !== templateId) {
+          return res.status(409).json({ message: "This transfer agreement is not open for signing" });
+        }
+      }
+
+      console.log("Creating signature session with:", {
+        investorId,
+        propertyId,
+        templateId,
+      });
+
+      const session = await storage.createSignatureSession({
+        investorId,
+        propertyId,
+        templateId,
+        shareTransferId: shareTransferId || undefined,
+        ipAddress,
+        userAgent,
+      });
+
+      // Generate OTP for signature session verification
+      const { otp } = await issueOtp("signing", session.sessionToken);
+
+      // SECURITY: OTP removed from logs - never log secrets in production
+      const template = await storage.getTemplateById(templateId);
+      const receipt = await deliverOtp({
+        investor: req.investor!,
+        purpose: "signing",
+        otp,
+        expiresInMinutes: 10,
+        channel,
+        documentName: template?.name,
+      });
+
+      // Record where the signing code went - part of the non-repudiation trail
+      await storage.createAuditLogEntry({
+        eventType: "otp_sent",
+        investorId,
+        sessionId: session.id,
+        propertyId,
+        metadata: JSON.stringify({ channel: receipt.channel, destination: receipt.destination }),
+        ipAddress,
+        userAgent,
+      });
+
+      res.json({ 
+        sessionId: session.id, 
+        sessionToken: session.sessionToken,
+        otpChannel: receipt.channel,
+        otpDestination: receipt.destination,
+      });
+    } catch (error: any) {
+      console.error("Failed to create signature session:", error);
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/signatures/verify-session", async (req, res) => {
+    try {
+      const { sessionToken, otp } = req.body;
+
+      if (typeof sessionToken !== "string" || typeof otp !== "string") {
+        return res.status(400).json({ message: "sessionToken and otp are required" });
+      }
+      
+      const result = await verifyOtp("signing", sessionToken, otp);
+      if (!result.ok) {
+        const { status, message } = describeOtpFailure(result);
+        return res.status(status).json({ message });
+      }
+      
+      // OTP is valid - update session status in database
+      const session = await storage.verifySignatureSession(sessionToken, otp);
+      
+      if (!session) {
+        return res.status(400).json({ message: "Session not found" });
+      }
+
+      res.json({ success: true, sessionId: session.id });
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/signatures/submit", async (req, res) => {
+    try {
+      const { sessionId, signatureData, consentGiven } = req.body;
+      const ipAddress = req.ip || req.socket.remoteAddress;
+      const userAgent = req.get("user-agent");
+
+      const signature = await storage.saveSignature({
+        sessionId,
+        signatureData,
+        consentGiven,
+        ipAddress,
+        userAgent,
+      });
+
+      res.json({ success: true, signatureId: signature.id });
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/signatures/investor/:investorId/property/:propertyId", requireInvestorAuth, async (req, res) => {
+    try {
+      const { investorId, propertyId } = req.params;
+
+      // Investors can only access their own signatures
+      if (investorId !== req.investor!.id) {
+        return res.status(403).json({ 
+          message: "Forbidden: You can only access your own signatures" 
+        });
+      }
+
+      const signatures = await storage.getInvestorSignatures(investorId, propertyId);
+      res.json(signatures);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Signed documents of a property the investor is signing or holds a share of
+  app.get("/api/signed-documents/property/:propertyId", requireInvestorAuth, async (req, res) => {
+    try {
+      const { propertyId } = req.params;
+      if (!(await storage.isPropertyParticipant(req.investor!.id, propertyId))) {
+        return res.status(404).json({ message: "Property not found" });
+      }
+      const documents = await storage.getSignedDocuments(propertyId);
+      res.json(documents);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/signed-documents/:documentId/download", requireInvestorAuth, async (req, res) => {
+    try {
+      const document = await storage.getSignedDocumentById(req.params.documentId);
+      if (!document || !(await storage.isPropertyParticipant(req.investor!.id, document.propertyId))) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      sendSignedDocument(document, res);
+    } catch (error: any) {
+      console.error("PDF download error:", error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // PRODUCTION-HARDENED signature submission endpoint with session-based authentication
+  app.post("/api/signatures/submit-signature", async (req, res) => {
+    try {
+      // 1. Validate request body with Zod
+      const validatedData = submitSignatureSchema.parse(req.body);
+      const { sessionToken, signatureDataUrl, consentGiven } = validatedData;
+      
+      const ipAddress = req.ip || req.socket.remoteAddress;
+      const userAgent = req.get("user-agent");
+
+      // 2. Look up and verify session - ENFORCE SESSION-BASED AUTHENTICATION
+      const session = await storage.getSessionByToken(sessionToken);
+      
+      if (!session) {
+        return res.status(401).json({ 
+          message: "Unauthorized: Invalid or expired session token" 
+        });
+      }
+
+      // Verify session is verified (OTP confirmed) and not expired
+      if (session.status !== "verified" || session.expiresAt < new Date()) {
+        return res.status(401).json({ 
+          message: "Unauthorized: Session not verified or has expired" 
+        });
+      }
+
+      // 3. Extract authenticated investor identity from session (NOT from request body)
+      const { investorId, propertyId, templateId } = session;
+
+      // 4. Check for duplicate signature - ENFORCE UNIQUENESS CONSTRAINT
+      const existingSignature = await storage.checkDuplicateSignature(
+        investorId, 
+        templateId, 
+        propertyId,
+        session.shareTransferId || undefined
+      );
+
+      if (existingSignature) {
+        return res.status(409).json({ 
+          message: "Duplicate signature: This investor has already signed this document for this property",
+          existingSignatureId: existingSignature.id
+        });
+      }
+
+      // 5. Encrypt and hash signature data
+      const { encryptData, generateHash } = await import("./lib/crypto.js");
+      const encryptedSignature = encryptData(signatureDataUrl);
+      const signatureHash = generateHash(signatureDataUrl);
+
+      // 6. Save signature with session reference
+      const signature = await storage.saveInvestorSignature({
+        sessionId: session.id,
+        investorId,
+        templateId,
+        propertyId,
+        shareTransferId: session.shareTransferId,
+        reservationId: session.reservationId,
+        encryptedSignatureData: encryptedSignature,
+        signatureHash,
+        ipAddress,
+        userAgent,
+        consentGiven,
+      });
+
+      // The transfer agreement is sealed once both parties have signed
+      if (session.shareTransferId) {
+        try {
+          await storage.recordShareTransferSignature(session.shareTransferId);
+        } catch (error) {
+          console.error(`Failed to seal share transfer agreement ${session.shareTransferId}:`, error);
+        }
+      }
+
+      res.json({ 
+        success: true, 
+        signatureId: signature.id,
+        message: "Signature encrypted and stored securely"
+      });
+    } catch (error: any) {
+      console.error("Signature submission error:", error);
+      
+      // Handle Zod validation errors
+      if (error.name === "ZodError") {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: error.errors 
+        });
+      }
+      
+      // Handle database unique constraint violations
+      if (error.code === "23505") {
+        return res.status(409).json({ 
+          message: "Duplicate signature: This signature has already been recorded" 
+        });
+      }
+      
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Get investor's signature status for all documents
+  app.get("/api/signatures/investor/:investorId/status", requireInvestorAuth, async (req, res) => {
+    try {
+      const { investorId } = req.params;
+
+      // Investors can only access their own signature status
+      if (investorId !== req.investor!.id) {
+        return res.status(403).json({ 
+          message: "Forbidden: You can only access your own signature status" 
+        });
+      }
+
+      const signatures = await storage.getInvestorSignatures(investorId);
+      
+      // Return which documents have been signed
+      const signedDocuments = signatures.map((sig: any) => ({
+        templateId: sig.templateId,
+        signedAt: sig.signedAt,
+        documentType: sig.templateId // Will map to template type
+      }));
+
+      res.json({ signatures: signedDocuments });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Get multi-party signing status for a property
+  app.get("/api/signatures/property/:propertyId/status", requireAdminAuth, requirePermission("signatures:read"), async (req, res) => {
+    try {
+      const { propertyId } = req.params;
+      const status = await storage.getPropertySignatureStatus(propertyId);
+      
+      res.json(status);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Generate PDF for a signed document
+  app.post("/api/documents/generate", requireAdminAuth, requirePermission("documents:generate"), async (req, res) => {
+    try {
+      const { propertyId, documentType, investorId } = req.body;
+
+      if (!propertyId || !documentType || !investorId) {
+        return res.status(400).json({ 
+          message: "Missing required fields: propertyId, documentType, investorId" 
+        });
+      }
+
+      // Generate the PDF document
+      const document = await storage.generateSignedDocument(
+        propertyId,
+        documentType,
+        investorId
+      );
+
+      res.json({
+        success: true,
+        document: {
+          id: document.id,
+          filePath: document.filePath,
+          fileHash: document.fileHash,
+          documentType: document.documentType,
+          generatedAt: document.generatedAt,
+        }
+      });
+    } catch (error: any) {
+      console.error("PDF generation error:", error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Download a generated PDF document
+  app.get("/api/documents/:documentId/download", requireAdminAuth, requirePermission("signatures:read"), async (req, res) => {
+    try {
+      const document = await storage.getSignedDocumentById(req.params.documentId);
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      sendSignedDocument(document, res);
+    } catch (error: any) {
+      console.error("PDF download error:", error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Get all signed documents for a property
+  app.get("/api/documents/property/:propertyId", requireAdminAuth, requirePermission("signatures:read"), async (req, res) => {
+    try {
+      const { propertyId } = req.params;
+      const documents = await storage.getSignedDocuments(propertyId);
+
+      res.json({ documents });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Export DLD Bundle - generates consolidated ZIP with PDFs and CSV
+  app.post("/api/documents/export-dld-bundle/:propertyId", requireAdminAuth, requirePermission("dld:export"), async (req, res) => {
+    try {
+      const { propertyId } = req.params;
+      const { orchestrateBundleCreation } = await import("./lib/dld-bundle");
+
+      const adminUserId = req.adminUser!.id;
+
+      console.log(`Starting DLD bundle export for property: ${propertyId} (requested by ${req.adminUser!.email})`);
+
+      // Orchestrate bundle creation
+      const result = await orchestrateBundleCreation(propertyId, adminUserId);
+
+      if (!result.success) {
+        // Determine appropriate status code
+        const statusCode = result.error?.includes("not all signers completed") ? 409 :
+                          result.error?.includes("KYC") ? 400 : 500;
+        
+        return res.status(statusCode).json({ 
+          success: false,
+          message: result.error || "Failed to generate DLD bundle"
+        });
+      }
+
+      if (!result.zipBuffer) {
+        return res.status(500).json({
+          success: false,
+          message: "Bundle generated but ZIP buffer is missing"
+        });
+      }
+
+      // Generate filename with timestamp
+      const timestamp = new Date().toISOString().split('T')[0].replace(/-/g, '');
+      const filename = `property-${propertyId}-dld-bundle-${timestamp}.zip`;
+
+      // Set headers for ZIP download
+      res.setHeader("Content-Type", "application/zip");
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+      res.setHeader("Content-Length", result.zipBuffer.length.toString());
+
+      // Send ZIP buffer
+      res.send(result.zipBuffer);
+
+      console.log(`DLD bundle exported successfully: ${filename}`);
+    } catch (error: any) {
+      console.error("DLD bundle export error:", error);
+      res.status(500).json({ 
+        success: false,
+        message: error.message || "Internal server error during bundle export"
+      });
+    }
   });
 
-  app.post("/api/signatures/verify-session", async (req, res) => {
+  // ====== CO-OWNERSHIP RESERVATION ROUTES ======
+
+  // Create a new reservation (express interest) - requires authentication
+  app.post("/api/reservations", requireInvestorAuth, async (req, res) => {
     try {
-      const { sessionToken, otp } = req.body;
-      
-      // Check OTP from in-memory store
-      const storedOTP = otpStore.get(sessionToken);
-      
-      if (!storedOTP) {
-        return res.status(400).json({ message: "No OTP found for this session. Please try again." });
+      // Validate request body with Zod schema
+      const validatedData = createReservationSchema.parse(req.body);
+
+      const property = await storage.getPropertyById(validatedData.propertyId);
+      if (!property || property.status !== "published") {
+        return res.status(400).json({ message: "This property is not open for reservations" });
       }
+
+      // Use investor ID from session, NOT from request body
+      const reservationData = {
+        ...validatedData,
+        initiatorInvestorId: req.investor!.id
+      };
+
+      // Use transactional storage method to ensure atomicity
+      const result = await storage.createReservationWithSlots(reservationData);
+
+      console.log(`Reservation created by ${req.investor!.email}: ${result.reservation.id} with ${result.slots.length} slots`);
+
+      res.json({
+        success: true,
+        reservation: result.reservation,
+        slots: result.slots,
+      });
+    } catch (error: any) {
+      console.error("Reservation creation error:", error);
       
-      if (storedOTP.expiresAt < Date.now()) {
-        otpStore.delete(sessionToken);
-        return res.status(400).json({ message: "OTP has expired. Please create a new session." });
+      // Handle Zod validation errors
+      if (error.name === "ZodError") {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: error.errors 
+        });
       }
       
-      if (storedOTP.otp !== otp) {
-        return res.status(400).json({ message: "Invalid OTP. Please check and try again." });
+      // Handle database constraint violations
+      if (error.code === "23505") {
+        return res.status(409).json({ 
+          message: "An active reservation already exists for this property" 
+        });
       }
       
-      // OTP is valid - update session status in database
-      const session = await storage.verifySignatureSession(sessionToken, otp);
-      
-      if (!session) {
-        return res.status(400).json({ message: "Session not found" });
-      }
+      res.status(500).json({ message: error.message });
+    }
+  });
 
-      // Remove OTP from store after successful verification
-      otpStore.delete(sessionToken);
+  // Get investor's reservations - requires authentication
+  app.get("/api/reservations/investor", requireInvestorAuth, async (req, res) => {
+    try {
+      // Use investor ID from session, NOT from URL params
+      const reservations = await storage.getInvestorReservationsWithDetails(req.investor!.id);
+      
+      res.json({ reservations });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
 
-      res.json({ success: true, sessionId: session.id });
+  // Get reservation details with slots and invitations
+  // Instalment dues across every property the investor co-owns
+  app.get("/api/instalments/investor", requireInvestorAuth, async (req, res) => {
+    try {
+      const instalments = await storage.getInvestorInstalmentSchedule(req.investor!.id);
+      res.json({ instalments });
     } catch (error: any) {
-      res.status(400).json({ message: error.message });
+      res.status(500).json({ message: error.message });
     }
   });
 
-  app.post("/api/signatures/submit", async (req, res) => {
+  // Payments made by the signed-in investor, with their receipt numbers
+  app.get("/api/payments/investor", requireInvestorAuth, async (req, res) => {
     try {
-      const { sessionId, signatureData, consentGiven } = req.body;
-      const ipAddress = req.ip || req.socket.remoteAddress;
-      const userAgent = req.get("user-agent");
+      const payments = await storage.getInvestorPayments(req.investor!.id);
+      res.json({ payments });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
 
-      const signature = await storage.saveSignature({
-        sessionId,
-        signatureData,
-        consentGiven,
-        ipAddress,
-        userAgent,
+  // Rent distributed to the signed-in investor, with yield to date on each property they hold
+  app.get("/api/rental-income/investor", requireInvestorAuth, async (req, res) => {
+    try {
+      const payouts = await storage.getInvestorRentalPayouts(req.investor!.id);
+      const yields = await storage.getInvestorRentalYields(req.investor!.id);
+      const distributed = yields.reduce((sum, row) => sum + toCents(row.distributed), 0);
+      const costBasis = yields.reduce((sum, row) => sum + toCents(row.costBasis), 0);
+      res.json({
+        payouts,
+        yields,
+        totals: {
+          distributed: (distributed / 100).toFixed(2),
+          costBasis: (costBasis / 100).toFixed(2),
+          yieldToDate: costBasis > 0 ? (distributed / costBasis * 100).toFixed(2) : "0.00",
+        },
       });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
 
-      res.json({ success: true, signatureId: signature.id });
+  // Expenses charged to the signed-in investor's shares, including those waiting for their approval
+  app.get("/api/expenses/investor", requireInvestorAuth, async (req, res) => {
+    try {
+      const expenses = await storage.getInvestorExpenses(req.investor!.id);
+      res.json({ expenses: expenses.map(toExpenseResponse), approvalThreshold: getExpenseApprovalThreshold() });
     } catch (error: any) {
-      res.status(400).json({ message: error.message });
+      res.status(500).json({ message: error.message });
     }
   });
 
-  app.get("/api/signatures/investor/:investorId/property/:propertyId", requireInvestorAuth, async (req, res) => {
+  app.post("/api/expenses/:id/decision", requireInvestorAuth, async (req, res) => {
     try {
-      const { investorId, propertyId } = req.params;
+      const { decision, comment } = expenseDecisionSchema.parse(req.body);
 
-      // Investors can only access their own signatures
-      if (investorId !== req.investor!.id) {
-        return res.status(403).json({ 
-          message: "Forbidden: You can only access your own signatures" 
+      const expense = await storage.getPropertyExpenseWithDetails(req.params.id);
+      if (!expense || !expense.allocations.some(allocation => allocation.investorId === req.investor!.id)) {
+        return res.status(404).json({ message: "Expense not found" });
+      }
+
+      const result = await storage.decideExpense(expense.id, req.investor!.id, decision, comment || null);
+      if ("rejected" in result) {
+        return res.status(409).json({ message: result.rejected });
+      }
+
+      await storage.createAuditLogEntry({
+        eventType: "property_expense_decision",
+        investorId: req.investor!.id,
+        propertyId: expense.propertyId,
+        metadata: JSON.stringify({
+          expenseId: expense.id,
+          decision,
+          comment: comment || null,
+          outcome: result.outcome,
+        }),
+        ipAddress: req.ip || req.socket.remoteAddress || null,
+        userAgent: req.get("user-agent") || null,
+      });
+
+      res.json({ expense: toExpenseResponse(result.expense), outcome: result.outcome });
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: error.errors 
         });
       }
+      res.status(500).json({ message: error.message });
+    }
+  });
 
-      const signatures = await storage.getInvestorSignatures(investorId, propertyId);
-      res.json(signatures);
+  app.get("/api/expenses/:id/invoice", requireInvestorAuth, async (req, res) => {
+    try {
+      const expense = await storage.getPropertyExpenseWithDetails(req.params.id);
+      if (!expense || !expense.allocations.some(allocation => allocation.investorId === req.investor!.id)) {
+        return res.status(404).json({ message: "Expense not found" });
+      }
+      sendExpenseInvoice(expense, res);
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.get("/api/signed-documents/property/:propertyId", async (req, res) => {
+  // Owner statements issued to the signed-in investor, newest period first
+  app.get("/api/statements/investor", requireInvestorAuth, async (req, res) => {
     try {
-      const { propertyId } = req.params;
-      const documents = await storage.getSignedDocuments(propertyId);
-      res.json(documents);
+      const statements = await storage.getInvestorOwnerStatements(req.investor!.id);
+      res.json({ statements: statements.map(toStatementResponse) });
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  // PRODUCTION-HARDENED signature submission endpoint with session-based authentication
-  app.post("/api/signatures/submit-signature", async (req, res) => {
+  // Issue a statement for a closed month or year on request; an existing one is returned as is
+  app.post("/api/statements", requireInvestorAuth, async (req, res) => {
     try {
-      // 1. Validate request body with Zod
-      const validatedData = submitSignatureSchema.parse(req.body);
-      const { sessionToken, signatureDataUrl, consentGiven } = validatedData;
-      
-      const ipAddress = req.ip || req.socket.remoteAddress;
-      const userAgent = req.get("user-agent");
+      const data = ownerStatementRequestSchema.parse(req.body);
+      const period = statementPeriod(data.periodType, data.year, data.month);
+      if (!isPeriodClosed(period)) {
+        return res.status(409).json({ message: `Statements for ${formatStatementPeriod(period)} are available once the period has ended` });
+      }
 
-      // 2. Look up and verify session - ENFORCE SESSION-BASED AUTHENTICATION
-      const session = await storage.getSessionByToken(sessionToken);
-      
-      if (!session) {
-        return res.status(401).json({ 
-          message: "Unauthorized: Invalid or expired session token" 
-        });
+      const activity = await storage.getOwnerStatementActivity(req.investor!.id, data.propertyId);
+      if (!activity.some(item => item.date.getTime() < period.endsBefore.getTime())) {
+        return res.status(404).json({ message: "You had no holding in this property during that period" });
       }
 
-      // Verify session is verified (OTP confirmed) and not expired
-      if (session.status !== "verified" || session.expiresAt < new Date()) {
-        return res.status(401).json({ 
-          message: "Unauthorized: Session not verified or has expired" 
+      const statement = await storage.issueOwnerStatement(req.investor!.id, data.propertyId, period, "on_demand");
+
+      await storage.createAuditLogEntry({
+        eventType: "owner_statement_requested",
+        investorId: req.investor!.id,
+        propertyId: data.propertyId,
+        metadata: JSON.stringify({
+          statementId: statement.id,
+          statementNumber: statement.statementNumber,
+          periodType: statement.periodType,
+          periodStart: statement.periodStart,
+        }),
+        ipAddress: req.ip || req.socket.remoteAddress || null,
+        userAgent: req.get("user-agent") || null,
+      });
+
+      res.status(201).json(toStatementResponse(statement));
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: error.errors 
         });
       }
+      console.error("Statement error:", error);
+      res.status(500).json({ message: error.message });
+    }
+  });
 
-      // 3. Extract authenticated investor identity from session (NOT from request body)
-      const { investorId, propertyId, templateId } = session;
+  app.get("/api/statements/:id/:format(pdf|csv)", requireInvestorAuth, async (req, res) => {
+    try {
+      const statement = await storage.getOwnerStatementById(req.params.id);
+      if (!statement || statement.investorId !== req.investor!.id) {
+        return res.status(404).json({ message: "Statement not found" });
+      }
+      sendOwnerStatementFile(statement, req.params.format as "pdf" | "csv", res);
+    } catch (error: any) {
+      console.error("Statement download error:", error);
+      res.status(500).json({ message: error.message });
+    }
+  });
 
-      // 4. Check for duplicate signature - ENFORCE UNIQUENESS CONSTRAINT
-      const existingSignature = await storage.checkDuplicateSignature(
-        investorId, 
-        templateId, 
-        propertyId
-      );
+  // Sale proceeds owed or paid to the signed-in investor, with their exit statements
+  app.get("/api/exits/investor", requireInvestorAuth, async (req, res) => {
+    try {
+      const payouts = await storage.getInvestorExitPayouts(req.investor!.id);
+      res.json({ payouts: payouts.map(({ statementPath, ...payout }) => payout) });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
 
-      if (existingSignature) {
-        return res.status(409).json({ 
-          message: "Duplicate signature: This investor has already signed this document for this property",
-          existingSignatureId: existingSignature.id
-        });
+  app.get("/api/exit-payouts/:id/statement", requireInvestorAuth, async (req, res) => {
+    try {
+      const payout = await storage.getExitPayoutById(req.params.id);
+      if (!payout || payout.investorId !== req.investor!.id) {
+        return res.status(404).json({ message: "Exit statement not found" });
       }
+      sendExitStatement(payout, res);
+    } catch (error: any) {
+      console.error("Exit statement download error:", error);
+      res.status(500).json({ message: error.message });
+    }
+  });
 
-      // 5. Encrypt and hash signature data
-      const { encryptData, generateHash } = await import("./lib/crypto.js");
-      const encryptedSignature = encryptData(signatureDataUrl);
-      const signatureHash = generateHash(signatureDataUrl);
+  // Shares the signed-in investor may buy: their co-owners' listings during first refusal, then open listings
+  app.get("/api/secondary-market/listings", requireInvestorAuth, async (req, res) => {
+    try {
+      const listings = await storage.getMarketShareListings(req.investor!.id, req.investor!.kycStatus === "approved");
+      res.json({ listings, rofrDays: getRofrWindowDays() });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
 
-      // 6. Save signature with session reference
-      const signature = await storage.saveInvestorSignature({
-        sessionId: session.id,
-        investorId,
-        templateId,
-        propertyId,
-        encryptedSignatureData: encryptedSignature,
-        signatureHash,
-        ipAddress,
-        userAgent,
-        consentGiven,
+  // The signed-in investor's sellable shares, listings, offers and transfers
+  app.get("/api/secondary-market/mine", requireInvestorAuth, async (req, res) => {
+    try {
+      const investorId = req.investor!.id;
+      const [holdings, listings, offers, transfers] = await Promise.all([
+        storage.getInvestorHoldings(investorId),
+        storage.getSellerShareListings(investorId),
+        storage.getInvestorShareOffers(investorId),
+        storage.getInvestorShareTransfers(investorId),
+      ]);
+      res.json({ holdings, listings, offers, transfers });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/secondary-market/listings", requireInvestorAuth, async (req, res) => {
+    try {
+      const data = createShareListingSchema.parse(req.body);
+
+      const listing = await storage.createShareListing(req.investor!.id, data);
+      if ("rejected" in listing) {
+        return res.status(409).json({ message: listing.rejected });
+      }
+
+      await storage.createAuditLogEntry({
+        eventType: "share_listed",
+        investorId: req.investor!.id,
+        propertyId: listing.propertyId,
+        metadata: JSON.stringify({
+          listingId: listing.id,
+          slotId: listing.slotId,
+          sharePercentage: listing.sharePercentage,
+          askingPrice: listing.askingPrice,
+          rofrEndsAt: listing.rofrEndsAt,
+        }),
+        ipAddress: req.ip || req.socket.remoteAddress || null,
+        userAgent: req.get("user-agent") || null,
       });
 
-      res.json({ 
-        success: true, 
-        signatureId: signature.id,
-        message: "Signature encrypted and stored securely"
-      });
+      // Co-owners hold the right of first refusal, so they hear first
+      const [property, owners] = await Promise.all([
+        storage.getPropertyById(listing.propertyId),
+        storage.getPropertyOwners(listing.propertyId),
+      ]);
+      const dashboardUrl = `${getAppBaseUrl(req)}/dashboard`;
+      await emailShareInvestors(
+        owners.map(owner => owner.investorId).filter(id => id !== listing.sellerInvestorId),
+        "right of first refusal",
+        (investor) => getMailer().sendTemplate(investor.email, "share_listed_rofr", investor.preferredLanguage, {
+          fullName: investor.fullName,
+          propertyTitle: property?.title || "",
+          sharePercentage: String(Number(listing.sharePercentage)),
+          askingPrice: formatAedAmount(listing.askingPrice),
+          rofrEndsAt: listing.rofrEndsAt,
+          dashboardUrl,
+        })
+      );
+
+      res.status(201).json(listing);
     } catch (error: any) {
-      console.error("Signature submission error:", error);
-      
-      // Handle Zod validation errors
       if (error.name === "ZodError") {
         return res.status(400).json({ 
           message: "Validation error", 
           errors: error.errors 
         });
       }
-      
-      // Handle database unique constraint violations
       if (error.code === "23505") {
-        return res.status(409).json({ 
-          message: "Duplicate signature: This signature has already been recorded" 
-        });
+        return res.status(409).json({ message: "This share is already listed for sale" });
       }
-      
       res.status(500).json({ message: error.message });
     }
   });
 
-  // Get investor's signature status for all documents
-  app.get("/api/signatures/investor/:investorId/status", requireInvestorAuth, async (req, res) => {
+  app.post("/api/secondary-market/listings/:id/withdraw", requireInvestorAuth, async (req, res) => {
     try {
-      const { investorId } = req.params;
-
-      // Investors can only access their own signature status
-      if (investorId !== req.investor!.id) {
-        return res.status(403).json({ 
-          message: "Forbidden: You can only access your own signature status" 
-        });
+      const listing = await storage.withdrawShareListing(req.params.id, req.investor!.id);
+      if ("rejected" in listing) {
+        return res.status(409).json({ message: listing.rejected });
       }
 
-      const signatures = await storage.getInvestorSignatures(investorId);
-      
-      // Return which documents have been signed
-      const signedDocuments = signatures.map((sig: any) => ({
-        templateId: sig.templateId,
-        signedAt: sig.signedAt,
-        documentType: sig.templateId // Will map to template type
-      }));
+      await storage.createAuditLogEntry({
+        eventType: "share_listing_withdrawn",
+        investorId: req.investor!.id,
+        propertyId: listing.propertyId,
+        metadata: JSON.stringify({ listingId: listing.id }),
+        ipAddress: req.ip || req.socket.remoteAddress || null,
+        userAgent: req.get("user-agent") || null,
+      });
 
-      res.json({ signatures: signedDocuments });
+      res.json(listing);
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  // Get multi-party signing status for a property
-  app.get("/api/signatures/property/:propertyId/status", async (req, res) => {
+  // A co-owner buys a listed share at the asking price before it opens to other investors
+  app.post("/api/secondary-market/listings/:id/rofr", requireInvestorAuth, async (req, res) => {
     try {
-      const { propertyId } = req.params;
-      const status = await storage.getPropertySignatureStatus(propertyId);
-      
-      res.json(status);
+      const transfer = await storage.exerciseRightOfFirstRefusal(req.params.id, req.investor!.id);
+      if ("rejected" in transfer) {
+        return res.status(409).json({ message: transfer.rejected });
+      }
+
+      await storage.createAuditLogEntry({
+        eventType: "share_rofr_exercised",
+        investorId: req.investor!.id,
+        propertyId: transfer.propertyId,
+        metadata: JSON.stringify({
+          listingId: transfer.listingId,
+          transferId: transfer.id,
+          price: transfer.price,
+        }),
+        ipAddress: req.ip || req.socket.remoteAddress || null,
+        userAgent: req.get("user-agent") || null,
+      });
+
+      await requestShareTransferSignatures(transfer, req);
+      res.status(201).json(transfer);
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  // Generate PDF for a signed document
-  app.post("/api/documents/generate", async (req, res) => {
+  app.post("/api/secondary-market/listings/:id/offers", requireInvestorAuth, async (req, res) => {
     try {
-      const { propertyId, documentType, investorId } = req.body;
+      const data = shareOfferSchema.parse(req.body);
+      if (req.investor!.kycStatus !== "approved") {
+        return res.status(403).json({ message: "Complete identity verification before making offers" });
+      }
 
-      if (!propertyId || !documentType || !investorId) {
-        return res.status(400).json({ 
-          message: "Missing required fields: propertyId, documentType, investorId" 
-        });
+      const offer = await storage.makeShareOffer(req.params.id, req.investor!.id, data);
+      if ("rejected" in offer) {
+        return res.status(409).json({ message: offer.rejected });
       }
 
-      // Generate the PDF document
-      const document = await storage.generateSignedDocument(
-        propertyId,
-        documentType,
-        investorId
+      const listing = (await storage.getShareListingById(offer.listingId))!;
+      await storage.createAuditLogEntry({
+        eventType: "share_offer_made",
+        investorId: req.investor!.id,
+        propertyId: listing.propertyId,
+        metadata: JSON.stringify({ listingId: listing.id, offerId: offer.id, amount: offer.amount }),
+        ipAddress: req.ip || req.socket.remoteAddress || null,
+        userAgent: req.get("user-agent") || null,
+      });
+
+      const property = await storage.getPropertyById(listing.propertyId);
+      const dashboardUrl = `${getAppBaseUrl(req)}/dashboard`;
+      await emailShareInvestors([listing.sellerInvestorId], "share offer", (investor) =>
+        getMailer().sendTemplate(investor.email, "share_offer_received", investor.preferredLanguage, {
+          fullName: investor.fullName,
+          propertyTitle: property?.title || "",
+          sharePercentage: String(Number(listing.sharePercentage)),
+          amount: formatAedAmount(offer.amount),
+          dashboardUrl,
+        })
       );
 
-      res.json({
-        success: true,
-        document: {
-          id: document.id,
-          filePath: document.filePath,
-          fileHash: document.fileHash,
-          documentType: document.documentType,
-          generatedAt: document.generatedAt,
-        }
-      });
+      res.status(201).json(offer);
     } catch (error: any) {
-      console.error("PDF generation error:", error);
+      if (error.name === "ZodError") {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: error.errors 
+        });
+      }
       res.status(500).json({ message: error.message });
     }
   });
 
-  // Download a generated PDF document
-  app.get("/api/documents/:documentId/download", async (req, res) => {
+  app.post("/api/secondary-market/offers/:id/accept", requireInvestorAuth, async (req, res) => {
     try {
-      const { documentId } = req.params;
-
-      // Get document from database
-      const document = await storage.getSignedDocumentById(documentId);
-
-      if (!document) {
-        return res.status(404).json({ message: "Document not found" });
-      }
-
-      // Check if file exists
-      if (!fs.existsSync(document.filePath)) {
-        return res.status(404).json({ message: "PDF file not found on disk" });
+      const transfer = await storage.acceptShareOffer(req.params.id, req.investor!.id);
+      if ("rejected" in transfer) {
+        return res.status(409).json({ message: transfer.rejected });
       }
 
-      // Extract filename from path
-      const filename = path.basename(document.filePath);
-
-      // Set headers for PDF download
-      res.setHeader("Content-Type", "application/pdf");
-      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+      await storage.createAuditLogEntry({
+        eventType: "share_offer_accepted",
+        investorId: req.investor!.id,
+        propertyId: transfer.propertyId,
+        metadata: JSON.stringify({
+          listingId: transfer.listingId,
+          offerId: transfer.offerId,
+          transferId: transfer.id,
+          price: transfer.price,
+        }),
+        ipAddress: req.ip || req.socket.remoteAddress || null,
+        userAgent: req.get("user-agent") || null,
+      });
 
-      // Stream the PDF file
-      const fileStream = fs.createReadStream(document.filePath);
-      fileStream.pipe(res);
+      await requestShareTransferSignatures(transfer, req);
+      res.status(201).json(transfer);
     } catch (error: any) {
-      console.error("PDF download error:", error);
       res.status(500).json({ message: error.message });
     }
   });
 
-  // Get all signed documents for a property
-  app.get("/api/documents/property/:propertyId", async (req, res) => {
+  app.post("/api/secondary-market/offers/:id/:action(reject|withdraw)", requireInvestorAuth, async (req, res) => {
     try {
-      const { propertyId } = req.params;
-      const documents = await storage.getSignedDocuments(propertyId);
+      const offer = req.params.action === "reject"
+        ? await storage.rejectShareOffer(req.params.id, req.investor!.id)
+        : await storage.withdrawShareOffer(req.params.id, req.investor!.id);
+      if ("rejected" in offer) {
+        return res.status(409).json({ message: offer.rejected });
+      }
+      res.json(offer);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
 
-      res.json({ documents });
+  app.get("/api/secondary-market/transfers/:id/agreement", requireInvestorAuth, async (req, res) => {
+    try {
+      const transfer = await storage.getShareTransferById(req.params.id);
+      if (!transfer || (transfer.sellerInvestorId !== req.investor!.id && transfer.buyerInvestorId !== req.investor!.id)) {
+        return res.status(404).json({ message: "Transfer not found" });
+      }
+      await sendShareTransferAgreement(transfer, res);
     } catch (error: any) {
+      console.error("Share transfer agreement download error:", error);
       res.status(500).json({ message: error.message });
     }
   });
 
-  // Export DLD Bundle - generates consolidated ZIP with PDFs and CSV
-  app.post("/api/documents/export-dld-bundle/:propertyId", async (req, res) => {
+  // Proposals the signed-in investor may vote on, with every co-owner's ballot
+  app.get("/api/governance/proposals", requireInvestorAuth, async (req, res) => {
     try {
-      const { propertyId } = req.params;
-      const { orchestrateBundleCreation } = await import("./lib/dld-bundle");
+      const proposals = await storage.getInvestorGovernanceProposals(req.investor!.id);
+      res.json({ proposals: proposals.map(toProposalResponse), defaults: { quorumPercentage: getDefaultQuorum(), thresholdPercentage: getDefaultThreshold() } });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
 
-      // For MVP, we'll use a default admin user ID
-      // In production, this should come from the authenticated session
-      const adminUserId = "admin";
+  app.post("/api/governance/proposals", requireInvestorAuth, async (req, res) => {
+    try {
+      const input = createGovernanceProposalSchema.parse(req.body);
 
-      console.log(`Starting DLD bundle export for property: ${propertyId}`);
+      const proposal = await storage.createGovernanceProposal(input, { investorId: req.investor!.id });
+      if ("rejected" in proposal) {
+        return res.status(409).json({ message: proposal.rejected });
+      }
 
-      // Orchestrate bundle creation
-      const result = await orchestrateBundleCreation(propertyId, adminUserId);
+      await storage.createAuditLogEntry({
+        eventType: "governance_proposal_created",
+        investorId: req.investor!.id,
+        propertyId: proposal.propertyId,
+        metadata: JSON.stringify({
+          proposalId: proposal.id,
+          category: proposal.category,
+          quorumPercentage: proposal.quorumPercentage,
+          thresholdPercentage: proposal.thresholdPercentage,
+          deadline: proposal.deadline,
+        }),
+        ipAddress: req.ip || req.socket.remoteAddress || null,
+        userAgent: req.get("user-agent") || null,
+      });
 
-      if (!result.success) {
-        // Determine appropriate status code
-        const statusCode = result.error?.includes("not all signers completed") ? 409 :
-                          result.error?.includes("KYC") ? 400 : 500;
-        
-        return res.status(statusCode).json({ 
-          success: false,
-          message: result.error || "Failed to generate DLD bundle"
+      await announceProposal(proposal, req);
+      res.status(201).json(proposal);
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: error.errors 
         });
       }
+      res.status(500).json({ message: error.message });
+    }
+  });
 
-      if (!result.zipBuffer) {
-        return res.status(500).json({
-          success: false,
-          message: "Bundle generated but ZIP buffer is missing"
-        });
-      }
+  // Send the code that confirms a ballot; the code only confirms the choice it was requested for
+  app.post("/api/governance/proposals/:id/ballot/request", requireInvestorAuth, async (req, res) => {
+    try {
+      const { choice, channel } = requestBallotSchema.parse(req.body);
+      const investorId = req.investor!.id;
 
-      // Generate filename with timestamp
-      const timestamp = new Date().toISOString().split('T')[0].replace(/-/g, '');
-      const filename = `property-${propertyId}-dld-bundle-${timestamp}.zip`;
+      const proposal = await storage.getGovernanceProposalWithDetails(req.params.id);
+      const ballot = proposal?.ballots.find(b => b.investorId === investorId);
+      if (!proposal || !ballot) {
+        return res.status(404).json({ message: "Proposal not found" });
+      }
+      if (proposal.status !== "open" || proposal.deadline.getTime() <= Date.now()) {
+        return res.status(409).json({ message: "Voting on this proposal has closed" });
+      }
+      if (ballot.choice) {
+        return res.status(409).json({ message: "You have already voted on this proposal" });
+      }
 
-      // Set headers for ZIP download
-      res.setHeader("Content-Type", "application/zip");
-      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
-      res.setHeader("Content-Length", result.zipBuffer.length.toString());
+      const { otp } = await issueOtp("voting", `${proposal.id}:${investorId}:${choice}`);
+      const receipt = await deliverOtp({
+        investor: req.investor!,
+        purpose: "voting",
+        otp,
+        expiresInMinutes: 10,
+        channel,
+        ballot: { proposalTitle: proposal.title, choice },
+      });
 
-      // Send ZIP buffer
-      res.send(result.zipBuffer);
+      await storage.createAuditLogEntry({
+        eventType: "governance_ballot_otp_sent",
+        investorId,
+        propertyId: proposal.propertyId,
+        metadata: JSON.stringify({ proposalId: proposal.id, choice, channel: receipt.channel, destination: receipt.destination }),
+        ipAddress: req.ip || req.socket.remoteAddress || null,
+        userAgent: req.get("user-agent") || null,
+      });
 
-      console.log(`DLD bundle exported successfully: ${filename}`);
+      res.json({ otpChannel: receipt.channel, otpDestination: receipt.destination });
     } catch (error: any) {
-      console.error("DLD bundle export error:", error);
-      res.status(500).json({ 
-        success: false,
-        message: error.message || "Internal server error during bundle export"
-      });
+      if (error instanceof OtpRateLimitError) {
+        return res.status(429).json({ message: error.message, retryAfter: error.retryAfterSeconds });
+      }
+      if (error.name === "ZodError") {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: error.errors 
+        });
+      }
+      res.status(500).json({ message: error.message });
     }
   });
 
-  // ====== CO-OWNERSHIP RESERVATION ROUTES ======
-
-  // Create a new reservation (express interest) - requires authentication
-  app.post("/api/reservations", requireInvestorAuth, async (req, res) => {
+  app.post("/api/governance/proposals/:id/ballot", requireInvestorAuth, async (req, res) => {
     try {
-      // Validate request body with Zod schema
-      const validatedData = createReservationSchema.parse(req.body);
+      const { choice, otp } = castBallotSchema.parse(req.body);
+      const investorId = req.investor!.id;
 
-      // Use investor ID from session, NOT from request body
-      const reservationData = {
-        ...validatedData,
-        initiatorInvestorId: req.investor!.id
-      };
+      const voter = await storage.getGovernanceVoter(req.params.id, investorId);
+      if (!voter) {
+        return res.status(404).json({ message: "Proposal not found" });
+      }
 
-      // Use transactional storage method to ensure atomicity
-      const result = await storage.createReservationWithSlots(reservationData);
+      const verification = await verifyOtp("voting", `${voter.proposalId}:${investorId}:${choice}`, otp);
+      if (!verification.ok) {
+        const { status, message } = describeOtpFailure(verification);
+        return res.status(status).json({ message });
+      }
 
-      console.log(`Reservation created by ${req.investor!.email}: ${result.reservation.id} with ${result.slots.length} slots`);
+      const ipAddress = req.ip || req.socket.remoteAddress || null;
+      const userAgent = req.get("user-agent") || null;
+      const result = await storage.castGovernanceVote(voter.proposalId, investorId, choice, { ipAddress, userAgent });
+      if ("rejected" in result) {
+        return res.status(409).json({ message: result.rejected });
+      }
 
-      res.json({
-        success: true,
-        reservation: result.reservation,
-        slots: result.slots,
+      await storage.createAuditLogEntry({
+        eventType: "governance_vote_cast",
+        investorId,
+        propertyId: result.proposal.propertyId,
+        metadata: JSON.stringify({
+          proposalId: result.proposal.id,
+          voteId: result.vote.id,
+          choice,
+          sharePercentage: result.vote.sharePercentage,
+          ballotHash: result.vote.ballotHash,
+          outcome: result.outcome,
+        }),
+        ipAddress,
+        userAgent,
       });
+
+      if (result.outcome !== "open") {
+        await announceProposalOutcome(result.proposal);
+      }
+      res.json({ proposal: result.proposal, outcome: result.outcome });
     } catch (error: any) {
-      console.error("Reservation creation error:", error);
-      
-      // Handle Zod validation errors
       if (error.name === "ZodError") {
         return res.status(400).json({ 
           message: "Validation error", 
           errors: error.errors 
         });
       }
-      
-      // Handle database constraint violations
-      if (error.code === "23505") {
-        return res.status(409).json({ 
-          message: "An active reservation already exists for this property" 
-        });
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/governance/proposals/:id/resolution", requireInvestorAuth, async (req, res) => {
+    try {
+      const voter = await storage.getGovernanceVoter(req.params.id, req.investor!.id);
+      const proposal = voter ? await storage.getGovernanceProposalById(voter.proposalId) : undefined;
+      if (!proposal) {
+        return res.status(404).json({ message: "Proposal not found" });
       }
-      
+      sendResolution(proposal, res);
+    } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  // Get investor's reservations - requires authentication
-  app.get("/api/reservations/investor", requireInvestorAuth, async (req, res) => {
+  app.get("/api/payments/:paymentId/receipt", requireInvestorAuth, async (req, res) => {
     try {
-      // Use investor ID from session, NOT from URL params
-      const reservations = await storage.getReservationsByInvestor(req.investor!.id);
-      
-      res.json({ reservations });
+      const payment = await storage.getPaymentWithRefunds(req.params.paymentId);
+      if (!payment || payment.investorId !== req.investor!.id) {
+        return res.status(404).json({ message: "Payment not found" });
+      }
+      await sendPaymentReceipt(payment, res);
     } catch (error: any) {
+      console.error("Receipt download error:", error);
       res.status(500).json({ message: error.message });
     }
   });
 
-  // Get reservation details with slots and invitations
   app.get("/api/reservations/:reservationId", async (req, res) => {
     try {
       const { reservationId } = req.params;
@@ -1017,42 +4501,64 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Update reservation status
-  app.patch("/api/reservations/:reservationId/status", async (req, res) => {
+  // Move a reservation along its status flow - only the initiator, and only where the flow allows
+  app.patch("/api/reservations/:reservationId/status", requireInvestorAuth, async (req, res) => {
     try {
-      const { reservationId } = req.params;
-      const { status } = req.body;
+      const { status, reason } = changeReservationStatusSchema.parse(req.body);
 
-      if (!status) {
-        return res.status(400).json({ message: "Status is required" });
+      const reservation = await storage.getReservationById(req.params.reservationId);
+      if (!reservation) {
+        return res.status(404).json({ message: "Reservation not found" });
+      }
+      if (reservation.initiatorInvestorId !== req.investor!.id) {
+        return res.status(403).json({ message: "Forbidden: Only the reservation initiator can change its status" });
       }
 
-      const validStatuses = ["draft", "invitations_sent", "all_signed", "payment_pending", "payment_complete", "cancelled"];
-      if (!validStatuses.includes(status)) {
-        return res.status(400).json({ 
-          message: `Invalid status. Must be one of: ${validStatuses.join(", ")}` 
-        });
+      const changed = await changeReservationStatus(reservation, status, { investorId: req.investor!.id }, reason, req);
+      if ("rejected" in changed) {
+        return res.status(409).json({ message: changed.rejected });
       }
 
-      const reservation = await storage.updateReservationStatus(reservationId, status);
-      
-      console.log(`Reservation ${reservationId} status updated to: ${status}`);
-      
-      res.json({ success: true, reservation });
+      console.log(`Reservation ${reservation.id} moved from ${reservation.reservationStatus} to ${status} by ${req.investor!.email}`);
+
+      res.json({ success: true, ...changed });
     } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: error.errors 
+        });
+      }
       res.status(500).json({ message: error.message });
     }
   });
 
-  // Cancel reservation (cascade delete)
-  app.delete("/api/reservations/:reservationId", async (req, res) => {
+  // Cancel a reservation before any money has moved; the records are kept
+  app.delete("/api/reservations/:reservationId", requireInvestorAuth, async (req, res) => {
     try {
-      const { reservationId } = req.params;
-      
-      await storage.cancelReservation(reservationId);
-      
-      console.log(`Reservation ${reservationId} cancelled`);
-      
+      const reservation = await storage.getReservationById(req.params.reservationId);
+      if (!reservation) {
+        return res.status(404).json({ message: "Reservation not found" });
+      }
+      if (reservation.initiatorInvestorId !== req.investor!.id) {
+        return res.status(403).json({ message: "Forbidden: Only the reservation initiator can cancel it" });
+      }
+
+      // Money has moved - only the admin cancellation flow can refund it and keep the records
+      const payments = await storage.getReservationPayments(reservation.id);
+      if (payments.length > 0) {
+        return res.status(409).json({ 
+          message: "This reservation has payments. Contact support to cancel it and have them refunded." 
+        });
+      }
+
+      const changed = await changeReservationStatus(reservation, "cancelled", { investorId: req.investor!.id }, "Cancelled by the initiator", req);
+      if ("rejected" in changed) {
+        return res.status(409).json({ message: changed.rejected });
+      }
+
+      console.log(`Reservation ${reservation.id} cancelled by ${req.investor!.email}`);
+
       res.json({ success: true, message: "Reservation cancelled successfully" });
     } catch (error: any) {
       res.status(500).json({ message: error.message });
@@ -1103,11 +4609,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
         invitationsWithTokens,
         reservation.initiatorInvestorId
       );
+      if ("rejected" in createdInvitations) {
+        return res.status(409).json({ message: createdInvitations.rejected });
+      }
 
-      // Log invitation tokens for development
-      createdInvitations.forEach(inv => {
-        console.log(`Invitation created for ${inv.invitedEmail}: token=${inv.invitationToken}`);
-      });
+      // Email each invitee, in their own language if they already have an account
+      const property = await storage.getPropertyById(reservation.propertyId);
+      const slots = await storage.getSlotsByReservation(reservationId);
+      const baseUrl = getAppBaseUrl(req);
+
+      await Promise.all(createdInvitations.map(async (inv) => {
+        const invitee = await storage.getInvestorByEmail(inv.invitedEmail);
+        const slot = slots.find(s => s.id === inv.slotId);
+        await getMailer().sendTemplate(
+          inv.invitedEmail,
+          "co_owner_invitation",
+          invitee?.preferredLanguage || req.investor!.preferredLanguage,
+          {
+            inviterName: req.investor!.fullName,
+            propertyTitle: property?.title || "a Dubai property",
+            sharePercentage: slot ? Number(slot.sharePercentage).toString() : "",
+            invitationLink: `${baseUrl}/invitation/${inv.invitationToken}`,
+            expiresAt: inv.expiresAt,
+          }
+        );
+      }));
 
       console.log(`${createdInvitations.length} invitations sent for reservation ${reservationId}`);
 
@@ -1115,7 +4641,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         success: true,
         invitations: createdInvitations.map(inv => ({
           ...inv,
-          invitationLink: `${req.headers.origin}/invitation/${inv.invitationToken}`,
+          invitationLink: `${baseUrl}/invitation/${inv.invitationToken}`,
         })),
       });
     } catch (error: any) {
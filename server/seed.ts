@@ -1,7 +1,8 @@
 import { db } from "../db";
-import { properties, agreementTemplates } from "@shared/schema";
+import { properties, agreementTemplates, adminUsers, constructionMilestones, constructionStages } from "@shared/schema";
 import { eq } from "drizzle-orm";
 import crypto from "crypto";
+import { hashPassword } from "./lib/crypto";
 
 async function seed() {
   console.log("Seeding database...");
@@ -9,7 +10,7 @@ async function seed() {
   const existingProperty = await db.select().from(properties).where(eq(properties.isPilot, true));
   
   if (existingProperty.length === 0) {
-    await db.insert(properties).values({
+    const [pilot] = await db.insert(properties).values({
       title: "1BR JVC Apartment",
       location: "Jumeirah Village Circle, Dubai",
       totalPrice: "900000",
@@ -22,7 +23,8 @@ async function seed() {
       area: 650,
       isPilot: true,
       escrowIban: "AE07 0331 2345 6789 0123 456",
-    });
+    }).returning();
+    await db.insert(constructionMilestones).values(constructionStages.map(stage => ({ propertyId: pilot.id, stage })));
     console.log("✓ Pilot property created");
   } else {
     console.log("✓ Pilot property already exists");
@@ -237,6 +239,92 @@ Executed on: {CURRENT_DATE}`;
     console.log("✓ Agreement templates already exist");
   }
 
+  // Added with the secondary market, so databases seeded before it get it too
+  const [existingShareTransfer] = await db.select().from(agreementTemplates).where(eq(agreementTemplates.templateType, "share_transfer"));
+
+  if (!existingShareTransfer) {
+    const shareTransferContent = `SHARE TRANSFER AGREEMENT
+
+This Share Transfer Agreement is made on {CURRENT_DATE} between the Seller and the Buyer named below, under the Co-Ownership Agreement for the property described below.
+
+PROPERTY:
+Property: {PROPERTY_TITLE}
+Location: {PROPERTY_LOCATION}
+
+PARTIES:
+Seller: {SELLER_NAME} ({SELLER_EMAIL})
+Buyer: {BUYER_NAME} ({BUYER_EMAIL})
+
+TRANSFER:
+The Seller transfers to the Buyer their {SHARE_PERCENTAGE} co-ownership share of the property for {TRANSFER_PRICE}. The Buyer pays the price by bank transfer quoting reference {SETTLEMENT_REFERENCE}.
+
+The share, with all rights to rental income and all obligations for property expenses from the date of settlement, passes to the Buyer once FOPD confirms the payment has been received.
+
+CO-OWNERSHIP AGREEMENT:
+The Buyer accepts the Co-Ownership Agreement and the Power of Attorney in force for the property, and takes the Seller's place as a party to them.
+
+RIGHT OF FIRST REFUSAL:
+The Seller confirms the share was first offered to the other co-owners at the asking price, as the Co-Ownership Agreement requires.
+
+GOVERNING LAW:
+This agreement is governed by the laws of the Emirate of Dubai and the federal laws of the United Arab Emirates.`;
+
+    const shareTransferContentArabic = `اتفاقية نقل حصة
+
+أُبرمت اتفاقية نقل الحصة هذه بتاريخ {CURRENT_DATE} بين البائع والمشتري المذكورين أدناه، بموجب اتفاقية الملكية المشتركة للعقار الموصوف أدناه.
+
+العقار:
+العقار: {PROPERTY_TITLE}
+الموقع: {PROPERTY_LOCATION}
+
+الأطراف:
+البائع: {SELLER_NAME} ({SELLER_EMAIL})
+المشتري: {BUYER_NAME} ({BUYER_EMAIL})
+
+النقل:
+ينقل البائع إلى المشتري حصته في الملكية المشتركة للعقار البالغة {SHARE_PERCENTAGE} مقابل {TRANSFER_PRICE}. يدفع المشتري الثمن بتحويل بنكي مع ذكر المرجع {SETTLEMENT_REFERENCE}.
+
+تنتقل الحصة إلى المشتري، مع جميع الحقوق في الدخل الإيجاري وجميع الالتزامات المتعلقة بمصروفات العقار اعتباراً من تاريخ التسوية، بعد أن تؤكد FOPD استلام الدفعة.
+
+اتفاقية الملكية المشتركة:
+يقبل المشتري اتفاقية الملكية المشتركة والتوكيل الساريين على العقار، ويحل محل البائع طرفاً فيهما.
+
+حق الأولوية في الشراء:
+يؤكد البائع أن الحصة عُرضت أولاً على المالكين المشتركين الآخرين بالسعر المطلوب وفقاً لاتفاقية الملكية المشتركة.
+
+القانون الحاكم:
+تخضع هذه الاتفاقية لقوانين إمارة دبي والقوانين الاتحادية لدولة الإمارات العربية المتحدة.`;
+
+    await db.insert(agreementTemplates).values({
+      name: "Share Transfer Agreement",
+      templateType: "share_transfer",
+      content: shareTransferContent,
+      contentHash: crypto.createHash('sha256').update(shareTransferContent).digest('hex'),
+      contentArabic: shareTransferContentArabic,
+      contentHashArabic: crypto.createHash('sha256').update(shareTransferContentArabic).digest('hex'),
+      version: 1,
+      isActive: true,
+    });
+    console.log("✓ Share transfer agreement template created");
+  }
+
+  // First admin comes from the environment; never seed a default password
+  const existingAdmins = await db.select().from(adminUsers);
+
+  if (existingAdmins.length === 0 && process.env.ADMIN_EMAIL && process.env.ADMIN_PASSWORD) {
+    await db.insert(adminUsers).values({
+      email: process.env.ADMIN_EMAIL.toLowerCase(),
+      fullName: process.env.ADMIN_NAME || "FOPD Administrator",
+      passwordHash: hashPassword(process.env.ADMIN_PASSWORD),
+      role: "super_admin",
+    });
+    console.log(`✓ Admin user created: ${process.env.ADMIN_EMAIL}`);
+  } else if (existingAdmins.length === 0) {
+    console.log("! No admin user exists. Set ADMIN_EMAIL and ADMIN_PASSWORD, or run: npm run admin:create");
+  } else {
+    console.log("✓ Admin users already exist");
+  }
+
   console.log("Database seeded successfully!");
   process.exit(0);
 }
@@ -2,30 +2,304 @@ import { db } from "../db";
 import { 
   investors, fractions, properties, payments, adminUsers,
   agreementTemplates, signatureSessions, investorSignatures, signedDocuments, signatureAuditLog, dldExports,
-  propertyReservations, coOwnerSlots, coOwnerInvitations
+  propertyReservations, coOwnerSlots, coOwnerInvitations, propertyMedia,
+  paymentPlanInstalments, instalmentPayments, constructionMilestones, constructionUpdates, constructionStages,
+  paymentWebhookEvents, refunds, bankStatementImports, bankTransactions, paymentReceipts,
+  ledgerAccounts, journalEntries, journalLines, rentalDistributions, rentalPayouts,
+  propertyExpenses, expenseAllocations, expenseApprovals, ownerStatements, shareListings, shareOffers, shareTransfers,
+  governanceProposals, governanceVoters, governanceVotes, propertyExits, exitOffers, exitPayouts, reservationStatusHistory
 } from "@shared/schema";
 import type { 
   Investor, InsertInvestor, Fraction, InsertFraction, Property, InsertProperty, 
-  Payment, InsertPayment, AdminUser, AgreementTemplate, InsertAgreementTemplate,
-  SignatureSession, InvestorSignature, SignedDocument,
+  Payment, InsertPayment, AdminUser, InsertAdminUser, AgreementTemplate, InsertAgreementTemplate,
+  SignatureSession, InvestorSignature, SignedDocument, AuditLog, InsertAuditLog,
   PropertyReservation, InsertPropertyReservation, CoOwnerSlot, InsertCoOwnerSlot,
-  CoOwnerInvitation, InsertCoOwnerInvitation
+  CoOwnerInvitation, InsertCoOwnerInvitation, PropertyListQuery, PropertyMedia, InsertPropertyMedia,
+  PaymentPlanInstalment, InsertPaymentPlanInstalment, InstalmentPayment, InsertInstalmentPayment,
+  ConstructionMilestone, ConstructionStage, ConstructionUpdate, InsertConstructionUpdate,
+  PaymentWebhookEvent, Refund,
+  BankStatementImport, InsertBankStatementImport, BankTransaction, InsertBankTransaction, PaymentReceipt,
+  InvestorWithTotals, LedgerAccount, JournalEntry, InsertJournalEntry,
+  RentalDistribution, RentalPayout, RecordRentalIncomeInput,
+  PropertyExpense, ExpenseAllocation, ExpenseApproval, RecordExpenseInput, OwnerStatement,
+  ShareListing, ShareOffer, ShareTransfer, CreateShareListingInput, ShareOfferInput,
+  GovernanceProposal, GovernanceVoter, GovernanceVote, GovernanceCategory, GovernanceChoice, CreateGovernanceProposalInput,
+  PropertyExit, ExitOffer, ExitPayout, OpenPropertyExitInput, RecordExitOfferInput, CompletePropertyExitInput,
+  ReservationStatus, ReservationStatusChange
 } from "@shared/schema";
-import { eq, desc, and } from "drizzle-orm";
+import { listedPropertyStatuses, governanceCategoryLabels } from "@shared/schema";
+import { eq, desc, and, or, gte, lte, lt, ilike, inArray, isNull, sql, type SQL } from "drizzle-orm";
 import { randomUUID } from "crypto";
-import { encryptData, decryptData, generateHash, generateSecureToken, getServerTimestamp } from "./lib/crypto";
-import { generateSignedPDF, generateDocumentFilename } from "./lib/pdf-generator";
+import { encryptData, decryptData, generateHash, generateSecureToken, getServerTimestamp, hashPassword } from "./lib/crypto";
+import { generateSignedPDF, generateAggregatedPDF, generateDocumentFilename, generateReceiptPDF, generateOwnerStatementPDF, generateResolutionPDF, generateExitStatementPDF } from "./lib/pdf-generator";
+import { buildSlotSchedule, calculateSlotAmount, type InstalmentDue } from "./lib/payment-schedule";
+import { generateTransferReference } from "./lib/bank-statements";
+import { unpaidChargeStatuses } from "./lib/payment-provider";
+import {
+  assertBalanced, accountBalance, allocateByShare, toCents, LedgerError,
+  capitalReceivedLines, capitalRefundedLines, rentalDistributionLines, rentalPayoutLines, expenseChargedLines, expensePaidLines,
+  shareTransferLines, propertyExitLines, exitPayoutLines,
+  type JournalLineSpec, type LedgerAccountSpec
+} from "./lib/ledger";
+import { approvalsRequiredFor, expenseOutcome, type ExpenseOutcome } from "./lib/expenses";
+import { summarizeStatement, buildStatementCSV, type StatementActivity, type StatementPeriod } from "./lib/owner-statements";
+import { rofrEndsAt, listingPhase, fillShareTransferPlaceholders, type ListingPhase } from "./lib/secondary-market";
+import {
+  getDefaultQuorum, getDefaultThreshold, deadlineProblem, proposalOutcome, ballotHash, isBallotChainIntact,
+  type ProposalOutcome
+} from "./lib/governance";
+import { allocateExitProceeds, exitCostsProblem } from "./lib/property-exit";
+import { reservationTransitionProblem, openReservationStatuses, type ReservationGuardFacts } from "./lib/reservation-status";
 import { promises as fs } from "fs";
 import path from "path";
 
+export interface PropertyListResult {
+  properties: Property[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+export interface ReservationWithDetails extends PropertyReservation {
+  property: Property;
+  slots: Array<CoOwnerSlot & { investorName?: string }>;
+}
+
+export interface PropertyInstalmentDue extends InstalmentDue {
+  investorId: string | null;
+  investorName: string | null;
+  slotNumber: number;
+}
+
+export interface ChargeWebhook {
+  provider: string;
+  chargeId: string;
+  status: string;
+  amount: number;
+  paymentMethod: string | null;
+  investorId: string | null; // Only set when the investor exists
+  propertyId: string | null; // Only set when the property exists
+  slotId: string | null; // Reservation slot the charge pays for
+  payload: string;
+}
+
+export interface PaymentWithRefunds extends Payment {
+  investorName: string;
+  propertyId: string;
+  propertyTitle: string;
+  slotId: string | null;
+  sharePercentage: string | null;
+  receiptNumber: string | null; // Set once a receipt has been issued
+  refunds: Refund[];
+}
+
+export interface RefundReversal {
+  refund: Refund;
+  payment: Payment;
+  fractionReleased: boolean; // True once the payment is fully refunded and the share is given back
+}
+
+// A co-owner slot paid (or to be paid) by bank transfer, with the amount it should receive
+export interface BankTransferSlot {
+  slotId: string;
+  transferReference: string;
+  investorId: string | null;
+  investorName: string | null;
+  propertyId: string;
+  propertyTitle: string;
+  escrowIban: string | null;
+  sharePercentage: string;
+  amount: string;
+  paymentStatus: string;
+  reservationStatus: string;
+}
+
+export interface BankTransactionWithMatch extends BankTransaction {
+  investorName: string | null;
+  propertyTitle: string | null;
+  transferReference: string | null;
+}
+
+export interface InvalidatedDealRecords {
+  signatures: number;
+  documents: number;
+  sessions: number;
+}
+
+export interface TrialBalanceRow {
+  account: LedgerAccount;
+  debits: string;
+  credits: string;
+  balance: string; // On the account's normal side
+}
+
+export interface AccountStatementLine {
+  entry: JournalEntry;
+  debit: string;
+  credit: string;
+  runningBalance: string;
+}
+
+// A co-owner holding a paid share of a property
+export interface PropertyOwner {
+  investorId: string;
+  investorName: string;
+  slotId: string;
+  reservationId: string;
+  sharePercentage: string;
+}
+
+export interface RentalDistributionWithPayouts extends RentalDistribution {
+  payouts: Array<RentalPayout & { investorName: string }>;
+}
+
+export interface InvestorRentalPayout extends RentalPayout {
+  propertyId: string;
+  propertyTitle: string;
+  periodStart: Date;
+  periodEnd: Date;
+}
+
+// Rent earned on an investor's current share of a property against what the share cost
+export interface RentalYield {
+  propertyId: string;
+  propertyTitle: string;
+  sharePercentage: string;
+  costBasis: string;
+  distributed: string;
+  yieldToDate: string; // Percent of the cost basis
+}
+
+export interface PropertyExpenseWithDetails extends PropertyExpense {
+  allocations: Array<ExpenseAllocation & { investorName: string }>;
+  approvals: Array<ExpenseApproval & { investorName: string }>;
+}
+
+// An expense as seen by a co-owner it is charged to
+export interface InvestorExpense extends PropertyExpense {
+  propertyTitle: string;
+  sharePercentage: string;
+  shareAmount: string;
+  coOwnerCount: number;
+  approvals: number;
+  rejections: number;
+  myDecision: string | null;
+}
+
+export interface OwnerStatementWithProperty extends OwnerStatement {
+  propertyTitle: string;
+}
+
+// A listed share as seen by an investor who may buy it
+export interface MarketShareListing extends ShareListing {
+  propertyTitle: string;
+  propertyLocation: string;
+  phase: ListingPhase;
+  isCoOwner: boolean; // The viewer co-owns the property, so holds the right of first refusal
+  myOffer: ShareOffer | null; // The viewer's pending offer
+}
+
+// A listing as seen by its seller
+export interface SellerShareListing extends ShareListing {
+  propertyTitle: string;
+  phase: ListingPhase;
+  offers: Array<ShareOffer & { buyerName: string }>;
+}
+
+export interface InvestorShareOffer extends ShareOffer {
+  propertyTitle: string;
+  sharePercentage: string;
+  askingPrice: string;
+  listingStatus: string;
+}
+
+export interface ShareTransferWithDetails extends ShareTransfer {
+  propertyTitle: string;
+  sellerName: string;
+  buyerName: string;
+  signedInvestorIds: string[]; // Parties who have signed the transfer agreement
+}
+
+// A co-owner's vote on a proposal as shown to co-owners; choice is null until they vote
+export interface GovernanceBallot {
+  investorId: string;
+  investorName: string;
+  sharePercentage: string;
+  choice: string | null;
+  castAt: Date | null;
+  ballotHash: string | null;
+}
+
+export interface GovernanceProposalWithDetails extends GovernanceProposal {
+  propertyTitle: string;
+  proposedByName: string | null;
+  ballots: GovernanceBallot[]; // Every co-owner entitled to vote
+  votes: GovernanceVote[]; // Full ballot records, including where they were cast from
+  chainIntact: boolean; // Every ballot still matches its hash and links to the one before
+}
+
+export interface PropertyExitWithDetails extends PropertyExit {
+  propertyTitle: string;
+  proposalTitle: string;
+  offers: ExitOffer[];
+  payouts: Array<ExitPayout & { investorName: string }>;
+}
+
+export interface InvestorExitPayout extends ExitPayout {
+  propertyId: string;
+  propertyTitle: string;
+  salePrice: string | null;
+  completedAt: Date | null;
+}
+
+// Who changed a reservation's status; neither is set when a payment, refund or exit moved it
+export interface ReservationStatusActor {
+  investorId?: string;
+  adminUserId?: string;
+}
+
+export interface ReservationStatusChangeWithActor extends ReservationStatusChange {
+  changedByName: string | null;
+}
+
+export interface AbandonedReservation {
+  reservation: PropertyReservation;
+  previousStatus: string;
+  investorIds: string[]; // Co-owners holding its slots, whose deal signatures lapse with it
+}
+
+// A money-moving payment against a reservation slot, from a card charge or a bank transfer
+interface SlotPaymentInput {
+  investorId: string;
+  propertyId: string;
+  slotId: string | null;
+  amount: number;
+  paymentMethod: string;
+  chargeId: string | null; // Card charge ID; null for bank transfers
+  acceptShortfall?: boolean; // Set when an admin matches a transfer below the share price
+}
+
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+/**
+ * Fractions sold for a reservation's paid share; only a fully paid reservation sells the last one
+ */
+function fractionsSoldForShare(totalFractions: number, paidShare: number, allPaid: boolean): number {
+  if (allPaid) {
+    return totalFractions;
+  }
+  return Math.min(totalFractions - 1, Math.round(paidShare * totalFractions / 100));
+}
+
 export interface IStorage {
   createInvestor(investor: InsertInvestor): Promise<Investor>;
   getInvestorByEmail(email: string): Promise<Investor | undefined>;
   getInvestorById(id: string): Promise<Investor | undefined>;
   getAllInvestors(): Promise<Investor[]>;
   updateInvestorKYCStatus(id: string, status: string): Promise<Investor>;
-  updateInvestorAfterPurchase(id: string, fractionsPurchased: number, totalInvested: string): Promise<Investor>;
+  updateInvestorAfterPurchase(id: string, fractionsPurchased: number): Promise<Investor>;
   updateInvestorDocuments(id: string, documents: Partial<Investor>): Promise<Investor>;
+  updateInvestorPreferences(id: string, preferences: { preferredLanguage?: string; otpChannel?: string }): Promise<Investor>;
   
   createFraction(fraction: InsertFraction): Promise<Fraction>;
   getFractionsByInvestor(investorId: string): Promise<Fraction[]>;
@@ -33,13 +307,171 @@ export interface IStorage {
   createProperty(property: InsertProperty): Promise<Property>;
   getPropertyById(id: string): Promise<Property | undefined>;
   getPilotProperty(): Promise<Property | undefined>;
+  getPropertyByEscrowIban(iban: string): Promise<Property | undefined>;
+  listProperties(filters: PropertyListQuery): Promise<PropertyListResult>;
+  getAllProperties(): Promise<Property[]>;
+  updateProperty(id: string, updates: Partial<InsertProperty>): Promise<Property | undefined>;
   updatePropertyFractionsSold(id: string, count: number): Promise<Property>;
+
+  getPropertyMedia(propertyId: string): Promise<PropertyMedia[]>;
+  getPropertyMediaById(id: string): Promise<PropertyMedia | undefined>;
+  createPropertyMedia(media: InsertPropertyMedia): Promise<PropertyMedia>;
+  updatePropertyMedia(id: string, updates: { caption?: string | null; captionArabic?: string | null }): Promise<PropertyMedia | undefined>;
+  reorderPropertyMedia(propertyId: string, mediaIds: string[]): Promise<PropertyMedia[]>;
+  deletePropertyMedia(id: string): Promise<PropertyMedia | undefined>;
+
+  getPaymentPlan(propertyId: string): Promise<PaymentPlanInstalment[]>;
+  getPaymentPlanInstalmentById(id: string): Promise<PaymentPlanInstalment | undefined>;
+  replacePaymentPlan(propertyId: string, instalments: Omit<InsertPaymentPlanInstalment, "propertyId">[]): Promise<PaymentPlanInstalment[]>;
+  triggerMilestoneInstalment(id: string, triggeredAt: Date): Promise<PaymentPlanInstalment | undefined>;
+  getInstalmentPaymentsByProperty(propertyId: string): Promise<InstalmentPayment[]>;
+  createInstalmentPayment(payment: InsertInstalmentPayment): Promise<InstalmentPayment>;
+  getInvestorInstalmentSchedule(investorId: string): Promise<InstalmentDue[]>;
+  getPropertyInstalmentSchedule(propertyId: string): Promise<PropertyInstalmentDue[]>;
+
+  getConstructionMilestones(propertyId: string): Promise<ConstructionMilestone[]>;
+  getConstructionMilestone(propertyId: string, stage: ConstructionStage): Promise<ConstructionMilestone | undefined>;
+  backfillConstructionMilestones(): Promise<{ properties: number; stages: number }>;
+  addConstructionUpdate(
+    milestoneId: string,
+    update: Omit<InsertConstructionUpdate, "milestoneId">,
+    expectedCompletionDate?: Date | null
+  ): Promise<{ milestone: ConstructionMilestone; update: ConstructionUpdate }>;
+  getConstructionUpdates(milestoneIds: string[]): Promise<ConstructionUpdate[]>;
+  getMilestonePhotos(milestoneIds: string[]): Promise<PropertyMedia[]>;
+  setMilestoneCertificate(id: string, certificatePath: string, certificateFilename: string): Promise<ConstructionMilestone | undefined>;
   
   createPayment(payment: InsertPayment): Promise<Payment>;
   getPaymentsByInvestor(investorId: string): Promise<Payment[]>;
+  processChargeWebhook(webhook: ChargeWebhook): Promise<{ event: PaymentWebhookEvent; duplicate: boolean }>;
+  getPaymentWithRefunds(id: string): Promise<PaymentWithRefunds | undefined>;
+  getPropertyPayments(propertyId: string): Promise<PaymentWithRefunds[]>;
+  getReservationPayments(reservationId: string): Promise<PaymentWithRefunds[]>;
+  getInvestorPayments(investorId: string): Promise<PaymentWithRefunds[]>;
+  getPaymentReceipt(paymentId: string): Promise<PaymentReceipt | undefined>;
+  issuePaymentReceipt(paymentId: string): Promise<PaymentReceipt>;
+  requestRefund(paymentId: string, amount: number | null, reason: string, requestedBy: string | null): Promise<Refund | { rejected: string }>;
+  failRefund(id: string, failureReason: string): Promise<Refund>;
+  completeRefund(id: string, providerRefundId: string | null): Promise<RefundReversal>;
+  invalidateDealSignatures(reservationId: string, propertyId: string, investorIds: string[], reason: string): Promise<InvalidatedDealRecords>;
+  
+  getTrialBalance(): Promise<TrialBalanceRow[]>;
+  getLedgerAccountById(id: string): Promise<LedgerAccount | undefined>;
+  getAccountStatement(accountId: string): Promise<AccountStatementLine[]>;
+  getInvestedTotals(investorIds: string[]): Promise<Map<string, string>>;
+  withInvestedTotals(investorList: Investor[]): Promise<InvestorWithTotals[]>;
+  backfillLedger(): Promise<{ posted: number; skipped: number }>;
+
+  getPropertyOwners(propertyId: string): Promise<PropertyOwner[]>;
+  recordRentalDistribution(
+    propertyId: string,
+    income: RecordRentalIncomeInput,
+    recordedBy: string
+  ): Promise<RentalDistributionWithPayouts | { rejected: string }>;
+  getRentalDistributions(propertyId: string): Promise<RentalDistributionWithPayouts[]>;
+  getRentalPayoutById(id: string): Promise<RentalPayout | undefined>;
+  markRentalPayoutPaid(id: string, paymentReference: string, paidBy: string): Promise<RentalPayout | undefined>;
+  getInvestorRentalPayouts(investorId: string): Promise<InvestorRentalPayout[]>;
+  getInvestorRentalYields(investorId: string): Promise<RentalYield[]>;
+
+  recordPropertyExpense(
+    propertyId: string,
+    expense: RecordExpenseInput,
+    invoice: { path: string; filename: string } | null,
+    recordedBy: string
+  ): Promise<PropertyExpenseWithDetails | { rejected: string }>;
+  getPropertyExpenses(propertyId: string): Promise<PropertyExpenseWithDetails[]>;
+  getPropertyExpenseWithDetails(id: string): Promise<PropertyExpenseWithDetails | undefined>;
+  decideExpense(
+    id: string,
+    investorId: string,
+    decision: "approved" | "rejected",
+    comment: string | null
+  ): Promise<{ expense: PropertyExpense; outcome: ExpenseOutcome } | { rejected: string }>;
+  markExpensePaid(id: string, paymentReference: string, paidBy: string): Promise<PropertyExpense | undefined>;
+  getInvestorExpenses(investorId: string): Promise<InvestorExpense[]>;
+
+  getOwnerStatementActivity(investorId: string, propertyId: string): Promise<StatementActivity[]>;
+  getStatementRecipients(period: Pick<StatementPeriod, "periodStart" | "endsBefore">): Promise<Array<{ investorId: string; propertyId: string }>>;
+  issueOwnerStatement(investorId: string, propertyId: string, period: StatementPeriod, trigger: "schedule" | "on_demand"): Promise<OwnerStatement>;
+  getOwnerStatementById(id: string): Promise<OwnerStatement | undefined>;
+  getInvestorOwnerStatements(investorId: string): Promise<OwnerStatementWithProperty[]>;
+
+  getInvestorHoldings(investorId: string): Promise<Array<PropertyOwner & { propertyId: string; propertyTitle: string }>>;
+  createShareListing(sellerInvestorId: string, input: CreateShareListingInput): Promise<ShareListing | { rejected: string }>;
+  getMarketShareListings(investorId: string, verified: boolean): Promise<MarketShareListing[]>;
+  getShareListingById(id: string): Promise<ShareListing | undefined>;
+  getSellerShareListings(sellerInvestorId: string): Promise<SellerShareListing[]>;
+  withdrawShareListing(id: string, sellerInvestorId: string): Promise<ShareListing | { rejected: string }>;
+  makeShareOffer(listingId: string, buyerInvestorId: string, input: ShareOfferInput): Promise<ShareOffer | { rejected: string }>;
+  exerciseRightOfFirstRefusal(listingId: string, buyerInvestorId: string): Promise<ShareTransfer | { rejected: string }>;
+  acceptShareOffer(offerId: string, sellerInvestorId: string): Promise<ShareTransfer | { rejected: string }>;
+  rejectShareOffer(offerId: string, sellerInvestorId: string): Promise<ShareOffer | { rejected: string }>;
+  withdrawShareOffer(offerId: string, buyerInvestorId: string): Promise<ShareOffer | { rejected: string }>;
+  getInvestorShareOffers(buyerInvestorId: string): Promise<InvestorShareOffer[]>;
+  getShareTransferById(id: string): Promise<ShareTransfer | undefined>;
+  getShareTransfers(status?: string): Promise<ShareTransferWithDetails[]>;
+  getInvestorShareTransfers(investorId: string): Promise<ShareTransferWithDetails[]>;
+  recordShareTransferSignature(transferId: string): Promise<ShareTransfer>;
+  settleShareTransfer(id: string, paymentReference: string, settledBy: string): Promise<ShareTransfer | { rejected: string }>;
+  cancelShareTransfer(id: string, reason: string): Promise<ShareTransfer | { rejected: string }>;
+
+  createGovernanceProposal(
+    input: CreateGovernanceProposalInput,
+    proposer: { investorId: string } | { adminId: string }
+  ): Promise<GovernanceProposal | { rejected: string }>;
+  getGovernanceProposalById(id: string): Promise<GovernanceProposal | undefined>;
+  getGovernanceProposals(propertyId?: string): Promise<GovernanceProposalWithDetails[]>;
+  getGovernanceProposalWithDetails(id: string): Promise<GovernanceProposalWithDetails | undefined>;
+  getInvestorGovernanceProposals(investorId: string): Promise<GovernanceProposalWithDetails[]>;
+  getGovernanceVoter(proposalId: string, investorId: string): Promise<GovernanceVoter | undefined>;
+  castGovernanceVote(
+    proposalId: string,
+    investorId: string,
+    choice: GovernanceChoice,
+    connection: { ipAddress: string | null; userAgent: string | null }
+  ): Promise<{ proposal: GovernanceProposal; vote: GovernanceVote; outcome: ProposalOutcome } | { rejected: string }>;
+  closeDueGovernanceProposals(now?: Date): Promise<GovernanceProposal[]>;
+  cancelGovernanceProposal(id: string, reason: string): Promise<GovernanceProposal | { rejected: string }>;
+
+  // Whole-property exit
+  openPropertyExit(propertyId: string, input: OpenPropertyExitInput, createdBy: string): Promise<PropertyExit | { rejected: string }>;
+  getPropertyExitById(id: string): Promise<PropertyExit | undefined>;
+  getPropertyExits(): Promise<PropertyExitWithDetails[]>;
+  recordExitOffer(exitId: string, input: RecordExitOfferInput, recordedBy: string): Promise<ExitOffer | { rejected: string }>;
+  getExitOfferById(id: string): Promise<ExitOffer | undefined>;
+  acceptExitOffer(offerId: string): Promise<PropertyExit | { rejected: string }>;
+  rejectExitOffer(offerId: string): Promise<ExitOffer | { rejected: string }>;
+  withdrawPropertyExit(id: string, reason: string): Promise<PropertyExit | { rejected: string }>;
+  completePropertyExit(
+    id: string,
+    input: CompletePropertyExitInput,
+    completedBy: string
+  ): Promise<PropertyExitWithDetails | { rejected: string }>;
+  getExitPayoutById(id: string): Promise<ExitPayout | undefined>;
+  markExitPayoutPaid(id: string, paymentReference: string, paidBy: string): Promise<ExitPayout | undefined>;
+  getInvestorExitPayouts(investorId: string): Promise<InvestorExitPayout[]>;
+  
+  getOrCreateTransferReference(slotId: string): Promise<CoOwnerSlot>;
+  getBankTransferSlotByReference(reference: string): Promise<BankTransferSlot | undefined>;
+  getAwaitingBankTransfers(): Promise<BankTransferSlot[]>;
+  importBankStatement(
+    statementImport: InsertBankStatementImport,
+    transactions: Omit<InsertBankTransaction, "importId">[]
+  ): Promise<{ statementImport: BankStatementImport; transactions: BankTransaction[]; duplicates: number }>;
+  getBankTransactions(status?: string): Promise<BankTransactionWithMatch[]>;
+  getBankTransactionById(id: string): Promise<BankTransaction | undefined>;
+  matchBankTransaction(id: string, slotId: string, matchedBy: string, shortfallNote?: string): Promise<{ transaction: BankTransaction; payment: Payment } | { rejected: string }>;
+  setBankTransactionNote(id: string, note: string): Promise<BankTransaction>;
+  ignoreBankTransaction(id: string, note: string): Promise<BankTransaction | undefined>;
   updatePaymentStatus(id: string, status: string, tapChargeId?: string): Promise<Payment>;
   
   getAdminUserByEmail(email: string): Promise<AdminUser | undefined>;
+  getAdminUserById(id: string): Promise<AdminUser | undefined>;
+  getAllAdminUsers(): Promise<AdminUser[]>;
+  createAdminUser(admin: InsertAdminUser): Promise<AdminUser>;
+  updateAdminUser(id: string, updates: { role?: string; isActive?: boolean }): Promise<AdminUser>;
+  recordAdminLogin(id: string): Promise<AdminUser>;
   
   getAllTemplates(): Promise<AgreementTemplate[]>;
   getTemplateById(id: string): Promise<AgreementTemplate | undefined>;
@@ -49,13 +481,15 @@ export interface IStorage {
   createSignatureSession(data: any): Promise<SignatureSession>;
   verifySignatureSession(sessionToken: string, otp: string): Promise<SignatureSession | null>;
   getSessionByToken(sessionToken: string): Promise<SignatureSession | null>;
-  checkDuplicateSignature(investorId: string, templateId: string, propertyId: string): Promise<InvestorSignature | null>;
+  checkDuplicateSignature(investorId: string, templateId: string, propertyId: string, shareTransferId?: string): Promise<InvestorSignature | null>;
   saveSignature(data: any): Promise<InvestorSignature>;
   saveInvestorSignature(data: any): Promise<InvestorSignature>;
   getInvestorSignatures(investorId: string): Promise<InvestorSignature[]>;
   getPropertySignatureStatus(propertyId: string): Promise<any>;
+  createAuditLogEntry(entry: InsertAuditLog): Promise<AuditLog>;
   
   getSignedDocuments(propertyId: string): Promise<SignedDocument[]>;
+  isPropertyParticipant(investorId: string, propertyId: string): Promise<boolean>;
   getSignedDocumentById(id: string): Promise<SignedDocument | undefined>;
   generateSignedDocument(propertyId: string, documentType: string, investorId: string, language?: "en" | "ar"): Promise<SignedDocument>;
   
@@ -65,12 +499,23 @@ export interface IStorage {
   createReservation(data: InsertPropertyReservation): Promise<PropertyReservation>;
   getReservationById(id: string): Promise<PropertyReservation | undefined>;
   getReservationsByInvestor(investorId: string): Promise<PropertyReservation[]>;
+  getInvestorReservationsWithDetails(investorId: string): Promise<ReservationWithDetails[]>;
   getReservationsByProperty(propertyId: string): Promise<PropertyReservation[]>;
-  updateReservationStatus(id: string, status: string): Promise<PropertyReservation>;
-  cancelReservation(id: string): Promise<void>;
+  changeReservationStatus(
+    id: string,
+    status: ReservationStatus,
+    actor: ReservationStatusActor,
+    reason?: string
+  ): Promise<PropertyReservation | { rejected: string }>;
+  getReservationStatusHistory(reservationId: string): Promise<ReservationStatusChangeWithActor[]>;
+  expireInvitationsAndSessions(now?: Date): Promise<{ invitations: number; sessions: number }>;
+  cancelAbandonedReservations(inactiveSince: Date, paymentLapsedSince: Date, reason: string): Promise<AbandonedReservation[]>;
   
   createSlots(reservationId: string, slots: InsertCoOwnerSlot[]): Promise<CoOwnerSlot[]>;
   getSlotsByReservation(reservationId: string): Promise<CoOwnerSlot[]>;
+  getSlotById(slotId: string): Promise<CoOwnerSlot | undefined>;
+  startSlotPayment(slotId: string): Promise<CoOwnerSlot | { rejected: string }>;
+  revertSlotPayment(slotId: string, paymentStatus: string): Promise<CoOwnerSlot | undefined>;
   updateSlotInvestor(slotId: string, investorId: string): Promise<CoOwnerSlot>;
   updateSlotStatus(slotId: string, status: string): Promise<CoOwnerSlot>;
   
@@ -107,100 +552,3482 @@ export interface IStorage {
       expiresAt: Date;
     }>,
     initiatorInvestorId: string
-  ): Promise<CoOwnerInvitation[]>;
+  ): Promise<CoOwnerInvitation[] | { rejected: string }>;
 }
 
-export class DbStorage implements IStorage {
-  async createInvestor(insertInvestor: InsertInvestor): Promise<Investor> {
-    const [investor] = await db.insert(investors).values(insertInvestor).returning();
-    return investor;
+export class DbStorage implements IStorage {
+  async createInvestor(insertInvestor: InsertInvestor): Promise<Investor> {
+    const [investor] = await db.insert(investors).values(insertInvestor).returning();
+    return investor;
+  }
+
+  async getInvestorByEmail(email: string): Promise<Investor | undefined> {
+    const [investor] = await db.select().from(investors).where(eq(investors.email, email));
+    return investor;
+  }
+
+  async getInvestorById(id: string): Promise<Investor | undefined> {
+    const [investor] = await db.select().from(investors).where(eq(investors.id, id));
+    return investor;
+  }
+
+  async getAllInvestors(): Promise<Investor[]> {
+    return await db.select().from(investors).orderBy(desc(investors.createdAt));
+  }
+
+  async updateInvestorKYCStatus(id: string, status: string): Promise<Investor> {
+    const [investor] = await db
+      .update(investors)
+      .set({ kycStatus: status })
+      .where(eq(investors.id, id))
+      .returning();
+    return investor;
+  }
+
+  async updateInvestorAfterPurchase(id: string, fractionsPurchased: number): Promise<Investor> {
+    const [investor] = await db
+      .update(investors)
+      .set({ 
+        fractionsPurchased,
+        paymentStatus: "completed"
+      })
+      .where(eq(investors.id, id))
+      .returning();
+    return investor;
+  }
+
+  async updateInvestorDocuments(id: string, documents: Partial<Investor>): Promise<Investor> {
+    const [investor] = await db
+      .update(investors)
+      .set(documents)
+      .where(eq(investors.id, id))
+      .returning();
+    return investor;
+  }
+
+  async updateInvestorPreferences(id: string, preferences: { preferredLanguage?: string; otpChannel?: string }): Promise<Investor> {
+    const [investor] = await db
+      .update(investors)
+      .set(preferences)
+      .where(eq(investors.id, id))
+      .returning();
+    return investor;
+  }
+
+  async createFraction(insertFraction: InsertFraction): Promise<Fraction> {
+    const [fraction] = await db.insert(fractions).values(insertFraction).returning();
+    return fraction;
+  }
+
+  async getFractionsByInvestor(investorId: string): Promise<Fraction[]> {
+    return await db.select().from(fractions).where(eq(fractions.investorId, investorId));
+  }
+
+  async createProperty(insertProperty: InsertProperty): Promise<Property> {
+    return await db.transaction(async (tx) => {
+      const [property] = await tx.insert(properties).values(insertProperty).returning();
+      // Every property tracks the same construction stages
+      await tx
+        .insert(constructionMilestones)
+        .values(constructionStages.map(stage => ({ propertyId: property.id, stage })));
+      return property;
+    });
+  }
+
+  async getPropertyById(id: string): Promise<Property | undefined> {
+    const [property] = await db.select().from(properties).where(eq(properties.id, id));
+    return property;
+  }
+
+  async getPropertyByEscrowIban(iban: string): Promise<Property | undefined> {
+    // IBANs are stored as entered, so spacing and case are ignored on both sides
+    const [property] = await db
+      .select()
+      .from(properties)
+      .where(sql`upper(replace(${properties.escrowIban}, ' ', '')) = ${iban.replace(/\s+/g, "").toUpperCase()}`)
+      .limit(1);
+    return property;
+  }
+
+  async getPilotProperty(): Promise<Property | undefined> {
+    const [property] = await db.select().from(properties).where(eq(properties.isPilot, true));
+    return property;
+  }
+
+  async listProperties(filters: PropertyListQuery): Promise<PropertyListResult> {
+    const conditions: SQL[] = [inArray(properties.status, [...listedPropertyStatuses])];
+
+    if (filters.location) {
+      conditions.push(ilike(properties.location, `%${filters.location}%`));
+    }
+    if (filters.minPrice !== undefined) {
+      conditions.push(gte(properties.totalPrice, filters.minPrice.toString()));
+    }
+    if (filters.maxPrice !== undefined) {
+      conditions.push(lte(properties.totalPrice, filters.maxPrice.toString()));
+    }
+    if (filters.bedrooms !== undefined) {
+      conditions.push(eq(properties.bedrooms, filters.bedrooms));
+    }
+    if (filters.fundingStatus === "available") {
+      conditions.push(lt(properties.fractionsSold, properties.totalFractions));
+    } else if (filters.fundingStatus === "fully_funded") {
+      conditions.push(gte(properties.fractionsSold, properties.totalFractions));
+    }
+
+    const where = and(...conditions);
+
+    const [{ count }] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(properties)
+      .where(where);
+
+    // Pilot first, then newest listings
+    const rows = await db
+      .select()
+      .from(properties)
+      .where(where)
+      .orderBy(desc(properties.isPilot), desc(properties.createdAt))
+      .limit(filters.pageSize)
+      .offset((filters.page - 1) * filters.pageSize);
+
+    return { properties: rows, total: count, page: filters.page, pageSize: filters.pageSize };
+  }
+
+  async getAllProperties(): Promise<Property[]> {
+    return await db.select().from(properties).orderBy(desc(properties.createdAt));
+  }
+
+  async updateProperty(id: string, updates: Partial<InsertProperty>): Promise<Property | undefined> {
+    const [property] = await db
+      .update(properties)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(properties.id, id))
+      .returning();
+    return property;
+  }
+
+  async updatePropertyFractionsSold(id: string, count: number): Promise<Property> {
+    const [property] = await db
+      .update(properties)
+      .set({
+        fractionsSold: count,
+        // Selling the last fraction closes the listing
+        status: sql`CASE WHEN ${count} >= ${properties.totalFractions} AND ${properties.status} = 'published' THEN 'fully_funded' ELSE ${properties.status} END`,
+        updatedAt: new Date(),
+      })
+      .where(eq(properties.id, id))
+      .returning();
+    return property;
+  }
+
+  async getPropertyMedia(propertyId: string): Promise<PropertyMedia[]> {
+    return await db
+      .select()
+      .from(propertyMedia)
+      .where(and(eq(propertyMedia.propertyId, propertyId), isNull(propertyMedia.milestoneId)))
+      .orderBy(propertyMedia.sortOrder, propertyMedia.createdAt);
+  }
+
+  async getPropertyMediaById(id: string): Promise<PropertyMedia | undefined> {
+    const [media] = await db.select().from(propertyMedia).where(eq(propertyMedia.id, id));
+    return media;
+  }
+
+  async createPropertyMedia(media: InsertPropertyMedia): Promise<PropertyMedia> {
+    // New items go to the end of the gallery
+    const [{ nextOrder }] = await db
+      .select({ nextOrder: sql<number>`coalesce(max(${propertyMedia.sortOrder}), -1)::int + 1` })
+      .from(propertyMedia)
+      .where(eq(propertyMedia.propertyId, media.propertyId));
+
+    const [created] = await db
+      .insert(propertyMedia)
+      .values({ ...media, sortOrder: nextOrder })
+      .returning();
+    return created;
+  }
+
+  async updatePropertyMedia(id: string, updates: { caption?: string | null; captionArabic?: string | null }): Promise<PropertyMedia | undefined> {
+    const [media] = await db
+      .update(propertyMedia)
+      .set(updates)
+      .where(eq(propertyMedia.id, id))
+      .returning();
+    return media;
+  }
+
+  async reorderPropertyMedia(propertyId: string, mediaIds: string[]): Promise<PropertyMedia[]> {
+    await db.transaction(async (tx) => {
+      for (let index = 0; index < mediaIds.length; index++) {
+        await tx
+          .update(propertyMedia)
+          .set({ sortOrder: index })
+          .where(and(eq(propertyMedia.id, mediaIds[index]), eq(propertyMedia.propertyId, propertyId)));
+      }
+    });
+    return this.getPropertyMedia(propertyId);
+  }
+
+  async deletePropertyMedia(id: string): Promise<PropertyMedia | undefined> {
+    const [media] = await db.delete(propertyMedia).where(eq(propertyMedia.id, id)).returning();
+    return media;
+  }
+
+  async getPaymentPlan(propertyId: string): Promise<PaymentPlanInstalment[]> {
+    return await db
+      .select()
+      .from(paymentPlanInstalments)
+      .where(eq(paymentPlanInstalments.propertyId, propertyId))
+      .orderBy(paymentPlanInstalments.sequence);
+  }
+
+  async getPaymentPlanInstalmentById(id: string): Promise<PaymentPlanInstalment | undefined> {
+    const [instalment] = await db.select().from(paymentPlanInstalments).where(eq(paymentPlanInstalments.id, id));
+    return instalment;
+  }
+
+  async replacePaymentPlan(
+    propertyId: string,
+    instalments: Omit<InsertPaymentPlanInstalment, "propertyId">[]
+  ): Promise<PaymentPlanInstalment[]> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(paymentPlanInstalments).where(eq(paymentPlanInstalments.propertyId, propertyId));
+      return await tx
+        .insert(paymentPlanInstalments)
+        .values(instalments.map(instalment => ({ ...instalment, propertyId })))
+        .returning();
+    });
+  }
+
+  async triggerMilestoneInstalment(id: string, triggeredAt: Date): Promise<PaymentPlanInstalment | undefined> {
+    // Due date starts the payment window; already-triggered instalments keep their original dates
+    const [instalment] = await db
+      .update(paymentPlanInstalments)
+      .set({
+        triggeredAt,
+        dueDate: sql`${triggeredAt}::timestamp + (${paymentPlanInstalments.paymentWindowDays} * interval '1 day')`,
+      })
+      .where(and(
+        eq(paymentPlanInstalments.id, id),
+        eq(paymentPlanInstalments.triggerType, "milestone"),
+        isNull(paymentPlanInstalments.triggeredAt)
+      ))
+      .returning();
+    return instalment;
+  }
+
+  async getInstalmentPaymentsByProperty(propertyId: string): Promise<InstalmentPayment[]> {
+    return await db
+      .select({ payment: instalmentPayments })
+      .from(instalmentPayments)
+      .innerJoin(paymentPlanInstalments, eq(instalmentPayments.instalmentId, paymentPlanInstalments.id))
+      .where(eq(paymentPlanInstalments.propertyId, propertyId))
+      .then(rows => rows.map(row => row.payment));
+  }
+
+  async createInstalmentPayment(payment: InsertInstalmentPayment): Promise<InstalmentPayment> {
+    return await db.transaction(async (tx) => {
+      const [created] = await tx.insert(instalmentPayments).values(payment).returning();
+      await this.postInstalmentPayment(tx, created);
+      return created;
+    });
+  }
+
+  async getInvestorInstalmentSchedule(investorId: string): Promise<InstalmentDue[]> {
+    const slots = await db
+      .select({ slot: coOwnerSlots, reservation: propertyReservations })
+      .from(coOwnerSlots)
+      .innerJoin(propertyReservations, eq(coOwnerSlots.reservationId, propertyReservations.id))
+      .where(and(
+        eq(coOwnerSlots.investorId, investorId),
+        sql`${propertyReservations.reservationStatus} <> 'cancelled'`
+      ));
+
+    const schedule: InstalmentDue[] = [];
+    for (const { slot, reservation } of slots) {
+      const property = await this.getPropertyById(reservation.propertyId);
+      if (!property) continue;
+
+      const instalments = await this.getPaymentPlan(property.id);
+      const payments = await this.getInstalmentPaymentsByProperty(property.id);
+      schedule.push(...buildSlotSchedule(property, instalments, slot, payments));
+    }
+
+    return schedule;
+  }
+
+  async getPropertyInstalmentSchedule(propertyId: string): Promise<PropertyInstalmentDue[]> {
+    const property = await this.getPropertyById(propertyId);
+    if (!property) {
+      return [];
+    }
+
+    // Co-owners come from the property's current (non-cancelled) reservation
+    const [reservation] = await db
+      .select()
+      .from(propertyReservations)
+      .where(and(
+        eq(propertyReservations.propertyId, propertyId),
+        sql`${propertyReservations.reservationStatus} <> 'cancelled'`
+      ))
+      .orderBy(desc(propertyReservations.createdAt))
+      .limit(1);
+    if (!reservation) {
+      return [];
+    }
+
+    const slots = await db
+      .select({ slot: coOwnerSlots, investorName: investors.fullName })
+      .from(coOwnerSlots)
+      .leftJoin(investors, eq(coOwnerSlots.investorId, investors.id))
+      .where(eq(coOwnerSlots.reservationId, reservation.id))
+      .orderBy(coOwnerSlots.slotNumber);
+    const instalments = await this.getPaymentPlan(propertyId);
+    const payments = await this.getInstalmentPaymentsByProperty(propertyId);
+
+    return slots.flatMap(({ slot, investorName }) =>
+      buildSlotSchedule(property, instalments, slot, payments).map(due => ({
+        ...due,
+        investorId: slot.investorId,
+        investorName,
+        slotNumber: slot.slotNumber,
+      }))
+    );
+  }
+
+  async getConstructionMilestones(propertyId: string): Promise<ConstructionMilestone[]> {
+    const milestones = await db
+      .select()
+      .from(constructionMilestones)
+      .where(eq(constructionMilestones.propertyId, propertyId));
+
+    return milestones.sort((a, b) =>
+      constructionStages.indexOf(a.stage as ConstructionStage) - constructionStages.indexOf(b.stage as ConstructionStage)
+    );
+  }
+
+  async getConstructionMilestone(propertyId: string, stage: ConstructionStage): Promise<ConstructionMilestone | undefined> {
+    const [milestone] = await db
+      .select()
+      .from(constructionMilestones)
+      .where(and(eq(constructionMilestones.propertyId, propertyId), eq(constructionMilestones.stage, stage)));
+    return milestone;
+  }
+
+  async backfillConstructionMilestones(): Promise<{ properties: number; stages: number }> {
+    // Properties created before their stages were added with them; only the missing stages are inserted
+    const existing = await db
+      .select({ propertyId: constructionMilestones.propertyId, stage: constructionMilestones.stage })
+      .from(constructionMilestones);
+    const tracked = new Set(existing.map(row => `${row.propertyId}:${row.stage}`));
+
+    let backfilledProperties = 0;
+    let stages = 0;
+    for (const { id } of await db.select({ id: properties.id }).from(properties)) {
+      const missing = constructionStages.filter(stage => !tracked.has(`${id}:${stage}`));
+      if (missing.length === 0) {
+        continue;
+      }
+      const inserted = await db
+        .insert(constructionMilestones)
+        .values(missing.map(stage => ({ propertyId: id, stage })))
+        .onConflictDoNothing({ target: [constructionMilestones.propertyId, constructionMilestones.stage] })
+        .returning({ id: constructionMilestones.id });
+      backfilledProperties++;
+      stages += inserted.length;
+    }
+    return { properties: backfilledProperties, stages };
+  }
+
+  async addConstructionUpdate(
+    milestoneId: string,
+    update: Omit<InsertConstructionUpdate, "milestoneId">,
+    expectedCompletionDate?: Date | null
+  ): Promise<{ milestone: ConstructionMilestone; update: ConstructionUpdate }> {
+    return await db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(constructionUpdates)
+        .values({ ...update, milestoneId })
+        .returning();
+
+      // completedAt keeps the first date the stage reached 100%, and clears if progress is corrected down
+      const [milestone] = await tx
+        .update(constructionMilestones)
+        .set({
+          percentComplete: update.percentComplete,
+          completedAt: update.percentComplete === 100
+            ? sql`coalesce(${constructionMilestones.completedAt}, now())`
+            : null,
+          ...(expectedCompletionDate !== undefined ? { expectedCompletionDate } : {}),
+          updatedAt: new Date(),
+        })
+        .where(eq(constructionMilestones.id, milestoneId))
+        .returning();
+
+      return { milestone, update: created };
+    });
+  }
+
+  async getConstructionUpdates(milestoneIds: string[]): Promise<ConstructionUpdate[]> {
+    if (milestoneIds.length === 0) {
+      return [];
+    }
+    return await db
+      .select()
+      .from(constructionUpdates)
+      .where(inArray(constructionUpdates.milestoneId, milestoneIds))
+      .orderBy(desc(constructionUpdates.createdAt));
+  }
+
+  async getMilestonePhotos(milestoneIds: string[]): Promise<PropertyMedia[]> {
+    if (milestoneIds.length === 0) {
+      return [];
+    }
+    return await db
+      .select()
+      .from(propertyMedia)
+      .where(inArray(propertyMedia.milestoneId, milestoneIds))
+      .orderBy(desc(propertyMedia.createdAt));
+  }
+
+  async setMilestoneCertificate(id: string, certificatePath: string, certificateFilename: string): Promise<ConstructionMilestone | undefined> {
+    const [milestone] = await db
+      .update(constructionMilestones)
+      .set({
+        certificatePath,
+        certificateFilename,
+        certificateUploadedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(constructionMilestones.id, id))
+      .returning();
+    return milestone;
+  }
+
+  async createPayment(insertPayment: InsertPayment): Promise<Payment> {
+    const [payment] = await db.insert(payments).values(insertPayment).returning();
+    return payment;
+  }
+
+  async processChargeWebhook(webhook: ChargeWebhook): Promise<{ event: PaymentWebhookEvent; duplicate: boolean }> {
+    return await db.transaction(async (tx) => {
+      // The unique (provider, charge, status) index makes a redelivery lose this insert, which ends the run here
+      const [event] = await tx
+        .insert(paymentWebhookEvents)
+        .values({
+          provider: webhook.provider,
+          chargeId: webhook.chargeId,
+          chargeStatus: webhook.status,
+          investorId: webhook.investorId,
+          propertyId: webhook.propertyId,
+          amount: webhook.amount.toFixed(2),
+          outcome: "recorded",
+          payload: webhook.payload,
+        })
+        .onConflictDoNothing({
+          target: [paymentWebhookEvents.provider, paymentWebhookEvents.chargeId, paymentWebhookEvents.chargeStatus],
+        })
+        .returning();
+
+      if (!event) {
+        const [existing] = await tx
+          .update(paymentWebhookEvents)
+          .set({
+            deliveryCount: sql`${paymentWebhookEvents.deliveryCount} + 1`,
+            lastDeliveredAt: new Date(),
+          })
+          .where(and(
+            eq(paymentWebhookEvents.provider, webhook.provider),
+            eq(paymentWebhookEvents.chargeId, webhook.chargeId),
+            eq(paymentWebhookEvents.chargeStatus, webhook.status)
+          ))
+          .returning();
+        return { event: existing, duplicate: true };
+      }
+
+      // A checkout that ended without money frees the slot for another attempt or for abandonment
+      if (unpaidChargeStatuses.includes(webhook.status) && webhook.slotId && webhook.investorId) {
+        await tx
+          .update(coOwnerSlots)
+          .set({ paymentStatus: "unpaid", paymentStartedAt: null })
+          .where(and(
+            eq(coOwnerSlots.id, webhook.slotId),
+            eq(coOwnerSlots.investorId, webhook.investorId),
+            eq(coOwnerSlots.paymentStatus, "pending")
+          ));
+      }
+
+      // Only captured charges move money; other statuses are kept for the record
+      if (webhook.status !== "CAPTURED" || !webhook.investorId || !webhook.propertyId) {
+        return { event, duplicate: false };
+      }
+
+      const reject = async (reason: string) => {
+        const [rejected] = await tx
+          .update(paymentWebhookEvents)
+          .set({ outcome: "rejected", outcomeReason: reason })
+          .where(eq(paymentWebhookEvents.id, event.id))
+          .returning();
+        return { event: rejected, duplicate: false };
+      };
+
+      const result = await this.applySlotPayment(tx, {
+        investorId: webhook.investorId,
+        propertyId: webhook.propertyId,
+        slotId: webhook.slotId,
+        amount: webhook.amount,
+        paymentMethod: webhook.paymentMethod || "card",
+        chargeId: webhook.chargeId,
+      });
+      if ("rejected" in result) {
+        return await reject(result.rejected);
+      }
+      const { payment } = result;
+
+      const [processed] = await tx
+        .update(paymentWebhookEvents)
+        .set({ outcome: "processed", paymentId: payment.id })
+        .where(eq(paymentWebhookEvents.id, event.id))
+        .returning();
+
+      return { event: processed, duplicate: false };
+    });
+  }
+
+  async getPaymentsByInvestor(investorId: string): Promise<Payment[]> {
+    return await db.select().from(payments).where(eq(payments.investorId, investorId));
+  }
+
+  private async getPaymentsWithRefunds(condition: SQL): Promise<PaymentWithRefunds[]> {
+    const rows = await db
+      .select({
+        payment: payments,
+        investorName: investors.fullName,
+        propertyId: fractions.propertyId,
+        propertyTitle: properties.title,
+        slotId: fractions.slotId,
+        sharePercentage: fractions.sharePercentage,
+        receiptNumber: paymentReceipts.receiptNumber,
+      })
+      .from(payments)
+      .innerJoin(fractions, eq(payments.fractionId, fractions.id))
+      .innerJoin(investors, eq(payments.investorId, investors.id))
+      .innerJoin(properties, eq(fractions.propertyId, properties.id))
+      .leftJoin(coOwnerSlots, eq(fractions.slotId, coOwnerSlots.id))
+      .leftJoin(paymentReceipts, eq(paymentReceipts.paymentId, payments.id))
+      .where(condition)
+      .orderBy(desc(payments.createdAt));
+
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const paymentRefunds = await db
+      .select()
+      .from(refunds)
+      .where(inArray(refunds.paymentId, rows.map(row => row.payment.id)))
+      .orderBy(refunds.createdAt);
+
+    return rows.map(row => ({
+      ...row.payment,
+      investorName: row.investorName,
+      propertyId: row.propertyId,
+      propertyTitle: row.propertyTitle,
+      slotId: row.slotId,
+      sharePercentage: row.sharePercentage,
+      receiptNumber: row.receiptNumber,
+      refunds: paymentRefunds.filter(refund => refund.paymentId === row.payment.id),
+    }));
+  }
+
+  /**
+   * Issue the fraction and payment for a paid reservation slot and update the ownership counters.
+   * Shared by card webhooks and matched bank transfers; runs inside the caller's transaction.
+   */
+  private async applySlotPayment(tx: DbTransaction, input: SlotPaymentInput): Promise<{ payment: Payment; shortfall: string | null } | { rejected: string }> {
+    // Lock the property so concurrent charges cannot both take the last fraction
+    const [property] = await tx
+      .select()
+      .from(properties)
+      .where(eq(properties.id, input.propertyId))
+      .for("update");
+    const [investor] = await tx
+      .select()
+      .from(investors)
+      .where(eq(investors.id, input.investorId))
+      .for("update");
+
+    if (property.fractionsSold >= property.totalFractions) {
+      return { rejected: "Property is fully funded" };
+    }
+    // Instalments are recorded against the plan, so a full share payment would count the capital twice
+    const [instalment] = await tx
+      .select({ id: paymentPlanInstalments.id })
+      .from(paymentPlanInstalments)
+      .where(eq(paymentPlanInstalments.propertyId, property.id))
+      .limit(1);
+    if (instalment) {
+      return { rejected: "This property is paid in instalments under its payment plan" };
+    }
+    if (!input.slotId) {
+      return { rejected: "Payment is not linked to a reservation slot" };
+    }
+
+    // Lock the slot so a redelivered charge or a parallel transfer cannot pay it twice
+    const [slot] = await tx
+      .select()
+      .from(coOwnerSlots)
+      .where(eq(coOwnerSlots.id, input.slotId))
+      .for("update");
+
+    if (!slot || slot.investorId !== investor.id) {
+      return { rejected: "Slot does not belong to the investor" };
+    }
+    if (slot.paymentStatus === "paid") {
+      return { rejected: "Slot is already paid" };
+    }
+
+    const [reservation] = await tx
+      .select()
+      .from(propertyReservations)
+      .where(eq(propertyReservations.id, slot.reservationId))
+      .for("update");
+
+    if (reservation.propertyId !== property.id) {
+      return { rejected: "Slot belongs to a different property" };
+    }
+    if (reservation.reservationStatus !== "all_signed" && reservation.reservationStatus !== "payment_pending") {
+      return { rejected: `Reservation is ${reservation.reservationStatus}` };
+    }
+
+    const expectedAmount = calculateSlotAmount(property.totalPrice, slot.sharePercentage);
+    const shortfall = Number(expectedAmount) - input.amount;
+    if (input.amount.toFixed(2) !== expectedAmount && !(input.acceptShortfall && shortfall > 0)) {
+      return { rejected: `Amount ${input.amount.toFixed(2)} does not match the share price ${expectedAmount}` };
+    }
+
+    // A payment that arrives without a checkout still passes through payment_pending
+    let payingReservation = reservation;
+    if (reservation.reservationStatus === "all_signed") {
+      const moved = await this.moveReservation(tx, reservation, "payment_pending", {});
+      if ("rejected" in moved) {
+        return moved;
+      }
+      payingReservation = moved;
+    }
+
+    const [fraction] = await tx
+      .insert(fractions)
+      .values({
+        investorId: investor.id,
+        propertyId: property.id,
+        slotId: slot.id,
+        sharePercentage: slot.sharePercentage,
+        fractionNumber: investor.fractionsPurchased + 1,
+        purchasePrice: input.amount.toFixed(2),
+        paymentStatus: "completed",
+        tapChargeId: input.chargeId,
+      })
+      .returning();
+
+    const [payment] = await tx
+      .insert(payments)
+      .values({
+        investorId: investor.id,
+        fractionId: fraction.id,
+        amount: input.amount.toFixed(2),
+        currency: "AED",
+        tapChargeId: input.chargeId,
+        status: "completed",
+        paymentMethod: input.paymentMethod,
+        completedAt: new Date(),
+      })
+      .returning();
+
+    await tx
+      .update(investors)
+      .set({
+        fractionsPurchased: investor.fractionsPurchased + 1,
+        paymentStatus: "completed",
+      })
+      .where(eq(investors.id, investor.id));
+
+    await this.postJournalEntry(tx, {
+      entryType: "slot_payment",
+      description: `${Number(slot.sharePercentage)}% share of ${property.title} paid by ${input.paymentMethod}`,
+      sourceType: "payment",
+      sourceId: payment.id,
+    }, capitalReceivedLines(property, investor, input.amount));
+
+    await tx
+      .update(coOwnerSlots)
+      .set({ paymentStatus: "paid", paymentStartedAt: null, paidAt: new Date() })
+      .where(eq(coOwnerSlots.id, slot.id));
+
+    const reservationSlots = await tx
+      .select()
+      .from(coOwnerSlots)
+      .where(eq(coOwnerSlots.reservationId, reservation.id));
+    const paidShare = reservationSlots
+      .filter(s => s.id === slot.id || s.paymentStatus === "paid")
+      .reduce((sum, s) => sum + Number(s.sharePercentage), 0);
+    const allPaid = reservationSlots.every(s => s.id === slot.id || s.paymentStatus === "paid");
+
+    if (allPaid) {
+      await this.forceReservationMove(tx, payingReservation, "payment_complete");
+    }
+
+    const fractionsSold = fractionsSoldForShare(property.totalFractions, paidShare, allPaid);
+    await tx
+      .update(properties)
+      .set({
+        fractionsSold,
+        // Selling the last fraction closes the listing
+        status: sql`CASE WHEN ${fractionsSold} >= ${properties.totalFractions} AND ${properties.status} = 'published' THEN 'fully_funded' ELSE ${properties.status} END`,
+        updatedAt: new Date(),
+      })
+      .where(eq(properties.id, property.id));
+
+    return { payment, shortfall: shortfall > 0 ? shortfall.toFixed(2) : null };
+  }
+
+  async getPaymentWithRefunds(id: string): Promise<PaymentWithRefunds | undefined> {
+    const [payment] = await this.getPaymentsWithRefunds(eq(payments.id, id));
+    return payment;
+  }
+
+  async getPropertyPayments(propertyId: string): Promise<PaymentWithRefunds[]> {
+    return await this.getPaymentsWithRefunds(eq(fractions.propertyId, propertyId));
+  }
+
+  async getReservationPayments(reservationId: string): Promise<PaymentWithRefunds[]> {
+    return await this.getPaymentsWithRefunds(eq(coOwnerSlots.reservationId, reservationId));
+  }
+
+  async getInvestorPayments(investorId: string): Promise<PaymentWithRefunds[]> {
+    return await this.getPaymentsWithRefunds(eq(payments.investorId, investorId));
+  }
+
+  async getPaymentReceipt(paymentId: string): Promise<PaymentReceipt | undefined> {
+    const [receipt] = await db.select().from(paymentReceipts).where(eq(paymentReceipts.paymentId, paymentId));
+    return receipt;
+  }
+
+  /**
+   * Issue the receipt for a completed payment, or return the one already issued.
+   * Numbers are gapless: an advisory lock serialises issuing and the number is only taken if the PDF is stored.
+   */
+  async issuePaymentReceipt(paymentId: string): Promise<PaymentReceipt> {
+    const existing = await this.getPaymentReceipt(paymentId);
+    if (existing) {
+      return existing;
+    }
+
+    const payment = await this.getPaymentWithRefunds(paymentId);
+    if (!payment) {
+      throw new Error("Payment not found");
+    }
+    const [investor, property, slot] = await Promise.all([
+      this.getInvestorById(payment.investorId),
+      this.getPropertyById(payment.propertyId),
+      payment.slotId ? this.getSlotById(payment.slotId) : Promise.resolve(undefined),
+    ]);
+    if (!investor || !property) {
+      throw new Error("Payment is missing its investor or property");
+    }
+    const language = investor.preferredLanguage === "ar" ? "ar" : "en";
+
+    const uploadsDir = path.join(process.cwd(), "uploads", "receipts");
+    await fs.mkdir(uploadsDir, { recursive: true });
+
+    return await db.transaction(async (tx) => {
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext('payment_receipts'))`);
+
+      // Another request may have issued it while we waited for the lock
+      const [issued] = await tx.select().from(paymentReceipts).where(eq(paymentReceipts.paymentId, paymentId));
+      if (issued) {
+        return issued;
+      }
+
+      const [{ lastNumber }] = await tx
+        .select({ lastNumber: sql<number>`COALESCE(MAX(${paymentReceipts.sequenceNumber}), 0)` })
+        .from(paymentReceipts);
+      const sequenceNumber = Number(lastNumber) + 1;
+      const issuedAt = new Date();
+      const receiptNumber = `FOPD-RCT-${issuedAt.getUTCFullYear()}-${String(sequenceNumber).padStart(6, "0")}`;
+
+      const pdfBytes = await generateReceiptPDF({
+        receiptNumber,
+        issuedAt,
+        payment,
+        investor,
+        property,
+        sharePercentage: payment.sharePercentage,
+        transferReference: payment.paymentMethod === "bank_transfer" ? slot?.transferReference ?? null : null,
+        companyTrn: process.env.COMPANY_TRN || null,
+        language,
+      });
+
+      const filename = `${receiptNumber}.pdf`;
+      await fs.writeFile(path.join(uploadsDir, filename), pdfBytes);
+
+      const [receipt] = await tx
+        .insert(paymentReceipts)
+        .values({
+          paymentId,
+          investorId: payment.investorId,
+          sequenceNumber,
+          receiptNumber,
+          language,
+          filePath: `uploads/receipts/${filename}`,
+          fileHash: generateHash(Buffer.from(pdfBytes).toString("base64")),
+          issuedAt,
+        })
+        .returning();
+      return receipt;
+    });
+  }
+
+  async requestRefund(
+    paymentId: string,
+    amount: number | null,
+    reason: string,
+    requestedBy: string | null
+  ): Promise<Refund | { rejected: string }> {
+    return await db.transaction(async (tx): Promise<Refund | { rejected: string }> => {
+      // The payment lock keeps two refunds from both passing the checks below before either is recorded
+      const [payment] = await tx.select().from(payments).where(eq(payments.id, paymentId)).for("update");
+      if (!payment) {
+        return { rejected: "Payment not found" };
+      }
+      if (payment.status !== "completed" && payment.status !== "partially_refunded") {
+        return { rejected: "Only completed payments can be refunded" };
+      }
+
+      const [pending] = await tx
+        .select({ id: refunds.id })
+        .from(refunds)
+        .where(and(eq(refunds.paymentId, payment.id), eq(refunds.status, "pending")));
+      if (pending) {
+        return { rejected: "A refund for this payment is already in progress" };
+      }
+
+      // No amount refunds whatever is left
+      const refundable = Number(payment.amount) - Number(payment.refundedAmount);
+      const refundAmount = Math.round((amount ?? refundable) * 100) / 100;
+      if (refundAmount > refundable + 0.001) {
+        return { rejected: `Refund exceeds the refundable AED ${refundable.toFixed(2)}` };
+      }
+
+      const [fraction] = await tx.select().from(fractions).where(eq(fractions.id, payment.fractionId));
+      const [refund] = await tx
+        .insert(refunds)
+        .values({
+          paymentId: payment.id,
+          investorId: payment.investorId,
+          propertyId: fraction.propertyId,
+          amount: refundAmount.toFixed(2),
+          reason,
+          requestedBy,
+        })
+        .returning();
+      return refund;
+    });
+  }
+
+  async failRefund(id: string, failureReason: string): Promise<Refund> {
+    const [refund] = await db
+      .update(refunds)
+      .set({ status: "failed", failureReason })
+      .where(and(eq(refunds.id, id), eq(refunds.status, "pending")))
+      .returning();
+    return refund;
+  }
+
+  async completeRefund(id: string, providerRefundId: string | null): Promise<RefundReversal> {
+    return await db.transaction(async (tx) => {
+      const [refund] = await tx.select().from(refunds).where(eq(refunds.id, id)).for("update");
+      if (!refund || refund.status !== "pending") {
+        throw new Error("Refund is not pending");
+      }
+
+      const [payment] = await tx.select().from(payments).where(eq(payments.id, refund.paymentId)).for("update");
+      const refundAmount = Number(refund.amount);
+      const refundedAmount = Number(payment.refundedAmount) + refundAmount;
+      if (refundedAmount > Number(payment.amount) + 0.001) {
+        throw new Error("Refund exceeds the amount paid");
+      }
+      const fullyRefunded = refundedAmount >= Number(payment.amount) - 0.001;
+
+      const [updatedPayment] = await tx
+        .update(payments)
+        .set({
+          refundedAmount: refundedAmount.toFixed(2),
+          status: fullyRefunded ? "refunded" : "partially_refunded",
+        })
+        .where(eq(payments.id, payment.id))
+        .returning();
+
+      const [fraction] = await tx.select().from(fractions).where(eq(fractions.id, payment.fractionId)).for("update");
+      const [investor] = await tx.select().from(investors).where(eq(investors.id, payment.investorId)).for("update");
+      const [refundedProperty] = await tx.select().from(properties).where(eq(properties.id, fraction.propertyId));
+
+      await this.postJournalEntry(tx, {
+        entryType: "refund",
+        description: `Refund to ${investor.fullName} for ${refundedProperty.title}: ${refund.reason}`,
+        sourceType: "refund",
+        sourceId: refund.id,
+        postedBy: refund.requestedBy,
+      }, capitalRefundedLines(refundedProperty, investor, refundAmount));
+
+      // A partial refund only gives money back; the share is released once nothing is left paid
+      if (fullyRefunded) {
+        await tx
+          .update(investors)
+          .set({ fractionsPurchased: Math.max(0, investor.fractionsPurchased - 1) })
+          .where(eq(investors.id, investor.id));
+      }
+
+      if (fullyRefunded) {
+        await tx
+          .update(fractions)
+          .set({ paymentStatus: "refunded" })
+          .where(eq(fractions.id, fraction.id));
+
+        const [property] = await tx
+          .select()
+          .from(properties)
+          .where(eq(properties.id, fraction.propertyId))
+          .for("update");
+        let fractionsSold = Math.max(0, property.fractionsSold - 1);
+
+        if (fraction.slotId) {
+          const [slot] = await tx
+            .update(coOwnerSlots)
+            .set({ paymentStatus: "unpaid", paidAt: null })
+            .where(eq(coOwnerSlots.id, fraction.slotId))
+            .returning();
+
+          const reservationSlots = await tx
+            .select()
+            .from(coOwnerSlots)
+            .where(eq(coOwnerSlots.reservationId, slot.reservationId));
+          const paidShare = reservationSlots
+            .filter(s => s.paymentStatus === "paid")
+            .reduce((sum, s) => sum + Number(s.sharePercentage), 0);
+          fractionsSold = fractionsSoldForShare(property.totalFractions, paidShare, false);
+
+          // The deal is no longer fully paid
+          const [reservation] = await tx
+            .select()
+            .from(propertyReservations)
+            .where(eq(propertyReservations.id, slot.reservationId))
+            .for("update");
+          if (reservation.reservationStatus === "payment_complete") {
+            await this.forceReservationMove(tx, reservation, "payment_pending");
+          }
+        }
+
+        await tx
+          .update(properties)
+          .set({
+            fractionsSold,
+            // Reopen a listing that was closed by the refunded purchase
+            status: sql`CASE WHEN ${fractionsSold} < ${properties.totalFractions} AND ${properties.status} = 'fully_funded' THEN 'published' ELSE ${properties.status} END`,
+            updatedAt: new Date(),
+          })
+          .where(eq(properties.id, property.id));
+      }
+
+      const [completed] = await tx
+        .update(refunds)
+        .set({ status: "completed", providerRefundId, completedAt: new Date() })
+        .where(eq(refunds.id, refund.id))
+        .returning();
+
+      return { refund: completed, payment: updatedPayment, fractionReleased: fullyRefunded };
+    });
+  }
+
+  async invalidateDealSignatures(reservationId: string, propertyId: string, investorIds: string[], reason: string): Promise<InvalidatedDealRecords> {
+    if (investorIds.length === 0) {
+      return { signatures: 0, documents: 0, sessions: 0 };
+    }
+
+    // Records from before they were tied to a reservation fall back to matching the property and its holders
+    return await db.transaction(async (tx) => {
+      const now = new Date();
+      const signatures = await tx
+        .update(investorSignatures)
+        .set({ invalidatedAt: now, invalidationReason: reason })
+        .where(and(
+          or(
+            eq(investorSignatures.reservationId, reservationId),
+            and(
+              isNull(investorSignatures.reservationId),
+              eq(investorSignatures.propertyId, propertyId),
+              inArray(investorSignatures.investorId, investorIds)
+            )
+          ),
+          isNull(investorSignatures.shareTransferId),
+          isNull(investorSignatures.invalidatedAt)
+        ))
+        .returning({ id: investorSignatures.id });
+
+      // Sealed documents carry every co-owner's signature, so cancelling the deal voids them
+      const documents = await tx
+        .update(signedDocuments)
+        .set({ invalidatedAt: now, invalidationReason: reason })
+        .where(and(
+          or(
+            eq(signedDocuments.reservationId, reservationId),
+            and(isNull(signedDocuments.reservationId), eq(signedDocuments.propertyId, propertyId))
+          ),
+          sql`${signedDocuments.documentType} <> 'share_transfer'`,
+          isNull(signedDocuments.invalidatedAt)
+        ))
+        .returning({ id: signedDocuments.id });
+
+      const sessions = await tx
+        .update(signatureSessions)
+        .set({ status: "expired" })
+        .where(and(
+          or(
+            eq(signatureSessions.reservationId, reservationId),
+            and(
+              isNull(signatureSessions.reservationId),
+              eq(signatureSessions.propertyId, propertyId),
+              inArray(signatureSessions.investorId, investorIds)
+            )
+          ),
+          isNull(signatureSessions.shareTransferId),
+          inArray(signatureSessions.status, ["pending", "verified"])
+        ))
+        .returning({ id: signatureSessions.id });
+
+      return { signatures: signatures.length, documents: documents.length, sessions: sessions.length };
+    });
+  }
+
+  /**
+   * Open an account by its code, or return the one already open
+   */
+  private async openLedgerAccount(tx: DbTransaction, spec: LedgerAccountSpec): Promise<LedgerAccount> {
+    await tx.insert(ledgerAccounts).values(spec).onConflictDoNothing({ target: ledgerAccounts.code });
+    const [account] = await tx.select().from(ledgerAccounts).where(eq(ledgerAccounts.code, spec.code));
+    return account;
+  }
+
+  /**
+   * Post a balanced journal entry inside the caller's transaction.
+   * Each source record posts once; posting it again throws, which rolls back the caller's change.
+   */
+  private async postJournalEntry(tx: DbTransaction, entry: InsertJournalEntry, lines: JournalLineSpec[]): Promise<JournalEntry> {
+    assertBalanced(lines);
+
+    const [posted] = await tx
+      .insert(journalEntries)
+      .values(entry)
+      .onConflictDoNothing({ target: [journalEntries.sourceType, journalEntries.sourceId] })
+      .returning();
+    if (!posted) {
+      throw new LedgerError(`${entry.sourceType} ${entry.sourceId} already has a journal entry`);
+    }
+
+    for (const line of lines) {
+      const account = await this.openLedgerAccount(tx, line.account);
+      await tx.insert(journalLines).values({
+        entryId: posted.id,
+        accountId: account.id,
+        debit: (line.debit ?? 0).toFixed(2),
+        credit: (line.credit ?? 0).toFixed(2),
+      });
+    }
+
+    return posted;
+  }
+
+  private async postInstalmentPayment(tx: DbTransaction, payment: InstalmentPayment): Promise<JournalEntry> {
+    const [row] = await tx
+      .select({ instalment: paymentPlanInstalments, property: properties, investor: investors })
+      .from(paymentPlanInstalments)
+      .innerJoin(properties, eq(paymentPlanInstalments.propertyId, properties.id))
+      .innerJoin(investors, eq(investors.id, payment.investorId))
+      .where(eq(paymentPlanInstalments.id, payment.instalmentId));
+
+    return await this.postJournalEntry(tx, {
+      entryType: "instalment_payment",
+      description: `${row.instalment.label} for ${row.property.title}${payment.paymentMethod ? ` paid by ${payment.paymentMethod}` : ""}`,
+      sourceType: "instalment_payment",
+      sourceId: payment.id,
+      postedBy: payment.recordedBy,
+    }, capitalReceivedLines(row.property, row.investor, payment.amount));
+  }
+
+  async getTrialBalance(): Promise<TrialBalanceRow[]> {
+    const rows = await db
+      .select({
+        account: ledgerAccounts,
+        debits: sql<string>`COALESCE(SUM(${journalLines.debit}), 0)`,
+        credits: sql<string>`COALESCE(SUM(${journalLines.credit}), 0)`,
+      })
+      .from(ledgerAccounts)
+      .leftJoin(journalLines, eq(journalLines.accountId, ledgerAccounts.id))
+      .groupBy(ledgerAccounts.id)
+      .orderBy(ledgerAccounts.accountType, ledgerAccounts.code);
+
+    return rows.map(row => ({
+      account: row.account,
+      debits: Number(row.debits).toFixed(2),
+      credits: Number(row.credits).toFixed(2),
+      balance: accountBalance(row.account.accountType, row.debits, row.credits).toFixed(2),
+    }));
+  }
+
+  async getLedgerAccountById(id: string): Promise<LedgerAccount | undefined> {
+    const [account] = await db.select().from(ledgerAccounts).where(eq(ledgerAccounts.id, id));
+    return account;
+  }
+
+  async getAccountStatement(accountId: string): Promise<AccountStatementLine[]> {
+    const account = await this.getLedgerAccountById(accountId);
+    if (!account) {
+      return [];
+    }
+
+    const rows = await db
+      .select({ entry: journalEntries, line: journalLines })
+      .from(journalLines)
+      .innerJoin(journalEntries, eq(journalLines.entryId, journalEntries.id))
+      .where(eq(journalLines.accountId, accountId))
+      .orderBy(journalEntries.postedAt, journalLines.id);
+
+    let running = 0;
+    return rows.map(({ entry, line }) => {
+      running += accountBalance(account.accountType, line.debit, line.credit);
+      return { entry, debit: line.debit, credit: line.credit, runningBalance: running.toFixed(2) };
+    });
+  }
+
+  async getInvestedTotals(investorIds: string[]): Promise<Map<string, string>> {
+    const totals = new Map<string, string>();
+    if (investorIds.length === 0) {
+      return totals;
+    }
+
+    const rows = await db
+      .select({
+        investorId: ledgerAccounts.investorId,
+        debits: sql<string>`COALESCE(SUM(${journalLines.debit}), 0)`,
+        credits: sql<string>`COALESCE(SUM(${journalLines.credit}), 0)`,
+      })
+      .from(ledgerAccounts)
+      .innerJoin(journalLines, eq(journalLines.accountId, ledgerAccounts.id))
+      .where(and(eq(ledgerAccounts.category, "investor_capital"), inArray(ledgerAccounts.investorId, investorIds)))
+      .groupBy(ledgerAccounts.investorId);
+
+    for (const row of rows) {
+      totals.set(row.investorId!, accountBalance("liability", row.debits, row.credits).toFixed(2));
+    }
+    return totals;
+  }
+
+  async withInvestedTotals(investorList: Investor[]): Promise<InvestorWithTotals[]> {
+    const totals = await this.getInvestedTotals(investorList.map(investor => investor.id));
+    return investorList.map(investor => ({ ...investor, totalInvested: totals.get(investor.id) ?? "0.00" }));
+  }
+
+  /**
+   * Post journal entries for payments, instalment payments and refunds recorded before the ledger existed.
+   * Safe to run repeatedly: records that already have an entry are skipped.
+   */
+  async backfillLedger(): Promise<{ posted: number; skipped: number }> {
+    const postedSources = new Set(
+      (await db.select({ sourceType: journalEntries.sourceType, sourceId: journalEntries.sourceId }).from(journalEntries))
+        .map(entry => `${entry.sourceType}:${entry.sourceId}`)
+    );
+    let posted = 0;
+    let skipped = 0;
+
+    const paymentRows = await db
+      .select({ payment: payments, investor: investors, property: properties, sharePercentage: fractions.sharePercentage })
+      .from(payments)
+      .innerJoin(fractions, eq(payments.fractionId, fractions.id))
+      .innerJoin(investors, eq(payments.investorId, investors.id))
+      .innerJoin(properties, eq(fractions.propertyId, properties.id))
+      .where(inArray(payments.status, ["completed", "partially_refunded", "refunded"]))
+      .orderBy(payments.createdAt);
+
+    for (const { payment, investor, property, sharePercentage } of paymentRows) {
+      if (postedSources.has(`payment:${payment.id}`)) {
+        skipped++;
+        continue;
+      }
+      await db.transaction(async (tx) => {
+        await this.postJournalEntry(tx, {
+          entryType: "slot_payment",
+          description: `${sharePercentage ? `${Number(sharePercentage)}% share` : "Share"} of ${property.title} paid by ${payment.paymentMethod || "card"} (backfilled)`,
+          sourceType: "payment",
+          sourceId: payment.id,
+        }, capitalReceivedLines(property, investor, payment.amount));
+      });
+      posted++;
+    }
+
+    const instalmentRows = await db.select().from(instalmentPayments).orderBy(instalmentPayments.createdAt);
+    for (const instalmentPayment of instalmentRows) {
+      if (postedSources.has(`instalment_payment:${instalmentPayment.id}`)) {
+        skipped++;
+        continue;
+      }
+      await db.transaction(async (tx) => {
+        await this.postInstalmentPayment(tx, instalmentPayment);
+      });
+      posted++;
+    }
+
+    const refundRows = await db
+      .select({ refund: refunds, investor: investors, property: properties })
+      .from(refunds)
+      .innerJoin(investors, eq(refunds.investorId, investors.id))
+      .innerJoin(properties, eq(refunds.propertyId, properties.id))
+      .where(eq(refunds.status, "completed"))
+      .orderBy(refunds.completedAt);
+
+    for (const { refund, investor, property } of refundRows) {
+      if (postedSources.has(`refund:${refund.id}`)) {
+        skipped++;
+        continue;
+      }
+      await db.transaction(async (tx) => {
+        await this.postJournalEntry(tx, {
+          entryType: "refund",
+          description: `Refund to ${investor.fullName} for ${property.title}: ${refund.reason} (backfilled)`,
+          sourceType: "refund",
+          sourceId: refund.id,
+          postedBy: refund.requestedBy,
+        }, capitalRefundedLines(property, investor, refund.amount));
+      });
+      posted++;
+    }
+
+    return { posted, skipped };
+  }
+
+  private async selectPropertyOwners(executor: Pick<DbTransaction, "select">, condition: SQL): Promise<PropertyOwner[]> {
+    return await executor
+      .select({
+        investorId: sql<string>`${coOwnerSlots.investorId}`,
+        investorName: investors.fullName,
+        slotId: coOwnerSlots.id,
+        reservationId: coOwnerSlots.reservationId,
+        sharePercentage: coOwnerSlots.sharePercentage,
+      })
+      .from(coOwnerSlots)
+      .innerJoin(propertyReservations, eq(coOwnerSlots.reservationId, propertyReservations.id))
+      .innerJoin(investors, eq(coOwnerSlots.investorId, investors.id))
+      .where(and(
+        condition,
+        eq(coOwnerSlots.paymentStatus, "paid"),
+        // Closed reservations belong to a property that has been sold
+        sql`${propertyReservations.reservationStatus} NOT IN ('cancelled', 'closed')`
+      ))
+      .orderBy(coOwnerSlots.slotNumber);
+  }
+
+  async getPropertyOwners(propertyId: string): Promise<PropertyOwner[]> {
+    return await this.selectPropertyOwners(db, eq(propertyReservations.propertyId, propertyId));
+  }
+
+  async recordRentalDistribution(
+    propertyId: string,
+    income: RecordRentalIncomeInput,
+    recordedBy: string
+  ): Promise<RentalDistributionWithPayouts | { rejected: string }> {
+    return await db.transaction(async (tx) => {
+      // Lock the property so two distributions for the same period cannot both pass the overlap check
+      const [property] = await tx.select().from(properties).where(eq(properties.id, propertyId)).for("update");
+
+      const [overlapping] = await tx
+        .select()
+        .from(rentalDistributions)
+        .where(and(
+          eq(rentalDistributions.propertyId, property.id),
+          lte(rentalDistributions.periodStart, income.periodEnd),
+          gte(rentalDistributions.periodEnd, income.periodStart)
+        ));
+      if (overlapping) {
+        return {
+          rejected: `Rent for ${overlapping.periodStart.toLocaleDateString("en-GB")} to ${overlapping.periodEnd.toLocaleDateString("en-GB")} has already been distributed`,
+        };
+      }
+
+      const owners = await this.selectPropertyOwners(tx, eq(propertyReservations.propertyId, property.id));
+      const ownedShare = owners.reduce((sum, owner) => sum + Number(owner.sharePercentage), 0);
+      if (Math.abs(ownedShare - 100) > 0.01) {
+        return { rejected: `Only ${Number(ownedShare.toFixed(2))}% of ${property.title} is paid for; rent is distributed once every share is paid` };
+      }
+
+      const netCents = toCents(income.grossRent) - toCents(income.managementFee) - toCents(income.serviceCharges) - toCents(income.maintenance);
+      const [distribution] = await tx
+        .insert(rentalDistributions)
+        .values({
+          propertyId: property.id,
+          periodStart: income.periodStart,
+          periodEnd: income.periodEnd,
+          grossRent: income.grossRent.toFixed(2),
+          managementFee: income.managementFee.toFixed(2),
+          serviceCharges: income.serviceCharges.toFixed(2),
+          maintenance: income.maintenance.toFixed(2),
+          netIncome: (netCents / 100).toFixed(2),
+          notes: income.notes || null,
+          recordedBy,
+        })
+        .returning();
+
+      const allocations = allocateByShare(distribution.netIncome, owners).filter(allocation => allocation.amount > 0);
+      const payouts = await tx
+        .insert(rentalPayouts)
+        .values(allocations.map(allocation => ({
+          distributionId: distribution.id,
+          investorId: allocation.investorId,
+          slotId: allocation.slotId,
+          sharePercentage: allocation.sharePercentage,
+          amount: allocation.amount.toFixed(2),
+        })))
+        .returning();
+
+      await this.postJournalEntry(tx, {
+        entryType: "rental_distribution",
+        description: `Rent for ${property.title}, ${income.periodStart.toLocaleDateString("en-GB")} to ${income.periodEnd.toLocaleDateString("en-GB")}`,
+        sourceType: "rental_distribution",
+        sourceId: distribution.id,
+        postedBy: recordedBy,
+      }, rentalDistributionLines(property, distribution, allocations.map(allocation => ({
+        investor: { id: allocation.investorId, fullName: allocation.investorName },
+        amount: allocation.amount,
+      }))));
+
+      const investorNames = new Map(owners.map(owner => [owner.investorId, owner.investorName]));
+      return {
+        ...distribution,
+        payouts: payouts.map(payout => ({ ...payout, investorName: investorNames.get(payout.investorId) ?? "" })),
+      };
+    });
+  }
+
+  async getRentalDistributions(propertyId: string): Promise<RentalDistributionWithPayouts[]> {
+    const distributions = await db
+      .select()
+      .from(rentalDistributions)
+      .where(eq(rentalDistributions.propertyId, propertyId))
+      .orderBy(desc(rentalDistributions.periodStart));
+    if (distributions.length === 0) {
+      return [];
+    }
+
+    const payoutRows = await db
+      .select({ payout: rentalPayouts, investorName: investors.fullName })
+      .from(rentalPayouts)
+      .innerJoin(investors, eq(rentalPayouts.investorId, investors.id))
+      .where(inArray(rentalPayouts.distributionId, distributions.map(distribution => distribution.id)))
+      .orderBy(rentalPayouts.createdAt);
+
+    return distributions.map(distribution => ({
+      ...distribution,
+      payouts: payoutRows
+        .filter(row => row.payout.distributionId === distribution.id)
+        .map(row => ({ ...row.payout, investorName: row.investorName })),
+    }));
+  }
+
+  async getRentalPayoutById(id: string): Promise<RentalPayout | undefined> {
+    const [payout] = await db.select().from(rentalPayouts).where(eq(rentalPayouts.id, id));
+    return payout;
+  }
+
+  async markRentalPayoutPaid(id: string, paymentReference: string, paidBy: string): Promise<RentalPayout | undefined> {
+    return await db.transaction(async (tx) => {
+      const [payout] = await tx.select().from(rentalPayouts).where(eq(rentalPayouts.id, id)).for("update");
+      if (!payout || payout.status !== "pending") {
+        return undefined;
+      }
+
+      const [row] = await tx
+        .select({ property: properties, investor: investors })
+        .from(rentalDistributions)
+        .innerJoin(properties, eq(rentalDistributions.propertyId, properties.id))
+        .innerJoin(investors, eq(investors.id, payout.investorId))
+        .where(eq(rentalDistributions.id, payout.distributionId));
+
+      await this.postJournalEntry(tx, {
+        entryType: "rental_payout",
+        description: `Rent paid out to ${row.investor.fullName} for ${row.property.title} (ref ${paymentReference})`,
+        sourceType: "rental_payout",
+        sourceId: payout.id,
+        postedBy: paidBy,
+      }, rentalPayoutLines(row.property, row.investor, payout.amount));
+
+      const [paid] = await tx
+        .update(rentalPayouts)
+        .set({ status: "paid", paymentReference, paidBy, paidAt: new Date() })
+        .where(eq(rentalPayouts.id, payout.id))
+        .returning();
+      return paid;
+    });
+  }
+
+  async getInvestorRentalPayouts(investorId: string): Promise<InvestorRentalPayout[]> {
+    const rows = await db
+      .select({
+        payout: rentalPayouts,
+        propertyId: properties.id,
+        propertyTitle: properties.title,
+        periodStart: rentalDistributions.periodStart,
+        periodEnd: rentalDistributions.periodEnd,
+      })
+      .from(rentalPayouts)
+      .innerJoin(rentalDistributions, eq(rentalPayouts.distributionId, rentalDistributions.id))
+      .innerJoin(properties, eq(rentalDistributions.propertyId, properties.id))
+      .where(eq(rentalPayouts.investorId, investorId))
+      .orderBy(desc(rentalDistributions.periodStart));
+
+    return rows.map(({ payout, ...distribution }) => ({ ...payout, ...distribution }));
+  }
+
+  async getInvestorRentalYields(investorId: string): Promise<RentalYield[]> {
+    const owned = await db
+      .select({ property: properties, sharePercentage: coOwnerSlots.sharePercentage })
+      .from(coOwnerSlots)
+      .innerJoin(propertyReservations, eq(coOwnerSlots.reservationId, propertyReservations.id))
+      .innerJoin(properties, eq(propertyReservations.propertyId, properties.id))
+      .where(and(
+        eq(coOwnerSlots.investorId, investorId),
+        eq(coOwnerSlots.paymentStatus, "paid"),
+        sql`${propertyReservations.reservationStatus} NOT IN ('cancelled', 'closed')`
+      ));
+    const payouts = await this.getInvestorRentalPayouts(investorId);
+
+    const byProperty = new Map<string, { property: Property; share: number }>();
+    for (const { property, sharePercentage } of owned) {
+      const held = byProperty.get(property.id);
+      byProperty.set(property.id, { property, share: (held?.share ?? 0) + Number(sharePercentage) });
+    }
+
+    return Array.from(byProperty.values()).map(({ property, share }) => {
+      const costBasis = Number(calculateSlotAmount(property.totalPrice, share.toFixed(2)));
+      const distributedCents = payouts
+        .filter(payout => payout.propertyId === property.id)
+        .reduce((sum, payout) => sum + toCents(payout.amount), 0);
+      return {
+        propertyId: property.id,
+        propertyTitle: property.title,
+        sharePercentage: share.toFixed(2),
+        costBasis: costBasis.toFixed(2),
+        distributed: (distributedCents / 100).toFixed(2),
+        yieldToDate: costBasis > 0 ? (distributedCents / 100 / costBasis * 100).toFixed(2) : "0.00",
+      };
+    });
+  }
+
+  async recordPropertyExpense(
+    propertyId: string,
+    expense: RecordExpenseInput,
+    invoice: { path: string; filename: string } | null,
+    recordedBy: string
+  ): Promise<PropertyExpenseWithDetails | { rejected: string }> {
+    const result = await db.transaction(async (tx): Promise<{ expenseId: string } | { rejected: string }> => {
+      const [property] = await tx.select().from(properties).where(eq(properties.id, propertyId)).for("update");
+
+      const owners = await this.selectPropertyOwners(tx, eq(propertyReservations.propertyId, property.id));
+      const ownedShare = owners.reduce((sum, owner) => sum + Number(owner.sharePercentage), 0);
+      if (Math.abs(ownedShare - 100) > 0.01) {
+        return { rejected: `Only ${Number(ownedShare.toFixed(2))}% of ${property.title} is paid for; expenses are shared once every share is paid` };
+      }
+
+      const coOwnerCount = new Set(owners.map(owner => owner.investorId)).size;
+      const approvalsRequired = approvalsRequiredFor(expense.amount, coOwnerCount);
+      const [recorded] = await tx
+        .insert(propertyExpenses)
+        .values({
+          propertyId: property.id,
+          category: expense.category,
+          vendor: expense.vendor,
+          description: expense.description || null,
+          invoiceNumber: expense.invoiceNumber || null,
+          invoicePath: invoice?.path ?? null,
+          invoiceFilename: invoice?.filename ?? null,
+          amount: expense.amount.toFixed(2),
+          dueDate: expense.dueDate,
+          status: approvalsRequired > 0 ? "pending_approval" : "approved",
+          approvalsRequired,
+          recordedBy,
+        })
+        .returning();
+
+      await tx.insert(expenseAllocations).values(allocateByShare(recorded.amount, owners).map(allocation => ({
+        expenseId: recorded.id,
+        investorId: allocation.investorId,
+        slotId: allocation.slotId,
+        sharePercentage: allocation.sharePercentage,
+        amount: allocation.amount.toFixed(2),
+      })));
+
+      if (recorded.status === "approved") {
+        await this.postExpenseCharge(tx, recorded);
+      }
+      return { expenseId: recorded.id };
+    });
+
+    if ("rejected" in result) {
+      return result;
+    }
+    return (await this.getPropertyExpenseWithDetails(result.expenseId))!;
+  }
+
+  /**
+   * Charge an approved expense to the co-owners' wallets
+   */
+  private async postExpenseCharge(tx: DbTransaction, expense: PropertyExpense): Promise<JournalEntry> {
+    const [property] = await tx.select().from(properties).where(eq(properties.id, expense.propertyId));
+    const allocations = await tx
+      .select({ allocation: expenseAllocations, investor: investors })
+      .from(expenseAllocations)
+      .innerJoin(investors, eq(expenseAllocations.investorId, investors.id))
+      .where(eq(expenseAllocations.expenseId, expense.id));
+
+    return await this.postJournalEntry(tx, {
+      entryType: "property_expense",
+      description: `${expense.vendor} ${expense.invoiceNumber ? `invoice ${expense.invoiceNumber} ` : ""}for ${property.title}`,
+      sourceType: "property_expense",
+      sourceId: expense.id,
+      postedBy: expense.recordedBy,
+    }, expenseChargedLines(property, allocations.map(({ allocation, investor }) => ({ investor, amount: allocation.amount }))));
+  }
+
+  private async withExpenseDetails(expenses: PropertyExpense[]): Promise<PropertyExpenseWithDetails[]> {
+    if (expenses.length === 0) {
+      return [];
+    }
+    const expenseIds = expenses.map(expense => expense.id);
+
+    const allocationRows = await db
+      .select({ allocation: expenseAllocations, investorName: investors.fullName })
+      .from(expenseAllocations)
+      .innerJoin(investors, eq(expenseAllocations.investorId, investors.id))
+      .where(inArray(expenseAllocations.expenseId, expenseIds));
+    const approvalRows = await db
+      .select({ approval: expenseApprovals, investorName: investors.fullName })
+      .from(expenseApprovals)
+      .innerJoin(investors, eq(expenseApprovals.investorId, investors.id))
+      .where(inArray(expenseApprovals.expenseId, expenseIds))
+      .orderBy(expenseApprovals.decidedAt);
+
+    return expenses.map(expense => ({
+      ...expense,
+      allocations: allocationRows
+        .filter(row => row.allocation.expenseId === expense.id)
+        .map(row => ({ ...row.allocation, investorName: row.investorName })),
+      approvals: approvalRows
+        .filter(row => row.approval.expenseId === expense.id)
+        .map(row => ({ ...row.approval, investorName: row.investorName })),
+    }));
+  }
+
+  async getPropertyExpenses(propertyId: string): Promise<PropertyExpenseWithDetails[]> {
+    const expenses = await db
+      .select()
+      .from(propertyExpenses)
+      .where(eq(propertyExpenses.propertyId, propertyId))
+      .orderBy(desc(propertyExpenses.dueDate));
+    return await this.withExpenseDetails(expenses);
+  }
+
+  async getPropertyExpenseWithDetails(id: string): Promise<PropertyExpenseWithDetails | undefined> {
+    const [expense] = await db.select().from(propertyExpenses).where(eq(propertyExpenses.id, id));
+    if (!expense) {
+      return undefined;
+    }
+    const [withDetails] = await this.withExpenseDetails([expense]);
+    return withDetails;
+  }
+
+  async decideExpense(
+    id: string,
+    investorId: string,
+    decision: "approved" | "rejected",
+    comment: string | null
+  ): Promise<{ expense: PropertyExpense; outcome: ExpenseOutcome } | { rejected: string }> {
+    return await db.transaction(async (tx) => {
+      // Lock the expense so the deciding vote is counted once
+      const [expense] = await tx.select().from(propertyExpenses).where(eq(propertyExpenses.id, id)).for("update");
+      if (expense.status !== "pending_approval") {
+        return { rejected: "This expense is no longer waiting for approval" };
+      }
+
+      const allocations = await tx.select().from(expenseAllocations).where(eq(expenseAllocations.expenseId, expense.id));
+      if (!allocations.some(allocation => allocation.investorId === investorId)) {
+        return { rejected: "Only co-owners of the property can decide on this expense" };
+      }
+
+      const [approval] = await tx
+        .insert(expenseApprovals)
+        .values({ expenseId: expense.id, investorId, decision, comment })
+        .onConflictDoNothing({ target: [expenseApprovals.expenseId, expenseApprovals.investorId] })
+        .returning();
+      if (!approval) {
+        return { rejected: "You have already decided on this expense" };
+      }
+
+      const decisions = await tx.select().from(expenseApprovals).where(eq(expenseApprovals.expenseId, expense.id));
+      const outcome = expenseOutcome(
+        new Set(allocations.map(allocation => allocation.investorId)).size,
+        expense.approvalsRequired,
+        decisions.filter(d => d.decision === "approved").length,
+        decisions.filter(d => d.decision === "rejected").length
+      );
+      if (outcome === "pending") {
+        return { expense, outcome };
+      }
+
+      const [decided] = await tx
+        .update(propertyExpenses)
+        .set({ status: outcome, decidedAt: new Date() })
+        .where(eq(propertyExpenses.id, expense.id))
+        .returning();
+      if (outcome === "approved") {
+        await this.postExpenseCharge(tx, decided);
+      }
+      return { expense: decided, outcome };
+    });
+  }
+
+  async markExpensePaid(id: string, paymentReference: string, paidBy: string): Promise<PropertyExpense | undefined> {
+    return await db.transaction(async (tx) => {
+      const [expense] = await tx.select().from(propertyExpenses).where(eq(propertyExpenses.id, id)).for("update");
+      if (!expense || expense.status !== "approved") {
+        return undefined;
+      }
+
+      const [property] = await tx.select().from(properties).where(eq(properties.id, expense.propertyId));
+      await this.postJournalEntry(tx, {
+        entryType: "expense_payment",
+        description: `Paid ${expense.vendor} for ${property.title} (ref ${paymentReference})`,
+        sourceType: "expense_payment",
+        sourceId: expense.id,
+        postedBy: paidBy,
+      }, expensePaidLines(property, expense.amount));
+
+      const [paid] = await tx
+        .update(propertyExpenses)
+        .set({ status: "paid", paymentReference, paidBy, paidAt: new Date() })
+        .where(eq(propertyExpenses.id, expense.id))
+        .returning();
+      return paid;
+    });
+  }
+
+  async getInvestorExpenses(investorId: string): Promise<InvestorExpense[]> {
+    const rows = await db
+      .select({ expense: propertyExpenses, propertyTitle: properties.title })
+      .from(propertyExpenses)
+      .innerJoin(properties, eq(propertyExpenses.propertyId, properties.id))
+      .where(inArray(
+        propertyExpenses.id,
+        db.select({ id: expenseAllocations.expenseId }).from(expenseAllocations).where(eq(expenseAllocations.investorId, investorId))
+      ))
+      .orderBy(desc(propertyExpenses.dueDate));
+
+    const details = await this.withExpenseDetails(rows.map(row => row.expense));
+    return details.map((expense, index) => {
+      const mine = expense.allocations.filter(allocation => allocation.investorId === investorId);
+      const { allocations, approvals, ...rest } = expense;
+      return {
+        ...rest,
+        propertyTitle: rows[index].propertyTitle,
+        sharePercentage: mine.reduce((sum, allocation) => sum + Number(allocation.sharePercentage), 0).toFixed(2),
+        shareAmount: (mine.reduce((sum, allocation) => sum + toCents(allocation.amount), 0) / 100).toFixed(2),
+        coOwnerCount: new Set(allocations.map(allocation => allocation.investorId)).size,
+        approvals: approvals.filter(approval => approval.decision === "approved").length,
+        rejections: approvals.filter(approval => approval.decision === "rejected").length,
+        myDecision: approvals.find(approval => approval.investorId === investorId)?.decision ?? null,
+      };
+    });
+  }
+
+  async getOwnerStatementActivity(investorId: string, propertyId: string): Promise<StatementActivity[]> {
+    const [paymentRows, refundRows, payoutRows, allocationRows, transferRows, exitRows] = await Promise.all([
+      db
+        .select({ payment: payments })
+        .from(payments)
+        .innerJoin(fractions, eq(payments.fractionId, fractions.id))
+        .where(and(
+          eq(payments.investorId, investorId),
+          eq(fractions.propertyId, propertyId),
+          inArray(payments.status, ["completed", "partially_refunded", "refunded"])
+        )),
+      db
+        .select()
+        .from(refunds)
+        .where(and(eq(refunds.investorId, investorId), eq(refunds.propertyId, propertyId), eq(refunds.status, "completed"))),
+      db
+        .select({ payout: rentalPayouts, periodStart: rentalDistributions.periodStart, periodEnd: rentalDistributions.periodEnd, recordedAt: rentalDistributions.createdAt })
+        .from(rentalPayouts)
+        .innerJoin(rentalDistributions, eq(rentalPayouts.distributionId, rentalDistributions.id))
+        .where(and(eq(rentalPayouts.investorId, investorId), eq(rentalDistributions.propertyId, propertyId))),
+      db
+        .select({ allocation: expenseAllocations, expense: propertyExpenses })
+        .from(expenseAllocations)
+        .innerJoin(propertyExpenses, eq(expenseAllocations.expenseId, propertyExpenses.id))
+        .where(and(
+          eq(expenseAllocations.investorId, investorId),
+          eq(propertyExpenses.propertyId, propertyId),
+          inArray(propertyExpenses.status, ["approved", "paid"])
+        )),
+      db
+        .select()
+        .from(shareTransfers)
+        .where(and(
+          eq(shareTransfers.propertyId, propertyId),
+          eq(shareTransfers.status, "completed"),
+          or(eq(shareTransfers.sellerInvestorId, investorId), eq(shareTransfers.buyerInvestorId, investorId))
+        )),
+      db
+        .select({ payout: exitPayouts, exit: propertyExits })
+        .from(exitPayouts)
+        .innerJoin(propertyExits, eq(exitPayouts.exitId, propertyExits.id))
+        .where(and(eq(exitPayouts.investorId, investorId), eq(propertyExits.propertyId, propertyId), eq(propertyExits.status, "completed"))),
+    ]);
+
+    const period = (start: Date, end: Date) => `${start.toISOString().slice(0, 10)} to ${end.toISOString().slice(0, 10)}`;
+    const activity: StatementActivity[] = [];
+
+    for (const { payment } of paymentRows) {
+      activity.push({
+        date: payment.completedAt || payment.createdAt,
+        kind: "contribution",
+        description: payment.paymentMethod === "bank_transfer" ? "Share payment by bank transfer" : "Share payment by card",
+        amount: Number(payment.amount),
+      });
+    }
+    for (const refund of refundRows) {
+      activity.push({
+        date: refund.completedAt || refund.createdAt,
+        kind: "refund",
+        description: refund.reason,
+        amount: -Number(refund.amount),
+      });
+    }
+    for (const { payout, periodStart, periodEnd, recordedAt } of payoutRows) {
+      activity.push({ date: recordedAt, kind: "rent", description: `Net rent ${period(periodStart, periodEnd)}`, amount: Number(payout.amount) });
+      if (payout.status === "paid" && payout.paidAt) {
+        activity.push({
+          date: payout.paidAt,
+          kind: "distribution",
+          description: `Rent payout${payout.paymentReference ? ` ref ${payout.paymentReference}` : ""}`,
+          amount: -Number(payout.amount),
+        });
+      }
+    }
+    for (const { allocation, expense } of allocationRows) {
+      // Expenses reach the owner account when they are approved
+      activity.push({
+        date: expense.decidedAt || expense.createdAt,
+        kind: "expense",
+        description: `${expense.vendor}${expense.invoiceNumber ? ` #${expense.invoiceNumber}` : ""}`,
+        amount: -Number(allocation.amount),
+      });
+    }
+    for (const transfer of transferRows) {
+      // A share sold on moves its paid-in capital from the seller's account to the buyer's
+      const sold = transfer.sellerInvestorId === investorId;
+      activity.push({
+        date: transfer.settledAt || transfer.createdAt,
+        kind: "contribution",
+        description: `${sold ? "Share sold" : "Share bought"} ref ${transfer.settlementReference}`,
+        amount: sold ? -Number(transfer.capitalTransferred || 0) : Number(transfer.capitalTransferred || 0),
+      });
+    }
+    for (const { payout, exit } of exitRows) {
+      // The sale closes out the owner's capital and credits their share of the net proceeds
+      const soldAt = exit.completedAt || exit.createdAt;
+      if (Number(payout.capitalReturned) > 0) {
+        activity.push({
+          date: soldAt,
+          kind: "contribution",
+          description: `Capital closed on sale, DLD ref ${exit.transferReference}`,
+          amount: -Number(payout.capitalReturned),
+        });
+      }
+      activity.push({ date: soldAt, kind: "sale", description: `Net sale proceeds ${payout.statementNumber || ""}`.trim(), amount: Number(payout.amount) });
+      if (payout.status === "paid" && payout.paidAt) {
+        activity.push({
+          date: payout.paidAt,
+          kind: "distribution",
+          description: `Sale proceeds payout${payout.paymentReference ? ` ref ${payout.paymentReference}` : ""}`,
+          amount: -Number(payout.amount),
+        });
+      }
+    }
+
+    return activity.sort((a, b) => a.date.getTime() - b.date.getTime());
+  }
+
+  async getStatementRecipients(period: Pick<StatementPeriod, "periodStart" | "endsBefore">): Promise<Array<{ investorId: string; propertyId: string }>> {
+    const { endsBefore } = period;
+    const [payers, buyers, sold] = await Promise.all([
+      db
+        .selectDistinct({ investorId: payments.investorId, propertyId: fractions.propertyId })
+        .from(payments)
+        .innerJoin(fractions, eq(payments.fractionId, fractions.id))
+        .where(and(
+          inArray(payments.status, ["completed", "partially_refunded", "refunded"]),
+          lt(sql`COALESCE(${payments.completedAt}, ${payments.createdAt})`, endsBefore)
+        )),
+      // Investors who bought their share from another co-owner have no payments of their own
+      db
+        .selectDistinct({ investorId: shareTransfers.buyerInvestorId, propertyId: shareTransfers.propertyId })
+        .from(shareTransfers)
+        .where(and(eq(shareTransfers.status, "completed"), lt(shareTransfers.settledAt, endsBefore))),
+      // Properties sold before the period have nothing left to report
+      db
+        .select({ propertyId: propertyExits.propertyId })
+        .from(propertyExits)
+        .where(and(eq(propertyExits.status, "completed"), lt(propertyExits.completedAt, period.periodStart))),
+    ]);
+
+    const soldIds = new Set(sold.map(exit => exit.propertyId));
+    const seen = new Set(payers.map(recipient => `${recipient.investorId}:${recipient.propertyId}`));
+    return [...payers, ...buyers.filter(recipient => !seen.has(`${recipient.investorId}:${recipient.propertyId}`))]
+      .filter(recipient => !soldIds.has(recipient.propertyId));
+  }
+
+  async issueOwnerStatement(
+    investorId: string,
+    propertyId: string,
+    period: StatementPeriod,
+    trigger: "schedule" | "on_demand"
+  ): Promise<OwnerStatement> {
+    const findIssued = async (executor: Pick<DbTransaction, "select">) => {
+      const [issued] = await executor
+        .select()
+        .from(ownerStatements)
+        .where(and(
+          eq(ownerStatements.investorId, investorId),
+          eq(ownerStatements.propertyId, propertyId),
+          eq(ownerStatements.periodType, period.periodType),
+          eq(ownerStatements.periodStart, period.periodStart)
+        ));
+      return issued;
+    };
+
+    const existing = await findIssued(db);
+    if (existing) {
+      return existing;
+    }
+
+    const [investor, property, activity, holdings] = await Promise.all([
+      this.getInvestorById(investorId),
+      this.getPropertyById(propertyId),
+      this.getOwnerStatementActivity(investorId, propertyId),
+      this.selectPropertyOwners(db, and(eq(propertyReservations.propertyId, propertyId), eq(coOwnerSlots.investorId, investorId))!),
+    ]);
+    if (!investor || !property) {
+      throw new Error("Statement is missing its investor or property");
+    }
+    const language = investor.preferredLanguage === "ar" ? "ar" : "en";
+    const summary = summarizeStatement(activity, period);
+    const sharePercentage = holdings.length > 0
+      ? holdings.reduce((sum, holding) => sum + Number(holding.sharePercentage), 0).toFixed(2)
+      : null;
+
+    const uploadsDir = path.join(process.cwd(), "uploads", "statements");
+    await fs.mkdir(uploadsDir, { recursive: true });
+
+    return await db.transaction(async (tx) => {
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext('owner_statements'))`);
+
+      // The schedule and an investor's request may race for the same period
+      const issued = await findIssued(tx);
+      if (issued) {
+        return issued;
+      }
+
+      const [{ lastNumber }] = await tx
+        .select({ lastNumber: sql<number>`COALESCE(MAX(${ownerStatements.sequenceNumber}), 0)` })
+        .from(ownerStatements);
+      const sequenceNumber = Number(lastNumber) + 1;
+      const issuedAt = new Date();
+      const statementNumber = `FOPD-STM-${issuedAt.getUTCFullYear()}-${String(sequenceNumber).padStart(6, "0")}`;
+
+      const pdfBytes = await generateOwnerStatementPDF({
+        statementNumber,
+        issuedAt,
+        investor,
+        property,
+        sharePercentage,
+        period,
+        summary,
+        language,
+      });
+      const csv = buildStatementCSV({ statementNumber, investorName: investor.fullName, propertyTitle: property.title, period, summary });
+
+      await fs.writeFile(path.join(uploadsDir, `${statementNumber}.pdf`), pdfBytes);
+      await fs.writeFile(path.join(uploadsDir, `${statementNumber}.csv`), csv);
+
+      const [statement] = await tx
+        .insert(ownerStatements)
+        .values({
+          investorId,
+          propertyId,
+          sequenceNumber,
+          statementNumber,
+          periodType: period.periodType,
+          periodStart: period.periodStart,
+          periodEnd: period.periodEnd,
+          openingBalance: summary.openingBalance.toFixed(2),
+          contributions: summary.contributions.toFixed(2),
+          rentReceived: summary.rentReceived.toFixed(2),
+          expensesAllocated: summary.expensesAllocated.toFixed(2),
+          distributions: summary.distributions.toFixed(2),
+          saleProceeds: summary.saleProceeds.toFixed(2),
+          closingBalance: summary.closingBalance.toFixed(2),
+          language,
+          filePath: `uploads/statements/${statementNumber}.pdf`,
+          fileHash: generateHash(Buffer.from(pdfBytes).toString("base64")),
+          csvPath: `uploads/statements/${statementNumber}.csv`,
+          csvHash: generateHash(csv),
+          trigger,
+          issuedAt,
+        })
+        .returning();
+      return statement;
+    });
+  }
+
+  async getOwnerStatementById(id: string): Promise<OwnerStatement | undefined> {
+    const [statement] = await db.select().from(ownerStatements).where(eq(ownerStatements.id, id));
+    return statement || undefined;
+  }
+
+  async getInvestorOwnerStatements(investorId: string): Promise<OwnerStatementWithProperty[]> {
+    const rows = await db
+      .select({ statement: ownerStatements, propertyTitle: properties.title })
+      .from(ownerStatements)
+      .innerJoin(properties, eq(ownerStatements.propertyId, properties.id))
+      .where(eq(ownerStatements.investorId, investorId))
+      .orderBy(desc(ownerStatements.periodStart), ownerStatements.periodType);
+
+    return rows.map(({ statement, propertyTitle }) => ({ ...statement, propertyTitle }));
+  }
+
+  async getInvestorHoldings(investorId: string): Promise<Array<PropertyOwner & { propertyId: string; propertyTitle: string }>> {
+    const holdings = await this.selectPropertyOwners(db, eq(coOwnerSlots.investorId, investorId));
+    if (holdings.length === 0) {
+      return [];
+    }
+
+    const reservations = await db
+      .select({ id: propertyReservations.id, propertyId: properties.id, propertyTitle: properties.title })
+      .from(propertyReservations)
+      .innerJoin(properties, eq(propertyReservations.propertyId, properties.id))
+      .where(inArray(propertyReservations.id, holdings.map(holding => holding.reservationId)));
+
+    return holdings.map(holding => {
+      const reservation = reservations.find(r => r.id === holding.reservationId)!;
+      return { ...holding, propertyId: reservation.propertyId, propertyTitle: reservation.propertyTitle };
+    });
+  }
+
+  async createShareListing(sellerInvestorId: string, input: CreateShareListingInput): Promise<ShareListing | { rejected: string }> {
+    return await db.transaction(async (tx): Promise<ShareListing | { rejected: string }> => {
+      // Lock the slot so the same share cannot be listed twice at once
+      const [slot] = await tx.select().from(coOwnerSlots).where(eq(coOwnerSlots.id, input.slotId)).for("update");
+      if (!slot || slot.investorId !== sellerInvestorId) {
+        return { rejected: "You can only sell a share you hold" };
+      }
+
+      const [held] = await this.selectPropertyOwners(tx, eq(coOwnerSlots.id, slot.id));
+      if (!held) {
+        return { rejected: "Only a paid share can be sold" };
+      }
+
+      const [active] = await tx
+        .select()
+        .from(shareListings)
+        .where(and(eq(shareListings.slotId, slot.id), inArray(shareListings.status, ["listed", "agreed"])));
+      if (active) {
+        return { rejected: "This share is already listed for sale" };
+      }
+
+      const [reservation] = await tx.select().from(propertyReservations).where(eq(propertyReservations.id, slot.reservationId));
+      const [exit] = await tx
+        .select({ id: propertyExits.id })
+        .from(propertyExits)
+        .where(and(eq(propertyExits.propertyId, reservation.propertyId), inArray(propertyExits.status, ["listed", "agreed"])));
+      if (exit) {
+        return { rejected: "The whole property is being sold, so single shares can't be listed" };
+      }
+
+      const [listing] = await tx
+        .insert(shareListings)
+        .values({
+          propertyId: reservation.propertyId,
+          slotId: slot.id,
+          sellerInvestorId,
+          sharePercentage: slot.sharePercentage,
+          askingPrice: input.askingPrice.toFixed(2),
+          notes: input.notes || null,
+          rofrEndsAt: rofrEndsAt(),
+        })
+        .returning();
+      return listing;
+    });
+  }
+
+  async getMarketShareListings(investorId: string, verified: boolean): Promise<MarketShareListing[]> {
+    const [rows, owned, pendingOffers] = await Promise.all([
+      db
+        .select({ listing: shareListings, propertyTitle: properties.title, propertyLocation: properties.location })
+        .from(shareListings)
+        .innerJoin(properties, eq(shareListings.propertyId, properties.id))
+        .where(and(eq(shareListings.status, "listed"), sql`${shareListings.sellerInvestorId} <> ${investorId}`))
+        .orderBy(desc(shareListings.createdAt)),
+      db
+        .selectDistinct({ propertyId: propertyReservations.propertyId })
+        .from(coOwnerSlots)
+        .innerJoin(propertyReservations, eq(coOwnerSlots.reservationId, propertyReservations.id))
+        .where(and(
+          eq(coOwnerSlots.investorId, investorId),
+          eq(coOwnerSlots.paymentStatus, "paid"),
+          sql`${propertyReservations.reservationStatus} NOT IN ('cancelled', 'closed')`
+        )),
+      db
+        .select()
+        .from(shareOffers)
+        .where(and(eq(shareOffers.buyerInvestorId, investorId), eq(shareOffers.status, "pending"))),
+    ]);
+
+    const coOwned = new Set(owned.map(row => row.propertyId));
+    return rows
+      .map(({ listing, propertyTitle, propertyLocation }) => ({
+        ...listing,
+        propertyTitle,
+        propertyLocation,
+        phase: listingPhase(listing),
+        isCoOwner: coOwned.has(listing.propertyId),
+        myOffer: pendingOffers.find(offer => offer.listingId === listing.id) || null,
+      }))
+      // Co-owners see a listing from the start; everyone else once it opens, and only when verified
+      .filter(listing => listing.isCoOwner || (listing.phase === "open" && verified));
+  }
+
+  async getShareListingById(id: string): Promise<ShareListing | undefined> {
+    const [listing] = await db.select().from(shareListings).where(eq(shareListings.id, id));
+    return listing;
+  }
+
+  async getSellerShareListings(sellerInvestorId: string): Promise<SellerShareListing[]> {
+    const rows = await db
+      .select({ listing: shareListings, propertyTitle: properties.title })
+      .from(shareListings)
+      .innerJoin(properties, eq(shareListings.propertyId, properties.id))
+      .where(eq(shareListings.sellerInvestorId, sellerInvestorId))
+      .orderBy(desc(shareListings.createdAt));
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const offers = await db
+      .select({ offer: shareOffers, buyerName: investors.fullName })
+      .from(shareOffers)
+      .innerJoin(investors, eq(shareOffers.buyerInvestorId, investors.id))
+      .where(inArray(shareOffers.listingId, rows.map(row => row.listing.id)))
+      .orderBy(desc(shareOffers.amount));
+
+    return rows.map(({ listing, propertyTitle }) => ({
+      ...listing,
+      propertyTitle,
+      phase: listingPhase(listing),
+      offers: offers
+        .filter(({ offer }) => offer.listingId === listing.id)
+        .map(({ offer, buyerName }) => ({ ...offer, buyerName })),
+    }));
+  }
+
+  async withdrawShareListing(id: string, sellerInvestorId: string): Promise<ShareListing | { rejected: string }> {
+    return await db.transaction(async (tx): Promise<ShareListing | { rejected: string }> => {
+      const [listing] = await tx.select().from(shareListings).where(eq(shareListings.id, id)).for("update");
+      if (!listing || listing.sellerInvestorId !== sellerInvestorId) {
+        return { rejected: "Listing not found" };
+      }
+      if (listing.status !== "listed") {
+        return { rejected: "A listing with an agreed sale cannot be withdrawn" };
+      }
+
+      await tx
+        .update(shareOffers)
+        .set({ status: "cancelled", decidedAt: new Date() })
+        .where(and(eq(shareOffers.listingId, listing.id), eq(shareOffers.status, "pending")));
+      const [withdrawn] = await tx
+        .update(shareListings)
+        .set({ status: "withdrawn", updatedAt: new Date() })
+        .where(eq(shareListings.id, listing.id))
+        .returning();
+      return withdrawn;
+    });
+  }
+
+  async makeShareOffer(listingId: string, buyerInvestorId: string, input: ShareOfferInput): Promise<ShareOffer | { rejected: string }> {
+    return await db.transaction(async (tx): Promise<ShareOffer | { rejected: string }> => {
+      const [listing] = await tx.select().from(shareListings).where(eq(shareListings.id, listingId)).for("update");
+      if (!listing || listing.status !== "listed") {
+        return { rejected: "This share is no longer for sale" };
+      }
+      if (listing.sellerInvestorId === buyerInvestorId) {
+        return { rejected: "You cannot make an offer on your own share" };
+      }
+      if (listingPhase(listing) === "right_of_first_refusal") {
+        return { rejected: `Co-owners have first refusal on this share until ${listing.rofrEndsAt.toISOString().slice(0, 10)}` };
+      }
+
+      const [offer] = await tx
+        .insert(shareOffers)
+        .values({ listingId: listing.id, buyerInvestorId, amount: input.amount.toFixed(2), message: input.message || null })
+        .onConflictDoNothing({
+          target: [shareOffers.listingId, shareOffers.buyerInvestorId],
+          where: sql`status = 'pending'`,
+        })
+        .returning();
+      if (!offer) {
+        return { rejected: "You already have an offer waiting on this share" };
+      }
+      return offer;
+    });
+  }
+
+  async exerciseRightOfFirstRefusal(listingId: string, buyerInvestorId: string): Promise<ShareTransfer | { rejected: string }> {
+    return await db.transaction(async (tx): Promise<ShareTransfer | { rejected: string }> => {
+      const [listing] = await tx.select().from(shareListings).where(eq(shareListings.id, listingId)).for("update");
+      if (!listing || listing.status !== "listed") {
+        return { rejected: "This share is no longer for sale" };
+      }
+      if (listing.sellerInvestorId === buyerInvestorId) {
+        return { rejected: "You cannot buy your own share" };
+      }
+      if (listingPhase(listing) !== "right_of_first_refusal") {
+        return { rejected: "The right of first refusal has ended; make an offer instead" };
+      }
+
+      const holdings = await this.selectPropertyOwners(tx, and(
+        eq(propertyReservations.propertyId, listing.propertyId),
+        eq(coOwnerSlots.investorId, buyerInvestorId)
+      )!);
+      if (holdings.length === 0) {
+        return { rejected: "Only co-owners of the property hold a right of first refusal" };
+      }
+
+      const template = await this.getShareTransferTemplate(tx);
+      if (!template) {
+        return { rejected: "No share transfer agreement is available; contact FOPD" };
+      }
+
+      // A co-owner exercising first refusal buys at the asking price
+      const [offer] = await tx
+        .insert(shareOffers)
+        .values({
+          listingId: listing.id,
+          buyerInvestorId,
+          amount: listing.askingPrice,
+          isRightOfFirstRefusal: true,
+          status: "accepted",
+          decidedAt: new Date(),
+        })
+        .returning();
+      return await this.openShareTransfer(tx, listing, offer, template);
+    });
+  }
+
+  async acceptShareOffer(offerId: string, sellerInvestorId: string): Promise<ShareTransfer | { rejected: string }> {
+    return await db.transaction(async (tx): Promise<ShareTransfer | { rejected: string }> => {
+      const [pending] = await tx.select().from(shareOffers).where(eq(shareOffers.id, offerId));
+      if (!pending) {
+        return { rejected: "Offer not found" };
+      }
+      // Lock the listing before the offer, in the same order as making an offer
+      const [listing] = await tx.select().from(shareListings).where(eq(shareListings.id, pending.listingId)).for("update");
+      if (listing.sellerInvestorId !== sellerInvestorId) {
+        return { rejected: "Offer not found" };
+      }
+      if (listing.status !== "listed") {
+        return { rejected: "This share already has an agreed sale" };
+      }
+
+      const template = await this.getShareTransferTemplate(tx);
+      if (!template) {
+        return { rejected: "No share transfer agreement is available; contact FOPD" };
+      }
+
+      const [offer] = await tx
+        .update(shareOffers)
+        .set({ status: "accepted", decidedAt: new Date() })
+        .where(and(eq(shareOffers.id, pending.id), eq(shareOffers.status, "pending")))
+        .returning();
+      if (!offer) {
+        return { rejected: "This offer is no longer open" };
+      }
+      return await this.openShareTransfer(tx, listing, offer, template);
+    });
+  }
+
+  private async getShareTransferTemplate(executor: Pick<DbTransaction, "select">): Promise<AgreementTemplate | undefined> {
+    const [template] = await executor
+      .select()
+      .from(agreementTemplates)
+      .where(and(eq(agreementTemplates.templateType, "share_transfer"), eq(agreementTemplates.isActive, true)))
+      .orderBy(desc(agreementTemplates.version))
+      .limit(1);
+    return template;
+  }
+
+  /**
+   * Agree a sale: other offers are turned down and both parties are asked to sign the transfer agreement
+   */
+  private async openShareTransfer(
+    tx: DbTransaction,
+    listing: ShareListing,
+    offer: ShareOffer,
+    template: AgreementTemplate
+  ): Promise<ShareTransfer> {
+    const now = new Date();
+    await tx
+      .update(shareOffers)
+      .set({ status: "rejected", decidedAt: now })
+      .where(and(eq(shareOffers.listingId, listing.id), eq(shareOffers.status, "pending")));
+    await tx
+      .update(shareListings)
+      .set({ status: "agreed", updatedAt: now })
+      .where(eq(shareListings.id, listing.id));
+
+    const [transfer] = await tx
+      .insert(shareTransfers)
+      .values({
+        listingId: listing.id,
+        offerId: offer.id,
+        propertyId: listing.propertyId,
+        slotId: listing.slotId,
+        sellerInvestorId: listing.sellerInvestorId,
+        buyerInvestorId: offer.buyerInvestorId,
+        sharePercentage: listing.sharePercentage,
+        price: offer.amount,
+        templateId: template.id,
+        settlementReference: generateTransferReference(),
+      })
+      .returning();
+    return transfer;
+  }
+
+  async rejectShareOffer(offerId: string, sellerInvestorId: string): Promise<ShareOffer | { rejected: string }> {
+    const [offer] = await db
+      .update(shareOffers)
+      .set({ status: "rejected", decidedAt: new Date() })
+      .where(and(
+        eq(shareOffers.id, offerId),
+        eq(shareOffers.status, "pending"),
+        inArray(shareOffers.listingId, db.select({ id: shareListings.id }).from(shareListings).where(eq(shareListings.sellerInvestorId, sellerInvestorId)))
+      ))
+      .returning();
+    return offer || { rejected: "This offer is no longer open" };
+  }
+
+  async withdrawShareOffer(offerId: string, buyerInvestorId: string): Promise<ShareOffer | { rejected: string }> {
+    const [offer] = await db
+      .update(shareOffers)
+      .set({ status: "withdrawn", decidedAt: new Date() })
+      .where(and(eq(shareOffers.id, offerId), eq(shareOffers.buyerInvestorId, buyerInvestorId), eq(shareOffers.status, "pending")))
+      .returning();
+    return offer || { rejected: "This offer is no longer open" };
+  }
+
+  async getInvestorShareOffers(buyerInvestorId: string): Promise<InvestorShareOffer[]> {
+    const rows = await db
+      .select({ offer: shareOffers, listing: shareListings, propertyTitle: properties.title })
+      .from(shareOffers)
+      .innerJoin(shareListings, eq(shareOffers.listingId, shareListings.id))
+      .innerJoin(properties, eq(shareListings.propertyId, properties.id))
+      .where(eq(shareOffers.buyerInvestorId, buyerInvestorId))
+      .orderBy(desc(shareOffers.createdAt));
+
+    return rows.map(({ offer, listing, propertyTitle }) => ({
+      ...offer,
+      propertyTitle,
+      sharePercentage: listing.sharePercentage,
+      askingPrice: listing.askingPrice,
+      listingStatus: listing.status,
+    }));
+  }
+
+  async getShareTransferById(id: string): Promise<ShareTransfer | undefined> {
+    const [transfer] = await db.select().from(shareTransfers).where(eq(shareTransfers.id, id));
+    return transfer;
+  }
+
+  private async selectShareTransfers(condition?: SQL): Promise<ShareTransferWithDetails[]> {
+    const rows = await db
+      .select({ transfer: shareTransfers, propertyTitle: properties.title })
+      .from(shareTransfers)
+      .innerJoin(properties, eq(shareTransfers.propertyId, properties.id))
+      .where(condition)
+      .orderBy(desc(shareTransfers.createdAt));
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const partyIds = Array.from(new Set(rows.flatMap(({ transfer }) => [transfer.sellerInvestorId, transfer.buyerInvestorId])));
+    const [parties, signatures] = await Promise.all([
+      db.select({ id: investors.id, fullName: investors.fullName }).from(investors).where(inArray(investors.id, partyIds)),
+      db
+        .select({ shareTransferId: investorSignatures.shareTransferId, investorId: investorSignatures.investorId })
+        .from(investorSignatures)
+        .where(and(
+          inArray(investorSignatures.shareTransferId, rows.map(({ transfer }) => transfer.id)),
+          isNull(investorSignatures.invalidatedAt)
+        )),
+    ]);
+    const names = new Map(parties.map(party => [party.id, party.fullName]));
+
+    return rows.map(({ transfer, propertyTitle }) => ({
+      ...transfer,
+      propertyTitle,
+      sellerName: names.get(transfer.sellerInvestorId) || "",
+      buyerName: names.get(transfer.buyerInvestorId) || "",
+      signedInvestorIds: signatures.filter(sig => sig.shareTransferId === transfer.id).map(sig => sig.investorId),
+    }));
+  }
+
+  async getShareTransfers(status?: string): Promise<ShareTransferWithDetails[]> {
+    return await this.selectShareTransfers(status ? eq(shareTransfers.status, status) : undefined);
+  }
+
+  async getInvestorShareTransfers(investorId: string): Promise<ShareTransferWithDetails[]> {
+    return await this.selectShareTransfers(
+      or(eq(shareTransfers.sellerInvestorId, investorId), eq(shareTransfers.buyerInvestorId, investorId))
+    );
+  }
+
+  async recordShareTransferSignature(transferId: string): Promise<ShareTransfer> {
+    return await db.transaction(async (tx) => {
+      // Lock the transfer so the agreement is sealed once, by whichever party signs last
+      const [transfer] = await tx.select().from(shareTransfers).where(eq(shareTransfers.id, transferId)).for("update");
+      if (transfer.status !== "signing") {
+        return transfer;
+      }
+
+      const signatures = await tx
+        .select()
+        .from(investorSignatures)
+        .where(and(eq(investorSignatures.shareTransferId, transfer.id), isNull(investorSignatures.invalidatedAt)));
+      const sellerSignature = signatures.find(sig => sig.investorId === transfer.sellerInvestorId);
+      const buyerSignature = signatures.find(sig => sig.investorId === transfer.buyerInvestorId);
+      if (!sellerSignature || !buyerSignature) {
+        return transfer;
+      }
+
+      const [[template], [property], [seller], [buyer]] = await Promise.all([
+        tx.select().from(agreementTemplates).where(eq(agreementTemplates.id, transfer.templateId)),
+        tx.select().from(properties).where(eq(properties.id, transfer.propertyId)),
+        tx.select().from(investors).where(eq(investors.id, transfer.sellerInvestorId)),
+        tx.select().from(investors).where(eq(investors.id, transfer.buyerInvestorId)),
+      ]);
+
+      const pdfBytes = await generateAggregatedPDF({
+        template: {
+          ...template,
+          content: fillShareTransferPlaceholders(template.content, {
+            seller,
+            buyer,
+            sharePercentage: transfer.sharePercentage,
+            price: transfer.price,
+            settlementReference: transfer.settlementReference,
+          }),
+        },
+        property,
+        signatures: [[seller, sellerSignature] as const, [buyer, buyerSignature] as const].map(([investor, signature]) => ({
+          investor,
+          signatureImage: decryptData(signature.encryptedSignatureData),
+          signedAt: signature.signedAt,
+          ipAddress: signature.ipAddress || undefined,
+          signatureHash: signature.signatureHash,
+        })),
+        allInvestors: [seller, buyer],
+      });
+
+      const uploadsDir = path.join(process.cwd(), "uploads", "signed-documents");
+      await fs.mkdir(uploadsDir, { recursive: true });
+      const filename = `share_transfer_${transfer.settlementReference}.pdf`;
+      await fs.writeFile(path.join(uploadsDir, filename), pdfBytes);
+      const relativeFilePath = `uploads/signed-documents/${filename}`;
+      const fileHash = generateHash(Buffer.from(pdfBytes).toString("base64"));
+
+      const sealedAt = new Date();
+      const [document] = await tx
+        .insert(signedDocuments)
+        .values({
+          propertyId: transfer.propertyId,
+          documentType: "share_transfer",
+          filePath: relativeFilePath,
+          fileHash,
+          templateVersion: template.version,
+          allSignaturesComplete: true,
+          sealedAt,
+        })
+        .returning();
+
+      await tx.insert(signatureAuditLog).values({
+        eventType: "document_sealed",
+        propertyId: transfer.propertyId,
+        metadata: JSON.stringify({ documentType: "share_transfer", shareTransferId: transfer.id, fileHash, filePath: relativeFilePath }),
+      });
+
+      const [signed] = await tx
+        .update(shareTransfers)
+        .set({ status: "awaiting_payment", signedDocumentId: document.id })
+        .where(eq(shareTransfers.id, transfer.id))
+        .returning();
+      return signed;
+    });
+  }
+
+  /**
+   * Capital paid into a slot so far, net of refunds, in cents
+   */
+  private async selectSlotCapitalCents(executor: Pick<DbTransaction, "select">, slotId: string): Promise<number> {
+    const [[slotPayments], [slotInstalments]] = await Promise.all([
+      executor
+        .select({ total: sql<string>`COALESCE(SUM(${payments.amount} - ${payments.refundedAmount}), 0)` })
+        .from(payments)
+        .innerJoin(fractions, eq(payments.fractionId, fractions.id))
+        .where(and(eq(fractions.slotId, slotId), inArray(payments.status, ["completed", "partially_refunded", "refunded"]))),
+      executor
+        .select({ total: sql<string>`COALESCE(SUM(${instalmentPayments.amount}), 0)` })
+        .from(instalmentPayments)
+        .where(eq(instalmentPayments.slotId, slotId)),
+    ]);
+    return toCents(slotPayments.total) + toCents(slotInstalments.total);
+  }
+
+  async settleShareTransfer(id: string, paymentReference: string, settledBy: string): Promise<ShareTransfer | { rejected: string }> {
+    return await db.transaction(async (tx): Promise<ShareTransfer | { rejected: string }> => {
+      const [transfer] = await tx.select().from(shareTransfers).where(eq(shareTransfers.id, id)).for("update");
+      if (!transfer || transfer.status !== "awaiting_payment") {
+        return { rejected: "Only a signed transfer awaiting payment can be settled" };
+      }
+
+      const [slot] = await tx.select().from(coOwnerSlots).where(eq(coOwnerSlots.id, transfer.slotId)).for("update");
+      if (slot.investorId !== transfer.sellerInvestorId || slot.paymentStatus !== "paid") {
+        return { rejected: "The seller no longer holds this share" };
+      }
+
+      // The capital paid into the slot follows the share, whoever paid it
+      const capitalCents = await this.selectSlotCapitalCents(tx, slot.id);
+
+      await tx.update(coOwnerSlots).set({ investorId: transfer.buyerInvestorId }).where(eq(coOwnerSlots.id, slot.id));
+      const moved = await tx
+        .update(fractions)
+        .set({ investorId: transfer.buyerInvestorId })
+        .where(and(eq(fractions.slotId, slot.id), eq(fractions.investorId, transfer.sellerInvestorId)))
+        .returning({ id: fractions.id });
+      if (moved.length > 0) {
+        await tx
+          .update(investors)
+          .set({ fractionsPurchased: sql`GREATEST(${investors.fractionsPurchased} - ${moved.length}, 0)` })
+          .where(eq(investors.id, transfer.sellerInvestorId));
+        await tx
+          .update(investors)
+          .set({ fractionsPurchased: sql`${investors.fractionsPurchased} + ${moved.length}` })
+          .where(eq(investors.id, transfer.buyerInvestorId));
+      }
+
+      if (capitalCents > 0) {
+        const [[property], [seller], [buyer]] = await Promise.all([
+          tx.select().from(properties).where(eq(properties.id, transfer.propertyId)),
+          tx.select().from(investors).where(eq(investors.id, transfer.sellerInvestorId)),
+          tx.select().from(investors).where(eq(investors.id, transfer.buyerInvestorId)),
+        ]);
+        await this.postJournalEntry(tx, {
+          entryType: "share_transfer",
+          description: `${Number(transfer.sharePercentage)}% of ${property.title} sold by ${seller.fullName} to ${buyer.fullName} (ref ${transfer.settlementReference})`,
+          sourceType: "share_transfer",
+          sourceId: transfer.id,
+          postedBy: settledBy,
+        }, shareTransferLines(seller, buyer, capitalCents / 100));
+      }
+
+      const now = new Date();
+      await tx.update(shareListings).set({ status: "sold", updatedAt: now }).where(eq(shareListings.id, transfer.listingId));
+      const [settled] = await tx
+        .update(shareTransfers)
+        .set({
+          status: "completed",
+          capitalTransferred: (capitalCents / 100).toFixed(2),
+          paymentReference,
+          settledBy,
+          settledAt: now,
+        })
+        .where(eq(shareTransfers.id, transfer.id))
+        .returning();
+      return settled;
+    });
+  }
+
+  async cancelShareTransfer(id: string, reason: string): Promise<ShareTransfer | { rejected: string }> {
+    return await db.transaction(async (tx): Promise<ShareTransfer | { rejected: string }> => {
+      const [transfer] = await tx.select().from(shareTransfers).where(eq(shareTransfers.id, id)).for("update");
+      if (!transfer || (transfer.status !== "signing" && transfer.status !== "awaiting_payment")) {
+        return { rejected: "Only a transfer that has not settled can be cancelled" };
+      }
+
+      const now = new Date();
+      await tx
+        .update(investorSignatures)
+        .set({ invalidatedAt: now, invalidationReason: reason })
+        .where(and(eq(investorSignatures.shareTransferId, transfer.id), isNull(investorSignatures.invalidatedAt)));
+      await tx
+        .update(signatureSessions)
+        .set({ status: "expired" })
+        .where(and(eq(signatureSessions.shareTransferId, transfer.id), inArray(signatureSessions.status, ["pending", "verified"])));
+      if (transfer.signedDocumentId) {
+        await tx
+          .update(signedDocuments)
+          .set({ invalidatedAt: now, invalidationReason: reason })
+          .where(eq(signedDocuments.id, transfer.signedDocumentId));
+      }
+
+      // The share goes back on the market
+      await tx.update(shareOffers).set({ status: "cancelled", decidedAt: now }).where(eq(shareOffers.id, transfer.offerId));
+      await tx.update(shareListings).set({ status: "listed", updatedAt: now }).where(eq(shareListings.id, transfer.listingId));
+      const [cancelled] = await tx
+        .update(shareTransfers)
+        .set({ status: "cancelled", cancellationReason: reason, cancelledAt: now })
+        .where(eq(shareTransfers.id, transfer.id))
+        .returning();
+      return cancelled;
+    });
+  }
+
+  async createGovernanceProposal(
+    input: CreateGovernanceProposalInput,
+    proposer: { investorId: string } | { adminId: string }
+  ): Promise<GovernanceProposal | { rejected: string }> {
+    const problem = deadlineProblem(input.deadline);
+    if (problem) {
+      return { rejected: problem };
+    }
+
+    return await db.transaction(async (tx): Promise<GovernanceProposal | { rejected: string }> => {
+      const [property] = await tx.select().from(properties).where(eq(properties.id, input.propertyId)).for("update");
+      if (!property) {
+        return { rejected: "Property not found" };
+      }
+
+      const owners = await this.selectPropertyOwners(tx, eq(propertyReservations.propertyId, property.id));
+      const ownedShare = owners.reduce((sum, owner) => sum + Number(owner.sharePercentage), 0);
+      if (Math.abs(ownedShare - 100) > 0.01) {
+        return { rejected: `Only ${Number(ownedShare.toFixed(2))}% of ${property.title} is paid for; co-owners vote once every share is paid` };
+      }
+      if ("investorId" in proposer && !owners.some(owner => owner.investorId === proposer.investorId)) {
+        return { rejected: "Only co-owners of the property can make proposals" };
+      }
+
+      const [proposal] = await tx
+        .insert(governanceProposals)
+        .values({
+          propertyId: property.id,
+          category: input.category,
+          title: input.title,
+          description: input.description,
+          quorumPercentage: (input.quorumPercentage ?? getDefaultQuorum()).toFixed(2),
+          thresholdPercentage: (input.thresholdPercentage ?? getDefaultThreshold()).toFixed(2),
+          deadline: input.deadline,
+          proposedByInvestorId: "investorId" in proposer ? proposer.investorId : null,
+          proposedByAdminId: "adminId" in proposer ? proposer.adminId : null,
+        })
+        .returning();
+
+      // One vote per co-owner, however many slots they hold
+      const shares = new Map<string, number>();
+      for (const owner of owners) {
+        shares.set(owner.investorId, (shares.get(owner.investorId) || 0) + toCents(owner.sharePercentage));
+      }
+      await tx.insert(governanceVoters).values(Array.from(shares, ([investorId, share]) => ({
+        proposalId: proposal.id,
+        investorId,
+        sharePercentage: (share / 100).toFixed(2),
+      })));
+      return proposal;
+    });
+  }
+
+  async getGovernanceProposalById(id: string): Promise<GovernanceProposal | undefined> {
+    const [proposal] = await db.select().from(governanceProposals).where(eq(governanceProposals.id, id));
+    return proposal;
+  }
+
+  private async selectGovernanceProposals(condition?: SQL): Promise<GovernanceProposalWithDetails[]> {
+    const rows = await db
+      .select({ proposal: governanceProposals, propertyTitle: properties.title, proposerName: investors.fullName })
+      .from(governanceProposals)
+      .innerJoin(properties, eq(governanceProposals.propertyId, properties.id))
+      .leftJoin(investors, eq(governanceProposals.proposedByInvestorId, investors.id))
+      .where(condition)
+      .orderBy(desc(governanceProposals.createdAt));
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const proposalIds = rows.map(({ proposal }) => proposal.id);
+    const [voterRows, votes] = await Promise.all([
+      db
+        .select({ voter: governanceVoters, investorName: investors.fullName })
+        .from(governanceVoters)
+        .innerJoin(investors, eq(governanceVoters.investorId, investors.id))
+        .where(inArray(governanceVoters.proposalId, proposalIds)),
+      db
+        .select()
+        .from(governanceVotes)
+        .where(inArray(governanceVotes.proposalId, proposalIds))
+        .orderBy(governanceVotes.castAt),
+    ]);
+
+    return rows.map(({ proposal, propertyTitle, proposerName }) => {
+      const proposalVotes = votes.filter(vote => vote.proposalId === proposal.id);
+      return {
+        ...proposal,
+        propertyTitle,
+        proposedByName: proposerName ?? (proposal.proposedByAdminId ? "FOPD" : null),
+        ballots: voterRows
+          .filter(({ voter }) => voter.proposalId === proposal.id)
+          .map(({ voter, investorName }) => {
+            const vote = proposalVotes.find(v => v.investorId === voter.investorId);
+            return {
+              investorId: voter.investorId,
+              investorName,
+              sharePercentage: voter.sharePercentage,
+              choice: vote?.choice ?? null,
+              castAt: vote?.castAt ?? null,
+              ballotHash: vote?.ballotHash ?? null,
+            };
+          }),
+        votes: proposalVotes,
+        chainIntact: isBallotChainIntact(proposalVotes),
+      };
+    });
+  }
+
+  async getGovernanceProposals(propertyId?: string): Promise<GovernanceProposalWithDetails[]> {
+    return await this.selectGovernanceProposals(propertyId ? eq(governanceProposals.propertyId, propertyId) : undefined);
+  }
+
+  async getGovernanceProposalWithDetails(id: string): Promise<GovernanceProposalWithDetails | undefined> {
+    const [proposal] = await this.selectGovernanceProposals(eq(governanceProposals.id, id));
+    return proposal;
+  }
+
+  async getInvestorGovernanceProposals(investorId: string): Promise<GovernanceProposalWithDetails[]> {
+    return await this.selectGovernanceProposals(inArray(
+      governanceProposals.id,
+      db.select({ id: governanceVoters.proposalId }).from(governanceVoters).where(eq(governanceVoters.investorId, investorId))
+    ));
+  }
+
+  async getGovernanceVoter(proposalId: string, investorId: string): Promise<GovernanceVoter | undefined> {
+    const [voter] = await db
+      .select()
+      .from(governanceVoters)
+      .where(and(eq(governanceVoters.proposalId, proposalId), eq(governanceVoters.investorId, investorId)));
+    return voter;
+  }
+
+  async castGovernanceVote(
+    proposalId: string,
+    investorId: string,
+    choice: GovernanceChoice,
+    connection: { ipAddress: string | null; userAgent: string | null }
+  ): Promise<{ proposal: GovernanceProposal; vote: GovernanceVote; outcome: ProposalOutcome } | { rejected: string }> {
+    return await db.transaction(async (tx): Promise<{ proposal: GovernanceProposal; vote: GovernanceVote; outcome: ProposalOutcome } | { rejected: string }> => {
+      // Lock the proposal so ballots chain in order and the deciding vote closes it once
+      const [proposal] = await tx.select().from(governanceProposals).where(eq(governanceProposals.id, proposalId)).for("update");
+      if (proposal.status !== "open" || proposal.deadline.getTime() <= Date.now()) {
+        return { rejected: "Voting on this proposal has closed" };
+      }
+
+      const [voter] = await tx
+        .select()
+        .from(governanceVoters)
+        .where(and(eq(governanceVoters.proposalId, proposal.id), eq(governanceVoters.investorId, investorId)));
+      if (!voter) {
+        return { rejected: "Only co-owners of the property can vote on this proposal" };
+      }
+
+      // The proposal lock serialises ballots, so this check holds until the insert below
+      const [existing] = await tx
+        .select({ id: governanceVotes.id })
+        .from(governanceVotes)
+        .where(and(eq(governanceVotes.proposalId, proposal.id), eq(governanceVotes.investorId, investorId)));
+      if (existing) {
+        return { rejected: "You have already voted on this proposal" };
+      }
+
+      const [previous] = await tx
+        .select()
+        .from(governanceVotes)
+        .where(eq(governanceVotes.proposalId, proposal.id))
+        .orderBy(desc(governanceVotes.castAt))
+        .limit(1);
+      const castAt = new Date();
+      const previousHash = previous?.ballotHash ?? null;
+      const [vote] = await tx
+        .insert(governanceVotes)
+        .values({
+          proposalId: proposal.id,
+          investorId,
+          choice,
+          sharePercentage: voter.sharePercentage,
+          ipAddress: connection.ipAddress,
+          userAgent: connection.userAgent,
+          previousHash,
+          ballotHash: ballotHash({ previousHash, proposalId: proposal.id, investorId, choice, sharePercentage: voter.sharePercentage, castAt }),
+          castAt,
+        })
+        .returning();
+
+      const column = { for: "sharesFor", against: "sharesAgainst", abstain: "sharesAbstained" } as const;
+      const tallied = {
+        ...proposal,
+        [column[choice]]: ((toCents(proposal[column[choice]]) + toCents(voter.sharePercentage)) / 100).toFixed(2),
+      };
+      const [updated] = await tx
+        .update(governanceProposals)
+        .set({ sharesFor: tallied.sharesFor, sharesAgainst: tallied.sharesAgainst, sharesAbstained: tallied.sharesAbstained })
+        .where(eq(governanceProposals.id, proposal.id))
+        .returning();
+
+      const outcome = await this.governanceOutcome(tx, updated, false);
+      if (outcome === "open") {
+        return { proposal: updated, vote, outcome };
+      }
+      return { proposal: await this.closeGovernanceProposal(tx, updated, outcome), vote, outcome };
+    });
+  }
+
+  private async governanceOutcome(tx: DbTransaction, proposal: GovernanceProposal, final: boolean): Promise<ProposalOutcome> {
+    const [{ total }] = await tx
+      .select({ total: sql<string>`COALESCE(SUM(${governanceVoters.sharePercentage}), 0)` })
+      .from(governanceVoters)
+      .where(eq(governanceVoters.proposalId, proposal.id));
+    return proposalOutcome({
+      total: Number(total),
+      for: Number(proposal.sharesFor),
+      against: Number(proposal.sharesAgainst),
+      abstained: Number(proposal.sharesAbstained),
+    }, Number(proposal.quorumPercentage), Number(proposal.thresholdPercentage), final);
+  }
+
+  /**
+   * Record the outcome; a passed proposal gets a numbered resolution listing every ballot
+   */
+  private async closeGovernanceProposal(
+    tx: DbTransaction,
+    proposal: GovernanceProposal,
+    outcome: Exclude<ProposalOutcome, "open">
+  ): Promise<GovernanceProposal> {
+    const closedAt = new Date();
+    if (outcome !== "passed") {
+      const [closed] = await tx
+        .update(governanceProposals)
+        .set({ status: outcome, closedAt })
+        .where(eq(governanceProposals.id, proposal.id))
+        .returning();
+      return closed;
+    }
+
+    await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext('governance_resolutions'))`);
+    const [{ issuedCount }] = await tx
+      .select({ issuedCount: sql<number>`COUNT(*)` })
+      .from(governanceProposals)
+      .where(sql`${governanceProposals.resolutionNumber} IS NOT NULL`);
+    const resolutionNumber = `FOPD-RES-${closedAt.getUTCFullYear()}-${String(Number(issuedCount) + 1).padStart(6, "0")}`;
+
+    const [property] = await tx.select().from(properties).where(eq(properties.id, proposal.propertyId));
+    const voterRows = await tx
+      .select({ voter: governanceVoters, investorName: investors.fullName })
+      .from(governanceVoters)
+      .innerJoin(investors, eq(governanceVoters.investorId, investors.id))
+      .where(eq(governanceVoters.proposalId, proposal.id));
+    const votes = await tx.select().from(governanceVotes).where(eq(governanceVotes.proposalId, proposal.id));
+
+    const pdfBytes = await generateResolutionPDF({
+      resolutionNumber,
+      property,
+      proposal: { ...proposal, status: outcome, closedAt },
+      categoryLabel: governanceCategoryLabels[proposal.category as GovernanceCategory] || proposal.category,
+      ballots: voterRows.map(({ voter, investorName }) => {
+        const vote = votes.find(v => v.investorId === voter.investorId);
+        return {
+          investorName,
+          sharePercentage: voter.sharePercentage,
+          choice: vote?.choice ?? null,
+          castAt: vote?.castAt ?? null,
+          ballotHash: vote?.ballotHash ?? null,
+        };
+      }),
+    });
+
+    const uploadsDir = path.join(process.cwd(), "uploads", "resolutions");
+    await fs.mkdir(uploadsDir, { recursive: true });
+    await fs.writeFile(path.join(uploadsDir, `${resolutionNumber}.pdf`), pdfBytes);
+
+    const [closed] = await tx
+      .update(governanceProposals)
+      .set({
+        status: outcome,
+        closedAt,
+        resolutionNumber,
+        resolutionPath: `uploads/resolutions/${resolutionNumber}.pdf`,
+        resolutionHash: generateHash(Buffer.from(pdfBytes).toString("base64")),
+      })
+      .where(eq(governanceProposals.id, proposal.id))
+      .returning();
+    return closed;
+  }
+
+  async closeDueGovernanceProposals(now: Date = new Date()): Promise<GovernanceProposal[]> {
+    const due = await db
+      .select({ id: governanceProposals.id })
+      .from(governanceProposals)
+      .where(and(eq(governanceProposals.status, "open"), lte(governanceProposals.deadline, now)));
+
+    const closed: GovernanceProposal[] = [];
+    for (const { id } of due) {
+      const proposal = await db.transaction(async (tx): Promise<GovernanceProposal | null> => {
+        const [locked] = await tx.select().from(governanceProposals).where(eq(governanceProposals.id, id)).for("update");
+        if (locked.status !== "open") {
+          return null;
+        }
+        const outcome = await this.governanceOutcome(tx, locked, true);
+        return await this.closeGovernanceProposal(tx, locked, outcome === "open" ? "no_quorum" : outcome);
+      });
+      if (proposal) {
+        closed.push(proposal);
+      }
+    }
+    return closed;
+  }
+
+  async cancelGovernanceProposal(id: string, reason: string): Promise<GovernanceProposal | { rejected: string }> {
+    const [cancelled] = await db
+      .update(governanceProposals)
+      .set({ status: "cancelled", cancellationReason: reason, closedAt: new Date() })
+      .where(and(eq(governanceProposals.id, id), eq(governanceProposals.status, "open")))
+      .returning();
+    return cancelled || { rejected: "Only open proposals can be cancelled" };
+  }
+
+  async openPropertyExit(propertyId: string, input: OpenPropertyExitInput, createdBy: string): Promise<PropertyExit | { rejected: string }> {
+    return await db.transaction(async (tx): Promise<PropertyExit | { rejected: string }> => {
+      const [property] = await tx.select().from(properties).where(eq(properties.id, propertyId)).for("update");
+      if (!property) {
+        return { rejected: "Property not found" };
+      }
+      if (property.status === "sold") {
+        return { rejected: `${property.title} has already been sold` };
+      }
+
+      const [proposal] = await tx.select().from(governanceProposals).where(eq(governanceProposals.id, input.proposalId));
+      if (!proposal || proposal.propertyId !== property.id || proposal.category !== "property_sale" || proposal.status !== "passed") {
+        return { rejected: "A property is only put up for sale under a passed resolution of its co-owners to sell" };
+      }
+
+      const owners = await this.selectPropertyOwners(tx, eq(propertyReservations.propertyId, property.id));
+      const ownedShare = owners.reduce((sum, owner) => sum + Number(owner.sharePercentage), 0);
+      if (Math.abs(ownedShare - 100) > 0.01) {
+        return { rejected: `Only ${Number(ownedShare.toFixed(2))}% of ${property.title} is paid for; a property is sold once every share is paid` };
+      }
+
+      const [active] = await tx
+        .select()
+        .from(propertyExits)
+        .where(and(eq(propertyExits.propertyId, property.id), inArray(propertyExits.status, ["listed", "agreed"])));
+      if (active) {
+        return { rejected: `${property.title} is already on the market` };
+      }
+
+      const [exit] = await tx
+        .insert(propertyExits)
+        .values({
+          propertyId: property.id,
+          proposalId: proposal.id,
+          askingPrice: input.askingPrice.toFixed(2),
+          listingAgent: input.listingAgent || null,
+          listingReference: input.listingReference || null,
+          notes: input.notes || null,
+          createdBy,
+        })
+        .returning();
+      return exit;
+    });
   }
 
-  async getInvestorByEmail(email: string): Promise<Investor | undefined> {
-    const [investor] = await db.select().from(investors).where(eq(investors.email, email));
-    return investor;
+  async getPropertyExitById(id: string): Promise<PropertyExit | undefined> {
+    const [exit] = await db.select().from(propertyExits).where(eq(propertyExits.id, id));
+    return exit;
   }
 
-  async getInvestorById(id: string): Promise<Investor | undefined> {
-    const [investor] = await db.select().from(investors).where(eq(investors.id, id));
-    return investor;
+  private async selectPropertyExits(condition?: SQL): Promise<PropertyExitWithDetails[]> {
+    const rows = await db
+      .select({ exit: propertyExits, propertyTitle: properties.title, proposalTitle: governanceProposals.title })
+      .from(propertyExits)
+      .innerJoin(properties, eq(propertyExits.propertyId, properties.id))
+      .innerJoin(governanceProposals, eq(propertyExits.proposalId, governanceProposals.id))
+      .where(condition)
+      .orderBy(desc(propertyExits.createdAt));
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const exitIds = rows.map(row => row.exit.id);
+    const [offerRows, payoutRows] = await Promise.all([
+      db.select().from(exitOffers).where(inArray(exitOffers.exitId, exitIds)).orderBy(desc(exitOffers.createdAt)),
+      db
+        .select({ payout: exitPayouts, investorName: investors.fullName })
+        .from(exitPayouts)
+        .innerJoin(investors, eq(exitPayouts.investorId, investors.id))
+        .where(inArray(exitPayouts.exitId, exitIds))
+        .orderBy(exitPayouts.createdAt),
+    ]);
+
+    return rows.map(({ exit, propertyTitle, proposalTitle }) => ({
+      ...exit,
+      propertyTitle,
+      proposalTitle,
+      offers: offerRows.filter(offer => offer.exitId === exit.id),
+      payouts: payoutRows
+        .filter(row => row.payout.exitId === exit.id)
+        .map(row => ({ ...row.payout, investorName: row.investorName })),
+    }));
   }
 
-  async getAllInvestors(): Promise<Investor[]> {
-    return await db.select().from(investors).orderBy(desc(investors.createdAt));
+  async getPropertyExits(): Promise<PropertyExitWithDetails[]> {
+    return await this.selectPropertyExits();
   }
 
-  async updateInvestorKYCStatus(id: string, status: string): Promise<Investor> {
-    const [investor] = await db
-      .update(investors)
-      .set({ kycStatus: status })
-      .where(eq(investors.id, id))
+  async recordExitOffer(exitId: string, input: RecordExitOfferInput, recordedBy: string): Promise<ExitOffer | { rejected: string }> {
+    return await db.transaction(async (tx): Promise<ExitOffer | { rejected: string }> => {
+      const [exit] = await tx.select().from(propertyExits).where(eq(propertyExits.id, exitId)).for("update");
+      if (!exit || exit.status !== "listed") {
+        return { rejected: "Offers can only be recorded while the property is listed" };
+      }
+
+      const [offer] = await tx
+        .insert(exitOffers)
+        .values({
+          exitId: exit.id,
+          buyerName: input.buyerName,
+          buyerEmail: input.buyerEmail || null,
+          amount: input.amount.toFixed(2),
+          notes: input.notes || null,
+          recordedBy,
+        })
+        .returning();
+      return offer;
+    });
+  }
+
+  async getExitOfferById(id: string): Promise<ExitOffer | undefined> {
+    const [offer] = await db.select().from(exitOffers).where(eq(exitOffers.id, id));
+    return offer;
+  }
+
+  async acceptExitOffer(offerId: string): Promise<PropertyExit | { rejected: string }> {
+    return await db.transaction(async (tx): Promise<PropertyExit | { rejected: string }> => {
+      const [offer] = await tx.select().from(exitOffers).where(eq(exitOffers.id, offerId));
+      if (!offer) {
+        return { rejected: "Offer not found" };
+      }
+      const [exit] = await tx.select().from(propertyExits).where(eq(propertyExits.id, offer.exitId)).for("update");
+      if (exit.status !== "listed" || offer.status !== "pending") {
+        return { rejected: "Only a pending offer on a listed property can be accepted" };
+      }
+
+      const decidedAt = new Date();
+      await tx.update(exitOffers).set({ status: "accepted", decidedAt }).where(eq(exitOffers.id, offer.id));
+      // The property is under offer, so the other buyers are turned down
+      await tx
+        .update(exitOffers)
+        .set({ status: "rejected", decidedAt })
+        .where(and(eq(exitOffers.exitId, exit.id), eq(exitOffers.status, "pending")));
+
+      const [agreed] = await tx
+        .update(propertyExits)
+        .set({ status: "agreed", agreedOfferId: offer.id, salePrice: offer.amount })
+        .where(eq(propertyExits.id, exit.id))
+        .returning();
+      return agreed;
+    });
+  }
+
+  async rejectExitOffer(offerId: string): Promise<ExitOffer | { rejected: string }> {
+    const [rejected] = await db
+      .update(exitOffers)
+      .set({ status: "rejected", decidedAt: new Date() })
+      .where(and(eq(exitOffers.id, offerId), eq(exitOffers.status, "pending")))
       .returning();
-    return investor;
+    return rejected || { rejected: "Only a pending offer can be rejected" };
   }
 
-  async updateInvestorAfterPurchase(id: string, fractionsPurchased: number, totalInvested: string): Promise<Investor> {
-    const [investor] = await db
-      .update(investors)
-      .set({ 
-        fractionsPurchased,
-        totalInvested,
-        paymentStatus: "completed"
+  async withdrawPropertyExit(id: string, reason: string): Promise<PropertyExit | { rejected: string }> {
+    return await db.transaction(async (tx): Promise<PropertyExit | { rejected: string }> => {
+      const [withdrawn] = await tx
+        .update(propertyExits)
+        .set({ status: "withdrawn", withdrawalReason: reason })
+        .where(and(eq(propertyExits.id, id), inArray(propertyExits.status, ["listed", "agreed"])))
+        .returning();
+      if (!withdrawn) {
+        return { rejected: "Only a sale that has not completed can be withdrawn" };
+      }
+
+      await tx
+        .update(exitOffers)
+        .set({ status: "cancelled", decidedAt: new Date() })
+        .where(and(eq(exitOffers.exitId, withdrawn.id), inArray(exitOffers.status, ["pending", "accepted"])));
+      return withdrawn;
+    });
+  }
+
+  async completePropertyExit(
+    id: string,
+    input: CompletePropertyExitInput,
+    completedBy: string
+  ): Promise<PropertyExitWithDetails | { rejected: string }> {
+    const uploadsDir = path.join(process.cwd(), "uploads", "exit-statements");
+    await fs.mkdir(uploadsDir, { recursive: true });
+
+    const completedId = await db.transaction(async (tx): Promise<string | { rejected: string }> => {
+      const [exit] = await tx.select().from(propertyExits).where(eq(propertyExits.id, id)).for("update");
+      if (!exit || exit.status !== "agreed" || !exit.salePrice) {
+        return { rejected: "Only a sale with an accepted offer can be completed" };
+      }
+      const [property] = await tx.select().from(properties).where(eq(properties.id, exit.propertyId)).for("update");
+
+      const costs = { dldTransferFee: input.dldTransferFee, agencyCommission: input.agencyCommission, otherCosts: input.otherCosts };
+      const problem = exitCostsProblem(exit.salePrice, costs);
+      if (problem) {
+        return { rejected: problem };
+      }
+
+      const [transfer] = await tx
+        .select()
+        .from(shareTransfers)
+        .where(and(eq(shareTransfers.propertyId, property.id), inArray(shareTransfers.status, ["signing", "awaiting_payment"])));
+      if (transfer) {
+        return { rejected: `Settle or cancel share transfer ${transfer.settlementReference} before completing the sale` };
+      }
+
+      const owners = await this.selectPropertyOwners(tx, eq(propertyReservations.propertyId, property.id));
+      const ownedShare = owners.reduce((sum, owner) => sum + Number(owner.sharePercentage), 0);
+      if (Math.abs(ownedShare - 100) > 0.01) {
+        return { rejected: `Only ${Number(ownedShare.toFixed(2))}% of ${property.title} is held by paid co-owners` };
+      }
+      const ownerReservations = await tx
+        .select()
+        .from(propertyReservations)
+        .where(inArray(propertyReservations.id, Array.from(new Set(owners.map(owner => owner.reservationId)))))
+        .for("update");
+      const unpaidReservation = ownerReservations.find(reservation => reservation.reservationStatus !== "payment_complete");
+      if (unpaidReservation) {
+        return { rejected: `Reservation ${unpaidReservation.id} is ${unpaidReservation.reservationStatus}; only fully paid reservations can be closed` };
+      }
+
+      // Each co-owner's paid-in capital, across all the slots they hold
+      const capitalCents = new Map<string, number>();
+      for (const owner of owners) {
+        capitalCents.set(owner.investorId, (capitalCents.get(owner.investorId) ?? 0) + await this.selectSlotCapitalCents(tx, owner.slotId));
+      }
+
+      const allocations = allocateExitProceeds(exit.salePrice, costs, owners);
+      const completedAt = new Date();
+      const netCents = toCents(exit.salePrice) - toCents(costs.dldTransferFee) - toCents(costs.agencyCommission) - toCents(costs.otherCosts);
+      const [completed] = await tx
+        .update(propertyExits)
+        .set({
+          status: "completed",
+          dldTransferFee: costs.dldTransferFee.toFixed(2),
+          agencyCommission: costs.agencyCommission.toFixed(2),
+          otherCosts: costs.otherCosts.toFixed(2),
+          netProceeds: (netCents / 100).toFixed(2),
+          transferReference: input.transferReference,
+          paymentReference: input.paymentReference,
+          completedBy,
+          completedAt,
+        })
+        .where(eq(propertyExits.id, exit.id))
+        .returning();
+
+      const payouts = await tx
+        .insert(exitPayouts)
+        .values(allocations.map(allocation => ({
+          exitId: exit.id,
+          investorId: allocation.investorId,
+          sharePercentage: allocation.sharePercentage,
+          saleShare: allocation.saleShare.toFixed(2),
+          costShare: allocation.costShare.toFixed(2),
+          capitalReturned: ((capitalCents.get(allocation.investorId) ?? 0) / 100).toFixed(2),
+          amount: allocation.proceeds.toFixed(2),
+        })))
+        .returning();
+
+      await this.postJournalEntry(tx, {
+        entryType: "property_exit",
+        description: `Sale of ${property.title} (DLD ref ${input.transferReference})`,
+        sourceType: "property_exit",
+        sourceId: exit.id,
+        postedBy: completedBy,
+      }, propertyExitLines(property, { ...completed, salePrice: exit.salePrice }, payouts.map(payout => ({
+        investor: { id: payout.investorId, fullName: allocations.find(allocation => allocation.investorId === payout.investorId)?.investorName ?? "" },
+        capital: payout.capitalReturned,
+        proceeds: payout.amount,
+      }))));
+
+      // Close the property out: its reservations end and any single shares on the market lapse
+      await tx.update(properties).set({ status: "sold", updatedAt: completedAt }).where(eq(properties.id, property.id));
+      for (const reservation of ownerReservations) {
+        await this.forceReservationMove(tx, reservation, "closed", { adminUserId: completedBy });
+      }
+      const lapsed = await tx
+        .update(shareListings)
+        .set({ status: "withdrawn", updatedAt: completedAt })
+        .where(and(eq(shareListings.propertyId, property.id), eq(shareListings.status, "listed")))
+        .returning({ id: shareListings.id });
+      if (lapsed.length > 0) {
+        await tx
+          .update(shareOffers)
+          .set({ status: "cancelled", decidedAt: completedAt })
+          .where(and(inArray(shareOffers.listingId, lapsed.map(listing => listing.id)), eq(shareOffers.status, "pending")));
+      }
+
+      await this.issueExitStatements(tx, completed, property, payouts, uploadsDir);
+      return completed.id;
+    });
+
+    if (typeof completedId !== "string") {
+      return completedId;
+    }
+    const [details] = await this.selectPropertyExits(eq(propertyExits.id, completedId));
+    return details;
+  }
+
+  /**
+   * Final statement for each co-owner of a sold property, numbered in one sequence across all exits
+   */
+  private async issueExitStatements(
+    tx: DbTransaction,
+    exit: PropertyExit,
+    property: Property,
+    payouts: ExitPayout[],
+    uploadsDir: string
+  ): Promise<void> {
+    await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext('exit_statements'))`);
+    const [{ issuedCount }] = await tx
+      .select({ issuedCount: sql<number>`COUNT(*)` })
+      .from(exitPayouts)
+      .where(sql`${exitPayouts.statementNumber} IS NOT NULL`);
+
+    let sequenceNumber = Number(issuedCount);
+    for (const payout of payouts) {
+      sequenceNumber++;
+      const issuedAt = new Date();
+      const statementNumber = `FOPD-EXT-${issuedAt.getUTCFullYear()}-${String(sequenceNumber).padStart(6, "0")}`;
+
+      const [investor] = await tx.select().from(investors).where(eq(investors.id, payout.investorId));
+      // Rent and expenses over the whole holding; the sale itself is on the statement separately
+      const activity = await this.getOwnerStatementActivity(investor.id, property.id);
+      const totalOf = (kind: StatementActivity["kind"]) => activity
+        .filter(item => item.kind === kind)
+        .reduce((sum, item) => sum + toCents(item.amount), 0) / 100;
+
+      const pdfBytes = await generateExitStatementPDF({
+        statementNumber,
+        issuedAt,
+        investor,
+        property,
+        exit,
+        payout,
+        history: { rentReceived: totalOf("rent"), expensesAllocated: -totalOf("expense") },
+        language: investor.preferredLanguage === "ar" ? "ar" : "en",
+      });
+      await fs.writeFile(path.join(uploadsDir, `${statementNumber}.pdf`), pdfBytes);
+
+      await tx
+        .update(exitPayouts)
+        .set({
+          statementNumber,
+          statementPath: `uploads/exit-statements/${statementNumber}.pdf`,
+          statementHash: generateHash(Buffer.from(pdfBytes).toString("base64")),
+        })
+        .where(eq(exitPayouts.id, payout.id));
+    }
+  }
+
+  async getExitPayoutById(id: string): Promise<ExitPayout | undefined> {
+    const [payout] = await db.select().from(exitPayouts).where(eq(exitPayouts.id, id));
+    return payout;
+  }
+
+  async markExitPayoutPaid(id: string, paymentReference: string, paidBy: string): Promise<ExitPayout | undefined> {
+    return await db.transaction(async (tx) => {
+      const [payout] = await tx.select().from(exitPayouts).where(eq(exitPayouts.id, id)).for("update");
+      if (!payout || payout.status !== "pending") {
+        return undefined;
+      }
+
+      const [row] = await tx
+        .select({ property: properties, investor: investors })
+        .from(propertyExits)
+        .innerJoin(properties, eq(propertyExits.propertyId, properties.id))
+        .innerJoin(investors, eq(investors.id, payout.investorId))
+        .where(eq(propertyExits.id, payout.exitId));
+
+      await this.postJournalEntry(tx, {
+        entryType: "exit_payout",
+        description: `Sale proceeds paid out to ${row.investor.fullName} for ${row.property.title} (ref ${paymentReference})`,
+        sourceType: "exit_payout",
+        sourceId: payout.id,
+        postedBy: paidBy,
+      }, exitPayoutLines(row.property, row.investor, payout.amount));
+
+      const [paid] = await tx
+        .update(exitPayouts)
+        .set({ status: "paid", paymentReference, paidBy, paidAt: new Date() })
+        .where(eq(exitPayouts.id, payout.id))
+        .returning();
+      return paid;
+    });
+  }
+
+  async getInvestorExitPayouts(investorId: string): Promise<InvestorExitPayout[]> {
+    const rows = await db
+      .select({
+        payout: exitPayouts,
+        propertyId: properties.id,
+        propertyTitle: properties.title,
+        salePrice: propertyExits.salePrice,
+        completedAt: propertyExits.completedAt,
       })
-      .where(eq(investors.id, id))
-      .returning();
-    return investor;
+      .from(exitPayouts)
+      .innerJoin(propertyExits, eq(exitPayouts.exitId, propertyExits.id))
+      .innerJoin(properties, eq(propertyExits.propertyId, properties.id))
+      .where(eq(exitPayouts.investorId, investorId))
+      .orderBy(desc(propertyExits.completedAt));
+
+    return rows.map(({ payout, ...exit }) => ({ ...payout, ...exit }));
   }
 
-  async updateInvestorDocuments(id: string, documents: Partial<Investor>): Promise<Investor> {
-    const [investor] = await db
-      .update(investors)
-      .set(documents)
-      .where(eq(investors.id, id))
-      .returning();
-    return investor;
+  async getOrCreateTransferReference(slotId: string): Promise<CoOwnerSlot> {
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const existing = await this.getSlotById(slotId);
+      if (!existing || existing.transferReference) {
+        return existing!;
+      }
+
+      try {
+        const [slot] = await db
+          .update(coOwnerSlots)
+          .set({ transferReference: generateTransferReference() })
+          .where(and(eq(coOwnerSlots.id, slotId), isNull(coOwnerSlots.transferReference)))
+          .returning();
+        // Another request may have issued one first; the next pass returns it
+        if (slot) {
+          return slot;
+        }
+      } catch (error: any) {
+        // Reference collision - draw again
+        if (error.code !== "23505") {
+          throw error;
+        }
+      }
+    }
+    throw new Error("Could not issue a unique transfer reference");
   }
 
-  async createFraction(insertFraction: InsertFraction): Promise<Fraction> {
-    const [fraction] = await db.insert(fractions).values(insertFraction).returning();
-    return fraction;
+  private async getBankTransferSlots(condition: SQL): Promise<BankTransferSlot[]> {
+    const rows = await db
+      .select({
+        slot: coOwnerSlots,
+        investorName: investors.fullName,
+        reservationStatus: propertyReservations.reservationStatus,
+        property: properties,
+      })
+      .from(coOwnerSlots)
+      .innerJoin(propertyReservations, eq(coOwnerSlots.reservationId, propertyReservations.id))
+      .innerJoin(properties, eq(propertyReservations.propertyId, properties.id))
+      .leftJoin(investors, eq(coOwnerSlots.investorId, investors.id))
+      .where(and(sql`${coOwnerSlots.transferReference} IS NOT NULL`, condition))
+      .orderBy(coOwnerSlots.createdAt);
+
+    return rows.map(row => ({
+      slotId: row.slot.id,
+      transferReference: row.slot.transferReference!,
+      investorId: row.slot.investorId,
+      investorName: row.investorName,
+      propertyId: row.property.id,
+      propertyTitle: row.property.title,
+      escrowIban: row.property.escrowIban,
+      sharePercentage: row.slot.sharePercentage,
+      amount: calculateSlotAmount(row.property.totalPrice, row.slot.sharePercentage),
+      paymentStatus: row.slot.paymentStatus,
+      reservationStatus: row.reservationStatus,
+    }));
   }
 
-  async getFractionsByInvestor(investorId: string): Promise<Fraction[]> {
-    return await db.select().from(fractions).where(eq(fractions.investorId, investorId));
+  async getBankTransferSlotByReference(reference: string): Promise<BankTransferSlot | undefined> {
+    const [slot] = await this.getBankTransferSlots(eq(coOwnerSlots.transferReference, reference));
+    return slot;
   }
 
-  async createProperty(insertProperty: InsertProperty): Promise<Property> {
-    const [property] = await db.insert(properties).values(insertProperty).returning();
-    return property;
+  async getAwaitingBankTransfers(): Promise<BankTransferSlot[]> {
+    return await this.getBankTransferSlots(and(
+      sql`${coOwnerSlots.paymentStatus} <> 'paid'`,
+      inArray(propertyReservations.reservationStatus, ["all_signed", "payment_pending"])
+    )!);
   }
 
-  async getPropertyById(id: string): Promise<Property | undefined> {
-    const [property] = await db.select().from(properties).where(eq(properties.id, id));
-    return property;
+  async importBankStatement(
+    statementImport: InsertBankStatementImport,
+    transactions: Omit<InsertBankTransaction, "importId">[]
+  ): Promise<{ statementImport: BankStatementImport; transactions: BankTransaction[]; duplicates: number }> {
+    return await db.transaction(async (tx) => {
+      const [created] = await tx.insert(bankStatementImports).values(statementImport).returning();
+
+      // Lines from an earlier import keep their first record
+      const inserted = transactions.length === 0 ? [] : await tx
+        .insert(bankTransactions)
+        .values(transactions.map(transaction => ({ ...transaction, importId: created.id })))
+        .onConflictDoNothing({ target: bankTransactions.fingerprint })
+        .returning();
+
+      const [counted] = await tx
+        .update(bankStatementImports)
+        .set({ transactionCount: inserted.length })
+        .where(eq(bankStatementImports.id, created.id))
+        .returning();
+
+      return { statementImport: counted, transactions: inserted, duplicates: transactions.length - inserted.length };
+    });
   }
 
-  async getPilotProperty(): Promise<Property | undefined> {
-    const [property] = await db.select().from(properties).where(eq(properties.isPilot, true));
-    return property;
+  async getBankTransactions(status?: string): Promise<BankTransactionWithMatch[]> {
+    const rows = await db
+      .select({
+        transaction: bankTransactions,
+        investorName: investors.fullName,
+        propertyTitle: properties.title,
+        transferReference: coOwnerSlots.transferReference,
+      })
+      .from(bankTransactions)
+      .leftJoin(coOwnerSlots, eq(bankTransactions.slotId, coOwnerSlots.id))
+      .leftJoin(investors, eq(coOwnerSlots.investorId, investors.id))
+      .leftJoin(propertyReservations, eq(coOwnerSlots.reservationId, propertyReservations.id))
+      .leftJoin(properties, eq(propertyReservations.propertyId, properties.id))
+      .where(status ? eq(bankTransactions.status, status) : undefined)
+      .orderBy(desc(bankTransactions.bookingDate))
+      .limit(500);
+
+    return rows.map(row => ({
+      ...row.transaction,
+      investorName: row.investorName,
+      propertyTitle: row.propertyTitle,
+      transferReference: row.transferReference,
+    }));
   }
 
-  async updatePropertyFractionsSold(id: string, count: number): Promise<Property> {
-    const [property] = await db
-      .update(properties)
-      .set({ fractionsSold: count })
-      .where(eq(properties.id, id))
-      .returning();
-    return property;
+  async getBankTransactionById(id: string): Promise<BankTransaction | undefined> {
+    const [transaction] = await db.select().from(bankTransactions).where(eq(bankTransactions.id, id));
+    return transaction;
   }
 
-  async createPayment(insertPayment: InsertPayment): Promise<Payment> {
-    const [payment] = await db.insert(payments).values(insertPayment).returning();
-    return payment;
+  async matchBankTransaction(
+    id: string,
+    slotId: string,
+    matchedBy: string,
+    shortfallNote?: string
+  ): Promise<{ transaction: BankTransaction; payment: Payment } | { rejected: string }> {
+    return await db.transaction(async (tx) => {
+      const [transaction] = await tx.select().from(bankTransactions).where(eq(bankTransactions.id, id)).for("update");
+      if (!transaction || transaction.status !== "unmatched") {
+        return { rejected: "Bank transaction is already matched or ignored" };
+      }
+      if (transaction.currency !== "AED") {
+        return { rejected: `Transfers in ${transaction.currency} need to be converted by hand` };
+      }
+
+      const [slot] = await tx.select().from(coOwnerSlots).where(eq(coOwnerSlots.id, slotId));
+      if (!slot?.investorId) {
+        return { rejected: "Slot has no co-owner" };
+      }
+      const [reservation] = await tx
+        .select()
+        .from(propertyReservations)
+        .where(eq(propertyReservations.id, slot.reservationId));
+
+      // Completes exactly like a captured card charge
+      const result = await this.applySlotPayment(tx, {
+        investorId: slot.investorId,
+        propertyId: reservation.propertyId,
+        slotId: slot.id,
+        amount: Number(transaction.amount),
+        paymentMethod: "bank_transfer",
+        chargeId: null,
+        acceptShortfall: !!shortfallNote,
+      });
+      if ("rejected" in result) {
+        return result;
+      }
+
+      const [matched] = await tx
+        .update(bankTransactions)
+        .set({
+          status: "matched",
+          matchNote: result.shortfall ? shortfallNote : null,
+          shortfallAmount: result.shortfall,
+          slotId: slot.id,
+          paymentId: result.payment.id,
+          matchedBy,
+          matchedAt: new Date(),
+        })
+        .where(eq(bankTransactions.id, transaction.id))
+        .returning();
+
+      return { transaction: matched, payment: result.payment };
+    });
   }
 
-  async getPaymentsByInvestor(investorId: string): Promise<Payment[]> {
-    return await db.select().from(payments).where(eq(payments.investorId, investorId));
+  async setBankTransactionNote(id: string, note: string): Promise<BankTransaction> {
+    const [transaction] = await db
+      .update(bankTransactions)
+      .set({ matchNote: note })
+      .where(eq(bankTransactions.id, id))
+      .returning();
+    return transaction;
+  }
+
+  async ignoreBankTransaction(id: string, note: string): Promise<BankTransaction | undefined> {
+    const [transaction] = await db
+      .update(bankTransactions)
+      .set({ status: "ignored", matchNote: note })
+      .where(and(eq(bankTransactions.id, id), eq(bankTransactions.status, "unmatched")))
+      .returning();
+    return transaction;
   }
 
   async updatePaymentStatus(id: string, status: string, tapChargeId?: string): Promise<Payment> {
@@ -224,6 +4051,46 @@ export class DbStorage implements IStorage {
     return admin;
   }
 
+  async getAdminUserById(id: string): Promise<AdminUser | undefined> {
+    const [admin] = await db.select().from(adminUsers).where(eq(adminUsers.id, id));
+    return admin;
+  }
+
+  async getAllAdminUsers(): Promise<AdminUser[]> {
+    return await db.select().from(adminUsers).orderBy(desc(adminUsers.createdAt));
+  }
+
+  async createAdminUser(insertAdmin: InsertAdminUser): Promise<AdminUser> {
+    const { password, ...adminData } = insertAdmin;
+    const [admin] = await db
+      .insert(adminUsers)
+      .values({
+        ...adminData,
+        email: adminData.email.toLowerCase(),
+        passwordHash: hashPassword(password),
+      })
+      .returning();
+    return admin;
+  }
+
+  async updateAdminUser(id: string, updates: { role?: string; isActive?: boolean }): Promise<AdminUser> {
+    const [admin] = await db
+      .update(adminUsers)
+      .set(updates)
+      .where(eq(adminUsers.id, id))
+      .returning();
+    return admin;
+  }
+
+  async recordAdminLogin(id: string): Promise<AdminUser> {
+    const [admin] = await db
+      .update(adminUsers)
+      .set({ lastLoginAt: new Date() })
+      .where(eq(adminUsers.id, id))
+      .returning();
+    return admin;
+  }
+
   async getAllTemplates(): Promise<AgreementTemplate[]> {
     return await db.select().from(agreementTemplates).where(eq(agreementTemplates.isActive, true));
   }
@@ -278,16 +4145,19 @@ export class DbStorage implements IStorage {
     investorId: string;
     propertyId: string;
     templateId: string;
+    shareTransferId?: string;
     ipAddress?: string;
     userAgent?: string;
   }): Promise<SignatureSession> {
     const sessionToken = generateSecureToken(48);
     const expiresAt = new Date(Date.now() + 30 * 60 * 1000); // 30 minutes
+    const reservationId = data.shareTransferId ? null : await this.findDealReservationId(data.propertyId, data.investorId);
 
     const [session] = await db
       .insert(signatureSessions)
       .values({
         ...data,
+        reservationId,
         sessionToken,
         expiresAt,
       })
@@ -343,7 +4213,8 @@ export class DbStorage implements IStorage {
   async checkDuplicateSignature(
     investorId: string, 
     templateId: string, 
-    propertyId: string
+    propertyId: string,
+    shareTransferId?: string
   ): Promise<InvestorSignature | null> {
     const [existing] = await db
       .select()
@@ -352,7 +4223,9 @@ export class DbStorage implements IStorage {
         and(
           eq(investorSignatures.investorId, investorId),
           eq(investorSignatures.templateId, templateId),
-          eq(investorSignatures.propertyId, propertyId)
+          eq(investorSignatures.propertyId, propertyId),
+          shareTransferId ? eq(investorSignatures.shareTransferId, shareTransferId) : isNull(investorSignatures.shareTransferId),
+          isNull(investorSignatures.invalidatedAt)
         )
       );
 
@@ -386,6 +4259,7 @@ export class DbStorage implements IStorage {
         investorId: session.investorId,
         templateId: session.templateId,
         propertyId: session.propertyId,
+        reservationId: session.reservationId,
         encryptedSignatureData: encryptedSignature,
         signatureHash,
         ipAddress: data.ipAddress,
@@ -418,6 +4292,8 @@ export class DbStorage implements IStorage {
     investorId: string;
     templateId: string;
     propertyId: string;
+    shareTransferId?: string | null;
+    reservationId?: string | null;
     encryptedSignatureData: string;
     signatureHash: string;
     ipAddress?: string;
@@ -433,6 +4309,8 @@ export class DbStorage implements IStorage {
         investorId: data.investorId,
         templateId: data.templateId,
         propertyId: data.propertyId,
+        shareTransferId: data.shareTransferId || null,
+        reservationId: data.reservationId || null,
         encryptedSignatureData: data.encryptedSignatureData,
         signatureHash: data.signatureHash,
         ipAddress: data.ipAddress,
@@ -463,7 +4341,8 @@ export class DbStorage implements IStorage {
         .where(
           and(
             eq(investorSignatures.investorId, investorId),
-            eq(investorSignatures.propertyId, propertyId)
+            eq(investorSignatures.propertyId, propertyId),
+            isNull(investorSignatures.invalidatedAt)
           )
         );
     }
@@ -471,16 +4350,17 @@ export class DbStorage implements IStorage {
     return await db
       .select()
       .from(investorSignatures)
-      .where(eq(investorSignatures.investorId, investorId));
+      .where(and(eq(investorSignatures.investorId, investorId), isNull(investorSignatures.invalidatedAt)));
   }
 
   async getPropertySignatureStatus(propertyId: string): Promise<any> {
     const signatures = await db
       .select()
       .from(investorSignatures)
-      .where(eq(investorSignatures.propertyId, propertyId));
+      .where(and(eq(investorSignatures.propertyId, propertyId), isNull(investorSignatures.invalidatedAt)));
 
-    const templates = await this.getAllTemplates();
+    // Share transfer agreements are signed by the two parties to a sale, not by every co-owner
+    const templates = (await this.getAllTemplates()).filter(template => template.templateType !== "share_transfer");
     
     const status = templates.map(template => {
       // Count DISTINCT investors who have signed this template
@@ -507,11 +4387,43 @@ export class DbStorage implements IStorage {
     };
   }
 
+  async createAuditLogEntry(entry: InsertAuditLog): Promise<AuditLog> {
+    const [logEntry] = await db.insert(signatureAuditLog).values(entry).returning();
+    return logEntry;
+  }
+
   async getSignedDocuments(propertyId: string): Promise<SignedDocument[]> {
     return await db
       .select()
       .from(signedDocuments)
-      .where(eq(signedDocuments.propertyId, propertyId));
+      .where(and(eq(signedDocuments.propertyId, propertyId), isNull(signedDocuments.invalidatedAt)));
+  }
+
+  async isPropertyParticipant(investorId: string, propertyId: string): Promise<boolean> {
+    // Co-owners of a live reservation sign the deal documents; both parties sign a share transfer
+    const [slot] = await db
+      .select({ id: coOwnerSlots.id })
+      .from(coOwnerSlots)
+      .innerJoin(propertyReservations, eq(coOwnerSlots.reservationId, propertyReservations.id))
+      .where(and(
+        eq(coOwnerSlots.investorId, investorId),
+        eq(propertyReservations.propertyId, propertyId),
+        sql`${propertyReservations.reservationStatus} <> 'cancelled'`
+      ))
+      .limit(1);
+    if (slot) {
+      return true;
+    }
+
+    const [transfer] = await db
+      .select({ id: shareTransfers.id })
+      .from(shareTransfers)
+      .where(and(
+        eq(shareTransfers.propertyId, propertyId),
+        or(eq(shareTransfers.sellerInvestorId, investorId), eq(shareTransfers.buyerInvestorId, investorId))
+      ))
+      .limit(1);
+    return !!transfer;
   }
 
   async getSignedDocumentById(id: string): Promise<SignedDocument | undefined> {
@@ -545,7 +4457,8 @@ export class DbStorage implements IStorage {
       .where(
         and(
           eq(investorSignatures.propertyId, propertyId),
-          eq(investorSignatures.templateId, template.id)
+          eq(investorSignatures.templateId, template.id),
+          isNull(investorSignatures.invalidatedAt)
         )
       );
 
@@ -647,6 +4560,7 @@ export class DbStorage implements IStorage {
       .values({
         propertyId,
         documentType,
+        reservationId: investorSignature.reservationId,
         filePath: relativeFilePath,
         fileHash,
         templateVersion: template.version,
@@ -697,6 +4611,40 @@ export class DbStorage implements IStorage {
       .orderBy(desc(propertyReservations.createdAt));
   }
 
+  async getInvestorReservationsWithDetails(investorId: string): Promise<ReservationWithDetails[]> {
+    // Reservations the investor started or holds a slot in
+    const rows = await db
+      .selectDistinct({ reservation: propertyReservations })
+      .from(propertyReservations)
+      .leftJoin(coOwnerSlots, eq(coOwnerSlots.reservationId, propertyReservations.id))
+      .where(or(
+        eq(propertyReservations.initiatorInvestorId, investorId),
+        eq(coOwnerSlots.investorId, investorId)
+      ))
+      .orderBy(desc(propertyReservations.createdAt));
+
+    const results: ReservationWithDetails[] = [];
+    for (const { reservation } of rows) {
+      const property = await this.getPropertyById(reservation.propertyId);
+      if (!property) continue;
+
+      const slots = await db
+        .select({ slot: coOwnerSlots, investorName: investors.fullName })
+        .from(coOwnerSlots)
+        .leftJoin(investors, eq(coOwnerSlots.investorId, investors.id))
+        .where(eq(coOwnerSlots.reservationId, reservation.id))
+        .orderBy(coOwnerSlots.slotNumber);
+
+      results.push({
+        ...reservation,
+        property,
+        slots: slots.map(({ slot, investorName }) => ({ ...slot, investorName: investorName ?? undefined })),
+      });
+    }
+
+    return results;
+  }
+
   async getReservationsByProperty(propertyId: string): Promise<PropertyReservation[]> {
     return await db
       .select()
@@ -705,17 +4653,244 @@ export class DbStorage implements IStorage {
       .orderBy(desc(propertyReservations.createdAt));
   }
 
-  async updateReservationStatus(id: string, status: string): Promise<PropertyReservation> {
+  async changeReservationStatus(
+    id: string,
+    status: ReservationStatus,
+    actor: ReservationStatusActor,
+    reason?: string
+  ): Promise<PropertyReservation | { rejected: string }> {
+    return await db.transaction(async (tx): Promise<PropertyReservation | { rejected: string }> => {
+      const [reservation] = await tx
+        .select()
+        .from(propertyReservations)
+        .where(eq(propertyReservations.id, id))
+        .for("update");
+      if (!reservation) {
+        return { rejected: "Reservation not found" };
+      }
+      if (actor.investorId && actor.investorId !== reservation.initiatorInvestorId) {
+        return { rejected: "Only the reservation initiator can change its status" };
+      }
+      return await this.moveReservation(tx, reservation, status, actor, reason);
+    });
+  }
+
+  async getReservationStatusHistory(reservationId: string): Promise<ReservationStatusChangeWithActor[]> {
+    const rows = await db
+      .select({
+        change: reservationStatusHistory,
+        investorName: investors.fullName,
+        adminName: adminUsers.fullName,
+      })
+      .from(reservationStatusHistory)
+      .leftJoin(investors, eq(reservationStatusHistory.changedByInvestorId, investors.id))
+      .leftJoin(adminUsers, eq(reservationStatusHistory.changedByAdminId, adminUsers.id))
+      .where(eq(reservationStatusHistory.reservationId, reservationId))
+      .orderBy(reservationStatusHistory.createdAt);
+
+    return rows.map(({ change, investorName, adminName }) => ({
+      ...change,
+      changedByName: investorName ?? adminName ?? null,
+    }));
+  }
+
+  async expireInvitationsAndSessions(now: Date = new Date()): Promise<{ invitations: number; sessions: number }> {
+    const invitations = await db
+      .update(coOwnerInvitations)
+      .set({ status: "expired" })
+      .where(and(eq(coOwnerInvitations.status, "pending"), lte(coOwnerInvitations.expiresAt, now)))
+      .returning({ id: coOwnerInvitations.id });
+    const sessions = await db
+      .update(signatureSessions)
+      .set({ status: "expired" })
+      .where(and(inArray(signatureSessions.status, ["pending", "verified"]), lte(signatureSessions.expiresAt, now)))
+      .returning({ id: signatureSessions.id });
+    return { invitations: invitations.length, sessions: sessions.length };
+  }
+
+  async cancelAbandonedReservations(inactiveSince: Date, paymentLapsedSince: Date, reason: string): Promise<AbandonedReservation[]> {
+    // Accepting an invitation is progress even though the reservation itself does not change, and a
+    // slot with a card checkout or bank transfer started since paymentLapsedSince may still be paid
+    const stale = await db
+      .select({ id: propertyReservations.id })
+      .from(propertyReservations)
+      .where(and(
+        inArray(propertyReservations.reservationStatus, [...openReservationStatuses]),
+        lt(propertyReservations.updatedAt, inactiveSince),
+        sql`NOT EXISTS (SELECT 1 FROM ${coOwnerInvitations} WHERE ${coOwnerInvitations.reservationId} = ${propertyReservations.id} AND ${coOwnerInvitations.acceptedAt} >= ${inactiveSince})`,
+        sql`NOT EXISTS (SELECT 1 FROM ${coOwnerSlots} WHERE ${coOwnerSlots.reservationId} = ${propertyReservations.id} AND ${coOwnerSlots.paymentStatus} = 'pending' AND ${coOwnerSlots.paymentStartedAt} >= ${paymentLapsedSince})`
+      ));
+
+    const cancelled: AbandonedReservation[] = [];
+    for (const { id } of stale) {
+      const abandoned = await db.transaction(async (tx): Promise<AbandonedReservation | null> => {
+        const [reservation] = await tx.select().from(propertyReservations).where(eq(propertyReservations.id, id)).for("update");
+        if (!(openReservationStatuses as readonly string[]).includes(reservation.reservationStatus) || reservation.updatedAt >= inactiveSince) {
+          return null;
+        }
+        // Checkouts lock the reservation too, so one started meanwhile is seen here or finds it cancelled
+        const [paying] = await tx
+          .select({ id: coOwnerSlots.id })
+          .from(coOwnerSlots)
+          .where(and(
+            eq(coOwnerSlots.reservationId, id),
+            eq(coOwnerSlots.paymentStatus, "pending"),
+            gte(coOwnerSlots.paymentStartedAt, paymentLapsedSince)
+          ));
+        if (paying) {
+          return null;
+        }
+        // Payments have to be refunded by finance first, so a reservation with money in it stays
+        const moved = await this.moveReservation(tx, reservation, "cancelled", {}, reason);
+        if ("rejected" in moved) {
+          return null;
+        }
+
+        // Outstanding invitations can no longer be accepted, and lapsed payments are no longer awaited
+        await tx
+          .update(coOwnerInvitations)
+          .set({ status: "expired" })
+          .where(and(eq(coOwnerInvitations.reservationId, id), eq(coOwnerInvitations.status, "pending")));
+        await tx
+          .update(coOwnerSlots)
+          .set({ paymentStatus: "unpaid", paymentStartedAt: null })
+          .where(and(eq(coOwnerSlots.reservationId, id), eq(coOwnerSlots.paymentStatus, "pending")));
+
+        const holders = await tx
+          .selectDistinct({ investorId: coOwnerSlots.investorId })
+          .from(coOwnerSlots)
+          .where(and(eq(coOwnerSlots.reservationId, id), sql`${coOwnerSlots.investorId} IS NOT NULL`));
+        return {
+          reservation: moved,
+          previousStatus: reservation.reservationStatus,
+          investorIds: holders.map(holder => holder.investorId!),
+        };
+      });
+      if (abandoned) {
+        cancelled.push(abandoned);
+      }
+    }
+    return cancelled;
+  }
+
+  /**
+   * The open reservation an investor takes part in on a property, which their deal agreements belong to
+   */
+  private async findDealReservationId(propertyId: string, investorId: string): Promise<string | null> {
     const [reservation] = await db
+      .selectDistinct({ id: propertyReservations.id, createdAt: propertyReservations.createdAt })
+      .from(propertyReservations)
+      .leftJoin(coOwnerSlots, eq(coOwnerSlots.reservationId, propertyReservations.id))
+      .where(and(
+        eq(propertyReservations.propertyId, propertyId),
+        inArray(propertyReservations.reservationStatus, [...openReservationStatuses]),
+        or(eq(propertyReservations.initiatorInvestorId, investorId), eq(coOwnerSlots.investorId, investorId))
+      ))
+      .orderBy(desc(propertyReservations.createdAt))
+      .limit(1);
+    return reservation?.id ?? null;
+  }
+
+  /**
+   * Move a locked reservation to another status when the transition table and its guards allow it,
+   * and record the change
+   */
+  private async moveReservation(
+    tx: DbTransaction,
+    reservation: PropertyReservation,
+    status: ReservationStatus,
+    actor: ReservationStatusActor,
+    reason?: string
+  ): Promise<PropertyReservation | { rejected: string }> {
+    const facts = await this.selectReservationGuardFacts(tx, reservation);
+    const problem = reservationTransitionProblem(reservation.reservationStatus, status, facts);
+    if (problem) {
+      return { rejected: problem };
+    }
+
+    const [moved] = await tx
       .update(propertyReservations)
       .set({ reservationStatus: status, updatedAt: new Date() })
-      .where(eq(propertyReservations.id, id))
+      .where(eq(propertyReservations.id, reservation.id))
       .returning();
-    return reservation;
+    await tx.insert(reservationStatusHistory).values({
+      reservationId: reservation.id,
+      fromStatus: reservation.reservationStatus,
+      toStatus: status,
+      changedByInvestorId: actor.investorId ?? null,
+      changedByAdminId: actor.adminUserId ?? null,
+      reason: reason ?? null,
+    });
+    return moved;
+  }
+
+  /**
+   * Move a reservation as part of a larger change that has already been written; a refused move
+   * rolls the whole change back
+   */
+  private async forceReservationMove(
+    tx: DbTransaction,
+    reservation: PropertyReservation,
+    status: ReservationStatus,
+    actor: ReservationStatusActor = {}
+  ): Promise<PropertyReservation> {
+    const moved = await this.moveReservation(tx, reservation, status, actor);
+    if ("rejected" in moved) {
+      throw new Error(`Reservation ${reservation.id}: ${moved.rejected}`);
+    }
+    return moved;
   }
 
-  async cancelReservation(id: string): Promise<void> {
-    await db.delete(propertyReservations).where(eq(propertyReservations.id, id));
+  /**
+   * What the transition guards need to know about a reservation: its slots, which co-owners have not
+   * signed every deal agreement, the payments not yet refunded and whether the property was sold
+   */
+  private async selectReservationGuardFacts(tx: DbTransaction, reservation: PropertyReservation): Promise<ReservationGuardFacts> {
+    const slots = await tx.select().from(coOwnerSlots).where(eq(coOwnerSlots.reservationId, reservation.id));
+    const investorIds = Array.from(new Set(slots.map(slot => slot.investorId).filter((id): id is string => !!id)));
+
+    let unsignedInvestorIds: string[] = [];
+    if (investorIds.length > 0) {
+      const required = await tx
+        .selectDistinct({ templateType: agreementTemplates.templateType })
+        .from(agreementTemplates)
+        .where(and(eq(agreementTemplates.isActive, true), sql`${agreementTemplates.templateType} <> 'share_transfer'`));
+      const signed = await tx
+        .selectDistinct({ investorId: investorSignatures.investorId, templateType: agreementTemplates.templateType })
+        .from(investorSignatures)
+        .innerJoin(agreementTemplates, eq(investorSignatures.templateId, agreementTemplates.id))
+        .where(and(
+          eq(investorSignatures.propertyId, reservation.propertyId),
+          inArray(investorSignatures.investorId, investorIds),
+          isNull(investorSignatures.shareTransferId),
+          isNull(investorSignatures.invalidatedAt)
+        ));
+      unsignedInvestorIds = investorIds.filter(investorId => required.some(({ templateType }) =>
+        !signed.some(signature => signature.investorId === investorId && signature.templateType === templateType)
+      ));
+    }
+
+    const [held] = await tx
+      .select({ count: sql<number>`count(*)::int` })
+      .from(payments)
+      .innerJoin(fractions, eq(payments.fractionId, fractions.id))
+      .innerJoin(coOwnerSlots, eq(fractions.slotId, coOwnerSlots.id))
+      .where(and(
+        eq(coOwnerSlots.reservationId, reservation.id),
+        inArray(payments.status, ["completed", "partially_refunded"])
+      ));
+
+    const [property] = await tx
+      .select({ status: properties.status })
+      .from(properties)
+      .where(eq(properties.id, reservation.propertyId));
+
+    return {
+      slots,
+      unsignedInvestorIds,
+      heldPayments: held.count,
+      propertySold: property?.status === "sold",
+    };
   }
 
   async createSlots(reservationId: string, slots: InsertCoOwnerSlot[]): Promise<CoOwnerSlot[]> {
@@ -733,6 +4908,54 @@ export class DbStorage implements IStorage {
       .where(eq(coOwnerSlots.reservationId, reservationId));
   }
 
+  async getSlotById(slotId: string): Promise<CoOwnerSlot | undefined> {
+    const [slot] = await db.select().from(coOwnerSlots).where(eq(coOwnerSlots.id, slotId));
+    return slot;
+  }
+
+  async startSlotPayment(slotId: string): Promise<CoOwnerSlot | { rejected: string }> {
+    return await db.transaction(async (tx): Promise<CoOwnerSlot | { rejected: string }> => {
+      const [slot] = await tx.select().from(coOwnerSlots).where(eq(coOwnerSlots.id, slotId));
+      if (!slot) {
+        return { rejected: "Slot not found" };
+      }
+
+      // The first checkout moves a fully signed reservation into payment
+      const [reservation] = await tx
+        .select()
+        .from(propertyReservations)
+        .where(eq(propertyReservations.id, slot.reservationId))
+        .for("update");
+      // The reservation may have been cancelled, e.g. as abandoned, since the slot was read
+      if (reservation.reservationStatus !== "all_signed" && reservation.reservationStatus !== "payment_pending") {
+        return { rejected: `Reservation is ${reservation.reservationStatus}` };
+      }
+      if (reservation.reservationStatus === "all_signed") {
+        const moved = await this.moveReservation(tx, reservation, "payment_pending", {});
+        if ("rejected" in moved) {
+          return moved;
+        }
+      }
+
+      const [started] = await tx
+        .update(coOwnerSlots)
+        .set({ paymentStatus: "pending", paymentStartedAt: new Date() })
+        .where(and(eq(coOwnerSlots.id, slotId), sql`${coOwnerSlots.paymentStatus} <> 'paid'`))
+        .returning();
+      return started ?? slot;
+    });
+  }
+
+  async revertSlotPayment(slotId: string, paymentStatus: string): Promise<CoOwnerSlot | undefined> {
+    // Only a checkout that never got going is undone; a slot paid meanwhile stays paid
+    const [slot] = await db
+      .update(coOwnerSlots)
+      .set({ paymentStatus, paymentStartedAt: paymentStatus === "pending" ? undefined : null })
+      .where(and(eq(coOwnerSlots.id, slotId), eq(coOwnerSlots.paymentStatus, "pending")))
+      .returning();
+    return slot;
+  }
+
   async updateSlotInvestor(slotId: string, investorId: string): Promise<CoOwnerSlot> {
     const [slot] = await db
       .update(coOwnerSlots)
@@ -778,12 +5001,12 @@ export class DbStorage implements IStorage {
       throw new Error("Invitation not found");
     }
 
-    if (invitation.status !== "pending") {
-      throw new Error("Invitation has already been processed");
+    if (invitation.status === "expired" || (invitation.status === "pending" && invitation.expiresAt < new Date())) {
+      throw new Error("Invitation has expired");
     }
 
-    if (invitation.expiresAt < new Date()) {
-      throw new Error("Invitation has expired");
+    if (invitation.status !== "pending") {
+      throw new Error("Invitation has already been processed");
     }
 
     await this.updateSlotInvestor(invitation.slotId, investorId);
@@ -863,6 +5086,11 @@ export class DbStorage implements IStorage {
         totalSlotsReserved: data.totalSlotsReserved,
         reservationStatus: "draft",
       }).returning();
+      await tx.insert(reservationStatusHistory).values({
+        reservationId: reservation.id,
+        toStatus: "draft",
+        changedByInvestorId: data.initiatorInvestorId,
+      });
 
       // Create all slots
       const slotsWithReservation = data.slots.map(slot => ({
@@ -889,8 +5117,17 @@ export class DbStorage implements IStorage {
       expiresAt: Date;
     }>,
     initiatorInvestorId: string
-  ): Promise<CoOwnerInvitation[]> {
-    return await db.transaction(async (tx) => {
+  ): Promise<CoOwnerInvitation[] | { rejected: string }> {
+    return await db.transaction(async (tx): Promise<CoOwnerInvitation[] | { rejected: string }> => {
+      const [reservation] = await tx
+        .select()
+        .from(propertyReservations)
+        .where(eq(propertyReservations.id, reservationId))
+        .for("update");
+      if (reservation.reservationStatus !== "draft" && reservation.reservationStatus !== "invitations_sent") {
+        return { rejected: `Invitations can't be sent for a reservation that is ${reservation.reservationStatus}` };
+      }
+
       // Create all invitations
       const createdInvitations = await Promise.all(
         invitations.map(async (inv) => {
@@ -914,11 +5151,10 @@ export class DbStorage implements IStorage {
         })
       );
 
-      // Update reservation status to "invitations_sent"
-      await tx
-        .update(propertyReservations)
-        .set({ reservationStatus: "invitations_sent", updatedAt: new Date() })
-        .where(eq(propertyReservations.id, reservationId));
+      // The first invitations move the draft on; later ones leave it where it is
+      if (reservation.reservationStatus === "draft") {
+        await this.forceReservationMove(tx, reservation, "invitations_sent", { investorId: initiatorInvestorId });
+      }
 
       return createdInvitations;
     });
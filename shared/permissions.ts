@@ -0,0 +1,79 @@
+// Admin staff roles and the permissions each role grants.
+// Shared by the server (route enforcement) and the admin panel (hiding actions).
+
+export const adminRoles = ["super_admin", "compliance", "legal", "finance", "operations", "read_only"] as const;
+export type AdminRole = typeof adminRoles[number];
+
+export const adminPermissions = [
+  "investors:read",       // Investor list with contact and ownership details
+  "kyc_documents:read",   // Passport, Emirates ID, proof of address, bank statements
+  "kyc:update",           // Approve / reject KYC
+  "payments:read",        // Payment and revenue figures
+  "payments:manage",      // Payment plans and recording received payments
+  "payments:refund",      // Refund payments and cancel paid reservations
+  "templates:edit",       // Create and edit agreement templates
+  "signatures:read",      // Multi-party signing progress
+  "documents:generate",   // Generate signed PDFs
+  "dld:export",           // Export DLD filing bundles
+  "notifications:send",   // Funded / KYC reminder notifications
+  "properties:manage",    // Create, edit, publish and archive property listings
+  "admins:manage",        // Create admin users and change roles
+] as const;
+export type AdminPermission = typeof adminPermissions[number];
+
+export const rolePermissions: Record<AdminRole, readonly AdminPermission[]> = {
+  super_admin: adminPermissions,
+  compliance: [
+    "investors:read",
+    "kyc_documents:read",
+    "kyc:update",
+    "signatures:read",
+    "documents:generate",
+    "dld:export",
+    "notifications:send",
+  ],
+  legal: [
+    "investors:read",
+    "templates:edit",
+    "signatures:read",
+    "documents:generate",
+    "dld:export",
+  ],
+  finance: [
+    "investors:read",
+    "payments:read",
+    "payments:manage",
+    "payments:refund",
+  ],
+  operations: [
+    "investors:read",
+    "signatures:read",
+    "notifications:send",
+    "properties:manage",
+  ],
+  read_only: [
+    "investors:read",
+    "signatures:read",
+  ],
+};
+
+export const roleLabels: Record<AdminRole, string> = {
+  super_admin: "Super Admin",
+  compliance: "Compliance",
+  legal: "Legal",
+  finance: "Finance",
+  operations: "Operations",
+  read_only: "Read Only",
+};
+
+export function isAdminRole(role: string): role is AdminRole {
+  return (adminRoles as readonly string[]).includes(role);
+}
+
+export function getPermissionsForRole(role: string): AdminPermission[] {
+  return isAdminRole(role) ? [...rolePermissions[role]] : [];
+}
+
+export function hasPermission(role: string, permission: AdminPermission): boolean {
+  return getPermissionsForRole(role).includes(permission);
+}
@@ -0,0 +1,37 @@
+// Phone number helpers shared by client forms and the server
+
+const E164_PATTERN = /^\+[1-9]\d{7,14}$/;
+
+/**
+ * Normalize a phone number to E.164 (e.g. "+971501234567")
+ * Accepts international formats ("+971 50 123 4567", "00971501234567") and
+ * local numbers with a trunk prefix ("050 123 4567"), which are assumed to be
+ * in the default country. Returns null when the input cannot be normalized.
+ */
+export function normalizePhoneNumber(input: string, defaultCountryCode: string = "971"): string | null {
+  let digits = input.trim().replace(/[\s\-().]/g, "");
+
+  if (digits.startsWith("00")) {
+    digits = `+${digits.slice(2)}`;
+  } else if (digits.startsWith("0")) {
+    digits = `+${defaultCountryCode}${digits.slice(1)}`;
+  } else if (!digits.startsWith("+")) {
+    digits = digits.startsWith(defaultCountryCode) ? `+${digits}` : `+${defaultCountryCode}${digits}`;
+  }
+
+  return E164_PATTERN.test(digits) ? digits : null;
+}
+
+export function isE164(phone: string): boolean {
+  return E164_PATTERN.test(phone);
+}
+
+/**
+ * Mask a phone number for display and audit logs ("+971•••••4567")
+ */
+export function maskPhoneNumber(phone: string): string {
+  if (phone.length <= 8) {
+    return phone;
+  }
+  return `${phone.slice(0, 4)}${"•".repeat(phone.length - 8)}${phone.slice(-4)}`;
+}
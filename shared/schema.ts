@@ -1,7 +1,12 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, timestamp, boolean, decimal, index } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, timestamp, boolean, decimal, index, uniqueIndex, unique, check } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { adminRoles } from "./permissions";
+import { normalizePhoneNumber } from "./phone";
+
+export const otpChannels = ["email", "sms", "whatsapp"] as const;
+export type OtpChannel = typeof otpChannels[number];
 
 export const investors = pgTable("investors", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -9,7 +14,6 @@ export const investors = pgTable("investors", {
   fullName: text("full_name").notNull(),
   phone: text("phone").notNull(),
   fractionsPurchased: integer("fractions_purchased").notNull().default(0),
-  totalInvested: decimal("total_invested", { precision: 12, scale: 2 }).notNull().default("0"),
   kycStatus: text("kyc_status").notNull().default("pending"),
   paymentStatus: text("payment_status").notNull().default("pending"),
   passportDocPath: text("passport_doc_path"),
@@ -19,6 +23,7 @@ export const investors = pgTable("investors", {
   bankStatementPath: text("bank_statement_path"),
   documentsUploadedAt: timestamp("documents_uploaded_at"),
   preferredLanguage: varchar("preferred_language").notNull().default("en"),
+  otpChannel: text("otp_channel").notNull().default("email"), // "email" | "sms" | "whatsapp"
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
@@ -27,6 +32,8 @@ export const fractions = pgTable("fractions", {
   investorId: varchar("investor_id").notNull().references(() => investors.id),
   propertyId: varchar("property_id").notNull().references(() => properties.id),
   fractionNumber: integer("fraction_number").notNull(),
+  slotId: varchar("slot_id").references(() => coOwnerSlots.id), // Reservation slot this purchase paid for
+  sharePercentage: decimal("share_percentage", { precision: 5, scale: 2 }), // Share of the property bought
   purchasePrice: decimal("purchase_price", { precision: 12, scale: 2 }).notNull(),
   paymentStatus: text("payment_status").notNull().default("pending"),
   tapChargeId: text("tap_charge_id"),
@@ -46,10 +53,71 @@ export const properties = pgTable("properties", {
   bathrooms: integer("bathrooms"),
   area: integer("area"),
   isPilot: boolean("is_pilot").notNull().default(false),
+  status: text("status").notNull().default("published"), // "draft" | "published" | "fully_funded" | "archived"
   escrowIban: text("escrow_iban"),
   handoverDate: timestamp("handover_date"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
-});
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  statusIdx: index("idx_properties_status").on(table.status),
+}));
+
+export const propertyMediaTypes = ["photo", "floor_plan", "brochure"] as const;
+
+// Photos, floor plans and brochures shown on the listing pages
+export const propertyMedia = pgTable("property_media", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  propertyId: varchar("property_id").notNull().references(() => properties.id),
+  mediaType: text("media_type").notNull(), // "photo" | "floor_plan" | "brochure" | "construction_photo"
+  milestoneId: varchar("milestone_id").references(() => constructionMilestones.id), // Construction photos only
+  filePath: text("file_path").notNull(), // Resized image or original PDF
+  thumbnailPath: text("thumbnail_path"), // Images only
+  mimeType: text("mime_type").notNull(),
+  originalFilename: text("original_filename").notNull(),
+  fileSize: integer("file_size").notNull(),
+  width: integer("width"),
+  height: integer("height"),
+  caption: text("caption"),
+  captionArabic: text("caption_arabic"),
+  sortOrder: integer("sort_order").notNull().default(0),
+  uploadedBy: varchar("uploaded_by").references(() => adminUsers.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  propertyIdIdx: index("idx_propertyMedia_propertyId").on(table.propertyId),
+  milestoneIdIdx: index("idx_propertyMedia_milestoneId").on(table.milestoneId),
+}));
+
+// Construction stages of an off-plan property - one row per stage, created with the property
+export const constructionMilestones = pgTable("construction_milestones", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  propertyId: varchar("property_id").notNull().references(() => properties.id),
+  stage: text("stage").notNull(), // "foundation" | "structure" | "mep" | "finishing" | "handover"
+  percentComplete: integer("percent_complete").notNull().default(0),
+  expectedCompletionDate: timestamp("expected_completion_date"),
+  completedAt: timestamp("completed_at"), // Set when the stage reaches 100%
+  certificatePath: text("certificate_path"), // Developer's progress certificate (PDF)
+  certificateFilename: text("certificate_filename"),
+  certificateUploadedAt: timestamp("certificate_uploaded_at"),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  propertyIdIdx: index("idx_constructionMilestones_propertyId").on(table.propertyId),
+  uniquePropertyStage: uniqueIndex("idx_constructionMilestones_propertyId_stage").on(table.propertyId, table.stage),
+  checkPercentComplete: check("check_constructionMilestones_percentComplete", sql`${table.percentComplete} >= 0 AND ${table.percentComplete} <= 100`),
+}));
+
+// Dated progress reports posted against a construction stage
+export const constructionUpdates = pgTable("construction_updates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  milestoneId: varchar("milestone_id").notNull().references(() => constructionMilestones.id),
+  percentComplete: integer("percent_complete").notNull(), // Stage progress as of this update
+  note: text("note").notNull(),
+  noteArabic: text("note_arabic"),
+  postedBy: varchar("posted_by").references(() => adminUsers.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  milestoneIdIdx: index("idx_constructionUpdates_milestoneId").on(table.milestoneId),
+}));
 
 export const payments = pgTable("payments", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -58,17 +126,161 @@ export const payments = pgTable("payments", {
   amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
   currency: text("currency").notNull().default("AED"),
   tapChargeId: text("tap_charge_id"),
-  status: text("status").notNull().default("pending"),
+  status: text("status").notNull().default("pending"), // "pending" | "completed" | "partially_refunded" | "refunded"
   paymentMethod: text("payment_method"),
+  refundedAmount: decimal("refunded_amount", { precision: 12, scale: 2 }).notNull().default("0"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   completedAt: timestamp("completed_at"),
+}, (table) => ({
+  uniqueTapChargeId: uniqueIndex("idx_payments_tapChargeId").on(table.tapChargeId),
+}));
+
+// Money returned on a payment; a payment can be refunded in several parts up to its amount
+export const refunds = pgTable("refunds", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  paymentId: varchar("payment_id").notNull().references(() => payments.id),
+  investorId: varchar("investor_id").notNull().references(() => investors.id),
+  propertyId: varchar("property_id").notNull().references(() => properties.id),
+  amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+  reason: text("reason").notNull(),
+  status: text("status").notNull().default("pending"), // "pending" | "completed" | "failed"
+  providerRefundId: text("provider_refund_id"), // Null for payments made outside the card gateway
+  failureReason: text("failure_reason"),
+  requestedBy: varchar("requested_by").references(() => adminUsers.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  completedAt: timestamp("completed_at"),
+}, (table) => ({
+  paymentIdIdx: index("idx_refunds_paymentId").on(table.paymentId),
+}));
+
+// Numbered receipt / tax invoice issued once per completed payment
+export const paymentReceipts = pgTable("payment_receipts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  paymentId: varchar("payment_id").notNull().references(() => payments.id),
+  investorId: varchar("investor_id").notNull().references(() => investors.id),
+  sequenceNumber: integer("sequence_number").notNull(), // Gapless across all receipts
+  receiptNumber: text("receipt_number").notNull(), // e.g. "FOPD-RCT-2026-000042"
+  language: text("language").notNull().default("en"), // "en" | "ar"
+  filePath: text("file_path").notNull(),
+  fileHash: text("file_hash").notNull(), // SHA-256 of the PDF
+  issuedAt: timestamp("issued_at").notNull().defaultNow(),
+}, (table) => ({
+  investorIdIdx: index("idx_paymentReceipts_investorId").on(table.investorId),
+  uniquePaymentId: uniqueIndex("idx_paymentReceipts_paymentId").on(table.paymentId),
+  uniqueSequenceNumber: uniqueIndex("idx_paymentReceipts_sequenceNumber").on(table.sequenceNumber),
+}));
+
+// Every verified payment webhook, one row per charge and status - retries of the same delivery are no-ops
+export const paymentWebhookEvents = pgTable("payment_webhook_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  provider: text("provider").notNull(), // "tap" | "mock"
+  chargeId: text("charge_id").notNull(),
+  chargeStatus: text("charge_status").notNull(), // "CAPTURED" | "FAILED" | "CANCELLED" | "DECLINED" | ...
+  investorId: varchar("investor_id").references(() => investors.id),
+  propertyId: varchar("property_id").references(() => properties.id),
+  amount: decimal("amount", { precision: 12, scale: 2 }),
+  outcome: text("outcome").notNull(), // "processed" | "recorded" | "rejected"
+  outcomeReason: text("outcome_reason"),
+  paymentId: varchar("payment_id").references(() => payments.id),
+  payload: text("payload").notNull(), // Raw webhook body as received
+  deliveryCount: integer("delivery_count").notNull().default(1),
+  receivedAt: timestamp("received_at").notNull().defaultNow(),
+  lastDeliveredAt: timestamp("last_delivered_at").notNull().defaultNow(),
+}, (table) => ({
+  chargeIdIdx: index("idx_paymentWebhookEvents_chargeId").on(table.chargeId),
+  uniqueChargeStatus: uniqueIndex("idx_paymentWebhookEvents_provider_chargeId_chargeStatus").on(table.provider, table.chargeId, table.chargeStatus),
+}));
+
+// Escrow account statements uploaded for reconciliation
+export const bankStatementImports = pgTable("bank_statement_imports", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  filename: text("filename").notNull(), // Original upload name
+  filePath: text("file_path").notNull(),
+  format: text("format").notNull(), // "csv" | "camt053"
+  accountIban: text("account_iban"), // From camt.053; CSV exports do not carry it
+  statementId: text("statement_id"),
+  transactionCount: integer("transaction_count").notNull().default(0), // New credits, excluding lines seen before
+  importedBy: varchar("imported_by").references(() => adminUsers.id),
+  importedAt: timestamp("imported_at").notNull().defaultNow(),
 });
 
+// Credits on an escrow statement, matched to the reservation slot they pay for
+export const bankTransactions = pgTable("bank_transactions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  importId: varchar("import_id").notNull().references(() => bankStatementImports.id),
+  fingerprint: text("fingerprint").notNull(), // SHA-256 of account, date, amount and references
+  bookingDate: timestamp("booking_date").notNull(),
+  amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+  currency: text("currency").notNull().default("AED"),
+  reference: text("reference"), // Remittance information as sent by the payer
+  counterpartyName: text("counterparty_name"),
+  counterpartyIban: text("counterparty_iban"),
+  bankReference: text("bank_reference"),
+  status: text("status").notNull().default("unmatched"), // "unmatched" | "matched" | "ignored"
+  matchNote: text("match_note"), // Why auto-matching passed it over, or why it was ignored
+  slotId: varchar("slot_id").references(() => coOwnerSlots.id),
+  paymentId: varchar("payment_id").references(() => payments.id),
+  shortfallAmount: decimal("shortfall_amount", { precision: 12, scale: 2 }), // Accepted by the admin who matched a transfer below the share price; matchNote says why
+  matchedBy: text("matched_by"), // "auto" or the admin user ID
+  matchedAt: timestamp("matched_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  statusIdx: index("idx_bankTransactions_status").on(table.status),
+  uniqueFingerprint: uniqueIndex("idx_bankTransactions_fingerprint").on(table.fingerprint),
+}));
+
+export const ledgerAccountTypes = ["asset", "liability", "equity", "income", "expense"] as const;
+
+// Chart of accounts; per-property and per-investor accounts are opened on first posting
+export const ledgerAccounts = pgTable("ledger_accounts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  code: text("code").notNull(), // e.g. "escrow:<propertyId>", "platform_fees"
+  name: text("name").notNull(),
+  accountType: text("account_type").notNull(), // "asset" | "liability" | "equity" | "income" | "expense"
+  category: text("category").notNull(), // "escrow" | "investor_capital" | "investor_wallet" | "platform_fees" | "dld_fees" | "rent_account" | "property_payables"
+  investorId: varchar("investor_id").references(() => investors.id),
+  propertyId: varchar("property_id").references(() => properties.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  investorIdIdx: index("idx_ledgerAccounts_investorId").on(table.investorId),
+  uniqueCode: unique("ledger_accounts_code_unique").on(table.code),
+}));
+
+// Journal entries are only ever inserted; a mistake is corrected by posting a reversing entry
+export const journalEntries = pgTable("journal_entries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  entryType: text("entry_type").notNull(), // "slot_payment" | "instalment_payment" | "refund" | "rental_distribution" | "rental_payout" | "property_expense" | "expense_payment" | "share_transfer" | "property_exit" | "exit_payout" | "reversal"
+  description: text("description").notNull(),
+  sourceType: text("source_type").notNull(), // Table of the record that caused the entry, e.g. "payment"
+  sourceId: varchar("source_id").notNull(),
+  reversesEntryId: varchar("reverses_entry_id"),
+  postedBy: varchar("posted_by").references(() => adminUsers.id), // Null for entries posted by the system
+  postedAt: timestamp("posted_at").notNull().defaultNow(),
+}, (table) => ({
+  // One entry per source record, so replays never post twice
+  uniqueSource: unique("journal_entries_source_type_source_id_unique").on(table.sourceType, table.sourceId),
+}));
+
+export const journalLines = pgTable("journal_lines", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  entryId: varchar("entry_id").notNull().references(() => journalEntries.id),
+  accountId: varchar("account_id").notNull().references(() => ledgerAccounts.id),
+  debit: decimal("debit", { precision: 12, scale: 2 }).notNull().default("0"),
+  credit: decimal("credit", { precision: 12, scale: 2 }).notNull().default("0"),
+}, (table) => ({
+  entryIdIdx: index("idx_journalLines_entryId").on(table.entryId),
+  accountIdIdx: index("idx_journalLines_accountId").on(table.accountId),
+  oneSidedAmount: check("check_journalLines_oneSidedAmount", sql`${table.debit} >= 0 AND ${table.credit} >= 0 AND (${table.debit} = 0) <> (${table.credit} = 0)`),
+}));
+
 export const adminUsers = pgTable("admin_users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   email: text("email").notNull().unique(),
   passwordHash: text("password_hash").notNull(),
   fullName: text("full_name").notNull(),
+  role: text("role").notNull().default("read_only"), // "super_admin" | "compliance" | "legal" | "finance" | "operations" | "read_only"
+  isActive: boolean("is_active").notNull().default(true),
+  lastLoginAt: timestamp("last_login_at"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
@@ -76,7 +288,7 @@ export const adminUsers = pgTable("admin_users", {
 export const agreementTemplates = pgTable("agreement_templates", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: text("name").notNull(),
-  templateType: text("template_type").notNull(), // "co_ownership" | "power_of_attorney" | "jop_declaration"
+  templateType: text("template_type").notNull(), // "co_ownership" | "power_of_attorney" | "jop_declaration" | "share_transfer"
   content: text("content").notNull(), // Rich text content with placeholders (English)
   contentHash: text("content_hash").notNull(), // SHA-256 hash for integrity
   contentArabic: text("content_arabic").notNull(), // Arabic content with placeholders
@@ -94,6 +306,8 @@ export const signatureSessions = pgTable("signature_sessions", {
   investorId: varchar("investor_id").notNull().references(() => investors.id),
   propertyId: varchar("property_id").notNull().references(() => properties.id),
   templateId: varchar("template_id").notNull().references(() => agreementTemplates.id),
+  shareTransferId: varchar("share_transfer_id").references(() => shareTransfers.id), // Set when signing a share transfer agreement
+  reservationId: varchar("reservation_id").references(() => propertyReservations.id), // The deal a co-ownership agreement is signed for
   sessionToken: text("session_token").notNull(), // Secure random token
   otpVerified: boolean("otp_verified").notNull().default(false),
   status: text("status").notNull().default("pending"), // "pending" | "verified" | "signed" | "expired"
@@ -122,6 +336,8 @@ export const investorSignatures = pgTable("investor_signatures", {
   investorId: varchar("investor_id").notNull().references(() => investors.id),
   templateId: varchar("template_id").notNull().references(() => agreementTemplates.id),
   propertyId: varchar("property_id").notNull().references(() => properties.id),
+  shareTransferId: varchar("share_transfer_id").references(() => shareTransfers.id), // Share transfer agreements are signed once per transfer
+  reservationId: varchar("reservation_id").references(() => propertyReservations.id), // The deal a co-ownership agreement is signed for
   encryptedSignatureData: text("encrypted_signature_data").notNull(), // Encrypted base64 signature
   signatureHash: text("signature_hash").notNull(), // SHA-256 hash for verification
   ipAddress: text("ip_address"),
@@ -129,21 +345,32 @@ export const investorSignatures = pgTable("investor_signatures", {
   signedAt: timestamp("signed_at").notNull().defaultNow(),
   consentGiven: boolean("consent_given").notNull().default(true),
   serverTimestamp: text("server_timestamp").notNull(), // UTC timestamp for non-repudiation
+  invalidatedAt: timestamp("invalidated_at"), // Set when the deal it was signed for is cancelled
+  invalidationReason: text("invalidation_reason"),
 }, (table) => ({
-  uniqueInvestorSignature: sql`UNIQUE (investor_id, template_id, property_id)`
+  // Invalidated signatures are kept; the investor may sign again for a new deal
+  uniqueInvestorSignature: uniqueIndex("idx_investorSignatures_investorId_templateId_propertyId")
+    .on(table.investorId, table.templateId, table.propertyId)
+    .where(sql`invalidated_at IS NULL AND share_transfer_id IS NULL`),
+  uniqueTransferSignature: uniqueIndex("idx_investorSignatures_shareTransferId_investorId")
+    .on(table.shareTransferId, table.investorId)
+    .where(sql`invalidated_at IS NULL`),
 }));
 
 // Generated and sealed documents with certificate pages
 export const signedDocuments = pgTable("signed_documents", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   propertyId: varchar("property_id").notNull().references(() => properties.id),
-  documentType: text("document_type").notNull(), // "co_ownership" | "power_of_attorney" | "jop_declaration"
+  documentType: text("document_type").notNull(), // "co_ownership" | "power_of_attorney" | "jop_declaration" | "share_transfer"
+  reservationId: varchar("reservation_id").references(() => propertyReservations.id), // The deal the document records
   filePath: text("file_path").notNull(), // Encrypted PDF in secure storage
   fileHash: text("file_hash").notNull(), // SHA-256 hash of final PDF
   templateVersion: integer("template_version").notNull(),
   allSignaturesComplete: boolean("all_signatures_complete").notNull().default(false),
   sealedAt: timestamp("sealed_at"),
   generatedAt: timestamp("generated_at").notNull().defaultNow(),
+  invalidatedAt: timestamp("invalidated_at"), // Set when the deal it records is cancelled
+  invalidationReason: text("invalidation_reason"),
 });
 
 // Immutable audit log for all signing activities
@@ -176,14 +403,16 @@ export const propertyReservations = pgTable("property_reservations", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   propertyId: varchar("property_id").notNull().references(() => properties.id),
   initiatorInvestorId: varchar("initiator_investor_id").notNull().references(() => investors.id), // Investor who started the reservation
-  reservationStatus: text("reservation_status").notNull().default("draft"), // "draft" | "invitations_sent" | "all_signed" | "payment_pending" | "payment_complete" | "cancelled"
+  reservationStatus: text("reservation_status").notNull().default("draft"), // "draft" | "invitations_sent" | "all_signed" | "payment_pending" | "payment_complete" | "closed" | "cancelled"
   totalSlotsReserved: integer("total_slots_reserved").notNull().default(1), // Max 4
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 }, (table) => ({
   propertyIdIdx: index("idx_propertyReservations_propertyId").on(table.propertyId),
-  checkTotalSlotsReserved: sql`CHECK (total_slots_reserved BETWEEN 1 AND 4)`,
-  uniqueActiveReservation: sql`UNIQUE (property_id) WHERE reservation_status IN ('draft', 'invitations_sent', 'all_signed', 'payment_pending')`,
+  checkTotalSlotsReserved: check("check_propertyReservations_totalSlotsReserved", sql`${table.totalSlotsReserved} BETWEEN 1 AND 4`),
+  uniqueActiveReservation: uniqueIndex("idx_propertyReservations_propertyId_active")
+    .on(table.propertyId)
+    .where(sql`reservation_status IN ('draft', 'invitations_sent', 'all_signed', 'payment_pending')`),
 }));
 
 // Co-owner slots - individual share allocations within a reservation
@@ -195,13 +424,18 @@ export const coOwnerSlots = pgTable("co_owner_slots", {
   sharePercentage: decimal("share_percentage", { precision: 5, scale: 2 }).notNull(), // e.g., 25.00, 33.33, 50.00
   invitationStatus: text("invitation_status").notNull().default("reserved"), // "reserved" | "invited" | "accepted" | "declined"
   invitationEmail: text("invitation_email"), // Email of invited co-owner
+  paymentStatus: text("payment_status").notNull().default("unpaid"), // "unpaid" | "pending" | "paid"
+  paymentStartedAt: timestamp("payment_started_at"), // Latest card checkout or transfer request while pending
+  paidAt: timestamp("paid_at"),
+  transferReference: text("transfer_reference"), // e.g. FOPD-7KQ2M9XA, issued when the co-owner chooses bank transfer
   createdAt: timestamp("created_at").notNull().defaultNow(),
 }, (table) => ({
   reservationIdIdx: index("idx_coOwnerSlots_reservationId").on(table.reservationId),
-  uniqueReservationSlot: sql`UNIQUE (reservation_id, slot_number)`,
-  uniqueReservationEmail: sql`UNIQUE (reservation_id, invitation_email)`,
-  checkSlotNumber: sql`CHECK (slot_number >= 1 AND slot_number <= 4)`,
-  checkSharePercentage: sql`CHECK (share_percentage > 0 AND share_percentage <= 100)`,
+  uniqueReservationSlot: uniqueIndex("idx_coOwnerSlots_reservationId_slotNumber").on(table.reservationId, table.slotNumber),
+  uniqueTransferReference: uniqueIndex("idx_coOwnerSlots_transferReference").on(table.transferReference),
+  uniqueReservationEmail: uniqueIndex("idx_coOwnerSlots_reservationId_invitationEmail").on(table.reservationId, table.invitationEmail),
+  checkSlotNumber: check("check_coOwnerSlots_slotNumber", sql`${table.slotNumber} >= 1 AND ${table.slotNumber} <= 4`),
+  checkSharePercentage: check("check_coOwnerSlots_sharePercentage", sql`${table.sharePercentage} > 0 AND ${table.sharePercentage} <= 100`),
 }));
 
 // Co-owner invitations - email invites for co-ownership
@@ -218,19 +452,431 @@ export const coOwnerInvitations = pgTable("co_owner_invitations", {
   createdAt: timestamp("created_at").notNull().defaultNow(),
 }, (table) => ({
   reservationIdIdx: index("idx_coOwnerInvitations_reservationId").on(table.reservationId),
-  uniqueSlotInvitation: sql`UNIQUE (slot_id)`,
+  uniqueSlotInvitation: uniqueIndex("idx_coOwnerInvitations_slotId").on(table.slotId),
+}));
+
+// Every reservation status change, with who made it
+export const reservationStatusHistory = pgTable("reservation_status_history", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  reservationId: varchar("reservation_id").notNull().references(() => propertyReservations.id, { onDelete: "cascade" }),
+  fromStatus: text("from_status"), // Null for the reservation being created
+  toStatus: text("to_status").notNull(),
+  changedByInvestorId: varchar("changed_by_investor_id").references(() => investors.id),
+  changedByAdminId: varchar("changed_by_admin_id").references(() => adminUsers.id), // Both null when a payment, refund or exit moved it
+  reason: text("reason"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  reservationIdIdx: index("idx_reservationStatusHistory_reservationId").on(table.reservationId),
+}));
+
+// Developer payment plan - instalments as a percentage of the property price
+export const paymentPlanInstalments = pgTable("payment_plan_instalments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  propertyId: varchar("property_id").notNull().references(() => properties.id),
+  sequence: integer("sequence").notNull(), // 1-based order in the plan
+  label: text("label").notNull(), // e.g. "Booking", "50% construction"
+  percentage: decimal("percentage", { precision: 5, scale: 2 }).notNull(), // Of the total property price
+  triggerType: text("trigger_type").notNull(), // "date" | "milestone"
+  dueDate: timestamp("due_date"), // Fixed for date instalments, set on trigger for milestone instalments
+  milestoneName: text("milestone_name"), // Milestone instalments only
+  milestoneStage: text("milestone_stage"), // Construction stage that triggers the instalment
+  triggeredAt: timestamp("triggered_at"),
+  paymentWindowDays: integer("payment_window_days").notNull().default(30), // Days to pay once a milestone is reached
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  propertyIdIdx: index("idx_paymentPlanInstalments_propertyId").on(table.propertyId),
+  uniquePropertySequence: uniqueIndex("idx_paymentPlanInstalments_propertyId_sequence").on(table.propertyId, table.sequence),
+  checkPercentage: check("check_paymentPlanInstalments_percentage", sql`${table.percentage} > 0 AND ${table.percentage} <= 100`),
+}));
+
+// A co-owner's payment towards one instalment
+export const instalmentPayments = pgTable("instalment_payments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  instalmentId: varchar("instalment_id").notNull().references(() => paymentPlanInstalments.id),
+  slotId: varchar("slot_id").notNull().references(() => coOwnerSlots.id),
+  investorId: varchar("investor_id").notNull().references(() => investors.id),
+  amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+  status: text("status").notNull().default("paid"), // "paid"
+  paymentMethod: text("payment_method"), // "card" | "bank_transfer" | "cheque"
+  reference: text("reference"), // Charge ID, bank reference or cheque number
+  recordedBy: varchar("recorded_by").references(() => adminUsers.id), // null when recorded by a webhook
+  paidAt: timestamp("paid_at").notNull().defaultNow(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  instalmentIdIdx: index("idx_instalmentPayments_instalmentId").on(table.instalmentId),
+  investorIdIdx: index("idx_instalmentPayments_investorId").on(table.investorId),
+  uniqueInstalmentSlot: uniqueIndex("idx_instalmentPayments_instalmentId_slotId").on(table.instalmentId, table.slotId),
+}));
+
+// Rent collected for a handed-over property over a period, less costs, shared among its co-owners
+export const rentalDistributions = pgTable("rental_distributions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  propertyId: varchar("property_id").notNull().references(() => properties.id),
+  periodStart: timestamp("period_start").notNull(),
+  periodEnd: timestamp("period_end").notNull(),
+  grossRent: decimal("gross_rent", { precision: 12, scale: 2 }).notNull(),
+  managementFee: decimal("management_fee", { precision: 12, scale: 2 }).notNull().default("0"),
+  serviceCharges: decimal("service_charges", { precision: 12, scale: 2 }).notNull().default("0"),
+  maintenance: decimal("maintenance", { precision: 12, scale: 2 }).notNull().default("0"),
+  netIncome: decimal("net_income", { precision: 12, scale: 2 }).notNull(), // Gross rent less the three deductions
+  notes: text("notes"),
+  recordedBy: varchar("recorded_by").references(() => adminUsers.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  propertyIdIdx: index("idx_rentalDistributions_propertyId").on(table.propertyId),
+  uniquePropertyPeriod: uniqueIndex("idx_rentalDistributions_propertyId_periodStart").on(table.propertyId, table.periodStart),
+  checkPeriod: check("check_rentalDistributions_period", sql`${table.periodEnd} >= ${table.periodStart}`),
+  checkNetIncome: check("check_rentalDistributions_netIncome", sql`${table.netIncome} > 0`),
+}));
+
+// A co-owner's share of a distribution, and the instruction to pay it out to them
+export const rentalPayouts = pgTable("rental_payouts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  distributionId: varchar("distribution_id").notNull().references(() => rentalDistributions.id),
+  investorId: varchar("investor_id").notNull().references(() => investors.id),
+  slotId: varchar("slot_id").notNull().references(() => coOwnerSlots.id), // Paid slot the share is held through
+  sharePercentage: decimal("share_percentage", { precision: 5, scale: 2 }).notNull(),
+  amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+  status: text("status").notNull().default("pending"), // "pending" | "paid"
+  paymentReference: text("payment_reference"), // Bank reference of the payout transfer
+  paidBy: varchar("paid_by").references(() => adminUsers.id),
+  paidAt: timestamp("paid_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  distributionIdIdx: index("idx_rentalPayouts_distributionId").on(table.distributionId),
+  investorIdIdx: index("idx_rentalPayouts_investorId").on(table.investorId),
+  uniqueDistributionSlot: uniqueIndex("idx_rentalPayouts_distributionId_slotId").on(table.distributionId, table.slotId),
+}));
+
+export const expenseCategories = ["dewa", "service_charges", "maintenance", "insurance", "other"] as const;
+
+// A bill for a co-owned property, split among its co-owners by share
+export const propertyExpenses = pgTable("property_expenses", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  propertyId: varchar("property_id").notNull().references(() => properties.id),
+  category: text("category").notNull(), // "dewa" | "service_charges" | "maintenance" | "insurance" | "other"
+  vendor: text("vendor").notNull(),
+  description: text("description"),
+  invoiceNumber: text("invoice_number"),
+  invoicePath: text("invoice_path"),
+  invoiceFilename: text("invoice_filename"),
+  amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+  dueDate: timestamp("due_date").notNull(),
+  status: text("status").notNull().default("approved"), // "pending_approval" | "approved" | "rejected" | "paid"
+  approvalsRequired: integer("approvals_required").notNull().default(0), // Co-owner approvals needed; 0 at or below the threshold
+  decidedAt: timestamp("decided_at"), // When the co-owners approved or rejected it
+  recordedBy: varchar("recorded_by").references(() => adminUsers.id),
+  paymentReference: text("payment_reference"),
+  paidBy: varchar("paid_by").references(() => adminUsers.id),
+  paidAt: timestamp("paid_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  propertyIdIdx: index("idx_propertyExpenses_propertyId").on(table.propertyId),
+  statusIdx: index("idx_propertyExpenses_status").on(table.status),
+  checkAmount: check("check_propertyExpenses_amount", sql`${table.amount} > 0`),
+}));
+
+// A co-owner's part of an expense, fixed when the expense is recorded
+export const expenseAllocations = pgTable("expense_allocations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  expenseId: varchar("expense_id").notNull().references(() => propertyExpenses.id),
+  investorId: varchar("investor_id").notNull().references(() => investors.id),
+  slotId: varchar("slot_id").notNull().references(() => coOwnerSlots.id),
+  sharePercentage: decimal("share_percentage", { precision: 5, scale: 2 }).notNull(),
+  amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+}, (table) => ({
+  expenseIdIdx: index("idx_expenseAllocations_expenseId").on(table.expenseId),
+  investorIdIdx: index("idx_expenseAllocations_investorId").on(table.investorId),
+  uniqueExpenseSlot: uniqueIndex("idx_expenseAllocations_expenseId_slotId").on(table.expenseId, table.slotId),
+}));
+
+// A co-owner's decision on an expense above the approval threshold; one per co-owner, never changed
+export const expenseApprovals = pgTable("expense_approvals", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  expenseId: varchar("expense_id").notNull().references(() => propertyExpenses.id),
+  investorId: varchar("investor_id").notNull().references(() => investors.id),
+  decision: text("decision").notNull(), // "approved" | "rejected"
+  comment: text("comment"),
+  decidedAt: timestamp("decided_at").notNull().defaultNow(),
+}, (table) => ({
+  expenseIdIdx: index("idx_expenseApprovals_expenseId").on(table.expenseId),
+  uniqueExpenseInvestor: uniqueIndex("idx_expenseApprovals_expenseId_investorId").on(table.expenseId, table.investorId),
+}));
+
+// A co-owner selling the share they hold through a paid slot. Until rofrEndsAt only the property's
+// other co-owners may buy it, at the asking price; after that any verified investor may make an offer.
+export const shareListings = pgTable("share_listings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  propertyId: varchar("property_id").notNull().references(() => properties.id),
+  slotId: varchar("slot_id").notNull().references(() => coOwnerSlots.id),
+  sellerInvestorId: varchar("seller_investor_id").notNull().references(() => investors.id),
+  sharePercentage: decimal("share_percentage", { precision: 5, scale: 2 }).notNull(),
+  askingPrice: decimal("asking_price", { precision: 12, scale: 2 }).notNull(),
+  notes: text("notes"),
+  status: text("status").notNull().default("listed"), // "listed" | "agreed" | "sold" | "withdrawn"
+  rofrEndsAt: timestamp("rofr_ends_at").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  propertyIdIdx: index("idx_shareListings_propertyId").on(table.propertyId),
+  statusIdx: index("idx_shareListings_status").on(table.status),
+  uniqueActiveSlot: uniqueIndex("idx_shareListings_slotId_active").on(table.slotId).where(sql`status IN ('listed', 'agreed')`),
+  checkAskingPrice: check("check_shareListings_askingPrice", sql`${table.askingPrice} > 0`),
+}));
+
+// An offer to buy a listed share
+export const shareOffers = pgTable("share_offers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  listingId: varchar("listing_id").notNull().references(() => shareListings.id),
+  buyerInvestorId: varchar("buyer_investor_id").notNull().references(() => investors.id),
+  amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+  message: text("message"),
+  isRightOfFirstRefusal: boolean("is_right_of_first_refusal").notNull().default(false), // A co-owner buying at the asking price
+  status: text("status").notNull().default("pending"), // "pending" | "accepted" | "rejected" | "withdrawn" | "cancelled"
+  decidedAt: timestamp("decided_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  listingIdIdx: index("idx_shareOffers_listingId").on(table.listingId),
+  buyerInvestorIdIdx: index("idx_shareOffers_buyerInvestorId").on(table.buyerInvestorId),
+  uniquePendingOffer: uniqueIndex("idx_shareOffers_listingId_buyerInvestorId_pending")
+    .on(table.listingId, table.buyerInvestorId)
+    .where(sql`status = 'pending'`),
+  checkAmount: check("check_shareOffers_amount", sql`${table.amount} > 0`),
+}));
+
+// An agreed sale: both parties sign the share transfer agreement, the buyer pays, then the share moves
+export const shareTransfers = pgTable("share_transfers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  listingId: varchar("listing_id").notNull().references(() => shareListings.id),
+  offerId: varchar("offer_id").notNull().references(() => shareOffers.id),
+  propertyId: varchar("property_id").notNull().references(() => properties.id),
+  slotId: varchar("slot_id").notNull().references(() => coOwnerSlots.id),
+  sellerInvestorId: varchar("seller_investor_id").notNull().references(() => investors.id),
+  buyerInvestorId: varchar("buyer_investor_id").notNull().references(() => investors.id),
+  sharePercentage: decimal("share_percentage", { precision: 5, scale: 2 }).notNull(),
+  price: decimal("price", { precision: 12, scale: 2 }).notNull(),
+  templateId: varchar("template_id").notNull().references(() => agreementTemplates.id), // Share transfer agreement version signed
+  status: text("status").notNull().default("signing"), // "signing" | "awaiting_payment" | "completed" | "cancelled"
+  settlementReference: text("settlement_reference").notNull(), // Quoted by the buyer on their transfer, e.g. FOPD-7KQ2M9XA
+  signedDocumentId: varchar("signed_document_id").references(() => signedDocuments.id), // Sealed agreement, once both have signed
+  capitalTransferred: decimal("capital_transferred", { precision: 12, scale: 2 }), // Seller's paid-in capital moved to the buyer
+  paymentReference: text("payment_reference"), // Bank reference of the buyer's payment
+  settledBy: varchar("settled_by").references(() => adminUsers.id),
+  settledAt: timestamp("settled_at"),
+  cancellationReason: text("cancellation_reason"),
+  cancelledAt: timestamp("cancelled_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  propertyIdIdx: index("idx_shareTransfers_propertyId").on(table.propertyId),
+  uniqueOfferId: uniqueIndex("idx_shareTransfers_offerId").on(table.offerId),
+  uniqueSettlementReference: uniqueIndex("idx_shareTransfers_settlementReference").on(table.settlementReference),
+}));
+
+// Monthly or annual statement of an owner's account with one property, issued once per closed period
+export const ownerStatements = pgTable("owner_statements", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  investorId: varchar("investor_id").notNull().references(() => investors.id),
+  propertyId: varchar("property_id").notNull().references(() => properties.id),
+  sequenceNumber: integer("sequence_number").notNull(), // Gapless across all statements
+  statementNumber: text("statement_number").notNull(), // e.g. "FOPD-STM-2026-000042"
+  periodType: text("period_type").notNull(), // "monthly" | "annual"
+  periodStart: timestamp("period_start").notNull(),
+  periodEnd: timestamp("period_end").notNull(), // Last day of the period
+  openingBalance: decimal("opening_balance", { precision: 12, scale: 2 }).notNull(),
+  contributions: decimal("contributions", { precision: 12, scale: 2 }).notNull(), // Net of refunds
+  rentReceived: decimal("rent_received", { precision: 12, scale: 2 }).notNull(),
+  expensesAllocated: decimal("expenses_allocated", { precision: 12, scale: 2 }).notNull(),
+  distributions: decimal("distributions", { precision: 12, scale: 2 }).notNull(),
+  saleProceeds: decimal("sale_proceeds", { precision: 12, scale: 2 }).notNull().default("0"),
+  closingBalance: decimal("closing_balance", { precision: 12, scale: 2 }).notNull(),
+  language: text("language").notNull().default("en"), // "en" | "ar"
+  filePath: text("file_path").notNull(),
+  fileHash: text("file_hash").notNull(), // SHA-256 of the PDF
+  csvPath: text("csv_path").notNull(),
+  csvHash: text("csv_hash").notNull(), // SHA-256 of the CSV
+  trigger: text("trigger").notNull(), // "schedule" | "on_demand"
+  issuedAt: timestamp("issued_at").notNull().defaultNow(),
+}, (table) => ({
+  investorIdIdx: index("idx_ownerStatements_investorId").on(table.investorId),
+  uniquePeriod: uniqueIndex("idx_ownerStatements_investorId_propertyId_period").on(table.investorId, table.propertyId, table.periodType, table.periodStart),
+  uniqueSequenceNumber: uniqueIndex("idx_ownerStatements_sequenceNumber").on(table.sequenceNumber),
+}));
+
+export const governanceCategories = ["tenant_selection", "major_repair", "property_sale", "property_manager", "other"] as const;
+
+// A decision put to a property's co-owners, who vote with the weight of their shares. It passes when the
+// shares voting for it reach thresholdPercentage of the shares voted, once quorumPercentage of the property has voted.
+export const governanceProposals = pgTable("governance_proposals", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  propertyId: varchar("property_id").notNull().references(() => properties.id),
+  category: text("category").notNull(), // "tenant_selection" | "major_repair" | "property_sale" | "property_manager" | "other"
+  title: text("title").notNull(),
+  description: text("description").notNull(),
+  quorumPercentage: decimal("quorum_percentage", { precision: 5, scale: 2 }).notNull(), // Share of the property that must vote
+  thresholdPercentage: decimal("threshold_percentage", { precision: 5, scale: 2 }).notNull(), // Share of the votes that must be for
+  deadline: timestamp("deadline").notNull(),
+  status: text("status").notNull().default("open"), // "open" | "passed" | "rejected" | "no_quorum" | "cancelled"
+  sharesFor: decimal("shares_for", { precision: 5, scale: 2 }).notNull().default("0"),
+  sharesAgainst: decimal("shares_against", { precision: 5, scale: 2 }).notNull().default("0"),
+  sharesAbstained: decimal("shares_abstained", { precision: 5, scale: 2 }).notNull().default("0"),
+  proposedByInvestorId: varchar("proposed_by_investor_id").references(() => investors.id),
+  proposedByAdminId: varchar("proposed_by_admin_id").references(() => adminUsers.id),
+  resolutionNumber: text("resolution_number"), // e.g. "FOPD-RES-2026-000007", once passed
+  resolutionPath: text("resolution_path"),
+  resolutionHash: text("resolution_hash"), // SHA-256 of the resolution PDF
+  cancellationReason: text("cancellation_reason"),
+  closedAt: timestamp("closed_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  propertyIdIdx: index("idx_governanceProposals_propertyId").on(table.propertyId),
+  statusIdx: index("idx_governanceProposals_status").on(table.status),
+  uniqueResolutionNumber: uniqueIndex("idx_governanceProposals_resolutionNumber").on(table.resolutionNumber),
+  checkQuorum: check("check_governanceProposals_quorum", sql`${table.quorumPercentage} > 0 AND ${table.quorumPercentage} <= 100`),
+  checkThreshold: check("check_governanceProposals_threshold", sql`${table.thresholdPercentage} > 50 AND ${table.thresholdPercentage} <= 100`),
+}));
+
+// The co-owners entitled to vote on a proposal and their weight, fixed when it opens so later share sales don't change the count
+export const governanceVoters = pgTable("governance_voters", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  proposalId: varchar("proposal_id").notNull().references(() => governanceProposals.id),
+  investorId: varchar("investor_id").notNull().references(() => investors.id),
+  sharePercentage: decimal("share_percentage", { precision: 5, scale: 2 }).notNull(),
+}, (table) => ({
+  investorIdIdx: index("idx_governanceVoters_investorId").on(table.investorId),
+  uniqueProposalInvestor: uniqueIndex("idx_governanceVoters_proposalId_investorId").on(table.proposalId, table.investorId),
+}));
+
+// A ballot confirmed by OTP; never changed. Each ballot hashes the one before it, so removing or editing one breaks the chain.
+export const governanceVotes = pgTable("governance_votes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  proposalId: varchar("proposal_id").notNull().references(() => governanceProposals.id),
+  investorId: varchar("investor_id").notNull().references(() => investors.id),
+  choice: text("choice").notNull(), // "for" | "against" | "abstain"
+  sharePercentage: decimal("share_percentage", { precision: 5, scale: 2 }).notNull(), // Weight of the ballot
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent"),
+  previousHash: text("previous_hash"), // Hash of the proposal's previous ballot; null for the first
+  ballotHash: text("ballot_hash").notNull(),
+  castAt: timestamp("cast_at").notNull().defaultNow(),
+}, (table) => ({
+  proposalIdIdx: index("idx_governanceVotes_proposalId").on(table.proposalId),
+  uniqueProposalInvestor: uniqueIndex("idx_governanceVotes_proposalId_investorId").on(table.proposalId, table.investorId),
+}));
+
+// A co-owned property put up for sale after its co-owners voted to sell, through to the transfer at the DLD
+export const propertyExits = pgTable("property_exits", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  propertyId: varchar("property_id").notNull().references(() => properties.id),
+  proposalId: varchar("proposal_id").notNull().references(() => governanceProposals.id), // The passed property_sale proposal
+  askingPrice: decimal("asking_price", { precision: 12, scale: 2 }).notNull(),
+  listingAgent: text("listing_agent"), // Broker marketing the property, if any
+  listingReference: text("listing_reference"), // e.g. the portal listing or Form A number
+  notes: text("notes"),
+  status: text("status").notNull().default("listed"), // "listed" | "agreed" | "completed" | "withdrawn"
+  agreedOfferId: varchar("agreed_offer_id"), // The buyer's offer that was accepted
+  salePrice: decimal("sale_price", { precision: 12, scale: 2 }), // Set when an offer is accepted
+  dldTransferFee: decimal("dld_transfer_fee", { precision: 12, scale: 2 }).notNull().default("0"),
+  agencyCommission: decimal("agency_commission", { precision: 12, scale: 2 }).notNull().default("0"),
+  otherCosts: decimal("other_costs", { precision: 12, scale: 2 }).notNull().default("0"), // Trustee, NOC and similar fees
+  netProceeds: decimal("net_proceeds", { precision: 12, scale: 2 }), // Sale price less the three costs
+  transferReference: text("transfer_reference"), // DLD title deed or transfer number
+  paymentReference: text("payment_reference"), // Bank reference of the buyer's payment into escrow
+  withdrawalReason: text("withdrawal_reason"),
+  createdBy: varchar("created_by").references(() => adminUsers.id),
+  completedBy: varchar("completed_by").references(() => adminUsers.id),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  propertyIdIdx: index("idx_propertyExits_propertyId").on(table.propertyId),
+  uniqueActiveExit: uniqueIndex("idx_propertyExits_propertyId_active").on(table.propertyId).where(sql`status IN ('listed', 'agreed')`),
+  checkAskingPrice: check("check_propertyExits_askingPrice", sql`${table.askingPrice} > 0`),
+}));
+
+// An offer from an outside buyer for a whole property being sold
+export const exitOffers = pgTable("exit_offers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  exitId: varchar("exit_id").notNull().references(() => propertyExits.id),
+  buyerName: text("buyer_name").notNull(),
+  buyerEmail: text("buyer_email"),
+  amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+  notes: text("notes"),
+  status: text("status").notNull().default("pending"), // "pending" | "accepted" | "rejected" | "cancelled"
+  recordedBy: varchar("recorded_by").references(() => adminUsers.id),
+  decidedAt: timestamp("decided_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  exitIdIdx: index("idx_exitOffers_exitId").on(table.exitId),
+  checkAmount: check("check_exitOffers_amount", sql`${table.amount} > 0`),
+}));
+
+// A co-owner's share of the sale proceeds, the instruction to pay it out and their final exit statement
+export const exitPayouts = pgTable("exit_payouts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  exitId: varchar("exit_id").notNull().references(() => propertyExits.id),
+  investorId: varchar("investor_id").notNull().references(() => investors.id),
+  sharePercentage: decimal("share_percentage", { precision: 5, scale: 2 }).notNull(), // All their slots together
+  saleShare: decimal("sale_share", { precision: 12, scale: 2 }).notNull(), // Their share of the sale price
+  costShare: decimal("cost_share", { precision: 12, scale: 2 }).notNull(), // Their share of the costs of sale
+  capitalReturned: decimal("capital_returned", { precision: 12, scale: 2 }).notNull(), // Paid-in capital closed out
+  amount: decimal("amount", { precision: 12, scale: 2 }).notNull(), // Net proceeds: sale share less cost share
+  status: text("status").notNull().default("pending"), // "pending" | "paid"
+  paymentReference: text("payment_reference"), // Bank reference of the payout transfer
+  paidBy: varchar("paid_by").references(() => adminUsers.id),
+  paidAt: timestamp("paid_at"),
+  statementNumber: text("statement_number"), // e.g. "FOPD-EXT-2026-000001"
+  statementPath: text("statement_path"),
+  statementHash: text("statement_hash"), // SHA-256 of the PDF
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  exitIdIdx: index("idx_exitPayouts_exitId").on(table.exitId),
+  investorIdIdx: index("idx_exitPayouts_investorId").on(table.investorId),
+  uniqueExitInvestor: uniqueIndex("idx_exitPayouts_exitId_investorId").on(table.exitId, table.investorId),
+  uniqueStatementNumber: uniqueIndex("idx_exitPayouts_statementNumber").on(table.statementNumber),
+}));
+
+// One-time passcodes for login, signing and voting - only a keyed hash of the code is stored
+export const otpCodes = pgTable("otp_codes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  purpose: text("purpose").notNull(), // "login" | "signing" | "voting"
+  subject: text("subject").notNull(), // Email for login, session token for signing, proposal, investor and choice for voting
+  codeHash: text("code_hash").notNull(),
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(5),
+  expiresAt: timestamp("expires_at").notNull(),
+  consumedAt: timestamp("consumed_at"),
+  requestedFrom: text("requested_from"), // Client IP, so one address cannot request codes for many accounts
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  purposeSubjectIdx: index("idx_otpCodes_purpose_subject").on(table.purpose, table.subject),
+  expiresAtIdx: index("idx_otpCodes_expiresAt").on(table.expiresAt),
+  requestedFromIdx: index("idx_otpCodes_requestedFrom").on(table.requestedFrom),
 }));
 
 export const insertInvestorSchema = createInsertSchema(investors).omit({
   id: true,
   createdAt: true,
   fractionsPurchased: true,
-  totalInvested: true,
   kycStatus: true,
   paymentStatus: true,
 }).extend({
   email: z.string().email("Invalid email address"),
-  phone: z.string().min(10, "Phone number must be at least 10 digits"),
+  phone: z.string().min(1, "Phone number is required").transform((value, ctx) => {
+    const normalized = normalizePhoneNumber(value);
+    if (!normalized) {
+      ctx.addIssue({ 
+        code: z.ZodIssueCode.custom, 
+        message: "Enter a valid phone number with country code, e.g. +971 50 123 4567" 
+      });
+      return z.NEVER;
+    }
+    return normalized;
+  }),
+  otpChannel: z.enum(otpChannels).optional(),
+});
+
+export const updateInvestorPreferencesSchema = z.object({
+  preferredLanguage: z.enum(["en", "ar"]).optional(),
+  otpChannel: z.enum(otpChannels).optional(),
 });
 
 export const insertFractionSchema = createInsertSchema(fractions).omit({
@@ -241,14 +887,62 @@ export const insertFractionSchema = createInsertSchema(fractions).omit({
 export const insertPropertySchema = createInsertSchema(properties).omit({
   id: true,
   createdAt: true,
+  updatedAt: true,
 });
 
+export const propertyStatuses = ["draft", "published", "fully_funded", "archived", "sold"] as const;
+
+// Statuses visible in the public catalogue
+export const listedPropertyStatuses = ["published", "fully_funded"] as const;
+
+/**
+ * Admin create / edit form. Prices arrive as numbers and are stored as decimals.
+ */
+export const adminPropertySchema = z.object({
+  title: z.string().trim().min(1, "Title is required"),
+  location: z.string().trim().min(1, "Location is required"),
+  description: z.string().trim().nullish(),
+  totalPrice: z.coerce.number().positive("Total price must be greater than 0"),
+  pricePerFraction: z.coerce.number().positive("Price per fraction must be greater than 0"),
+  totalFractions: z.coerce.number().int().min(1).max(4, "A property can have at most 4 co-owners"),
+  bedrooms: z.coerce.number().int().min(0).nullish(),
+  bathrooms: z.coerce.number().int().min(0).nullish(),
+  area: z.coerce.number().int().positive("Area must be greater than 0").nullish(),
+  escrowIban: z.string()
+    .transform(value => value.replace(/\s+/g, "").toUpperCase())
+    .refine(value => value === "" || /^AE\d{21}$/.test(value), "Enter a valid UAE IBAN (AE followed by 21 digits)")
+    .transform(value => value || null)
+    .nullish(),
+  handoverDate: z.coerce.date().nullish(),
+  status: z.enum(propertyStatuses).default("draft"),
+}).refine(
+  data => Math.abs(data.pricePerFraction * data.totalFractions - data.totalPrice) < 0.01,
+  { message: "Price per fraction multiplied by total fractions must equal the total price", path: ["pricePerFraction"] }
+);
+
 export const insertPaymentSchema = createInsertSchema(payments).omit({
   id: true,
   createdAt: true,
   completedAt: true,
 });
 
+export const insertAdminUserSchema = createInsertSchema(adminUsers).omit({
+  id: true,
+  createdAt: true,
+  lastLoginAt: true,
+  passwordHash: true,
+}).extend({
+  email: z.string().email("Invalid email address"),
+  fullName: z.string().min(1, "Full name is required"),
+  password: z.string().min(10, "Password must be at least 10 characters"),
+  role: z.enum(adminRoles).default("read_only"),
+});
+
+export const updateAdminUserSchema = z.object({
+  role: z.enum(adminRoles).optional(),
+  isActive: z.boolean().optional(),
+});
+
 export const insertAgreementTemplateSchema = createInsertSchema(agreementTemplates).omit({
   id: true,
   createdAt: true,
@@ -296,6 +990,354 @@ export const insertAuditLogSchema = createInsertSchema(signatureAuditLog).omit({
   timestamp: true,
 });
 
+export const insertPropertyMediaSchema = createInsertSchema(propertyMedia).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const uploadPropertyMediaSchema = z.object({
+  mediaType: z.enum(propertyMediaTypes),
+  caption: z.string().trim().max(200).optional(),
+  captionArabic: z.string().trim().max(200).optional(),
+});
+
+export const updatePropertyMediaSchema = z.object({
+  caption: z.string().trim().max(200).nullable().optional(),
+  captionArabic: z.string().trim().max(200).nullable().optional(),
+});
+
+export const reorderPropertyMediaSchema = z.object({
+  mediaIds: z.array(z.string().uuid()).min(1, "At least one media item is required"),
+});
+
+export const instalmentTriggerTypes = ["date", "milestone"] as const;
+
+export const constructionStages = ["foundation", "structure", "mep", "finishing", "handover"] as const;
+
+export const constructionStageLabels: Record<typeof constructionStages[number], string> = {
+  foundation: "Foundation",
+  structure: "Structure",
+  mep: "MEP",
+  finishing: "Finishing",
+  handover: "Handover",
+};
+
+export const insertConstructionMilestoneSchema = createInsertSchema(constructionMilestones).omit({
+  id: true,
+  updatedAt: true,
+  createdAt: true,
+});
+
+export const insertConstructionUpdateSchema = createInsertSchema(constructionUpdates).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const constructionUpdateSchema = z.object({
+  percentComplete: z.coerce.number().int().min(0).max(100),
+  note: z.string().trim().min(1, "Update note is required").max(2000),
+  noteArabic: z.string().trim().max(2000).optional(),
+  expectedCompletionDate: z.coerce.date().nullish(),
+});
+
+export const constructionPhotoSchema = z.object({
+  caption: z.string().trim().max(200).optional(),
+});
+
+export const insertPaymentPlanInstalmentSchema = createInsertSchema(paymentPlanInstalments).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertInstalmentPaymentSchema = createInsertSchema(instalmentPayments).omit({
+  id: true,
+  createdAt: true,
+});
+
+/**
+ * Admin payment plan editor - the whole plan is saved at once
+ */
+export const paymentPlanSchema = z.object({
+  instalments: z.array(z.object({
+    label: z.string().trim().min(1, "Label is required"),
+    percentage: z.coerce.number().positive().max(100),
+    triggerType: z.enum(instalmentTriggerTypes),
+    dueDate: z.coerce.date().nullish(),
+    milestoneName: z.string().trim().nullish(),
+    milestoneStage: z.enum(constructionStages).nullish(),
+    paymentWindowDays: z.coerce.number().int().min(1).max(365).default(30),
+  }).refine(
+    data => data.triggerType !== "date" || !!data.dueDate,
+    { message: "Dated instalments need a due date", path: ["dueDate"] }
+  ).refine(
+    data => data.triggerType !== "milestone" || !!data.milestoneStage,
+    { message: "Milestone instalments need a construction stage", path: ["milestoneStage"] }
+  )).min(1, "At least one instalment is required").max(20),
+}).refine(
+  data => Math.abs(data.instalments.reduce((sum, i) => sum + i.percentage, 0) - 100) < 0.01,
+  { message: "Instalment percentages must add up to 100%" }
+);
+
+export const createSlotChargeSchema = z.object({
+  slotId: z.string().uuid("Invalid slot ID"),
+});
+
+export const recordInstalmentPaymentSchema = z.object({
+  slotId: z.string().uuid("Invalid slot ID"),
+  paymentMethod: z.enum(["card", "bank_transfer", "cheque"]),
+  reference: z.string().trim().max(100).optional(),
+  paidAt: z.coerce.date().optional(),
+});
+
+export const refundPaymentSchema = z.object({
+  // Omit for a full refund of whatever has not been refunded yet
+  amount: z.coerce.number().positive("Refund amount must be greater than 0").optional(),
+  reason: z.string().trim().min(3, "A refund reason is required").max(500),
+});
+
+export const cancelReservationSchema = z.object({
+  reason: z.string().trim().min(3, "A cancellation reason is required").max(500),
+});
+
+export const insertRefundSchema = createInsertSchema(refunds).omit({
+  id: true,
+  status: true,
+  providerRefundId: true,
+  failureReason: true,
+  createdAt: true,
+  completedAt: true,
+});
+
+export const insertPaymentReceiptSchema = createInsertSchema(paymentReceipts).omit({
+  id: true,
+  issuedAt: true,
+});
+
+export const insertLedgerAccountSchema = createInsertSchema(ledgerAccounts).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertJournalEntrySchema = createInsertSchema(journalEntries).omit({
+  id: true,
+  postedAt: true,
+});
+
+export const insertRentalDistributionSchema = createInsertSchema(rentalDistributions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertRentalPayoutSchema = createInsertSchema(rentalPayouts).omit({
+  id: true,
+  status: true,
+  paymentReference: true,
+  paidBy: true,
+  paidAt: true,
+  createdAt: true,
+});
+
+/**
+ * Rent received for a period; the net after deductions is shared by ownership
+ */
+export const recordRentalIncomeSchema = z.object({
+  periodStart: z.coerce.date(),
+  periodEnd: z.coerce.date(),
+  grossRent: z.coerce.number().positive("Rent received must be greater than 0"),
+  managementFee: z.coerce.number().min(0).default(0),
+  serviceCharges: z.coerce.number().min(0).default(0),
+  maintenance: z.coerce.number().min(0).default(0),
+  notes: z.string().trim().max(500).optional(),
+}).refine(
+  data => data.periodEnd >= data.periodStart,
+  { message: "Period end must not be before its start", path: ["periodEnd"] }
+).refine(
+  data => data.grossRent - data.managementFee - data.serviceCharges - data.maintenance >= 0.01,
+  { message: "Deductions must leave some income to distribute", path: ["grossRent"] }
+);
+
+export const markRentalPayoutPaidSchema = z.object({
+  paymentReference: z.string().trim().min(1, "Enter the bank reference of the transfer").max(100),
+});
+
+export const expenseCategoryLabels: Record<typeof expenseCategories[number], string> = {
+  dewa: "DEWA",
+  service_charges: "Service charges",
+  maintenance: "Maintenance",
+  insurance: "Insurance",
+  other: "Other",
+};
+
+export const insertPropertyExpenseSchema = createInsertSchema(propertyExpenses).omit({
+  id: true,
+  decidedAt: true,
+  paymentReference: true,
+  paidBy: true,
+  paidAt: true,
+  createdAt: true,
+});
+
+/**
+ * Admin expense form; sent as multipart with the invoice, so numbers and dates arrive as strings
+ */
+export const recordExpenseSchema = z.object({
+  category: z.enum(expenseCategories),
+  vendor: z.string().trim().min(1, "Vendor is required").max(200),
+  description: z.string().trim().max(1000).optional(),
+  invoiceNumber: z.string().trim().max(100).optional(),
+  amount: z.coerce.number().positive("Amount must be greater than 0"),
+  dueDate: z.coerce.date(),
+});
+
+export const expenseDecisionSchema = z.object({
+  decision: z.enum(["approved", "rejected"]),
+  comment: z.string().trim().max(500).optional(),
+});
+
+export const markExpensePaidSchema = z.object({
+  paymentReference: z.string().trim().min(1, "Enter the bank reference of the payment").max(100),
+});
+
+export const insertOwnerStatementSchema = createInsertSchema(ownerStatements).omit({
+  id: true,
+  issuedAt: true,
+});
+
+export const ownerStatementRequestSchema = z.object({
+  propertyId: z.string().uuid("Invalid property ID"),
+  periodType: z.enum(["monthly", "annual"]),
+  year: z.coerce.number().int().min(2020).max(2100),
+  month: z.coerce.number().int().min(1).max(12).optional(),
+}).refine(
+  data => data.periodType === "annual" || data.month !== undefined,
+  { message: "Choose the month for a monthly statement", path: ["month"] }
+);
+
+export const createShareListingSchema = z.object({
+  slotId: z.string().uuid("Invalid slot ID"),
+  askingPrice: z.coerce.number().positive("Asking price must be greater than zero"),
+  notes: z.string().trim().max(1000).optional(),
+});
+
+export const shareOfferSchema = z.object({
+  amount: z.coerce.number().positive("Offer must be greater than zero"),
+  message: z.string().trim().max(1000).optional(),
+});
+
+export const settleShareTransferSchema = z.object({
+  paymentReference: z.string().trim().min(1, "Enter the bank reference of the buyer's payment").max(100),
+});
+
+export const cancelShareTransferSchema = z.object({
+  reason: z.string().trim().min(3, "Give a reason for cancelling").max(500),
+});
+
+export const governanceChoices = ["for", "against", "abstain"] as const;
+
+export const governanceCategoryLabels: Record<typeof governanceCategories[number], string> = {
+  tenant_selection: "Tenant selection",
+  major_repair: "Major repair",
+  property_sale: "Sale of the property",
+  property_manager: "Property manager",
+  other: "Other",
+};
+
+/**
+ * Quorum and threshold default to the co-ownership agreement's 3 of 4 when left out
+ */
+export const createGovernanceProposalSchema = z.object({
+  propertyId: z.string().uuid("Invalid property ID"),
+  category: z.enum(governanceCategories),
+  title: z.string().trim().min(3, "Title is required").max(200),
+  description: z.string().trim().min(10, "Describe what co-owners are deciding").max(5000),
+  quorumPercentage: z.coerce.number().gt(0, "Quorum must be greater than 0").max(100).optional(),
+  thresholdPercentage: z.coerce.number().gt(50, "Threshold must be more than half of the votes").max(100).optional(),
+  deadline: z.coerce.date(),
+});
+
+export const requestBallotSchema = z.object({
+  choice: z.enum(governanceChoices),
+  channel: z.enum(otpChannels).optional(),
+});
+
+export const castBallotSchema = z.object({
+  choice: z.enum(governanceChoices),
+  otp: z.string().length(6, "OTP must be 6 digits"),
+});
+
+export const cancelGovernanceProposalSchema = z.object({
+  reason: z.string().trim().min(3, "Give a reason for cancelling").max(500),
+});
+
+/**
+ * Put a property up for sale under a passed property_sale proposal
+ */
+export const openPropertyExitSchema = z.object({
+  proposalId: z.string().min(1, "Choose the resolution to sell"),
+  askingPrice: z.coerce.number().positive("Asking price must be greater than 0"),
+  listingAgent: z.string().trim().max(200).optional(),
+  listingReference: z.string().trim().max(100).optional(),
+  notes: z.string().trim().max(1000).optional(),
+});
+
+export const recordExitOfferSchema = z.object({
+  buyerName: z.string().trim().min(2, "Enter the buyer's name").max(200),
+  buyerEmail: z.string().trim().email("Enter a valid email").optional().or(z.literal("")),
+  amount: z.coerce.number().positive("Offer must be greater than 0"),
+  notes: z.string().trim().max(1000).optional(),
+});
+
+/**
+ * Costs of sale deducted before the proceeds are shared, and the references of the completed transfer
+ */
+export const completePropertyExitSchema = z.object({
+  dldTransferFee: z.coerce.number().min(0),
+  agencyCommission: z.coerce.number().min(0).default(0),
+  otherCosts: z.coerce.number().min(0).default(0),
+  transferReference: z.string().trim().min(1, "Enter the DLD transfer reference").max(100),
+  paymentReference: z.string().trim().min(1, "Enter the bank reference of the buyer's payment").max(100),
+});
+
+export const withdrawPropertyExitSchema = z.object({
+  reason: z.string().trim().min(3, "Give a reason").max(500),
+});
+
+export const markExitPayoutPaidSchema = z.object({
+  paymentReference: z.string().trim().min(1, "Enter the bank reference of the transfer").max(100),
+});
+
+export const matchBankTransactionSchema = z.object({
+  slotId: z.string().uuid("Invalid slot ID"),
+  shortfallNote: z.string().trim().min(3, "Say why the shortfall is accepted").max(500).optional(),
+});
+
+export const ignoreBankTransactionSchema = z.object({
+  note: z.string().trim().min(3, "Say why this credit is not a co-owner payment").max(500),
+});
+
+export const insertBankStatementImportSchema = createInsertSchema(bankStatementImports).omit({
+  id: true,
+  importedAt: true,
+});
+
+export const insertBankTransactionSchema = createInsertSchema(bankTransactions).omit({
+  id: true,
+  status: true,
+  matchNote: true,
+  slotId: true,
+  paymentId: true,
+  matchedBy: true,
+  matchedAt: true,
+  createdAt: true,
+});
+
+export const insertPaymentWebhookEventSchema = createInsertSchema(paymentWebhookEvents).omit({
+  id: true,
+  deliveryCount: true,
+  receivedAt: true,
+  lastDeliveredAt: true,
+});
+
 export const insertDldExportSchema = createInsertSchema(dldExports).omit({
   id: true,
   generatedAt: true,
@@ -328,6 +1370,7 @@ export const insertCoOwnerInvitationSchema = createInsertSchema(coOwnerInvitatio
 
 export const loginSchema = z.object({
   email: z.string().email("Invalid email address"),
+  channel: z.enum(otpChannels).optional(),
 });
 
 export const verifyOtpSchema = z.object({
@@ -379,20 +1422,112 @@ export const sendInvitationsSchema = z.object({
   })).min(1, "At least one invitation is required")
 });
 
+export const reservationStatuses = ["draft", "invitations_sent", "all_signed", "payment_pending", "payment_complete", "closed", "cancelled"] as const;
+
+export const changeReservationStatusSchema = z.object({
+  status: z.enum(reservationStatuses),
+  reason: z.string().trim().min(3).max(500).optional(),
+});
+
 export const acceptInvitationSchema = z.object({
   invitationToken: z.string().min(32, "Invalid invitation token"),
   investorId: z.string().uuid("Invalid investor ID"),
 });
 
+export const propertyFundingStatuses = ["available", "fully_funded"] as const;
+
+export const propertyListQuerySchema = z.object({
+  location: z.string().trim().min(1).optional(),
+  minPrice: z.coerce.number().nonnegative().optional(),
+  maxPrice: z.coerce.number().nonnegative().optional(),
+  bedrooms: z.coerce.number().int().min(0).optional(),
+  fundingStatus: z.enum(propertyFundingStatuses).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(50).default(12),
+}).refine(
+  data => data.minPrice === undefined || data.maxPrice === undefined || data.minPrice <= data.maxPrice,
+  { message: "minPrice must not exceed maxPrice", path: ["minPrice"] }
+);
+
 export type Investor = typeof investors.$inferSelect;
+// Investor as sent to clients; totalInvested is the balance of their capital account in the ledger
+export type InvestorWithTotals = Investor & { totalInvested: string };
 export type InsertInvestor = z.infer<typeof insertInvestorSchema>;
 export type Fraction = typeof fractions.$inferSelect;
 export type InsertFraction = z.infer<typeof insertFractionSchema>;
 export type Property = typeof properties.$inferSelect;
 export type InsertProperty = z.infer<typeof insertPropertySchema>;
+export type PropertyListQuery = z.infer<typeof propertyListQuerySchema>;
+export type PropertyFundingStatus = typeof propertyFundingStatuses[number];
+export type PropertyStatus = typeof propertyStatuses[number];
+export type PropertyMedia = typeof propertyMedia.$inferSelect;
+export type InsertPropertyMedia = z.infer<typeof insertPropertyMediaSchema>;
+export type PropertyMediaType = typeof propertyMediaTypes[number];
+export type PaymentPlanInstalment = typeof paymentPlanInstalments.$inferSelect;
+export type InsertPaymentPlanInstalment = z.infer<typeof insertPaymentPlanInstalmentSchema>;
+export type InstalmentPayment = typeof instalmentPayments.$inferSelect;
+export type InsertInstalmentPayment = z.infer<typeof insertInstalmentPaymentSchema>;
+export type PaymentPlanInput = z.infer<typeof paymentPlanSchema>;
+export type BankStatementImport = typeof bankStatementImports.$inferSelect;
+export type InsertBankStatementImport = z.infer<typeof insertBankStatementImportSchema>;
+export type BankTransaction = typeof bankTransactions.$inferSelect;
+export type InsertBankTransaction = z.infer<typeof insertBankTransactionSchema>;
+export type Refund = typeof refunds.$inferSelect;
+export type InsertRefund = z.infer<typeof insertRefundSchema>;
+export type PaymentReceipt = typeof paymentReceipts.$inferSelect;
+export type InsertPaymentReceipt = z.infer<typeof insertPaymentReceiptSchema>;
+export type LedgerAccountType = typeof ledgerAccountTypes[number];
+export type LedgerAccount = typeof ledgerAccounts.$inferSelect;
+export type InsertLedgerAccount = z.infer<typeof insertLedgerAccountSchema>;
+export type JournalEntry = typeof journalEntries.$inferSelect;
+export type InsertJournalEntry = z.infer<typeof insertJournalEntrySchema>;
+export type JournalLine = typeof journalLines.$inferSelect;
+export type RentalDistribution = typeof rentalDistributions.$inferSelect;
+export type InsertRentalDistribution = z.infer<typeof insertRentalDistributionSchema>;
+export type RentalPayout = typeof rentalPayouts.$inferSelect;
+export type InsertRentalPayout = z.infer<typeof insertRentalPayoutSchema>;
+export type RecordRentalIncomeInput = z.infer<typeof recordRentalIncomeSchema>;
+export type ExpenseCategory = typeof expenseCategories[number];
+export type PropertyExpense = typeof propertyExpenses.$inferSelect;
+export type InsertPropertyExpense = z.infer<typeof insertPropertyExpenseSchema>;
+export type ExpenseAllocation = typeof expenseAllocations.$inferSelect;
+export type ExpenseApproval = typeof expenseApprovals.$inferSelect;
+export type RecordExpenseInput = z.infer<typeof recordExpenseSchema>;
+export type ShareListing = typeof shareListings.$inferSelect;
+export type ShareOffer = typeof shareOffers.$inferSelect;
+export type ShareTransfer = typeof shareTransfers.$inferSelect;
+export type CreateShareListingInput = z.infer<typeof createShareListingSchema>;
+export type ShareOfferInput = z.infer<typeof shareOfferSchema>;
+export type GovernanceCategory = typeof governanceCategories[number];
+export type GovernanceChoice = typeof governanceChoices[number];
+export type GovernanceProposal = typeof governanceProposals.$inferSelect;
+export type GovernanceVoter = typeof governanceVoters.$inferSelect;
+export type GovernanceVote = typeof governanceVotes.$inferSelect;
+export type CreateGovernanceProposalInput = z.infer<typeof createGovernanceProposalSchema>;
+export type PropertyExit = typeof propertyExits.$inferSelect;
+export type ExitOffer = typeof exitOffers.$inferSelect;
+export type ExitPayout = typeof exitPayouts.$inferSelect;
+export type OpenPropertyExitInput = z.infer<typeof openPropertyExitSchema>;
+export type RecordExitOfferInput = z.infer<typeof recordExitOfferSchema>;
+export type CompletePropertyExitInput = z.infer<typeof completePropertyExitSchema>;
+export type OwnerStatement = typeof ownerStatements.$inferSelect;
+export type InsertOwnerStatement = z.infer<typeof insertOwnerStatementSchema>;
+export type OwnerStatementRequest = z.infer<typeof ownerStatementRequestSchema>;
+export type RefundPaymentInput = z.infer<typeof refundPaymentSchema>;
+export type PaymentWebhookEvent = typeof paymentWebhookEvents.$inferSelect;
+export type InsertPaymentWebhookEvent = z.infer<typeof insertPaymentWebhookEventSchema>;
+export type ConstructionStage = typeof constructionStages[number];
+export type ConstructionMilestone = typeof constructionMilestones.$inferSelect;
+export type InsertConstructionMilestone = z.infer<typeof insertConstructionMilestoneSchema>;
+export type ConstructionUpdate = typeof constructionUpdates.$inferSelect;
+export type InsertConstructionUpdate = z.infer<typeof insertConstructionUpdateSchema>;
+export type ConstructionUpdateInput = z.infer<typeof constructionUpdateSchema>;
+export type AdminPropertyInput = z.infer<typeof adminPropertySchema>;
 export type Payment = typeof payments.$inferSelect;
 export type InsertPayment = z.infer<typeof insertPaymentSchema>;
 export type AdminUser = typeof adminUsers.$inferSelect;
+export type OtpCode = typeof otpCodes.$inferSelect;
+export type InsertAdminUser = z.infer<typeof insertAdminUserSchema>;
 export type AgreementTemplate = typeof agreementTemplates.$inferSelect;
 export type InsertAgreementTemplate = z.infer<typeof insertAgreementTemplateSchema>;
 export type SignatureSession = typeof signatureSessions.$inferSelect;
@@ -409,6 +1544,8 @@ export type DldExport = typeof dldExports.$inferSelect;
 export type InsertDldExport = z.infer<typeof insertDldExportSchema>;
 export type PropertyReservation = typeof propertyReservations.$inferSelect;
 export type InsertPropertyReservation = z.infer<typeof insertPropertyReservationSchema>;
+export type ReservationStatus = typeof reservationStatuses[number];
+export type ReservationStatusChange = typeof reservationStatusHistory.$inferSelect;
 export type CoOwnerSlot = typeof coOwnerSlots.$inferSelect;
 export type InsertCoOwnerSlot = z.infer<typeof insertCoOwnerSlotSchema>;
 export type CoOwnerInvitation = typeof coOwnerInvitations.$inferSelect;